@@ -0,0 +1,48 @@
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { importMailFiles } from '@/lib/importQueries';
+import { findUsersByAddresses } from '@/lib/userQueries';
+
+// Imports .mbox / .eml files into a user's mailbox -
+// `npm run import -- user@example.com mail/archive.mbox mail/note.eml`
+async function main() {
+  const [address, ...paths] = process.argv.slice(2);
+  if (!address || !paths.length) {
+    console.error('Usage: npm run import -- <user email> <file.mbox|file.eml> [...more files]');
+    process.exit(1);
+  }
+
+  const [owner] = await findUsersByAddresses([address]);
+  if (!owner) {
+    console.error(`❌ No user with the email ${address}`);
+    process.exit(1);
+  }
+
+  const files = await Promise.all(
+    paths.map(async (file) => ({ name: path.basename(file), data: await readFile(file) })),
+  );
+
+  console.log(`📥 Importing ${paths.length} file(s) for ${owner.email}...`);
+  let reported = 0;
+  const result = await importMailFiles(owner, files, {
+    onProgress: ({ processed, total }) => {
+      // Report every 10%, and the end
+      if (processed === total || processed - reported >= Math.max(1, total / 10)) {
+        reported = processed;
+        console.log(`   ${processed}/${total} messages`);
+      }
+    },
+  });
+
+  result.failed.forEach(({ file, index, error }) =>
+    console.warn(`⚠️ ${file} message ${index + 1}: ${error}`),
+  );
+  console.log(
+    `✅ Imported ${result.imported} email(s), skipped ${result.skipped} already stored, ${result.failed.length} failed`,
+  );
+}
+
+main().catch((e) => {
+  console.error('❌ Error importing emails:', e);
+  process.exit(1);
+});
@@ -0,0 +1,24 @@
+import { runJobs, startJobRunner, JOB_INTERVAL_MS } from '@/lib/jobRunner';
+
+// Standalone job runner - `npm run jobs` keeps running, `npm run jobs -- --once` runs one pass
+async function main() {
+  if (process.argv.includes('--once')) {
+    await runJobs();
+    console.log('✅ Jobs completed');
+    return;
+  }
+
+  console.log(`⏱️ Running jobs every ${JOB_INTERVAL_MS / 1000}s (Ctrl+C to stop)`);
+  const stop = startJobRunner();
+
+  process.on('SIGINT', () => {
+    stop();
+    console.log('👋 Job runner stopped');
+    process.exit(0);
+  });
+}
+
+main().catch((e) => {
+  console.error('❌ Error running jobs:', e);
+  process.exit(1);
+});
@@ -0,0 +1,19 @@
+import { setPassword, UserError } from '@/lib/userQueries';
+
+// Sets a user's password - `npm run user:password -- ana@example.com 'a new long password'`
+async function main() {
+  const [email, password] = process.argv.slice(2);
+  if (!email || !password) {
+    console.error('Usage: npm run user:password -- <email> <password>');
+    process.exit(1);
+  }
+
+  const user = await setPassword(email, password);
+  console.log(`✅ Set the password for ${user.email}`);
+}
+
+main().catch((e) => {
+  if (e instanceof UserError) console.error(`❌ ${e.message}`);
+  else console.error('❌ Error setting the password:', e);
+  process.exit(1);
+});
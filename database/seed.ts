@@ -1,12 +1,26 @@
 import { db } from '@/lib/database';
-import { Email, EmailDirection, emails } from '@/lib/schema';
+import { Email, EmailDirection, EmailStatus, emails } from '@/lib/schema';
 import { recalculateStats } from '@/lib/statsQueries';
+import { createUser, findUsersByAddresses } from '@/lib/userQueries';
+import { findSenderMailbox } from '@/lib/mailboxQueries';
+import { recordContacts } from '@/lib/contactQueries';
+import { buildReferences } from '@/lib/utils';
+import { MESSAGE_ID_DOMAIN } from '@/types';
+
+// The demo account the sample emails belong to
+const DEMO_USER = {
+  email: 'user@example.com',
+  password: process.env.SEED_PASSWORD || 'password123',
+  name: 'Demo User',
+};
 
 // Create sample emails organized into threads
 export const emailData: Email[] = [
   // Thread 1: Project Discussion (5 emails)
   {
     id: 1,
+    ownerId: 1,
+    mailboxId: null,
     threadId: 'thread-001',
     subject: 'New Project Proposal',
     from: 'sarah.johnson@company.com',
@@ -18,12 +32,26 @@ export const emailData: Email[] = [
     isRead: false,
     isImportant: true,
     isDeleted: false,
+    isArchived: false,
+    isDraft: false,
+    status: EmailStatus.SENT,
+    scheduledAt: null,
+    snoozedUntil: null,
+    messageId: null,
+    inReplyTo: null,
+    references: null,
+    deliveryStatus: null,
+    deliveryError: null,
+    deliveryAttempts: 0,
+    nextDeliveryAt: null,
     direction: EmailDirection.INCOMING,
     createdAt: new Date('2025-01-01'),
     updatedAt: new Date('2025-01-01'),
   },
   {
     id: 2,
+    ownerId: 1,
+    mailboxId: null,
     threadId: 'thread-001',
     subject: 'Re: New Project Proposal',
     from: 'mike.chen@company.com',
@@ -35,12 +63,26 @@ export const emailData: Email[] = [
     isRead: true,
     isImportant: false,
     isDeleted: false,
+    isArchived: false,
+    isDraft: false,
+    status: EmailStatus.SENT,
+    scheduledAt: null,
+    snoozedUntil: null,
+    messageId: null,
+    inReplyTo: null,
+    references: null,
+    deliveryStatus: null,
+    deliveryError: null,
+    deliveryAttempts: 0,
+    nextDeliveryAt: null,
     direction: EmailDirection.INCOMING,
     createdAt: new Date('2025-01-02'),
     updatedAt: new Date('2025-01-02'),
   },
   {
     id: 3,
+    ownerId: 1,
+    mailboxId: null,
     threadId: 'thread-001',
     subject: 'Re: New Project Proposal',
     from: 'lisa.wang@company.com',
@@ -52,12 +94,26 @@ export const emailData: Email[] = [
     isRead: true,
     isImportant: false,
     isDeleted: false,
+    isArchived: false,
+    isDraft: false,
+    status: EmailStatus.SENT,
+    scheduledAt: null,
+    snoozedUntil: null,
+    messageId: null,
+    inReplyTo: null,
+    references: null,
+    deliveryStatus: null,
+    deliveryError: null,
+    deliveryAttempts: 0,
+    nextDeliveryAt: null,
     direction: EmailDirection.INCOMING,
     createdAt: new Date('2025-01-03'),
     updatedAt: new Date('2025-01-03'),
   },
   {
     id: 4,
+    ownerId: 1,
+    mailboxId: null,
     threadId: 'thread-001',
     subject: 'Re: New Project Proposal',
     from: 'sarah.johnson@company.com',
@@ -69,12 +125,26 @@ export const emailData: Email[] = [
     isRead: false,
     isImportant: true,
     isDeleted: false,
+    isArchived: false,
+    isDraft: false,
+    status: EmailStatus.SENT,
+    scheduledAt: null,
+    snoozedUntil: null,
+    messageId: null,
+    inReplyTo: null,
+    references: null,
+    deliveryStatus: null,
+    deliveryError: null,
+    deliveryAttempts: 0,
+    nextDeliveryAt: null,
     direction: EmailDirection.INCOMING,
     createdAt: new Date('2025-01-04'),
     updatedAt: new Date('2025-01-04'),
   },
   {
     id: 5,
+    ownerId: 1,
+    mailboxId: null,
     threadId: 'thread-001',
     subject: 'Re: New Project Proposal',
     from: 'david.kim@company.com',
@@ -85,6 +155,18 @@ export const emailData: Email[] = [
     isRead: true,
     isImportant: false,
     isDeleted: false,
+    isArchived: false,
+    isDraft: false,
+    status: EmailStatus.SENT,
+    scheduledAt: null,
+    snoozedUntil: null,
+    messageId: null,
+    inReplyTo: null,
+    references: null,
+    deliveryStatus: null,
+    deliveryError: null,
+    deliveryAttempts: 0,
+    nextDeliveryAt: null,
     direction: EmailDirection.INCOMING,
     createdAt: new Date('2025-01-05'),
     updatedAt: new Date('2025-01-05'),
@@ -93,6 +175,8 @@ export const emailData: Email[] = [
   // Thread 2: Client Communication (4 emails)
   {
     id: 6,
+    ownerId: 1,
+    mailboxId: null,
     threadId: 'thread-002',
     subject: 'Website Redesign Update',
     from: 'client@acmecorp.com',
@@ -104,12 +188,26 @@ export const emailData: Email[] = [
     isRead: false,
     isImportant: true,
     isDeleted: false,
+    isArchived: false,
+    isDraft: false,
+    status: EmailStatus.SENT,
+    scheduledAt: null,
+    snoozedUntil: null,
+    messageId: null,
+    inReplyTo: null,
+    references: null,
+    deliveryStatus: null,
+    deliveryError: null,
+    deliveryAttempts: 0,
+    nextDeliveryAt: null,
     direction: EmailDirection.INCOMING,
     createdAt: new Date('2025-01-06'),
     updatedAt: new Date('2025-01-06'),
   },
   {
     id: 7,
+    ownerId: 1,
+    mailboxId: null,
     threadId: 'thread-002',
     subject: 'Re: Website Redesign Update',
     from: 'design@company.com',
@@ -121,12 +219,26 @@ export const emailData: Email[] = [
     isRead: true,
     isImportant: false,
     isDeleted: false,
+    isArchived: false,
+    isDraft: false,
+    status: EmailStatus.SENT,
+    scheduledAt: null,
+    snoozedUntil: null,
+    messageId: null,
+    inReplyTo: null,
+    references: null,
+    deliveryStatus: null,
+    deliveryError: null,
+    deliveryAttempts: 0,
+    nextDeliveryAt: null,
     direction: EmailDirection.INCOMING,
     createdAt: new Date('2025-01-07'),
     updatedAt: new Date('2025-01-07'),
   },
   {
     id: 8,
+    ownerId: 1,
+    mailboxId: null,
     threadId: 'thread-002',
     subject: 'Re: Website Redesign Update',
     from: 'client@acmecorp.com',
@@ -138,12 +250,26 @@ export const emailData: Email[] = [
     isRead: false,
     isImportant: false,
     isDeleted: false,
+    isArchived: false,
+    isDraft: false,
+    status: EmailStatus.SENT,
+    scheduledAt: null,
+    snoozedUntil: null,
+    messageId: null,
+    inReplyTo: null,
+    references: null,
+    deliveryStatus: null,
+    deliveryError: null,
+    deliveryAttempts: 0,
+    nextDeliveryAt: null,
     direction: EmailDirection.INCOMING,
     createdAt: new Date('2025-01-08'),
     updatedAt: new Date('2025-01-08'),
   },
   {
     id: 9,
+    ownerId: 1,
+    mailboxId: null,
     threadId: 'thread-002',
     subject: 'Re: Website Redesign Update',
     from: 'design@company.com',
@@ -155,6 +281,18 @@ export const emailData: Email[] = [
     isRead: true,
     isImportant: false,
     isDeleted: false,
+    isArchived: false,
+    isDraft: false,
+    status: EmailStatus.SENT,
+    scheduledAt: null,
+    snoozedUntil: null,
+    messageId: null,
+    inReplyTo: null,
+    references: null,
+    deliveryStatus: null,
+    deliveryError: null,
+    deliveryAttempts: 0,
+    nextDeliveryAt: null,
     direction: EmailDirection.INCOMING,
     createdAt: new Date('2025-01-09'),
     updatedAt: new Date('2025-01-09'),
@@ -163,6 +301,8 @@ export const emailData: Email[] = [
   // Thread 3: Technical Discussion (4 emails)
   {
     id: 10,
+    ownerId: 1,
+    mailboxId: null,
     threadId: 'thread-003',
     subject: 'Database Performance Issue',
     from: 'devops@company.com',
@@ -174,12 +314,26 @@ export const emailData: Email[] = [
     isRead: false,
     isImportant: true,
     isDeleted: false,
+    isArchived: false,
+    isDraft: false,
+    status: EmailStatus.SENT,
+    scheduledAt: null,
+    snoozedUntil: null,
+    messageId: null,
+    inReplyTo: null,
+    references: null,
+    deliveryStatus: null,
+    deliveryError: null,
+    deliveryAttempts: 0,
+    nextDeliveryAt: null,
     direction: EmailDirection.INCOMING,
     createdAt: new Date('2025-01-10'),
     updatedAt: new Date('2025-01-10'),
   },
   {
     id: 11,
+    ownerId: 1,
+    mailboxId: null,
     threadId: 'thread-003',
     subject: 'Re: Database Performance Issue',
     from: 'alex.rodriguez@company.com',
@@ -191,12 +345,26 @@ export const emailData: Email[] = [
     isRead: true,
     isImportant: false,
     isDeleted: false,
+    isArchived: false,
+    isDraft: false,
+    status: EmailStatus.SENT,
+    scheduledAt: null,
+    snoozedUntil: null,
+    messageId: null,
+    inReplyTo: null,
+    references: null,
+    deliveryStatus: null,
+    deliveryError: null,
+    deliveryAttempts: 0,
+    nextDeliveryAt: null,
     direction: EmailDirection.INCOMING,
     createdAt: new Date('2025-01-11'),
     updatedAt: new Date('2025-01-11'),
   },
   {
     id: 12,
+    ownerId: 1,
+    mailboxId: null,
     threadId: 'thread-003',
     subject: 'Re: Database Performance Issue',
     from: 'devops@company.com',
@@ -208,12 +376,26 @@ export const emailData: Email[] = [
     isRead: true,
     isImportant: false,
     isDeleted: false,
+    isArchived: false,
+    isDraft: false,
+    status: EmailStatus.SENT,
+    scheduledAt: null,
+    snoozedUntil: null,
+    messageId: null,
+    inReplyTo: null,
+    references: null,
+    deliveryStatus: null,
+    deliveryError: null,
+    deliveryAttempts: 0,
+    nextDeliveryAt: null,
     direction: EmailDirection.INCOMING,
     createdAt: new Date('2025-01-12'),
     updatedAt: new Date('2025-01-12'),
   },
   {
     id: 13,
+    ownerId: 1,
+    mailboxId: null,
     threadId: 'thread-003',
     subject: 'Re: Database Performance Issue',
     from: 'alex.rodriguez@company.com',
@@ -225,6 +407,18 @@ export const emailData: Email[] = [
     isRead: false,
     isImportant: true,
     isDeleted: false,
+    isArchived: false,
+    isDraft: false,
+    status: EmailStatus.SENT,
+    scheduledAt: null,
+    snoozedUntil: null,
+    messageId: null,
+    inReplyTo: null,
+    references: null,
+    deliveryStatus: null,
+    deliveryError: null,
+    deliveryAttempts: 0,
+    nextDeliveryAt: null,
     direction: EmailDirection.INCOMING,
     createdAt: new Date('2025-01-13'),
     updatedAt: new Date('2025-01-13'),
@@ -233,6 +427,8 @@ export const emailData: Email[] = [
   // Thread 4: Marketing Campaign (3 emails)
   {
     id: 14,
+    ownerId: 1,
+    mailboxId: null,
     threadId: 'thread-004',
     subject: 'Q1 Marketing Campaign Ideas',
     from: 'marketing@company.com',
@@ -244,12 +440,26 @@ export const emailData: Email[] = [
     isRead: false,
     isImportant: false,
     isDeleted: false,
+    isArchived: false,
+    isDraft: false,
+    status: EmailStatus.SENT,
+    scheduledAt: null,
+    snoozedUntil: null,
+    messageId: null,
+    inReplyTo: null,
+    references: null,
+    deliveryStatus: null,
+    deliveryError: null,
+    deliveryAttempts: 0,
+    nextDeliveryAt: null,
     direction: EmailDirection.INCOMING,
     createdAt: new Date('2025-01-14'),
     updatedAt: new Date('2025-01-14'),
   },
   {
     id: 15,
+    ownerId: 1,
+    mailboxId: null,
     threadId: 'thread-004',
     subject: 'Re: Q1 Marketing Campaign Ideas',
     from: 'creative@company.com',
@@ -261,12 +471,26 @@ export const emailData: Email[] = [
     isRead: true,
     isImportant: false,
     isDeleted: false,
+    isArchived: false,
+    isDraft: false,
+    status: EmailStatus.SENT,
+    scheduledAt: null,
+    snoozedUntil: null,
+    messageId: null,
+    inReplyTo: null,
+    references: null,
+    deliveryStatus: null,
+    deliveryError: null,
+    deliveryAttempts: 0,
+    nextDeliveryAt: null,
     direction: EmailDirection.INCOMING,
     createdAt: new Date('2025-01-15'),
     updatedAt: new Date('2025-01-15'),
   },
   {
     id: 16,
+    ownerId: 1,
+    mailboxId: null,
     threadId: 'thread-004',
     subject: 'Re: Q1 Marketing Campaign Ideas',
     from: 'marketing@company.com',
@@ -278,6 +502,18 @@ export const emailData: Email[] = [
     isRead: false,
     isImportant: false,
     isDeleted: false,
+    isArchived: false,
+    isDraft: false,
+    status: EmailStatus.SENT,
+    scheduledAt: null,
+    snoozedUntil: null,
+    messageId: null,
+    inReplyTo: null,
+    references: null,
+    deliveryStatus: null,
+    deliveryError: null,
+    deliveryAttempts: 0,
+    nextDeliveryAt: null,
     direction: EmailDirection.INCOMING,
     createdAt: new Date('2025-01-16'),
     updatedAt: new Date('2025-01-16'),
@@ -286,6 +522,8 @@ export const emailData: Email[] = [
   // Thread 5: Personal Messages (4 emails)
   {
     id: 17,
+    ownerId: 1,
+    mailboxId: null,
     threadId: 'thread-005',
     subject: 'Coffee Chat?',
     from: 'colleague@company.com',
@@ -297,12 +535,26 @@ export const emailData: Email[] = [
     isRead: false,
     isImportant: false,
     isDeleted: false,
+    isArchived: false,
+    isDraft: false,
+    status: EmailStatus.SENT,
+    scheduledAt: null,
+    snoozedUntil: null,
+    messageId: null,
+    inReplyTo: null,
+    references: null,
+    deliveryStatus: null,
+    deliveryError: null,
+    deliveryAttempts: 0,
+    nextDeliveryAt: null,
     direction: EmailDirection.INCOMING,
     createdAt: new Date('2025-01-17'),
     updatedAt: new Date('2025-01-17'),
   },
   {
     id: 18,
+    ownerId: 1,
+    mailboxId: null,
     threadId: 'thread-004',
     subject: 'Re: Coffee Chat?',
     from: 'user@example.com',
@@ -313,12 +565,26 @@ export const emailData: Email[] = [
     isRead: true,
     isImportant: false,
     isDeleted: false,
+    isArchived: false,
+    isDraft: false,
+    status: EmailStatus.SENT,
+    scheduledAt: null,
+    snoozedUntil: null,
+    messageId: null,
+    inReplyTo: null,
+    references: null,
+    deliveryStatus: null,
+    deliveryError: null,
+    deliveryAttempts: 0,
+    nextDeliveryAt: null,
     direction: EmailDirection.INCOMING,
     createdAt: new Date('2025-01-18'),
     updatedAt: new Date('2025-01-18'),
   },
   {
     id: 19,
+    ownerId: 1,
+    mailboxId: null,
     threadId: 'thread-005',
     subject: 'Re: Coffee Chat?',
     from: 'colleague@company.com',
@@ -329,12 +595,26 @@ export const emailData: Email[] = [
     isRead: false,
     isImportant: false,
     isDeleted: false,
+    isArchived: false,
+    isDraft: false,
+    status: EmailStatus.SENT,
+    scheduledAt: null,
+    snoozedUntil: null,
+    messageId: null,
+    inReplyTo: null,
+    references: null,
+    deliveryStatus: null,
+    deliveryError: null,
+    deliveryAttempts: 0,
+    nextDeliveryAt: null,
     direction: EmailDirection.INCOMING,
     createdAt: new Date('2025-01-19'),
     updatedAt: new Date('2025-01-19'),
   },
   {
     id: 20,
+    ownerId: 1,
+    mailboxId: null,
     threadId: 'thread-005',
     subject: 'Re: Coffee Chat?',
     from: 'user@example.com',
@@ -345,6 +625,18 @@ export const emailData: Email[] = [
     isRead: true,
     isImportant: false,
     isDeleted: false,
+    isArchived: false,
+    isDraft: false,
+    status: EmailStatus.SENT,
+    scheduledAt: null,
+    snoozedUntil: null,
+    messageId: null,
+    inReplyTo: null,
+    references: null,
+    deliveryStatus: null,
+    deliveryError: null,
+    deliveryAttempts: 0,
+    nextDeliveryAt: null,
     direction: EmailDirection.INCOMING,
     createdAt: new Date('2025-01-20'),
     updatedAt: new Date('2025-01-20'),
@@ -362,6 +654,26 @@ for (const email of mostRecentEmails) {
   }
 }
 
+/**
+ * Gives each seed email a Message-ID and makes it a reply to the previous email in its thread
+ */
+function withMessageHeaders(data: Email[]): Email[] {
+  const latestByThread = new Map<string, Email>();
+  return [...data]
+    .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+    .map((email) => {
+      const parent = latestByThread.get(email.threadId);
+      const withHeaders = {
+        ...email,
+        messageId: `<seed-${email.id}@${MESSAGE_ID_DOMAIN}>`,
+        inReplyTo: parent?.messageId ?? null,
+        references: parent ? buildReferences(parent) : null,
+      };
+      latestByThread.set(email.threadId, withHeaders);
+      return withHeaders;
+    });
+}
+
 async function main() {
   console.log('🌱 Starting database seed...');
 
@@ -372,14 +684,33 @@ async function main() {
     return;
   }
 
+  let [owner] = await findUsersByAddresses([DEMO_USER.email]);
+  if (!owner) {
+    owner = await createUser(DEMO_USER);
+    console.log(`✅ Created user ${owner.email} (password: ${DEMO_USER.password})`);
+  }
+  const mailbox = await findSenderMailbox(owner.id);
+
   const insertedEmails = await Promise.all(
-    emailData.map((email) => db.insert(emails).values(email).returning()),
+    withMessageHeaders(emailData).map((email) =>
+      db
+        .insert(emails)
+        .values({ ...email, ownerId: owner.id, mailboxId: mailbox?.id })
+        .returning(),
+    ),
   );
 
   console.log(`✅ Created ${insertedEmails.length} emails`);
 
+  // Drafts have not been sent to anyone yet
+  await recordContacts(
+    owner.id,
+    insertedEmails.flat().filter((email) => !email.isDraft),
+  );
+  console.log('✅ Recorded contacts');
+
   // Initialize stats lookup table
-  await recalculateStats();
+  await recalculateStats(owner.id);
   console.log('✅ Initialized stats lookup table');
 
   console.log('🎉 Database seeding completed successfully!');
@@ -0,0 +1,18 @@
+import { startInboundSmtpListener, INBOUND_SMTP_HOST, INBOUND_SMTP_PORT } from '@/lib/inboundSmtp';
+
+// Standalone inbound SMTP listener - `npm run smtp` stores mail sent to INBOUND_SMTP_PORT
+async function main() {
+  const listener = await startInboundSmtpListener();
+  console.log(`📬 Receiving mail on ${INBOUND_SMTP_HOST}:${INBOUND_SMTP_PORT} (Ctrl+C to stop)`);
+
+  process.on('SIGINT', async () => {
+    await listener.close();
+    console.log('👋 SMTP listener stopped');
+    process.exit(0);
+  });
+}
+
+main().catch((e) => {
+  console.error('❌ Error starting SMTP listener:', e);
+  process.exit(1);
+});
@@ -0,0 +1,19 @@
+import { createUser, UserError } from '@/lib/userQueries';
+
+// Adds a user who can sign in - `npm run user:add -- ana@example.com 'a long password' 'Ana Lima'`
+async function main() {
+  const [email, password, name] = process.argv.slice(2);
+  if (!email || !password) {
+    console.error('Usage: npm run user:add -- <email> <password> [name]');
+    process.exit(1);
+  }
+
+  const user = await createUser({ email, password, name });
+  console.log(`✅ Created user ${user.email}`);
+}
+
+main().catch((e) => {
+  if (e instanceof UserError) console.error(`❌ ${e.message}`);
+  else console.error('❌ Error creating user:', e);
+  process.exit(1);
+});
@@ -4,6 +4,8 @@ export default defineConfig({
   schema: './src/lib/schema.ts',
   out: './drizzle',
   dialect: 'sqlite',
+  // The FTS5 search index and its shadow tables are managed by src/lib/searchIndex.ts
+  tablesFilter: ['!emails_fts*'],
   dbCredentials: {
     url: process.env.NODE_ENV === 'test' ? './sqlite.test.db' : './sqlite.db',
   },
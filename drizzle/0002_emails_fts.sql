@@ -0,0 +1,29 @@
+-- Full-text search index over emails (external-content FTS5 table kept in sync by triggers)
+-- Also applied at startup by ensureSearchIndex() in src/lib/searchIndex.ts
+CREATE VIRTUAL TABLE IF NOT EXISTS emails_fts USING fts5(
+  subject, "from", "to", cc, bcc, content,
+  content='emails',
+  content_rowid='id',
+  tokenize='unicode61 remove_diacritics 2'
+);
+--> statement-breakpoint
+CREATE TRIGGER IF NOT EXISTS emails_fts_ai AFTER INSERT ON emails BEGIN
+  INSERT INTO emails_fts(rowid, subject, "from", "to", cc, bcc, content)
+    VALUES (new.id, new.subject, new."from", new."to", new.cc, new.bcc, new.content);
+END;
+--> statement-breakpoint
+CREATE TRIGGER IF NOT EXISTS emails_fts_ad AFTER DELETE ON emails BEGIN
+  INSERT INTO emails_fts(emails_fts, rowid, subject, "from", "to", cc, bcc, content)
+    VALUES ('delete', old.id, old.subject, old."from", old."to", old.cc, old.bcc, old.content);
+END;
+--> statement-breakpoint
+CREATE TRIGGER IF NOT EXISTS emails_fts_au AFTER UPDATE OF subject, "from", "to", cc, bcc, content ON emails BEGIN
+  INSERT INTO emails_fts(emails_fts, rowid, subject, "from", "to", cc, bcc, content)
+    VALUES ('delete', old.id, old.subject, old."from", old."to", old.cc, old.bcc, old.content);
+  INSERT INTO emails_fts(rowid, subject, "from", "to", cc, bcc, content)
+    VALUES (new.id, new.subject, new."from", new."to", new.cc, new.bcc, new.content);
+END;
+--> statement-breakpoint
+INSERT INTO emails_fts(emails_fts, rank) VALUES ('rank', 'bm25(10, 5, 3, 2, 1, 1)');
+--> statement-breakpoint
+INSERT INTO emails_fts(emails_fts) VALUES ('rebuild');
@@ -0,0 +1,11 @@
+-- Attachments, stored by content hash under storage/attachments
+CREATE TABLE `attachments` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`email_id` integer NOT NULL,
+	`filename` text NOT NULL,
+	`mime_type` text NOT NULL,
+	`size` integer NOT NULL,
+	`content_hash` text NOT NULL,
+	`created_at` integer NOT NULL,
+	FOREIGN KEY (`email_id`) REFERENCES `emails`(`id`) ON UPDATE no action ON DELETE cascade
+);
@@ -0,0 +1,18 @@
+-- User-defined labels and the emails they are applied to
+CREATE TABLE `labels` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`name` text NOT NULL,
+	`color` text NOT NULL,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `labels_name_unique` ON `labels` (`name`);
+--> statement-breakpoint
+CREATE TABLE `email_labels` (
+	`email_id` integer NOT NULL,
+	`label_id` integer NOT NULL,
+	PRIMARY KEY(`email_id`, `label_id`),
+	FOREIGN KEY (`email_id`) REFERENCES `emails`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`label_id`) REFERENCES `labels`(`id`) ON UPDATE no action ON DELETE cascade
+);
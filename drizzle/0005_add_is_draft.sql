@@ -0,0 +1,2 @@
+-- Drafts saved by the composer
+ALTER TABLE `emails` ADD `is_draft` integer DEFAULT false NOT NULL;
@@ -0,0 +1,6 @@
+-- Scheduled send; existing mail keeps the default status of sent
+ALTER TABLE `emails` ADD `status` text DEFAULT 'sent' NOT NULL;
+--> statement-breakpoint
+ALTER TABLE `emails` ADD `scheduled_at` integer;
+--> statement-breakpoint
+ALTER TABLE `email_stats` ADD `scheduled_email_count` integer DEFAULT 0 NOT NULL;
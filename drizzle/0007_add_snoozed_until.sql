@@ -0,0 +1,2 @@
+-- Snoozed emails are hidden from the inbox until this time
+ALTER TABLE `emails` ADD `snoozed_until` integer;
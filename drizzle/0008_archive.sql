@@ -0,0 +1,4 @@
+-- Archive, with its count in the stats lookup table
+ALTER TABLE `emails` ADD `is_archived` integer DEFAULT false NOT NULL;
+--> statement-breakpoint
+ALTER TABLE `email_stats` ADD `archived_email_count` integer DEFAULT 0 NOT NULL;
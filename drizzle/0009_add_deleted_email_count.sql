@@ -0,0 +1,2 @@
+-- Count of emails in the trash, for its badge
+ALTER TABLE `email_stats` ADD `deleted_email_count` integer DEFAULT 0 NOT NULL;
@@ -0,0 +1,8 @@
+-- RFC 5322 threading headers; emails stored before this have no Message-ID
+ALTER TABLE `emails` ADD `message_id` text;
+--> statement-breakpoint
+ALTER TABLE `emails` ADD `in_reply_to` text;
+--> statement-breakpoint
+ALTER TABLE `emails` ADD `references` text;
+--> statement-breakpoint
+CREATE UNIQUE INDEX `emails_message_id_unique` ON `emails` (`message_id`);
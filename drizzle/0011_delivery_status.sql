@@ -0,0 +1,8 @@
+-- Delivery of outgoing mail through the mail transport; existing mail has no delivery status
+ALTER TABLE `emails` ADD `delivery_status` text;
+--> statement-breakpoint
+ALTER TABLE `emails` ADD `delivery_error` text;
+--> statement-breakpoint
+ALTER TABLE `emails` ADD `delivery_attempts` integer DEFAULT 0 NOT NULL;
+--> statement-breakpoint
+ALTER TABLE `emails` ADD `next_delivery_at` integer;
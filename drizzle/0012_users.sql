@@ -0,0 +1,130 @@
+-- User accounts and sign-in sessions; emails, labels and stats belong to a user from here on
+-- Mail and labels stored before accounts are given to the first user, or to an account
+-- owner@localhost created for them, which can sign in once given a password with
+-- `npm run user:password -- owner@localhost <password>`
+-- SQLite cannot add a NOT NULL column to a table with rows, so emails and labels are rebuilt
+-- with the owner filled in; run with foreign keys off so the rebuild keeps their references
+CREATE TABLE `users` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`email` text NOT NULL,
+	`name` text,
+	`password_hash` text NOT NULL,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `users_email_unique` ON `users` (`email`);
+--> statement-breakpoint
+CREATE TABLE `sessions` (
+	`id` text PRIMARY KEY NOT NULL,
+	`user_id` integer NOT NULL,
+	`expires_at` integer NOT NULL,
+	`created_at` integer NOT NULL,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+-- The password hash matches no password until one is set
+INSERT INTO `users` (`email`, `name`, `password_hash`, `created_at`, `updated_at`)
+SELECT 'owner@localhost', 'Mailbox owner', '!', strftime('%s', 'now'), strftime('%s', 'now')
+WHERE NOT EXISTS (SELECT 1 FROM `users`)
+  AND (EXISTS (SELECT 1 FROM `emails`) OR EXISTS (SELECT 1 FROM `labels`));
+--> statement-breakpoint
+PRAGMA foreign_keys=OFF;
+--> statement-breakpoint
+CREATE TABLE `__new_emails` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`owner_id` integer NOT NULL,
+	`thread_id` text NOT NULL,
+	`subject` text NOT NULL,
+	`from` text NOT NULL,
+	`to` text NOT NULL,
+	`cc` text,
+	`bcc` text,
+	`content` text,
+	`is_read` integer DEFAULT false NOT NULL,
+	`is_important` integer DEFAULT false NOT NULL,
+	`is_deleted` integer DEFAULT false NOT NULL,
+	`is_archived` integer DEFAULT false NOT NULL,
+	`direction` text DEFAULT 'incoming' NOT NULL,
+	`is_draft` integer DEFAULT false NOT NULL,
+	`status` text DEFAULT 'sent' NOT NULL,
+	`scheduled_at` integer,
+	`snoozed_until` integer,
+	`message_id` text,
+	`in_reply_to` text,
+	`references` text,
+	`delivery_status` text,
+	`delivery_error` text,
+	`delivery_attempts` integer DEFAULT 0 NOT NULL,
+	`next_delivery_at` integer,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL,
+	FOREIGN KEY (`owner_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+INSERT INTO `__new_emails` (`owner_id`, `id`, `thread_id`, `subject`, `from`, `to`, `cc`, `bcc`, `content`, `is_read`, `is_important`, `is_deleted`, `is_archived`, `direction`, `is_draft`, `status`, `scheduled_at`, `snoozed_until`, `message_id`, `in_reply_to`, `references`, `delivery_status`, `delivery_error`, `delivery_attempts`, `next_delivery_at`, `created_at`, `updated_at`)
+SELECT (SELECT min(`id`) FROM `users`), `id`, `thread_id`, `subject`, `from`, `to`, `cc`, `bcc`, `content`, `is_read`, `is_important`, `is_deleted`, `is_archived`, `direction`, `is_draft`, `status`, `scheduled_at`, `snoozed_until`, `message_id`, `in_reply_to`, `references`, `delivery_status`, `delivery_error`, `delivery_attempts`, `next_delivery_at`, `created_at`, `updated_at` FROM `emails`;
+--> statement-breakpoint
+DROP TABLE `emails`;
+--> statement-breakpoint
+ALTER TABLE `__new_emails` RENAME TO `emails`;
+--> statement-breakpoint
+-- Message-IDs are unique within a mailbox rather than across all of them
+CREATE UNIQUE INDEX `emails_owner_message_id_idx` ON `emails` (`owner_id`,`message_id`);
+--> statement-breakpoint
+CREATE TABLE `__new_labels` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`owner_id` integer NOT NULL,
+	`name` text NOT NULL,
+	`color` text NOT NULL,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL,
+	FOREIGN KEY (`owner_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+INSERT INTO `__new_labels` (`id`, `owner_id`, `name`, `color`, `created_at`, `updated_at`)
+SELECT `id`, (SELECT min(`id`) FROM `users`), `name`, `color`, `created_at`, `updated_at`
+FROM `labels`;
+--> statement-breakpoint
+DROP TABLE `labels`;
+--> statement-breakpoint
+ALTER TABLE `__new_labels` RENAME TO `labels`;
+--> statement-breakpoint
+CREATE UNIQUE INDEX `labels_owner_name_idx` ON `labels` (`owner_id`,`name`);
+--> statement-breakpoint
+-- Stats become one row per user; they are recalculated the first time each user's are read
+DROP TABLE `email_stats`;
+--> statement-breakpoint
+CREATE TABLE `email_stats` (
+	`owner_id` integer PRIMARY KEY NOT NULL,
+	`inbox_email_count` integer DEFAULT 0 NOT NULL,
+	`unread_email_count` integer DEFAULT 0 NOT NULL,
+	`important_email_count` integer DEFAULT 0 NOT NULL,
+	`sent_email_count` integer DEFAULT 0 NOT NULL,
+	`scheduled_email_count` integer DEFAULT 0 NOT NULL,
+	`archived_email_count` integer DEFAULT 0 NOT NULL,
+	`deleted_email_count` integer DEFAULT 0 NOT NULL,
+	`updated_at` integer NOT NULL,
+	FOREIGN KEY (`owner_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+PRAGMA foreign_keys=ON;
+--> statement-breakpoint
+-- Dropping emails dropped its search index triggers (see 0002_emails_fts.sql); the IDs were kept,
+-- so the index itself is still current
+CREATE TRIGGER IF NOT EXISTS emails_fts_ai AFTER INSERT ON emails BEGIN
+  INSERT INTO emails_fts(rowid, subject, "from", "to", cc, bcc, content)
+    VALUES (new.id, new.subject, new."from", new."to", new.cc, new.bcc, new.content);
+END;
+--> statement-breakpoint
+CREATE TRIGGER IF NOT EXISTS emails_fts_ad AFTER DELETE ON emails BEGIN
+  INSERT INTO emails_fts(emails_fts, rowid, subject, "from", "to", cc, bcc, content)
+    VALUES ('delete', old.id, old.subject, old."from", old."to", old.cc, old.bcc, old.content);
+END;
+--> statement-breakpoint
+CREATE TRIGGER IF NOT EXISTS emails_fts_au AFTER UPDATE OF subject, "from", "to", cc, bcc, content ON emails BEGIN
+  INSERT INTO emails_fts(emails_fts, rowid, subject, "from", "to", cc, bcc, content)
+    VALUES ('delete', old.id, old.subject, old."from", old."to", old.cc, old.bcc, old.content);
+  INSERT INTO emails_fts(rowid, subject, "from", "to", cc, bcc, content)
+    VALUES (new.id, new.subject, new."from", new."to", new.cc, new.bcc, new.content);
+END;
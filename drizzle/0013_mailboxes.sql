@@ -0,0 +1,23 @@
+-- Sending identities; each user's own address becomes their primary mailbox, and the mail
+-- they already have is filed under it
+CREATE TABLE `mailboxes` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`owner_id` integer NOT NULL,
+	`address` text NOT NULL,
+	`display_name` text,
+	`signature` text,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL,
+	FOREIGN KEY (`owner_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `mailboxes_address_unique` ON `mailboxes` (`address`);
+--> statement-breakpoint
+ALTER TABLE `emails` ADD `mailbox_id` integer REFERENCES mailboxes(id) ON DELETE set null;
+--> statement-breakpoint
+INSERT INTO `mailboxes` (`owner_id`, `address`, `display_name`, `created_at`, `updated_at`)
+SELECT `id`, `email`, `name`, `created_at`, `updated_at` FROM `users` ORDER BY `id`;
+--> statement-breakpoint
+UPDATE `emails` SET `mailbox_id` = (
+  SELECT `id` FROM `mailboxes` WHERE `mailboxes`.`owner_id` = `emails`.`owner_id`
+);
@@ -0,0 +1,14 @@
+-- Contacts, recorded from mail sent and received from here on
+CREATE TABLE `contacts` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`owner_id` integer NOT NULL,
+	`address` text NOT NULL,
+	`name` text,
+	`interaction_count` integer DEFAULT 0 NOT NULL,
+	`last_interaction_at` integer,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL,
+	FOREIGN KEY (`owner_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `contacts_owner_address_idx` ON `contacts` (`owner_id`,`address`);
@@ -0,0 +1,42 @@
+-- Outreach campaigns, their sequence steps and the leads enrolled in them
+CREATE TABLE `campaigns` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`owner_id` integer NOT NULL,
+	`mailbox_id` integer,
+	`name` text NOT NULL,
+	`status` text DEFAULT 'active' NOT NULL,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL,
+	FOREIGN KEY (`owner_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`mailbox_id`) REFERENCES `mailboxes`(`id`) ON UPDATE no action ON DELETE set null
+);
+--> statement-breakpoint
+CREATE TABLE `sequence_steps` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`campaign_id` integer NOT NULL,
+	`position` integer NOT NULL,
+	`subject` text DEFAULT '' NOT NULL,
+	`content` text NOT NULL,
+	`delay_days` integer DEFAULT 0 NOT NULL,
+	`stop_on_reply` integer DEFAULT true NOT NULL,
+	FOREIGN KEY (`campaign_id`) REFERENCES `campaigns`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `sequence_steps_campaign_position_idx` ON `sequence_steps` (`campaign_id`,`position`);
+--> statement-breakpoint
+CREATE TABLE `campaign_leads` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`campaign_id` integer NOT NULL,
+	`address` text NOT NULL,
+	`name` text,
+	`status` text DEFAULT 'active' NOT NULL,
+	`next_step` integer DEFAULT 0 NOT NULL,
+	`next_send_at` integer,
+	`thread_id` text,
+	`last_sent_at` integer,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL,
+	FOREIGN KEY (`campaign_id`) REFERENCES `campaigns`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `campaign_leads_campaign_address_idx` ON `campaign_leads` (`campaign_id`,`address`);
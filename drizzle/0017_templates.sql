@@ -0,0 +1,16 @@
+-- Reusable email templates, named uniquely per user
+CREATE TABLE `templates` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`owner_id` integer NOT NULL,
+	`name` text NOT NULL,
+	`subject` text DEFAULT '' NOT NULL,
+	`body` text DEFAULT '' NOT NULL,
+	`category` text,
+	`use_count` integer DEFAULT 0 NOT NULL,
+	`last_used_at` integer,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL,
+	FOREIGN KEY (`owner_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `templates_owner_name_idx` ON `templates` (`owner_id`,`name`);
@@ -0,0 +1,4 @@
+-- Failed tries at sending a lead their next step, so a step that cannot be sent stops being retried
+ALTER TABLE `campaign_leads` ADD `send_attempts` integer DEFAULT 0 NOT NULL;
+--> statement-breakpoint
+ALTER TABLE `campaign_leads` ADD `send_error` text;
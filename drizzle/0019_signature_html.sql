@@ -0,0 +1,2 @@
+-- HTML signatures, kept alongside their plain text for the text part of mail
+ALTER TABLE `mailboxes` ADD `signature_html` text;
@@ -33,6 +33,14 @@ const eslintConfig = [
       'object-curly-spacing': ['error', 'always'],
     },
   },
+  // Test helpers, such as signing in without a password, stay out of the app
+  {
+    files: ['src/**/*.{ts,tsx}'],
+    ignores: ['src/**/*.test.{ts,tsx}', 'src/test/**'],
+    rules: {
+      'no-restricted-imports': ['error', { patterns: ['@/test/*'] }],
+    },
+  },
 ];
 
 export default eslintConfig;
@@ -1,7 +1,10 @@
 // Init database in memory for node tests
+import { like } from 'drizzle-orm';
 import { db } from './src/lib/database';
-import { emails } from './src/lib/schema';
+import { emails, users } from './src/lib/schema';
 
 afterAll(async () => {
   await db.delete(emails);
+  // Test users only; the seeded demo user keeps the mailbox usable
+  await db.delete(users).where(like(users.email, '%@test.example'));
 });
@@ -16,4 +16,7 @@ jest.mock('nuqs', () => ({
   parseAsStringLiteral: jest.fn().mockImplementation(() => ({
     withDefault: jest.fn().mockReturnValue({}),
   })),
+  createParser: jest.fn().mockImplementation(() => ({
+    withDefault: jest.fn().mockReturnValue({}),
+  })),
 }));
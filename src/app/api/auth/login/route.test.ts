@@ -0,0 +1,141 @@
+/**
+ * Tests for signing in and out: the login, session and logout routes, and session expiry
+ */
+
+import { randomUUID } from 'crypto';
+import { NextRequest } from 'next/server';
+import { POST as login } from './route';
+import { POST as logout } from '../logout/route';
+import { GET as getSession } from '../session/route';
+import {
+  createSession,
+  createUser,
+  findSessionUser,
+  purgeExpiredSessions,
+  setPassword,
+  UserError,
+} from '@/lib/userQueries';
+import { SESSION_COOKIE, SessionUser } from '@/types';
+
+const PASSWORD = 'correct horse battery staple';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const signIn = (body: object) =>
+  login(
+    new NextRequest('http://localhost:3000/api/auth/login', {
+      method: 'POST',
+      body: JSON.stringify(body),
+    }),
+  );
+
+const withCookie = (url: string, token: string, init: { method?: string } = {}) =>
+  new NextRequest(url, { ...init, headers: { cookie: `${SESSION_COOKIE}=${token}` } });
+
+describe('auth API', () => {
+  let user: SessionUser;
+
+  beforeAll(async () => {
+    user = await createUser({
+      email: `  Login-${randomUUID()}@Test.Example `,
+      password: PASSWORD,
+      name: 'Ana Lima',
+    });
+  });
+
+  describe('POST /api/auth/login', () => {
+    it('signs in with the right password and sets an HTTP-only session cookie', async () => {
+      const response = await signIn({ email: user.email.toUpperCase(), password: PASSWORD });
+      expect(response.status).toBe(200);
+      expect((await response.json()).user).toEqual(user);
+
+      const cookie = response.cookies.get(SESSION_COOKIE);
+      expect(cookie).toMatchObject({ httpOnly: true, sameSite: 'lax', path: '/' });
+      expect(await findSessionUser(cookie!.value)).toEqual(user);
+    });
+
+    it('gives the same answer for a wrong password and an unknown email', async () => {
+      const wrongPassword = await signIn({ email: user.email, password: 'not the password' });
+      const unknownEmail = await signIn({ email: 'nobody@test.example', password: PASSWORD });
+
+      expect(wrongPassword.status).toBe(401);
+      expect(unknownEmail.status).toBe(401);
+      expect((await wrongPassword.json()).error).toBe('Invalid email or password');
+      expect((await unknownEmail.json()).error).toBe('Invalid email or password');
+      expect(wrongPassword.cookies.get(SESSION_COOKIE)).toBeUndefined();
+    });
+
+    it('requires an email and a password', async () => {
+      expect((await signIn({ email: user.email })).status).toBe(400);
+      expect((await signIn({ email: ' ', password: PASSWORD })).status).toBe(400);
+    });
+  });
+
+  describe('GET /api/auth/session and POST /api/auth/logout', () => {
+    it('reports the signed-in user until they sign out', async () => {
+      const { token } = await createSession(user.id);
+      const sessionUrl = 'http://localhost:3000/api/auth/session';
+
+      const before = await getSession(withCookie(sessionUrl, token));
+      expect(before.status).toBe(200);
+      expect((await before.json()).user).toEqual(user);
+
+      const response = await logout(
+        withCookie('http://localhost:3000/api/auth/logout', token, { method: 'POST' }),
+      );
+      expect(response.status).toBe(200);
+      expect(response.cookies.get(SESSION_COOKIE)?.value).toBe('');
+
+      expect((await getSession(withCookie(sessionUrl, token))).status).toBe(401);
+    });
+
+    it('returns 401 without a session cookie', async () => {
+      const response = await getSession(new NextRequest('http://localhost:3000/api/auth/session'));
+      expect(response.status).toBe(401);
+      expect((await response.json()).error).toBe('Unauthorized');
+    });
+  });
+
+  describe('sessions', () => {
+    it('expire, and expired sessions are purged', async () => {
+      const startedAt = new Date(Date.now() - 31 * DAY_MS);
+      const { token, expiresAt } = await createSession(user.id, startedAt);
+      expect(expiresAt.getTime()).toBe(startedAt.getTime() + 30 * DAY_MS);
+
+      expect(await findSessionUser(token)).toBeUndefined();
+      expect(await findSessionUser(token, startedAt)).toEqual(user);
+      expect(await purgeExpiredSessions()).toBeGreaterThanOrEqual(1);
+      expect(await findSessionUser(token, startedAt)).toBeUndefined();
+    });
+  });
+
+  describe('createUser', () => {
+    it('stores the email lowercased and rejects duplicates and short passwords', async () => {
+      expect(user.email).toBe(user.email.trim().toLowerCase());
+      await expect(createUser({ email: user.email, password: PASSWORD })).rejects.toThrow(
+        UserError,
+      );
+      await expect(
+        createUser({ email: `short-${randomUUID()}@test.example`, password: 'short' }),
+      ).rejects.toThrow('Passwords must be at least 8 characters');
+    });
+  });
+
+  describe('setPassword', () => {
+    it('replaces the password, and rejects unknown users and short passwords', async () => {
+      const other = await createUser({
+        email: `reset-${randomUUID()}@test.example`,
+        password: PASSWORD,
+      });
+      await setPassword(other.email.toUpperCase(), 'a brand new password');
+
+      expect((await signIn({ email: other.email, password: PASSWORD })).status).toBe(401);
+      expect((await signIn({ email: other.email, password: 'a brand new password' })).status).toBe(
+        200,
+      );
+      await expect(setPassword('nobody@test.example', PASSWORD)).rejects.toThrow(UserError);
+      await expect(setPassword(other.email, 'short')).rejects.toThrow(
+        'Passwords must be at least 8 characters',
+      );
+    });
+  });
+});
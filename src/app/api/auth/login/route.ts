@@ -0,0 +1,40 @@
+/**
+ * Login API Route
+ * Signs a user in with their email and password
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { setSessionCookie } from '@/lib/auth';
+import { authenticate, createSession } from '@/lib/userQueries';
+
+// Helper functions for consistent responses
+const errorResponse = (error: string, status: number = 400) =>
+  NextResponse.json({ status: 'error', error }, { status });
+
+const successResponse = (data: object, status: number = 200) =>
+  NextResponse.json({ status: 'success', ...data }, { status });
+
+/**
+ * POST /api/auth/login
+ * Checks { email, password } and starts a session, set as an HTTP-only cookie
+ * Wrong credentials get the same 401 whether or not the email exists
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    const { email, password } = await request.json();
+    if (typeof email !== 'string' || typeof password !== 'string' || !email.trim() || !password) {
+      return errorResponse('Email and password are required');
+    }
+
+    const user = await authenticate(email, password);
+    if (!user) return errorResponse('Invalid email or password', 401);
+
+    const { token, expiresAt } = await createSession(user.id);
+    const response = successResponse({ user });
+    setSessionCookie(response, token, expiresAt);
+    return response;
+  } catch (error) {
+    console.error('POST /api/auth/login error:', error);
+    return errorResponse('Failed to sign in', 500);
+  }
+}
@@ -0,0 +1,34 @@
+/**
+ * Logout API Route
+ * Ends the current session
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { clearSessionCookie } from '@/lib/auth';
+import { deleteSession } from '@/lib/userQueries';
+import { SESSION_COOKIE } from '@/types';
+
+// Helper functions for consistent responses
+const errorResponse = (error: string, status: number = 400) =>
+  NextResponse.json({ status: 'error', error }, { status });
+
+const successResponse = (data: object, status: number = 200) =>
+  NextResponse.json({ status: 'success', ...data }, { status });
+
+/**
+ * POST /api/auth/logout
+ * Deletes the session and clears its cookie; succeeds even when not signed in
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    const token = request.cookies.get(SESSION_COOKIE)?.value;
+    if (token) await deleteSession(token);
+
+    const response = successResponse({ message: 'Signed out' });
+    clearSessionCookie(response);
+    return response;
+  } catch (error) {
+    console.error('POST /api/auth/logout error:', error);
+    return errorResponse('Failed to sign out', 500);
+  }
+}
@@ -0,0 +1,29 @@
+/**
+ * Session API Route
+ * Reports who is signed in
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth';
+
+// Helper functions for consistent responses
+const errorResponse = (error: string, status: number = 400) =>
+  NextResponse.json({ status: 'error', error }, { status });
+
+const successResponse = (data: object, status: number = 200) =>
+  NextResponse.json({ status: 'success', ...data }, { status });
+
+/**
+ * GET /api/auth/session
+ * Returns the signed-in user, or 401
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) return errorResponse('Unauthorized', 401);
+    return successResponse({ user });
+  } catch (error) {
+    console.error('GET /api/auth/session error:', error);
+    return errorResponse('Failed to fetch session', 500);
+  }
+}
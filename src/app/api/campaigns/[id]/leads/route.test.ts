@@ -0,0 +1,95 @@
+import { POST } from './route';
+import { createCampaign } from '@/lib/campaignQueries';
+import { createLeadList, importLeads } from '@/lib/leadQueries';
+import { parseCsv } from '@/lib/csv';
+import { CampaignLead, CampaignWithDetails } from '@/types';
+import { createTestSession, TestSession } from '@/test/testSession';
+
+let session: TestSession;
+let campaign: CampaignWithDetails;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const params = (id: number | string) => ({ params: Promise.resolve({ id: String(id) }) });
+
+const enrol = (as: TestSession, id: number | string, body: object) =>
+  POST(
+    as.request(`http://localhost:3000/api/campaigns/${id}/leads`, {
+      method: 'POST',
+      body: JSON.stringify(body),
+    }),
+    params(id),
+  );
+
+describe('POST /api/campaigns/[id]/leads', () => {
+  beforeAll(async () => {
+    session = await createTestSession();
+    campaign = await createCampaign(session.user.id, {
+      name: 'Leads test',
+      mailboxId: null,
+      steps: [{ subject: 'Hi', content: 'Hello', delayDays: 2 }],
+      leads: 'first@leads-route.test',
+    });
+  });
+
+  it('Enrols leads at the first step, due after its delay', async () => {
+    const before = Date.now();
+    const response = await enrol(session, campaign.id, {
+      leads: '"Doe, Jane" <jane@leads-route.test>; Team: kim@leads-route.test;',
+    });
+    expect(response.status).toBe(201);
+
+    const { leads } = await response.json();
+    expect(leads).toMatchObject([
+      { address: 'jane@leads-route.test', name: 'Doe, Jane', status: 'active', nextStep: 0 },
+      { address: 'kim@leads-route.test', name: null, status: 'active', nextStep: 0 },
+    ]);
+    expect(new Date(leads[0].nextSendAt).getTime()).toBeGreaterThanOrEqual(
+      before - 1000 + 2 * DAY_MS,
+    );
+  });
+
+  it('Skips addresses already enrolled, ignoring case', async () => {
+    const response = await enrol(session, campaign.id, {
+      leads: 'FIRST@leads-route.test, new@leads-route.test',
+    });
+    expect(response.status).toBe(201);
+
+    const { leads } = await response.json();
+    expect(leads.map(({ address }: CampaignLead) => address)).toEqual(['new@leads-route.test']);
+  });
+
+  it('Rejects invalid or missing addresses', async () => {
+    const invalid = await enrol(session, campaign.id, { leads: 'Doe, Jane <jane@x.test>' });
+    expect(invalid.status).toBe(400);
+    expect((await invalid.json()).error).toBe('Invalid lead address: Doe');
+
+    expect((await enrol(session, campaign.id, { leads: ' , ' })).status).toBe(400);
+    expect((await enrol(session, campaign.id, {})).status).toBe(400);
+  });
+
+  it('Enrols everyone on a lead list by first name', async () => {
+    const list = await createLeadList(session.user.id, 'Campaign leads route');
+    await importLeads(
+      session.user.id,
+      list.id,
+      parseCsv(['email,first name\nann@list-route.test,Ann\nfirst@leads-route.test,\n']),
+    );
+
+    const response = await enrol(session, campaign.id, { listId: list.id });
+    expect(response.status).toBe(201);
+
+    const { leads } = await response.json();
+    expect(leads).toMatchObject([{ address: 'ann@list-route.test', name: 'Ann', nextStep: 0 }]);
+  });
+
+  it("Returns 404 for a lead list the user doesn't have", async () => {
+    expect((await enrol(session, campaign.id, { listId: 999999 })).status).toBe(404);
+  });
+
+  it("Returns 404 for another user's campaign", async () => {
+    const other = await createTestSession();
+    const response = await enrol(other, campaign.id, { leads: 'sneaky@leads-route.test' });
+    expect(response.status).toBe(404);
+  });
+});
@@ -0,0 +1,54 @@
+/**
+ * Campaign Leads API Route
+ * Enrols people in one of the signed-in user's campaigns
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth';
+import { CampaignError, enrolLeadList, enrolLeads } from '@/lib/campaignQueries';
+import { fetchLeadList } from '@/lib/leadQueries';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// Helper functions for consistent responses
+const errorResponse = (error: string, status: number = 400) =>
+  NextResponse.json({ status: 'error', error }, { status });
+
+const successResponse = (data: object, status: number = 200) =>
+  NextResponse.json({ status: 'success', ...data }, { status });
+
+/**
+ * POST /api/campaigns/[id]/leads
+ * Enrols the people on an address list ({ leads: '"Doe, Jane" <jane@example.com>, ...' }) at
+ * the start of the sequence, or everyone on a lead list ({ listId }). Returns the leads added;
+ * addresses already enrolled are skipped
+ */
+export async function POST(request: NextRequest, { params }: RouteParams): Promise<NextResponse> {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) return errorResponse('Unauthorized', 401);
+
+    const campaignId = parseInt((await params).id, 10);
+    if (isNaN(campaignId)) return errorResponse('Invalid campaign ID');
+
+    const { leads, listId } = await request.json();
+    if (listId !== undefined) {
+      if (!Number.isInteger(listId)) return errorResponse('Invalid lead list ID');
+      if (!(await fetchLeadList(user.id, listId))) return errorResponse('Lead list not found', 404);
+    } else if (typeof leads !== 'string') return errorResponse('leads or listId is required');
+
+    const enrolled =
+      listId !== undefined
+        ? await enrolLeadList(user.id, campaignId, listId)
+        : await enrolLeads(user.id, campaignId, leads);
+    if (!enrolled) return errorResponse('Campaign not found', 404);
+
+    return successResponse({ leads: enrolled }, 201);
+  } catch (error) {
+    if (error instanceof CampaignError) return errorResponse(error.message);
+    console.error('POST /api/campaigns/leads error:', error);
+    return errorResponse('Failed to enrol leads', 500);
+  }
+}
@@ -0,0 +1,46 @@
+import { POST } from './route';
+import { createCampaign, sendDueCampaignSteps } from '@/lib/campaignQueries';
+import { CampaignStatus } from '@/types';
+import { createTestSession, TestSession } from '@/test/testSession';
+
+let session: TestSession;
+
+const params = (id: number | string) => ({ params: Promise.resolve({ id: String(id) }) });
+
+const pause = (as: TestSession, id: number | string) =>
+  POST(
+    as.request(`http://localhost:3000/api/campaigns/${id}/pause`, { method: 'POST' }),
+    params(id),
+  );
+
+describe('POST /api/campaigns/[id]/pause', () => {
+  beforeAll(async () => {
+    session = await createTestSession();
+  });
+
+  it('Stops the campaign sending to its leads', async () => {
+    const campaign = await createCampaign(session.user.id, {
+      name: 'Pause test',
+      mailboxId: null,
+      steps: [{ subject: 'Hi', content: 'Hello' }],
+      leads: 'paused@pause.test',
+    });
+
+    const response = await pause(session, campaign.id);
+    expect(response.status).toBe(200);
+    expect((await response.json()).campaign.status).toBe(CampaignStatus.PAUSED);
+
+    const sent = await sendDueCampaignSteps();
+    expect(sent.filter((email) => email.to === 'paused@pause.test')).toEqual([]);
+  });
+
+  it("Returns 404 for another user's campaign", async () => {
+    const campaign = await createCampaign(session.user.id, {
+      name: 'Not yours',
+      mailboxId: null,
+      steps: [{ subject: 'Hi', content: 'Hello' }],
+    });
+    const other = await createTestSession();
+    expect((await pause(other, campaign.id)).status).toBe(404);
+  });
+});
@@ -0,0 +1,42 @@
+/**
+ * Campaign Pause API Route
+ * Stops a campaign sending until it is resumed
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth';
+import { setCampaignStatus } from '@/lib/campaignQueries';
+import { CampaignStatus } from '@/types';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// Helper functions for consistent responses
+const errorResponse = (error: string, status: number = 400) =>
+  NextResponse.json({ status: 'error', error }, { status });
+
+const successResponse = (data: object, status: number = 200) =>
+  NextResponse.json({ status: 'success', ...data }, { status });
+
+/**
+ * POST /api/campaigns/[id]/pause
+ * Pauses the campaign; its leads keep their place in the sequence
+ */
+export async function POST(request: NextRequest, { params }: RouteParams): Promise<NextResponse> {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) return errorResponse('Unauthorized', 401);
+
+    const campaignId = parseInt((await params).id, 10);
+    if (isNaN(campaignId)) return errorResponse('Invalid campaign ID');
+
+    const campaign = await setCampaignStatus(user.id, campaignId, CampaignStatus.PAUSED);
+    if (!campaign) return errorResponse('Campaign not found', 404);
+
+    return successResponse({ campaign });
+  } catch (error) {
+    console.error('POST /api/campaigns/pause error:', error);
+    return errorResponse('Failed to pause campaign', 500);
+  }
+}
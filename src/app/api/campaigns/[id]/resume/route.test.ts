@@ -0,0 +1,42 @@
+import { POST } from './route';
+import { createCampaign, sendDueCampaignSteps, setCampaignStatus } from '@/lib/campaignQueries';
+import { CampaignStatus } from '@/types';
+import { createTestSession, TestSession } from '@/test/testSession';
+
+let session: TestSession;
+
+const params = (id: number | string) => ({ params: Promise.resolve({ id: String(id) }) });
+
+const resume = (as: TestSession, id: number | string) =>
+  POST(
+    as.request(`http://localhost:3000/api/campaigns/${id}/resume`, { method: 'POST' }),
+    params(id),
+  );
+
+describe('POST /api/campaigns/[id]/resume', () => {
+  beforeAll(async () => {
+    session = await createTestSession();
+  });
+
+  it('Sends the steps that fell due while the campaign was paused', async () => {
+    const campaign = await createCampaign(session.user.id, {
+      name: 'Resume test',
+      mailboxId: null,
+      steps: [{ subject: 'Hi', content: 'Hello' }],
+      leads: 'waiting@resume.test',
+    });
+    await setCampaignStatus(session.user.id, campaign.id, CampaignStatus.PAUSED);
+    await sendDueCampaignSteps();
+
+    const response = await resume(session, campaign.id);
+    expect(response.status).toBe(200);
+    expect((await response.json()).campaign.status).toBe(CampaignStatus.ACTIVE);
+
+    const sent = await sendDueCampaignSteps();
+    expect(sent.filter((email) => email.to === 'waiting@resume.test')).toHaveLength(1);
+  });
+
+  it('Returns 404 for a campaign that does not exist', async () => {
+    expect((await resume(session, 999999)).status).toBe(404);
+  });
+});
@@ -0,0 +1,51 @@
+import { GET } from './route';
+import { createCampaign } from '@/lib/campaignQueries';
+import { CampaignWithDetails } from '@/types';
+import { createTestSession, TestSession } from '@/test/testSession';
+
+let session: TestSession;
+let campaign: CampaignWithDetails;
+
+const params = (id: number | string) => ({ params: Promise.resolve({ id: String(id) }) });
+
+const get = (as: TestSession, id: number | string) =>
+  GET(as.request(`http://localhost:3000/api/campaigns/${id}`), params(id));
+
+describe('GET /api/campaigns/[id]', () => {
+  beforeAll(async () => {
+    session = await createTestSession();
+    campaign = await createCampaign(session.user.id, {
+      name: 'Detail test',
+      mailboxId: null,
+      steps: [
+        { subject: 'Hi', content: 'Hello' },
+        { content: 'Again', delayDays: 2 },
+      ],
+      leads: 'Ann <ann@detail.test>, bob@detail.test',
+    });
+  });
+
+  it('Returns the campaign with its steps and leads', async () => {
+    const response = await get(session, campaign.id);
+    expect(response.status).toBe(200);
+
+    const body = await response.json();
+    expect(body.campaign).toMatchObject({ id: campaign.id, name: 'Detail test' });
+    expect(body.campaign.steps.map(({ position }: { position: number }) => position)).toEqual([
+      0, 1,
+    ]);
+    expect(body.campaign.leads.map(({ address }: { address: string }) => address)).toEqual([
+      'ann@detail.test',
+      'bob@detail.test',
+    ]);
+  });
+
+  it("Returns 404 for another user's campaign", async () => {
+    const other = await createTestSession();
+    expect((await get(other, campaign.id)).status).toBe(404);
+  });
+
+  it('Returns 400 for an invalid ID', async () => {
+    expect((await get(session, 'abc')).status).toBe(400);
+  });
+});
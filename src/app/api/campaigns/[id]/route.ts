@@ -0,0 +1,41 @@
+/**
+ * Single Campaign API Routes
+ * Shows one of the signed-in user's campaigns with its sequence and leads
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth';
+import { fetchCampaign } from '@/lib/campaignQueries';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// Helper functions for consistent responses
+const errorResponse = (error: string, status: number = 400) =>
+  NextResponse.json({ status: 'error', error }, { status });
+
+const successResponse = (data: object, status: number = 200) =>
+  NextResponse.json({ status: 'success', ...data }, { status });
+
+/**
+ * GET /api/campaigns/[id]
+ * Returns the campaign with its steps in order and every lead, with the step each is due next
+ */
+export async function GET(request: NextRequest, { params }: RouteParams): Promise<NextResponse> {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) return errorResponse('Unauthorized', 401);
+
+    const campaignId = parseInt((await params).id, 10);
+    if (isNaN(campaignId)) return errorResponse('Invalid campaign ID');
+
+    const campaign = await fetchCampaign(user.id, campaignId);
+    if (!campaign) return errorResponse('Campaign not found', 404);
+
+    return successResponse({ campaign });
+  } catch (error) {
+    console.error('GET /api/campaigns/[id] error:', error);
+    return errorResponse('Failed to fetch campaign', 500);
+  }
+}
@@ -0,0 +1,400 @@
+/**
+ * Tests for campaigns: creating and listing them, and the job that sends each lead the steps
+ * of the sequence until they reply
+ */
+
+import { randomUUID } from 'crypto';
+import { NextRequest } from 'next/server';
+import { GET, POST } from './route';
+import { createMailbox } from '@/lib/mailboxQueries';
+import { fetchCampaign, sendDueCampaignSteps } from '@/lib/campaignQueries';
+import { receiveMessage } from '@/lib/inboundQueries';
+import { db } from '@/lib/database';
+import { DeliveryStatus, Email, EmailDirection, LeadStatus, sequenceSteps } from '@/lib/schema';
+import { eq } from 'drizzle-orm';
+import {
+  CampaignRequest,
+  CampaignSummary,
+  CampaignWithDetails,
+  MAX_STEP_ATTEMPTS,
+  STEP_RETRY_DELAY_MS,
+} from '@/types';
+import { createTestSession, TestSession } from '@/test/testSession';
+
+let session: TestSession;
+
+// Unique per run so lead addresses never collide with earlier runs
+const tag = randomUUID().slice(0, 8);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const create = (body: Partial<CampaignRequest>) =>
+  POST(
+    session.request('http://localhost:3000/api/campaigns', {
+      method: 'POST',
+      body: JSON.stringify(body),
+    }),
+  );
+
+const createCampaign = async (body: Partial<CampaignRequest>): Promise<CampaignWithDetails> => {
+  const response = await create({ name: `Campaign ${tag}`, ...body });
+  expect(response.status).toBe(201);
+  return (await response.json()).campaign;
+};
+
+const daysFrom = (date: Date, days: number) => new Date(date.getTime() + days * DAY_MS);
+
+/**
+ * Runs the campaign job at the given time and returns the emails it sent to one address
+ */
+const sendDue = async (now: Date, address: string): Promise<Email[]> =>
+  (await sendDueCampaignSteps(now)).filter((email) => email.to.includes(address));
+
+const leadOf = async (campaignId: number) =>
+  (await fetchCampaign(session.user.id, campaignId))!.leads[0];
+
+const reply = (email: Email, from: string) =>
+  receiveMessage(
+    Buffer.from(
+      [
+        `From: ${from}`,
+        `To: ${session.user.email}`,
+        `Subject: Re: ${email.subject}`,
+        `Message-ID: <reply.${randomUUID()}@leads.test>`,
+        `In-Reply-To: ${email.messageId}`,
+        '',
+        'Sounds interesting',
+      ].join('\r\n'),
+    ),
+  );
+
+describe('campaigns API', () => {
+  beforeAll(async () => {
+    session = await createTestSession();
+  });
+
+  describe('POST /api/campaigns', () => {
+    it('Creates an active campaign with its steps and leads', async () => {
+      const campaign = await createCampaign({
+        steps: [
+          { subject: ' Intro ', content: 'Hello', delayDays: 1 },
+          { content: 'Following up', delayDays: 3, stopOnReply: false },
+        ],
+        leads: `"Doe, Jane" <Jane.${tag}@Leads.test>, bob.${tag}@leads.test`,
+      });
+
+      expect(campaign).toMatchObject({ status: 'active', mailboxId: null });
+      expect(campaign.steps).toMatchObject([
+        { position: 0, subject: 'Intro', content: 'Hello', delayDays: 1, stopOnReply: true },
+        { position: 1, subject: '', content: 'Following up', delayDays: 3, stopOnReply: false },
+      ]);
+      expect(campaign.leads).toMatchObject([
+        { address: `jane.${tag}@leads.test`, name: 'Doe, Jane', status: 'active', nextStep: 0 },
+        { address: `bob.${tag}@leads.test`, name: null, status: 'active', nextStep: 0 },
+      ]);
+      // The first step is due once its delay has passed
+      const enrolledAt = new Date(campaign.leads[0].createdAt).getTime();
+      expect(new Date(campaign.leads[0].nextSendAt!).getTime() - enrolledAt).toBe(DAY_MS);
+    });
+
+    it('Sends from the chosen mailbox', async () => {
+      const mailbox = await createMailbox(session.user.id, {
+        address: `sales.${tag}@company.test`,
+      });
+      const campaign = await createCampaign({
+        from: mailbox.address,
+        steps: [{ subject: 'Hi', content: 'Hello' }],
+      });
+      expect(campaign.mailboxId).toBe(mailbox.id);
+    });
+
+    it('Rejects an address that is not one of the mailboxes', async () => {
+      const response = await create({
+        name: 'Spoofed',
+        from: 'ceo@elsewhere.test',
+        steps: [{ subject: 'Hi', content: 'Hello' }],
+      });
+      expect(response.status).toBe(400);
+      expect((await response.json()).error).toBe('You cannot send from ceo@elsewhere.test');
+    });
+
+    it.each([
+      ['no steps', { steps: [] }, 'A campaign needs at least one step'],
+      [
+        'a first step without a subject',
+        { steps: [{ content: 'Hello' }] },
+        'Step 1 needs a subject',
+      ],
+      [
+        'a step without content',
+        { steps: [{ subject: 'Hi', content: 'Hello' }, { content: ' ' }] },
+        'Step 2 needs content',
+      ],
+      [
+        'a delay in part days',
+        { steps: [{ subject: 'Hi', content: 'Hello', delayDays: 1.5 }] },
+        'Step 1 delay must be a whole number of days from 0 to 365',
+      ],
+      [
+        'too many steps',
+        { steps: Array(11).fill({ subject: 'Hi', content: 'Hello' }) },
+        'A campaign can have at most 10 steps',
+      ],
+      [
+        'an invalid lead',
+        { steps: [{ subject: 'Hi', content: 'Hello' }], leads: 'ok@leads.test, nobody@localhost' },
+        'Invalid lead address: nobody@localhost',
+      ],
+      [
+        'an unknown variable',
+        { steps: [{ subject: 'Hi', content: 'Hello' }, { content: 'Hi {{nickname}}' }] },
+        'Step 2: Unknown variable {{nickname}} - use firstName, lastName, name, email, company',
+      ],
+    ])('Rejects a campaign with %s', async (_case, body, error) => {
+      const response = await create({ name: 'Invalid', ...body } as Partial<CampaignRequest>);
+      expect(response.status).toBe(400);
+      expect((await response.json()).error).toBe(error);
+
+      // Nothing is saved
+      const list = await GET(session.request('http://localhost:3000/api/campaigns'));
+      const { campaigns } = await list.json();
+      expect(campaigns.map(({ name }: CampaignSummary) => name)).not.toContain('Invalid');
+    });
+
+    it('Requires a name', async () => {
+      const response = await create({ name: ' ', steps: [{ subject: 'Hi', content: 'Hello' }] });
+      expect(response.status).toBe(400);
+      expect((await response.json()).error).toBe('Name is required');
+    });
+  });
+
+  describe('GET /api/campaigns', () => {
+    it('Lists campaigns newest first with their step and lead counts', async () => {
+      const other = await createTestSession();
+      const campaign = await createCampaign({
+        name: `Counted ${tag}`,
+        steps: [
+          { subject: 'Hi', content: 'Hello' },
+          { content: 'Again', delayDays: 2 },
+        ],
+        leads: `a.${tag}@leads.test, b.${tag}@leads.test`,
+      });
+
+      const response = await GET(session.request('http://localhost:3000/api/campaigns'));
+      expect(response.status).toBe(200);
+
+      const { campaigns } = await response.json();
+      expect(campaigns[0]).toMatchObject({
+        id: campaign.id,
+        stepCount: 2,
+        leadCounts: { active: 2, replied: 0, completed: 0 },
+      });
+
+      const otherResponse = await GET(other.request('http://localhost:3000/api/campaigns'));
+      expect((await otherResponse.json()).campaigns).toEqual([]);
+    });
+
+    it('Requires a signed-in user', async () => {
+      const response = await GET(new NextRequest('http://localhost:3000/api/campaigns'));
+      expect(response.status).toBe(401);
+    });
+  });
+
+  describe('sending sequences', () => {
+    it('Sends each step when it is due, on the thread of the first', async () => {
+      const address = `seq.${tag}@leads.test`;
+      const start = new Date();
+      const campaign = await createCampaign({
+        steps: [
+          { subject: 'Intro', content: 'Hello' },
+          { content: 'Just checking in', delayDays: 2 },
+          { subject: 'Last try', content: 'Closing the loop', delayDays: 3 },
+        ],
+        leads: `Sam Lead <${address}>`,
+      });
+
+      const [first] = await sendDue(start, address);
+      expect(first).toMatchObject({
+        ownerId: session.user.id,
+        subject: 'Intro',
+        to: `Sam Lead <${address}>`,
+        content: 'Hello',
+        direction: EmailDirection.OUTGOING,
+        deliveryStatus: DeliveryStatus.QUEUED,
+        inReplyTo: null,
+      });
+      expect(first.from).toContain(session.user.email);
+      expect(await leadOf(campaign.id)).toMatchObject({ nextStep: 1, threadId: first.threadId });
+
+      // Nothing more until the next delay has passed
+      expect(await sendDue(daysFrom(start, 1), address)).toEqual([]);
+
+      const [second] = await sendDue(daysFrom(start, 2), address);
+      expect(second).toMatchObject({
+        subject: 'Re: Intro',
+        threadId: first.threadId,
+        inReplyTo: first.messageId,
+      });
+
+      const [third] = await sendDue(daysFrom(start, 5), address);
+      expect(third).toMatchObject({ subject: 'Last try', threadId: first.threadId });
+      expect(await leadOf(campaign.id)).toMatchObject({
+        status: LeadStatus.COMPLETED,
+        nextStep: 3,
+        nextSendAt: null,
+      });
+      expect(await sendDue(daysFrom(start, 30), address)).toEqual([]);
+    });
+
+    it('Renders each step for the lead, replying to the subject they were sent', async () => {
+      const address = `merge.${tag}@leads.test`;
+      const start = new Date();
+      await createCampaign({
+        steps: [
+          { subject: '{{company | "Your team"}} and us', content: 'Hi {{firstName | "there"}}' },
+          { content: '{{firstName}}, any thoughts?', delayDays: 1 },
+        ],
+        leads: `"Doe, Jane" <${address}>`,
+      });
+
+      const [first] = await sendDue(start, address);
+      expect(first).toMatchObject({ subject: 'Your team and us', content: 'Hi Jane' });
+
+      const [second] = await sendDue(daysFrom(start, 1), address);
+      expect(second).toMatchObject({
+        subject: 'Re: Your team and us',
+        content: 'Jane, any thoughts?',
+      });
+    });
+
+    it("Signs each step with the mailbox's signature unless it has one", async () => {
+      const address = `signed.${tag}@leads.test`;
+      const start = new Date();
+      const mailbox = await createMailbox(session.user.id, {
+        address: `signed.${tag}@company.test`,
+        signature: 'Ana from Sales',
+      });
+      await createCampaign({
+        from: mailbox.address,
+        steps: [
+          { subject: 'Intro', content: 'Hello' },
+          { content: 'Following up\n-- \nAna', delayDays: 1 },
+        ],
+        leads: address,
+      });
+
+      const [first] = await sendDue(start, address);
+      expect(first.content).toBe('Hello\n\n-- \nAna from Sales');
+      const [second] = await sendDue(daysFrom(start, 1), address);
+      expect(second.content).toBe('Following up\n-- \nAna');
+    });
+
+    it('Stops a lead who replies on their thread', async () => {
+      const address = `replies.${tag}@leads.test`;
+      const start = new Date();
+      const campaign = await createCampaign({
+        steps: [
+          { subject: 'Intro', content: 'Hello' },
+          { content: 'Following up', delayDays: 1 },
+        ],
+        leads: address,
+      });
+      const [first] = await sendDue(start, address);
+
+      const [{ email: received }] = await reply(first, address);
+      expect(received.threadId).toBe(first.threadId);
+      expect(await leadOf(campaign.id)).toMatchObject({
+        status: LeadStatus.REPLIED,
+        nextSendAt: null,
+      });
+      expect(await sendDue(daysFrom(start, 1), address)).toEqual([]);
+    });
+
+    it('Keeps sending steps that do not stop on reply', async () => {
+      const address = `keeps.${tag}@leads.test`;
+      const start = new Date();
+      const campaign = await createCampaign({
+        steps: [
+          { subject: 'Intro', content: 'Hello' },
+          { content: 'Here is the deck', delayDays: 1, stopOnReply: false },
+          { content: 'Any thoughts?', delayDays: 1 },
+        ],
+        leads: address,
+      });
+      const [first] = await sendDue(start, address);
+      await reply(first, address);
+      expect((await leadOf(campaign.id)).status).toBe(LeadStatus.ACTIVE);
+
+      const [second] = await sendDue(daysFrom(start, 1), address);
+      expect(second.content).toBe('Here is the deck');
+
+      expect(await sendDue(daysFrom(start, 2), address)).toEqual([]);
+      expect((await leadOf(campaign.id)).status).toBe(LeadStatus.REPLIED);
+    });
+
+    it('Ignores incoming mail on other threads', async () => {
+      const address = `other.${tag}@leads.test`;
+      const start = new Date();
+      const campaign = await createCampaign({
+        steps: [
+          { subject: 'Intro', content: 'Hello' },
+          { content: 'Following up', delayDays: 1 },
+        ],
+        leads: address,
+      });
+      await sendDue(start, address);
+      await receiveMessage(
+        Buffer.from(
+          [
+            `From: ${address}`,
+            `To: ${session.user.email}`,
+            `Subject: Something else ${tag}`,
+            '',
+            'Unrelated',
+          ].join('\r\n'),
+        ),
+      );
+
+      expect(await sendDue(daysFrom(start, 1), address)).toHaveLength(1);
+      expect((await leadOf(campaign.id)).status).toBe(LeadStatus.COMPLETED);
+    });
+
+    it('Retries a step that cannot be sent, then marks the lead failed', async () => {
+      const address = `broken.${tag}@leads.test`;
+      // Whole seconds, as timestamps are stored
+      const start = new Date(Math.floor(Date.now() / 1000) * 1000);
+      const campaign = await createCampaign({
+        steps: [{ subject: 'Intro', content: 'Hello' }],
+        leads: address,
+      });
+      // A step that no longer renders, such as one saved before its variables were checked
+      await db
+        .update(sequenceSteps)
+        .set({ content: 'Hi {{nickname}}' })
+        .where(eq(sequenceSteps.campaignId, campaign.id));
+      const retryAt = (attempt: number) =>
+        new Date(start.getTime() + attempt * STEP_RETRY_DELAY_MS);
+
+      expect(await sendDue(start, address)).toEqual([]);
+      expect(await leadOf(campaign.id)).toMatchObject({
+        status: LeadStatus.ACTIVE,
+        nextStep: 0,
+        sendAttempts: 1,
+        sendError: expect.stringContaining('{{nickname}}'),
+        nextSendAt: retryAt(1),
+      });
+
+      for (let attempt = 1; attempt < MAX_STEP_ATTEMPTS; attempt++) {
+        expect(await sendDue(retryAt(attempt), address)).toEqual([]);
+      }
+      expect(await leadOf(campaign.id)).toMatchObject({
+        status: LeadStatus.FAILED,
+        sendAttempts: MAX_STEP_ATTEMPTS,
+        nextSendAt: null,
+      });
+
+      // No more tries once it has failed
+      expect(await sendDue(daysFrom(start, 30), address)).toEqual([]);
+      expect((await leadOf(campaign.id)).sendAttempts).toBe(MAX_STEP_ATTEMPTS);
+    });
+  });
+});
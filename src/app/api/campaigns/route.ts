@@ -0,0 +1,66 @@
+/**
+ * Campaign API Routes
+ * Lists and creates the signed-in user's outreach campaigns
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth';
+import { CampaignError, createCampaign, fetchCampaigns } from '@/lib/campaignQueries';
+import { findSenderMailbox } from '@/lib/mailboxQueries';
+import { CampaignRequest } from '@/types';
+
+// Helper functions for consistent responses
+const errorResponse = (error: string, status: number = 400) =>
+  NextResponse.json({ status: 'error', error }, { status });
+
+const successResponse = (data: object, status: number = 200) =>
+  NextResponse.json({ status: 'success', ...data }, { status });
+
+/**
+ * GET /api/campaigns
+ * Returns all campaigns, newest first, with their step count and leads by status
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) return errorResponse('Unauthorized', 401);
+
+    const campaigns = await fetchCampaigns(user.id);
+    return successResponse({ campaigns });
+  } catch (error) {
+    console.error('GET /api/campaigns error:', error);
+    return errorResponse('Failed to fetch campaigns', 500);
+  }
+}
+
+/**
+ * POST /api/campaigns
+ * Creates an active campaign from a name, a sequence of steps and optionally a mailbox address
+ * to send from and an address list of leads to enrol. Each lead is sent the first step once
+ * its delay has passed
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) return errorResponse('Unauthorized', 401);
+
+    const { name = '', from, steps, leads }: CampaignRequest = await request.json();
+    if (!name.trim()) return errorResponse('Name is required');
+
+    const sender = from?.trim();
+    const mailbox = sender ? await findSenderMailbox(user.id, sender) : undefined;
+    if (sender && !mailbox) return errorResponse(`You cannot send from ${sender}`);
+
+    const campaign = await createCampaign(user.id, {
+      name,
+      mailboxId: mailbox?.id ?? null,
+      steps,
+      leads,
+    });
+    return successResponse({ campaign }, 201);
+  } catch (error) {
+    if (error instanceof CampaignError) return errorResponse(error.message);
+    console.error('POST /api/campaigns error:', error);
+    return errorResponse('Failed to create campaign', 500);
+  }
+}
@@ -0,0 +1,95 @@
+/**
+ * Tests for Single Contact API Routes
+ */
+
+import { PATCH, DELETE } from './route';
+import { Contact } from '@/lib/schema';
+import { createContact, findContactByAddress } from '@/lib/contactQueries';
+import { createTestSession, TestSession } from '@/test/testSession';
+
+let session: TestSession;
+
+describe('contact API', () => {
+  let contact: Contact;
+
+  const patch = (id: number | string, body: object) =>
+    PATCH(
+      session.request(`http://localhost:3000/api/contacts/${id}`, {
+        method: 'PATCH',
+        body: JSON.stringify(body),
+      }),
+      { params: Promise.resolve({ id: String(id) }) },
+    );
+
+  const remove = (id: number | string) =>
+    DELETE(session.request(`http://localhost:3000/api/contacts/${id}`, { method: 'DELETE' }), {
+      params: Promise.resolve({ id: String(id) }),
+    });
+
+  beforeAll(async () => {
+    session = await createTestSession();
+    contact = await createContact(session.user.id, { address: 'ana@example.com', name: 'Ana' });
+  });
+
+  describe('PATCH /api/contacts/[id]', () => {
+    it('renames a contact', async () => {
+      const response = await patch(contact.id, { name: 'Ana Lima' });
+      expect(response.status).toBe(200);
+      expect((await response.json()).contact).toMatchObject({
+        address: 'ana@example.com',
+        name: 'Ana Lima',
+      });
+    });
+
+    it('clears a blank name', async () => {
+      const body = await (await patch(contact.id, { name: '  ' })).json();
+      expect(body.contact.name).toBeNull();
+    });
+
+    it('changes the address, lowercased', async () => {
+      const body = await (await patch(contact.id, { address: 'Ana.Lima@Example.com' })).json();
+      expect(body.contact.address).toBe('ana.lima@example.com');
+    });
+
+    it("rejects another contact's address", async () => {
+      await createContact(session.user.id, { address: 'bo@example.com' });
+      const response = await patch(contact.id, { address: 'BO@example.com' });
+      expect(response.status).toBe(409);
+    });
+
+    it('rejects empty and invalid updates', async () => {
+      const empty = await patch(contact.id, {});
+      expect(empty.status).toBe(400);
+
+      const invalid = await patch(contact.id, { address: 'nope' });
+      expect(invalid.status).toBe(400);
+      expect((await invalid.json()).error).toBe('Invalid email address');
+    });
+
+    it("returns 404 for another user's contact", async () => {
+      const other = await createTestSession();
+      const theirs = await createContact(other.user.id, { address: 'cy@example.com' });
+      const response = await patch(theirs.id, { name: 'Mine now' });
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('DELETE /api/contacts/[id]', () => {
+    it('removes a contact', async () => {
+      const doomed = await createContact(session.user.id, { address: 'doomed@example.com' });
+      const response = await remove(doomed.id);
+      expect(response.status).toBe(200);
+      expect(await findContactByAddress(session.user.id, 'doomed@example.com')).toBeUndefined();
+    });
+
+    it('returns 404 for an unknown contact', async () => {
+      const response = await remove(999999);
+      expect(response.status).toBe(404);
+    });
+
+    it('rejects a non-numeric ID', async () => {
+      const response = await remove('abc');
+      expect(response.status).toBe(400);
+    });
+  });
+});
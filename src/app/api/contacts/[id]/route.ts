@@ -0,0 +1,80 @@
+/**
+ * Single Contact API Routes
+ * Updates and removes the signed-in user's contacts
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth';
+import {
+  ContactError,
+  deleteContact,
+  findContactByAddress,
+  updateContact,
+} from '@/lib/contactQueries';
+import { isValidEmail } from '@/lib/utils';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// Helper functions for consistent responses
+const errorResponse = (error: string, status: number = 400) =>
+  NextResponse.json({ status: 'error', error }, { status });
+
+const successResponse = (data: object, status: number = 200) =>
+  NextResponse.json({ status: 'success', ...data }, { status });
+
+/**
+ * PATCH /api/contacts/[id]
+ * Updates a contact's address and/or name; 409 when another contact has the new address
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams): Promise<NextResponse> {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) return errorResponse('Unauthorized', 401);
+
+    const contactId = parseInt((await params).id, 10);
+    if (isNaN(contactId)) return errorResponse('Invalid contact ID');
+
+    const { address, name } = await request.json();
+    if (address === undefined && name === undefined) {
+      return errorResponse('Nothing to update - provide address and/or name');
+    }
+    if (address !== undefined) {
+      if (!isValidEmail(address)) return errorResponse('Invalid email address');
+      if (await findContactByAddress(user.id, address, contactId)) {
+        return errorResponse(`A contact with the address ${address.trim()} already exists`, 409);
+      }
+    }
+
+    const contact = await updateContact(user.id, contactId, { address, name });
+    if (!contact) return errorResponse('Contact not found', 404);
+
+    return successResponse({ contact });
+  } catch (error) {
+    if (error instanceof ContactError) return errorResponse(error.message);
+    console.error('PATCH /api/contacts error:', error);
+    return errorResponse('Failed to update contact', 500);
+  }
+}
+
+/**
+ * DELETE /api/contacts/[id]
+ * Removes a contact
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams): Promise<NextResponse> {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) return errorResponse('Unauthorized', 401);
+
+    const contactId = parseInt((await params).id, 10);
+    if (isNaN(contactId)) return errorResponse('Invalid contact ID');
+
+    if (!(await deleteContact(user.id, contactId))) return errorResponse('Contact not found', 404);
+
+    return successResponse({ message: 'Contact removed' });
+  } catch (error) {
+    console.error('DELETE /api/contacts error:', error);
+    return errorResponse('Failed to remove contact', 500);
+  }
+}
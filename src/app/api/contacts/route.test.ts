@@ -0,0 +1,154 @@
+/**
+ * Tests for Contact API Routes
+ */
+
+import { NextRequest } from 'next/server';
+import { GET, POST } from './route';
+import { Contact } from '@/lib/schema';
+import { recordContacts } from '@/lib/contactQueries';
+import { createTestSession, TestSession } from '@/test/testSession';
+
+let session: TestSession;
+
+const API_URL = 'http://localhost:3000/api/contacts';
+
+const post = (body: object) =>
+  POST(
+    session.request(API_URL, {
+      method: 'POST',
+      body: JSON.stringify(body),
+    }),
+  );
+
+const list = async (): Promise<Contact[]> =>
+  (await (await GET(session.request(API_URL))).json()).contacts;
+
+describe('contacts API', () => {
+  beforeEach(async () => {
+    // Contacts are deleted along with each test user
+    session = await createTestSession();
+  });
+
+  describe('POST /api/contacts', () => {
+    it('adds a contact with a lowercased address', async () => {
+      const response = await post({ address: '  Ana.Lima@Example.com ', name: ' Ana Lima ' });
+      expect(response.status).toBe(201);
+
+      const body = await response.json();
+      expect(body.contact).toMatchObject({
+        ownerId: session.user.id,
+        address: 'ana.lima@example.com',
+        name: 'Ana Lima',
+        interactionCount: 0,
+        lastInteractionAt: null,
+      });
+    });
+
+    it('rejects an address the user already has a contact for', async () => {
+      await post({ address: 'ana@example.com' });
+      const response = await post({ address: 'ANA@example.com' });
+      expect(response.status).toBe(409);
+      expect((await response.json()).error).toContain('already exists');
+    });
+
+    it('rejects invalid addresses', async () => {
+      const missing = await post({ name: 'Nobody' });
+      expect(missing.status).toBe(400);
+      expect((await missing.json()).error).toBe('Address is required');
+
+      const invalid = await post({ address: 'not-an-address' });
+      expect(invalid.status).toBe(400);
+      expect((await invalid.json()).error).toBe('Invalid email address');
+    });
+
+    it('requires a signed-in user', async () => {
+      const response = await POST(
+        new NextRequest(API_URL, { method: 'POST', body: JSON.stringify({ address: 'x@y.z' }) }),
+      );
+      expect(response.status).toBe(401);
+    });
+  });
+
+  describe('GET /api/contacts', () => {
+    it('lists the most emailed contacts first', async () => {
+      const createdAt = new Date('2026-01-05T10:00:00Z');
+      await recordContacts(session.user.id, [
+        { from: 'Bo <bo@example.com>', to: session.user.email, cc: null, createdAt },
+        { from: session.user.email, to: 'bo@example.com, cy@example.com', cc: null, createdAt },
+      ]);
+
+      expect((await list()).map(({ address }) => address)).toEqual([
+        'bo@example.com',
+        'cy@example.com',
+      ]);
+    });
+
+    it("leaves out other users' contacts", async () => {
+      const other = await createTestSession();
+      await recordContacts(other.user.id, [
+        { from: 'private@example.com', to: other.user.email, cc: null, createdAt: new Date() },
+      ]);
+      expect(await list()).toEqual([]);
+    });
+
+    it('requires a signed-in user', async () => {
+      const response = await GET(new NextRequest(API_URL));
+      expect(response.status).toBe(401);
+    });
+  });
+
+  describe('recordContacts', () => {
+    it('counts each person once per email and skips the owner', async () => {
+      await recordContacts(session.user.id, [
+        {
+          from: `Me <${session.user.email}>`,
+          to: 'Ana <ana@example.com>, ANA@example.com',
+          cc: 'bo@example.com',
+          createdAt: new Date('2026-01-01T00:00:00Z'),
+        },
+        {
+          from: '"Lima, Ana" <ana@example.com>',
+          to: session.user.email,
+          cc: null,
+          createdAt: new Date('2026-01-03T00:00:00Z'),
+        },
+      ]);
+
+      const [ana, bo] = await list();
+      expect(ana).toMatchObject({
+        address: 'ana@example.com',
+        name: 'Ana',
+        interactionCount: 2,
+        lastInteractionAt: new Date('2026-01-03T00:00:00Z').toISOString(),
+      });
+      expect(bo).toMatchObject({ address: 'bo@example.com', name: null, interactionCount: 1 });
+    });
+
+    it('adds to existing contacts without overwriting their name', async () => {
+      await post({ address: 'ana@example.com', name: 'Ana from Sales' });
+      await recordContacts(session.user.id, [
+        {
+          from: 'Ana Lima <ana@example.com>',
+          to: session.user.email,
+          cc: null,
+          createdAt: new Date('2026-02-01T00:00:00Z'),
+        },
+      ]);
+      await recordContacts(session.user.id, [
+        {
+          from: session.user.email,
+          to: 'ana@example.com',
+          cc: null,
+          createdAt: new Date('2026-01-01T00:00:00Z'),
+        },
+      ]);
+
+      const [ana] = await list();
+      expect(ana).toMatchObject({
+        name: 'Ana from Sales',
+        interactionCount: 2,
+        lastInteractionAt: new Date('2026-02-01T00:00:00Z').toISOString(),
+      });
+    });
+  });
+});
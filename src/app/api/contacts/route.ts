@@ -0,0 +1,63 @@
+/**
+ * Contact API Routes
+ * Lists and adds the people the signed-in user exchanges mail with
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth';
+import {
+  ContactError,
+  createContact,
+  fetchContacts,
+  findContactByAddress,
+} from '@/lib/contactQueries';
+import { isValidEmail } from '@/lib/utils';
+
+// Helper functions for consistent responses
+const errorResponse = (error: string, status: number = 400) =>
+  NextResponse.json({ status: 'error', error }, { status });
+
+const successResponse = (data: object, status: number = 200) =>
+  NextResponse.json({ status: 'success', ...data }, { status });
+
+/**
+ * GET /api/contacts
+ * Returns all contacts, most emailed first
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) return errorResponse('Unauthorized', 401);
+
+    const contacts = await fetchContacts(user.id);
+    return successResponse({ contacts });
+  } catch (error) {
+    console.error('GET /api/contacts error:', error);
+    return errorResponse('Failed to fetch contacts', 500);
+  }
+}
+
+/**
+ * POST /api/contacts
+ * Adds a contact; 409 when the user already has a contact with the address
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) return errorResponse('Unauthorized', 401);
+
+    const { address = '', name } = await request.json();
+    if (!address.trim()) return errorResponse('Address is required');
+    if (!isValidEmail(address)) return errorResponse('Invalid email address');
+    if (await findContactByAddress(user.id, address)) {
+      return errorResponse(`A contact with the address ${address.trim()} already exists`, 409);
+    }
+
+    const contact = await createContact(user.id, { address, name });
+    return successResponse({ contact }, 201);
+  } catch (error) {
+    if (error instanceof ContactError) return errorResponse(error.message);
+    console.error('POST /api/contacts error:', error);
+    return errorResponse('Failed to create contact', 500);
+  }
+}
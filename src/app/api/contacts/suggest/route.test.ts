@@ -0,0 +1,82 @@
+/**
+ * Tests for the Contact Suggestion API Route
+ */
+
+import { NextRequest } from 'next/server';
+import { GET } from './route';
+import { Contact } from '@/lib/schema';
+import { createContact, recordContacts } from '@/lib/contactQueries';
+import { createTestSession, TestSession } from '@/test/testSession';
+
+let session: TestSession;
+
+const API_URL = 'http://localhost:3000/api/contacts/suggest';
+
+const suggest = async (query: string): Promise<string[]> => {
+  const response = await GET(session.request(`${API_URL}?${query}`));
+  expect(response.status).toBe(200);
+  return (await response.json()).contacts.map(({ address }: Contact) => address);
+};
+
+describe('GET /api/contacts/suggest', () => {
+  beforeAll(async () => {
+    session = await createTestSession();
+    const sent = (to: string, createdAt: string) => ({
+      from: session.user.email,
+      to,
+      cc: null,
+      createdAt: new Date(createdAt),
+    });
+    await recordContacts(session.user.id, [
+      sent('Sam Jones <sam@example.com>', '2026-01-01T00:00:00Z'),
+      sent('sam@example.com, Samantha Green <green@example.com>', '2026-01-02T00:00:00Z'),
+      sent('Alex Sampson <alex@example.com>', '2026-01-03T00:00:00Z'),
+      sent('alex@example.com', '2026-01-04T00:00:00Z'),
+      sent('alex@example.com', '2026-01-05T00:00:00Z'),
+      sent('info@samples.com, sam.lee@example.com', '2026-01-06T00:00:00Z'),
+    ]);
+    await createContact(session.user.id, { address: 'sammy@example.com' });
+  });
+
+  it('ranks prefix matches, then the most emailed, then the most recent', async () => {
+    expect(await suggest('q=sam')).toEqual([
+      'alex@example.com',
+      'sam@example.com',
+      'sam.lee@example.com',
+      'green@example.com',
+      'sammy@example.com',
+      'info@samples.com',
+    ]);
+  });
+
+  it('matches the start of any word in the name, ignoring case', async () => {
+    expect(await suggest('q=GREEN')).toEqual(['green@example.com']);
+    expect(await suggest('q=jones')).toEqual(['sam@example.com']);
+  });
+
+  it('limits the number of suggestions', async () => {
+    expect(await suggest('q=sam&limit=2')).toEqual(['alex@example.com', 'sam@example.com']);
+  });
+
+  it('returns nothing for an empty query', async () => {
+    expect(await suggest('q=%20')).toEqual([]);
+  });
+
+  it("leaves out other users' contacts", async () => {
+    const other = await createTestSession();
+    await createContact(other.user.id, { address: 'samuel@example.com' });
+    expect(await suggest('q=samuel')).toEqual([]);
+  });
+
+  it('rejects an invalid limit', async () => {
+    for (const limit of ['0', '21', 'ten']) {
+      const response = await GET(session.request(`${API_URL}?q=sam&limit=${limit}`));
+      expect(response.status).toBe(400);
+    }
+  });
+
+  it('requires a signed-in user', async () => {
+    const response = await GET(new NextRequest(`${API_URL}?q=sam`));
+    expect(response.status).toBe(401);
+  });
+});
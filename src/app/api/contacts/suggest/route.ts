@@ -0,0 +1,42 @@
+/**
+ * Contact Suggestion API Route
+ * Completes a partly typed recipient from the signed-in user's contacts
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth';
+import { suggestContacts } from '@/lib/contactQueries';
+import { DEFAULT_CONTACT_SUGGESTIONS, MAX_CONTACT_SUGGESTIONS } from '@/types';
+
+// Helper functions for consistent responses
+const errorResponse = (error: string, status: number = 400) =>
+  NextResponse.json({ status: 'error', error }, { status });
+
+const successResponse = (data: object, status: number = 200) =>
+  NextResponse.json({ status: 'success', ...data }, { status });
+
+/**
+ * GET /api/contacts/suggest?q=&limit=
+ * Returns up to `limit` contacts whose address or name contains q, best match first: prefix
+ * matches, then the most emailed, then the most recent. An empty q returns no contacts
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) return errorResponse('Unauthorized', 401);
+
+    const { searchParams } = new URL(request.url);
+    const query = searchParams.get('q') ?? '';
+    const limitParam = searchParams.get('limit');
+    const limit = limitParam === null ? DEFAULT_CONTACT_SUGGESTIONS : Number(limitParam);
+    if (!/^\d+$/.test(limitParam ?? '0') || limit < 1 || limit > MAX_CONTACT_SUGGESTIONS) {
+      return errorResponse(`limit must be between 1 and ${MAX_CONTACT_SUGGESTIONS}`);
+    }
+
+    const contacts = await suggestContacts(user.id, query, limit);
+    return successResponse({ contacts });
+  } catch (error) {
+    console.error('GET /api/contacts/suggest error:', error);
+    return errorResponse('Failed to suggest contacts', 500);
+  }
+}
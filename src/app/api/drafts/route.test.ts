@@ -0,0 +1,258 @@
+/**
+ * Tests for Draft API Routes
+ */
+
+import { POST, PUT, DELETE } from './route';
+import { GET as getEmails, POST as sendEmail } from '../emails/route';
+import { GET as getThread } from '../emails/thread/[threadId]/route';
+import { db } from '@/lib/database';
+import { emails, Email, Mailbox } from '@/lib/schema';
+import { createMailbox, findSenderMailbox } from '@/lib/mailboxQueries';
+import { eq, like } from 'drizzle-orm';
+import { createTestSession, TestSession } from '@/test/testSession';
+
+let session: TestSession;
+
+const THREAD_PREFIX = 'drafts-api-test';
+
+const request = (method: string, body?: object, query = '') =>
+  session.request(`http://localhost:3000/api/drafts${query}`, {
+    method,
+    ...(body && { body: JSON.stringify(body) }),
+  });
+
+const createDraft = async (body: object): Promise<Email> =>
+  (await (await POST(request('POST', body))).json()).draft;
+
+const listEmails = async (params: string): Promise<Email[]> =>
+  (await (await getEmails(session.request(`http://localhost:3000/api/emails?${params}`))).json())
+    .emails;
+
+describe('drafts API', () => {
+  beforeAll(async () => {
+    session = await createTestSession();
+  });
+
+  afterAll(async () => {
+    await db.delete(emails).where(like(emails.threadId, `${THREAD_PREFIX}%`));
+  });
+
+  describe('POST /api/drafts', () => {
+    it('creates a draft with whatever fields are filled in', async () => {
+      const response = await POST(
+        request('POST', { subject: 'Half written', threadId: `${THREAD_PREFIX}-create` }),
+      );
+      expect(response.status).toBe(201);
+
+      const { draft } = await response.json();
+      expect(draft).toMatchObject({
+        subject: 'Half written',
+        to: '',
+        isDraft: true,
+        isRead: true,
+        direction: 'outgoing',
+        threadId: `${THREAD_PREFIX}-create`,
+        from: session.user.email,
+      });
+    });
+
+    it('rejects non-string fields', async () => {
+      const response = await POST(request('POST', { subject: 42 }));
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('PUT /api/drafts', () => {
+    it('updates only the given fields', async () => {
+      const draft = await createDraft({
+        subject: 'Original',
+        content: 'Body',
+        threadId: `${THREAD_PREFIX}-update`,
+      });
+
+      const response = await PUT(request('PUT', { id: draft.id, to: 'someone@example.com' }));
+      expect(response.status).toBe(200);
+
+      const body = await response.json();
+      expect(body.draft).toMatchObject({
+        id: draft.id,
+        subject: 'Original',
+        content: 'Body',
+        to: 'someone@example.com',
+      });
+    });
+
+    it("returns 404 for another user's draft", async () => {
+      const draft = await createDraft({ subject: 'Mine', threadId: `${THREAD_PREFIX}-private` });
+      const other = await createTestSession();
+
+      const response = await PUT(
+        other.request('http://localhost:3000/api/drafts', {
+          method: 'PUT',
+          body: JSON.stringify({ id: draft.id, subject: 'Theirs' }),
+        }),
+      );
+      expect(response.status).toBe(404);
+    });
+
+    it('requires an ID', async () => {
+      const response = await PUT(request('PUT', { subject: 'No ID' }));
+      expect(response.status).toBe(400);
+    });
+
+    it('returns 404 for emails that are not drafts', async () => {
+      const [email] = await db
+        .insert(emails)
+        .values({
+          ownerId: session.user.id,
+          threadId: `${THREAD_PREFIX}-sent`,
+          subject: 'Already sent',
+          from: session.user.email,
+          to: 'someone@example.com',
+        })
+        .returning();
+
+      const response = await PUT(request('PUT', { id: email.id, subject: 'Changed' }));
+      expect(response.status).toBe(404);
+
+      const [unchanged] = await db.select().from(emails).where(eq(emails.id, email.id));
+      expect(unchanged.subject).toBe('Already sent');
+    });
+  });
+
+  describe('sending mailbox', () => {
+    let sales: Mailbox;
+
+    beforeAll(async () => {
+      sales = await createMailbox(session.user.id, {
+        address: `sales-${session.user.id}@test.example`,
+        displayName: 'Sales Team',
+      });
+    });
+
+    it('saves the primary mailbox by default', async () => {
+      const draft = await createDraft({ threadId: `${THREAD_PREFIX}-primary` });
+      const primary = await findSenderMailbox(session.user.id);
+      expect(draft).toMatchObject({ from: session.user.email, mailboxId: primary!.id });
+    });
+
+    it('saves the chosen mailbox and moves the draft when it changes', async () => {
+      const draft = await createDraft({ from: sales.address, threadId: `${THREAD_PREFIX}-from` });
+      expect(draft).toMatchObject({ from: `Sales Team <${sales.address}>`, mailboxId: sales.id });
+
+      const primary = await findSenderMailbox(session.user.id);
+      const moved = (
+        await (await PUT(request('PUT', { id: draft.id, from: session.user.email }))).json()
+      ).draft;
+      expect(moved).toMatchObject({ from: session.user.email, mailboxId: primary!.id });
+
+      const kept = (await (await PUT(request('PUT', { id: draft.id, subject: 'Hi' }))).json())
+        .draft;
+      expect(kept.mailboxId).toBe(primary!.id);
+    });
+
+    it('rejects an address that is not one of the mailboxes', async () => {
+      const response = await POST(request('POST', { from: 'someone@else.example' }));
+      expect(response.status).toBe(400);
+      expect((await response.json()).error).toBe('You cannot send from someone@else.example');
+
+      const draft = await createDraft({ threadId: `${THREAD_PREFIX}-foreign` });
+      const update = await PUT(request('PUT', { id: draft.id, from: 'someone@else.example' }));
+      expect(update.status).toBe(400);
+    });
+  });
+
+  describe('DELETE /api/drafts', () => {
+    it('discards the draft permanently', async () => {
+      const draft = await createDraft({
+        subject: 'Discard me',
+        threadId: `${THREAD_PREFIX}-delete`,
+      });
+
+      const response = await DELETE(request('DELETE', undefined, `?id=${draft.id}`));
+      expect(response.status).toBe(200);
+
+      const remaining = await db.select().from(emails).where(eq(emails.id, draft.id));
+      expect(remaining).toHaveLength(0);
+    });
+
+    it('returns 404 for unknown drafts', async () => {
+      const response = await DELETE(request('DELETE', undefined, '?id=999999'));
+      expect(response.status).toBe(404);
+    });
+
+    it("returns 404 for another user's draft", async () => {
+      const draft = await createDraft({ subject: 'Mine', threadId: `${THREAD_PREFIX}-private` });
+      const other = await createTestSession();
+
+      const response = await PUT(
+        other.request('http://localhost:3000/api/drafts', {
+          method: 'PUT',
+          body: JSON.stringify({ id: draft.id, subject: 'Theirs' }),
+        }),
+      );
+      expect(response.status).toBe(404);
+    });
+
+    it('requires an ID', async () => {
+      const response = await DELETE(request('DELETE'));
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('drafts folder', () => {
+    let draft: Email;
+
+    beforeAll(async () => {
+      draft = await createDraft({
+        subject: 'Folder draft',
+        to: 'folder@example.com',
+        threadId: `${THREAD_PREFIX}-folder`,
+      });
+    });
+
+    it('lists drafts under the drafts filter', async () => {
+      const drafts = await listEmails('filter=drafts&limit=100');
+      expect(drafts.map((email) => email.id)).toContain(draft.id);
+      expect(drafts.every((email) => email.isDraft)).toBe(true);
+    });
+
+    it('keeps drafts out of the sent folder and search', async () => {
+      const sent = await listEmails('filter=sent&limit=100');
+      expect(sent.map((email) => email.id)).not.toContain(draft.id);
+
+      const results = await listEmails('query=Folder%20draft');
+      expect(results.map((email) => email.id)).not.toContain(draft.id);
+    });
+
+    it('keeps drafts out of the conversation view', async () => {
+      const response = await getThread(
+        session.request(`http://localhost:3000/api/emails/thread/${draft.threadId}`),
+        { params: Promise.resolve({ threadId: draft.threadId }) },
+      );
+      const body = await response.json();
+      expect((body.emails ?? []).map((email: Email) => email.id)).not.toContain(draft.id);
+    });
+
+    it('discards the draft when it is sent', async () => {
+      const response = await sendEmail(
+        session.request('http://localhost:3000/api/emails', {
+          method: 'POST',
+          body: JSON.stringify({
+            subject: draft.subject,
+            to: draft.to,
+            threadId: draft.threadId,
+            draftId: draft.id,
+          }),
+        }),
+      );
+      expect(response.status).toBe(201);
+
+      const { email } = await response.json();
+      expect(email.isDraft).toBe(false);
+
+      const remaining = await db.select().from(emails).where(eq(emails.id, draft.id));
+      expect(remaining).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * Draft API Routes
+ * Creates, updates and discards drafts saved by the composer
+ * Drafts are listed through GET /api/emails?filter=drafts
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth';
+import { createDraft, deleteDraft, updateDraft } from '@/lib/draftQueries';
+import { publishMailEvent } from '@/lib/mailEvents';
+import { findSenderMailbox } from '@/lib/mailboxQueries';
+import { DraftRequest } from '@/types';
+
+// Helper functions for consistent responses
+const errorResponse = (error: string, status: number = 400) =>
+  NextResponse.json({ status: 'error', error }, { status });
+
+const successResponse = (data: object, status: number = 200) =>
+  NextResponse.json({ status: 'success', ...data }, { status });
+
+const DRAFT_FIELDS = ['subject', 'to', 'cc', 'bcc', 'content', 'from', 'threadId'] as const;
+
+/**
+ * Picks the draft fields from a request body
+ * Returns null if any of them is present but not a string
+ */
+function readDraftFields(body: Record<string, unknown>): DraftRequest | null {
+  const draft: DraftRequest = {};
+  for (const field of DRAFT_FIELDS) {
+    const value = body[field];
+    if (value === undefined || value === null) continue;
+    if (typeof value !== 'string') return null;
+    draft[field] = value;
+  }
+  return draft;
+}
+
+/**
+ * POST /api/drafts
+ * Creates a draft from the signed-in user; pass threadId to save a reply and from to write it
+ * from a mailbox other than the primary one
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) return errorResponse('Unauthorized', 401);
+
+    const draft = readDraftFields(await request.json());
+    if (!draft) return errorResponse('Draft fields must be strings');
+
+    const sender = draft.from?.trim();
+    const mailbox = await findSenderMailbox(user.id, sender);
+    if (sender && !mailbox) return errorResponse(`You cannot send from ${sender}`);
+
+    const email = await createDraft(user, draft, mailbox);
+    publishMailEvent(user.id, {
+      type: 'email.created',
+      email: { ...email, attachments: [], labels: [] },
+    });
+    return successResponse({ draft: email }, 201);
+  } catch (error) {
+    console.error('POST /api/drafts error:', error);
+    return errorResponse('Failed to save draft', 500);
+  }
+}
+
+/**
+ * PUT /api/drafts
+ * Updates the draft with the given id; omitted fields are left unchanged
+ */
+export async function PUT(request: NextRequest): Promise<NextResponse> {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) return errorResponse('Unauthorized', 401);
+
+    const body = await request.json();
+    if (!Number.isInteger(body.id)) return errorResponse('Draft ID is required');
+
+    const draft = readDraftFields(body);
+    if (!draft) return errorResponse('Draft fields must be strings');
+
+    // A blank from moves the draft back to the primary mailbox
+    const sender = draft.from?.trim();
+    const mailbox = draft.from !== undefined ? await findSenderMailbox(user.id, sender) : undefined;
+    if (sender && !mailbox) return errorResponse(`You cannot send from ${sender}`);
+
+    const email = await updateDraft(user.id, body.id, draft, mailbox);
+    if (!email) return errorResponse('Draft not found', 404);
+
+    publishMailEvent(user.id, { type: 'email.updated', emails: [email] });
+    return successResponse({ draft: email });
+  } catch (error) {
+    console.error('PUT /api/drafts error:', error);
+    return errorResponse('Failed to save draft', 500);
+  }
+}
+
+/**
+ * DELETE /api/drafts?id=
+ * Discards a draft permanently
+ */
+export async function DELETE(request: NextRequest): Promise<NextResponse> {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) return errorResponse('Unauthorized', 401);
+
+    const id = parseInt(new URL(request.url).searchParams.get('id') ?? '', 10);
+    if (isNaN(id)) return errorResponse('Draft ID is required');
+
+    if (!(await deleteDraft(user.id, id))) return errorResponse('Draft not found', 404);
+    publishMailEvent(user.id, { type: 'email.deleted', ids: [id] });
+
+    return successResponse({ message: 'Draft discarded' });
+  } catch (error) {
+    console.error('DELETE /api/drafts error:', error);
+    return errorResponse('Failed to discard draft', 500);
+  }
+}
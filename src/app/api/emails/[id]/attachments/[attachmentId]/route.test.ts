@@ -0,0 +1,131 @@
+/**
+ * Tests for Attachment Download API Route
+ */
+
+import { GET } from './route';
+import { db } from '@/lib/database';
+import { Attachment, Email, emails, EmailDirection } from '@/lib/schema';
+import { createEmailWithAttachments } from '@/lib/attachmentQueries';
+import { eq } from 'drizzle-orm';
+import { createTestSession, TestSession } from '@/test/testSession';
+
+let session: TestSession;
+
+describe('attachment download API', () => {
+  const TEST_THREAD_ID = 'test-thread-for-attachments';
+  let email: Email;
+  let pdf: Attachment;
+  let html: Attachment;
+
+  const download = (emailId: number | string, attachmentId: number | string, query = '') =>
+    GET(
+      session.request(
+        `http://localhost:3000/api/emails/${emailId}/attachments/${attachmentId}${query}`,
+      ),
+      { params: Promise.resolve({ id: String(emailId), attachmentId: String(attachmentId) }) },
+    );
+
+  beforeAll(async () => {
+    session = await createTestSession();
+    const created = await createEmailWithAttachments(
+      {
+        ownerId: session.user.id,
+        threadId: TEST_THREAD_ID,
+        subject: 'Attachment Download Test',
+        from: 'sender@test.com',
+        to: 'me@company.com',
+        content: 'Files attached',
+        direction: EmailDirection.INCOMING,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      },
+      [
+        new File(['%PDF-1.4 test'], 'Résumé.pdf', { type: 'application/pdf' }),
+        new File(['<script>alert(1)</script>'], 'page.html', { type: 'text/html' }),
+      ],
+    );
+    email = created.email;
+    [pdf, html] = created.attachments;
+  });
+
+  afterAll(async () => {
+    await db.delete(emails).where(eq(emails.threadId, TEST_THREAD_ID));
+  });
+
+  describe('GET /api/emails/[id]/attachments/[attachmentId]', () => {
+    it('streams the stored file with its metadata', async () => {
+      const response = await download(email.id, pdf.id);
+      expect(response.status).toBe(200);
+
+      expect(response.headers.get('content-type')).toBe('application/pdf');
+      expect(response.headers.get('content-length')).toBe(String(pdf.size));
+      expect(response.headers.get('etag')).toBe(`"${pdf.contentHash}"`);
+      expect(await response.text()).toBe('%PDF-1.4 test');
+    });
+
+    it('serves previewable types inline with an encoded filename', async () => {
+      const response = await download(email.id, pdf.id);
+      const disposition = response.headers.get('content-disposition');
+
+      expect(disposition).toMatch(/^inline;/);
+      expect(disposition).toContain('filename="R_sum_.pdf"');
+      expect(disposition).toContain("filename*=UTF-8''R%C3%A9sum%C3%A9.pdf");
+    });
+
+    it('forces a download when requested', async () => {
+      const response = await download(email.id, pdf.id, '?download=true');
+      expect(response.headers.get('content-disposition')).toMatch(/^attachment;/);
+    });
+
+    it('never serves other types inline', async () => {
+      const response = await download(email.id, html.id);
+      expect(response.headers.get('content-disposition')).toMatch(/^attachment;/);
+      expect(response.headers.get('x-content-type-options')).toBe('nosniff');
+    });
+
+    it('returns 404 when the attachment belongs to another email', async () => {
+      const response = await download(email.id + 1, pdf.id);
+      expect(response.status).toBe(404);
+
+      const body = await response.json();
+      expect(body.status).toBe('error');
+    });
+
+    it("returns 404 for another user's attachment", async () => {
+      const other = await createTestSession();
+      const response = await GET(
+        other.request(`http://localhost:3000/api/emails/${email.id}/attachments/${pdf.id}`),
+        { params: Promise.resolve({ id: String(email.id), attachmentId: String(pdf.id) }) },
+      );
+      expect(response.status).toBe(404);
+    });
+
+    it('returns 400 for invalid IDs', async () => {
+      const response = await download('abc', pdf.id);
+      expect(response.status).toBe(400);
+    });
+
+    it('removes attachment rows when the email is deleted', async () => {
+      const {
+        email: temp,
+        attachments: [attachment],
+      } = await createEmailWithAttachments(
+        {
+          ownerId: session.user.id,
+          threadId: TEST_THREAD_ID,
+          subject: 'Cascade Test',
+          from: 'sender@test.com',
+          to: 'me@company.com',
+          direction: EmailDirection.INCOMING,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        },
+        [new File(['temp'], 'temp.txt', { type: 'text/plain' })],
+      );
+      await db.delete(emails).where(eq(emails.id, temp.id));
+
+      const response = await download(temp.id, attachment.id);
+      expect(response.status).toBe(404);
+    });
+  });
+});
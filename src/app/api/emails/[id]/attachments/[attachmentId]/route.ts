@@ -0,0 +1,80 @@
+/**
+ * Attachment Download Route
+ * Streams a stored attachment file
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth';
+import { fetchAttachment } from '@/lib/attachmentQueries';
+import { openBlobStream } from '@/lib/attachmentStorage';
+import { PREVIEWABLE_IMAGE_TYPES, PREVIEWABLE_PDF_TYPE } from '@/types';
+
+interface RouteParams {
+  params: Promise<{ id: string; attachmentId: string }>;
+}
+
+/**
+ * Builds a Content-Disposition header with an ASCII fallback and an RFC 5987 UTF-8 filename
+ */
+function contentDisposition(type: 'inline' | 'attachment', filename: string): string {
+  const fallback = filename.replace(/[^\x20-\x7e]|["\\]/g, '_');
+  return `${type}; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(filename)}`;
+}
+
+/**
+ * GET /api/emails/[id]/attachments/[attachmentId]
+ * Returns the attachment contents, if the email is in the signed-in user's mailbox
+ * Images and PDFs are served inline for previews unless `download=true` is passed;
+ * every other type is always served as a download
+ */
+export async function GET(request: NextRequest, { params }: RouteParams): Promise<NextResponse> {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return NextResponse.json({ status: 'error', error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id, attachmentId } = await params;
+    const emailId = parseInt(id, 10);
+    const fileId = parseInt(attachmentId, 10);
+
+    if (isNaN(emailId) || isNaN(fileId)) {
+      return NextResponse.json(
+        { status: 'error', error: 'Invalid email or attachment ID' },
+        { status: 400 },
+      );
+    }
+
+    const attachment = await fetchAttachment(user.id, emailId, fileId);
+    if (!attachment) {
+      return NextResponse.json({ status: 'error', error: 'Attachment not found' }, { status: 404 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const previewable =
+      PREVIEWABLE_IMAGE_TYPES.includes(attachment.mimeType) ||
+      attachment.mimeType === PREVIEWABLE_PDF_TYPE;
+    const inline = previewable && searchParams.get('download') !== 'true';
+
+    return new NextResponse(await openBlobStream(attachment.contentHash), {
+      headers: {
+        'Content-Type': attachment.mimeType,
+        'Content-Length': String(attachment.size),
+        'Content-Disposition': contentDisposition(
+          inline ? 'inline' : 'attachment',
+          attachment.filename,
+        ),
+        'X-Content-Type-Options': 'nosniff',
+        // Blobs are content-addressed, so an attachment's bytes never change
+        'Cache-Control': 'private, max-age=31536000, immutable',
+        ETag: `"${attachment.contentHash}"`,
+      },
+    });
+  } catch (error) {
+    console.error('GET /api/emails/attachments error:', error);
+    return NextResponse.json(
+      { status: 'error', error: 'Failed to fetch attachment' },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,254 @@
+/**
+ * Tests for outbound delivery: sending through POST /api/emails to a fake SMTP server, retries
+ * with backoff, the delivery job and the retry endpoint
+ */
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { POST as retry } from './route';
+import { POST as sendEmail } from '../../route';
+import { db } from '@/lib/database';
+import { emails, DeliveryStatus, Email, EmailDirection } from '@/lib/schema';
+import { deliverDueEmails, retryDelay } from '@/lib/deliveryQueries';
+import { releaseDueEmails } from '@/lib/scheduledQueries';
+import { recalculateStats } from '@/lib/statsQueries';
+import { startFakeSmtpServer, FakeSmtpServer } from '@/lib/fakeSmtpServer';
+import { createFileDropTransport } from '@/lib/mailTransport';
+import { createMailbox } from '@/lib/mailboxQueries';
+import { parseMessage } from '@/lib/mailParser';
+import { eq, like } from 'drizzle-orm';
+import { MAX_DELIVERY_ATTEMPTS } from '@/types';
+import { createTestSession, TestSession } from '@/test/testSession';
+
+let session: TestSession;
+
+const THREAD_PREFIX = 'delivery-api-test';
+
+const send = async (threadSuffix: string, body: object = {}): Promise<Email> => {
+  const response = await sendEmail(
+    session.request('http://localhost:3000/api/emails', {
+      method: 'POST',
+      body: JSON.stringify({
+        subject: `Delivery ${threadSuffix}`,
+        to: 'Bob <bob@example.com>',
+        content: 'Hello Bob',
+        threadId: `${THREAD_PREFIX}-${threadSuffix}`,
+        ...body,
+      }),
+    }),
+  );
+  expect(response.status).toBe(201);
+  return (await response.json()).email;
+};
+
+const retryNow = (id: number | string) =>
+  retry(session.request(`http://localhost:3000/api/emails/${id}/delivery`, { method: 'POST' }), {
+    params: Promise.resolve({ id: String(id) }),
+  });
+
+const findEmail = async (id: number) =>
+  (await db.select().from(emails).where(eq(emails.id, id)))[0];
+
+describe('outbound delivery', () => {
+  let smtp: FakeSmtpServer;
+  const env = { ...process.env };
+
+  beforeAll(async () => {
+    session = await createTestSession();
+    smtp = await startFakeSmtpServer();
+    process.env.MAIL_TRANSPORT = 'smtp';
+    process.env.SMTP_HOST = '127.0.0.1';
+    process.env.SMTP_PORT = String(smtp.port);
+  });
+
+  beforeEach(() => {
+    smtp.messages.length = 0;
+  });
+
+  afterAll(async () => {
+    process.env = env;
+    await smtp.close();
+    await db.delete(emails).where(like(emails.threadId, `${THREAD_PREFIX}%`));
+    await recalculateStats(session.user.id);
+  });
+
+  it('delivers sent emails over SMTP and records the status', async () => {
+    const email = await send('smtp', { cc: 'carol@example.com', bcc: 'dave@example.com' });
+    expect(email).toMatchObject({
+      deliveryStatus: DeliveryStatus.SENT,
+      deliveryError: null,
+      deliveryAttempts: 1,
+      nextDeliveryAt: null,
+    });
+
+    expect(smtp.messages).toHaveLength(1);
+    const [received] = smtp.messages;
+    expect(received.from).toBe(session.user.email);
+    expect(received.recipients).toEqual([
+      'bob@example.com',
+      'carol@example.com',
+      'dave@example.com',
+    ]);
+
+    // Bcc recipients get the message without seeing each other
+    const message = parseMessage(received.data);
+    expect(message).toMatchObject({
+      messageId: email.messageId,
+      subject: email.subject,
+      to: [{ name: 'Bob', address: 'bob@example.com' }],
+      cc: [{ name: '', address: 'carol@example.com' }],
+      bcc: [],
+      text: 'Hello Bob',
+    });
+  });
+
+  it('sends an HTML part with the HTML signature of the sending mailbox', async () => {
+    const mailbox = await createMailbox(session.user.id, {
+      address: `sales-${session.user.id}@test.example`,
+      signatureHtml: '<b>The Sales Team</b>',
+    });
+    const email = await send('html-signature', { from: mailbox.address });
+    expect(email.content).toBe('Hello Bob\n\n-- \nThe Sales Team');
+
+    const { data } = smtp.messages[0];
+    expect(data).toMatch(/^Content-Type: multipart\/alternative; boundary=/m);
+    expect(data).toContain('<div>-- <br><b>The Sales Team</b></div>');
+    expect(parseMessage(data).text).toBe(email.content);
+  });
+
+  it('does not deliver incoming emails', async () => {
+    const email = await send('incoming', { direction: EmailDirection.INCOMING });
+    expect(email.deliveryStatus).toBeNull();
+    expect(smtp.messages).toHaveLength(0);
+  });
+
+  it('retries temporary failures with backoff, then delivers', async () => {
+    smtp.rejectNext(2, '451 Try again later');
+    const email = await send('temporary');
+    expect(email).toMatchObject({
+      deliveryStatus: DeliveryStatus.FAILED,
+      deliveryError: '451 Try again later',
+      deliveryAttempts: 1,
+    });
+    const firstRetry = new Date(email.nextDeliveryAt!).getTime();
+    expect(firstRetry - Date.now()).toBeGreaterThan(retryDelay(1) - 5000);
+
+    // Not due yet
+    expect(await deliverDueEmails(new Date(firstRetry - 1000))).toHaveLength(0);
+
+    expect(await deliverDueEmails(new Date(firstRetry))).toMatchObject([{ id: email.id }]);
+    const second = await findEmail(email.id);
+    expect(second.deliveryAttempts).toBe(2);
+    expect(second.nextDeliveryAt!.getTime() - firstRetry).toBe(retryDelay(2));
+    expect(retryDelay(2)).toBe(2 * retryDelay(1));
+
+    expect(await deliverDueEmails(second.nextDeliveryAt!)).toMatchObject([{ id: email.id }]);
+    expect(await findEmail(email.id)).toMatchObject({
+      deliveryStatus: DeliveryStatus.SENT,
+      deliveryError: null,
+      deliveryAttempts: 3,
+      nextDeliveryAt: null,
+    });
+    expect(smtp.messages).toHaveLength(1);
+  });
+
+  it('gives up after the maximum number of attempts', async () => {
+    smtp.rejectNext(MAX_DELIVERY_ATTEMPTS, '421 Service not available');
+    const email = await send('exhausted');
+
+    let now = new Date();
+    for (let attempt = 2; attempt <= MAX_DELIVERY_ATTEMPTS; attempt++) {
+      now = new Date(now.getTime() + retryDelay(attempt - 1));
+      await deliverDueEmails(now);
+    }
+    expect(await findEmail(email.id)).toMatchObject({
+      deliveryStatus: DeliveryStatus.FAILED,
+      deliveryAttempts: MAX_DELIVERY_ATTEMPTS,
+      nextDeliveryAt: null,
+    });
+    expect(smtp.messages).toHaveLength(0);
+  });
+
+  it('does not retry permanent failures until asked to', async () => {
+    smtp.rejectNext(1, '550 Mailbox unavailable');
+    const email = await send('permanent');
+    expect(email).toMatchObject({
+      deliveryStatus: DeliveryStatus.FAILED,
+      deliveryError: '550 Mailbox unavailable',
+      nextDeliveryAt: null,
+    });
+
+    // It is only visible to its owner
+    const other = await createTestSession();
+    const otherRetry = await retry(
+      other.request(`http://localhost:3000/api/emails/${email.id}/delivery`, { method: 'POST' }),
+      { params: Promise.resolve({ id: String(email.id) }) },
+    );
+    expect(otherRetry.status).toBe(404);
+
+    const response = await retryNow(email.id);
+    expect(response.status).toBe(200);
+    const { email: retried } = await response.json();
+    expect(retried).toMatchObject({ deliveryStatus: DeliveryStatus.SENT, deliveryAttempts: 1 });
+    expect(smtp.messages).toHaveLength(1);
+
+    // Only failed deliveries can be retried
+    expect((await retryNow(email.id)).status).toBe(404);
+    expect((await retryNow('abc')).status).toBe(400);
+  });
+
+  it('records connection failures', async () => {
+    process.env.SMTP_PORT = '1';
+    try {
+      const email = await send('unreachable');
+      expect(email.deliveryStatus).toBe(DeliveryStatus.FAILED);
+      expect(email.deliveryError).toMatch(/ECONNREFUSED/);
+      expect(email.nextDeliveryAt).not.toBeNull();
+    } finally {
+      process.env.SMTP_PORT = String(smtp.port);
+    }
+  });
+
+  it('queues scheduled emails for delivery when they are released', async () => {
+    const email = await send('scheduled', {
+      scheduledAt: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+    });
+    expect(email.deliveryStatus).toBeNull();
+
+    const now = new Date(Date.now() + 2 * 60 * 60 * 1000);
+    const released = await releaseDueEmails(now);
+    expect(released.find((row) => row.id === email.id)?.deliveryStatus).toBe(DeliveryStatus.QUEUED);
+
+    await deliverDueEmails(now);
+    expect((await findEmail(email.id)).deliveryStatus).toBe(DeliveryStatus.SENT);
+    expect(smtp.messages.map((message) => parseMessage(message.data).subject)).toContain(
+      email.subject,
+    );
+  });
+});
+
+describe('file drop transport', () => {
+  it('writes each message with its envelope as an .eml file', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'outbox-'));
+    try {
+      const raw = Buffer.from('Subject: Hi\r\n\r\nHello\r\n');
+      await createFileDropTransport(dir).send({
+        from: 'me@company.com',
+        recipients: ['bob@example.com', 'carol@example.com'],
+        raw,
+      });
+
+      const files = await fs.readdir(dir);
+      expect(files).toHaveLength(1);
+      expect(files[0]).toMatch(/\.eml$/);
+      expect(await fs.readFile(path.join(dir, files[0]), 'utf8')).toBe(
+        'X-Envelope-From: <me@company.com>\r\n' +
+          'X-Envelope-To: <bob@example.com>, <carol@example.com>\r\n' +
+          raw.toString(),
+      );
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
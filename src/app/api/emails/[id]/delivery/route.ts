@@ -0,0 +1,46 @@
+/**
+ * Delivery API Routes
+ * Retries delivery of an outgoing email that failed to send
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth';
+import { deliverEmail, retryDelivery } from '@/lib/deliveryQueries';
+import { withEmailDetails } from '@/lib/emailQueries';
+import { publishMailEvent } from '@/lib/mailEvents';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// Helper functions for consistent responses
+const errorResponse = (error: string, status: number = 400) =>
+  NextResponse.json({ status: 'error', error }, { status });
+
+const successResponse = (data: object, status: number = 200) =>
+  NextResponse.json({ status: 'success', ...data }, { status });
+
+/**
+ * POST /api/emails/[id]/delivery
+ * Sends a failed email again straight away, with a fresh set of retries
+ */
+export async function POST(request: NextRequest, { params }: RouteParams): Promise<NextResponse> {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) return errorResponse('Unauthorized', 401);
+
+    const emailId = parseInt((await params).id, 10);
+    if (isNaN(emailId)) return errorResponse('Invalid email ID');
+
+    const now = new Date();
+    const queued = await retryDelivery(user.id, emailId, now);
+    if (!queued) return errorResponse('Failed delivery not found', 404);
+
+    const email = (await deliverEmail(emailId, { now })) ?? queued;
+    publishMailEvent(user.id, { type: 'email.updated', emails: await withEmailDetails([email]) });
+    return successResponse({ email });
+  } catch (error) {
+    console.error('POST /api/emails/delivery error:', error);
+    return errorResponse('Failed to retry delivery', 500);
+  }
+}
@@ -0,0 +1,222 @@
+import { randomUUID } from 'crypto';
+import { POST as rethread } from './route';
+import { POST } from '../../route';
+import { db } from '@/lib/database';
+import { emails, Email } from '@/lib/schema';
+import { eq, like } from 'drizzle-orm';
+import { createTestSession, TestSession } from '@/test/testSession';
+
+let session: TestSession;
+
+const createEmail = async (body: Record<string, unknown>) => {
+  const response = await POST(
+    session.request('http://localhost:3000/api/emails', {
+      method: 'POST',
+      body: JSON.stringify({ to: 'threading@test.com', content: 'Threading test', ...body }),
+    }),
+  );
+  return { status: response.status, body: await response.json() };
+};
+
+const callRethread = async (id: number | string) => {
+  const response = await rethread(
+    session.request(`http://localhost:3000/api/emails/${id}/rethread`, { method: 'POST' }),
+    { params: Promise.resolve({ id: String(id) }) },
+  );
+  return { status: response.status, body: await response.json() };
+};
+
+const fetchEmail = async (id: number): Promise<Email> => {
+  const [email] = await db.select().from(emails).where(eq(emails.id, id));
+  return email;
+};
+
+describe('RFC 5322 threading', () => {
+  beforeAll(async () => {
+    session = await createTestSession();
+  });
+
+  // Unique per run so subject fallback never matches leftovers
+  const tag = randomUUID().slice(0, 8);
+  const messageId = (name: string) => `<${name}.${tag}@threading.test>`;
+
+  afterAll(async () => {
+    await db.delete(emails).where(like(emails.subject, `%${tag}%`));
+  });
+
+  describe('POST /api/emails', () => {
+    it('Generates a Message-ID for new emails', async () => {
+      const { status, body } = await createEmail({ subject: `Fresh ${tag}` });
+      expect(status).toBe(201);
+      expect(body.email.messageId).toMatch(/^<[^<>\s]+@[^<>\s]+>$/);
+      expect(body.email.inReplyTo).toBeNull();
+      expect(body.email.references).toBeNull();
+    });
+
+    it('Adds In-Reply-To and References when replying to a thread', async () => {
+      const { body: original } = await createEmail({ subject: `Original ${tag}` });
+      const { body: first } = await createEmail({
+        subject: `Re: Original ${tag}`,
+        threadId: original.email.threadId,
+      });
+      const { body: second } = await createEmail({
+        subject: `Re: Original ${tag}`,
+        threadId: original.email.threadId,
+      });
+
+      expect(first.email.inReplyTo).toBe(original.email.messageId);
+      expect(first.email.references).toBe(original.email.messageId);
+      expect(second.email.inReplyTo).toBe(first.email.messageId);
+      expect(second.email.references).toBe(`${original.email.messageId} ${first.email.messageId}`);
+    });
+
+    it('Threads imported emails from their headers', async () => {
+      const { body: root } = await createEmail({
+        subject: `Import root ${tag}`,
+        messageId: messageId('root'),
+        direction: 'incoming',
+      });
+      // Only an older ancestor in References is stored
+      const { body: reply } = await createEmail({
+        subject: `Different subject ${tag}`,
+        messageId: messageId('reply'),
+        inReplyTo: messageId('missing'),
+        references: `${messageId('root')} ${messageId('missing')}`,
+        direction: 'incoming',
+      });
+
+      expect(root.email.messageId).toBe(messageId('root'));
+      expect(reply.email.threadId).toBe(root.email.threadId);
+    });
+
+    it('Falls back to the normalised subject when no referenced email is stored', async () => {
+      const { body: root } = await createEmail({ subject: `Budget ${tag}` });
+      const { body: reply } = await createEmail({
+        subject: `RE: Fwd: budget ${tag}`,
+        inReplyTo: messageId('unknown'),
+        direction: 'incoming',
+      });
+      const { body: unrelated } = await createEmail({ subject: `Budget ${tag}` });
+
+      expect(reply.email.threadId).toBe(root.email.threadId);
+      // Without a reply prefix the subject alone does not join a thread
+      expect(unrelated.email.threadId).not.toBe(root.email.threadId);
+    });
+
+    it("Never threads onto another user's conversation", async () => {
+      const { body: root } = await createEmail({
+        subject: `Shared ${tag}`,
+        messageId: messageId('shared'),
+      });
+      const other = await createTestSession();
+
+      const response = await POST(
+        other.request('http://localhost:3000/api/emails', {
+          method: 'POST',
+          body: JSON.stringify({
+            to: 'threading@test.com',
+            subject: `Re: Shared ${tag}`,
+            inReplyTo: messageId('shared'),
+            direction: 'incoming',
+          }),
+        }),
+      );
+      const { email } = await response.json();
+      expect(email.threadId).not.toBe(root.email.threadId);
+
+      // The same Message-ID may be stored once per user
+      const copy = await POST(
+        other.request('http://localhost:3000/api/emails', {
+          method: 'POST',
+          body: JSON.stringify({
+            to: 'threading@test.com',
+            subject: `Shared ${tag}`,
+            messageId: messageId('shared'),
+          }),
+        }),
+      );
+      expect(copy.status).toBe(201);
+    });
+
+    it('Rejects duplicate and malformed Message-IDs', async () => {
+      await createEmail({ subject: `Duplicate ${tag}`, messageId: messageId('dup') });
+
+      const duplicate = await createEmail({
+        subject: `Duplicate ${tag}`,
+        messageId: messageId('dup'),
+      });
+      expect(duplicate.status).toBe(409);
+
+      const malformed = await createEmail({ subject: `Malformed ${tag}`, messageId: 'not-an-id' });
+      expect(malformed.status).toBe(400);
+      expect(malformed.body.error).toBe('Invalid Message-ID');
+    });
+  });
+
+  describe('POST /api/emails/[id]/rethread', () => {
+    it('Moves a mis-threaded email and its replies to the thread its headers name', async () => {
+      const { body: root } = await createEmail({
+        subject: `Launch ${tag}`,
+        messageId: messageId('launch'),
+      });
+      const { body: unrelated } = await createEmail({ subject: `Holiday ${tag}` });
+
+      // A reply to the launch email that ended up in the holiday thread, plus its own reply
+      const { body: stray } = await createEmail({
+        subject: `Re: Launch ${tag}`,
+        threadId: unrelated.email.threadId,
+      });
+      await db
+        .update(emails)
+        .set({ inReplyTo: messageId('launch'), references: messageId('launch') })
+        .where(eq(emails.id, stray.email.id));
+      const { body: strayReply } = await createEmail({
+        subject: `Re: Launch ${tag}`,
+        threadId: unrelated.email.threadId,
+      });
+
+      const { status, body } = await callRethread(stray.email.id);
+      expect(status).toBe(200);
+      expect(body.threadId).toBe(root.email.threadId);
+      expect(body.emails.map((e: Email) => e.id).sort()).toEqual(
+        [stray.email.id, strayReply.email.id].sort(),
+      );
+
+      expect((await fetchEmail(strayReply.email.id)).threadId).toBe(root.email.threadId);
+      expect((await fetchEmail(unrelated.email.id)).threadId).toBe(unrelated.email.threadId);
+    });
+
+    it('Splits an email with no ancestor out of a thread it does not start', async () => {
+      const { body: first } = await createEmail({ subject: `Standup ${tag}` });
+      const { body: intruder } = await createEmail({
+        subject: `Lunch ${tag}`,
+        threadId: first.email.threadId,
+      });
+      await db
+        .update(emails)
+        .set({ inReplyTo: null, references: null })
+        .where(eq(emails.id, intruder.email.id));
+
+      const { body } = await callRethread(intruder.email.id);
+      expect(body.threadId).not.toBe(first.email.threadId);
+      expect((await fetchEmail(intruder.email.id)).threadId).toBe(body.threadId);
+    });
+
+    it('Leaves correctly threaded emails alone', async () => {
+      const { body: root } = await createEmail({ subject: `Stable ${tag}` });
+      const { body: reply } = await createEmail({
+        subject: `Re: Stable ${tag}`,
+        threadId: root.email.threadId,
+      });
+
+      const { body } = await callRethread(reply.email.id);
+      expect(body.threadId).toBe(root.email.threadId);
+      expect(body.emails).toEqual([]);
+    });
+
+    it('Returns 404 for unknown emails and 400 for invalid IDs', async () => {
+      expect((await callRethread(999999999)).status).toBe(404);
+      expect((await callRethread('abc')).status).toBe(400);
+    });
+  });
+});
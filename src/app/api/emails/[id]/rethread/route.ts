@@ -0,0 +1,45 @@
+/**
+ * Rethread API Route
+ * Repairs a mis-threaded email by re-deriving its thread from its RFC 5322 headers
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth';
+import { rethreadEmail } from '@/lib/threadingQueries';
+import { publishMailEvent } from '@/lib/mailEvents';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// Helper functions for consistent responses
+const errorResponse = (error: string, status: number = 400) =>
+  NextResponse.json({ status: 'error', error }, { status });
+
+const successResponse = (data: object, status: number = 200) =>
+  NextResponse.json({ status: 'success', ...data }, { status });
+
+/**
+ * POST /api/emails/[id]/rethread
+ * Moves the email, and the replies below it, to the thread its headers point to
+ * Returns the resulting threadId and the emails that moved (empty if it was already right)
+ */
+export async function POST(request: NextRequest, { params }: RouteParams): Promise<NextResponse> {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) return errorResponse('Unauthorized', 401);
+
+    const emailId = parseInt((await params).id, 10);
+    if (isNaN(emailId)) return errorResponse('Invalid email ID');
+
+    const result = await rethreadEmail(user.id, emailId);
+    if (!result) return errorResponse('Email not found', 404);
+
+    // Threaded lists regroup around the moved emails, so clients refetch
+    if (result.emails.length) publishMailEvent(user.id, { type: 'mailbox.changed' });
+    return successResponse(result);
+  } catch (error) {
+    console.error('POST /api/emails/rethread error:', error);
+    return errorResponse('Failed to rethread email', 500);
+  }
+}
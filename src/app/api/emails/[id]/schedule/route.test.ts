@@ -0,0 +1,221 @@
+/**
+ * Tests for scheduled send: scheduling through POST /api/emails, the release job,
+ * and the reschedule/cancel endpoints
+ */
+
+import { PUT, DELETE } from './route';
+import { GET as getEmails, POST as sendEmail } from '../../route';
+import { db } from '@/lib/database';
+import { emails, Email, EmailStatus } from '@/lib/schema';
+import { releaseDueEmails } from '@/lib/scheduledQueries';
+import { recalculateStats } from '@/lib/statsQueries';
+import { eq, like } from 'drizzle-orm';
+import { createTestSession, TestSession } from '@/test/testSession';
+
+let session: TestSession;
+
+const THREAD_PREFIX = 'schedule-api-test';
+const HOUR_MS = 60 * 60 * 1000;
+
+const inHours = (hours: number) => new Date(Date.now() + hours * HOUR_MS).toISOString();
+
+const schedule = async (scheduledAt: string, threadSuffix: string) =>
+  sendEmail(
+    session.request('http://localhost:3000/api/emails', {
+      method: 'POST',
+      body: JSON.stringify({
+        subject: `Scheduled ${threadSuffix}`,
+        to: 'later@example.com',
+        threadId: `${THREAD_PREFIX}-${threadSuffix}`,
+        scheduledAt,
+      }),
+    }),
+  );
+
+const scheduleEmail = async (threadSuffix: string, hours = 2): Promise<Email> =>
+  (await (await schedule(inHours(hours), threadSuffix)).json()).email;
+
+const listIds = async (filter: string): Promise<number[]> => {
+  const response = await getEmails(
+    session.request(`http://localhost:3000/api/emails?filter=${filter}&limit=100`),
+  );
+  return (await response.json()).emails.map((email: Email) => email.id);
+};
+
+const params = (id: number | string) => ({ params: Promise.resolve({ id: String(id) }) });
+
+const put = (id: number | string, body: object) =>
+  PUT(
+    session.request(`http://localhost:3000/api/emails/${id}/schedule`, {
+      method: 'PUT',
+      body: JSON.stringify(body),
+    }),
+    params(id),
+  );
+
+const cancel = (id: number | string) =>
+  DELETE(
+    session.request(`http://localhost:3000/api/emails/${id}/schedule`, { method: 'DELETE' }),
+    params(id),
+  );
+
+describe('scheduled send', () => {
+  beforeAll(async () => {
+    session = await createTestSession();
+  });
+
+  afterAll(async () => {
+    await db.delete(emails).where(like(emails.threadId, `${THREAD_PREFIX}%`));
+    await recalculateStats(session.user.id);
+  });
+
+  describe('POST /api/emails with scheduledAt', () => {
+    it('stores the email as scheduled', async () => {
+      const scheduledAt = inHours(2);
+      const response = await schedule(scheduledAt, 'create');
+      expect(response.status).toBe(201);
+
+      const { email } = await response.json();
+      expect(email.status).toBe(EmailStatus.SCHEDULED);
+      expect(new Date(email.scheduledAt).toISOString()).toBe(
+        // Timestamps are stored with second precision
+        new Date(Math.floor(Date.parse(scheduledAt) / 1000) * 1000).toISOString(),
+      );
+    });
+
+    it('rejects times in the past', async () => {
+      const response = await schedule(inHours(-1), 'past');
+      expect(response.status).toBe(400);
+      expect((await response.json()).error).toBe('Scheduled time must be in the future');
+    });
+
+    it('rejects invalid dates', async () => {
+      const response = await schedule('next tuesday', 'invalid');
+      expect(response.status).toBe(400);
+      expect((await response.json()).error).toBe('Scheduled time is not a valid date');
+    });
+
+    it('lists the email under Scheduled and not Sent', async () => {
+      const email = await scheduleEmail('folders');
+
+      expect(await listIds('scheduled')).toContain(email.id);
+      expect(await listIds('sent')).not.toContain(email.id);
+    });
+
+    it('counts scheduled emails separately from sent', async () => {
+      const before = await recalculateStats(session.user.id);
+      await scheduleEmail('stats');
+      const after = await recalculateStats(session.user.id);
+
+      expect(after.scheduled).toBe(before.scheduled + 1);
+      expect(after.sent).toBe(before.sent);
+    });
+  });
+
+  describe('releaseDueEmails', () => {
+    it('moves due emails into Sent and leaves later ones scheduled', async () => {
+      const due = await scheduleEmail('due', 1);
+      const later = await scheduleEmail('later', 3);
+
+      const released = await releaseDueEmails(new Date(Date.now() + 2 * HOUR_MS));
+      const releasedIds = released.map((email) => email.id);
+      expect(releasedIds).toContain(due.id);
+      expect(releasedIds).not.toContain(later.id);
+
+      const [sent] = await db.select().from(emails).where(eq(emails.id, due.id));
+      expect(sent.status).toBe(EmailStatus.SENT);
+      expect(await listIds('sent')).toContain(due.id);
+      expect(await listIds('scheduled')).toContain(later.id);
+    });
+
+    it('does not release emails that are in the trash', async () => {
+      const trashed = await scheduleEmail('trashed', 1);
+      await db.update(emails).set({ isDeleted: true }).where(eq(emails.id, trashed.id));
+
+      const released = await releaseDueEmails(new Date(Date.now() + 2 * HOUR_MS));
+      expect(released.map((email) => email.id)).not.toContain(trashed.id);
+    });
+  });
+
+  describe('PUT /api/emails/[id]/schedule', () => {
+    it('moves the send time', async () => {
+      const email = await scheduleEmail('reschedule');
+      const scheduledAt = inHours(5);
+
+      const response = await put(email.id, { scheduledAt });
+      expect(response.status).toBe(200);
+
+      const body = await response.json();
+      expect(Date.parse(body.email.scheduledAt)).toBeGreaterThan(Date.now() + 4 * HOUR_MS);
+    });
+
+    it('rejects times in the past', async () => {
+      const email = await scheduleEmail('reschedule-past');
+      const response = await put(email.id, { scheduledAt: inHours(-1) });
+      expect(response.status).toBe(400);
+    });
+
+    it('requires scheduledAt', async () => {
+      const email = await scheduleEmail('reschedule-missing');
+      const response = await put(email.id, {});
+      expect(response.status).toBe(400);
+    });
+
+    it('returns 404 for emails that are not scheduled', async () => {
+      const [sent] = await db
+        .insert(emails)
+        .values({
+          ownerId: session.user.id,
+          threadId: `${THREAD_PREFIX}-already-sent`,
+          subject: 'Already sent',
+          from: session.user.email,
+          to: 'someone@example.com',
+        })
+        .returning();
+
+      const response = await put(sent.id, { scheduledAt: inHours(1) });
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('DELETE /api/emails/[id]/schedule', () => {
+    it('turns the email back into a draft', async () => {
+      const email = await scheduleEmail('cancel');
+
+      const response = await cancel(email.id);
+      expect(response.status).toBe(200);
+
+      const body = await response.json();
+      expect(body.draft).toMatchObject({ id: email.id, isDraft: true, scheduledAt: null });
+      expect(await listIds('drafts')).toContain(email.id);
+      expect(await listIds('scheduled')).not.toContain(email.id);
+    });
+
+    it("returns 404 for another user's email", async () => {
+      const email = await scheduleEmail('cancel-other');
+      const other = await createTestSession();
+
+      const response = await DELETE(
+        other.request(`http://localhost:3000/api/emails/${email.id}/schedule`, {
+          method: 'DELETE',
+        }),
+        params(email.id),
+      );
+      expect(response.status).toBe(404);
+      expect(await listIds('scheduled')).toContain(email.id);
+    });
+
+    it('returns 404 once cancelled', async () => {
+      const email = await scheduleEmail('cancel-twice');
+      await cancel(email.id);
+
+      const response = await cancel(email.id);
+      expect(response.status).toBe(404);
+    });
+
+    it('rejects invalid IDs', async () => {
+      const response = await cancel('abc');
+      expect(response.status).toBe(400);
+    });
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Scheduled Send API Routes
+ * Reschedules or cancels an email that is waiting to be sent
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth';
+import { cancelScheduledEmail, rescheduleEmail } from '@/lib/scheduledQueries';
+import { fetchStats } from '@/lib/statsQueries';
+import { publishMailEvent } from '@/lib/mailEvents';
+import { withEmailDetails } from '@/lib/emailQueries';
+import { validateScheduledAt } from '@/lib/utils';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// Helper functions for consistent responses
+const errorResponse = (error: string, status: number = 400) =>
+  NextResponse.json({ status: 'error', error }, { status });
+
+const successResponse = (data: object, status: number = 200) =>
+  NextResponse.json({ status: 'success', ...data }, { status });
+
+/**
+ * PUT /api/emails/[id]/schedule
+ * Moves a scheduled email to a new send time ({ scheduledAt: ISO date in the future })
+ */
+export async function PUT(request: NextRequest, { params }: RouteParams): Promise<NextResponse> {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) return errorResponse('Unauthorized', 401);
+
+    const emailId = parseInt((await params).id, 10);
+    if (isNaN(emailId)) return errorResponse('Invalid email ID');
+
+    const { scheduledAt } = await request.json();
+    if (typeof scheduledAt !== 'string') return errorResponse('scheduledAt is required');
+
+    const scheduleError = validateScheduledAt(scheduledAt);
+    if (scheduleError) return errorResponse(scheduleError);
+
+    const email = await rescheduleEmail(user.id, emailId, new Date(scheduledAt));
+    if (!email) return errorResponse('Scheduled email not found', 404);
+
+    publishMailEvent(user.id, { type: 'email.updated', emails: await withEmailDetails([email]) });
+    return successResponse({ email });
+  } catch (error) {
+    console.error('PUT /api/emails/schedule error:', error);
+    return errorResponse('Failed to reschedule email', 500);
+  }
+}
+
+/**
+ * DELETE /api/emails/[id]/schedule
+ * Cancels a scheduled send; the email is kept as a draft
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams): Promise<NextResponse> {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) return errorResponse('Unauthorized', 401);
+
+    const emailId = parseInt((await params).id, 10);
+    if (isNaN(emailId)) return errorResponse('Invalid email ID');
+
+    const draft = await cancelScheduledEmail(user.id, emailId);
+    if (!draft) return errorResponse('Scheduled email not found', 404);
+
+    const stats = await fetchStats(user.id);
+    publishMailEvent(user.id, { type: 'email.updated', emails: await withEmailDetails([draft]) });
+    publishMailEvent(user.id, { type: 'stats.changed', stats });
+    return successResponse({ draft, stats });
+  } catch (error) {
+    console.error('DELETE /api/emails/schedule error:', error);
+    return errorResponse('Failed to cancel scheduled email', 500);
+  }
+}
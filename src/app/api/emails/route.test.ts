@@ -1,8 +1,28 @@
 import { NextRequest } from 'next/server';
 import { GET, POST, PATCH, DELETE } from './route';
-import { Email, emails, EmailDirection } from '@/lib/schema';
+import {
+  Attachment,
+  attachments,
+  contacts,
+  Email,
+  emailLabels,
+  emails,
+  EmailDirection,
+  Label,
+  labels,
+  Mailbox,
+} from '@/lib/schema';
 import { db } from '@/lib/database';
-import { eq } from 'drizzle-orm';
+import { createMailbox, findSenderMailbox, updateMailbox } from '@/lib/mailboxQueries';
+import { createLeadList, importLeads } from '@/lib/leadQueries';
+import { parseCsv } from '@/lib/csv';
+import { wakeSnoozedEmails } from '@/lib/snoozeQueries';
+import { recalculateStats } from '@/lib/statsQueries';
+import { eq, inArray } from 'drizzle-orm';
+import { MAX_ATTACHMENT_SIZE, MAX_EMAIL_ATTACHMENTS_SIZE } from '@/types';
+import { createTestSession, TestSession } from '@/test/testSession';
+
+let session: TestSession;
 
 // Track emails created during tests for cleanup
 const createdEmailIds: number[] = [];
@@ -12,10 +32,12 @@ let testFixtureEmail: Email;
 
 describe('emails API', () => {
   beforeAll(async () => {
+    session = await createTestSession();
     // Create test fixture data that tests can rely on
     const [email] = await db
       .insert(emails)
       .values({
+        ownerId: session.user.id,
         threadId: 'route-test-fixture-thread',
         subject: 'Route Test Fixture Email',
         from: 'fixture@test.com',
@@ -51,7 +73,7 @@ describe('emails API', () => {
         content: 'Test content',
       };
 
-      const request = new NextRequest('http://localhost:3000/api/emails', {
+      const request = session.request('http://localhost:3000/api/emails', {
         method: 'POST',
         body: JSON.stringify(emailData),
       });
@@ -79,7 +101,7 @@ describe('emails API', () => {
     });
 
     it('Returns error when subject is missing', async () => {
-      const request = new NextRequest('http://localhost:3000/api/emails', {
+      const request = session.request('http://localhost:3000/api/emails', {
         method: 'POST',
         body: JSON.stringify({ to: 'test@test.com' }),
       });
@@ -93,7 +115,7 @@ describe('emails API', () => {
     });
 
     it('Returns error when recipient is missing', async () => {
-      const request = new NextRequest('http://localhost:3000/api/emails', {
+      const request = session.request('http://localhost:3000/api/emails', {
         method: 'POST',
         body: JSON.stringify({ subject: 'Test' }),
       });
@@ -115,7 +137,7 @@ describe('emails API', () => {
         content: 'Test content',
       };
 
-      const request = new NextRequest('http://localhost:3000/api/emails', {
+      const request = session.request('http://localhost:3000/api/emails', {
         method: 'POST',
         body: JSON.stringify(emailData),
       });
@@ -141,7 +163,7 @@ describe('emails API', () => {
         threadId,
       };
 
-      const request = new NextRequest('http://localhost:3000/api/emails', {
+      const request = session.request('http://localhost:3000/api/emails', {
         method: 'POST',
         body: JSON.stringify(emailData),
       });
@@ -154,11 +176,317 @@ describe('emails API', () => {
 
       expect(body.email.threadId).toBe(threadId);
     });
+
+    it('Records the To and Cc recipients as contacts, but not Bcc', async () => {
+      const request = session.request('http://localhost:3000/api/emails', {
+        method: 'POST',
+        body: JSON.stringify({
+          subject: 'Contacts - Route Test',
+          to: 'Dana Scott <dana.contact@test.com>',
+          cc: 'eli.contact@test.com',
+          bcc: 'fay.contact@test.com',
+          content: 'Test content',
+        }),
+      });
+
+      const response = await POST(request);
+      expect(response.status).toBe(201);
+      createdEmailIds.push((await response.json()).email.id);
+
+      const recorded = await db
+        .select()
+        .from(contacts)
+        .where(eq(contacts.ownerId, session.user.id));
+      expect(recorded.map(({ address }) => address)).toEqual(
+        expect.arrayContaining(['dana.contact@test.com', 'eli.contact@test.com']),
+      );
+      expect(recorded.map(({ address }) => address)).not.toContain('fay.contact@test.com');
+      expect(recorded.map(({ address }) => address)).not.toContain(session.user.email);
+      expect(recorded.find(({ address }) => address === 'dana.contact@test.com')).toMatchObject({
+        name: 'Dana Scott',
+        interactionCount: 1,
+      });
+    });
+
+    it('Stores recipients normalised, keeping display names', async () => {
+      const request = session.request('http://localhost:3000/api/emails', {
+        method: 'POST',
+        body: JSON.stringify({
+          subject: 'Address lists - Route Test',
+          to: '"Doe, Jane" <Jane@Example.COM>,, bob@test.com (Bob)',
+          cc: 'Team: José <josé@BÜCHER.de>;',
+          bcc: ' , ',
+          content: 'Test content',
+        }),
+      });
+
+      const response = await POST(request);
+      expect(response.status).toBe(201);
+
+      const body = await response.json();
+      createdEmailIds.push(body.email.id);
+
+      expect(body.email.to).toBe('"Doe, Jane" <Jane@example.com>, Bob <bob@test.com>');
+      expect(body.email.cc).toBe('José <josé@bücher.de>');
+      expect(body.email.bcc).toBeNull();
+    });
+
+    it('Returns error naming invalid recipients', async () => {
+      const request = session.request('http://localhost:3000/api/emails', {
+        method: 'POST',
+        body: JSON.stringify({
+          subject: 'Invalid recipients - Route Test',
+          to: 'Doe, Jane <jane@example.com>',
+          cc: 'ok@test.com, nobody@localhost',
+        }),
+      });
+
+      const response = await POST(request);
+      expect(response.status).toBe(400);
+
+      const body = await response.json();
+      expect(body.status).toBe('error');
+      expect(body.error).toBe('Invalid recipient address: Doe, nobody@localhost');
+    });
+
+    it('Renders variables and spintax for the recipient when asked to', async () => {
+      const list = await createLeadList(session.user.id, 'Merge route test');
+      await importLeads(
+        session.user.id,
+        list.id,
+        parseCsv(['email,first name,company\nmerge.lead@test.com,Maya,Initech\n']),
+      );
+
+      const request = session.request('http://localhost:3000/api/emails', {
+        method: 'POST',
+        body: JSON.stringify({
+          subject: '{Quick question|Question} for {{company | "your team"}}',
+          to: 'Maya Lopez <merge.lead@test.com>',
+          content: 'Hi {{firstName}} {{lastName}},\nIs {{company}} hiring? {{email}}',
+          merge: true,
+        }),
+      });
+
+      const response = await POST(request);
+      expect(response.status).toBe(201);
+
+      const body = await response.json();
+      createdEmailIds.push(body.email.id);
+      expect(['Quick question for Initech', 'Question for Initech']).toContain(body.email.subject);
+      expect(body.email.content).toBe('Hi Maya Lopez,\nIs Initech hiring? merge.lead@test.com');
+    });
+
+    it('Returns field errors for unknown variables', async () => {
+      const request = session.request('http://localhost:3000/api/emails', {
+        method: 'POST',
+        body: JSON.stringify({
+          subject: 'Hello {{nickname}}',
+          to: 'someone@test.com',
+          content: 'About {{deal}}',
+          merge: true,
+        }),
+      });
+
+      const response = await POST(request);
+      expect(response.status).toBe(400);
+
+      const { details } = await response.json();
+      expect(details.fields).toEqual({
+        subject: expect.stringMatching(/^Unknown variable \{\{nickname\}\}/),
+        content: expect.stringMatching(/^Unknown variable \{\{deal\}\}/),
+      });
+    });
+
+    it('Sends each To recipient their own rendered copy', async () => {
+      const request = session.request('http://localhost:3000/api/emails', {
+        method: 'POST',
+        body: JSON.stringify({
+          subject: 'Hi {{firstName}}',
+          to: 'Ana Silva <ana@test.com>, Bo Chen <bo@test.com>',
+          cc: 'team@test.com',
+          content: 'Test content',
+          merge: true,
+        }),
+      });
+
+      const response = await POST(request);
+      expect(response.status).toBe(201);
+
+      const body = await response.json();
+      createdEmailIds.push(...body.emails.map((email: Email) => email.id));
+      expect(body.emails).toMatchObject([
+        { subject: 'Hi Ana', to: 'Ana Silva <ana@test.com>', cc: 'team@test.com' },
+        { subject: 'Hi Bo', to: 'Bo Chen <bo@test.com>', cc: 'team@test.com' },
+      ]);
+      expect(body.email.id).toBe(body.emails[0].id);
+      expect(body.emails[0].threadId).not.toBe(body.emails[1].threadId);
+    });
+
+    it('Sends mail as written unless asked, and never renders quoted text', async () => {
+      const quote = 'On Monday, Bo wrote:\n> Unsubscribe: {{unsubscribe_url}}';
+      const send = async (fields: object) => {
+        const response = await POST(
+          session.request('http://localhost:3000/api/emails', {
+            method: 'POST',
+            body: JSON.stringify({ subject: 'Code', to: 'one@test.com, two@test.com', ...fields }),
+          }),
+        );
+        expect(response.status).toBe(201);
+        const { emails: sent } = await response.json();
+        createdEmailIds.push(...sent.map((email: Email) => email.id));
+        return sent as Email[];
+      };
+
+      const [plain] = await send({ content: `if (x) { a || b }\n\n${quote}` });
+      expect(plain.content).toBe(`if (x) { a || b }\n\n${quote}`);
+
+      const merged = await send({ content: `Hi {{email}}\n\n${quote}`, merge: true });
+      expect(merged.map((email) => email.content)).toEqual([
+        `Hi one@test.com\n\n${quote}`,
+        `Hi two@test.com\n\n${quote}`,
+      ]);
+    });
+
+    it('Stores incoming mail verbatim', async () => {
+      const request = session.request('http://localhost:3000/api/emails', {
+        method: 'POST',
+        body: JSON.stringify({
+          subject: 'Template {{unknown}}',
+          to: 'me@company.com',
+          content: '{Hi|Hello} {{firstName}}',
+          direction: EmailDirection.INCOMING,
+        }),
+      });
+
+      const response = await POST(request);
+      expect(response.status).toBe(201);
+
+      const body = await response.json();
+      createdEmailIds.push(body.email.id);
+      expect(body.email.subject).toBe('Template {{unknown}}');
+      expect(body.email.content).toBe('{Hi|Hello} {{firstName}}');
+    });
+  });
+
+  describe('POST /api/emails attachments', () => {
+    const postMultipart = (files: File[], fields: Record<string, string> = {}) => {
+      const formData = new FormData();
+      formData.append('subject', 'Attachment Test - Route Test');
+      formData.append('to', 'test@test.com');
+      formData.append('content', 'See attached');
+      Object.entries(fields).forEach(([key, value]) => formData.append(key, value));
+      files.forEach((file) => formData.append('attachments', file));
+
+      return POST(
+        session.request('http://localhost:3000/api/emails', { method: 'POST', body: formData }),
+      );
+    };
+
+    it('Stores multipart attachments with their metadata', async () => {
+      const response = await postMultipart([
+        new File(['quarterly numbers'], 'report.txt', { type: 'text/plain' }),
+        new File([new Uint8Array([0x89, 0x50, 0x4e, 0x47])], 'chart.png', { type: 'image/png' }),
+      ]);
+      expect(response.status).toBe(201);
+
+      const body = await response.json();
+      createdEmailIds.push(body.email.id);
+
+      expect(body.email.subject).toBe('Attachment Test - Route Test');
+      expect(body.attachments).toHaveLength(2);
+      expect(body.attachments[0]).toMatchObject({
+        emailId: body.email.id,
+        filename: 'report.txt',
+        mimeType: 'text/plain',
+        size: 17,
+      });
+      expect(body.attachments[0].contentHash).toMatch(/^[0-9a-f]{64}$/);
+      expect(body.attachments[1]).toMatchObject({ filename: 'chart.png', mimeType: 'image/png' });
+
+      const rows = await db
+        .select()
+        .from(attachments)
+        .where(eq(attachments.emailId, body.email.id));
+      expect(rows).toHaveLength(2);
+    });
+
+    it('Stores identical files under the same content hash', async () => {
+      const first = await (await postMultipart([new File(['same bytes'], 'a.txt')])).json();
+      const second = await (await postMultipart([new File(['same bytes'], 'b.txt')])).json();
+      createdEmailIds.push(first.email.id, second.email.id);
+
+      expect(first.attachments[0].contentHash).toBe(second.attachments[0].contentHash);
+      expect(second.attachments[0].filename).toBe('b.txt');
+    });
+
+    it('Strips directories from uploaded filenames', async () => {
+      const body = await (
+        await postMultipart([new File(['x'], '../../etc/passwd', { type: 'text/plain' })])
+      ).json();
+      createdEmailIds.push(body.email.id);
+
+      expect(body.attachments[0].filename).toBe('passwd');
+    });
+
+    it('Rejects a file over the per-file limit', async () => {
+      const response = await postMultipart([
+        new File([new Uint8Array(MAX_ATTACHMENT_SIZE + 1)], 'huge.bin'),
+      ]);
+      expect(response.status).toBe(413);
+
+      const body = await response.json();
+      expect(body.status).toBe('error');
+      expect(body.error).toContain('"huge.bin"');
+      expect(body.error).toContain('10 MB each');
+    });
+
+    it('Rejects attachments over the per-email limit', async () => {
+      const fileCount = Math.ceil(MAX_EMAIL_ATTACHMENTS_SIZE / MAX_ATTACHMENT_SIZE);
+      const files = Array.from(
+        { length: fileCount },
+        (_, i) => new File([new Uint8Array(MAX_ATTACHMENT_SIZE)], `part-${i}.bin`),
+      );
+
+      const response = await postMultipart(files);
+      expect(response.status).toBe(413);
+
+      const body = await response.json();
+      expect(body.error).toContain('25 MB per email');
+    });
+
+    it('Validates required fields before storing attachments', async () => {
+      const formData = new FormData();
+      formData.append('to', 'test@test.com');
+      formData.append('attachments', new File(['x'], 'orphan.txt'));
+
+      const response = await POST(
+        session.request('http://localhost:3000/api/emails', { method: 'POST', body: formData }),
+      );
+      expect(response.status).toBe(400);
+      expect((await response.json()).error).toContain('Subject');
+    });
+
+    it('Includes attachment metadata in list results', async () => {
+      const created = await (
+        await postMultipart([new File(['listed'], 'listed.txt', { type: 'text/plain' })], {
+          subject: 'Listed attachment - Route Test',
+        })
+      ).json();
+      createdEmailIds.push(created.email.id);
+
+      const response = await GET(
+        session.request('http://localhost:3000/api/emails?filter=sent&limit=100'),
+      );
+      const body = await response.json();
+      const listed = body.emails.find((e: Email) => e.id === created.email.id);
+
+      expect(listed.attachments.map((a: Attachment) => a.filename)).toEqual(['listed.txt']);
+    });
   });
 
   describe('GET /api/emails', () => {
     it('Returns all emails when no search is provided', async () => {
-      const request = new NextRequest('http://localhost:3000/api/emails', {
+      const request = session.request('http://localhost:3000/api/emails', {
         method: 'GET',
       });
 
@@ -174,7 +502,7 @@ describe('emails API', () => {
       // Use the fixture email for search
       const searchTerm = testFixtureEmail.subject.substring(0, 10);
 
-      const request = new NextRequest('http://localhost:3000/api/emails?query=' + encodeURIComponent(searchTerm), {
+      const request = session.request('http://localhost:3000/api/emails?query=' + encodeURIComponent(searchTerm), {
         method: 'GET',
       });
 
@@ -206,7 +534,7 @@ describe('emails API', () => {
         content: 'Test content for cc/bcc search',
       };
 
-      const postRequest = new NextRequest('http://localhost:3000/api/emails', {
+      const postRequest = session.request('http://localhost:3000/api/emails', {
         method: 'POST',
         body: JSON.stringify(emailData),
       });
@@ -221,7 +549,7 @@ describe('emails API', () => {
       expect(createdEmail.bcc).toBe('uniquebccvalue@example.com');
 
       // Search by cc - filter=sent since it's an outgoing email
-      const ccSearchRequest = new NextRequest('http://localhost:3000/api/emails?query=uniqueccvalue&filter=sent', {
+      const ccSearchRequest = session.request('http://localhost:3000/api/emails?query=uniqueccvalue&filter=sent', {
         method: 'GET',
       });
 
@@ -231,7 +559,7 @@ describe('emails API', () => {
       expect(ccResults.some(e => e.id === createdEmail.id)).toBe(true);
 
       // Search by bcc - filter=sent since it's an outgoing email
-      const bccSearchRequest = new NextRequest('http://localhost:3000/api/emails?query=uniquebccvalue&filter=sent', {
+      const bccSearchRequest = session.request('http://localhost:3000/api/emails?query=uniquebccvalue&filter=sent', {
         method: 'GET',
       });
 
@@ -242,7 +570,7 @@ describe('emails API', () => {
     });
 
     it('Returns threaded emails when threaded=true', async () => {
-      const request = new NextRequest('http://localhost:3000/api/emails?threaded=true', {
+      const request = session.request('http://localhost:3000/api/emails?threaded=true', {
         method: 'GET',
       });
 
@@ -254,7 +582,7 @@ describe('emails API', () => {
     });
 
     it('Filters by inbox', async () => {
-      const request = new NextRequest('http://localhost:3000/api/emails?filter=inbox', {
+      const request = session.request('http://localhost:3000/api/emails?filter=inbox', {
         method: 'GET',
       });
 
@@ -268,7 +596,7 @@ describe('emails API', () => {
     });
 
     it('Filters by important', async () => {
-      const request = new NextRequest('http://localhost:3000/api/emails?filter=important', {
+      const request = session.request('http://localhost:3000/api/emails?filter=important', {
         method: 'GET',
       });
 
@@ -283,7 +611,7 @@ describe('emails API', () => {
     });
 
     it('Returns count in response', async () => {
-      const request = new NextRequest('http://localhost:3000/api/emails', {
+      const request = session.request('http://localhost:3000/api/emails', {
         method: 'GET',
       });
 
@@ -296,9 +624,303 @@ describe('emails API', () => {
     });
   });
 
+  describe('GET /api/emails full-text search', () => {
+    const searchThreadId = 'route-test-search-thread';
+
+    beforeAll(async () => {
+      const inserted = await db
+        .insert(emails)
+        .values([
+          {
+            ownerId: session.user.id,
+            threadId: searchThreadId,
+            subject: 'Quarterly zephyrine review',
+            from: 'search@test.com',
+            to: 'me@company.com',
+            content: 'Opening message',
+            createdAt: new Date('2025-02-01'),
+            updatedAt: new Date('2025-02-01'),
+          },
+          {
+            ownerId: session.user.id,
+            threadId: searchThreadId,
+            subject: 'Re: Quarterly review',
+            from: 'search@test.com',
+            to: 'me@company.com',
+            content: 'Following up on the zephyrine numbers',
+            createdAt: new Date('2025-02-02'),
+            updatedAt: new Date('2025-02-02'),
+          },
+          {
+            ownerId: session.user.id,
+            threadId: 'route-test-search-other-thread',
+            subject: 'Unrelated',
+            from: 'search@test.com',
+            to: 'me@company.com',
+            content: 'A passing mention of zephyrine',
+            createdAt: new Date('2025-02-03'),
+            updatedAt: new Date('2025-02-03'),
+          },
+        ])
+        .returning();
+      createdEmailIds.push(...inserted.map((email) => email.id));
+    });
+
+    it('Ranks subject matches above body matches', async () => {
+      const request = session.request('http://localhost:3000/api/emails?query=zephyrine');
+
+      const response = await GET(request);
+      expect(response.status).toBe(200);
+
+      const returnedEmails = (await response.json()).emails as Email[];
+      expect(returnedEmails.length).toBe(3);
+      expect(returnedEmails[0].subject).toBe('Quarterly zephyrine review');
+    });
+
+    it('Returns highlighted snippets for matches', async () => {
+      const request = session.request('http://localhost:3000/api/emails?query=zephyr');
+
+      const response = await GET(request);
+      const returnedEmails = (await response.json()).emails as (Email & { snippet: string })[];
+
+      expect(returnedEmails.length).toBe(3);
+      returnedEmails.forEach((email) => {
+        expect(email.snippet).toContain('<mark>zephyrine</mark>');
+      });
+    });
+
+    it('Returns one row per thread in threaded mode', async () => {
+      const request = session.request(
+        'http://localhost:3000/api/emails?query=zephyrine&threaded=true',
+      );
+
+      const response = await GET(request);
+      const returnedEmails = (await response.json()).emails as Email[];
+
+      const threadIds = returnedEmails.map((email) => email.threadId);
+      expect(new Set(threadIds).size).toBe(threadIds.length);
+      expect(threadIds).toContain(searchThreadId);
+      // Latest matching email of the thread is returned
+      const threadEmail = returnedEmails.find((email) => email.threadId === searchThreadId);
+      expect(threadEmail?.subject).toBe('Re: Quarterly review');
+    });
+
+    it('Keeps the index in sync when email content changes', async () => {
+      const [email] = await db
+        .insert(emails)
+        .values({
+          ownerId: session.user.id,
+          threadId: 'route-test-search-sync-thread',
+          subject: 'Sync check',
+          from: 'search@test.com',
+          to: 'me@company.com',
+          content: 'original wording',
+        })
+        .returning();
+      createdEmailIds.push(email.id);
+
+      await db.update(emails).set({ content: 'replaced quokkaesque wording' }).where(eq(emails.id, email.id));
+
+      const oldResponse = await GET(session.request('http://localhost:3000/api/emails?query=original'));
+      const oldResults = (await oldResponse.json()).emails as Email[];
+      expect(oldResults.some((e) => e.id === email.id)).toBe(false);
+
+      const newResponse = await GET(session.request('http://localhost:3000/api/emails?query=quokkaesque'));
+      const newResults = (await newResponse.json()).emails as Email[];
+      expect(newResults.map((e) => e.id)).toEqual([email.id]);
+    });
+
+    it('Treats search operators in user input as plain text', async () => {
+      const request = session.request(
+        'http://localhost:3000/api/emails?query=' + encodeURIComponent('zephyrine OR NEAR( *'),
+      );
+
+      const response = await GET(request);
+      expect(response.status).toBe(200);
+    });
+  });
+
+  describe('GET /api/emails search operators', () => {
+    let unreadEmail: Email;
+    let readEmail: Email;
+
+    /** Runs a search and returns the ids of matching emails */
+    const searchIds = async (query: string, filter = 'inbox') => {
+      const response = await GET(
+        session.request(
+          `http://localhost:3000/api/emails?filter=${filter}&query=${encodeURIComponent(query)}`,
+        ),
+      );
+      expect(response.status).toBe(200);
+      return ((await response.json()).emails as Email[]).map((email) => email.id);
+    };
+
+    beforeAll(async () => {
+      [unreadEmail, readEmail] = await db
+        .insert(emails)
+        .values([
+          {
+            ownerId: session.user.id,
+            threadId: 'route-test-operators-1',
+            subject: 'Operators budget draft',
+            from: 'olga.operator@test.com',
+            to: 'me@company.com',
+            cc: 'finance@test.com',
+            content: 'Numbers for the operators review',
+            isRead: false,
+            isImportant: true,
+            createdAt: new Date('2024-03-10T12:00:00'),
+            updatedAt: new Date('2024-03-10T12:00:00'),
+          },
+          {
+            ownerId: session.user.id,
+            threadId: 'route-test-operators-2',
+            subject: 'Operators offsite',
+            from: 'pavel.operator@test.com',
+            to: 'me@company.com',
+            content: 'Venue options for the operators team',
+            isRead: true,
+            createdAt: new Date('2024-03-20T12:00:00'),
+            updatedAt: new Date('2024-03-20T12:00:00'),
+          },
+        ])
+        .returning();
+      createdEmailIds.push(unreadEmail.id, readEmail.id);
+    });
+
+    it('Matches field operators against their column only', async () => {
+      expect(await searchIds('operators from:olga')).toEqual([unreadEmail.id]);
+      expect(await searchIds('operators cc:finance')).toEqual([unreadEmail.id]);
+      expect(await searchIds('operators subject:venue')).toEqual([]);
+    });
+
+    it('Applies is: operators', async () => {
+      expect(await searchIds('operators is:unread')).toEqual([unreadEmail.id]);
+      expect(await searchIds('operators is:important')).toEqual([unreadEmail.id]);
+      expect(await searchIds('operators -is:unread')).toEqual([readEmail.id]);
+    });
+
+    it('Applies before: and after: dates', async () => {
+      expect(await searchIds('operators before:2024-03-15')).toEqual([unreadEmail.id]);
+      expect(await searchIds('operators after:2024/03/15')).toEqual([readEmail.id]);
+    });
+
+    it('Matches quoted phrases exactly and excludes negated terms', async () => {
+      expect(await searchIds('"operators review"')).toEqual([unreadEmail.id]);
+      expect(await searchIds('operators -budget')).toEqual([readEmail.id]);
+      expect(await searchIds('from:operator -from:olga')).toEqual([readEmail.id]);
+    });
+
+    it('Uses in: to select the folder instead of the sidebar filter', async () => {
+      await db.update(emails).set({ isDeleted: true }).where(eq(emails.id, readEmail.id));
+
+      expect(await searchIds('operators')).toEqual([unreadEmail.id]);
+      expect(await searchIds('operators in:trash')).toEqual([readEmail.id]);
+      expect(await searchIds('operators', 'trash')).toEqual([readEmail.id]);
+
+      await db.update(emails).set({ isDeleted: false }).where(eq(emails.id, readEmail.id));
+    });
+
+    it('Returns a structured 400 error for invalid syntax', async () => {
+      const response = await GET(
+        session.request(
+          'http://localhost:3000/api/emails?query=' + encodeURIComponent('from:olga before:soon'),
+        ),
+      );
+      expect(response.status).toBe(400);
+
+      const body = await response.json();
+      expect(body.status).toBe('error');
+      expect(body.error).toContain('Invalid search query');
+      expect(body.details).toEqual({ code: 'INVALID_DATE', position: 10 });
+    });
+  });
+
+  describe('GET /api/emails pagination', () => {
+    const pageThreadId = 'route-test-pagination-thread';
+
+    /** Follows nextCursor until the last page, returning every page */
+    const fetchAllPages = async (query: string) => {
+      const pages: { emails: Email[]; nextCursor: string | null }[] = [];
+      let cursor: string | null = null;
+      do {
+        const url: string =
+          `http://localhost:3000/api/emails?${query}` +
+          (cursor ? `&cursor=${encodeURIComponent(cursor)}` : '');
+        const response = await GET(session.request(url));
+        expect(response.status).toBe(200);
+        const page = await response.json();
+        pages.push(page);
+        cursor = page.nextCursor;
+      } while (cursor);
+      return pages;
+    };
+
+    beforeAll(async () => {
+      // Two threads of three emails each; identical timestamps exercise the id tie-breaker
+      const sameTime = new Date('2024-06-01T09:00:00');
+      const inserted = await db
+        .insert(emails)
+        .values(
+          [0, 1, 2, 3, 4, 5].map((i) => ({
+            ownerId: session.user.id,
+            threadId: `${pageThreadId}-${i % 2}`,
+            subject: `Paginated walrus ${i}`,
+            from: 'pages@test.com',
+            to: 'me@company.com',
+            content: 'Paginated content',
+            createdAt: i < 4 ? sameTime : new Date('2024-06-02T09:00:00'),
+            updatedAt: sameTime,
+          })),
+        )
+        .returning();
+      createdEmailIds.push(...inserted.map((email) => email.id));
+    });
+
+    it('Returns every email exactly once across pages', async () => {
+      const pages = await fetchAllPages('query=walrus&limit=2');
+
+      expect(pages.length).toBe(3);
+      pages.slice(0, -1).forEach((page) => expect(page.emails.length).toBe(2));
+      expect(pages[pages.length - 1].nextCursor).toBeNull();
+
+      const ids = pages.flatMap((page) => page.emails.map((email) => email.id));
+      expect(new Set(ids).size).toBe(6);
+    });
+
+    it('Pages through unsearched lists newest first', async () => {
+      const pages = await fetchAllPages('limit=3');
+      const emailList = pages.flatMap((page) => page.emails);
+
+      for (let i = 1; i < emailList.length; i++) {
+        const prev = new Date(emailList[i - 1].createdAt).getTime();
+        const curr = new Date(emailList[i].createdAt).getTime();
+        expect(curr).toBeLessThanOrEqual(prev);
+        if (curr === prev) expect(emailList[i].id).toBeLessThan(emailList[i - 1].id);
+      }
+      expect(new Set(emailList.map((email) => email.id)).size).toBe(emailList.length);
+    });
+
+    it('Returns one row per thread on each page in threaded mode', async () => {
+      const pages = await fetchAllPages('query=walrus&threaded=true&limit=1');
+      const threadIds = pages.flatMap((page) => page.emails.map((email) => email.threadId));
+
+      expect(threadIds.sort()).toEqual([`${pageThreadId}-0`, `${pageThreadId}-1`]);
+    });
+
+    it('Returns 400 for an invalid limit or cursor', async () => {
+      const badLimit = await GET(session.request('http://localhost:3000/api/emails?limit=500'));
+      expect(badLimit.status).toBe(400);
+
+      const badCursor = await GET(session.request('http://localhost:3000/api/emails?cursor=abc'));
+      expect(badCursor.status).toBe(400);
+      expect((await badCursor.json()).error).toBe('Invalid cursor');
+    });
+  });
+
   describe('PATCH /api/emails', () => {
     it('Updates email isRead status', async () => {
-      const request = new NextRequest('http://localhost:3000/api/emails', {
+      const request = session.request('http://localhost:3000/api/emails', {
         method: 'PATCH',
         body: JSON.stringify({ id: testFixtureEmail.id, isRead: true }),
       });
@@ -314,7 +936,7 @@ describe('emails API', () => {
     it('Updates email isImportant status', async () => {
       const newValue = !testFixtureEmail.isImportant;
 
-      const request = new NextRequest('http://localhost:3000/api/emails', {
+      const request = session.request('http://localhost:3000/api/emails', {
         method: 'PATCH',
         body: JSON.stringify({ id: testFixtureEmail.id, isImportant: newValue }),
       });
@@ -330,7 +952,7 @@ describe('emails API', () => {
     });
 
     it('Updates all emails in thread when threadId provided', async () => {
-      const request = new NextRequest('http://localhost:3000/api/emails', {
+      const request = session.request('http://localhost:3000/api/emails', {
         method: 'PATCH',
         body: JSON.stringify({ threadId: testFixtureEmail.threadId, isRead: true }),
       });
@@ -344,7 +966,7 @@ describe('emails API', () => {
     });
 
     it('Returns error when no id or threadId provided', async () => {
-      const request = new NextRequest('http://localhost:3000/api/emails', {
+      const request = session.request('http://localhost:3000/api/emails', {
         method: 'PATCH',
         body: JSON.stringify({ isRead: true }),
       });
@@ -357,7 +979,7 @@ describe('emails API', () => {
     });
 
     it('Returns updated stats after patch', async () => {
-      const request = new NextRequest('http://localhost:3000/api/emails', {
+      const request = session.request('http://localhost:3000/api/emails', {
         method: 'PATCH',
         body: JSON.stringify({ id: testFixtureEmail.id, isRead: true }),
       });
@@ -369,12 +991,305 @@ describe('emails API', () => {
     });
   });
 
+  describe('PATCH /api/emails labels', () => {
+    const LABEL_THREAD_ID = 'route-test-label-thread';
+    let threadEmails: Email[];
+    let work: Label;
+    let travel: Label;
+
+    const patch = (body: object) =>
+      PATCH(
+        session.request('http://localhost:3000/api/emails', {
+          method: 'PATCH',
+          body: JSON.stringify(body),
+        }),
+      );
+
+    const labelIdsOf = async (emailId: number) =>
+      (await db.select().from(emailLabels).where(eq(emailLabels.emailId, emailId)))
+        .map((row) => row.labelId)
+        .sort();
+
+    beforeAll(async () => {
+      threadEmails = await db
+        .insert(emails)
+        .values(
+          [1, 2].map((n) => ({
+            ownerId: session.user.id,
+            threadId: LABEL_THREAD_ID,
+            subject: `Label thread message ${n}`,
+            from: 'labels@test.com',
+            to: 'me@company.com',
+            content: 'Label test content',
+            isRead: false,
+            direction: EmailDirection.INCOMING,
+            createdAt: new Date(2024, 0, n),
+            updatedAt: new Date(),
+          })),
+        )
+        .returning();
+      createdEmailIds.push(...threadEmails.map((e) => e.id));
+
+      [work, travel] = await db
+        .insert(labels)
+        .values([
+          { ownerId: session.user.id, name: 'RouteTest Work', color: '#1976d2' },
+          { ownerId: session.user.id, name: 'RouteTest Travel', color: '#388e3c' },
+        ])
+        .returning();
+    });
+
+    afterAll(async () => {
+      await db.delete(labels).where(inArray(labels.id, [work.id, travel.id]));
+    });
+
+    it('Adds labels to a single email', async () => {
+      const response = await patch({ id: threadEmails[0].id, addLabelIds: [work.id] });
+      expect(response.status).toBe(200);
+
+      expect(await labelIdsOf(threadEmails[0].id)).toEqual([work.id]);
+      expect(await labelIdsOf(threadEmails[1].id)).toEqual([]);
+    });
+
+    it('Adds and removes labels on a whole thread', async () => {
+      const response = await patch({
+        threadId: LABEL_THREAD_ID,
+        addLabelIds: [travel.id],
+        removeLabelIds: [work.id],
+      });
+      expect(response.status).toBe(200);
+
+      for (const email of threadEmails) {
+        expect(await labelIdsOf(email.id)).toEqual([travel.id]);
+      }
+    });
+
+    it('Ignores labels that are already applied', async () => {
+      const response = await patch({ threadId: LABEL_THREAD_ID, addLabelIds: [travel.id] });
+      expect(response.status).toBe(200);
+      expect(await labelIdsOf(threadEmails[0].id)).toEqual([travel.id]);
+    });
+
+    it('Returns 404 for unknown labels without changing anything', async () => {
+      const response = await patch({ id: threadEmails[0].id, addLabelIds: [work.id, 999999] });
+      expect(response.status).toBe(404);
+
+      const body = await response.json();
+      expect(body.error).toContain('999999');
+      expect(await labelIdsOf(threadEmails[0].id)).toEqual([travel.id]);
+    });
+
+    it('Rejects label IDs that are not an array of integers', async () => {
+      const response = await patch({ id: threadEmails[0].id, addLabelIds: 'work' });
+      expect(response.status).toBe(400);
+    });
+
+    it('Filters the list with label:<name>, ignoring case', async () => {
+      await patch({ id: threadEmails[1].id, addLabelIds: [work.id] });
+
+      const response = await GET(
+        session.request('http://localhost:3000/api/emails?filter=label:routetest%20work'),
+      );
+      const body = await response.json();
+
+      expect(body.emails.map((e: Email) => e.id)).toEqual([threadEmails[1].id]);
+      expect(body.emails[0].labels.map((l: Label) => l.name)).toEqual([
+        'RouteTest Travel',
+        'RouteTest Work',
+      ]);
+    });
+
+    it('Excludes deleted emails from label filters', async () => {
+      await db.update(emails).set({ isDeleted: true }).where(eq(emails.id, threadEmails[1].id));
+
+      const response = await GET(
+        session.request('http://localhost:3000/api/emails?filter=label:RouteTest%20Work'),
+      );
+      const body = await response.json();
+      expect(body.emails).toHaveLength(0);
+
+      await db.update(emails).set({ isDeleted: false }).where(eq(emails.id, threadEmails[1].id));
+    });
+  });
+
+  describe('PATCH /api/emails snooze', () => {
+    const SNOOZE_THREAD_ID = 'route-test-snooze-thread';
+    const HOUR_MS = 60 * 60 * 1000;
+    let threadEmails: Email[];
+
+    const patch = (body: object) =>
+      PATCH(
+        session.request('http://localhost:3000/api/emails', {
+          method: 'PATCH',
+          body: JSON.stringify(body),
+        }),
+      );
+
+    const listIds = async (query: string) => {
+      const response = await GET(session.request(`http://localhost:3000/api/emails?${query}`));
+      return (await response.json()).emails.map((e: Email) => e.id);
+    };
+
+    const inHours = (hours: number) => new Date(Date.now() + hours * HOUR_MS).toISOString();
+
+    beforeAll(async () => {
+      threadEmails = await db
+        .insert(emails)
+        .values(
+          [1, 2].map((n) => ({
+            ownerId: session.user.id,
+            threadId: SNOOZE_THREAD_ID,
+            subject: `Snooze thread message ${n}`,
+            from: 'snooze@test.com',
+            to: 'me@company.com',
+            content: 'Snooze test content',
+            isRead: true,
+            direction: EmailDirection.INCOMING,
+            createdAt: new Date(Date.now() - (3 - n) * HOUR_MS),
+            updatedAt: new Date(),
+          })),
+        )
+        .returning();
+      createdEmailIds.push(...threadEmails.map((e) => e.id));
+    });
+
+    it('Snoozes a whole thread out of the inbox', async () => {
+      const response = await patch({ threadId: SNOOZE_THREAD_ID, snoozedUntil: inHours(1) });
+      expect(response.status).toBe(200);
+
+      const body = await response.json();
+      expect(body.emails).toHaveLength(2);
+
+      const inboxIds = await listIds('filter=inbox&threaded=true&limit=100');
+      expect(inboxIds).not.toContain(threadEmails[0].id);
+      expect(inboxIds).not.toContain(threadEmails[1].id);
+    });
+
+    it('Lists snoozed emails in the snoozed view', async () => {
+      const snoozedIds = await listIds('filter=snoozed&limit=100');
+      expect(snoozedIds).toEqual(expect.arrayContaining(threadEmails.map((e) => e.id)));
+    });
+
+    it('Returns the thread to the inbox unread once the snooze passes', async () => {
+      const woken = await wakeSnoozedEmails(new Date(Date.now() + 2 * HOUR_MS));
+      expect(woken).toEqual(
+        expect.arrayContaining(threadEmails.map(({ id, ownerId }) => ({ id, ownerId }))),
+      );
+
+      const rows = await db.select().from(emails).where(eq(emails.threadId, SNOOZE_THREAD_ID));
+      const byId = new Map(rows.map((row) => [row.id, row]));
+      expect(rows.every((row) => row.snoozedUntil === null)).toBe(true);
+      // Only the latest message is marked unread, so the thread counts once
+      expect(byId.get(threadEmails[1].id)!.isRead).toBe(false);
+      expect(byId.get(threadEmails[0].id)!.isRead).toBe(true);
+
+      expect(await listIds('filter=inbox&limit=100')).toContain(threadEmails[1].id);
+    });
+
+    it('Unsnoozes a single email with null', async () => {
+      await patch({ id: threadEmails[0].id, snoozedUntil: inHours(1) });
+      expect(await listIds('filter=inbox&limit=100')).not.toContain(threadEmails[0].id);
+
+      const response = await patch({ id: threadEmails[0].id, snoozedUntil: null });
+      expect(response.status).toBe(200);
+      expect(await listIds('filter=inbox&limit=100')).toContain(threadEmails[0].id);
+    });
+
+    it('Rejects snooze times that are not in the future', async () => {
+      const response = await patch({ id: threadEmails[0].id, snoozedUntil: inHours(-1) });
+      expect(response.status).toBe(400);
+      expect((await response.json()).error).toBe('Snooze time must be in the future');
+    });
+  });
+
+  describe('PATCH /api/emails archive', () => {
+    const ARCHIVE_THREAD_ID = 'route-test-archive-thread';
+    let threadEmails: Email[];
+
+    const patch = (body: object) =>
+      PATCH(
+        session.request('http://localhost:3000/api/emails', {
+          method: 'PATCH',
+          body: JSON.stringify(body),
+        }),
+      );
+
+    const listIds = async (query: string) => {
+      const response = await GET(session.request(`http://localhost:3000/api/emails?${query}`));
+      return (await response.json()).emails.map((e: Email) => e.id);
+    };
+
+    beforeAll(async () => {
+      threadEmails = await db
+        .insert(emails)
+        .values(
+          [1, 2].map((n) => ({
+            ownerId: session.user.id,
+            threadId: ARCHIVE_THREAD_ID,
+            subject: `Archivable quarterly report ${n}`,
+            from: 'archive@test.com',
+            to: 'me@company.com',
+            content: 'Archive test content',
+            isRead: false,
+            direction: EmailDirection.INCOMING,
+            createdAt: new Date(Date.now() - n * 1000),
+            updatedAt: new Date(),
+          })),
+        )
+        .returning();
+      createdEmailIds.push(...threadEmails.map((e) => e.id));
+    });
+
+    it('Archives a whole thread out of the inbox and into the archive', async () => {
+      const before = await recalculateStats(session.user.id);
+
+      const response = await patch({ threadId: ARCHIVE_THREAD_ID, isArchived: true });
+      expect(response.status).toBe(200);
+
+      const body = await response.json();
+      expect(body.emails).toHaveLength(2);
+      expect(body.emails.every((e: Email) => e.isArchived)).toBe(true);
+      expect(body.stats.archived).toBe(before.archived + 2);
+      expect(body.stats.unread).toBe(before.unread - 2);
+
+      const ids = threadEmails.map((e) => e.id);
+      const inboxIds = await listIds('filter=inbox&limit=100');
+      expect(inboxIds).not.toContain(ids[0]);
+      expect(inboxIds).not.toContain(ids[1]);
+      expect(await listIds('filter=archive&limit=100')).toEqual(expect.arrayContaining(ids));
+      expect(await listIds('filter=all&limit=100')).toEqual(expect.arrayContaining(ids));
+    });
+
+    it('Still matches archived emails when searching the inbox', async () => {
+      const ids = threadEmails.map((e) => e.id);
+      expect(await listIds('filter=inbox&query=Archivable')).toEqual(expect.arrayContaining(ids));
+      // An explicit in:inbox keeps the inbox definition
+      expect(await listIds('filter=inbox&query=Archivable%20in%3Ainbox')).toEqual([]);
+    });
+
+    it('Moves a single email back to the inbox', async () => {
+      const response = await patch({ id: threadEmails[0].id, isArchived: false });
+      expect(response.status).toBe(200);
+
+      expect(await listIds('filter=inbox&limit=100')).toContain(threadEmails[0].id);
+      const archiveIds = await listIds('filter=archive&limit=100');
+      expect(archiveIds).not.toContain(threadEmails[0].id);
+      expect(archiveIds).toContain(threadEmails[1].id);
+    });
+
+    it('Leaves deleted emails out of All Mail', async () => {
+      await db.update(emails).set({ isDeleted: true }).where(eq(emails.id, threadEmails[1].id));
+      expect(await listIds('filter=all&limit=100')).not.toContain(threadEmails[1].id);
+    });
+  });
+
   describe('DELETE /api/emails', () => {
     it('Soft-deletes email by id', async () => {
       // Create a test email to delete
       const [testEmail] = await db
         .insert(emails)
         .values({
+          ownerId: session.user.id,
           threadId: 'test-delete-thread',
           subject: 'To be deleted',
           from: 'test@test.com',
@@ -386,7 +1301,7 @@ describe('emails API', () => {
         })
         .returning();
 
-      const request = new NextRequest(`http://localhost:3000/api/emails?id=${testEmail.id}`, {
+      const request = session.request(`http://localhost:3000/api/emails?id=${testEmail.id}`, {
         method: 'DELETE',
       });
 
@@ -405,7 +1320,7 @@ describe('emails API', () => {
     });
 
     it('Returns error for invalid email id', async () => {
-      const request = new NextRequest('http://localhost:3000/api/emails?id=invalid', {
+      const request = session.request('http://localhost:3000/api/emails?id=invalid', {
         method: 'DELETE',
       });
 
@@ -417,7 +1332,7 @@ describe('emails API', () => {
     });
 
     it('Returns error when no id or threadId provided', async () => {
-      const request = new NextRequest('http://localhost:3000/api/emails', {
+      const request = session.request('http://localhost:3000/api/emails', {
         method: 'DELETE',
       });
 
@@ -430,6 +1345,7 @@ describe('emails API', () => {
       const threadId = 'test-delete-thread-batch';
       await db.insert(emails).values([
         {
+          ownerId: session.user.id,
           threadId,
           subject: 'Thread email 1',
           from: 'test@test.com',
@@ -440,6 +1356,7 @@ describe('emails API', () => {
           updatedAt: new Date(),
         },
         {
+          ownerId: session.user.id,
           threadId,
           subject: 'Thread email 2',
           from: 'test@test.com',
@@ -451,7 +1368,7 @@ describe('emails API', () => {
         },
       ]);
 
-      const request = new NextRequest(`http://localhost:3000/api/emails?threadId=${threadId}`, {
+      const request = session.request(`http://localhost:3000/api/emails?threadId=${threadId}`, {
         method: 'DELETE',
       });
 
@@ -472,6 +1389,7 @@ describe('emails API', () => {
       const [testEmail] = await db
         .insert(emails)
         .values({
+          ownerId: session.user.id,
           threadId: 'test-stats-thread',
           subject: 'Test stats',
           from: 'test@test.com',
@@ -483,7 +1401,7 @@ describe('emails API', () => {
         })
         .returning();
 
-      const request = new NextRequest(`http://localhost:3000/api/emails?id=${testEmail.id}`, {
+      const request = session.request(`http://localhost:3000/api/emails?id=${testEmail.id}`, {
         method: 'DELETE',
       });
 
@@ -496,4 +1414,215 @@ describe('emails API', () => {
       await db.delete(emails).where(eq(emails.id, testEmail.id));
     });
   });
+
+  describe('sending identities', () => {
+    let sales: Mailbox;
+
+    const send = (body: object) =>
+      POST(
+        session.request('http://localhost:3000/api/emails', {
+          method: 'POST',
+          body: JSON.stringify({ subject: 'Identity test', to: 'lead@test.com', ...body }),
+        }),
+      );
+
+    beforeAll(async () => {
+      sales = await createMailbox(session.user.id, {
+        address: `sales-${session.user.id}@test.example`,
+        displayName: 'Sales Team',
+      });
+    });
+
+    it('Sends from the chosen mailbox with its display name', async () => {
+      const response = await send({ from: sales.address.toUpperCase() });
+      expect(response.status).toBe(201);
+
+      const { email } = await response.json();
+      createdEmailIds.push(email.id);
+      expect(email).toMatchObject({ from: `Sales Team <${sales.address}>`, mailboxId: sales.id });
+    });
+
+    it('Sends from the primary mailbox by default', async () => {
+      const { email } = await (await send({})).json();
+      createdEmailIds.push(email.id);
+
+      const primary = await findSenderMailbox(session.user.id);
+      expect(email).toMatchObject({ from: session.user.email, mailboxId: primary!.id });
+    });
+
+    it('Rejects an address that is not one of the mailboxes', async () => {
+      const response = await send({ from: 'ceo@test.com' });
+      expect(response.status).toBe(400);
+    });
+
+    it('Lists one account with account=<mailbox ID>, and every account without it', async () => {
+      const [received] = await db
+        .insert(emails)
+        .values({
+          ownerId: session.user.id,
+          mailboxId: sales.id,
+          threadId: 'route-test-identity-thread',
+          subject: 'Identity inbox test',
+          from: 'lead@test.com',
+          to: sales.address,
+        })
+        .returning();
+      createdEmailIds.push(received.id);
+
+      const list = async (params: string) => {
+        const response = await GET(
+          session.request(`http://localhost:3000/api/emails?filter=inbox${params}`),
+        );
+        return (await response.json()).emails.map((email: Email) => email.id);
+      };
+
+      expect(await list(`&account=${sales.id}`)).toEqual([received.id]);
+      const unified = await list('');
+      expect(unified).toContain(received.id);
+      expect(unified).toContain(testFixtureEmail.id);
+
+      const invalid = await GET(
+        session.request('http://localhost:3000/api/emails?account=sales'),
+      );
+      expect(invalid.status).toBe(400);
+    });
+  });
+
+  describe('signatures', () => {
+    let signer: TestSession;
+    let support: Mailbox;
+    let plain: Mailbox;
+
+    const send = async (body: object) => {
+      const response = await POST(
+        signer.request('http://localhost:3000/api/emails', {
+          method: 'POST',
+          body: JSON.stringify({ subject: 'Signature test', to: 'lead@test.com', ...body }),
+        }),
+      );
+      expect(response.status).toBe(201);
+      const { email } = await response.json();
+      createdEmailIds.push(email.id);
+      return email as Email;
+    };
+
+    beforeAll(async () => {
+      signer = await createTestSession();
+      const primary = await findSenderMailbox(signer.user.id);
+      await updateMailbox(signer.user.id, primary!.id, { signature: 'Ana Lima' });
+      support = await createMailbox(signer.user.id, {
+        address: `support-${signer.user.id}@test.example`,
+        signature: '-- \nThe Support Team',
+      });
+      plain = await createMailbox(signer.user.id, {
+        address: `plain-${signer.user.id}@test.example`,
+      });
+    });
+
+    it("Appends the sending mailbox's signature", async () => {
+      const email = await send({ from: support.address, content: 'Hello' });
+      expect(email.content).toBe('Hello\n\n-- \nThe Support Team');
+    });
+
+    it("Uses the primary mailbox's signature for a mailbox without one", async () => {
+      const email = await send({ from: plain.address, content: 'Hello' });
+      expect(email.content).toBe('Hello\n\n-- \nAna Lima');
+    });
+
+    it('Puts the signature above quoted text', async () => {
+      const quote = 'On Monday, Bo <bo@x.com> wrote:\n> Lunch?';
+      const email = await send({ content: `Sure.\n\n${quote}` });
+      expect(email.content).toBe(`Sure.\n\n-- \nAna Lima\n\n${quote}`);
+    });
+
+    it('Does not add a second signature when the message has one', async () => {
+      const email = await send({ content: 'Hello\n\n-- \nAna (sent from my phone)' });
+      expect(email.content).toBe('Hello\n\n-- \nAna (sent from my phone)');
+    });
+
+    it('Leaves the signature off when appendSignature is false', async () => {
+      const email = await send({ content: 'Hello', appendSignature: false });
+      expect(email.content).toBe('Hello');
+    });
+
+    it('Stores incoming mail as given', async () => {
+      const email = await send({ content: 'Hello', direction: EmailDirection.INCOMING });
+      expect(email.content).toBe('Hello');
+    });
+  });
+
+  describe('accounts', () => {
+    let other: TestSession;
+
+    beforeAll(async () => {
+      other = await createTestSession();
+    });
+
+    it("Does not list another user's emails", async () => {
+      const response = await GET(
+        other.request('http://localhost:3000/api/emails?filter=all&query=fixture'),
+      );
+      const body = await response.json();
+      expect(body.emails.map((email: Email) => email.id)).not.toContain(testFixtureEmail.id);
+    });
+
+    it("Cannot change or delete another user's emails", async () => {
+      const patchResponse = await PATCH(
+        other.request('http://localhost:3000/api/emails', {
+          method: 'PATCH',
+          body: JSON.stringify({ id: testFixtureEmail.id, isImportant: true }),
+        }),
+      );
+      expect(patchResponse.status).toBe(404);
+
+      const deleteResponse = await DELETE(
+        other.request(`http://localhost:3000/api/emails?id=${testFixtureEmail.id}`, {
+          method: 'DELETE',
+        }),
+      );
+      expect(deleteResponse.status).toBe(404);
+
+      const [unchanged] = await db.select().from(emails).where(eq(emails.id, testFixtureEmail.id));
+      expect(unchanged).toMatchObject({ isImportant: false, isDeleted: false });
+    });
+
+    it("Does not count another user's emails", async () => {
+      expect(await recalculateStats(other.user.id)).toMatchObject({ total: 0, unread: 0 });
+    });
+
+    it('Sends from the signed-in user', async () => {
+      const response = await POST(
+        other.request('http://localhost:3000/api/emails', {
+          method: 'POST',
+          body: JSON.stringify({ subject: 'From me', to: 'test@test.com' }),
+        }),
+      );
+      const { email } = await response.json();
+      createdEmailIds.push(email.id);
+      expect(email).toMatchObject({ ownerId: other.user.id, from: other.user.email });
+    });
+
+    it("Cannot send from another user's address", async () => {
+      const response = await POST(
+        other.request('http://localhost:3000/api/emails', {
+          method: 'POST',
+          body: JSON.stringify({ subject: 'From me', to: 'test@test.com', from: session.user.email }),
+        }),
+      );
+      expect(response.status).toBe(400);
+      expect((await response.json()).error).toBe(`You cannot send from ${session.user.email}`);
+    });
+
+    it('Requires a signed-in user', async () => {
+      const url = 'http://localhost:3000/api/emails';
+      const responses = await Promise.all([
+        GET(new NextRequest(url)),
+        POST(new NextRequest(url, { method: 'POST', body: JSON.stringify({ to: 'a@test.com' }) })),
+        PATCH(new NextRequest(url, { method: 'PATCH', body: JSON.stringify({ id: 1 }) })),
+        DELETE(new NextRequest(`${url}?id=1`, { method: 'DELETE' })),
+      ]);
+      responses.forEach((response) => expect(response.status).toBe(401));
+      expect((await responses[0].json()).error).toBe('Unauthorized');
+    });
+  });
 });
@@ -4,36 +4,117 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth';
 import { db } from '@/lib/database';
-import { emails, EmailDirection } from '@/lib/schema';
-import { invalidateStats, recalculateStats } from '@/lib/statsQueries';
-import { fetchEmails } from '@/lib/emailQueries';
-import { generateThreadId } from '@/lib/utils';
+import {
+  emails,
+  Attachment,
+  DeliveryStatus,
+  Email,
+  EmailDirection,
+  EmailStatus,
+} from '@/lib/schema';
+import { recalculateStats } from '@/lib/statsQueries';
+import { fetchEmails, withEmailDetails } from '@/lib/emailQueries';
+import { SearchQueryError } from '@/lib/searchQuery';
+import { PaginationError, parseLimit } from '@/lib/pagination';
+import { createEmailWithAttachments } from '@/lib/attachmentQueries';
+import { findMissingLabelIds, updateEmailLabels } from '@/lib/labelQueries';
+import { deleteDraft } from '@/lib/draftQueries';
+import { purgeEmails } from '@/lib/trashQueries';
+import { deliverEmail } from '@/lib/deliveryQueries';
+import { findSenderMailbox, findSignature, formatSender } from '@/lib/mailboxQueries';
+import { recordContacts } from '@/lib/contactQueries';
+import { stopRepliedLeads } from '@/lib/campaignQueries';
+import {
+  findInvalidAddresses,
+  formatAddress,
+  normalizeAddressList,
+  parseAddressList,
+} from '@/lib/addressList';
+import {
+  hasMergeFields,
+  mergeFieldsOf,
+  renderMergeMessage,
+  validateMergeFields,
+} from '@/lib/mailMerge';
+import { fetchMergeValues } from '@/lib/mergeQueries';
+import { hasSignature, insertSignature } from '@/lib/signature';
+import { publishMailEvent } from '@/lib/mailEvents';
+import { assignThreadId, findEmailByMessageId, getReplyHeaders } from '@/lib/threadingQueries';
+import {
+  formatFileSize,
+  generateMessageId,
+  isValidMessageId,
+  validateAttachments,
+  validateFutureDate,
+  validateScheduledAt,
+} from '@/lib/utils';
 import { eq, and } from 'drizzle-orm';
-import { EmailFilter } from '@/types/email';
+import { EmailFilter, MAX_EMAIL_ATTACHMENTS_SIZE } from '@/types/email';
 
 // Helper functions for consistent responses
-const errorResponse = (error: string, status: number = 400) =>
-  NextResponse.json({ status: 'error', error }, { status });
+const errorResponse = (error: string, status: number = 400, details?: object) =>
+  NextResponse.json({ status: 'error', error, ...(details && { details }) }, { status });
 
 const successResponse = (data: object, status: number = 200) =>
   NextResponse.json({ status: 'success', ...data }, { status });
 
+// Allowance for multipart boundaries and text fields on top of the attachment limit
+const MULTIPART_OVERHEAD_BYTES = 1024 * 1024;
+
+/**
+ * Reads the POST body as JSON, or as multipart/form-data when files are attached
+ * Multipart text fields use the same names as the JSON payload; files are sent as `attachments`
+ */
+async function readCreateEmailBody(
+  request: NextRequest,
+): Promise<{ fields: Record<string, string | undefined>; files: File[] }> {
+  if (!request.headers.get('content-type')?.startsWith('multipart/form-data')) {
+    return { fields: await request.json(), files: [] };
+  }
+
+  const formData = await request.formData();
+  const fields: Record<string, string> = {};
+  const files: File[] = [];
+  formData.forEach((value, key) => {
+    if (typeof value === 'string') fields[key] = value;
+    else if (key === 'attachments') files.push(value);
+  });
+  return { fields, files };
+}
+
 /**
  * GET /api/emails
- * Fetches emails with optional search, filter, and threading
+ * Fetches the signed-in user's emails with optional search, filter, and threading
+ * The query param accepts Gmail-style operators (from:, is:unread, before:, "phrase", -term)
+ * Paginated with limit (default 50, max 100) and cursor; pass nextCursor back for the next page
+ * Pass account (a mailbox ID) to list one account; without it every account is listed
  */
 export async function GET(request: NextRequest): Promise<NextResponse> {
   try {
+    const user = await getSessionUser(request);
+    if (!user) return errorResponse('Unauthorized', 401);
+
     const { searchParams } = new URL(request.url);
-    const emailList = await fetchEmails({
+    const account = searchParams.get('account');
+    if (account && !/^\d+$/.test(account)) return errorResponse('Invalid account');
+
+    const { emails: emailList, nextCursor } = await fetchEmails(user.id, {
       filter: (searchParams.get('filter') as EmailFilter) || undefined,
       query: searchParams.get('query') || undefined,
       threaded: searchParams.get('threaded') === 'true',
+      account: account ? Number(account) : undefined,
+      limit: parseLimit(searchParams.get('limit')),
+      cursor: searchParams.get('cursor') || undefined,
     });
 
-    return successResponse({ emails: emailList, count: emailList.length });
+    return successResponse({ emails: emailList, count: emailList.length, nextCursor });
   } catch (error) {
+    if (error instanceof SearchQueryError) {
+      return errorResponse(`Invalid search query: ${error.message}`, 400, error.details);
+    }
+    if (error instanceof PaginationError) return errorResponse(error.message);
     console.error('GET /api/emails error:', error);
     return errorResponse('Failed to fetch emails', 500);
   }
@@ -41,64 +122,269 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
 
 /**
  * POST /api/emails
- * Creates a new email (sending an email)
+ * Creates a new email (sending an email) from the signed-in user
+ * Sent from the address in `from`, which must be one of the user's mailboxes (400 otherwise),
+ * or from their primary mailbox when omitted
+ * to, cc and bcc are RFC 5322 address lists (400 naming any invalid mailbox), stored normalised
+ * as `Name <address>` or bare addresses, comma-separated
+ * Accepts JSON, or multipart/form-data with files under `attachments`
+ * Attachments are limited to 10 MB each and 25 MB per email (413 when exceeded)
+ * Pass draftId when sending from a saved draft; the draft is discarded once sent
+ * Pass scheduledAt (ISO date in the future) to send later; the job runner releases it into Sent
+ * A Message-ID is generated unless one is given (409 if already stored). Replies to threadId get
+ * In-Reply-To/References from the thread; without threadId, the given inReplyTo/references
+ * (or a "Re:" subject) decide the thread
+ * Outgoing emails are handed to the mail transport before responding; the returned email carries
+ * the delivery status, and failed deliveries are retried by the job runner
+ * The people on the email are recorded as the user's contacts
+ * Pass merge=true to render the subject and the content above any quoted text as mail merge
+ * templates: each To recipient is sent their own copy (with the same Cc and Bcc), listed in
+ * `emails`. Unknown variables are a 400 with `details.fields` giving the error for each field
+ * Outgoing content gets the sender's signature (or the primary mailbox's) above any quoted
+ * text, unless it already has a `-- ` signature block or appendSignature is false
  */
 export async function POST(request: NextRequest): Promise<NextResponse> {
   try {
-    const { subject, to, cc, bcc, content, threadId, direction } = await request.json();
+    const user = await getSessionUser(request);
+    if (!user) return errorResponse('Unauthorized', 401);
+
+    const contentLength = Number(request.headers.get('content-length'));
+    if (contentLength > MAX_EMAIL_ATTACHMENTS_SIZE + MULTIPART_OVERHEAD_BYTES) {
+      return errorResponse(
+        `Request is too large; attachments are limited to ${formatFileSize(MAX_EMAIL_ATTACHMENTS_SIZE)} per email`,
+        413,
+      );
+    }
+
+    const { fields, files } = await readCreateEmailBody(request);
+    const { subject, to, cc, bcc, content, threadId, direction, draftId, scheduledAt } = fields;
+    const { messageId, inReplyTo, references } = fields;
 
     if (!subject?.trim()) return errorResponse('Subject is required');
-    if (!to?.trim()) return errorResponse('Recipient (to) is required');
-
-    const [email] = await db
-      .insert(emails)
-      .values({
-        threadId: threadId || generateThreadId(),
-        subject: subject.trim(),
-        from: 'me@company.com',
-        to: to.trim(),
-        cc: cc?.trim() || null,
-        bcc: bcc?.trim() || null,
-        content: content?.trim() || '',
-        isRead: true,
-        isImportant: false,
-        direction: direction || EmailDirection.OUTGOING,
-        createdAt: new Date(),
-        updatedAt: new Date(),
-      })
-      .returning();
 
-    await invalidateStats();
-    return successResponse({ email }, 201);
+    const invalid = [to, cc, bcc].flatMap((list) => (list ? findInvalidAddresses(list) : []));
+    if (invalid.length) return errorResponse(`Invalid recipient address: ${invalid.join(', ')}`);
+    const recipients = {
+      to: normalizeAddressList(to ?? ''),
+      cc: normalizeAddressList(cc ?? '') || null,
+      bcc: normalizeAddressList(bcc ?? '') || null,
+    };
+    if (!recipients.to) return errorResponse('Recipient (to) is required');
+
+    // Outgoing mail asked to be personalised is rendered for each To recipient in turn, as their
+    // own copy: variables, fallbacks and spintax, leaving quoted text as it was received
+    const outgoing = !direction || direction === EmailDirection.OUTGOING;
+    const message = { subject: subject.trim(), content: content?.trim() || '' };
+    const templates = mergeFieldsOf(message);
+    const merge = outgoing && String(fields.merge) === 'true';
+    if (merge) {
+      const mergeErrors = validateMergeFields(templates);
+      const [firstError] = Object.values(mergeErrors);
+      if (firstError) return errorResponse(firstError, 400, { fields: mergeErrors });
+    }
+
+    const sender = fields.from?.trim();
+    const mailbox = await findSenderMailbox(user.id, sender);
+    if (sender && !mailbox) return errorResponse(`You cannot send from ${sender}`);
+
+    const copies =
+      merge && Object.values(templates).some(hasMergeFields)
+        ? await Promise.all(
+            parseAddressList(recipients.to).map(async (recipient) => {
+              const values = await fetchMergeValues(user.id, recipient);
+              const rendered = renderMergeMessage(message, values);
+              return {
+                to: formatAddress(recipient),
+                subject: rendered.subject.trim(),
+                content: rendered.content.trim(),
+              };
+            }),
+          )
+        : [{ ...message, to: recipients.to }];
+
+    // The sender's signature goes above any quoted text, unless the message already has one
+    if (outgoing && String(fields.appendSignature) !== 'false' && !hasSignature(message.content)) {
+      const signature = await findSignature(user.id, mailbox);
+      for (const copy of copies) copy.content = insertSignature(copy.content, signature).trim();
+    }
+
+    if (messageId) {
+      if (copies.length > 1) {
+        return errorResponse('A Message-ID cannot be given for mail sent to each recipient');
+      }
+      if (!isValidMessageId(messageId)) return errorResponse('Invalid Message-ID');
+      if (await findEmailByMessageId(user.id, messageId.trim())) {
+        return errorResponse('An email with this Message-ID already exists', 409);
+      }
+    }
+
+    const scheduleError = scheduledAt && validateScheduledAt(scheduledAt);
+    if (scheduleError) return errorResponse(scheduleError);
+
+    const attachmentError = validateAttachments(files);
+    if (attachmentError) return errorResponse(attachmentError, 413);
+
+    // Replies to a known thread carry its headers; anything else is threaded from its own
+    const headers = threadId
+      ? await getReplyHeaders(user.id, threadId)
+      : { inReplyTo: inReplyTo?.trim() || null, references: references?.trim() || null };
+    const from = mailbox ? formatSender(mailbox) : user.email;
+    const now = new Date();
+
+    const created: { email: Email; attachments: Attachment[] }[] = [];
+    for (const copy of copies) {
+      created.push(
+        await createEmailWithAttachments(
+          {
+            ownerId: user.id,
+            mailboxId: mailbox?.id ?? null,
+            threadId:
+              threadId ||
+              (await assignThreadId({
+                ...headers,
+                ownerId: user.id,
+                subject: copy.subject,
+                from,
+                to: copy.to,
+                cc: recipients.cc,
+              })),
+            messageId: messageId?.trim() || generateMessageId(),
+            ...headers,
+            subject: copy.subject,
+            from,
+            ...recipients,
+            to: copy.to,
+            content: copy.content,
+            isRead: true,
+            isImportant: false,
+            direction: (direction as EmailDirection) || EmailDirection.OUTGOING,
+            ...(scheduledAt && {
+              status: EmailStatus.SCHEDULED,
+              scheduledAt: new Date(scheduledAt),
+            }),
+            // Scheduled emails are queued when the job runner releases them
+            ...(outgoing &&
+              !scheduledAt && { deliveryStatus: DeliveryStatus.QUEUED, nextDeliveryAt: now }),
+            createdAt: now,
+            updatedAt: now,
+          },
+          files,
+        ),
+      );
+    }
+
+    await recordContacts(user.id, created.map(({ email }) => email));
+    if (!outgoing) await stopRepliedLeads([created[0].email.threadId]);
+
+    if (draftId && (await deleteDraft(user.id, Number(draftId)))) {
+      publishMailEvent(user.id, { type: 'email.deleted', ids: [Number(draftId)] });
+    }
+
+    const stats = await recalculateStats(user.id);
+    const sent: Email[] = [];
+    for (const { email, attachments } of created) {
+      const delivered = email.deliveryStatus && (await deliverEmail(email.id, { now }));
+      sent.push(delivered || email);
+      publishMailEvent(user.id, {
+        type: 'email.created',
+        email: { ...(delivered || email), attachments, labels: [] },
+      });
+    }
+    publishMailEvent(user.id, { type: 'stats.changed', stats });
+    return successResponse(
+      { email: sent[0], attachments: created[0].attachments, emails: sent },
+      201,
+    );
   } catch (error) {
     console.error('POST /api/emails error:', error);
     return errorResponse('Failed to create email', 500);
   }
 }
 
+/**
+ * Checks that a label ID list is absent or an array of integers
+ */
+const isLabelIdList = (value: unknown): value is number[] | undefined =>
+  value === undefined || (Array.isArray(value) && value.every(Number.isInteger));
+
 /**
  * PATCH /api/emails
- * Updates email(s) - single by id, or all in thread by threadId
+ * Updates the signed-in user's email(s) - single by id, or all in thread by threadId
+ * addLabelIds / removeLabelIds add or remove labels on every matched email
+ * snoozedUntil (ISO date in the future) hides the email(s) from the inbox until then; null unsnoozes
+ * isArchived moves the email(s) out of the inbox (true) or back into it (false)
  */
 export async function PATCH(request: NextRequest): Promise<NextResponse> {
   try {
-    const { id, threadId, isRead, isImportant, isDeleted } = await request.json();
+    const user = await getSessionUser(request);
+    if (!user) return errorResponse('Unauthorized', 401);
+
+    const {
+      id,
+      threadId,
+      isRead,
+      isImportant,
+      isDeleted,
+      isArchived,
+      snoozedUntil,
+      addLabelIds,
+      removeLabelIds,
+    } = await request.json();
 
     if (!id && !threadId) return errorResponse('Email ID or Thread ID is required');
+    if (!isLabelIdList(addLabelIds) || !isLabelIdList(removeLabelIds)) {
+      return errorResponse('addLabelIds and removeLabelIds must be arrays of label IDs');
+    }
+    if (snoozedUntil !== undefined && snoozedUntil !== null) {
+      const snoozeError = validateFutureDate(String(snoozedUntil), 'Snooze time');
+      if (snoozeError) return errorResponse(snoozeError);
+    }
+
+    const missingLabelIds = await findMissingLabelIds(user.id, [
+      ...(addLabelIds ?? []),
+      ...(removeLabelIds ?? []),
+    ]);
+    if (missingLabelIds.length) {
+      return errorResponse(`Label(s) not found: ${missingLabelIds.join(', ')}`, 404);
+    }
 
     const updateData = {
       updatedAt: new Date(),
       ...(isRead !== undefined && { isRead }),
       ...(isImportant !== undefined && { isImportant }),
       ...(isDeleted !== undefined && { isDeleted }),
+      ...(isArchived !== undefined && { isArchived }),
+      ...(snoozedUntil !== undefined && {
+        snoozedUntil: snoozedUntil === null ? null : new Date(snoozedUntil),
+      }),
     };
 
-    const condition = threadId ? eq(emails.threadId, threadId) : eq(emails.id, id);
-    const updatedEmails = await db.update(emails).set(updateData).where(condition).returning();
+    // Thread-wide updates leave the thread's drafts alone
+    const condition = threadId
+      ? and(eq(emails.threadId, threadId), eq(emails.isDraft, false))
+      : eq(emails.id, id);
+    const updatedEmails = await db
+      .update(emails)
+      .set(updateData)
+      .where(and(eq(emails.ownerId, user.id), condition))
+      .returning();
 
     if (!updatedEmails.length) return errorResponse('Email(s) not found', 404);
 
-    const stats = await recalculateStats();
+    if (addLabelIds?.length || removeLabelIds?.length) {
+      await updateEmailLabels(
+        updatedEmails.map((email) => email.id),
+        addLabelIds ?? [],
+        removeLabelIds ?? [],
+      );
+    }
+
+    const stats = await recalculateStats(user.id);
+    publishMailEvent(user.id, {
+      type: 'email.updated',
+      emails: await withEmailDetails(updatedEmails),
+    });
+    publishMailEvent(user.id, { type: 'stats.changed', stats });
     return successResponse({ email: updatedEmails[0], emails: updatedEmails, stats });
   } catch (error) {
     console.error('PATCH /api/emails error:', error);
@@ -108,10 +394,14 @@ export async function PATCH(request: NextRequest): Promise<NextResponse> {
 
 /**
  * DELETE /api/emails
- * Soft-deletes email(s) by id or threadId (with optional filter)
+ * Soft-deletes the signed-in user's email(s) by id or threadId (with optional filter)
+ * With permanent=true, hard-deletes email(s) that are already in the trash instead
  */
 export async function DELETE(request: NextRequest): Promise<NextResponse> {
   try {
+    const user = await getSessionUser(request);
+    if (!user) return errorResponse('Unauthorized', 401);
+
     const { searchParams } = new URL(request.url);
     const id = searchParams.get('id');
     const threadId = searchParams.get('threadId');
@@ -119,15 +409,42 @@ export async function DELETE(request: NextRequest): Promise<NextResponse> {
 
     if (!id && !threadId) return errorResponse('Email ID or Thread ID is required');
 
+    if (searchParams.get('permanent') === 'true') {
+      const emailId = id ? parseInt(id, 10) : NaN;
+      if (!threadId && isNaN(emailId)) return errorResponse('Invalid email ID');
+
+      const purgedIds = await purgeEmails(
+        and(
+          eq(emails.ownerId, user.id),
+          threadId ? eq(emails.threadId, threadId) : eq(emails.id, emailId),
+        ),
+      );
+      if (!purgedIds.length) return errorResponse('Email(s) not found in trash', 404);
+
+      const stats = await recalculateStats(user.id);
+      publishMailEvent(user.id, { type: 'email.deleted', ids: purgedIds });
+      publishMailEvent(user.id, { type: 'stats.changed', stats });
+      return successResponse({
+        message: threadId ? 'Thread permanently deleted' : 'Email permanently deleted',
+        deleted: purgedIds.length,
+        stats,
+      });
+    }
+
     let condition;
     if (threadId) {
-      const baseCondition = [eq(emails.threadId, threadId), eq(emails.isDeleted, false)];
+      const baseCondition = [
+        eq(emails.ownerId, user.id),
+        eq(emails.threadId, threadId),
+        eq(emails.isDeleted, false),
+        eq(emails.isDraft, false),
+      ];
       if (filter === 'important') baseCondition.push(eq(emails.isImportant, true));
       condition = and(...baseCondition);
     } else {
       const emailId = parseInt(id!, 10);
       if (isNaN(emailId)) return errorResponse('Invalid email ID');
-      condition = eq(emails.id, emailId);
+      condition = and(eq(emails.ownerId, user.id), eq(emails.id, emailId));
     }
 
     const deleted = await db
@@ -138,7 +455,9 @@ export async function DELETE(request: NextRequest): Promise<NextResponse> {
 
     if (!deleted.length) return errorResponse('Email(s) not found', 404);
 
-    const stats = await recalculateStats();
+    const stats = await recalculateStats(user.id);
+    publishMailEvent(user.id, { type: 'email.updated', emails: await withEmailDetails(deleted) });
+    publishMailEvent(user.id, { type: 'stats.changed', stats });
     return successResponse({ message: threadId ? 'Thread moved to trash' : 'Email moved to trash', stats });
   } catch (error) {
     console.error('DELETE /api/emails error:', error);
@@ -3,11 +3,30 @@
  */
 
 import { GET } from './route';
+import { PATCH } from '../route';
+import { db } from '@/lib/database';
+import { emails, EmailDirection } from '@/lib/schema';
+import { recalculateStats } from '@/lib/statsQueries';
+import { eq } from 'drizzle-orm';
+import { createTestSession, TestSession } from '@/test/testSession';
+
+let session: TestSession;
+
+const THREAD_ID = 'stats-api-test-snoozed';
 
 describe('stats API', () => {
+  beforeAll(async () => {
+    session = await createTestSession();
+  });
+
+  afterAll(async () => {
+    await db.delete(emails).where(eq(emails.threadId, THREAD_ID));
+    await recalculateStats(session.user.id);
+  });
+
   describe('GET /api/emails/stats', () => {
     it('returns email statistics with success status', async () => {
-      const response = await GET();
+      const response = await GET(session.request('http://localhost:3000/api/emails/stats'));
       expect(response.status).toBe(200);
 
       const body = await response.json();
@@ -16,7 +35,7 @@ describe('stats API', () => {
     });
 
     it('returns all required stat fields', async () => {
-      const response = await GET();
+      const response = await GET(session.request('http://localhost:3000/api/emails/stats'));
       const body = await response.json();
 
       expect(body.data).toHaveProperty('total');
@@ -27,7 +46,7 @@ describe('stats API', () => {
     });
 
     it('returns numeric values for all stats', async () => {
-      const response = await GET();
+      const response = await GET(session.request('http://localhost:3000/api/emails/stats'));
       const body = await response.json();
 
       expect(typeof body.data.total).toBe('number');
@@ -38,7 +57,7 @@ describe('stats API', () => {
     });
 
     it('returns non-negative counts', async () => {
-      const response = await GET();
+      const response = await GET(session.request('http://localhost:3000/api/emails/stats'));
       const body = await response.json();
 
       expect(body.data.total).toBeGreaterThanOrEqual(0);
@@ -48,4 +67,39 @@ describe('stats API', () => {
       expect(body.data.deleted).toBeGreaterThanOrEqual(0);
     });
   });
+
+  describe('snoozed mail', () => {
+    it('leaves snoozed mail out of the inbox and unread counts', async () => {
+      const [email] = await db
+        .insert(emails)
+        .values({
+          ownerId: session.user.id,
+          threadId: THREAD_ID,
+          subject: 'Snooze me',
+          from: 'sender@test.com',
+          to: session.user.email,
+          direction: EmailDirection.INCOMING,
+          isRead: false,
+        })
+        .returning();
+      const before = await recalculateStats(session.user.id);
+
+      const response = await PATCH(
+        session.request('http://localhost:3000/api/emails', {
+          method: 'PATCH',
+          body: JSON.stringify({
+            id: email.id,
+            snoozedUntil: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+          }),
+        }),
+      );
+      expect(response.status).toBe(200);
+
+      const body = await (
+        await GET(session.request('http://localhost:3000/api/emails/stats'))
+      ).json();
+      expect(body.data.total).toBe(before.total - 1);
+      expect(body.data.unread).toBe(before.unread - 1);
+    });
+  });
 });
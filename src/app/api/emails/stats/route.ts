@@ -1,9 +1,10 @@
 /**
  * Email Stats API Route
- * Returns global email statistics from the lookup table
+ * Returns the signed-in user's email statistics from the lookup table
  */
 
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth';
 import { fetchStats } from '@/lib/statsQueries';
 import { EmailStats, ApiResponse } from '@/types';
 
@@ -11,9 +12,14 @@ import { EmailStats, ApiResponse } from '@/types';
  * GET /api/emails/stats
  * Returns pre-computed email statistics from the lookup table
  */
-export async function GET(): Promise<NextResponse<ApiResponse<EmailStats>>> {
+export async function GET(request: NextRequest): Promise<NextResponse<ApiResponse<EmailStats>>> {
   try {
-    const stats = await fetchStats();
+    const user = await getSessionUser(request);
+    if (!user) {
+      return NextResponse.json({ status: 'error', error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const stats = await fetchStats(user.id);
 
     return NextResponse.json({
       status: 'success',
@@ -7,14 +7,19 @@ import { GET } from './route';
 import { db } from '@/lib/database';
 import { emails, EmailDirection } from '@/lib/schema';
 import { eq } from 'drizzle-orm';
+import { createTestSession, TestSession } from '@/test/testSession';
+
+let session: TestSession;
 
 describe('thread API', () => {
   const TEST_THREAD_ID = 'test-thread-for-api';
 
   // Setup: Create test emails before tests run
   beforeAll(async () => {
+    session = await createTestSession();
     await db.insert(emails).values([
       {
+        ownerId: session.user.id,
         threadId: TEST_THREAD_ID,
         subject: 'Thread Test Email 1',
         from: 'sender@test.com',
@@ -28,6 +33,7 @@ describe('thread API', () => {
         updatedAt: new Date(),
       },
       {
+        ownerId: session.user.id,
         threadId: TEST_THREAD_ID,
         subject: 'Re: Thread Test Email 1',
         from: 'me@company.com',
@@ -41,6 +47,7 @@ describe('thread API', () => {
         updatedAt: new Date(),
       },
       {
+        ownerId: session.user.id,
         threadId: TEST_THREAD_ID,
         subject: 'Re: Thread Test Email 1',
         from: 'sender@test.com',
@@ -63,7 +70,7 @@ describe('thread API', () => {
 
   describe('GET /api/emails/thread/[threadId]', () => {
     it('returns emails for a valid thread', async () => {
-      const request = new NextRequest(
+      const request = session.request(
         `http://localhost:3000/api/emails/thread/${TEST_THREAD_ID}`,
         { method: 'GET' },
       );
@@ -80,7 +87,7 @@ describe('thread API', () => {
     it('returns empty array for non-existent thread', async () => {
       const threadId = 'non-existent-thread-id';
 
-      const request = new NextRequest(`http://localhost:3000/api/emails/thread/${threadId}`, {
+      const request = session.request(`http://localhost:3000/api/emails/thread/${threadId}`, {
         method: 'GET',
       });
 
@@ -94,7 +101,7 @@ describe('thread API', () => {
     });
 
     it('filters by important when filter=important', async () => {
-      const request = new NextRequest(
+      const request = session.request(
         `http://localhost:3000/api/emails/thread/${TEST_THREAD_ID}?filter=important`,
         { method: 'GET' },
       );
@@ -123,7 +130,7 @@ describe('thread API', () => {
 
       await db.update(emails).set({ isDeleted: true }).where(eq(emails.id, emailToDelete.id));
 
-      const request = new NextRequest(
+      const request = session.request(
         `http://localhost:3000/api/emails/thread/${TEST_THREAD_ID}?filter=trash`,
         { method: 'GET' },
       );
@@ -144,8 +151,24 @@ describe('thread API', () => {
       await db.update(emails).set({ isDeleted: false }).where(eq(emails.id, emailToDelete.id));
     });
 
+    it("does not return another user's emails", async () => {
+      const other = await createTestSession();
+      const request = other.request(`http://localhost:3000/api/emails/thread/${TEST_THREAD_ID}`);
+
+      const response = await GET(request, { params: Promise.resolve({ threadId: TEST_THREAD_ID }) });
+      expect(response.status).toBe(200);
+      expect((await response.json()).emails).toEqual([]);
+    });
+
+    it('returns 401 when not signed in', async () => {
+      const request = new NextRequest(`http://localhost:3000/api/emails/thread/${TEST_THREAD_ID}`);
+
+      const response = await GET(request, { params: Promise.resolve({ threadId: TEST_THREAD_ID }) });
+      expect(response.status).toBe(401);
+    });
+
     it('returns emails ordered by creation date (oldest first)', async () => {
-      const request = new NextRequest(
+      const request = session.request(
         `http://localhost:3000/api/emails/thread/${TEST_THREAD_ID}`,
         { method: 'GET' },
       );
@@ -162,4 +185,35 @@ describe('thread API', () => {
       }
     });
   });
+
+  describe('pagination', () => {
+    const getThreadPage = async (query: string) => {
+      const request = session.request(
+        `http://localhost:3000/api/emails/thread/${TEST_THREAD_ID}?${query}`,
+      );
+      return GET(request, { params: Promise.resolve({ threadId: TEST_THREAD_ID }) });
+    };
+
+    it('returns pages in order with a nextCursor until the last page', async () => {
+      const firstPage = await (await getThreadPage('limit=2')).json();
+      expect(firstPage.emails.map((e: { content: string }) => e.content)).toEqual([
+        'First email in thread',
+        'Second email in thread',
+      ]);
+      expect(firstPage.nextCursor).toEqual(expect.any(String));
+
+      const secondPage = await (
+        await getThreadPage(`limit=2&cursor=${encodeURIComponent(firstPage.nextCursor)}`)
+      ).json();
+      expect(secondPage.emails.map((e: { content: string }) => e.content)).toEqual([
+        'Third email in thread',
+      ]);
+      expect(secondPage.nextCursor).toBeNull();
+    });
+
+    it('returns 400 for an invalid limit or cursor', async () => {
+      expect((await getThreadPage('limit=0')).status).toBe(400);
+      expect((await getThreadPage('cursor=not-a-cursor')).status).toBe(400);
+    });
+  });
 });
@@ -1,11 +1,14 @@
 /**
  * Thread API Route
- * Fetches emails in a specific thread, filtered by the current view
+ * Fetches emails in one of the signed-in user's threads, filtered by the current view
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth';
 import { db } from '@/lib/database';
-import { emails } from '@/lib/schema';
+import { emails, EmailStatus } from '@/lib/schema';
+import { withEmailDetails } from '@/lib/emailQueries';
+import { PaginationError, afterCursor, decodeCursor, parseLimit, toPage } from '@/lib/pagination';
 import { eq, asc, and } from 'drizzle-orm';
 import { EmailFilter } from '@/types';
 
@@ -16,30 +19,56 @@ interface RouteParams {
 /**
  * Builds the filter condition based on the view
  */
-function getThreadFilterCondition(threadId: string, filter?: EmailFilter) {
-  const baseCondition = eq(emails.threadId, threadId);
+function getThreadFilterCondition(ownerId: number, threadId: string, filter?: EmailFilter) {
+  // Drafts are opened in the composer, not shown in the conversation
+  const baseCondition = and(
+    eq(emails.ownerId, ownerId),
+    eq(emails.threadId, threadId),
+    eq(emails.isDraft, false),
+  );
 
   switch (filter) {
     case 'trash':
       // Show only deleted emails in thread
       return and(baseCondition, eq(emails.isDeleted, true));
     case 'important':
-      // Show only important (non-deleted) emails in thread
-      return and(baseCondition, eq(emails.isImportant, true), eq(emails.isDeleted, false));
+      // Show only important (non-deleted, sent) emails in thread
+      return and(
+        baseCondition,
+        eq(emails.isImportant, true),
+        eq(emails.isDeleted, false),
+        eq(emails.status, EmailStatus.SENT),
+      );
+    case 'scheduled':
+      // Show only emails waiting to be sent
+      return and(
+        baseCondition,
+        eq(emails.status, EmailStatus.SCHEDULED),
+        eq(emails.isDeleted, false),
+      );
     default:
-      // Show all non-deleted emails in thread
-      return and(baseCondition, eq(emails.isDeleted, false));
+      // Show all non-deleted emails in thread that have been sent
+      return and(baseCondition, eq(emails.isDeleted, false), eq(emails.status, EmailStatus.SENT));
   }
 }
 
 /**
  * GET /api/emails/thread/[threadId]
- * Returns emails in a thread filtered by view, ordered by creation date (oldest first)
+ * Returns the signed-in user's emails in a thread filtered by view, ordered by creation date
+ * (oldest first)
+ * Each email includes its attachment metadata and labels
  * Query params:
  *   - filter: 'inbox' | 'important' | 'trash' | etc.
+ *   - limit: page size (default 50, max 100)
+ *   - cursor: nextCursor from the previous page
  */
 export async function GET(request: NextRequest, { params }: RouteParams): Promise<NextResponse> {
   try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return NextResponse.json({ status: 'error', error: 'Unauthorized' }, { status: 401 });
+    }
+
     const { threadId } = await params;
     const { searchParams } = new URL(request.url);
     const filter = searchParams.get('filter') as EmailFilter | null;
@@ -51,18 +80,37 @@ export async function GET(request: NextRequest, { params }: RouteParams): Promis
       );
     }
 
-    const threadEmails = await db
+    const limit = parseLimit(searchParams.get('limit'));
+    const cursor = searchParams.get('cursor');
+
+    const rows = await db
       .select()
       .from(emails)
-      .where(getThreadFilterCondition(threadId, filter || undefined))
-      .orderBy(asc(emails.createdAt));
+      .where(
+        and(
+          getThreadFilterCondition(user.id, threadId, filter || undefined),
+          cursor ? afterCursor(decodeCursor(cursor), 'asc') : undefined,
+        ),
+      )
+      .orderBy(asc(emails.createdAt), asc(emails.id))
+      .limit(limit + 1);
+
+    const { items: threadEmails, nextCursor } = toPage(rows, limit, (email) => ({
+      createdAt: email.createdAt.getTime(),
+      id: email.id,
+      relevance: 0,
+    }));
 
     return NextResponse.json({
       status: 'success',
-      emails: threadEmails,
+      emails: await withEmailDetails(threadEmails),
       count: threadEmails.length,
+      nextCursor,
     });
   } catch (error) {
+    if (error instanceof PaginationError) {
+      return NextResponse.json({ status: 'error', error: error.message }, { status: 400 });
+    }
     console.error('GET /api/emails/thread error:', error);
     return NextResponse.json({ status: 'error', error: 'Failed to fetch thread' }, { status: 500 });
   }
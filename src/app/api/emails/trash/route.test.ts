@@ -0,0 +1,242 @@
+import { randomUUID } from 'crypto';
+import { DELETE as emptyTrashRoute } from './route';
+import { DELETE } from '../route';
+import { attachments, emailLabels, emails, Email, labels } from '@/lib/schema';
+import { db } from '@/lib/database';
+import { openBlobStream, writeBlob } from '@/lib/attachmentStorage';
+import { createEmailWithAttachments } from '@/lib/attachmentQueries';
+import { purgeExpiredTrash } from '@/lib/trashQueries';
+import { JOBS, runJobs } from '@/lib/jobRunner';
+import { MailEvent, subscribeMailEvents } from '@/lib/mailEvents';
+import { and, eq, inArray } from 'drizzle-orm';
+import { createTestSession, TestSession } from '@/test/testSession';
+
+let session: TestSession;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const blobExists = (hash: string) =>
+  openBlobStream(hash).then(
+    (stream) => {
+      stream.cancel();
+      return true;
+    },
+    () => false,
+  );
+
+const insertEmail = async (values: Partial<typeof emails.$inferInsert> = {}): Promise<Email> => {
+  const [email] = await db
+    .insert(emails)
+    .values({
+      ownerId: session.user.id,
+      threadId: 'trash-test-thread',
+      subject: 'Trash test email',
+      from: 'trash@test.com',
+      to: 'me@company.com',
+      content: 'Trash test content',
+      isDeleted: true,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      ...values,
+    })
+    .returning();
+  return email;
+};
+
+const attach = async (emailId: number, contents: string) => {
+  const contentHash = await writeBlob(Buffer.from(contents));
+  await db
+    .insert(attachments)
+    .values({ emailId, filename: 'file.txt', mimeType: 'text/plain', size: 1, contentHash });
+  return contentHash;
+};
+
+const deletePermanently = (query: string) =>
+  DELETE(
+    session.request(`http://localhost:3000/api/emails?${query}&permanent=true`, {
+      method: 'DELETE',
+    }),
+  );
+
+describe('permanent deletion', () => {
+  beforeAll(async () => {
+    session = await createTestSession();
+  });
+
+  afterAll(async () => {
+    await db.delete(emails).where(eq(emails.from, 'trash@test.com'));
+  });
+
+  describe('DELETE /api/emails?permanent=true', () => {
+    it('Refuses to hard-delete emails that are not in the trash', async () => {
+      const email = await insertEmail({ isDeleted: false });
+
+      const response = await deletePermanently(`id=${email.id}`);
+      expect(response.status).toBe(404);
+      expect((await response.json()).error).toBe('Email(s) not found in trash');
+
+      const rows = await db.select().from(emails).where(eq(emails.id, email.id));
+      expect(rows).toHaveLength(1);
+    });
+
+    it('Deletes the email with its attachments and labels, keeping shared blobs', async () => {
+      const email = await insertEmail();
+      const survivor = await insertEmail({ isDeleted: false });
+      const sharedContents = `shared ${randomUUID()}`;
+      const uniqueHash = await attach(email.id, `unique ${randomUUID()}`);
+      const sharedHash = await attach(email.id, sharedContents);
+      await attach(survivor.id, sharedContents);
+
+      const [label] = await db
+        .insert(labels)
+        .values({ ownerId: session.user.id, name: `Trash test ${randomUUID()}`, color: '#000000' })
+        .returning();
+      await db.insert(emailLabels).values({ emailId: email.id, labelId: label.id });
+
+      const response = await deletePermanently(`id=${email.id}`);
+      expect(response.status).toBe(200);
+      const body = await response.json();
+      expect(body.deleted).toBe(1);
+      expect(body.stats).toHaveProperty('deleted');
+
+      expect(await db.select().from(emails).where(eq(emails.id, email.id))).toHaveLength(0);
+      expect(
+        await db.select().from(attachments).where(eq(attachments.emailId, email.id)),
+      ).toHaveLength(0);
+      expect(
+        await db.select().from(emailLabels).where(eq(emailLabels.emailId, email.id)),
+      ).toHaveLength(0);
+      expect(await blobExists(uniqueHash)).toBe(false);
+      expect(await blobExists(sharedHash)).toBe(true);
+
+      await db.delete(labels).where(eq(labels.id, label.id));
+    });
+
+    it('Keeps the blob of an attachment stored with the same contents during the purge', async () => {
+      const contents = `raced ${randomUUID()}`;
+      const email = await insertEmail();
+      const hash = await attach(email.id, contents);
+
+      // The second file holds the new email back after the blob of its first was found stored
+      let release = () => {};
+      const held = new Promise<void>((resolve) => (release = resolve));
+      class HeldFile extends File {
+        async arrayBuffer() {
+          await held;
+          return super.arrayBuffer();
+        }
+      }
+      const creating = createEmailWithAttachments(
+        {
+          ownerId: session.user.id,
+          threadId: 'trash-test-thread',
+          subject: 'Same attachment',
+          from: 'trash@test.com',
+          to: 'me@company.com',
+        },
+        [new File([contents], 'same.txt'), new HeldFile(['held'], 'held.txt')],
+      );
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      expect((await deletePermanently(`id=${email.id}`)).status).toBe(200);
+      release();
+      const created = await creating;
+
+      expect(created.attachments[0].contentHash).toBe(hash);
+      expect(await blobExists(hash)).toBe(true);
+    });
+
+    it("Does not delete another user's trashed email", async () => {
+      const other = await createTestSession();
+      const email = await insertEmail({ ownerId: other.user.id });
+
+      const response = await deletePermanently(`id=${email.id}`);
+      expect(response.status).toBe(404);
+      expect(await db.select().from(emails).where(eq(emails.id, email.id))).toHaveLength(1);
+    });
+
+    it('Deletes only the trashed emails of a thread', async () => {
+      const threadId = `trash-test-${randomUUID()}`;
+      const trashed = await insertEmail({ threadId });
+      const kept = await insertEmail({ threadId, isDeleted: false });
+
+      const response = await deletePermanently(`threadId=${threadId}`);
+      expect(response.status).toBe(200);
+
+      const rows = await db.select().from(emails).where(eq(emails.threadId, threadId));
+      expect(rows.map((row) => row.id)).toEqual([kept.id]);
+      expect(rows.map((row) => row.id)).not.toContain(trashed.id);
+    });
+  });
+
+  describe('purgeExpiredTrash', () => {
+    it('Deletes emails that have been in the trash longer than the retention period', async () => {
+      const now = new Date();
+      const expired = await insertEmail({ updatedAt: new Date(now.getTime() - 31 * DAY_MS) });
+      const recent = await insertEmail({ updatedAt: new Date(now.getTime() - DAY_MS) });
+      const live = await insertEmail({
+        isDeleted: false,
+        updatedAt: new Date(now.getTime() - 90 * DAY_MS),
+      });
+
+      expect(await purgeExpiredTrash(now, 30)).toContainEqual({
+        id: expired.id,
+        ownerId: session.user.id,
+      });
+
+      const remaining = await db
+        .select({ id: emails.id })
+        .from(emails)
+        .where(inArray(emails.id, [expired.id, recent.id, live.id]));
+      expect(remaining.map((row) => row.id).sort()).toEqual([recent.id, live.id].sort());
+    });
+  });
+
+  describe('purge-expired-trash job', () => {
+    it('Tells only the owners of the purged emails to refetch', async () => {
+      const other = await createTestSession();
+      await insertEmail({ updatedAt: new Date(Date.now() - 90 * DAY_MS) });
+
+      const events: MailEvent[] = [];
+      const unsubscribe = subscribeMailEvents((event) => events.push(event));
+      try {
+        await runJobs(JOBS.filter((job) => job.name === 'purge-expired-trash'));
+      } finally {
+        unsubscribe();
+      }
+
+      const owners = events.map((event) => event.ownerId);
+      expect(owners).toContain(session.user.id);
+      expect(owners).not.toContain(null);
+      expect(owners).not.toContain(other.user.id);
+      expect(events.every((event) => event.type === 'mailbox.changed')).toBe(true);
+    });
+  });
+
+  describe('DELETE /api/emails/trash', () => {
+    it("Empties the signed-in user's trash and reports the updated stats", async () => {
+      const other = await createTestSession();
+      const trashed = await insertEmail();
+      const othersTrashed = await insertEmail({ ownerId: other.user.id });
+      const hash = await attach(trashed.id, `empty trash ${randomUUID()}`);
+
+      const response = await emptyTrashRoute(
+        session.request('http://localhost:3000/api/emails/trash', { method: 'DELETE' }),
+      );
+      expect(response.status).toBe(200);
+
+      const body = await response.json();
+      expect(body.deleted).toBeGreaterThanOrEqual(1);
+      expect(body.stats.deleted).toBe(0);
+      expect(
+        await db
+          .select()
+          .from(emails)
+          .where(and(eq(emails.ownerId, session.user.id), eq(emails.isDeleted, true))),
+      ).toHaveLength(0);
+      expect(await blobExists(hash)).toBe(false);
+      // Another user's trash is left alone
+      expect(await db.select().from(emails).where(eq(emails.id, othersTrashed.id))).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,38 @@
+/**
+ * Trash API Route
+ * Empties the signed-in user's trash, permanently deleting everything in it
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth';
+import { emptyTrash } from '@/lib/trashQueries';
+import { recalculateStats } from '@/lib/statsQueries';
+import { publishMailEvent } from '@/lib/mailEvents';
+
+// Helper functions for consistent responses
+const errorResponse = (error: string, status: number = 400) =>
+  NextResponse.json({ status: 'error', error }, { status });
+
+const successResponse = (data: object, status: number = 200) =>
+  NextResponse.json({ status: 'success', ...data }, { status });
+
+/**
+ * DELETE /api/emails/trash
+ * Permanently deletes every email in the trash along with its attachments
+ * Returns the number of emails deleted and the updated stats
+ */
+export async function DELETE(request: NextRequest): Promise<NextResponse> {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) return errorResponse('Unauthorized', 401);
+
+    const deletedIds = await emptyTrash(user.id);
+    const stats = await recalculateStats(user.id);
+    if (deletedIds.length) publishMailEvent(user.id, { type: 'email.deleted', ids: deletedIds });
+    publishMailEvent(user.id, { type: 'stats.changed', stats });
+    return successResponse({ deleted: deletedIds.length, stats });
+  } catch (error) {
+    console.error('DELETE /api/emails/trash error:', error);
+    return errorResponse('Failed to empty trash', 500);
+  }
+}
@@ -0,0 +1,197 @@
+/**
+ * Tests for the live event stream: events published by route handlers, replay after a
+ * reconnect, and cleanup when the client goes away
+ */
+
+import { NextRequest } from 'next/server';
+import { GET } from './route';
+import { PATCH as updateEmails, POST as sendEmail } from '../emails/route';
+import { db } from '@/lib/database';
+import { emails, Email, EmailDirection } from '@/lib/schema';
+import { publishMailEvent } from '@/lib/mailEvents';
+import { recalculateStats } from '@/lib/statsQueries';
+import { like } from 'drizzle-orm';
+import { createTestSession, TestSession } from '@/test/testSession';
+
+let session: TestSession;
+
+const THREAD_PREFIX = 'events-api-test';
+
+interface StreamedEvent {
+  id?: string;
+  data: { type: string; [key: string]: unknown };
+}
+
+/**
+ * Opens the stream and returns a reader that parses it into events
+ */
+const openStream = async (headers: Record<string, string> = {}, query = '') => {
+  const controller = new AbortController();
+  const response = await GET(
+    session.request(`http://localhost:3000/api/events${query}`, {
+      headers,
+      signal: controller.signal,
+    }),
+  );
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  /** Reads until `count` events have arrived (comments and retry lines are skipped) */
+  const next = async (count = 1): Promise<StreamedEvent[]> => {
+    const events: StreamedEvent[] = [];
+    while (events.length < count) {
+      let end: number;
+      while ((end = buffer.indexOf('\n\n')) === -1) {
+        const { value, done } = await reader.read();
+        if (done) throw new Error('Stream ended');
+        buffer += decoder.decode(value);
+      }
+      const block = buffer.slice(0, end);
+      buffer = buffer.slice(end + 2);
+
+      const fields = Object.fromEntries(
+        block
+          .split('\n')
+          .map((line) => [line.slice(0, line.indexOf(':')), line.slice(line.indexOf(':') + 2)]),
+      );
+      if (fields.data) events.push({ id: fields.id, data: JSON.parse(fields.data) });
+    }
+    return events;
+  };
+
+  return { response, next, close: () => controller.abort() };
+};
+
+describe('GET /api/events', () => {
+  let email: Email;
+
+  beforeAll(async () => {
+    session = await createTestSession();
+    [email] = await db
+      .insert(emails)
+      .values({
+        ownerId: session.user.id,
+        threadId: `${THREAD_PREFIX}-patch`,
+        subject: 'Live update',
+        from: 'ana@events.test',
+        to: 'me@company.com',
+        direction: EmailDirection.INCOMING,
+        isRead: false,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .returning();
+  });
+
+  afterAll(async () => {
+    await db.delete(emails).where(like(emails.threadId, `${THREAD_PREFIX}%`));
+    await recalculateStats(session.user.id);
+  });
+
+  it('streams changes made through the route handlers', async () => {
+    const stream = await openStream();
+    expect(stream.response.headers.get('content-type')).toBe('text/event-stream; charset=utf-8');
+
+    try {
+      await updateEmails(
+        session.request('http://localhost:3000/api/emails', {
+          method: 'PATCH',
+          body: JSON.stringify({ id: email.id, isRead: true }),
+        }),
+      );
+      const [updated, stats] = await stream.next(2);
+      expect(updated.data).toMatchObject({
+        type: 'email.updated',
+        emails: [{ id: email.id, isRead: true, labels: [], attachments: [] }],
+      });
+      expect(stats.data.type).toBe('stats.changed');
+      expect(updated.id).toMatch(/^[a-z0-9]+-\d+$/);
+
+      await sendEmail(
+        session.request('http://localhost:3000/api/emails', {
+          method: 'POST',
+          body: JSON.stringify({
+            subject: 'Sent from another tab',
+            to: 'bob@events.test',
+            threadId: `${THREAD_PREFIX}-send`,
+          }),
+        }),
+      );
+      const [created] = await stream.next(2);
+      expect(created.data).toMatchObject({
+        type: 'email.created',
+        email: { subject: 'Sent from another tab', threadId: `${THREAD_PREFIX}-send` },
+      });
+    } finally {
+      stream.close();
+    }
+  });
+
+  it('replays the events missed since Last-Event-ID', async () => {
+    const seen = publishMailEvent(session.user.id, { type: 'email.deleted', ids: [-1] });
+    publishMailEvent(session.user.id, { type: 'email.deleted', ids: [-2] });
+    publishMailEvent(session.user.id, { type: 'email.deleted', ids: [-3] });
+
+    const stream = await openStream({ 'last-event-id': seen.id });
+    try {
+      const replayed = await stream.next(2);
+      expect(replayed.map((event) => event.data.ids)).toEqual([[-2], [-3]]);
+
+      // Live events follow the replay
+      publishMailEvent(session.user.id, { type: 'email.deleted', ids: [-4] });
+      expect((await stream.next())[0].data.ids).toEqual([-4]);
+    } finally {
+      stream.close();
+    }
+
+    // EventSource reopened by the client passes the ID in the query instead
+    const reopened = await openStream({}, `?lastEventId=${encodeURIComponent(seen.id)}`);
+    try {
+      expect((await reopened.next())[0].data.ids).toEqual([-2]);
+    } finally {
+      reopened.close();
+    }
+  });
+
+  it("leaves out other users' events, live and replayed", async () => {
+    const other = await createTestSession();
+    const seen = publishMailEvent(session.user.id, { type: 'email.deleted', ids: [-5] });
+    publishMailEvent(other.user.id, { type: 'email.deleted', ids: [-6] });
+    publishMailEvent(session.user.id, { type: 'email.deleted', ids: [-7] });
+
+    const stream = await openStream({ 'last-event-id': seen.id });
+    try {
+      expect((await stream.next())[0].data.ids).toEqual([-7]);
+
+      publishMailEvent(other.user.id, { type: 'email.deleted', ids: [-8] });
+      publishMailEvent(session.user.id, { type: 'email.deleted', ids: [-9] });
+      expect((await stream.next())[0].data.ids).toEqual([-9]);
+    } finally {
+      stream.close();
+    }
+  });
+
+  it('requires a signed-in user', async () => {
+    const response = await GET(new NextRequest('http://localhost:3000/api/events'));
+    expect(response.status).toBe(401);
+  });
+
+  it('tells clients to refetch when their events can no longer be replayed', async () => {
+    const latest = publishMailEvent(null, { type: 'mailbox.changed' });
+    const stream = await openStream({ 'last-event-id': 'restarted-12' });
+    try {
+      const [reset] = await stream.next();
+      expect(reset).toEqual({ id: latest.id, data: { type: 'mailbox.changed' } });
+    } finally {
+      stream.close();
+    }
+  });
+
+  it('stops sending once the client disconnects', async () => {
+    const stream = await openStream();
+    stream.close();
+    // Publishing to a closed stream must not throw
+    expect(() => publishMailEvent(null, { type: 'mailbox.changed' })).not.toThrow();
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * Events API Route
+ * Server-Sent Events stream of changes to the signed-in user's mailbox
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth';
+import {
+  latestMailEventId,
+  MailEvent,
+  mailEventsSince,
+  subscribeMailEvents,
+} from '@/lib/mailEvents';
+
+export const dynamic = 'force-dynamic';
+
+// Comment line sent while idle so proxies keep the connection open
+const HEARTBEAT_MS = 25_000;
+// How long browsers wait before reconnecting after the stream drops
+const RECONNECT_MS = 3_000;
+
+// Helper function for consistent responses
+const errorResponse = (error: string, status: number = 400) =>
+  NextResponse.json({ status: 'error', error }, { status });
+
+/**
+ * Formats an event for the stream; `data` carries the whole event, including its type
+ */
+const formatEvent = (event: MailEvent) =>
+  `id: ${event.id}\ndata: ${JSON.stringify({ ...event, ownerId: undefined })}\n\n`;
+
+/**
+ * Whether an event concerns the user: a change to their mailbox, or one that spans mailboxes
+ */
+const isVisibleTo = (event: MailEvent, userId: number) =>
+  event.ownerId === null || event.ownerId === userId;
+
+/**
+ * GET /api/events
+ * Streams email.created, email.updated, email.deleted, stats.changed and mailbox.changed events
+ * for the signed-in user's mailbox as `text/event-stream` (401 when signed out). A reconnecting client sends the last ID it saw (the Last-Event-ID
+ * header, or `lastEventId` in the query) and first receives the events it missed - or a single
+ * mailbox.changed when they are no longer available, telling it to refetch.
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  const user = await getSessionUser(request);
+  if (!user) return errorResponse('Unauthorized', 401);
+
+  const lastEventId =
+    request.headers.get('last-event-id') ||
+    new URL(request.url).searchParams.get('lastEventId') ||
+    null;
+
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const write = (text: string) => {
+        try {
+          controller.enqueue(encoder.encode(text));
+        } catch {
+          // The client went away between the event and the write
+          cleanup();
+        }
+      };
+
+      write(`retry: ${RECONNECT_MS}\n\n`);
+
+      // Replayed and subscribed in one synchronous step, so no event falls in between
+      if (lastEventId) {
+        const missed = mailEventsSince(lastEventId);
+        if (missed) {
+          missed
+            .filter((event) => isVisibleTo(event, user.id))
+            .forEach((event) => write(formatEvent(event)));
+        } else {
+          const id = latestMailEventId();
+          write(
+            `${id ? `id: ${id}\n` : ''}data: ${JSON.stringify({ type: 'mailbox.changed' })}\n\n`,
+          );
+        }
+      }
+      const unsubscribe = subscribeMailEvents((event) => {
+        if (isVisibleTo(event, user.id)) write(formatEvent(event));
+      });
+      const heartbeat = setInterval(() => write(': keep-alive\n\n'), HEARTBEAT_MS);
+
+      cleanup = () => {
+        unsubscribe();
+        clearInterval(heartbeat);
+        request.signal.removeEventListener('abort', onAbort);
+      };
+      const onAbort = () => {
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // Already closed
+        }
+      };
+      request.signal.addEventListener('abort', onAbort);
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new NextResponse(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      // Stops nginx from buffering the stream
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
@@ -0,0 +1,182 @@
+import { randomUUID } from 'crypto';
+import { inflateRawSync } from 'zlib';
+import { GET } from './route';
+import { db } from '@/lib/database';
+import { attachments, emails, Email } from '@/lib/schema';
+import { writeBlob } from '@/lib/attachmentStorage';
+import { parseMessage, splitMbox } from '@/lib/mailParser';
+import { crc32 } from '@/lib/zip';
+import { like } from 'drizzle-orm';
+import { createTestSession, TestSession } from '@/test/testSession';
+
+let session: TestSession;
+
+const exportEmails = (params: Record<string, string>) =>
+  GET(session.request(`http://localhost:3000/api/export?${new URLSearchParams(params)}`));
+
+/**
+ * Reads the files out of a zip archive by walking its local headers
+ */
+const unzip = (archive: Buffer) => {
+  const files: { name: string; data: Buffer }[] = [];
+  let offset = 0;
+  while (archive.readUInt32LE(offset) === 0x04034b50) {
+    const compressedSize = archive.readUInt32LE(offset + 18);
+    const nameLength = archive.readUInt16LE(offset + 26);
+    const start = offset + 30 + nameLength;
+    const data = inflateRawSync(archive.subarray(start, start + compressedSize));
+    expect(crc32(data)).toBe(archive.readUInt32LE(offset + 14));
+    files.push({ name: archive.toString('utf8', offset + 30, start), data });
+    offset = start + compressedSize;
+  }
+  // End of central directory record, with the entry count
+  expect(archive.readUInt32LE(archive.length - 22)).toBe(0x06054b50);
+  expect(archive.readUInt16LE(archive.length - 22 + 10)).toBe(files.length);
+  return files;
+};
+
+describe('GET /api/export', () => {
+  // Unique per run so searches only find this run's emails
+  const tag = randomUUID().slice(0, 8);
+  const threadId = `export-test-${tag}`;
+  let original: Email;
+  let reply: Email;
+
+  beforeAll(async () => {
+    session = await createTestSession();
+    const base = {
+      ownerId: session.user.id,
+      threadId,
+      to: 'Me <me@company.com>',
+      createdAt: new Date('2024-05-14T10:30:00Z'),
+      updatedAt: new Date(),
+    };
+    [original, reply] = await db
+      .insert(emails)
+      .values([
+        {
+          ...base,
+          messageId: `<original.${tag}@export.test>`,
+          subject: `Contrat révisé ${tag}`,
+          from: '"Dupont, Zoé" <zoe@export.test>',
+          content: 'From the legal team:\nPlease review the contract.',
+          isRead: true,
+        },
+        {
+          ...base,
+          messageId: `<reply.${tag}@export.test>`,
+          inReplyTo: `<original.${tag}@export.test>`,
+          references: `<original.${tag}@export.test>`,
+          subject: `Re: Contrat révisé ${tag}`,
+          from: 'me@company.com',
+          to: 'zoe@export.test',
+          content: 'Signed copy attached.',
+          createdAt: new Date('2024-05-14T11:00:00Z'),
+        },
+      ])
+      .returning();
+
+    const contentHash = await writeBlob(Buffer.from('%PDF-1.4 signed'));
+    await db.insert(attachments).values({
+      emailId: reply.id,
+      filename: 'signed.pdf',
+      mimeType: 'application/pdf',
+      size: 15,
+      contentHash,
+    });
+  });
+
+  afterAll(async () => {
+    await db.delete(emails).where(like(emails.subject, `%${tag}%`));
+  });
+
+  it('Exports a conversation as mbox that imports back unchanged', async () => {
+    const response = await exportEmails({ threadId });
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toBe('application/mbox');
+    expect(response.headers.get('content-disposition')).toMatch(
+      /^attachment; filename=".+\.mbox"$/,
+    );
+
+    const messages = splitMbox(Buffer.from(await response.arrayBuffer()).toString('latin1'));
+    expect(messages).toHaveLength(2);
+
+    const [first, second] = messages.map((message) => parseMessage(message));
+    expect(first).toMatchObject({
+      messageId: original.messageId,
+      subject: original.subject,
+      from: [{ name: 'Dupont, Zoé', address: 'zoe@export.test' }],
+      to: [{ name: 'Me', address: 'me@company.com' }],
+      text: original.content,
+      isRead: true,
+    });
+    expect(first.date?.toISOString()).toBe('2024-05-14T10:30:00.000Z');
+    expect(second).toMatchObject({
+      inReplyTo: original.messageId,
+      references: original.messageId,
+      text: 'Signed copy attached.',
+      isRead: false,
+    });
+    expect(second.attachments).toHaveLength(1);
+    expect(second.attachments[0]).toMatchObject({
+      filename: 'signed.pdf',
+      mimeType: 'application/pdf',
+    });
+    expect(second.attachments[0].data.toString()).toBe('%PDF-1.4 signed');
+  });
+
+  it('Exports a zip of .eml files', async () => {
+    const response = await exportEmails({ threadId, format: 'eml' });
+    expect(response.headers.get('content-type')).toBe('application/zip');
+
+    const files = unzip(Buffer.from(await response.arrayBuffer()));
+    expect(files.map((file) => file.name)).toEqual([
+      `2024-05-14-contrat-r-vis-${tag}-${original.id}.eml`,
+      `2024-05-14-re-contrat-r-vis-${tag}-${reply.id}.eml`,
+    ]);
+    expect(parseMessage(files[1].data).messageId).toBe(reply.messageId);
+  });
+
+  it('Exports search results as newline-delimited JSON', async () => {
+    const response = await exportEmails({ query: tag, filter: 'all', format: 'json' });
+    expect(response.headers.get('content-type')).toBe('application/x-ndjson');
+
+    const lines = (await response.text())
+      .trim()
+      .split('\n')
+      .map((line) => JSON.parse(line));
+    expect(lines.map((email) => email.id).sort()).toEqual([original.id, reply.id].sort());
+    expect(lines.find((email) => email.id === reply.id).attachments).toHaveLength(1);
+  });
+
+  it('Exports whole conversations for threaded lists', async () => {
+    const response = await exportEmails({
+      query: `from:zoe@export.test ${tag}`,
+      filter: 'all',
+      threaded: 'true',
+      format: 'json',
+    });
+    const lines = (await response.text()).trim().split('\n');
+    expect(lines).toHaveLength(2);
+  });
+
+  it('Returns an empty export when nothing matches', async () => {
+    const response = await exportEmails({ query: `nothing-${tag}` });
+    expect(response.status).toBe(200);
+    expect(await response.text()).toBe('');
+  });
+
+  it("Treats another user's conversation as unknown", async () => {
+    const other = await createTestSession();
+    const response = await GET(
+      other.request(`http://localhost:3000/api/export?${new URLSearchParams({ threadId })}`),
+    );
+    expect(response.status).toBe(404);
+  });
+
+  it('Rejects unknown formats, bad queries and unknown threads', async () => {
+    expect((await exportEmails({ threadId, format: 'pdf' })).status).toBe(400);
+    expect((await exportEmails({ query: 'is:snoozing' })).status).toBe(400);
+    expect((await exportEmails({ threadId: `missing-${tag}` })).status).toBe(404);
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * Export API Route
+ * Streams a list view, search results or a conversation as mbox, a zip of .eml files, or JSON
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth';
+import { exportEmails } from '@/lib/exportQueries';
+import { readAttachments } from '@/lib/attachmentQueries';
+import { emlFilename, formatMessage, toMboxEntry } from '@/lib/mailFormatter';
+import { SearchQueryError } from '@/lib/searchQuery';
+import { zipStream } from '@/lib/zip';
+import { EmailFilter, EmailSearchResult, EXPORT_FORMATS, ExportFormat } from '@/types';
+
+// Helper function for consistent responses
+const errorResponse = (error: string, status: number = 400, details?: object) =>
+  NextResponse.json({ status: 'error', error, ...(details && { details }) }, { status });
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  mbox: 'application/mbox',
+  eml: 'application/zip',
+  json: 'application/x-ndjson',
+};
+
+const EXTENSIONS: Record<ExportFormat, string> = { mbox: 'mbox', eml: 'zip', json: 'ndjson' };
+
+/**
+ * Serialises the exported emails in the requested format
+ */
+async function* encodeEmails(
+  emailList: AsyncIterable<EmailSearchResult>,
+  format: ExportFormat,
+): AsyncGenerator<Uint8Array> {
+  switch (format) {
+    case 'json':
+      for await (const email of emailList) yield Buffer.from(`${JSON.stringify(email)}\n`);
+      return;
+    case 'mbox':
+      for await (const email of emailList) {
+        yield toMboxEntry(email, formatMessage(email, await readAttachments(email.attachments)));
+      }
+      return;
+    case 'eml':
+      yield* zipStream(
+        (async function* () {
+          for await (const email of emailList) {
+            yield {
+              name: emlFilename(email),
+              data: formatMessage(email, await readAttachments(email.attachments)),
+              modifiedAt: email.createdAt,
+            };
+          }
+        })(),
+      );
+  }
+}
+
+/**
+ * GET /api/export
+ * Downloads the signed-in user's emails as `format` = mbox (default), eml (a zip of .eml files) or json
+ * (newline-delimited, one email with its attachment metadata and labels per line)
+ * Pass threadId for one conversation, or the filter/query/threaded/account params of GET /api/emails
+ * for a list; threaded lists include every email of each listed conversation
+ * Returns 404 when the conversation does not exist
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) return errorResponse('Unauthorized', 401);
+
+    const { searchParams } = new URL(request.url);
+    const format = (searchParams.get('format') || 'mbox') as ExportFormat;
+    if (!EXPORT_FORMATS.includes(format)) {
+      return errorResponse(`Format must be one of: ${EXPORT_FORMATS.join(', ')}`);
+    }
+
+    const account = searchParams.get('account');
+    if (account && !/^\d+$/.test(account)) return errorResponse('Invalid account');
+
+    const threadId = searchParams.get('threadId') || undefined;
+    const emailList = exportEmails(user.id, {
+      threadId,
+      filter: (searchParams.get('filter') as EmailFilter) || undefined,
+      query: searchParams.get('query') || undefined,
+      threaded: searchParams.get('threaded') === 'true',
+      account: account ? Number(account) : undefined,
+    });
+
+    // Read the first email up front so bad queries and unknown threads get a proper status
+    const first = await emailList.next();
+    if (first.done && threadId) return errorResponse('Thread not found', 404);
+
+    const chunks = encodeEmails(
+      (async function* () {
+        if (!first.done) yield first.value;
+        yield* emailList;
+      })(),
+      format,
+    );
+    const stream = new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        try {
+          const { done, value } = await chunks.next();
+          if (done) controller.close();
+          else controller.enqueue(value);
+        } catch (error) {
+          console.error('GET /api/export error:', error);
+          controller.error(error);
+        }
+      },
+      async cancel() {
+        await chunks.return(undefined);
+      },
+    });
+
+    const filename = `${threadId ? 'conversation' : 'emails'}-${new Date().toISOString().slice(0, 10)}.${EXTENSIONS[format]}`;
+    return new NextResponse(stream, {
+      headers: {
+        'Content-Type': CONTENT_TYPES[format],
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    if (error instanceof SearchQueryError) {
+      return errorResponse(`Invalid search query: ${error.message}`, 400, error.details);
+    }
+    console.error('GET /api/export error:', error);
+    return errorResponse('Failed to export emails', 500);
+  }
+}
@@ -0,0 +1,243 @@
+import { randomUUID } from 'crypto';
+import { POST } from './route';
+import { db } from '@/lib/database';
+import { attachments, emails } from '@/lib/schema';
+import { and, eq, inArray, like } from 'drizzle-orm';
+import { createTestSession, TestSession } from '@/test/testSession';
+import { createMailbox, findSenderMailbox } from '@/lib/mailboxQueries';
+
+let session: TestSession;
+
+// Unique per run so Message-IDs never collide with leftovers
+const tag = randomUUID().slice(0, 8);
+const messageId = (name: string) => `<${name}.${tag}@import.test>`;
+// The importing user, so their own messages are imported as sent mail
+const ME = `me.${tag}@test.example`;
+
+const mbox = [
+  'From alice@import.test Tue May 14 10:30:00 2024',
+  `Message-ID: ${messageId('root')}`,
+  'From: "Smith, Alice" <alice@import.test>',
+  `To: Me <${ME}>, bob@import.test`,
+  `Subject: Import ${tag}`,
+  'Date: Tue, 14 May 2024 10:30:00 +0000',
+  'Status: RO',
+  '',
+  'Original message',
+  '',
+  `From ${ME} Tue May 14 11:00:00 2024`,
+  `Message-ID: ${messageId('reply')}`,
+  `In-Reply-To: ${messageId('root')}`,
+  `From: ${ME}`,
+  'To: alice@import.test',
+  `Subject: Re: Import ${tag}`,
+  'Date: Tue, 14 May 2024 11:00:00 +0000',
+  'Content-Type: multipart/mixed; boundary=b',
+  '',
+  '--b',
+  'Content-Type: text/plain; charset=utf-8',
+  'Content-Transfer-Encoding: quoted-printable',
+  '',
+  'R=C3=A9ponse',
+  '--b',
+  'Content-Type: text/plain; name=notes.txt',
+  'Content-Disposition: attachment; filename=notes.txt',
+  '',
+  'Attached notes',
+  '--b--',
+  '',
+].join('\n');
+
+const eml = [
+  'From: carol@import.test',
+  `To: ${ME}`,
+  `Subject: No Message-ID ${tag}`,
+  'Date: Wed, 15 May 2024 09:00:00 +0000',
+  '',
+  'Standalone message',
+].join('\r\n');
+
+interface ImportLine {
+  type: 'progress' | 'done' | 'error';
+  [key: string]: unknown;
+}
+
+const importFiles = async (files: { name: string; contents: string }[]) => {
+  const formData = new FormData();
+  files.forEach(({ name, contents }) => formData.append('files', new File([contents], name)));
+  const response = await POST(
+    session.request('http://localhost:3000/api/import', { method: 'POST', body: formData }),
+  );
+  const text = await response.text();
+  const lines: ImportLine[] =
+    response.headers.get('content-type') === 'application/x-ndjson'
+      ? text
+          .trim()
+          .split('\n')
+          .map((line) => JSON.parse(line))
+      : [JSON.parse(text)];
+  return { status: response.status, lines, done: lines.find((line) => line.type === 'done') };
+};
+
+describe('POST /api/import', () => {
+  beforeAll(async () => {
+    session = await createTestSession(ME);
+  });
+
+  afterAll(async () => {
+    await db.delete(emails).where(like(emails.subject, `%${tag}%`));
+  });
+
+  it('Imports mbox and EML files, threading replies and keeping attachments', async () => {
+    const { status, lines, done } = await importFiles([
+      { name: 'archive.mbox', contents: mbox },
+      { name: 'single.eml', contents: eml },
+    ]);
+
+    expect(status).toBe(200);
+    expect(lines.filter((line) => line.type === 'progress').at(-1)).toEqual({
+      type: 'progress',
+      processed: 3,
+      total: 3,
+    });
+    expect(done).toMatchObject({ imported: 3, skipped: 0, failed: [] });
+    expect(done?.stats).toHaveProperty('unread');
+
+    const imported = await db
+      .select()
+      .from(emails)
+      .where(like(emails.subject, `%${tag}%`));
+    const root = imported.find((email) => email.messageId === messageId('root'))!;
+    const reply = imported.find((email) => email.messageId === messageId('reply'))!;
+
+    expect(root).toMatchObject({
+      ownerId: session.user.id,
+      from: '"Smith, Alice" <alice@import.test>',
+      to: `Me <${ME}>, bob@import.test`,
+      content: 'Original message',
+      direction: 'incoming',
+      isRead: true,
+    });
+    expect(root.createdAt.toISOString()).toBe('2024-05-14T10:30:00.000Z');
+    expect(reply).toMatchObject({ direction: 'outgoing', content: 'Réponse' });
+    expect(reply.threadId).toBe(root.threadId);
+
+    const files = await db.select().from(attachments).where(eq(attachments.emailId, reply.id));
+    expect(files).toMatchObject([{ filename: 'notes.txt', mimeType: 'text/plain' }]);
+
+    const standalone = imported.find((email) => email.subject === `No Message-ID ${tag}`)!;
+    expect(standalone.messageId).toMatch(/^<[0-9a-f]+@imported\.invalid>$/);
+    expect(standalone.isRead).toBe(false);
+  });
+
+  it('Skips messages that were already imported', async () => {
+    const { done } = await importFiles([
+      { name: 'archive.mbox', contents: mbox },
+      { name: 'single.eml', contents: eml },
+    ]);
+    expect(done).toMatchObject({ imported: 0, skipped: 3 });
+
+    const stored = await db
+      .select({ id: emails.id })
+      .from(emails)
+      .where(
+        and(
+          eq(emails.ownerId, session.user.id),
+          inArray(emails.messageId, [messageId('root'), messageId('reply')]),
+        ),
+      );
+    expect(stored).toHaveLength(2);
+  });
+
+  it("Files mail from and to the user's other mailboxes under them", async () => {
+    const sales = await createMailbox(session.user.id, { address: `sales.${tag}@test.example` });
+    const primary = await findSenderMailbox(session.user.id);
+    const message = (name: string, from: string, to: string) =>
+      [
+        `Message-ID: ${messageId(name)}`,
+        `From: ${from}`,
+        `To: ${to}`,
+        `Subject: Mailboxes ${name} ${tag}`,
+        'Date: Thu, 16 May 2024 09:00:00 +0000',
+        '',
+        'Body',
+      ].join('\r\n');
+
+    const { done } = await importFiles([
+      {
+        name: 'sent.eml',
+        contents: message('sent', `Sales <${sales.address}>`, 'dan@import.test'),
+      },
+      { name: 'received.eml', contents: message('received', 'dan@import.test', sales.address) },
+      { name: 'mine.eml', contents: message('mine', 'dan@import.test', ME) },
+      { name: 'bcc.eml', contents: message('bcc', 'dan@import.test', 'list@import.test') },
+    ]);
+    expect(done).toMatchObject({ imported: 4, failed: [] });
+
+    const stored = await db
+      .select()
+      .from(emails)
+      .where(like(emails.subject, `Mailboxes % ${tag}`));
+    const byName = (name: string) => stored.find(({ subject }) => subject.includes(` ${name} `));
+    expect(byName('sent')).toMatchObject({ direction: 'outgoing', mailboxId: sales.id });
+    expect(byName('received')).toMatchObject({ direction: 'incoming', mailboxId: sales.id });
+    expect(byName('mine')).toMatchObject({ direction: 'incoming', mailboxId: primary!.id });
+    expect(byName('bcc')).toMatchObject({ direction: 'incoming', mailboxId: null });
+  });
+
+  it('Stores addresses normalised, as mail sent from here is', async () => {
+    const { done } = await importFiles([
+      {
+        name: 'normalised.eml',
+        contents: [
+          `Message-ID: ${messageId('normalised')}`,
+          'From: Dan <Dan@Import.TEST>',
+          `To: ${ME}, Eve@EXAMPLE.com`,
+          `Subject: Normalised ${tag}`,
+          '',
+          'Body',
+        ].join('\r\n'),
+      },
+    ]);
+    expect(done).toMatchObject({ imported: 1, failed: [] });
+
+    const [email] = await db
+      .select()
+      .from(emails)
+      .where(eq(emails.subject, `Normalised ${tag}`));
+    expect(email).toMatchObject({ from: 'Dan <Dan@import.test>', to: `${ME}, Eve@example.com` });
+  });
+
+  it("Imports into each user's own mailbox", async () => {
+    const other = await createTestSession();
+    const formData = new FormData();
+    formData.append('files', new File([mbox], 'archive.mbox'));
+
+    const response = await POST(
+      other.request('http://localhost:3000/api/import', { method: 'POST', body: formData }),
+    );
+    const done = JSON.parse((await response.text()).trim().split('\n').at(-1)!);
+    expect(done).toMatchObject({ type: 'done', imported: 2, skipped: 0 });
+
+    // Not their own address, so everything imports as received mail
+    const copies = await db
+      .select()
+      .from(emails)
+      .where(inArray(emails.messageId, [messageId('root'), messageId('reply')]));
+    expect(copies.filter((email) => email.ownerId === other.user.id)).toMatchObject([
+      { direction: 'incoming' },
+      { direction: 'incoming' },
+    ]);
+  });
+
+  it('Rejects requests without files', async () => {
+    const { status, lines } = await importFiles([]);
+    expect(status).toBe(400);
+    expect(lines[0].error).toBe('No files to import');
+
+    const json = await POST(
+      session.request('http://localhost:3000/api/import', { method: 'POST', body: '{}' }),
+    );
+    expect(json.status).toBe(400);
+  });
+});
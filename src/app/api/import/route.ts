@@ -0,0 +1,86 @@
+/**
+ * Import API Route
+ * Imports uploaded .mbox and .eml files, streaming progress back as it goes
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth';
+import { importMailFiles, ImportFile } from '@/lib/importQueries';
+import { publishMailEvent } from '@/lib/mailEvents';
+import { formatFileSize } from '@/lib/utils';
+import { MAX_IMPORT_SIZE } from '@/types/email';
+
+// Helper functions for consistent responses
+const errorResponse = (error: string, status: number = 400) =>
+  NextResponse.json({ status: 'error', error }, { status });
+
+// Allowance for multipart boundaries on top of the upload limit
+const MULTIPART_OVERHEAD_BYTES = 1024 * 1024;
+
+/**
+ * POST /api/import
+ * Imports the .mbox / .eml files into the signed-in user's mailbox sent as multipart/form-data under `files` (50 MB in total)
+ * Messages whose Message-ID is already stored are skipped, so an upload can safely be retried.
+ * The response is newline-delimited JSON: `progress` lines ({ processed, total }) followed by
+ * one `done` line ({ imported, skipped, failed, stats }), or an `error` line if the import fails
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) return errorResponse('Unauthorized', 401);
+
+    if (!request.headers.get('content-type')?.startsWith('multipart/form-data')) {
+      return errorResponse('Expected multipart/form-data with files to import');
+    }
+    if (
+      Number(request.headers.get('content-length')) >
+      MAX_IMPORT_SIZE + MULTIPART_OVERHEAD_BYTES
+    ) {
+      return errorResponse(`Imports are limited to ${formatFileSize(MAX_IMPORT_SIZE)}`, 413);
+    }
+
+    const uploads = (await request.formData())
+      .getAll('files')
+      .filter((value): value is File => typeof value !== 'string');
+    if (!uploads.length) return errorResponse('No files to import');
+    if (uploads.reduce((sum, file) => sum + file.size, 0) > MAX_IMPORT_SIZE) {
+      return errorResponse(`Imports are limited to ${formatFileSize(MAX_IMPORT_SIZE)}`, 413);
+    }
+
+    const files: ImportFile[] = await Promise.all(
+      uploads.map(async (file) => ({
+        name: file.name,
+        data: Buffer.from(await file.arrayBuffer()),
+      })),
+    );
+
+    const encoder = new TextEncoder();
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const send = (line: object) =>
+          controller.enqueue(encoder.encode(`${JSON.stringify(line)}\n`));
+        try {
+          const result = await importMailFiles(user, files, {
+            onProgress: (progress) => send({ type: 'progress', ...progress }),
+          });
+          if (result.imported) {
+            publishMailEvent(user.id, { type: 'mailbox.changed' });
+            publishMailEvent(user.id, { type: 'stats.changed', stats: result.stats });
+          }
+          send({ type: 'done', ...result });
+        } catch (error) {
+          console.error('POST /api/import error:', error);
+          send({ type: 'error', error: 'Failed to import emails' });
+        }
+        controller.close();
+      },
+    });
+
+    return new NextResponse(stream, {
+      headers: { 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-cache' },
+    });
+  } catch (error) {
+    console.error('POST /api/import error:', error);
+    return errorResponse('Failed to import emails', 500);
+  }
+}
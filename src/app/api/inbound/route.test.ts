@@ -0,0 +1,338 @@
+/**
+ * Tests for inbound mail: the webhook, the SMTP listener, threading and notifications
+ */
+
+import { randomUUID } from 'crypto';
+import { NextRequest } from 'next/server';
+import { POST } from './route';
+import { db } from '@/lib/database';
+import { emails, Email, EmailDirection } from '@/lib/schema';
+import { fetchAttachmentsByEmail } from '@/lib/attachmentQueries';
+import { createMailbox } from '@/lib/mailboxQueries';
+import { fetchContacts } from '@/lib/contactQueries';
+import { fetchStats, recalculateStats } from '@/lib/statsQueries';
+import { MailEvent, subscribeMailEvents } from '@/lib/mailEvents';
+import { startInboundSmtpListener } from '@/lib/inboundSmtp';
+import { createSmtpTransport, SmtpError } from '@/lib/mailTransport';
+import { eq, like } from 'drizzle-orm';
+import { createTestSession, TestSession } from '@/test/testSession';
+
+let session: TestSession;
+
+// Unique per run so subjects and Message-IDs never collide with earlier runs
+const tag = randomUUID().slice(0, 8);
+
+const rawMessage = (headers: Record<string, string>, body = 'Hello there') =>
+  Object.entries({
+    From: 'Ana Silva <ana@inbound.test>',
+    To: session.user.email,
+    Subject: `Inbound ${tag}`,
+    Date: 'Tue, 14 May 2024 10:30:00 +0000',
+    ...headers,
+  })
+    .map(([name, value]) => `${name}: ${value}`)
+    .join('\r\n') + `\r\n\r\n${body}\r\n`;
+
+const SECRET = 'let-me-in';
+
+const deliver = (raw: string, headers: Record<string, string> = {}) =>
+  POST(
+    new NextRequest('http://localhost:3000/api/inbound', {
+      method: 'POST',
+      headers: {
+        'content-type': 'message/rfc822',
+        authorization: `Bearer ${SECRET}`,
+        ...headers,
+      },
+      body: raw,
+    }),
+  );
+
+describe('POST /api/inbound', () => {
+  beforeAll(async () => {
+    session = await createTestSession();
+  });
+
+  const secret = process.env.INBOUND_SECRET;
+
+  beforeEach(() => {
+    process.env.INBOUND_SECRET = SECRET;
+  });
+
+  afterEach(() => {
+    process.env.INBOUND_SECRET = secret;
+    if (secret === undefined) delete process.env.INBOUND_SECRET;
+  });
+
+  afterAll(async () => {
+    await db.delete(emails).where(like(emails.subject, `%${tag}%`));
+    await recalculateStats(session.user.id);
+  });
+
+  it('stores the message as unread incoming mail, counts it and notifies subscribers', async () => {
+    const events: MailEvent[] = [];
+    const unsubscribe = subscribeMailEvents((event) => events.push(event));
+    const { unread } = await recalculateStats(session.user.id);
+
+    const before = new Date();
+    const response = await deliver(rawMessage({ 'Message-ID': `<first.${tag}@inbound.test>` }));
+    unsubscribe();
+    expect(response.status).toBe(201);
+
+    const {
+      emails: [email],
+      duplicate,
+    } = await response.json();
+    expect(duplicate).toBe(false);
+    expect(email).toMatchObject({
+      ownerId: session.user.id,
+      messageId: `<first.${tag}@inbound.test>`,
+      subject: `Inbound ${tag}`,
+      from: 'Ana Silva <ana@inbound.test>',
+      to: session.user.email,
+      content: 'Hello there',
+      direction: EmailDirection.INCOMING,
+      isRead: false,
+    });
+    // Dated on arrival rather than by its Date header
+    expect(Date.parse(email.createdAt)).toBeGreaterThanOrEqual(before.getTime() - 1000);
+
+    expect((await fetchStats(session.user.id)).unread).toBe(unread + 1);
+    expect(events.map((event) => event.type)).toEqual(['email.created', 'stats.changed']);
+    expect(events[0]).toMatchObject({ ownerId: session.user.id, email: { id: email.id } });
+    expect(events[1]).toMatchObject({ stats: { unread: unread + 1 } });
+  });
+
+  it('stores addresses normalised, as mail sent from here is', async () => {
+    const response = await deliver(
+      rawMessage({
+        'Message-ID': `<normalised.${tag}@inbound.test>`,
+        From: 'Ana Silva <Ana@Inbound.TEST>',
+        Cc: 'Bo@EXAMPLE.com',
+      }),
+    );
+    expect(response.status).toBe(201);
+
+    const {
+      emails: [email],
+    } = await response.json();
+    expect(email).toMatchObject({ from: 'Ana Silva <Ana@inbound.test>', cc: 'Bo@example.com' });
+  });
+
+  it('threads replies onto the existing conversation', async () => {
+    const [original] = await db
+      .insert(emails)
+      .values({
+        ownerId: session.user.id,
+        threadId: `inbound-thread-${tag}`,
+        messageId: `<original.${tag}@company.com>`,
+        subject: `Proposal ${tag}`,
+        from: session.user.email,
+        to: 'ana@inbound.test',
+        direction: EmailDirection.OUTGOING,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .returning();
+
+    const response = await deliver(
+      rawMessage({
+        'Message-ID': `<reply.${tag}@inbound.test>`,
+        Subject: `Re: Proposal ${tag}`,
+        'In-Reply-To': original.messageId!,
+        References: original.messageId!,
+      }),
+    );
+    const {
+      emails: [email],
+    } = await response.json();
+    expect(email.threadId).toBe(original.threadId);
+    expect(email.inReplyTo).toBe(original.messageId);
+  });
+
+  it('stores attachments', async () => {
+    const boundary = `b-${tag}`;
+    const raw = rawMessage(
+      {
+        'Message-ID': `<attached.${tag}@inbound.test>`,
+        'MIME-Version': '1.0',
+        'Content-Type': `multipart/mixed; boundary="${boundary}"`,
+      },
+      [
+        `--${boundary}`,
+        'Content-Type: text/plain',
+        '',
+        'See attached',
+        `--${boundary}`,
+        'Content-Type: text/csv; name="numbers.csv"',
+        'Content-Disposition: attachment; filename="numbers.csv"',
+        'Content-Transfer-Encoding: base64',
+        '',
+        Buffer.from('a,b\n1,2\n').toString('base64'),
+        `--${boundary}--`,
+      ].join('\r\n'),
+    );
+
+    const {
+      emails: [email],
+    } = await (await deliver(raw)).json();
+    expect(email.content).toBe('See attached');
+    const attachments = (await fetchAttachmentsByEmail([email.id])).get(email.id);
+    expect(attachments).toHaveLength(1);
+    expect(attachments?.[0]).toMatchObject({ filename: 'numbers.csv', mimeType: 'text/csv' });
+  });
+
+  it('accepts redelivery without storing the message twice', async () => {
+    const raw = rawMessage({ 'Message-ID': `<again.${tag}@inbound.test>` });
+    const first = await (await deliver(raw)).json();
+
+    const response = await deliver(raw);
+    expect(response.status).toBe(200);
+    const second = await response.json();
+    expect(second).toMatchObject({ duplicate: true, emails: [{ id: first.emails[0].id }] });
+
+    // Without a Message-ID, identical messages are recognised by their content
+    const anonymous = rawMessage({ Subject: `No id ${tag}` });
+    expect((await deliver(anonymous)).status).toBe(201);
+    expect((await deliver(anonymous)).status).toBe(200);
+  });
+
+  it('stores a separate copy for each user it is addressed to', async () => {
+    const other = await createTestSession();
+    const raw = rawMessage({ 'Message-ID': `<shared.${tag}@inbound.test>`, Cc: other.user.email });
+
+    const response = await deliver(raw);
+    expect(response.status).toBe(201);
+    const { emails: copies } = await response.json();
+    expect(copies.map((email: Email) => email.ownerId).sort()).toEqual(
+      [session.user.id, other.user.id].sort(),
+    );
+    expect(new Set(copies.map((email: Email) => email.id)).size).toBe(2);
+
+    // A mailbox that already has the message only gets it once
+    const redelivered = await deliver(rawMessage({ 'Message-ID': `<shared.${tag}@inbound.test>` }));
+    expect(redelivered.status).toBe(200);
+  });
+
+  it('files mail under the mailbox it was addressed to, once per user', async () => {
+    const alias = await createMailbox(session.user.id, { address: `alias.${tag}@test.example` });
+    const raw = rawMessage({
+      'Message-ID': `<alias.${tag}@inbound.test>`,
+      To: alias.address.toUpperCase(),
+      Cc: session.user.email,
+    });
+
+    const response = await deliver(raw);
+    expect(response.status).toBe(201);
+    const { emails: copies } = await response.json();
+    expect(copies).toEqual([
+      expect.objectContaining({ ownerId: session.user.id, mailboxId: alias.id }),
+    ]);
+  });
+
+  it('records the sender and the other recipients as contacts', async () => {
+    const reader = await createTestSession();
+    const raw = rawMessage({
+      'Message-ID': `<contacts.${tag}@inbound.test>`,
+      To: reader.user.email,
+      Cc: 'Bo Chen <bo@inbound.test>',
+    });
+
+    expect((await deliver(raw)).status).toBe(201);
+    expect(await fetchContacts(reader.user.id)).toEqual([
+      expect.objectContaining({ address: 'ana@inbound.test', name: 'Ana Silva' }),
+      expect.objectContaining({ address: 'bo@inbound.test', name: 'Bo Chen' }),
+    ]);
+  });
+
+  it('rejects messages not addressed to any user', async () => {
+    const response = await deliver(
+      rawMessage({ 'Message-ID': `<stranger.${tag}@inbound.test>`, To: 'nobody@inbound.test' }),
+    );
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toBe('No mailbox for any of the recipients');
+  });
+
+  it('requires the shared secret', async () => {
+    const raw = rawMessage({ 'Message-ID': `<secret.${tag}@inbound.test>` });
+
+    expect((await deliver(raw, { authorization: '' })).status).toBe(401);
+    expect((await deliver(raw, { authorization: 'Bearer wrong' })).status).toBe(401);
+    expect((await deliver(raw)).status).toBe(201);
+  });
+
+  it('refuses all mail while no secret is configured', async () => {
+    delete process.env.INBOUND_SECRET;
+    const raw = rawMessage({ 'Message-ID': `<unset.${tag}@inbound.test>` });
+
+    for (const authorization of ['', 'Bearer ', 'Bearer undefined']) {
+      const response = await deliver(raw, { authorization });
+      expect(response.status).toBe(503);
+      expect((await response.json()).error).toBe('Inbound mail is not enabled on this server');
+    }
+    const stored = await db
+      .select()
+      .from(emails)
+      .where(eq(emails.messageId, `<unset.${tag}@inbound.test>`));
+    expect(stored).toHaveLength(0);
+  });
+
+  it('rejects empty bodies and messages without a sender', async () => {
+    expect((await deliver('')).status).toBe(400);
+
+    const response = await deliver(
+      `To: ${session.user.email}\r\nSubject: Anonymous ${tag}\r\n\r\nHi\r\n`,
+    );
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toBe('Message has no From address');
+  });
+});
+
+describe('inbound SMTP listener', () => {
+  beforeAll(async () => {
+    session = await createTestSession();
+  });
+
+  afterAll(async () => {
+    await db.delete(emails).where(like(emails.subject, `%${tag}%`));
+    await recalculateStats(session.user.id);
+  });
+
+  it('stores mail sent over SMTP and refuses messages it cannot store', async () => {
+    const listener = await startInboundSmtpListener(0, '127.0.0.1');
+    const transport = createSmtpTransport({
+      host: '127.0.0.1',
+      port: listener.port,
+      timeoutMs: 5000,
+    });
+    const envelope = { from: 'ana@inbound.test', recipients: [session.user.email] };
+
+    try {
+      await transport.send({
+        ...envelope,
+        raw: Buffer.from(
+          rawMessage({ 'Message-ID': `<smtp.${tag}@inbound.test>`, Subject: `SMTP ${tag}` }),
+        ),
+      });
+      const [stored] = await db
+        .select()
+        .from(emails)
+        .where(like(emails.subject, `SMTP ${tag}`));
+      expect(stored).toMatchObject<Partial<Email>>({
+        ownerId: session.user.id,
+        messageId: `<smtp.${tag}@inbound.test>`,
+        direction: EmailDirection.INCOMING,
+        isRead: false,
+      });
+
+      const rejected = transport.send({
+        ...envelope,
+        raw: Buffer.from(`Subject: Nobody ${tag}\r\n\r\nHi\r\n`),
+      });
+      await expect(rejected).rejects.toBeInstanceOf(SmtpError);
+      await expect(rejected).rejects.toMatchObject({ code: 554 });
+    } finally {
+      await listener.close();
+    }
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * Inbound Mail API Route
+ * Webhook for mail providers and relays to deliver incoming messages
+ */
+
+import { createHash, timingSafeEqual } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { InboundMessageError, receiveMessage } from '@/lib/inboundQueries';
+import { formatFileSize } from '@/lib/utils';
+import { MAX_INBOUND_MESSAGE_SIZE } from '@/types/email';
+
+// Helper functions for consistent responses
+const errorResponse = (error: string, status: number = 400) =>
+  NextResponse.json({ status: 'error', error }, { status });
+
+const successResponse = (data: object, status: number = 200) =>
+  NextResponse.json({ status: 'success', ...data }, { status });
+
+/**
+ * Checks the request's bearer token against INBOUND_SECRET
+ * Never true when no secret is configured, so the webhook is closed until one is
+ */
+function isAuthorized(request: NextRequest): boolean {
+  const secret = process.env.INBOUND_SECRET;
+  if (!secret) return false;
+
+  const token = /^Bearer\s+(.+)$/i.exec(request.headers.get('authorization') ?? '')?.[1] ?? '';
+  // Compared as digests so the comparison takes the same time whatever the token's length
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(token), digest(secret));
+}
+
+/**
+ * POST /api/inbound
+ * Stores the raw RFC 822 message in the request body as unread incoming mail, threaded onto
+ * its conversation, in the mailbox of each user named in its To, Cc or Bcc header (400 when
+ * there is none). Callers must send `Authorization: Bearer <INBOUND_SECRET>`; every request is
+ * refused (503) while no secret is configured. Messages up to 35 MB; when every mailbox already holds the Message-ID the existing
+ * emails come back with `duplicate: true` (200) instead of 201, so senders can safely retry.
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    if (!process.env.INBOUND_SECRET) {
+      return errorResponse('Inbound mail is not enabled on this server', 503);
+    }
+    if (!isAuthorized(request)) return errorResponse('Invalid or missing inbound secret', 401);
+
+    const tooLarge = `Messages are limited to ${formatFileSize(MAX_INBOUND_MESSAGE_SIZE)}`;
+    if (Number(request.headers.get('content-length')) > MAX_INBOUND_MESSAGE_SIZE) {
+      return errorResponse(tooLarge, 413);
+    }
+
+    const raw = Buffer.from(await request.arrayBuffer());
+    if (!raw.length) return errorResponse('Expected a raw RFC 822 message in the request body');
+    if (raw.length > MAX_INBOUND_MESSAGE_SIZE) return errorResponse(tooLarge, 413);
+
+    const results = await receiveMessage(raw);
+    const duplicate = results.every((result) => result.duplicate);
+    return successResponse(
+      { emails: results.map((result) => result.email), duplicate },
+      duplicate ? 200 : 201,
+    );
+  } catch (error) {
+    if (error instanceof InboundMessageError) return errorResponse(error.message);
+    console.error('POST /api/inbound error:', error);
+    return errorResponse('Failed to receive message', 500);
+  }
+}
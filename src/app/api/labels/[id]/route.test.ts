@@ -0,0 +1,115 @@
+/**
+ * Tests for Single Label API Routes
+ */
+
+import { PATCH, DELETE } from './route';
+import { db } from '@/lib/database';
+import { emailLabels, emails, EmailDirection, Label, labels } from '@/lib/schema';
+import { eq, like } from 'drizzle-orm';
+import { createTestSession, TestSession } from '@/test/testSession';
+
+let session: TestSession;
+
+const LABEL_PREFIX = 'LabelIdApiTest';
+
+describe('label API', () => {
+  let label: Label;
+  let other: Label;
+
+  const patch = (id: number | string, body: object) =>
+    PATCH(
+      session.request(`http://localhost:3000/api/labels/${id}`, {
+        method: 'PATCH',
+        body: JSON.stringify(body),
+      }),
+      { params: Promise.resolve({ id: String(id) }) },
+    );
+
+  const remove = (id: number | string) =>
+    DELETE(session.request(`http://localhost:3000/api/labels/${id}`, { method: 'DELETE' }), {
+      params: Promise.resolve({ id: String(id) }),
+    });
+
+  beforeAll(async () => {
+    session = await createTestSession();
+    [label, other] = await db
+      .insert(labels)
+      .values([
+        { ownerId: session.user.id, name: `${LABEL_PREFIX} One`, color: '#1976d2' },
+        { ownerId: session.user.id, name: `${LABEL_PREFIX} Two`, color: '#388e3c' },
+      ])
+      .returning();
+  });
+
+  afterAll(async () => {
+    await db.delete(labels).where(like(labels.name, `${LABEL_PREFIX}%`));
+    await db.delete(emails).where(eq(emails.threadId, 'label-id-api-test-thread'));
+  });
+
+  describe('PATCH /api/labels/[id]', () => {
+    it('renames and recolours a label', async () => {
+      const response = await patch(label.id, { name: `${LABEL_PREFIX} Renamed`, color: '#F57C00' });
+      expect(response.status).toBe(200);
+
+      const body = await response.json();
+      expect(body.label).toMatchObject({ name: `${LABEL_PREFIX} Renamed`, color: '#F57C00' });
+    });
+
+    it('allows changing only the case of its own name', async () => {
+      const response = await patch(label.id, { name: `${LABEL_PREFIX} RENAMED` });
+      expect(response.status).toBe(200);
+    });
+
+    it('rejects a name used by another label', async () => {
+      const response = await patch(label.id, { name: `${LABEL_PREFIX} two` });
+      expect(response.status).toBe(409);
+    });
+
+    it('requires at least one field', async () => {
+      const response = await patch(label.id, {});
+      expect(response.status).toBe(400);
+    });
+
+    it('returns 404 for a missing label', async () => {
+      const response = await patch(999999, { color: '#000000' });
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('DELETE /api/labels/[id]', () => {
+    it('deletes a label and its email assignments', async () => {
+      const [email] = await db
+        .insert(emails)
+        .values({
+          ownerId: session.user.id,
+          threadId: 'label-id-api-test-thread',
+          subject: 'Labelled',
+          from: 'sender@test.com',
+          to: 'me@company.com',
+          direction: EmailDirection.INCOMING,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        })
+        .returning();
+      await db.insert(emailLabels).values({ emailId: email.id, labelId: other.id });
+
+      const response = await remove(other.id);
+      expect(response.status).toBe(200);
+
+      expect(await db.select().from(labels).where(eq(labels.id, other.id))).toHaveLength(0);
+      expect(
+        await db.select().from(emailLabels).where(eq(emailLabels.emailId, email.id)),
+      ).toHaveLength(0);
+    });
+
+    it('returns 404 for a missing label', async () => {
+      const response = await remove(other.id);
+      expect(response.status).toBe(404);
+    });
+
+    it('returns 400 for an invalid ID', async () => {
+      const response = await remove('abc');
+      expect(response.status).toBe(400);
+    });
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Single Label API Routes
+ * Renames, recolours and deletes the signed-in user's labels
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth';
+import { deleteLabel, findLabelByName, updateLabel } from '@/lib/labelQueries';
+import { isValidLabelColor, validateLabelName } from '@/lib/utils';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// Helper functions for consistent responses
+const errorResponse = (error: string, status: number = 400) =>
+  NextResponse.json({ status: 'error', error }, { status });
+
+const successResponse = (data: object, status: number = 200) =>
+  NextResponse.json({ status: 'success', ...data }, { status });
+
+/**
+ * PATCH /api/labels/[id]
+ * Updates a label's name and/or color
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams): Promise<NextResponse> {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) return errorResponse('Unauthorized', 401);
+
+    const labelId = parseInt((await params).id, 10);
+    if (isNaN(labelId)) return errorResponse('Invalid label ID');
+
+    const { name, color } = await request.json();
+    if (name === undefined && color === undefined) {
+      return errorResponse('Nothing to update - provide name and/or color');
+    }
+
+    if (name !== undefined) {
+      const nameError = validateLabelName(name);
+      if (nameError) return errorResponse(nameError);
+      if (await findLabelByName(user.id, name.trim(), labelId)) {
+        return errorResponse(`A label named "${name.trim()}" already exists`, 409);
+      }
+    }
+    if (color !== undefined && !isValidLabelColor(color)) {
+      return errorResponse('Color must be a hex value like #1976d2');
+    }
+
+    const label = await updateLabel(user.id, labelId, {
+      ...(name !== undefined && { name: name.trim() }),
+      ...(color !== undefined && { color }),
+    });
+    if (!label) return errorResponse('Label not found', 404);
+
+    return successResponse({ label });
+  } catch (error) {
+    console.error('PATCH /api/labels error:', error);
+    return errorResponse('Failed to update label', 500);
+  }
+}
+
+/**
+ * DELETE /api/labels/[id]
+ * Deletes a label and removes it from all emails
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams): Promise<NextResponse> {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) return errorResponse('Unauthorized', 401);
+
+    const labelId = parseInt((await params).id, 10);
+    if (isNaN(labelId)) return errorResponse('Invalid label ID');
+
+    if (!(await deleteLabel(user.id, labelId))) return errorResponse('Label not found', 404);
+
+    return successResponse({ message: 'Label deleted' });
+  } catch (error) {
+    console.error('DELETE /api/labels error:', error);
+    return errorResponse('Failed to delete label', 500);
+  }
+}
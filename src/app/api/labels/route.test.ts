@@ -0,0 +1,152 @@
+/**
+ * Tests for Label API Routes
+ */
+
+import { NextRequest } from 'next/server';
+import { GET, POST } from './route';
+import { db } from '@/lib/database';
+import { emailLabels, emails, EmailDirection, Label, labels } from '@/lib/schema';
+import { eq, like } from 'drizzle-orm';
+import { LABEL_COLORS, LabelWithCounts } from '@/types';
+import { createTestSession, TestSession } from '@/test/testSession';
+
+let session: TestSession;
+
+const LABEL_PREFIX = 'LabelsApiTest';
+const API_URL = 'http://localhost:3000/api/labels';
+
+const post = (body: object) =>
+  POST(
+    session.request(API_URL, {
+      method: 'POST',
+      body: JSON.stringify(body),
+    }),
+  );
+
+describe('labels API', () => {
+  beforeAll(async () => {
+    session = await createTestSession();
+  });
+
+  afterAll(async () => {
+    await db.delete(labels).where(like(labels.name, `${LABEL_PREFIX}%`));
+    await db.delete(emails).where(eq(emails.threadId, 'labels-api-test-thread'));
+  });
+
+  describe('POST /api/labels', () => {
+    it('creates a label', async () => {
+      const response = await post({ name: `  ${LABEL_PREFIX} Finance  `, color: '#d32f2f' });
+      expect(response.status).toBe(201);
+
+      const body = await response.json();
+      expect(body.status).toBe('success');
+      expect(body.label).toMatchObject({ name: `${LABEL_PREFIX} Finance`, color: '#d32f2f' });
+    });
+
+    it('defaults the colour to the first palette colour', async () => {
+      const body = await (await post({ name: `${LABEL_PREFIX} Default` })).json();
+      expect(body.label.color).toBe(LABEL_COLORS[0]);
+    });
+
+    it('rejects duplicate names regardless of case', async () => {
+      const response = await post({ name: `${LABEL_PREFIX} FINANCE` });
+      expect(response.status).toBe(409);
+
+      const body = await response.json();
+      expect(body.error).toContain('already exists');
+    });
+
+    it('allows a name another user already has', async () => {
+      const other = await createTestSession();
+      const response = await POST(
+        other.request(API_URL, {
+          method: 'POST',
+          body: JSON.stringify({ name: `${LABEL_PREFIX} Finance` }),
+        }),
+      );
+      expect(response.status).toBe(201);
+    });
+
+    it('requires a name', async () => {
+      const response = await post({ name: '   ' });
+      expect(response.status).toBe(400);
+      expect((await response.json()).error).toBe('Label name is required');
+    });
+
+    it('rejects invalid colours', async () => {
+      const response = await post({ name: `${LABEL_PREFIX} Bad Colour`, color: 'red' });
+      expect(response.status).toBe(400);
+      expect((await response.json()).error).toContain('hex');
+    });
+  });
+
+  describe('GET /api/labels', () => {
+    it('returns labels with unread counts of the mail the inbox lists', async () => {
+      const [label] = await db
+        .insert(labels)
+        .values({ ownerId: session.user.id, name: `${LABEL_PREFIX} Counted`, color: '#7b1fa2' })
+        .returning();
+      const labelled = await db
+        .insert(emails)
+        .values(
+          [
+            { isRead: false, direction: EmailDirection.INCOMING },
+            { isRead: true, direction: EmailDirection.INCOMING },
+            { isRead: false, direction: EmailDirection.OUTGOING },
+            { isRead: false, direction: EmailDirection.INCOMING, isArchived: true },
+            { isRead: false, direction: EmailDirection.INCOMING, isDeleted: true },
+            {
+              isRead: false,
+              direction: EmailDirection.INCOMING,
+              snoozedUntil: new Date(Date.now() + 60 * 60 * 1000),
+            },
+          ].map((flags, i) => ({
+            ...flags,
+            ownerId: session.user.id,
+            threadId: 'labels-api-test-thread',
+            subject: `Counted ${i}`,
+            from: 'counts@test.com',
+            to: 'me@company.com',
+            createdAt: new Date(),
+            updatedAt: new Date(),
+          })),
+        )
+        .returning();
+      await db
+        .insert(emailLabels)
+        .values(labelled.map((email) => ({ emailId: email.id, labelId: label.id })));
+
+      const response = await GET(session.request(API_URL));
+      expect(response.status).toBe(200);
+
+      const body = await response.json();
+      const counted = body.labels.find((l: LabelWithCounts) => l.id === label.id);
+      expect(counted.unreadCount).toBe(1);
+
+      const finance = body.labels.find((l: Label) => l.name === `${LABEL_PREFIX} Finance`);
+      expect(finance.unreadCount).toBe(0);
+    });
+
+    it("leaves out other users' labels", async () => {
+      const other = await createTestSession();
+      await db
+        .insert(labels)
+        .values({ ownerId: other.user.id, name: `${LABEL_PREFIX} Private`, color: '#7b1fa2' });
+
+      const body = await (await GET(session.request(API_URL))).json();
+      expect(body.labels.map((l: Label) => l.name)).not.toContain(`${LABEL_PREFIX} Private`);
+    });
+
+    it('requires a signed-in user', async () => {
+      const response = await GET(new NextRequest(API_URL));
+      expect(response.status).toBe(401);
+      expect((await response.json()).error).toBe('Unauthorized');
+    });
+
+    it('sorts labels alphabetically ignoring case', async () => {
+      const body = await (await GET(session.request(API_URL))).json();
+      const names = body.labels.map((l: Label) => l.name.toLowerCase());
+      expect(names).toEqual([...names].sort());
+    });
+  });
+});
@@ -0,0 +1,61 @@
+/**
+ * Label API Routes
+ * Lists and creates the signed-in user's labels
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth';
+import { createLabel, fetchLabels, findLabelByName } from '@/lib/labelQueries';
+import { isValidLabelColor, validateLabelName } from '@/lib/utils';
+import { LABEL_COLORS } from '@/types';
+
+// Helper functions for consistent responses
+const errorResponse = (error: string, status: number = 400) =>
+  NextResponse.json({ status: 'error', error }, { status });
+
+const successResponse = (data: object, status: number = 200) =>
+  NextResponse.json({ status: 'success', ...data }, { status });
+
+/**
+ * GET /api/labels
+ * Returns all labels, alphabetically, with per-label unread counts
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) return errorResponse('Unauthorized', 401);
+
+    const labels = await fetchLabels(user.id);
+    return successResponse({ labels });
+  } catch (error) {
+    console.error('GET /api/labels error:', error);
+    return errorResponse('Failed to fetch labels', 500);
+  }
+}
+
+/**
+ * POST /api/labels
+ * Creates a label; color defaults to the first palette colour
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) return errorResponse('Unauthorized', 401);
+
+    const { name = '', color = LABEL_COLORS[0] } = await request.json();
+
+    const nameError = validateLabelName(name);
+    if (nameError) return errorResponse(nameError);
+    if (!isValidLabelColor(color)) return errorResponse('Color must be a hex value like #1976d2');
+
+    if (await findLabelByName(user.id, name.trim())) {
+      return errorResponse(`A label named "${name.trim()}" already exists`, 409);
+    }
+
+    const label = await createLabel(user.id, { name: name.trim(), color });
+    return successResponse({ label }, 201);
+  } catch (error) {
+    console.error('POST /api/labels error:', error);
+    return errorResponse('Failed to create label', 500);
+  }
+}
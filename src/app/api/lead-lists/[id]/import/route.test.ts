@@ -0,0 +1,118 @@
+import { POST } from './route';
+import { createLeadList, fetchLeads } from '@/lib/leadQueries';
+import { LeadList } from '@/types';
+import { createTestSession, TestSession } from '@/test/testSession';
+
+let session: TestSession;
+let list: LeadList;
+
+const params = (id: number | string) => ({ params: Promise.resolve({ id: String(id) }) });
+
+const importCsv = (as: TestSession, id: number | string, csv: string, query = '') =>
+  POST(
+    as.request(`http://localhost:3000/api/lead-lists/${id}/import${query}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'text/csv' },
+      body: csv,
+    }),
+    params(id),
+  );
+
+describe('POST /api/lead-lists/[id]/import', () => {
+  beforeAll(async () => {
+    session = await createTestSession();
+    list = await createLeadList(session.user.id, 'Import test');
+  });
+
+  it('Imports rows, guessing columns and keeping the rest as custom fields', async () => {
+    const response = await importCsv(
+      session,
+      list.id,
+      'E-mail,First name,Company,Job title\r\n' +
+        'Ann@Import.test,Ann,"Acme, Inc.",CTO\r\n' +
+        'bob@import.test,Bob,,\r\n',
+    );
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ imported: 2, updated: 0, failed: [] });
+
+    expect(await fetchLeads(session.user.id, list.id)).toMatchObject([
+      {
+        address: 'ann@import.test',
+        firstName: 'Ann',
+        company: 'Acme, Inc.',
+        customFields: { 'Job title': 'CTO' },
+      },
+      { address: 'bob@import.test', firstName: 'Bob', company: null, customFields: {} },
+    ]);
+  });
+
+  it('Reports each rejected row with its spreadsheet row number', async () => {
+    const response = await importCsv(
+      session,
+      list.id,
+      'email\n' + 'carol@import.test\n' + '\n' + 'not-an-address\n' + 'CAROL@import.test\n',
+    );
+    expect(await response.json()).toMatchObject({
+      imported: 1,
+      updated: 0,
+      failed: [
+        { row: 4, address: 'not-an-address', error: 'Invalid email address' },
+        { row: 5, address: 'carol@import.test', error: 'Duplicate of row 2' },
+      ],
+    });
+  });
+
+  it('Updates leads already on the list without clearing fields left blank', async () => {
+    const response = await importCsv(
+      session,
+      list.id,
+      'Work email,Name,Employer,Plan\nann@import.test,,Acme Corp,Pro\n,Nobody,,\n',
+      '?address=Work%20email&firstName=Name&company=Employer',
+    );
+    expect(await response.json()).toMatchObject({
+      imported: 0,
+      updated: 1,
+      failed: [{ row: 3, error: 'Missing email address' }],
+    });
+
+    const [ann] = await fetchLeads(session.user.id, list.id);
+    expect(ann).toMatchObject({
+      firstName: 'Ann',
+      company: 'Acme Corp',
+      customFields: { 'Job title': 'CTO', Plan: 'Pro' },
+    });
+  });
+
+  it('Keeps a column as a custom field when its field is mapped to none', async () => {
+    const response = await importCsv(
+      session,
+      list.id,
+      'email,company\ndave@import.test,Initech\n',
+      '?company=',
+    );
+    expect(await response.json()).toMatchObject({ imported: 1 });
+
+    const dave = (await fetchLeads(session.user.id, list.id)).at(-1);
+    expect(dave).toMatchObject({ company: null, customFields: { company: 'Initech' } });
+  });
+
+  it('Rejects a file without an address column or with an unknown mapped column', async () => {
+    const unguessed = await importCsv(session, list.id, 'Name,Phone\nAnn,555\n');
+    expect(unguessed.status).toBe(400);
+    expect((await unguessed.json()).error).toBe('Choose the column that holds the email addresses');
+
+    const unknown = await importCsv(session, list.id, 'email\nx@import.test\n', '?company=Org');
+    expect(unknown.status).toBe(400);
+    expect((await unknown.json()).error).toBe('The file has no "Org" column');
+  });
+
+  it('Rejects an empty file', async () => {
+    const response = await importCsv(session, list.id, '');
+    expect(response.status).toBe(400);
+  });
+
+  it("Returns 404 for another user's list", async () => {
+    const other = await createTestSession();
+    expect((await importCsv(other, list.id, 'email\nx@import.test\n')).status).toBe(404);
+  });
+});
@@ -0,0 +1,55 @@
+/**
+ * Lead Import API Route
+ * Imports a CSV file of leads into one of the signed-in user's lead lists
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth';
+import { decodeText, parseCsv } from '@/lib/csv';
+import { fetchLeadList, importLeads, LeadError } from '@/lib/leadQueries';
+import { LEAD_FIELDS, LeadColumnMapping } from '@/types';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// Helper functions for consistent responses
+const errorResponse = (error: string, status: number = 400) =>
+  NextResponse.json({ status: 'error', error }, { status });
+
+const successResponse = (data: object, status: number = 200) =>
+  NextResponse.json({ status: 'success', ...data }, { status });
+
+/**
+ * POST /api/lead-lists/[id]/import
+ * Imports the CSV file sent as the request body (text/csv), reading it as it arrives. The
+ * first row is the header; `?address=`, `?firstName=` and `?company=` name the column for each
+ * field (empty for none), and fields left out are guessed from the headers. Other columns
+ * become custom fields.
+ * Returns { imported, updated, failed } with the row number and reason for each rejected row
+ */
+export async function POST(request: NextRequest, { params }: RouteParams): Promise<NextResponse> {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) return errorResponse('Unauthorized', 401);
+
+    const listId = parseInt((await params).id, 10);
+    if (isNaN(listId)) return errorResponse('Invalid lead list ID');
+
+    if (!(await fetchLeadList(user.id, listId))) return errorResponse('Lead list not found', 404);
+    if (!request.body) return errorResponse('No CSV file to import');
+
+    const mapping: LeadColumnMapping = {};
+    for (const field of LEAD_FIELDS) {
+      const column = request.nextUrl.searchParams.get(field);
+      if (column !== null) mapping[field] = column;
+    }
+
+    const result = await importLeads(user.id, listId, parseCsv(decodeText(request.body)), mapping);
+    return successResponse(result);
+  } catch (error) {
+    if (error instanceof LeadError) return errorResponse(error.message);
+    console.error('POST /api/lead-lists/[id]/import error:', error);
+    return errorResponse('Failed to import leads', 500);
+  }
+}
@@ -0,0 +1,74 @@
+import { DELETE, GET } from './route';
+import { db } from '@/lib/database';
+import { createLeadList, importLeads } from '@/lib/leadQueries';
+import { parseCsv } from '@/lib/csv';
+import { leads } from '@/lib/schema';
+import { eq } from 'drizzle-orm';
+import { LeadList } from '@/types';
+import { createTestSession, TestSession } from '@/test/testSession';
+
+let session: TestSession;
+let list: LeadList;
+
+const params = (id: number | string) => ({ params: Promise.resolve({ id: String(id) }) });
+const url = (id: number | string) => `http://localhost:3000/api/lead-lists/${id}`;
+
+describe('/api/lead-lists/[id]', () => {
+  beforeAll(async () => {
+    session = await createTestSession();
+    list = await createLeadList(session.user.id, 'Detail test');
+    await importLeads(
+      session.user.id,
+      list.id,
+      parseCsv([
+        'Email,First Name,Company,Plan\nann@detail.test,Ann,Acme,Pro\nbob@detail.test,,,\n',
+      ]),
+    );
+  });
+
+  describe('GET', () => {
+    it('Returns the list with its leads in import order', async () => {
+      const response = await GET(session.request(url(list.id)), params(list.id));
+      expect(response.status).toBe(200);
+
+      const body = await response.json();
+      expect(body.list).toMatchObject({ id: list.id, name: 'Detail test', leadCount: 2 });
+      expect(body.leads).toMatchObject([
+        {
+          address: 'ann@detail.test',
+          firstName: 'Ann',
+          company: 'Acme',
+          customFields: { Plan: 'Pro' },
+        },
+        { address: 'bob@detail.test', firstName: null, company: null, customFields: {} },
+      ]);
+    });
+
+    it("Returns 404 for another user's list and 400 for a bad ID", async () => {
+      const other = await createTestSession();
+      expect((await GET(other.request(url(list.id)), params(list.id))).status).toBe(404);
+      expect((await GET(session.request(url('abc')), params('abc'))).status).toBe(400);
+    });
+  });
+
+  describe('DELETE', () => {
+    it('Deletes the list and its leads', async () => {
+      const response = await DELETE(
+        session.request(url(list.id), { method: 'DELETE' }),
+        params(list.id),
+      );
+      expect(response.status).toBe(200);
+
+      expect(await db.select().from(leads).where(eq(leads.listId, list.id))).toEqual([]);
+      expect((await GET(session.request(url(list.id)), params(list.id))).status).toBe(404);
+    });
+
+    it('Returns 404 for a list that does not exist', async () => {
+      const response = await DELETE(
+        session.request(url(999999), { method: 'DELETE' }),
+        params(999999),
+      );
+      expect(response.status).toBe(404);
+    });
+  });
+});
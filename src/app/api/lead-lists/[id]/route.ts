@@ -0,0 +1,63 @@
+/**
+ * Single Lead List API Routes
+ * Shows and deletes the signed-in user's lead lists
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth';
+import { deleteLeadList, fetchLeadList, fetchLeads } from '@/lib/leadQueries';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// Helper functions for consistent responses
+const errorResponse = (error: string, status: number = 400) =>
+  NextResponse.json({ status: 'error', error }, { status });
+
+const successResponse = (data: object, status: number = 200) =>
+  NextResponse.json({ status: 'success', ...data }, { status });
+
+/**
+ * GET /api/lead-lists/[id]
+ * Returns a lead list with its leads, in the order they were imported
+ */
+export async function GET(request: NextRequest, { params }: RouteParams): Promise<NextResponse> {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) return errorResponse('Unauthorized', 401);
+
+    const listId = parseInt((await params).id, 10);
+    if (isNaN(listId)) return errorResponse('Invalid lead list ID');
+
+    const list = await fetchLeadList(user.id, listId);
+    if (!list) return errorResponse('Lead list not found', 404);
+
+    const leads = await fetchLeads(user.id, listId);
+    return successResponse({ list: { ...list, leadCount: leads.length }, leads });
+  } catch (error) {
+    console.error('GET /api/lead-lists/[id] error:', error);
+    return errorResponse('Failed to fetch lead list', 500);
+  }
+}
+
+/**
+ * DELETE /api/lead-lists/[id]
+ * Deletes a lead list and its leads; people already enrolled in campaigns stay enrolled
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams): Promise<NextResponse> {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) return errorResponse('Unauthorized', 401);
+
+    const listId = parseInt((await params).id, 10);
+    if (isNaN(listId)) return errorResponse('Invalid lead list ID');
+
+    if (!(await deleteLeadList(user.id, listId))) return errorResponse('Lead list not found', 404);
+
+    return successResponse({ message: 'Lead list deleted' });
+  } catch (error) {
+    console.error('DELETE /api/lead-lists/[id] error:', error);
+    return errorResponse('Failed to delete lead list', 500);
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest } from 'next/server';
+import { GET, POST } from './route';
+import { createLeadList } from '@/lib/leadQueries';
+import { LeadListWithCounts } from '@/types';
+import { createTestSession, TestSession } from '@/test/testSession';
+
+let session: TestSession;
+
+const API_URL = 'http://localhost:3000/api/lead-lists';
+
+const post = (as: TestSession, body: object) =>
+  POST(as.request(API_URL, { method: 'POST', body: JSON.stringify(body) }));
+
+describe('lead lists API', () => {
+  beforeAll(async () => {
+    session = await createTestSession();
+  });
+
+  describe('POST /api/lead-lists', () => {
+    it('Creates an empty list with a trimmed name', async () => {
+      const response = await post(session, { name: '  Conference 2026  ' });
+      expect(response.status).toBe(201);
+      expect((await response.json()).list).toMatchObject({
+        name: 'Conference 2026',
+        leadCount: 0,
+      });
+    });
+
+    it('Rejects a name already used, ignoring case', async () => {
+      const response = await post(session, { name: 'conference 2026' });
+      expect(response.status).toBe(409);
+      expect((await response.json()).error).toBe(
+        'A lead list named "conference 2026" already exists',
+      );
+    });
+
+    it('Lets another user reuse the name', async () => {
+      const other = await createTestSession();
+      expect((await post(other, { name: 'Conference 2026' })).status).toBe(201);
+    });
+
+    it('Rejects a missing or overlong name', async () => {
+      expect((await post(session, { name: '  ' })).status).toBe(400);
+      expect((await post(session, { name: 'x'.repeat(101) })).status).toBe(400);
+    });
+  });
+
+  describe('GET /api/lead-lists', () => {
+    it("Lists only the user's lists, alphabetically", async () => {
+      const other = await createTestSession();
+      await createLeadList(other.user.id, 'Not mine');
+      await createLeadList(session.user.id, 'alpha');
+
+      const response = await GET(session.request(API_URL));
+      expect(response.status).toBe(200);
+      const { lists } = await response.json();
+      expect(lists.map(({ name }: LeadListWithCounts) => name)).toEqual([
+        'alpha',
+        'Conference 2026',
+      ]);
+    });
+
+    it('Requires a signed-in user', async () => {
+      expect((await GET(new NextRequest(API_URL))).status).toBe(401);
+    });
+  });
+});
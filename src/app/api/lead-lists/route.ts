@@ -0,0 +1,59 @@
+/**
+ * Lead List API Routes
+ * Lists and creates the signed-in user's lead lists
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth';
+import { createLeadList, fetchLeadLists, findLeadListByName } from '@/lib/leadQueries';
+import { validateLeadListName } from '@/lib/utils';
+
+// Helper functions for consistent responses
+const errorResponse = (error: string, status: number = 400) =>
+  NextResponse.json({ status: 'error', error }, { status });
+
+const successResponse = (data: object, status: number = 200) =>
+  NextResponse.json({ status: 'success', ...data }, { status });
+
+/**
+ * GET /api/lead-lists
+ * Returns all lead lists, alphabetically, with the number of leads on each
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) return errorResponse('Unauthorized', 401);
+
+    const lists = await fetchLeadLists(user.id);
+    return successResponse({ lists });
+  } catch (error) {
+    console.error('GET /api/lead-lists error:', error);
+    return errorResponse('Failed to fetch lead lists', 500);
+  }
+}
+
+/**
+ * POST /api/lead-lists
+ * Creates an empty lead list; leads are added by importing a CSV file into it
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) return errorResponse('Unauthorized', 401);
+
+    const { name = '' } = await request.json();
+
+    const nameError = validateLeadListName(name);
+    if (nameError) return errorResponse(nameError);
+
+    if (await findLeadListByName(user.id, name.trim())) {
+      return errorResponse(`A lead list named "${name.trim()}" already exists`, 409);
+    }
+
+    const list = await createLeadList(user.id, name);
+    return successResponse({ list: { ...list, leadCount: 0 } }, 201);
+  } catch (error) {
+    console.error('POST /api/lead-lists error:', error);
+    return errorResponse('Failed to create lead list', 500);
+  }
+}
@@ -0,0 +1,58 @@
+import { GET } from './route';
+import { db } from '@/lib/database';
+import { createLeadList, fetchLeads, importLeads } from '@/lib/leadQueries';
+import { parseCsv } from '@/lib/csv';
+import { emails, EmailDirection, Lead } from '@/lib/schema';
+import { createTestSession, TestSession } from '@/test/testSession';
+
+let session: TestSession;
+let lead: Lead;
+
+const params = (id: number | string) => ({ params: Promise.resolve({ id: String(id) }) });
+const url = (id: number | string) => `http://localhost:3000/api/leads/${id}/threads`;
+
+describe('GET /api/leads/[id]/threads', () => {
+  beforeAll(async () => {
+    session = await createTestSession();
+    const list = await createLeadList(session.user.id, 'Threads test');
+    await importLeads(session.user.id, list.id, parseCsv(['email\nann@threads.test\n']));
+    [lead] = await fetchLeads(session.user.id, list.id);
+
+    const email = (threadId: string, minutes: number, fields: object) => ({
+      ownerId: session.user.id,
+      threadId,
+      subject: threadId,
+      from: 'me@test.example',
+      to: 'someone@threads.test',
+      createdAt: new Date(Date.UTC(2026, 0, 1, 9, minutes)),
+      ...fields,
+    });
+    await db.insert(emails).values([
+      email('lead-thread-old', 0, { to: '"Ann" <ANN@threads.test>' }),
+      email('lead-thread-new', 5, { cc: 'ann@threads.test' }),
+      email('lead-thread-new', 10, {
+        from: 'Ann <ann@threads.test>',
+        to: 'me@test.example',
+        direction: EmailDirection.INCOMING,
+      }),
+      email('lead-thread-lookalike', 20, { to: 'joann@threads.test' }),
+      email('lead-thread-draft', 30, { to: 'ann@threads.test', isDraft: true }),
+    ]);
+  });
+
+  it('Returns the threads with the lead, most recent first', async () => {
+    const response = await GET(session.request(url(lead.id)), params(lead.id));
+    expect(response.status).toBe(200);
+
+    const { threads } = await response.json();
+    expect(threads).toMatchObject([
+      { threadId: 'lead-thread-new', subject: 'lead-thread-new', emailCount: 2 },
+      { threadId: 'lead-thread-old', emailCount: 1 },
+    ]);
+  });
+
+  it("Returns 404 for another user's lead", async () => {
+    const other = await createTestSession();
+    expect((await GET(other.request(url(lead.id)), params(lead.id))).status).toBe(404);
+  });
+});
@@ -0,0 +1,42 @@
+/**
+ * Lead Threads API Route
+ * Lists the conversations the signed-in user has had with a lead
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth';
+import { fetchLeadThreads } from '@/lib/leadQueries';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// Helper functions for consistent responses
+const errorResponse = (error: string, status: number = 400) =>
+  NextResponse.json({ status: 'error', error }, { status });
+
+const successResponse = (data: object, status: number = 200) =>
+  NextResponse.json({ status: 'success', ...data }, { status });
+
+/**
+ * GET /api/leads/[id]/threads
+ * Returns the threads with an email from, to or copied to the lead, most recent first, each
+ * with the latest email to open it from
+ */
+export async function GET(request: NextRequest, { params }: RouteParams): Promise<NextResponse> {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) return errorResponse('Unauthorized', 401);
+
+    const leadId = parseInt((await params).id, 10);
+    if (isNaN(leadId)) return errorResponse('Invalid lead ID');
+
+    const threads = await fetchLeadThreads(user.id, leadId);
+    if (!threads) return errorResponse('Lead not found', 404);
+
+    return successResponse({ threads });
+  } catch (error) {
+    console.error('GET /api/leads/[id]/threads error:', error);
+    return errorResponse('Failed to fetch lead threads', 500);
+  }
+}
@@ -0,0 +1,62 @@
+import { GET } from './route';
+import { createLeadList, importLeads } from '@/lib/leadQueries';
+import { parseCsv } from '@/lib/csv';
+import { Lead } from '@/lib/schema';
+import { createTestSession, TestSession } from '@/test/testSession';
+
+let session: TestSession;
+
+const API_URL = 'http://localhost:3000/api/leads/suggest';
+
+const suggest = async (as: TestSession, query: string): Promise<Lead[]> => {
+  const response = await GET(as.request(`${API_URL}?${query}`));
+  expect(response.status).toBe(200);
+  return (await response.json()).leads;
+};
+
+describe('GET /api/leads/suggest', () => {
+  beforeAll(async () => {
+    session = await createTestSession();
+    const older = await createLeadList(session.user.id, 'Older');
+    await importLeads(
+      session.user.id,
+      older.id,
+      parseCsv([
+        'email,first name,company\n' +
+          'kim@suggest.test,Kim,Acme\n' +
+          'oakley@suggest.test,Oakley,Globex\n' +
+          'zed@suggest.test,Zed,Kimball Ltd\n',
+      ]),
+    );
+    const newer = await createLeadList(session.user.id, 'Newer');
+    await importLeads(
+      session.user.id,
+      newer.id,
+      parseCsv(['email,first name\nkim@suggest.test,Kimberly\njoakim@suggest.test,\n']),
+    );
+  });
+
+  it('ranks matches at the start first and lists each address once, as last imported', async () => {
+    const leads = await suggest(session, 'q=kim');
+    expect(leads.map(({ address, firstName }) => [address, firstName])).toEqual([
+      ['kim@suggest.test', 'Kimberly'],
+      ['zed@suggest.test', 'Zed'],
+      ['joakim@suggest.test', null],
+    ]);
+  });
+
+  it('matches first names and companies, ignoring case', async () => {
+    expect((await suggest(session, 'q=GLOBEX')).map(({ address }) => address)).toEqual([
+      'oakley@suggest.test',
+    ]);
+  });
+
+  it('returns nothing for a blank query or to another user', async () => {
+    expect(await suggest(session, 'q=%20')).toEqual([]);
+    expect(await suggest(await createTestSession(), 'q=kim')).toEqual([]);
+  });
+
+  it('rejects a limit out of range', async () => {
+    expect((await GET(session.request(`${API_URL}?q=kim&limit=0`))).status).toBe(400);
+  });
+});
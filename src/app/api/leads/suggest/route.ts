@@ -0,0 +1,42 @@
+/**
+ * Lead Suggestion API Route
+ * Finds leads on the signed-in user's lead lists from a partly typed name, address or company
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth';
+import { suggestLeads } from '@/lib/leadQueries';
+import { DEFAULT_CONTACT_SUGGESTIONS, MAX_CONTACT_SUGGESTIONS } from '@/types';
+
+// Helper functions for consistent responses
+const errorResponse = (error: string, status: number = 400) =>
+  NextResponse.json({ status: 'error', error }, { status });
+
+const successResponse = (data: object, status: number = 200) =>
+  NextResponse.json({ status: 'success', ...data }, { status });
+
+/**
+ * GET /api/leads/suggest?q=&limit=
+ * Returns up to `limit` leads whose address, first name or company contains q, matches at the
+ * start first and then the most recently imported; each address once. An empty q returns none
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) return errorResponse('Unauthorized', 401);
+
+    const { searchParams } = new URL(request.url);
+    const query = searchParams.get('q') ?? '';
+    const limitParam = searchParams.get('limit');
+    const limit = limitParam === null ? DEFAULT_CONTACT_SUGGESTIONS : Number(limitParam);
+    if (!/^\d+$/.test(limitParam ?? '0') || limit < 1 || limit > MAX_CONTACT_SUGGESTIONS) {
+      return errorResponse(`limit must be between 1 and ${MAX_CONTACT_SUGGESTIONS}`);
+    }
+
+    const leads = await suggestLeads(user.id, query, limit);
+    return successResponse({ leads });
+  } catch (error) {
+    console.error('GET /api/leads/suggest error:', error);
+    return errorResponse('Failed to suggest leads', 500);
+  }
+}
@@ -0,0 +1,120 @@
+/**
+ * Tests for Single Mailbox API Routes
+ */
+
+import { randomUUID } from 'crypto';
+import { PATCH, DELETE } from './route';
+import { db } from '@/lib/database';
+import { emails, Mailbox, mailboxes } from '@/lib/schema';
+import { createMailbox, findSenderMailbox } from '@/lib/mailboxQueries';
+import { eq } from 'drizzle-orm';
+import { createTestSession, TestSession } from '@/test/testSession';
+
+let session: TestSession;
+
+const THREAD_ID = 'mailbox-id-api-test-thread';
+
+describe('mailbox API', () => {
+  let mailbox: Mailbox;
+
+  const patch = (id: number | string, body: object) =>
+    PATCH(
+      session.request(`http://localhost:3000/api/mailboxes/${id}`, {
+        method: 'PATCH',
+        body: JSON.stringify(body),
+      }),
+      { params: Promise.resolve({ id: String(id) }) },
+    );
+
+  const remove = (id: number | string) =>
+    DELETE(session.request(`http://localhost:3000/api/mailboxes/${id}`, { method: 'DELETE' }), {
+      params: Promise.resolve({ id: String(id) }),
+    });
+
+  beforeAll(async () => {
+    session = await createTestSession();
+    mailbox = await createMailbox(session.user.id, {
+      address: `alias-${randomUUID()}@test.example`,
+    });
+  });
+
+  afterAll(async () => {
+    await db.delete(emails).where(eq(emails.threadId, THREAD_ID));
+  });
+
+  describe('PATCH /api/mailboxes/[id]', () => {
+    it('updates the display name and signature', async () => {
+      const response = await patch(mailbox.id, { displayName: 'Ana', signature: 'Cheers, Ana' });
+      expect(response.status).toBe(200);
+      expect((await response.json()).mailbox).toMatchObject({
+        address: mailbox.address,
+        displayName: 'Ana',
+        signature: 'Cheers, Ana',
+      });
+    });
+
+    it('clears a blank display name', async () => {
+      const body = await (await patch(mailbox.id, { displayName: '  ' })).json();
+      expect(body.mailbox).toMatchObject({ displayName: null, signature: 'Cheers, Ana' });
+    });
+
+    it('stores a sanitised HTML signature with its text', async () => {
+      const signatureHtml = '<p><b>Ana</b>\n  Lima<br>Sales</p><script>alert(1)</script>';
+      const body = await (await patch(mailbox.id, { signatureHtml })).json();
+      expect(body.mailbox).toMatchObject({
+        signature: 'Ana Lima\nSales',
+        signatureHtml: '<p><b>Ana</b>\n  Lima<br>Sales</p>',
+      });
+
+      const plain = await (await patch(mailbox.id, { signature: 'Cheers, Ana' })).json();
+      expect(plain.mailbox).toMatchObject({ signature: 'Cheers, Ana', signatureHtml: null });
+    });
+
+    it('requires something to update', async () => {
+      const response = await patch(mailbox.id, { address: 'new@test.example' });
+      expect(response.status).toBe(400);
+    });
+
+    it("returns 404 for another user's mailbox", async () => {
+      const other = await createTestSession();
+      const theirs = await findSenderMailbox(other.user.id);
+      const response = await patch(theirs!.id, { displayName: 'Hijacked' });
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('DELETE /api/mailboxes/[id]', () => {
+    it('refuses to remove the primary mailbox', async () => {
+      const primary = await findSenderMailbox(session.user.id);
+      const response = await remove(primary!.id);
+      expect(response.status).toBe(400);
+      expect((await response.json()).error).toBe('The primary address cannot be removed');
+    });
+
+    it('removes a mailbox and keeps its emails', async () => {
+      const [email] = await db
+        .insert(emails)
+        .values({
+          ownerId: session.user.id,
+          mailboxId: mailbox.id,
+          threadId: THREAD_ID,
+          subject: 'Kept',
+          from: 'someone@test.com',
+          to: mailbox.address,
+        })
+        .returning();
+
+      const response = await remove(mailbox.id);
+      expect(response.status).toBe(200);
+
+      expect(await db.select().from(mailboxes).where(eq(mailboxes.id, mailbox.id))).toEqual([]);
+      const [kept] = await db.select().from(emails).where(eq(emails.id, email.id));
+      expect(kept.mailboxId).toBeNull();
+    });
+
+    it('returns 404 for an unknown mailbox', async () => {
+      const response = await remove(mailbox.id);
+      expect(response.status).toBe(404);
+    });
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Single Mailbox API Routes
+ * Updates and removes the signed-in user's mailboxes
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth';
+import { deleteMailbox, MailboxError, updateMailbox } from '@/lib/mailboxQueries';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// Helper functions for consistent responses
+const errorResponse = (error: string, status: number = 400) =>
+  NextResponse.json({ status: 'error', error }, { status });
+
+const successResponse = (data: object, status: number = 200) =>
+  NextResponse.json({ status: 'success', ...data }, { status });
+
+/**
+ * PATCH /api/mailboxes/[id]
+ * Updates a mailbox's display name and/or signature, plain text or HTML (signatureHtml); the
+ * address cannot be changed
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams): Promise<NextResponse> {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) return errorResponse('Unauthorized', 401);
+
+    const mailboxId = parseInt((await params).id, 10);
+    if (isNaN(mailboxId)) return errorResponse('Invalid mailbox ID');
+
+    const { displayName, signature, signatureHtml } = await request.json();
+    if ([displayName, signature, signatureHtml].every((value) => value === undefined)) {
+      return errorResponse('Nothing to update - provide displayName and/or signature');
+    }
+
+    const mailbox = await updateMailbox(user.id, mailboxId, {
+      displayName,
+      signature,
+      signatureHtml,
+    });
+    if (!mailbox) return errorResponse('Mailbox not found', 404);
+
+    return successResponse({ mailbox });
+  } catch (error) {
+    console.error('PATCH /api/mailboxes error:', error);
+    return errorResponse('Failed to update mailbox', 500);
+  }
+}
+
+/**
+ * DELETE /api/mailboxes/[id]
+ * Removes a mailbox; its emails are kept. The primary mailbox cannot be removed
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams): Promise<NextResponse> {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) return errorResponse('Unauthorized', 401);
+
+    const mailboxId = parseInt((await params).id, 10);
+    if (isNaN(mailboxId)) return errorResponse('Invalid mailbox ID');
+
+    if (!(await deleteMailbox(user.id, mailboxId))) return errorResponse('Mailbox not found', 404);
+
+    return successResponse({ message: 'Mailbox removed' });
+  } catch (error) {
+    if (error instanceof MailboxError) return errorResponse(error.message);
+    console.error('DELETE /api/mailboxes error:', error);
+    return errorResponse('Failed to remove mailbox', 500);
+  }
+}
@@ -0,0 +1,131 @@
+/**
+ * Tests for Mailbox API Routes
+ */
+
+import { randomUUID } from 'crypto';
+import { NextRequest } from 'next/server';
+import { GET, POST } from './route';
+import { db } from '@/lib/database';
+import { emails, EmailDirection, Mailbox } from '@/lib/schema';
+import { eq } from 'drizzle-orm';
+import { MailboxWithCounts } from '@/types';
+import { createTestSession, TestSession } from '@/test/testSession';
+
+let session: TestSession;
+
+const API_URL = 'http://localhost:3000/api/mailboxes';
+const THREAD_ID = 'mailboxes-api-test-thread';
+
+// Test users and their mailboxes are deleted by the test setup
+const testAddress = (name: string) => `${name}-${randomUUID()}@test.example`;
+
+const post = (body: object) =>
+  POST(
+    session.request(API_URL, {
+      method: 'POST',
+      body: JSON.stringify(body),
+    }),
+  );
+
+describe('mailboxes API', () => {
+  beforeAll(async () => {
+    session = await createTestSession();
+  });
+
+  afterAll(async () => {
+    await db.delete(emails).where(eq(emails.threadId, THREAD_ID));
+  });
+
+  describe('POST /api/mailboxes', () => {
+    it('adds a mailbox with a lowercased address', async () => {
+      const address = testAddress('Sales');
+      const response = await post({
+        address: `  ${address.toUpperCase()} `,
+        displayName: ' Sales Team ',
+        signature: '-- \nThe Sales Team',
+      });
+      expect(response.status).toBe(201);
+
+      const body = await response.json();
+      expect(body.mailbox).toMatchObject({
+        ownerId: session.user.id,
+        address: address.toLowerCase(),
+        displayName: 'Sales Team',
+        signature: '-- \nThe Sales Team',
+      });
+    });
+
+    it('rejects an address that is already in use, by anyone', async () => {
+      const other = await createTestSession();
+      const response = await post({ address: other.user.email });
+      expect(response.status).toBe(409);
+      expect((await response.json()).error).toContain('already in use');
+    });
+
+    it('rejects invalid addresses', async () => {
+      const missing = await post({ displayName: 'Nobody' });
+      expect(missing.status).toBe(400);
+      expect((await missing.json()).error).toBe('Address is required');
+
+      const invalid = await post({ address: 'not-an-address' });
+      expect(invalid.status).toBe(400);
+      expect((await invalid.json()).error).toBe('Invalid email address');
+    });
+
+    it('requires a signed-in user', async () => {
+      const response = await POST(
+        new NextRequest(API_URL, { method: 'POST', body: JSON.stringify({ address: 'x@y.z' }) }),
+      );
+      expect(response.status).toBe(401);
+    });
+  });
+
+  describe('GET /api/mailboxes', () => {
+    it('lists the primary mailbox first', async () => {
+      const body = await (await GET(session.request(API_URL))).json();
+      expect(body.mailboxes[0].address).toBe(session.user.email);
+      expect(body.mailboxes.length).toBeGreaterThan(1);
+    });
+
+    it('counts unread inbox emails per mailbox', async () => {
+      const { mailbox } = await (await post({ address: testAddress('support') })).json();
+      await db.insert(emails).values(
+        [
+          { isRead: false, direction: EmailDirection.INCOMING },
+          { isRead: false, direction: EmailDirection.INCOMING, isArchived: true },
+          {
+            isRead: false,
+            direction: EmailDirection.INCOMING,
+            snoozedUntil: new Date(Date.now() + 60 * 60 * 1000),
+          },
+          { isRead: true, direction: EmailDirection.INCOMING },
+          { isRead: false, direction: EmailDirection.OUTGOING },
+        ].map((flags, i) => ({
+          ...flags,
+          ownerId: session.user.id,
+          mailboxId: mailbox.id,
+          threadId: THREAD_ID,
+          subject: `Counted ${i}`,
+          from: 'counts@test.com',
+          to: mailbox.address,
+        })),
+      );
+
+      const body = await (await GET(session.request(API_URL))).json();
+      const counted = body.mailboxes.find((m: MailboxWithCounts) => m.id === mailbox.id);
+      expect(counted.unreadCount).toBe(1);
+      expect(body.mailboxes[0].unreadCount).toBe(0);
+    });
+
+    it("leaves out other users' mailboxes", async () => {
+      const other = await createTestSession();
+      const body = await (await GET(session.request(API_URL))).json();
+      expect(body.mailboxes.map((m: Mailbox) => m.address)).not.toContain(other.user.email);
+    });
+
+    it('requires a signed-in user', async () => {
+      const response = await GET(new NextRequest(API_URL));
+      expect(response.status).toBe(401);
+    });
+  });
+});
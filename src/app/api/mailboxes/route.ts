@@ -0,0 +1,69 @@
+/**
+ * Mailbox API Routes
+ * Lists and adds the addresses the signed-in user sends and receives mail as
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth';
+import {
+  createMailbox,
+  fetchMailboxes,
+  findMailboxesByAddresses,
+  MailboxError,
+} from '@/lib/mailboxQueries';
+import { isValidEmail } from '@/lib/utils';
+
+// Helper functions for consistent responses
+const errorResponse = (error: string, status: number = 400) =>
+  NextResponse.json({ status: 'error', error }, { status });
+
+const successResponse = (data: object, status: number = 200) =>
+  NextResponse.json({ status: 'success', ...data }, { status });
+
+/**
+ * GET /api/mailboxes
+ * Returns all mailboxes, primary first, with per-mailbox unread counts
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) return errorResponse('Unauthorized', 401);
+
+    const mailboxes = await fetchMailboxes(user.id);
+    return successResponse({ mailboxes });
+  } catch (error) {
+    console.error('GET /api/mailboxes error:', error);
+    return errorResponse('Failed to fetch mailboxes', 500);
+  }
+}
+
+/**
+ * POST /api/mailboxes
+ * Adds a mailbox; 409 when the address already belongs to a mailbox
+ * An HTML signature (signatureHtml) is sanitised and replaces a plain-text one
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) return errorResponse('Unauthorized', 401);
+
+    const { address = '', displayName, signature, signatureHtml } = await request.json();
+    if (!address.trim()) return errorResponse('Address is required');
+    if (!isValidEmail(address)) return errorResponse('Invalid email address');
+    if ((await findMailboxesByAddresses([address])).length) {
+      return errorResponse(`The address ${address.trim().toLowerCase()} is already in use`, 409);
+    }
+
+    const mailbox = await createMailbox(user.id, {
+      address,
+      displayName,
+      signature,
+      signatureHtml,
+    });
+    return successResponse({ mailbox }, 201);
+  } catch (error) {
+    if (error instanceof MailboxError) return errorResponse(error.message);
+    console.error('POST /api/mailboxes error:', error);
+    return errorResponse('Failed to create mailbox', 500);
+  }
+}
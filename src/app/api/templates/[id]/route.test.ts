@@ -0,0 +1,114 @@
+import { NextRequest } from 'next/server';
+import { GET, PATCH, DELETE } from './route';
+import { createTemplate, fetchTemplate } from '@/lib/templateQueries';
+import { Template } from '@/types';
+import { createTestSession, TestSession } from '@/test/testSession';
+
+let session: TestSession;
+
+const templateUrl = (id: number | string) => `http://localhost:3000/api/templates/${id}`;
+const routeParams = (id: number | string) => ({ params: Promise.resolve({ id: String(id) }) });
+
+const get = (as: TestSession, id: number | string) =>
+  GET(as.request(templateUrl(id)), routeParams(id));
+
+const patch = (id: number | string, body: object) =>
+  PATCH(
+    session.request(templateUrl(id), { method: 'PATCH', body: JSON.stringify(body) }),
+    routeParams(id),
+  );
+
+const remove = (as: TestSession, id: number | string) =>
+  DELETE(as.request(templateUrl(id), { method: 'DELETE' }), routeParams(id));
+
+describe('template API', () => {
+  let template: Template;
+  let other: Template;
+
+  beforeAll(async () => {
+    session = await createTestSession();
+    template = await createTemplate(session.user.id, {
+      name: 'Follow-up',
+      subject: 'Checking in',
+      body: 'Hi {{firstName}}',
+      category: 'Sales',
+    });
+    other = await createTemplate(session.user.id, {
+      name: 'Other',
+      subject: '',
+      body: '',
+      category: null,
+    });
+  });
+
+  describe('GET /api/templates/[id]', () => {
+    it('Returns the template', async () => {
+      const response = await get(session, template.id);
+      expect(response.status).toBe(200);
+      expect((await response.json()).template).toMatchObject({ name: 'Follow-up' });
+    });
+
+    it("Hides other users' templates", async () => {
+      const stranger = await createTestSession();
+      expect((await get(stranger, template.id)).status).toBe(404);
+    });
+
+    it('Rejects an invalid ID', async () => {
+      expect((await get(session, 'abc')).status).toBe(400);
+    });
+
+    it('Requires a signed-in user', async () => {
+      const response = await GET(
+        new NextRequest(templateUrl(template.id)),
+        routeParams(template.id),
+      );
+      expect(response.status).toBe(401);
+    });
+  });
+
+  describe('PATCH /api/templates/[id]', () => {
+    it('Updates only the fields given', async () => {
+      const response = await patch(template.id, { body: 'Hello {{name | "there"}}' });
+      expect(response.status).toBe(200);
+      expect((await response.json()).template).toMatchObject({
+        name: 'Follow-up',
+        subject: 'Checking in',
+        body: 'Hello {{name | "there"}}',
+        category: 'Sales',
+      });
+    });
+
+    it('Renames and clears the category', async () => {
+      const response = await patch(template.id, { name: ' Check-in ', category: null });
+      expect((await response.json()).template).toMatchObject({ name: 'Check-in', category: null });
+    });
+
+    it("Rejects another template's name", async () => {
+      expect((await patch(template.id, { name: 'other' })).status).toBe(409);
+    });
+
+    it('Rejects unknown variables and empty updates', async () => {
+      const response = await patch(template.id, { subject: '{{deal}}' });
+      expect(response.status).toBe(400);
+      expect((await response.json()).details.fields.subject).toMatch(/^Unknown variable/);
+      expect((await patch(template.id, {})).status).toBe(400);
+    });
+
+    it('Returns 404 for a missing template', async () => {
+      expect((await patch(999999, { body: 'x' })).status).toBe(404);
+    });
+  });
+
+  describe('DELETE /api/templates/[id]', () => {
+    it("Does not delete other users' templates", async () => {
+      const stranger = await createTestSession();
+      expect((await remove(stranger, other.id)).status).toBe(404);
+    });
+
+    it('Deletes the template', async () => {
+      expect((await remove(session, other.id)).status).toBe(200);
+      expect(await fetchTemplate(session.user.id, other.id)).toBeUndefined();
+      expect((await remove(session, other.id)).status).toBe(404);
+    });
+  });
+});
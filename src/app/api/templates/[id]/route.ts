@@ -0,0 +1,113 @@
+/**
+ * Single Template API Routes
+ * Reads, edits and deletes the signed-in user's email templates
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth';
+import {
+  deleteTemplate,
+  fetchTemplate,
+  findTemplateByName,
+  updateTemplate,
+} from '@/lib/templateQueries';
+import { validateTemplateFields } from '@/lib/utils';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// Helper functions for consistent responses
+const errorResponse = (error: string, status: number = 400, details?: object) =>
+  NextResponse.json({ status: 'error', error, ...(details && { details }) }, { status });
+
+const successResponse = (data: object, status: number = 200) =>
+  NextResponse.json({ status: 'success', ...data }, { status });
+
+/**
+ * GET /api/templates/[id]
+ */
+export async function GET(request: NextRequest, { params }: RouteParams): Promise<NextResponse> {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) return errorResponse('Unauthorized', 401);
+
+    const templateId = parseInt((await params).id, 10);
+    if (isNaN(templateId)) return errorResponse('Invalid template ID');
+
+    const template = await fetchTemplate(user.id, templateId);
+    if (!template) return errorResponse('Template not found', 404);
+
+    return successResponse({ template });
+  } catch (error) {
+    console.error('GET /api/templates/[id] error:', error);
+    return errorResponse('Failed to fetch template', 500);
+  }
+}
+
+/**
+ * PATCH /api/templates/[id]
+ * Updates any of name, subject, body and category; invalid fields are a 400 with
+ * `details.fields`
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams): Promise<NextResponse> {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) return errorResponse('Unauthorized', 401);
+
+    const templateId = parseInt((await params).id, 10);
+    if (isNaN(templateId)) return errorResponse('Invalid template ID');
+
+    const { name, subject, body, category } = await request.json();
+    if ([name, subject, body, category].every((value) => value === undefined)) {
+      return errorResponse('Nothing to update - provide name, subject, body and/or category');
+    }
+    const isText = (value: unknown) => value === undefined || typeof value === 'string';
+    if (![name, subject, body].every(isText) || !(category === null || isText(category))) {
+      return errorResponse('Name, subject, body and category must be text');
+    }
+
+    const fields = validateTemplateFields({ name, subject, body, category });
+    const [fieldError] = Object.values(fields);
+    if (fieldError) return errorResponse(fieldError, 400, { fields });
+
+    if (name !== undefined && (await findTemplateByName(user.id, name.trim(), templateId))) {
+      return errorResponse(`A template named "${name.trim()}" already exists`, 409);
+    }
+
+    const template = await updateTemplate(user.id, templateId, {
+      ...(name !== undefined && { name: name.trim() }),
+      ...(subject !== undefined && { subject }),
+      ...(body !== undefined && { body }),
+      ...(category !== undefined && { category: category?.trim() || null }),
+    });
+    if (!template) return errorResponse('Template not found', 404);
+
+    return successResponse({ template });
+  } catch (error) {
+    console.error('PATCH /api/templates/[id] error:', error);
+    return errorResponse('Failed to update template', 500);
+  }
+}
+
+/**
+ * DELETE /api/templates/[id]
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams): Promise<NextResponse> {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) return errorResponse('Unauthorized', 401);
+
+    const templateId = parseInt((await params).id, 10);
+    if (isNaN(templateId)) return errorResponse('Invalid template ID');
+
+    if (!(await deleteTemplate(user.id, templateId))) {
+      return errorResponse('Template not found', 404);
+    }
+
+    return successResponse({ message: 'Template deleted' });
+  } catch (error) {
+    console.error('DELETE /api/templates/[id] error:', error);
+    return errorResponse('Failed to delete template', 500);
+  }
+}
@@ -0,0 +1,69 @@
+import { NextRequest } from 'next/server';
+import { POST } from './route';
+import { createTemplate, fetchTemplate } from '@/lib/templateQueries';
+import { Template } from '@/types';
+import { createTestSession, TestSession } from '@/test/testSession';
+
+let session: TestSession;
+
+const useUrl = (id: number | string) => `http://localhost:3000/api/templates/${id}/use`;
+const routeParams = (id: number | string) => ({ params: Promise.resolve({ id: String(id) }) });
+
+const use = (as: TestSession, id: number | string) =>
+  POST(as.request(useUrl(id), { method: 'POST' }), routeParams(id));
+
+describe('POST /api/templates/[id]/use', () => {
+  let template: Template;
+
+  beforeAll(async () => {
+    session = await createTestSession();
+    template = await createTemplate(session.user.id, {
+      name: 'Follow-up',
+      subject: 'Checking in',
+      body: 'Hi {{firstName}}',
+      category: 'Sales',
+    });
+  });
+
+  it('Counts each use and returns the template', async () => {
+    await use(session, template.id);
+    const response = await use(session, template.id);
+    expect(response.status).toBe(200);
+
+    const body = await response.json();
+    expect(body).toEqual({
+      status: 'success',
+      template: {
+        ...template,
+        useCount: 2,
+        lastUsedAt: expect.any(String),
+        createdAt: expect.any(String),
+        updatedAt: expect.any(String),
+      },
+    });
+  });
+
+  it("Does not count other users' templates", async () => {
+    const stranger = await createTestSession();
+    const response = await use(stranger, template.id);
+    expect(response.status).toBe(404);
+    expect((await response.json()).error).toBe('Template not found');
+    expect((await fetchTemplate(session.user.id, template.id))?.useCount).toBe(2);
+  });
+
+  it('Returns 404 for a missing template', async () => {
+    expect((await use(session, 999999)).status).toBe(404);
+  });
+
+  it('Rejects an invalid ID', async () => {
+    expect((await use(session, 'abc')).status).toBe(400);
+  });
+
+  it('Requires a signed-in user', async () => {
+    const response = await POST(
+      new NextRequest(useUrl(template.id), { method: 'POST' }),
+      routeParams(template.id),
+    );
+    expect(response.status).toBe(401);
+  });
+});
@@ -0,0 +1,41 @@
+/**
+ * Template Use API Route
+ * Counts a template as used when it is inserted into a message
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth';
+import { recordTemplateUse } from '@/lib/templateQueries';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// Helper functions for consistent responses
+const errorResponse = (error: string, status: number = 400) =>
+  NextResponse.json({ status: 'error', error }, { status });
+
+const successResponse = (data: object, status: number = 200) =>
+  NextResponse.json({ status: 'success', ...data }, { status });
+
+/**
+ * POST /api/templates/[id]/use
+ * Adds one to the template's use count and returns the template
+ */
+export async function POST(request: NextRequest, { params }: RouteParams): Promise<NextResponse> {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) return errorResponse('Unauthorized', 401);
+
+    const templateId = parseInt((await params).id, 10);
+    if (isNaN(templateId)) return errorResponse('Invalid template ID');
+
+    const template = await recordTemplateUse(user.id, templateId);
+    if (!template) return errorResponse('Template not found', 404);
+
+    return successResponse({ template });
+  } catch (error) {
+    console.error('POST /api/templates/[id]/use error:', error);
+    return errorResponse('Failed to record template use', 500);
+  }
+}
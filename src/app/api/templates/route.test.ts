@@ -0,0 +1,89 @@
+import { NextRequest } from 'next/server';
+import { GET, POST } from './route';
+import { createTemplate } from '@/lib/templateQueries';
+import { Template } from '@/types';
+import { createTestSession, TestSession } from '@/test/testSession';
+
+let session: TestSession;
+
+const API_URL = 'http://localhost:3000/api/templates';
+
+const post = (as: TestSession, body: object) =>
+  POST(as.request(API_URL, { method: 'POST', body: JSON.stringify(body) }));
+
+describe('templates API', () => {
+  beforeAll(async () => {
+    session = await createTestSession();
+  });
+
+  describe('POST /api/templates', () => {
+    it('Creates a template with a trimmed name and category', async () => {
+      const response = await post(session, {
+        name: '  Pricing  ',
+        subject: 'Pricing for {{company | "your team"}}',
+        body: '{Hi|Hello} {{firstName}},\n\nOur plans start at $10.',
+        category: ' Sales ',
+      });
+      expect(response.status).toBe(201);
+      expect((await response.json()).template).toMatchObject({
+        name: 'Pricing',
+        subject: 'Pricing for {{company | "your team"}}',
+        category: 'Sales',
+        useCount: 0,
+        lastUsedAt: null,
+      });
+    });
+
+    it('Leaves a blank category empty', async () => {
+      const response = await post(session, { name: 'Thanks', body: 'Thanks!', category: '  ' });
+      expect((await response.json()).template).toMatchObject({ subject: '', category: null });
+    });
+
+    it('Rejects a name already used, ignoring case', async () => {
+      const response = await post(session, { name: 'PRICING' });
+      expect(response.status).toBe(409);
+      expect((await response.json()).error).toBe('A template named "PRICING" already exists');
+    });
+
+    it('Reports unknown variables by field', async () => {
+      const response = await post(session, { name: 'Bad', body: 'Hi {{nickname}}' });
+      expect(response.status).toBe(400);
+      const { error, details } = await response.json();
+      expect(error).toMatch(/^Unknown variable \{\{nickname\}\}/);
+      expect(details.fields).toEqual({ body: error });
+    });
+
+    it('Rejects a missing name and fields that are not text', async () => {
+      expect((await post(session, { body: 'No name' })).status).toBe(400);
+      expect((await post(session, { name: 'Odd', body: 42 })).status).toBe(400);
+      expect((await post(session, { name: 'Odd', category: 7 })).status).toBe(400);
+    });
+  });
+
+  describe('GET /api/templates', () => {
+    it("Lists only the user's templates by category, uncategorised last", async () => {
+      const other = await createTestSession();
+      await createTemplate(other.user.id, {
+        name: 'Not mine',
+        subject: '',
+        body: '',
+        category: null,
+      });
+      await createTemplate(session.user.id, {
+        name: 'Intro',
+        subject: '',
+        body: '',
+        category: 'outreach',
+      });
+
+      const response = await GET(session.request(API_URL));
+      expect(response.status).toBe(200);
+      const { templates } = await response.json();
+      expect(templates.map(({ name }: Template) => name)).toEqual(['Intro', 'Pricing', 'Thanks']);
+    });
+
+    it('Requires a signed-in user', async () => {
+      expect((await GET(new NextRequest(API_URL))).status).toBe(401);
+    });
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * Template API Routes
+ * Lists and creates the signed-in user's email templates
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth';
+import { createTemplate, fetchTemplates, findTemplateByName } from '@/lib/templateQueries';
+import { validateTemplateFields } from '@/lib/utils';
+
+// Helper functions for consistent responses
+const errorResponse = (error: string, status: number = 400, details?: object) =>
+  NextResponse.json({ status: 'error', error, ...(details && { details }) }, { status });
+
+const successResponse = (data: object, status: number = 200) =>
+  NextResponse.json({ status: 'success', ...data }, { status });
+
+/**
+ * GET /api/templates
+ * Returns all templates, grouped by category and alphabetical within each
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) return errorResponse('Unauthorized', 401);
+
+    const templates = await fetchTemplates(user.id);
+    return successResponse({ templates });
+  } catch (error) {
+    console.error('GET /api/templates error:', error);
+    return errorResponse('Failed to fetch templates', 500);
+  }
+}
+
+/**
+ * POST /api/templates
+ * Creates a template; invalid fields, including unknown variables in the subject or body, are
+ * a 400 with `details.fields`
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) return errorResponse('Unauthorized', 401);
+
+    const { name = '', subject = '', body = '', category = null } = await request.json();
+    if (
+      [name, subject, body].some((value) => typeof value !== 'string') ||
+      (category !== null && typeof category !== 'string')
+    ) {
+      return errorResponse('Name, subject, body and category must be text');
+    }
+
+    const fields = validateTemplateFields({ name, subject, body, category });
+    const [fieldError] = Object.values(fields);
+    if (fieldError) return errorResponse(fieldError, 400, { fields });
+
+    if (await findTemplateByName(user.id, name.trim())) {
+      return errorResponse(`A template named "${name.trim()}" already exists`, 409);
+    }
+
+    const template = await createTemplate(user.id, {
+      name: name.trim(),
+      subject,
+      body,
+      category: category?.trim() || null,
+    });
+    return successResponse({ template }, 201);
+  } catch (error) {
+    console.error('POST /api/templates error:', error);
+    return errorResponse('Failed to create template', 500);
+  }
+}
@@ -17,6 +17,8 @@ const createDefaultStats = (total: number): EmailStats => ({
   important: 0,
   deleted: 0,
   sent: 0,
+  scheduled: 0,
+  archived: 0,
 });
 
 beforeEach(() => {
@@ -223,7 +225,7 @@ describe('Home Page Client', () => {
     const ui = (
       <ClientPage
         emails={emailList}
-        stats={{ total: emailList.length, unread: 0, important: 0, deleted: 0, sent: 0 }}
+        stats={createDefaultStats(emailList.length)}
       />
     );
     render(ui);
@@ -250,4 +252,191 @@ describe('Home Page Client', () => {
       { timeout: 3000 },
     );
   });
+
+  test('Offers the current list for export in each format', async () => {
+    (global.fetch as jest.Mock).mockImplementation(async () => ({
+      ok: true,
+      json: async () => ({ status: 'success', emails: [] }),
+    }));
+
+    render(<ClientPage emails={[]} stats={createDefaultStats(0)} />);
+    fireEvent.click(await screen.findByTestId('export-button'));
+
+    for (const format of ['mbox', 'eml', 'json']) {
+      const href = new URL(
+        (await screen.findByTestId(`export-${format}`)).getAttribute('href')!,
+        'http://localhost',
+      );
+      expect(href.pathname).toBe('/api/export');
+      expect(href.searchParams.get('format')).toBe(format);
+    }
+  });
+
+  test('Completes recipients from contacts and shows them as chips', async () => {
+    const contact = { id: 1, address: 'ana@example.com', name: 'Ana Lima', interactionCount: 3 };
+    (global.fetch as jest.Mock).mockImplementation(async (url: string) => ({
+      ok: true,
+      json: async () =>
+        url.startsWith('/api/contacts')
+          ? { status: 'success', contacts: [contact] }
+          : { status: 'success', emails: [] },
+    }));
+
+    render(<ClientPage emails={[]} stats={createDefaultStats(0)} />);
+    fireEvent.click(await screen.findByText('Compose'));
+
+    const toInput = await screen.findByTestId('composer-to');
+    fireEvent.change(toInput, { target: { value: 'ana' } });
+    await screen.findByText('ana@example.com');
+    expect((global.fetch as jest.Mock).mock.calls.map(([url]) => url)).toContain(
+      '/api/contacts/suggest?q=ana',
+    );
+
+    fireEvent.keyDown(toInput, { key: 'ArrowDown' });
+    fireEvent.keyDown(toInput, { key: 'Enter' });
+    fireEvent.change(toInput, { target: { value: 'bo@example.com,' } });
+
+    await waitFor(() =>
+      expect(screen.getAllByTestId('composer-to-chip').map((chip) => chip.textContent)).toEqual([
+        'Ana Lima',
+        'bo@example.com',
+      ]),
+    );
+  });
+
+  test('Inserts a template into the composer, keeping the recipients', async () => {
+    const template = {
+      id: 5,
+      name: 'Pricing',
+      subject: 'Pricing for {{company}}',
+      body: 'Hi {{firstName}}, here are our plans.',
+      category: 'Sales',
+      useCount: 2,
+    };
+    (global.fetch as jest.Mock).mockImplementation(async (url: string) => ({
+      ok: true,
+      json: async () =>
+        url.startsWith('/api/templates/5/use')
+          ? { status: 'success', template: { ...template, useCount: 3 } }
+          : url.startsWith('/api/templates')
+            ? { status: 'success', templates: [template] }
+            : { status: 'success', emails: [] },
+    }));
+
+    render(<ClientPage emails={[]} stats={createDefaultStats(0)} />);
+    fireEvent.click(await screen.findByText('Compose'));
+    fireEvent.change(await screen.findByTestId('composer-to'), {
+      target: { value: 'bo@example.com,' },
+    });
+
+    fireEvent.click(screen.getByTestId('composer-template-button'));
+    expect(await screen.findByText('Used 2 times')).toBeInTheDocument();
+    fireEvent.click(screen.getByText('Pricing'));
+
+    await waitFor(() =>
+      expect(screen.getByTestId('composer-subject')).toHaveValue('Pricing for {{company}}'),
+    );
+    expect(screen.getByTestId('composer-content')).toHaveValue(template.body);
+    expect(screen.getAllByTestId('composer-to-chip').map((chip) => chip.textContent)).toEqual([
+      'bo@example.com',
+    ]);
+    expect((global.fetch as jest.Mock).mock.calls.map(([url]) => url)).toContain(
+      '/api/templates/5/use',
+    );
+    // The template's variables are filled in for each recipient when it is sent
+    expect(screen.getByTestId('composer-personalise-button')).toHaveAttribute(
+      'aria-pressed',
+      'true',
+    );
+  });
+
+  test('Sends messages as written until personalising is turned on', async () => {
+    (global.fetch as jest.Mock).mockImplementation(async () => ({
+      ok: true,
+      json: async () => ({ status: 'success', emails: [] }),
+    }));
+
+    render(<ClientPage emails={[]} stats={createDefaultStats(0)} />);
+    fireEvent.click(await screen.findByText('Compose'));
+
+    const personalise = await screen.findByTestId('composer-personalise-button');
+    expect(personalise).toHaveAttribute('aria-pressed', 'false');
+    expect(screen.queryByTestId('composer-preview-button')).not.toBeInTheDocument();
+
+    fireEvent.click(personalise);
+    expect(personalise).toHaveAttribute('aria-pressed', 'true');
+    fireEvent.click(screen.getByTestId('composer-preview-button'));
+    expect(await screen.findByTestId('merge-preview')).toBeInTheDocument();
+  });
+
+  test('Signs a new message and swaps the signature when the sender changes', async () => {
+    const mailboxes = [
+      { id: 1, address: 'ana@example.com', displayName: 'Ana', signature: 'Ana Lima' },
+      { id: 2, address: 'sales@example.com', displayName: 'Sales', signature: 'The Sales Team' },
+    ];
+    (global.fetch as jest.Mock).mockImplementation(async (url: string) => ({
+      ok: true,
+      json: async () =>
+        url.startsWith('/api/mailboxes')
+          ? { status: 'success', mailboxes }
+          : { status: 'success', emails: [] },
+    }));
+
+    render(<ClientPage emails={[]} stats={createDefaultStats(0)} />);
+    fireEvent.click(await screen.findByText('Compose'));
+
+    const content = await screen.findByTestId('composer-content');
+    await waitFor(() => expect(content).toHaveValue('\n\n-- \nAna Lima'));
+
+    fireEvent.change(screen.getByTestId('composer-from'), {
+      target: { value: 'sales@example.com' },
+    });
+    await waitFor(() => expect(content).toHaveValue('\n\n-- \nThe Sales Team'));
+  });
+
+  test('Reopens a draft from the mailbox it was written from', async () => {
+    const mailboxes = [
+      { id: 1, address: 'ana@example.com', displayName: 'Ana', signature: null },
+      { id: 2, address: 'sales@example.com', displayName: 'Sales', signature: null },
+    ];
+    const [email] = await db.select().from(emails).orderBy(desc(emails.createdAt)).limit(1);
+    const draft = { ...email, isDraft: true, mailboxId: 2, subject: 'Half written' };
+    (global.fetch as jest.Mock).mockImplementation(async (url: string) => ({
+      ok: true,
+      json: async () =>
+        url.startsWith('/api/mailboxes')
+          ? { status: 'success', mailboxes }
+          : { status: 'success', emails: [draft] },
+    }));
+
+    render(<ClientPage emails={[draft]} stats={createDefaultStats(1)} />);
+    await screen.findByTestId('account-2');
+    fireEvent.click(await screen.findByTestId(`email-card-${draft.id}`));
+
+    expect(await screen.findByTestId('composer-subject')).toHaveValue('Half written');
+    expect(screen.getByTestId('composer-from')).toHaveValue('sales@example.com');
+  });
+
+  test('Opens a reply to the conversation in the composer', async () => {
+    const [email] = await db.select().from(emails).orderBy(desc(emails.createdAt)).limit(1);
+
+    // The thread and the list both hold just this email
+    (global.fetch as jest.Mock).mockImplementation(async () => ({
+      ok: true,
+      json: async () => ({ status: 'success', emails: [email] }),
+    }));
+
+    render(<ClientPage emails={[email]} stats={createDefaultStats(1)} />);
+    await act(async () => {
+      fireEvent.click(await screen.findByTestId(`email-card-${email.id}`));
+    });
+
+    fireEvent.click(await screen.findByLabelText('Reply'));
+
+    const subject = await screen.findByTestId('composer-subject');
+    expect((subject as HTMLInputElement).value).toMatch(/^re:/i);
+    expect((screen.getByTestId('composer-content') as HTMLTextAreaElement).value).toContain(
+      `${email.from} wrote:`,
+    );
+  });
 });
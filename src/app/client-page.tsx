@@ -6,13 +6,15 @@
 'use client';
 
 import React, { useState, useEffect, useRef, useTransition, useDeferredValue, useCallback } from 'react';
-import { Box, Chip, Typography, FormControlLabel, Switch } from '@mui/material';
-import { Email as EmailIcon } from '@mui/icons-material';
-import { Sidebar, EmailList, EmailViewer, ConversationViewer, EmailComposer, SearchBar } from '@/components';
+import { Box, Button, Chip, Typography, FormControlLabel, Switch } from '@mui/material';
+import { DeleteForever as DeleteForeverIcon, Email as EmailIcon } from '@mui/icons-material';
+import { Sidebar, EmailList, EmailViewer, ConversationViewer, EmailComposer, SearchBar, LabelDialog, MailboxDialog, ConfirmDialog, ExportMenu } from '@/components';
 import { EmailProvider, useEmailContext } from '@/context';
 import { useDelayedAction } from '@/hooks';
 import { QueryProvider } from '@/providers';
-import { Email, EmailStats } from '@/types';
+import { authService } from '@/services';
+import { Email, EmailSearchResult, EmailStats, LabelWithCounts, MailboxWithCounts, SessionUser } from '@/types';
+import { buildReplyFormData, getFilterTitle } from '@/lib/utils';
 
 function EmptyEmailState() {
   return (
@@ -30,28 +32,47 @@ function EmptyEmailState() {
   );
 }
 
-function EmailClientContent() {
+function EmailClientContent({ user }: { user?: SessionUser }) {
   const {
     emails,
     selectedEmail,
     activeFilter,
     searchQuery,
     isLoading,
+    hasMoreEmails,
+    isLoadingMore,
     error,
     isThreaded,
     stats,
+    labels,
+    mailboxes,
+    activeAccount,
     setSelectedEmail,
     setActiveFilter,
+    setActiveAccount,
     setSearchQuery,
     setIsThreaded,
     refreshEmails,
+    loadMoreEmails,
     deleteEmail,
     restoreEmail,
+    deleteForever,
+    emptyTrash,
     markAsRead,
     toggleImportant,
+    toggleLabel,
+    snoozeEmail,
+    archiveEmail,
   } = useEmailContext();
 
   const [isComposerOpen, setIsComposerOpen] = useState(false);
+  // Draft reopened in the composer; null for a new message
+  const [composerDraft, setComposerDraft] = useState<EmailSearchResult | null>(null);
+  // Email being replied to in the composer; null unless replying
+  const [replyTo, setReplyTo] = useState<Email | null>(null);
+  const [isLabelDialogOpen, setIsLabelDialogOpen] = useState(false);
+  const [isMailboxDialogOpen, setIsMailboxDialogOpen] = useState(false);
+  const [isConfirmingEmptyTrash, setIsConfirmingEmptyTrash] = useState(false);
   const [isFilterPending, startTransition] = useTransition();
   const deferredEmails = useDeferredValue(emails);
   const deferredFilter = useDeferredValue(activeFilter);
@@ -78,20 +99,58 @@ function EmailClientContent() {
     1000,
   );
 
+  // Drafts open in the composer rather than the viewer
+  const handleEmailSelect = useCallback(
+    (email: EmailSearchResult | null) => {
+      if (!email?.isDraft) return setSelectedEmail(email);
+      setComposerDraft(email);
+      setReplyTo(null);
+      setIsComposerOpen(true);
+    },
+    [setSelectedEmail],
+  );
+
+  const openComposer = useCallback(() => {
+    setComposerDraft(null);
+    setReplyTo(null);
+    setIsComposerOpen(true);
+  }, []);
+
+  // Replies continue the thread, quoting the email and sending from the mailbox it came to
+  const handleReply = useCallback((email: Email) => {
+    setComposerDraft(null);
+    setReplyTo(email);
+    setIsComposerOpen(true);
+  }, []);
+
+  // A full load, so no cached mail outlives the session
+  const handleSignOut = useCallback(async () => {
+    await authService.logout();
+    window.location.assign('/login');
+  }, []);
+
   return (
     <Box sx={{ display: 'flex', height: '100vh', overflow: 'hidden' }}>
       <Sidebar
         activeFilter={activeFilter}
         onFilterChange={(filter) => startTransition(() => setActiveFilter(filter))}
-        onComposeClick={() => setIsComposerOpen(true)}
+        onComposeClick={openComposer}
         stats={stats}
+        labels={labels}
+        onCreateLabel={() => setIsLabelDialogOpen(true)}
+        mailboxes={mailboxes}
+        activeAccount={activeAccount}
+        onAccountChange={(account) => startTransition(() => setActiveAccount(account))}
+        onAddAccount={() => setIsMailboxDialogOpen(true)}
+        user={user}
+        onSignOut={handleSignOut}
       />
 
       {/* Email List Panel */}
       <Box sx={{ width: 400, borderRight: '1px solid', borderRightColor: 'divider', display: 'flex', flexDirection: 'column', backgroundColor: 'background.paper' }}>
         <Box sx={{ p: 2, borderBottom: '1px solid', borderBottomColor: 'divider' }}>
           <Typography variant="h5" sx={{ fontWeight: 600, mb: 2, color: 'text.primary' }}>
-            {activeFilter.charAt(0).toUpperCase() + activeFilter.slice(1)}
+            {getFilterTitle(activeFilter)}
           </Typography>
           <Box sx={{ display: 'flex', gap: 2, mb: 2, flexWrap: 'wrap' }}>
             <Chip label={`${stats.total} Total`} size="small" color="primary" variant="outlined" />
@@ -109,6 +168,15 @@ function EmailClientContent() {
             }
             label={<Typography variant="caption" color="text.secondary">Group by thread</Typography>}
           />
+          <ExportMenu
+            params={{ filter: activeFilter, query: searchQuery.trim() || undefined, threaded: isThreaded || undefined, account: activeAccount ?? undefined }}
+            tooltip={searchQuery.trim() ? 'Export search results' : 'Export'}
+          />
+          {isTrash && stats.deleted > 0 && (
+            <Button size="small" color="error" startIcon={<DeleteForeverIcon />} onClick={() => setIsConfirmingEmptyTrash(true)} data-testid="empty-trash-button">
+              Empty trash
+            </Button>
+          )}
         </Box>
         <Box sx={{ p: 2, borderBottom: '1px solid', borderBottomColor: 'divider' }}>
           <SearchBar
@@ -120,10 +188,13 @@ function EmailClientContent() {
         <EmailList
           emails={deferredEmails}
           selectedEmailId={selectedEmail?.id ?? null}
-          onEmailSelect={setSelectedEmail}
+          onEmailSelect={handleEmailSelect}
           isLoading={isLoading}
           isPending={isPending}
           error={error}
+          hasMore={hasMoreEmails}
+          isLoadingMore={isLoadingMore}
+          onLoadMore={loadMoreEmails}
         />
       </Box>
 
@@ -138,8 +209,14 @@ function EmailClientContent() {
               onClose={() => setSelectedEmail(null)}
               onDelete={deleteEmail}
               onToggleImportant={toggleImportant}
+              onReply={handleReply}
               onRestore={restoreEmail}
+              onDeleteForever={deleteForever}
               isTrash={isTrash}
+              labels={labels}
+              onToggleLabel={toggleLabel}
+              onSnooze={snoozeEmail}
+              onArchive={archiveEmail}
             />
           ) : (
             <EmailViewer
@@ -147,8 +224,14 @@ function EmailClientContent() {
               onClose={() => setSelectedEmail(null)}
               onDelete={deleteEmail}
               onToggleImportant={toggleImportant}
+              onReply={handleReply}
               onRestore={restoreEmail}
+              onDeleteForever={deleteForever}
               isTrash={isTrash}
+              labels={labels}
+              onToggleLabel={toggleLabel}
+              onSnooze={snoozeEmail}
+              onArchive={archiveEmail}
             />
           )
         ) : (
@@ -156,16 +239,74 @@ function EmailClientContent() {
         )}
       </Box>
 
-      {isComposerOpen && <EmailComposer onClose={() => setIsComposerOpen(false)} onSent={refreshEmails} />}
+      {isComposerOpen && (
+        <EmailComposer
+          key={composerDraft?.id ?? (replyTo ? `reply-${replyTo.id}` : 'new')}
+          onClose={() => setIsComposerOpen(false)}
+          onSent={refreshEmails}
+          draftId={composerDraft?.id}
+          threadId={composerDraft?.threadId ?? replyTo?.threadId}
+          from={
+            mailboxes.find(
+              (mailbox) =>
+                mailbox.id ===
+                (composerDraft ? composerDraft.mailboxId : (replyTo?.mailboxId ?? activeAccount)),
+            )?.address
+          }
+          initialData={
+            composerDraft
+              ? {
+                  subject: composerDraft.subject,
+                  to: composerDraft.to,
+                  cc: composerDraft.cc ?? '',
+                  bcc: composerDraft.bcc ?? '',
+                  content: composerDraft.content ?? '',
+                }
+              : replyTo
+                ? buildReplyFormData(replyTo)
+                : undefined
+          }
+        />
+      )}
+      <LabelDialog open={isLabelDialogOpen} onClose={() => setIsLabelDialogOpen(false)} />
+      <MailboxDialog open={isMailboxDialogOpen} onClose={() => setIsMailboxDialogOpen(false)} />
+      <ConfirmDialog
+        open={isConfirmingEmptyTrash}
+        title="Empty trash?"
+        message={`All ${stats.deleted} emails in the trash and their attachments will be permanently deleted. This cannot be undone.`}
+        confirmLabel="Empty trash"
+        onConfirm={emptyTrash}
+        onClose={() => setIsConfirmingEmptyTrash(false)}
+      />
     </Box>
   );
 }
 
-export default function ClientPage({ emails: initialEmails, stats: initialStats }: { emails: Email[]; stats: EmailStats }) {
+export default function ClientPage({
+  emails: initialEmails,
+  nextCursor: initialNextCursor,
+  stats: initialStats,
+  labels: initialLabels,
+  mailboxes: initialMailboxes,
+  user,
+}: {
+  emails: EmailSearchResult[];
+  nextCursor?: string | null;
+  stats: EmailStats;
+  labels?: LabelWithCounts[];
+  mailboxes?: MailboxWithCounts[];
+  user?: SessionUser;
+}) {
   return (
     <QueryProvider>
-      <EmailProvider initialEmails={initialEmails} initialStats={initialStats}>
-        <EmailClientContent />
+      <EmailProvider
+        initialEmails={initialEmails}
+        initialNextCursor={initialNextCursor}
+        initialStats={initialStats}
+        initialLabels={initialLabels}
+        initialMailboxes={initialMailboxes}
+      >
+        <EmailClientContent user={user} />
       </EmailProvider>
     </QueryProvider>
   );
@@ -0,0 +1,15 @@
+import React from 'react';
+import { redirect } from 'next/navigation';
+import { LeadListBrowser } from '@/components';
+import { getCurrentUser } from '@/lib/auth';
+import { QueryProvider } from '@/providers';
+
+export default async function Leads() {
+  if (!(await getCurrentUser())) redirect('/login');
+
+  return (
+    <QueryProvider>
+      <LeadListBrowser />
+    </QueryProvider>
+  );
+}
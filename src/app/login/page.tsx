@@ -0,0 +1,15 @@
+import React from 'react';
+import { redirect } from 'next/navigation';
+import { Box } from '@mui/material';
+import { LoginForm } from '@/components';
+import { getCurrentUser } from '@/lib/auth';
+
+export default async function Login() {
+  if (await getCurrentUser()) redirect('/');
+
+  return (
+    <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', height: '100vh' }}>
+      <LoginForm />
+    </Box>
+  );
+}
@@ -1,7 +1,12 @@
 import React, { Suspense } from 'react';
+import { redirect } from 'next/navigation';
 import ClientPage from '@/app/client-page';
+import { getCurrentUser } from '@/lib/auth';
 import { fetchEmails } from '@/lib/emailQueries';
+import { SearchQueryError } from '@/lib/searchQuery';
 import { fetchStats } from '@/lib/statsQueries';
+import { fetchLabels } from '@/lib/labelQueries';
+import { fetchMailboxes } from '@/lib/mailboxQueries';
 import { EmailFilter } from '@/types';
 import { Box, CircularProgress } from '@mui/material';
 
@@ -18,30 +23,51 @@ interface PageProps {
     filter?: string;
     q?: string;
     threaded?: string;
+    account?: string;
   }>;
 }
 
 export default async function Home({ searchParams }: PageProps) {
+  const user = await getCurrentUser();
+  if (!user) redirect('/login');
+
   const params = await searchParams;
 
   // Parse URL params with defaults
   const filter = (params.filter as EmailFilter) || 'inbox';
   const query = params.q || '';
   const threaded = params.threaded !== 'false'; // Default to true
+  const account = /^\d+$/.test(params.account ?? '') ? Number(params.account) : undefined;
 
   // Fetch emails using URL params
-  const emailList = await fetchEmails({
+  // A malformed search query renders an empty list; the search bar shows the parse error
+  const emailPage = await fetchEmails(user.id, {
     filter,
     query: query || undefined,
     threaded,
+    account,
+  }).catch((error) => {
+    if (error instanceof SearchQueryError) return { emails: [], nextCursor: null };
+    throw error;
   });
 
-  // Fetch stats for sidebar counters
-  const stats = await fetchStats();
+  // Fetch stats, labels and accounts for sidebar counters
+  const [stats, labels, mailboxes] = await Promise.all([
+    fetchStats(user.id),
+    fetchLabels(user.id),
+    fetchMailboxes(user.id),
+  ]);
 
   return (
     <Suspense fallback={<LoadingFallback />}>
-      <ClientPage emails={emailList} stats={stats} />
+      <ClientPage
+        emails={emailPage.emails}
+        nextCursor={emailPage.nextCursor}
+        stats={stats}
+        labels={labels}
+        mailboxes={mailboxes}
+        user={user}
+      />
     </Suspense>
   );
 }
@@ -0,0 +1,123 @@
+/**
+ * Attachment List Component
+ * Attachments of an email with inline previews for images and PDFs
+ */
+
+'use client';
+
+import React from 'react';
+import { Box, Card, CardActionArea, Typography, Tooltip, IconButton } from '@mui/material';
+import { Download as DownloadIcon, InsertDriveFile as FileIcon } from '@mui/icons-material';
+import { Attachment, PREVIEWABLE_IMAGE_TYPES, PREVIEWABLE_PDF_TYPE } from '@/types';
+import { getAttachmentUrl } from '@/services';
+import { formatFileSize } from '@/lib/utils';
+
+interface AttachmentListProps {
+  attachments: Attachment[];
+}
+
+const PREVIEW_HEIGHT = 120;
+
+/**
+ * Preview area of an attachment card - the image itself, the first PDF page, or a file icon
+ */
+const AttachmentPreview: React.FC<{ attachment: Attachment; url: string }> = ({
+  attachment,
+  url,
+}) => {
+  if (PREVIEWABLE_IMAGE_TYPES.includes(attachment.mimeType)) {
+    return (
+      <Box
+        component="img"
+        src={url}
+        alt={attachment.filename}
+        loading="lazy"
+        sx={{ width: '100%', height: PREVIEW_HEIGHT, objectFit: 'cover', display: 'block' }}
+      />
+    );
+  }
+
+  if (attachment.mimeType === PREVIEWABLE_PDF_TYPE) {
+    return (
+      <Box
+        component="iframe"
+        src={`${url}#toolbar=0&view=FitH`}
+        title={attachment.filename}
+        loading="lazy"
+        sx={{
+          width: '100%',
+          height: PREVIEW_HEIGHT,
+          border: 0,
+          display: 'block',
+          // Clicks go to the card link rather than the embedded viewer
+          pointerEvents: 'none',
+        }}
+      />
+    );
+  }
+
+  return (
+    <Box
+      sx={{
+        height: PREVIEW_HEIGHT,
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        backgroundColor: 'action.hover',
+      }}
+    >
+      <FileIcon sx={{ fontSize: 48, color: 'text.secondary' }} />
+    </Box>
+  );
+};
+
+const AttachmentList: React.FC<AttachmentListProps> = ({ attachments }) => {
+  if (!attachments.length) return null;
+
+  return (
+    <Box sx={{ mt: 2 }} data-testid="attachment-list">
+      <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mb: 1 }}>
+        {attachments.length} {attachments.length === 1 ? 'attachment' : 'attachments'}
+      </Typography>
+      <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1.5 }}>
+        {attachments.map((attachment) => {
+          const url = getAttachmentUrl(attachment.emailId, attachment.id);
+          return (
+            <Card
+              key={attachment.id}
+              variant="outlined"
+              sx={{ width: 180 }}
+              data-testid={`attachment-${attachment.id}`}
+            >
+              <CardActionArea component="a" href={url} target="_blank" rel="noopener noreferrer">
+                <AttachmentPreview attachment={attachment} url={url} />
+              </CardActionArea>
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5, px: 1, py: 0.5 }}>
+                <Box sx={{ flex: 1, minWidth: 0 }}>
+                  <Typography variant="body2" noWrap title={attachment.filename}>
+                    {attachment.filename}
+                  </Typography>
+                  <Typography variant="caption" color="text.secondary">
+                    {formatFileSize(attachment.size)}
+                  </Typography>
+                </Box>
+                <Tooltip title="Download">
+                  <IconButton
+                    size="small"
+                    component="a"
+                    href={getAttachmentUrl(attachment.emailId, attachment.id, true)}
+                    download={attachment.filename}
+                  >
+                    <DownloadIcon fontSize="small" />
+                  </IconButton>
+                </Tooltip>
+              </Box>
+            </Card>
+          );
+        })}
+      </Box>
+    </Box>
+  );
+};
+
+export default AttachmentList;
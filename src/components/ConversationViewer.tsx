@@ -6,16 +6,17 @@
 'use client';
 
 import React from 'react';
-import { Box, Typography, Chip, CircularProgress } from '@mui/material';
-import { Email, EmailFilter } from '@/types';
+import { Box, Typography, Chip, CircularProgress, Button } from '@mui/material';
+import { Email, EmailFilter, EmailSearchResult, Label } from '@/types';
 import { useThreadQuery } from '@/hooks';
 import { EmailToolbarActions } from './EmailToolbarActions';
 import { ViewerToolbar } from './ViewerToolbar';
+import ConfirmDialog from './ConfirmDialog';
 import EmailMessage from './EmailMessage';
 
 interface ConversationViewerProps {
   /** The selected email (latest in thread when grouped) */
-  email: Email;
+  email: EmailSearchResult;
   /** Whether threading/grouping is enabled */
   isThreaded: boolean;
   /** Current filter/view */
@@ -29,7 +30,14 @@ interface ConversationViewerProps {
   ) => void;
   onReply?: (email: Email) => void;
   onRestore?: (emailId: number, threadId?: string) => void;
+  /** Permanently deletes from the trash, after confirmation */
+  onDeleteForever?: (emailId: number, threadId?: string) => void;
   isTrash?: boolean;
+  /** All labels, for the label menu */
+  labels?: Label[];
+  onToggleLabel?: (emailId: number, label: Label, applied: boolean) => void;
+  onSnooze?: (emailId: number, snoozedUntil: Date | null, threadId?: string) => void;
+  onArchive?: (emailId: number, isArchived: boolean, threadId?: string) => void;
 }
 
 const ConversationViewer: React.FC<ConversationViewerProps> = ({
@@ -41,13 +49,21 @@ const ConversationViewer: React.FC<ConversationViewerProps> = ({
   onToggleImportant,
   onReply,
   onRestore,
+  onDeleteForever,
   isTrash = false,
+  labels,
+  onToggleLabel,
+  onSnooze,
+  onArchive,
 }) => {
   // Fetch emails in the thread, filtered by current view
   const {
     data: threadEmails = [],
     isLoading,
     isFetched,
+    hasNextPage,
+    fetchNextPage,
+    isFetchingNextPage,
   } = useThreadQuery({
     threadId: isThreaded ? email.threadId : null,
     enabled: isThreaded,
@@ -73,6 +89,7 @@ const ConversationViewer: React.FC<ConversationViewerProps> = ({
 
   const latestEmail = emailsToShow.length > 0 ? emailsToShow[emailsToShow.length - 1] : email;
   const messageCount = emailsToShow.length;
+  const [isConfirmingDelete, setIsConfirmingDelete] = React.useState(false);
 
   return (
     <Box
@@ -85,7 +102,7 @@ const ConversationViewer: React.FC<ConversationViewerProps> = ({
       data-testid="email-viewer"
     >
       {/* Toolbar */}
-      <ViewerToolbar onClose={onClose}>
+      <ViewerToolbar onClose={onClose} exportThreadId={email.threadId}>
         {isThreaded && messageCount > 1 && (
           <Chip
             label={`${messageCount} messages`}
@@ -99,13 +116,59 @@ const ConversationViewer: React.FC<ConversationViewerProps> = ({
           onToggleImportant={() => onToggleImportant(latestEmail.id, latestEmail.isImportant)}
           onDelete={() => onDelete(latestEmail.id, latestEmail.threadId, filter)}
           onRestore={onRestore ? () => onRestore(latestEmail.id, latestEmail.threadId) : undefined}
+          onDeleteForever={onDeleteForever ? () => setIsConfirmingDelete(true) : undefined}
           onReply={onReply ? () => onReply(latestEmail) : undefined}
           isTrash={isTrash}
           deleteTooltip="Delete conversation"
           restoreTooltip="Restore conversation"
+          deleteForeverTooltip="Delete conversation forever"
+          labels={labels}
+          appliedLabelIds={latestEmail.labels?.map((label) => label.id)}
+          onToggleLabel={
+            onToggleLabel
+              ? (label, applied) => onToggleLabel(latestEmail.id, label, applied)
+              : undefined
+          }
+          onSnooze={
+            onSnooze
+              ? (snoozedUntil) =>
+                  onSnooze(
+                    latestEmail.id,
+                    snoozedUntil,
+                    isThreaded ? latestEmail.threadId : undefined,
+                  )
+              : undefined
+          }
+          onArchive={
+            onArchive
+              ? (isArchived) =>
+                  onArchive(
+                    latestEmail.id,
+                    isArchived,
+                    isThreaded ? latestEmail.threadId : undefined,
+                  )
+              : undefined
+          }
         />
       </ViewerToolbar>
 
+      {onDeleteForever && (
+        <ConfirmDialog
+          open={isConfirmingDelete}
+          title={isThreaded ? 'Delete conversation forever?' : 'Delete forever?'}
+          message={
+            isThreaded
+              ? 'The messages of this conversation in the trash and their attachments will be permanently deleted. This cannot be undone.'
+              : 'This email and its attachments will be permanently deleted. This cannot be undone.'
+          }
+          confirmLabel="Delete forever"
+          onConfirm={() =>
+            onDeleteForever(latestEmail.id, isThreaded ? latestEmail.threadId : undefined)
+          }
+          onClose={() => setIsConfirmingDelete(false)}
+        />
+      )}
+
       {/* Thread Subject */}
       <Box sx={{ p: 3, borderBottom: '1px solid', borderBottomColor: 'divider' }}>
         <Typography
@@ -148,6 +211,18 @@ const ConversationViewer: React.FC<ConversationViewerProps> = ({
             />
           ))
         )}
+        {isThreaded && hasNextPage && (
+          <Box sx={{ display: 'flex', justifyContent: 'center' }}>
+            <Button
+              size="small"
+              onClick={() => fetchNextPage()}
+              disabled={isFetchingNextPage}
+              data-testid="load-more-messages-button"
+            >
+              {isFetchingNextPage ? 'Loading...' : 'Load more messages'}
+            </Button>
+          </Box>
+        )}
       </Box>
     </Box>
   );
@@ -0,0 +1,91 @@
+/**
+ * Date Time Menu Component
+ * Menu of preset dates with a custom date and time picker underneath
+ */
+
+'use client';
+
+import React, { useState } from 'react';
+import {
+  Box,
+  Button,
+  Divider,
+  ListItemText,
+  ListSubheader,
+  Menu,
+  MenuItem,
+  TextField,
+} from '@mui/material';
+import { DatePreset } from '@/types';
+import { formatShortDate, toDateTimeInputValue } from '@/lib/utils';
+
+interface DateTimeMenuProps {
+  anchorEl: HTMLElement | null;
+  onClose: () => void;
+  title: string;
+  presets: DatePreset[];
+  /** Called with the chosen date; the menu closes itself */
+  onSelect: (date: Date) => void;
+  /** Label of the custom picker's confirm button */
+  confirmLabel: string;
+}
+
+const DateTimeMenu: React.FC<DateTimeMenuProps> = ({
+  anchorEl,
+  onClose,
+  title,
+  presets,
+  onSelect,
+  confirmLabel,
+}) => {
+  const [customValue, setCustomValue] = useState('');
+  const minValue = toDateTimeInputValue(new Date());
+  const isCustomValid = !!customValue && new Date(customValue) > new Date();
+
+  const select = (date: Date) => {
+    onSelect(date);
+    setCustomValue('');
+    onClose();
+  };
+
+  return (
+    <Menu
+      anchorEl={anchorEl}
+      open={Boolean(anchorEl)}
+      onClose={onClose}
+      MenuListProps={{ dense: true, subheader: <ListSubheader>{title}</ListSubheader> }}
+      data-testid="date-time-menu"
+    >
+      {presets.map((preset) => (
+        <MenuItem key={preset.label} onClick={() => select(preset.date)}>
+          <ListItemText primary={preset.label} secondary={formatShortDate(preset.date)} />
+        </MenuItem>
+      ))}
+      <Divider />
+      <Box
+        sx={{ px: 2, py: 1, display: 'flex', gap: 1, alignItems: 'center' }}
+        // Keep typing in the picker from triggering the menu's type-ahead
+        onKeyDown={(event) => event.stopPropagation()}
+      >
+        <TextField
+          type="datetime-local"
+          size="small"
+          value={customValue}
+          onChange={(event) => setCustomValue(event.target.value)}
+          inputProps={{ min: minValue, 'data-testid': 'date-time-menu-input' }}
+        />
+        <Button
+          size="small"
+          variant="contained"
+          disabled={!isCustomValid}
+          onClick={() => select(new Date(customValue))}
+          data-testid="date-time-menu-confirm"
+        >
+          {confirmLabel}
+        </Button>
+      </Box>
+    </Menu>
+  );
+};
+
+export default DateTimeMenu;
@@ -0,0 +1,82 @@
+/**
+ * Delivery Status Chip Component
+ * Shows whether an outgoing email is still sending, was delivered, or failed - failed
+ * deliveries explain why in a tooltip and can be retried by clicking the chip
+ */
+
+'use client';
+
+import React from 'react';
+import { Chip, Tooltip } from '@mui/material';
+import {
+  CheckCircleOutline as SentIcon,
+  ErrorOutline as FailedIcon,
+  HourglassEmpty as QueuedIcon,
+} from '@mui/icons-material';
+import { DeliveryStatus, Email } from '@/types';
+import { useRetryDelivery } from '@/hooks';
+import { formatShortDate } from '@/lib/utils';
+
+interface DeliveryStatusChipProps {
+  email: Pick<Email, 'id' | 'deliveryStatus' | 'deliveryError' | 'nextDeliveryAt'>;
+}
+
+const iconSx = { fontSize: '0.9rem !important' };
+
+const DeliveryStatusChip: React.FC<DeliveryStatusChipProps> = ({ email }) => {
+  const retryMutation = useRetryDelivery();
+
+  switch (email.deliveryStatus) {
+    case DeliveryStatus.QUEUED:
+      return (
+        <Chip
+          icon={<QueuedIcon sx={iconSx} />}
+          label="Sending…"
+          size="small"
+          variant="outlined"
+          sx={{ height: 20 }}
+          data-testid="delivery-status"
+        />
+      );
+    case DeliveryStatus.SENT:
+      return (
+        <Chip
+          icon={<SentIcon sx={iconSx} />}
+          label="Delivered"
+          size="small"
+          color="success"
+          variant="outlined"
+          sx={{ height: 20 }}
+          data-testid="delivery-status"
+        />
+      );
+    case DeliveryStatus.FAILED: {
+      const retry = email.nextDeliveryAt
+        ? `Retrying ${formatShortDate(email.nextDeliveryAt)}`
+        : 'Not retrying';
+      return (
+        <Tooltip
+          title={`${retryMutation.error?.message ?? email.deliveryError ?? 'Delivery failed'}. ${retry} - click to send now`}
+        >
+          <Chip
+            icon={<FailedIcon sx={iconSx} />}
+            label="Not delivered"
+            size="small"
+            color="error"
+            sx={{ height: 20 }}
+            onClick={(e) => {
+              e.stopPropagation();
+              retryMutation.mutate(email.id);
+            }}
+            disabled={retryMutation.isPending}
+            data-testid="delivery-status"
+          />
+        </Tooltip>
+      );
+    }
+    default:
+      return null;
+  }
+};
+
+export default DeliveryStatusChip;
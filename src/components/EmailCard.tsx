@@ -5,14 +5,15 @@
 
 import React from 'react';
 import { Card, CardContent, Typography, Box } from '@mui/material';
-import { Star } from '@mui/icons-material';
-import { Email } from '@/types';
+import { Star, AttachFile as AttachFileIcon } from '@mui/icons-material';
+import { EmailSearchResult } from '@/types';
 import { EmailAvatar } from './EmailAvatar';
 import { StatusChips } from './StatusChips';
-import { formatCompactDate, truncateText } from '@/lib/utils';
+import { LabelChips } from './LabelChips';
+import { formatCompactDate, truncateText, splitHighlights } from '@/lib/utils';
 
 interface EmailCardProps {
-  email: Email;
+  email: EmailSearchResult;
   isSelected?: boolean;
   onClick?: () => void;
 }
@@ -59,9 +60,15 @@ const EmailCard: React.FC<EmailCardProps> = ({ email, isSelected = false, onClic
                   whiteSpace: 'nowrap',
                 }}
               >
-                {email.subject}
+                {email.subject || '(no subject)'}
               </Typography>
               {email.isImportant && <Star sx={{ color: 'warning.main', fontSize: '1rem' }} />}
+              {!!email.attachments?.length && (
+                <AttachFileIcon
+                  sx={{ color: 'text.secondary', fontSize: '1rem' }}
+                  data-testid={`email-attachment-icon-${email.id}`}
+                />
+              )}
             </Box>
 
             <Typography
@@ -95,7 +102,7 @@ const EmailCard: React.FC<EmailCardProps> = ({ email, isSelected = false, onClic
           </Box>
         </Box>
 
-        {/* Content Preview */}
+        {/* Content Preview - highlighted search excerpt when available */}
         <Typography
           variant="body2"
           sx={{
@@ -109,11 +116,26 @@ const EmailCard: React.FC<EmailCardProps> = ({ email, isSelected = false, onClic
             mb: 1,
           }}
         >
-          {truncateText(email.content)}
+          {email.snippet
+            ? splitHighlights(email.snippet).map((segment, index) =>
+                segment.highlighted ? (
+                  <Box
+                    key={index}
+                    component="mark"
+                    sx={{ backgroundColor: 'warning.light', color: 'inherit', borderRadius: 0.5 }}
+                  >
+                    {segment.text}
+                  </Box>
+                ) : (
+                  segment.text
+                ),
+              )
+            : truncateText(email.content)}
         </Typography>
 
-        {/* Status Chips */}
-        <Box sx={{ display: 'flex', justifyContent: 'flex-end' }}>
+        {/* Label and Status Chips */}
+        <Box sx={{ display: 'flex', justifyContent: 'flex-end', gap: 0.5, flexWrap: 'wrap' }}>
+          {email.labels && <LabelChips labels={email.labels} />}
           <StatusChips email={email} />
         </Box>
       </CardContent>
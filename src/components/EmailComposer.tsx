@@ -1,11 +1,12 @@
 /**
  * Email Composer Component
  * Form for composing and sending new emails
+ * Autosaves the form as a draft while typing; sending discards the draft
  */
 
 'use client';
 
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import {
   Box,
   TextField,
@@ -16,24 +17,83 @@ import {
   Divider,
   Alert,
   CircularProgress,
+  Chip,
+  Tooltip,
+  MenuItem,
 } from '@mui/material';
-import { Close as CloseIcon, Send as SendIcon } from '@mui/icons-material';
-import { EmailComposerFormData, EMPTY_COMPOSER_FORM, CreateEmailRequest } from '@/types';
-import { useCreateEmail } from '@/hooks/useEmailQueries';
-import { validateEmailList } from '@/lib/utils';
+import {
+  Close as CloseIcon,
+  Send as SendIcon,
+  AttachFile as AttachFileIcon,
+  DeleteOutline as DiscardIcon,
+  ScheduleSend as ScheduleSendIcon,
+  Visibility as PreviewIcon,
+  VisibilityOff as PreviewOffIcon,
+  AutoAwesome as PersonaliseIcon,
+} from '@mui/icons-material';
+import {
+  EmailComposerFormData,
+  EMPTY_COMPOSER_FORM,
+  CreateEmailRequest,
+  DRAFT_AUTOSAVE_DELAY_MS,
+  Template,
+} from '@/types';
+import { useCreateEmail, useSaveDraft, useDeleteDraft } from '@/hooks/useEmailQueries';
+import { useMailboxesQuery } from '@/hooks/useMailboxQueries';
+import { useDebounce } from '@/hooks/useDebounce';
+import {
+  applyTemplate,
+  formatFileSize,
+  getSendLaterPresets,
+  hasReplyPrefix,
+  validateAttachments,
+  validateEmailList,
+} from '@/lib/utils';
+import { hasMergeFields, mergeFieldsOf, validateMergeFields } from '@/lib/mailMerge';
+import { insertSignature, replaceSignature, signatureFor } from '@/lib/signature';
+import DateTimeMenu from './DateTimeMenu';
+import MergePreview from './MergePreview';
+import RecipientInput from './RecipientInput';
+import TemplateMenu from './TemplateMenu';
 
 interface EmailComposerProps {
   onClose: () => void;
   onSent: () => void;
   initialData?: Partial<EmailComposerFormData>;
   threadId?: string;
+  /** Draft being edited; a new draft is created on the first autosave when omitted */
+  draftId?: number;
+  /** Address to send from; the primary mailbox when omitted */
+  from?: string;
 }
 
+type DraftStatus = 'idle' | 'saving' | 'saved' | 'error';
+
+const DRAFT_STATUS_TEXT: Record<DraftStatus, string> = {
+  idle: '',
+  saving: 'Saving…',
+  saved: 'Draft saved',
+  error: 'Draft not saved',
+};
+
+const isEmptyForm = (form: EmailComposerFormData) =>
+  Object.values(form).every((value) => !value.trim());
+
+// Whether a subject and body use variables or spintax outside quoted text
+const usesMergeFields = (message: { subject: string; content: string }) =>
+  Object.values(mergeFieldsOf(message)).some(hasMergeFields);
+
+// What a draft save sends; a change of sending mailbox alone is worth saving
+const draftSnapshot = (form: EmailComposerFormData, from: string) =>
+  JSON.stringify({ ...form, from });
+
 const EmailComposer: React.FC<EmailComposerProps> = ({
   onClose,
   onSent,
   initialData = {},
   threadId,
+  draftId,
+  from: initialFrom,
 }) => {
   const [formData, setFormData] = useState<EmailComposerFormData>({
     ...EMPTY_COMPOSER_FORM,
@@ -41,31 +101,216 @@ const EmailComposer: React.FC<EmailComposerProps> = ({
   });
   const [errors, setErrors] = useState<Partial<Record<keyof EmailComposerFormData, string>>>({});
   const [submitError, setSubmitError] = useState<string | null>(null);
+  const [attachments, setAttachments] = useState<File[]>([]);
+  const [attachmentError, setAttachmentError] = useState<string | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [draftStatus, setDraftStatus] = useState<DraftStatus>('idle');
+  const [scheduleAnchor, setScheduleAnchor] = useState<HTMLElement | null>(null);
+  const [from, setFrom] = useState(initialFrom ?? '');
+  const [showPreview, setShowPreview] = useState(false);
+  // Sent with merge rendering for each recipient; on for a draft or template that uses it
+  const [personalise, setPersonalise] = useState(() => usesMergeFields(formData));
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const { data: mailboxes = [] } = useMailboxesQuery();
 
   const createEmailMutation = useCreateEmail();
+  const saveDraftMutation = useSaveDraft();
+  const deleteDraftMutation = useDeleteDraft();
+
+  // Saves run one at a time so the first save's draft ID is known before the next one
+  const draftIdRef = useRef(draftId);
+  const saveQueueRef = useRef<Promise<void>>(Promise.resolve());
+  const lastSavedRef = useRef(draftSnapshot(formData, from));
+  // Set once the message is sent or discarded; no more saves after that
+  const isFinishedRef = useRef(false);
+  const debouncedFormData = useDebounce(formData, DRAFT_AUTOSAVE_DELAY_MS);
+  const debouncedFrom = useDebounce(from, DRAFT_AUTOSAVE_DELAY_MS);
 
   /**
-   * Handles input field changes
+   * Queues a draft save if the form or sending mailbox changed since the last one
+   * An empty form is never saved as a new draft
    */
-  const handleChange = useCallback(
-    (field: keyof EmailComposerFormData) =>
-      (event: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
-        const value = event.target.value;
-        setFormData((prev) => ({ ...prev, [field]: value }));
+  const saveDraft = useCallback(
+    (form: EmailComposerFormData, sender: string) => {
+      const snapshot = draftSnapshot(form, sender);
+      if (isFinishedRef.current || snapshot === lastSavedRef.current) return;
+      if (!draftIdRef.current && isEmptyForm(form)) return;
+      lastSavedRef.current = snapshot;
 
-        // Clear field error when user types
-        if (errors[field]) {
-          setErrors((prev) => ({ ...prev, [field]: undefined }));
+      setDraftStatus('saving');
+      saveQueueRef.current = saveQueueRef.current.then(async () => {
+        try {
+          const draft = await saveDraftMutation.mutateAsync({
+            draftId: draftIdRef.current,
+            draft: {
+              ...form,
+              // Left out until a mailbox is chosen, keeping the one the draft was saved from
+              ...(sender !== '' && { from: sender }),
+              ...(!draftIdRef.current && { threadId }),
+            },
+          });
+          draftIdRef.current = draft.id;
+          setDraftStatus('saved');
+        } catch {
+          // Retried on the next change
+          lastSavedRef.current = '';
+          setDraftStatus('error');
         }
+      });
+    },
+    [saveDraftMutation, threadId],
+  );
 
-        // Clear submit error
-        if (submitError) {
-          setSubmitError(null);
-        }
-      },
+  useEffect(() => {
+    saveDraft(debouncedFormData, debouncedFrom);
+  }, [debouncedFormData, debouncedFrom, saveDraft]);
+
+  // A new message or reply gets the sender's signature once the mailboxes load; a reopened
+  // draft already has whatever signature was kept
+  const isSignedRef = useRef(!!draftId);
+  useEffect(() => {
+    if (isSignedRef.current || !mailboxes.length) return;
+    isSignedRef.current = true;
+    const signature = signatureFor(mailboxes, from);
+    setFormData((prev) => {
+      const signed = { ...prev, content: insertSignature(prev.content, signature) };
+      // The signature alone is not a change worth saving as a draft
+      if (draftSnapshot(prev, from) === lastSavedRef.current) {
+        lastSavedRef.current = draftSnapshot(signed, from);
+      }
+      return signed;
+    });
+  }, [mailboxes, from]);
+
+  /**
+   * Switches the sending mailbox, swapping in its signature
+   */
+  const handleFromChange = useCallback(
+    (address: string) => {
+      const previous = signatureFor(mailboxes, from);
+      const next = signatureFor(mailboxes, address);
+      setFormData((prev) => ({ ...prev, content: replaceSignature(prev.content, previous, next) }));
+      setFrom(address);
+    },
+    [mailboxes, from],
+  );
+
+  /**
+   * Saves any pending changes before closing
+   */
+  const handleClose = useCallback(() => {
+    saveDraft(formData, from);
+    onClose();
+  }, [formData, from, saveDraft, onClose]);
+
+  /**
+   * Deletes the draft, if one was saved, and closes
+   */
+  const handleDiscard = useCallback(async () => {
+    isFinishedRef.current = true;
+    await saveQueueRef.current;
+    if (draftIdRef.current) deleteDraftMutation.mutate(draftIdRef.current);
+    onClose();
+  }, [deleteDraftMutation, onClose]);
+
+  /**
+   * Adds files to the attachment list, rejecting the batch if it would exceed the size limits
+   */
+  const addAttachments = useCallback(
+    (files: FileList | null) => {
+      if (!files?.length) return;
+
+      const next = [...attachments, ...Array.from(files)];
+      const error = validateAttachments(next);
+      setAttachmentError(error);
+      if (!error) setAttachments(next);
+    },
+    [attachments],
+  );
+
+  /**
+   * Removes an attachment by its position in the list
+   */
+  const removeAttachment = useCallback((index: number) => {
+    setAttachments((prev) => prev.filter((_, i) => i !== index));
+    setAttachmentError(null);
+  }, []);
+
+  /**
+   * Drag-and-drop handlers for the whole composer
+   */
+  const handleDragOver = useCallback((event: React.DragEvent) => {
+    if (!event.dataTransfer.types.includes('Files')) return;
+    event.preventDefault();
+    setIsDragging(true);
+  }, []);
+
+  const handleDragLeave = useCallback((event: React.DragEvent) => {
+    // Ignore leave events fired when moving between child elements
+    if (event.currentTarget.contains(event.relatedTarget as Node | null)) return;
+    setIsDragging(false);
+  }, []);
+
+  const handleDrop = useCallback(
+    (event: React.DragEvent) => {
+      event.preventDefault();
+      setIsDragging(false);
+      addAttachments(event.dataTransfer.files);
+    },
+    [addAttachments],
+  );
+
+  /**
+   * Updates a field, clearing its error
+   */
+  const updateField = useCallback(
+    (field: keyof EmailComposerFormData, value: string) => {
+      setFormData((prev) => ({ ...prev, [field]: value }));
+
+      // Clear field error when user types
+      if (errors[field]) {
+        setErrors((prev) => ({ ...prev, [field]: undefined }));
+      }
+
+      // Clear submit error
+      if (submitError) {
+        setSubmitError(null);
+      }
+    },
     [errors, submitError],
   );
 
+  /**
+   * Handles input field changes
+   */
+  const handleChange = useCallback(
+    (field: keyof EmailComposerFormData) =>
+      (event: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+        updateField(field, event.target.value),
+    [updateField],
+  );
+
+  /**
+   * Fills the subject and body from a template, keeping the recipients and a reply's subject
+   */
+  const handleInsertTemplate = useCallback((template: Template) => {
+    setFormData((prev) => applyTemplate(prev, template, hasReplyPrefix(prev.subject)));
+    setErrors((prev) => ({ ...prev, subject: undefined, content: undefined }));
+    if (usesMergeFields({ subject: template.subject, content: template.body })) {
+      setPersonalise(true);
+    }
+  }, []);
+
+  /**
+   * Turns personalising for each recipient on or off, leaving the preview when it is off
+   */
+  const togglePersonalise = useCallback(() => {
+    setPersonalise((on) => !on);
+    setShowPreview(false);
+    setErrors((prev) => ({ ...prev, subject: undefined, content: undefined }));
+  }, []);
+
   /**
    * Validates the form before submission
    */
@@ -94,30 +339,48 @@ const EmailComposer: React.FC<EmailComposerProps> = ({
       newErrors.bcc = 'Please enter valid email addresses';
     }
 
+    // Mail merge validation: only known variables, outside quoted text
+    const mergeErrors = personalise ? validateMergeFields(mergeFieldsOf(formData)) : {};
+    if (mergeErrors.subject && !newErrors.subject) {
+      newErrors.subject = mergeErrors.subject;
+    }
+    if (mergeErrors.content) {
+      newErrors.content = mergeErrors.content;
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
-  }, [formData]);
+  }, [formData, personalise]);
 
   /**
-   * Handles form submission
+   * Sends the email now, or at scheduledAt when given
    */
-  const handleSubmit = useCallback(
-    async (event: React.FormEvent) => {
-      event.preventDefault();
-
+  const send = useCallback(
+    async (scheduledAt?: Date) => {
       if (!validateForm()) {
         return;
       }
 
       setSubmitError(null);
 
+      // Wait for in-flight saves so the server discards the final draft
+      isFinishedRef.current = true;
+      await saveQueueRef.current;
+
       const emailData: CreateEmailRequest = {
+        from: from || undefined,
         subject: formData.subject,
         to: formData.to,
         cc: formData.cc || undefined,
         bcc: formData.bcc || undefined,
         content: formData.content,
         threadId: threadId,
+        attachments: attachments.length ? attachments : undefined,
+        draftId: draftIdRef.current,
+        scheduledAt: scheduledAt?.toISOString(),
+        // The signature is already in the message, or was removed on purpose
+        appendSignature: false,
+        merge: personalise || undefined,
       };
 
       createEmailMutation.mutate(emailData, {
@@ -126,11 +389,33 @@ const EmailComposer: React.FC<EmailComposerProps> = ({
           onClose();
         },
         onError: (error) => {
+          isFinishedRef.current = false;
           setSubmitError(error.message || 'Failed to send email');
         },
       });
     },
-    [formData, threadId, validateForm, onSent, onClose, createEmailMutation],
+    [
+      formData,
+      from,
+      attachments,
+      threadId,
+      personalise,
+      validateForm,
+      onSent,
+      onClose,
+      createEmailMutation,
+    ],
+  );
+
+  /**
+   * Handles form submission
+   */
+  const handleSubmit = useCallback(
+    (event: React.FormEvent) => {
+      event.preventDefault();
+      send();
+    },
+    [send],
   );
 
   return (
@@ -148,7 +433,13 @@ const EmailComposer: React.FC<EmailComposerProps> = ({
         borderRadius: '8px 8px 0 0',
         overflow: 'hidden',
         zIndex: 1300,
+        outline: isDragging ? '2px dashed' : 'none',
+        outlineColor: 'primary.main',
+        outlineOffset: -2,
       }}
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
       data-testid="email-composer"
     >
       {/* Header */}
@@ -170,7 +461,7 @@ const EmailComposer: React.FC<EmailComposerProps> = ({
           <IconButton
             size="small"
             sx={{ color: 'inherit' }}
-            onClick={onClose}
+            onClick={handleClose}
             data-testid="composer-close-button"
           >
             <CloseIcon />
@@ -196,43 +487,55 @@ const EmailComposer: React.FC<EmailComposerProps> = ({
         )}
 
         <Box sx={{ p: 2, pb: 0 }}>
-          <TextField
-            fullWidth
+          {mailboxes.length > 1 && (
+            <TextField
+              select
+              fullWidth
+              label="From"
+              value={from || mailboxes[0].address}
+              onChange={(event) => handleFromChange(event.target.value)}
+              size="small"
+              sx={{ mb: 2 }}
+              inputProps={{ 'data-testid': 'composer-from' }}
+            >
+              {mailboxes.map((mailbox) => (
+                <MenuItem key={mailbox.id} value={mailbox.address}>
+                  {mailbox.displayName
+                    ? `${mailbox.displayName} <${mailbox.address}>`
+                    : mailbox.address}
+                </MenuItem>
+              ))}
+            </TextField>
+          )}
+
+          <RecipientInput
             label="To"
             placeholder="recipient@example.com"
             value={formData.to}
-            onChange={handleChange('to')}
+            onChange={(value) => updateField('to', value)}
             error={!!errors.to}
             helperText={errors.to}
-            size="small"
-            sx={{ mb: 2 }}
-            inputProps={{ 'data-testid': 'composer-to' }}
+            testId="composer-to"
           />
 
-          <TextField
-            fullWidth
+          <RecipientInput
             label="Cc"
             placeholder="cc@example.com"
             value={formData.cc}
-            onChange={handleChange('cc')}
+            onChange={(value) => updateField('cc', value)}
             error={!!errors.cc}
             helperText={errors.cc}
-            size="small"
-            sx={{ mb: 2 }}
-            inputProps={{ 'data-testid': 'composer-cc' }}
+            testId="composer-cc"
           />
 
-          <TextField
-            fullWidth
+          <RecipientInput
             label="Bcc"
             placeholder="bcc@example.com"
             value={formData.bcc}
-            onChange={handleChange('bcc')}
+            onChange={(value) => updateField('bcc', value)}
             error={!!errors.bcc}
             helperText={errors.bcc}
-            size="small"
-            sx={{ mb: 2 }}
-            inputProps={{ 'data-testid': 'composer-bcc' }}
+            testId="composer-bcc"
           />
 
           <TextField
@@ -252,21 +555,49 @@ const EmailComposer: React.FC<EmailComposerProps> = ({
         <Divider />
 
         <Box sx={{ flex: 1, p: 2 }}>
-          <TextField
-            fullWidth
-            multiline
-            rows={8}
-            placeholder="Write your message here..."
-            value={formData.content}
-            onChange={handleChange('content')}
-            variant="standard"
-            InputProps={{
-              disableUnderline: true,
-            }}
-            inputProps={{ 'data-testid': 'composer-content' }}
-          />
+          {showPreview ? (
+            <MergePreview subject={formData.subject} content={formData.content} to={formData.to} />
+          ) : (
+            <TextField
+              fullWidth
+              multiline
+              rows={8}
+              placeholder="Write your message here..."
+              value={formData.content}
+              onChange={handleChange('content')}
+              error={!!errors.content}
+              helperText={errors.content}
+              variant="standard"
+              InputProps={{
+                disableUnderline: true,
+              }}
+              inputProps={{ 'data-testid': 'composer-content' }}
+            />
+          )}
         </Box>
 
+        {(attachments.length > 0 || attachmentError) && (
+          <Box sx={{ px: 2, pb: 1 }} data-testid="composer-attachments">
+            {attachmentError && (
+              <Alert severity="error" sx={{ mb: 1 }} data-testid="composer-attachment-error">
+                {attachmentError}
+              </Alert>
+            )}
+            <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1 }}>
+              {attachments.map((file, index) => (
+                <Chip
+                  key={`${file.name}-${index}`}
+                  icon={<AttachFileIcon />}
+                  label={`${file.name} (${formatFileSize(file.size)})`}
+                  onDelete={() => removeAttachment(index)}
+                  size="small"
+                  variant="outlined"
+                />
+              ))}
+            </Box>
+          </Box>
+        )}
+
         {/* Footer */}
         <Box
           sx={{
@@ -287,6 +618,86 @@ const EmailComposer: React.FC<EmailComposerProps> = ({
           >
             {createEmailMutation.isPending ? 'Sending...' : 'Send'}
           </Button>
+          <Tooltip title="Schedule send">
+            <IconButton
+              onClick={(event) => setScheduleAnchor(event.currentTarget)}
+              disabled={createEmailMutation.isPending}
+              data-testid="composer-schedule-button"
+            >
+              <ScheduleSendIcon />
+            </IconButton>
+          </Tooltip>
+          <DateTimeMenu
+            anchorEl={scheduleAnchor}
+            onClose={() => setScheduleAnchor(null)}
+            title="Schedule send"
+            presets={getSendLaterPresets()}
+            confirmLabel="Schedule"
+            onSelect={send}
+          />
+          <Typography
+            variant="caption"
+            color={draftStatus === 'error' ? 'error' : 'text.secondary'}
+            sx={{ flex: 1, ml: 2 }}
+            data-testid="composer-draft-status"
+          >
+            {DRAFT_STATUS_TEXT[draftStatus]}
+          </Typography>
+          <TemplateMenu
+            onInsert={handleInsertTemplate}
+            draft={{ subject: formData.subject, body: formData.content }}
+          />
+          <Tooltip
+            title={
+              personalise
+                ? 'Send as written'
+                : 'Personalise for each recipient, filling in variables and spintax'
+            }
+          >
+            <IconButton
+              onClick={togglePersonalise}
+              color={personalise ? 'primary' : 'default'}
+              aria-pressed={personalise}
+              data-testid="composer-personalise-button"
+            >
+              <PersonaliseIcon />
+            </IconButton>
+          </Tooltip>
+          {personalise && (
+            <Tooltip title={showPreview ? 'Back to editing' : 'Preview with variables filled in'}>
+              <IconButton
+                onClick={() => setShowPreview((shown) => !shown)}
+                data-testid="composer-preview-button"
+              >
+                {showPreview ? <PreviewOffIcon /> : <PreviewIcon />}
+              </IconButton>
+            </Tooltip>
+          )}
+          <Tooltip title="Discard draft">
+            <IconButton onClick={handleDiscard} data-testid="composer-discard-button">
+              <DiscardIcon />
+            </IconButton>
+          </Tooltip>
+          <Tooltip title="Attach files (or drop them here)">
+            <IconButton
+              onClick={() => fileInputRef.current?.click()}
+              data-testid="composer-attach-button"
+            >
+              <AttachFileIcon />
+            </IconButton>
+          </Tooltip>
+          <input
+            ref={fileInputRef}
+            type="file"
+            multiple
+            hidden
+            onChange={(event) => {
+              addAttachments(event.target.files);
+              // Allow selecting the same file again after removing it
+              event.target.value = '';
+            }}
+            data-testid="composer-file-input"
+          />
         </Box>
       </Box>
     </Paper>
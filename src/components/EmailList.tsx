@@ -1,28 +1,37 @@
 /**
  * Email List Component
- * Displays a scrollable list of email cards
+ * Displays a scrollable list of email cards, loading more pages as the end comes into view
  */
 
 'use client';
 
-import React from 'react';
-import { Box, Typography, Alert } from '@mui/material';
+import React, { useEffect, useRef } from 'react';
+import { Box, Typography, Alert, CircularProgress } from '@mui/material';
 import { Email as EmailIcon } from '@mui/icons-material';
 import EmailCard from './EmailCard';
 import EmailListSkeleton from './EmailListSkeleton';
-import { Email } from '@/types';
+import { Email, EmailSearchResult } from '@/types';
 import { useMinDuration } from '@/hooks';
 
 /** Minimum time to show skeleton to prevent flashing (ms) */
 const MIN_SKELETON_DISPLAY_MS = 300;
 
+/** Distance from the bottom of the list at which the next page starts loading */
+const LOAD_MORE_THRESHOLD_PX = 200;
+
 interface EmailListProps {
-  emails: Email[];
+  emails: EmailSearchResult[];
   selectedEmailId: number | null;
   onEmailSelect: (email: Email) => void;
   isLoading?: boolean;
   isPending?: boolean;
   error?: string | null;
+  /** Whether more pages are available */
+  hasMore?: boolean;
+  /** Whether the next page is being fetched */
+  isLoadingMore?: boolean;
+  /** Called when the end of the list scrolls into view */
+  onLoadMore?: () => void;
 }
 
 const EmailList: React.FC<EmailListProps> = ({
@@ -32,8 +41,31 @@ const EmailList: React.FC<EmailListProps> = ({
   isLoading = false,
   isPending = false,
   error = null,
+  hasMore = false,
+  isLoadingMore = false,
+  onLoadMore,
 }) => {
   const showSkeleton = useMinDuration(isLoading, MIN_SKELETON_DISPLAY_MS);
+  const scrollContainerRef = useRef<HTMLDivElement>(null);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  // Load the next page when the sentinel below the last card nears the viewport
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore || !onLoadMore || typeof IntersectionObserver === 'undefined') {
+      return;
+    }
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) onLoadMore();
+      },
+      { root: scrollContainerRef.current, rootMargin: `0px 0px ${LOAD_MORE_THRESHOLD_PX}px 0px` },
+    );
+    observer.observe(sentinel);
+
+    return () => observer.disconnect();
+  }, [hasMore, onLoadMore, emails.length, showSkeleton]);
 
   if (showSkeleton) {
     return <EmailListSkeleton count={5} />;
@@ -83,6 +115,7 @@ const EmailList: React.FC<EmailListProps> = ({
         transition: 'opacity 0.15s ease-in-out',
       }}
       data-testid="email-list"
+      ref={scrollContainerRef}
     >
       <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
         {emails.map((email) => (
@@ -94,6 +127,15 @@ const EmailList: React.FC<EmailListProps> = ({
           />
         ))}
       </Box>
+      {hasMore && (
+        <Box
+          ref={sentinelRef}
+          sx={{ display: 'flex', justifyContent: 'center', py: 2 }}
+          data-testid="email-list-load-more"
+        >
+          {isLoadingMore && <CircularProgress size={24} />}
+        </Box>
+      )}
     </Box>
   );
 };
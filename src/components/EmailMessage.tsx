@@ -13,6 +13,7 @@ import {
   IconButton,
   Tooltip,
   Paper,
+  Button,
   Accordion,
   AccordionSummary,
   AccordionDetails,
@@ -23,13 +24,19 @@ import {
   Delete as DeleteIcon,
   ExpandMore as ExpandMoreIcon,
   Restore as RestoreIcon,
+  AttachFile as AttachFileIcon,
 } from '@mui/icons-material';
-import { Email } from '@/types';
+import { EmailDirection, EmailSearchResult, EmailStatus } from '@/types';
+import { useContactNames } from '@/hooks';
 import { getDisplayName, formatShortDate } from '@/lib/utils';
+import { splitSignature } from '@/lib/signature';
 import { EmailAvatar } from './EmailAvatar';
+import AttachmentList from './AttachmentList';
+import ScheduledSendBanner from './ScheduledSendBanner';
+import DeliveryStatusChip from './DeliveryStatusChip';
 
 export interface EmailMessageProps {
-  email: Email;
+  email: EmailSearchResult;
   isLatest: boolean;
   onToggleImportant: (
     emailId: number,
@@ -50,6 +57,14 @@ const EmailMessage: React.FC<EmailMessageProps> = ({
   isTrash = false,
 }) => {
   const [expanded, setExpanded] = React.useState(isLatest);
+  const [showSignature, setShowSignature] = React.useState(false);
+  const contactNames = useContactNames();
+
+  // A received message's signature is folded away; the user's own mail is shown as sent
+  const { message, signature, quoted } =
+    email.direction === EmailDirection.OUTGOING
+      ? { message: email.content, signature: null, quoted: '' }
+      : splitSignature(email.content ?? '');
 
   return (
     <Accordion
@@ -78,12 +93,16 @@ const EmailMessage: React.FC<EmailMessageProps> = ({
         <Box sx={{ flex: 1, minWidth: 0 }}>
           <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
             <Typography variant="subtitle2" sx={{ fontWeight: 600 }}>
-              {getDisplayName(email.from)}
+              {getDisplayName(email.from, contactNames)}
             </Typography>
             {!email.isRead && (
               <Chip label="Unread" size="small" color="warning" sx={{ height: 20 }} />
             )}
+            <DeliveryStatusChip email={email} />
             {email.isImportant && <Star sx={{ color: 'warning.main', fontSize: 18 }} />}
+            {!!email.attachments?.length && (
+              <AttachFileIcon sx={{ color: 'text.secondary', fontSize: 18 }} />
+            )}
           </Box>
           <Typography variant="caption" color="text.secondary">
             {formatShortDate(email.createdAt)}
@@ -161,6 +180,7 @@ const EmailMessage: React.FC<EmailMessageProps> = ({
               </Tooltip>
             )}
           </Box>
+          {email.status === EmailStatus.SCHEDULED && <ScheduledSendBanner email={email} />}
           <Paper
             elevation={0}
             sx={{
@@ -170,9 +190,44 @@ const EmailMessage: React.FC<EmailMessageProps> = ({
             }}
           >
             <Typography variant="body2" sx={{ whiteSpace: 'pre-wrap', lineHeight: 1.7 }}>
-              {email.content || 'No content'}
+              {(signature ? message : email.content) || 'No content'}
             </Typography>
+            {signature && (
+              <>
+                <Tooltip title={showSignature ? 'Hide signature' : 'Show signature'}>
+                  <Button
+                    size="small"
+                    variant="outlined"
+                    color="inherit"
+                    onClick={() => setShowSignature(!showSignature)}
+                    sx={{ minWidth: 0, px: 1, py: 0, my: 1, lineHeight: 1.2 }}
+                    data-testid="signature-toggle"
+                  >
+                    ···
+                  </Button>
+                </Tooltip>
+                {showSignature && (
+                  <Typography
+                    variant="body2"
+                    color="text.secondary"
+                    sx={{ whiteSpace: 'pre-wrap', lineHeight: 1.7 }}
+                    data-testid="email-signature"
+                  >
+                    {signature}
+                  </Typography>
+                )}
+                {quoted && (
+                  <Typography
+                    variant="body2"
+                    sx={{ whiteSpace: 'pre-wrap', lineHeight: 1.7, mt: 2 }}
+                  >
+                    {quoted}
+                  </Typography>
+                )}
+              </>
+            )}
           </Paper>
+          {email.attachments && <AttachmentList attachments={email.attachments} />}
         </Box>
       </AccordionDetails>
     </Accordion>
@@ -6,25 +6,45 @@
 'use client';
 
 import React from 'react';
-import { IconButton, Tooltip } from '@mui/material';
+import { Checkbox, IconButton, ListItemText, Menu, MenuItem, Tooltip } from '@mui/material';
 import {
   Star,
   StarBorder,
   Delete as DeleteIcon,
   Reply as ReplyIcon,
   Restore as RestoreIcon,
+  Label as LabelIcon,
+  Snooze as SnoozeIcon,
+  AlarmOff as UnsnoozeIcon,
+  Archive as ArchiveIcon,
+  Unarchive as UnarchiveIcon,
+  DeleteForever as DeleteForeverIcon,
 } from '@mui/icons-material';
-import { Email } from '@/types';
+import { Email, Label } from '@/types';
+import { formatShortDate, getSnoozePresets, isSnoozed } from '@/lib/utils';
+import DateTimeMenu from './DateTimeMenu';
 
 interface EmailToolbarActionsProps {
-  email: Pick<Email, 'id' | 'isImportant' | 'threadId'>;
+  email: Pick<Email, 'id' | 'isImportant' | 'threadId' | 'snoozedUntil' | 'isArchived'>;
   onToggleImportant: () => void;
   onDelete: () => void;
   onRestore?: () => void;
+  /** Permanently deletes; only offered in the trash */
+  onDeleteForever?: () => void;
   onReply?: () => void;
   isTrash?: boolean;
   deleteTooltip?: string;
   restoreTooltip?: string;
+  deleteForeverTooltip?: string;
+  /** All labels, offered in the label menu */
+  labels?: Label[];
+  /** IDs of the labels currently on the email */
+  appliedLabelIds?: number[];
+  onToggleLabel?: (label: Label, applied: boolean) => void;
+  /** Snoozes until the chosen date; called with null to unsnooze */
+  onSnooze?: (snoozedUntil: Date | null) => void;
+  /** Archives (true) or moves back to the inbox (false) */
+  onArchive?: (isArchived: boolean) => void;
 }
 
 export const EmailToolbarActions: React.FC<EmailToolbarActionsProps> = ({
@@ -32,11 +52,21 @@ export const EmailToolbarActions: React.FC<EmailToolbarActionsProps> = ({
   onToggleImportant,
   onDelete,
   onRestore,
+  onDeleteForever,
   onReply,
   isTrash = false,
   deleteTooltip = 'Delete',
   restoreTooltip = 'Restore from trash',
+  deleteForeverTooltip = 'Delete forever',
+  labels = [],
+  appliedLabelIds = [],
+  onToggleLabel,
+  onSnooze,
+  onArchive,
 }) => {
+  const [labelMenuAnchor, setLabelMenuAnchor] = React.useState<HTMLElement | null>(null);
+  const [snoozeMenuAnchor, setSnoozeMenuAnchor] = React.useState<HTMLElement | null>(null);
+
   return (
     <>
       <Tooltip title={email.isImportant ? 'Remove from important' : 'Mark as important'}>
@@ -53,6 +83,98 @@ export const EmailToolbarActions: React.FC<EmailToolbarActionsProps> = ({
         </Tooltip>
       )}
 
+      {onToggleLabel && labels.length > 0 && (
+        <>
+          <Tooltip title="Labels">
+            <IconButton
+              onClick={(e) => setLabelMenuAnchor(e.currentTarget)}
+              size="small"
+              data-testid="label-menu-button"
+            >
+              <LabelIcon />
+            </IconButton>
+          </Tooltip>
+          <Menu
+            anchorEl={labelMenuAnchor}
+            open={!!labelMenuAnchor}
+            onClose={() => setLabelMenuAnchor(null)}
+          >
+            {labels.map((label) => {
+              const isApplied = appliedLabelIds.includes(label.id);
+              return (
+                <MenuItem
+                  key={label.id}
+                  dense
+                  onClick={() => onToggleLabel(label, !isApplied)}
+                  data-testid={`label-menu-item-${label.id}`}
+                >
+                  <Checkbox
+                    checked={isApplied}
+                    size="small"
+                    sx={{
+                      p: 0,
+                      mr: 1,
+                      color: label.color,
+                      '&.Mui-checked': { color: label.color },
+                    }}
+                  />
+                  <ListItemText primary={label.name} />
+                </MenuItem>
+              );
+            })}
+          </Menu>
+        </>
+      )}
+
+      {onArchive && !isTrash && (
+        <Tooltip title={email.isArchived ? 'Move to inbox' : 'Archive'}>
+          <IconButton
+            onClick={() => onArchive(!email.isArchived)}
+            size="small"
+            data-testid={email.isArchived ? 'unarchive-button' : 'archive-button'}
+          >
+            {email.isArchived ? <UnarchiveIcon /> : <ArchiveIcon />}
+          </IconButton>
+        </Tooltip>
+      )}
+
+      {onSnooze && !isTrash && (
+        <>
+          <Tooltip title="Snooze">
+            <IconButton
+              onClick={(e) => setSnoozeMenuAnchor(e.currentTarget)}
+              size="small"
+              data-testid="snooze-menu-button"
+            >
+              <SnoozeIcon />
+            </IconButton>
+          </Tooltip>
+          <DateTimeMenu
+            anchorEl={snoozeMenuAnchor}
+            onClose={() => setSnoozeMenuAnchor(null)}
+            title="Snooze until"
+            presets={getSnoozePresets()}
+            confirmLabel="Snooze"
+            onSelect={onSnooze}
+          />
+          {isSnoozed(email) && (
+            <Tooltip title={`Snoozed until ${formatShortDate(email.snoozedUntil!)} - unsnooze`}>
+              <IconButton onClick={() => onSnooze(null)} size="small" data-testid="unsnooze-button">
+                <UnsnoozeIcon />
+              </IconButton>
+            </Tooltip>
+          )}
+        </>
+      )}
+
+      {isTrash && onDeleteForever && (
+        <Tooltip title={deleteForeverTooltip}>
+          <IconButton onClick={onDeleteForever} size="small" data-testid="delete-forever-button">
+            <DeleteForeverIcon />
+          </IconButton>
+        </Tooltip>
+      )}
+
       {isTrash && onRestore ? (
         <Tooltip title={restoreTooltip}>
           <IconButton onClick={onRestore} size="small" color="primary" data-testid="restore-button">
@@ -7,21 +7,33 @@
 
 import React from 'react';
 import { Box, Typography, Divider, Paper } from '@mui/material';
-import { Email } from '@/types';
+import { Email, EmailSearchResult, EmailStatus, Label } from '@/types';
 import { EmailAvatar } from './EmailAvatar';
 import { StatusChips } from './StatusChips';
+import { LabelChips } from './LabelChips';
 import { EmailToolbarActions } from './EmailToolbarActions';
 import { ViewerToolbar } from './ViewerToolbar';
+import ScheduledSendBanner from './ScheduledSendBanner';
+import DeliveryStatusChip from './DeliveryStatusChip';
+import ConfirmDialog from './ConfirmDialog';
+import { useContactNames } from '@/hooks';
 import { getDisplayName, formatFullDate } from '@/lib/utils';
 
 interface EmailViewerProps {
-  email: Email;
+  email: EmailSearchResult;
   onClose: () => void;
   onDelete: (emailId: number) => void;
   onToggleImportant: (emailId: number) => void;
   onReply?: (email: Email) => void;
   onRestore?: (emailId: number) => void;
+  /** Permanently deletes from the trash, after confirmation */
+  onDeleteForever?: (emailId: number) => void;
   isTrash?: boolean;
+  /** All labels, for the label menu */
+  labels?: Label[];
+  onToggleLabel?: (emailId: number, label: Label, applied: boolean) => void;
+  onSnooze?: (emailId: number, snoozedUntil: Date | null) => void;
+  onArchive?: (emailId: number, isArchived: boolean) => void;
 }
 
 const EmailViewer: React.FC<EmailViewerProps> = ({
@@ -31,8 +43,16 @@ const EmailViewer: React.FC<EmailViewerProps> = ({
   onToggleImportant,
   onReply,
   onRestore,
+  onDeleteForever,
   isTrash = false,
+  labels,
+  onToggleLabel,
+  onSnooze,
+  onArchive,
 }) => {
+  const [isConfirmingDelete, setIsConfirmingDelete] = React.useState(false);
+  const contactNames = useContactNames();
+
   return (
     <Box
       sx={{
@@ -44,17 +64,36 @@ const EmailViewer: React.FC<EmailViewerProps> = ({
       data-testid="email-viewer"
     >
       {/* Toolbar */}
-      <ViewerToolbar onClose={onClose}>
+      <ViewerToolbar onClose={onClose} exportThreadId={email.threadId}>
         <EmailToolbarActions
           email={email}
           onToggleImportant={() => onToggleImportant(email.id)}
           onDelete={() => onDelete(email.id)}
           onRestore={onRestore ? () => onRestore(email.id) : undefined}
+          onDeleteForever={onDeleteForever ? () => setIsConfirmingDelete(true) : undefined}
           onReply={onReply ? () => onReply(email) : undefined}
           isTrash={isTrash}
+          labels={labels}
+          appliedLabelIds={email.labels?.map((label) => label.id)}
+          onToggleLabel={
+            onToggleLabel ? (label, applied) => onToggleLabel(email.id, label, applied) : undefined
+          }
+          onSnooze={onSnooze ? (snoozedUntil) => onSnooze(email.id, snoozedUntil) : undefined}
+          onArchive={onArchive ? (isArchived) => onArchive(email.id, isArchived) : undefined}
         />
       </ViewerToolbar>
 
+      {onDeleteForever && (
+        <ConfirmDialog
+          open={isConfirmingDelete}
+          title="Delete forever?"
+          message="This email and its attachments will be permanently deleted. This cannot be undone."
+          confirmLabel="Delete forever"
+          onConfirm={() => onDeleteForever(email.id)}
+          onClose={() => setIsConfirmingDelete(false)}
+        />
+      )}
+
       {/* Email Header */}
       <Box sx={{ p: 3 }}>
         <Typography
@@ -71,7 +110,7 @@ const EmailViewer: React.FC<EmailViewerProps> = ({
           <Box sx={{ flex: 1 }}>
             <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 0.5 }}>
               <Typography variant="subtitle1" sx={{ fontWeight: 600 }}>
-                {getDisplayName(email.from)}
+                {getDisplayName(email.from, contactNames)}
               </Typography>
               <Typography variant="body2" color="text.secondary">
                 &lt;{email.from}&gt;
@@ -99,7 +138,11 @@ const EmailViewer: React.FC<EmailViewerProps> = ({
             </Typography>
           </Box>
 
-          <StatusChips email={email} />
+          <Box sx={{ display: 'flex', gap: 0.5, flexWrap: 'wrap' }}>
+            {email.labels && <LabelChips labels={email.labels} />}
+            <StatusChips email={email} />
+            <DeliveryStatusChip email={email} />
+          </Box>
         </Box>
       </Box>
 
@@ -107,6 +150,7 @@ const EmailViewer: React.FC<EmailViewerProps> = ({
 
       {/* Email Content */}
       <Box sx={{ flex: 1, overflow: 'auto', p: 3 }}>
+        {email.status === EmailStatus.SCHEDULED && <ScheduledSendBanner email={email} />}
         <Paper
           elevation={0}
           sx={{
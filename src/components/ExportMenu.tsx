@@ -0,0 +1,67 @@
+/**
+ * Export Menu Component
+ * Download button offering the export formats for a conversation or the current list
+ */
+
+'use client';
+
+import React, { useState } from 'react';
+import { IconButton, ListItemText, Menu, MenuItem, Tooltip } from '@mui/material';
+import { FileDownload as ExportIcon } from '@mui/icons-material';
+import { EXPORT_FORMATS, ExportFormat, ExportRequest } from '@/types';
+import { getExportUrl } from '@/services';
+
+const FORMAT_LABELS: Record<ExportFormat, { primary: string; secondary: string }> = {
+  mbox: { primary: 'Mailbox', secondary: '.mbox' },
+  eml: { primary: 'Email files', secondary: '.zip of .eml' },
+  json: { primary: 'JSON', secondary: '.ndjson' },
+};
+
+interface ExportMenuProps {
+  /** What to export: a threadId, or the list's filter, query and threading */
+  params: Omit<ExportRequest, 'format'>;
+  tooltip?: string;
+}
+
+export const ExportMenu: React.FC<ExportMenuProps> = ({ params, tooltip = 'Export' }) => {
+  const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null);
+
+  return (
+    <>
+      <Tooltip title={tooltip}>
+        <IconButton
+          onClick={(e) => setAnchorEl(e.currentTarget)}
+          size="small"
+          data-testid="export-button"
+        >
+          <ExportIcon />
+        </IconButton>
+      </Tooltip>
+      <Menu
+        anchorEl={anchorEl}
+        open={Boolean(anchorEl)}
+        onClose={() => setAnchorEl(null)}
+        MenuListProps={{ dense: true }}
+        data-testid="export-menu"
+      >
+        {EXPORT_FORMATS.map((format) => (
+          <MenuItem
+            key={format}
+            component="a"
+            href={getExportUrl({ ...params, format })}
+            download
+            onClick={() => setAnchorEl(null)}
+            data-testid={`export-${format}`}
+          >
+            <ListItemText
+              primary={FORMAT_LABELS[format].primary}
+              secondary={FORMAT_LABELS[format].secondary}
+            />
+          </MenuItem>
+        ))}
+      </Menu>
+    </>
+  );
+};
+
+export default ExportMenu;
@@ -0,0 +1,40 @@
+/**
+ * Label Chips Component
+ * Coloured chips for the labels on an email
+ */
+
+'use client';
+
+import React from 'react';
+import { Box, Chip } from '@mui/material';
+import { Label } from '@/types';
+
+interface LabelChipsProps {
+  labels: Pick<Label, 'id' | 'name' | 'color'>[];
+  size?: 'small' | 'medium';
+}
+
+export const LabelChips: React.FC<LabelChipsProps> = ({ labels, size = 'small' }) => {
+  if (!labels.length) return null;
+
+  const chipSx = size === 'small' ? { fontSize: '0.65rem', height: 20 } : {};
+
+  return (
+    <Box sx={{ display: 'flex', gap: 0.5, flexWrap: 'wrap' }} data-testid="label-chips">
+      {labels.map((label) => (
+        <Chip
+          key={label.id}
+          label={label.name}
+          size={size}
+          sx={{
+            ...chipSx,
+            backgroundColor: label.color,
+            color: (theme) => theme.palette.getContrastText(label.color),
+          }}
+        />
+      ))}
+    </Box>
+  );
+};
+
+export default LabelChips;
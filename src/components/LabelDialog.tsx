@@ -0,0 +1,127 @@
+/**
+ * Label Dialog Component
+ * Form for creating a new label with a name and colour
+ */
+
+'use client';
+
+import React, { useState, useCallback } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  TextField,
+  Tooltip,
+} from '@mui/material';
+import { Check as CheckIcon } from '@mui/icons-material';
+import { LABEL_COLORS } from '@/types';
+import { useCreateLabel } from '@/hooks';
+import { validateLabelName } from '@/lib/utils';
+
+interface LabelDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+const LabelDialog: React.FC<LabelDialogProps> = ({ open, onClose }) => {
+  const [name, setName] = useState('');
+  const [color, setColor] = useState(LABEL_COLORS[0]);
+  const [nameError, setNameError] = useState<string | null>(null);
+
+  const createLabelMutation = useCreateLabel();
+
+  const handleClose = useCallback(() => {
+    setName('');
+    setColor(LABEL_COLORS[0]);
+    setNameError(null);
+    createLabelMutation.reset();
+    onClose();
+  }, [onClose, createLabelMutation]);
+
+  const handleSubmit = useCallback(
+    (event: React.FormEvent) => {
+      event.preventDefault();
+
+      const error = validateLabelName(name);
+      setNameError(error);
+      if (error) return;
+
+      createLabelMutation.mutate({ name: name.trim(), color }, { onSuccess: handleClose });
+    },
+    [name, color, createLabelMutation, handleClose],
+  );
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="xs" fullWidth>
+      <Box component="form" onSubmit={handleSubmit} data-testid="label-dialog">
+        <DialogTitle>New label</DialogTitle>
+        <DialogContent>
+          {createLabelMutation.error && (
+            <Alert severity="error" sx={{ mb: 2 }}>
+              {createLabelMutation.error.message}
+            </Alert>
+          )}
+          <TextField
+            autoFocus
+            fullWidth
+            label="Name"
+            value={name}
+            onChange={(e) => {
+              setName(e.target.value);
+              setNameError(null);
+            }}
+            error={!!nameError}
+            helperText={nameError}
+            size="small"
+            sx={{ mt: 1, mb: 2 }}
+            inputProps={{ 'data-testid': 'label-name-input' }}
+          />
+          <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
+            {LABEL_COLORS.map((swatch) => (
+              <Tooltip key={swatch} title={swatch}>
+                <Box
+                  component="button"
+                  type="button"
+                  onClick={() => setColor(swatch)}
+                  aria-label={`Color ${swatch}`}
+                  aria-pressed={color === swatch}
+                  sx={{
+                    width: 28,
+                    height: 28,
+                    borderRadius: '50%',
+                    border: 'none',
+                    cursor: 'pointer',
+                    backgroundColor: swatch,
+                    color: 'common.white',
+                    display: 'flex',
+                    alignItems: 'center',
+                    justifyContent: 'center',
+                  }}
+                >
+                  {color === swatch && <CheckIcon fontSize="small" />}
+                </Box>
+              </Tooltip>
+            ))}
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={handleClose}>Cancel</Button>
+          <Button
+            type="submit"
+            variant="contained"
+            disabled={createLabelMutation.isPending}
+            data-testid="label-create-submit"
+          >
+            Create
+          </Button>
+        </DialogActions>
+      </Box>
+    </Dialog>
+  );
+};
+
+export default LabelDialog;
@@ -0,0 +1,220 @@
+/**
+ * Lead Import Dialog Component
+ * Imports a CSV file into a lead list: reads the header row to offer a column for each lead
+ * field, then shows which rows were imported and why any were rejected
+ */
+
+'use client';
+
+import React, { useState, useCallback } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  MenuItem,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { UploadFile as UploadFileIcon } from '@mui/icons-material';
+import { LEAD_FIELDS, LeadColumnMapping, LeadField, LeadImportResult } from '@/types';
+import { useImportLeads } from '@/hooks';
+import { parseCsv } from '@/lib/csv';
+import { guessLeadColumns } from '@/lib/utils';
+
+interface LeadImportDialogProps {
+  open: boolean;
+  listId: number;
+  onClose: () => void;
+}
+
+const FIELD_LABELS: Record<LeadField, string> = {
+  address: 'Email address',
+  firstName: 'First name',
+  company: 'Company',
+};
+
+// Enough of the file to hold the header row of any reasonable export
+const HEADER_BYTES = 64 * 1024;
+
+/**
+ * Reads the column headers from the first row of a CSV file
+ */
+async function readHeaders(file: Blob): Promise<string[]> {
+  const text = await file.slice(0, HEADER_BYTES).text();
+  for await (const { fields } of parseCsv([text])) {
+    return fields.map((field) => field.trim()).filter(Boolean);
+  }
+  return [];
+}
+
+const LeadImportDialog: React.FC<LeadImportDialogProps> = ({ open, listId, onClose }) => {
+  const [file, setFile] = useState<File | null>(null);
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [mapping, setMapping] = useState<LeadColumnMapping>({});
+  const [result, setResult] = useState<LeadImportResult | null>(null);
+
+  const importMutation = useImportLeads();
+
+  const handleClose = useCallback(() => {
+    setFile(null);
+    setHeaders([]);
+    setMapping({});
+    setResult(null);
+    importMutation.reset();
+    onClose();
+  }, [onClose, importMutation]);
+
+  const handleFileChange = useCallback(
+    async (event: React.ChangeEvent<HTMLInputElement>) => {
+      const chosen = event.target.files?.[0];
+      event.target.value = '';
+      if (!chosen) return;
+
+      const columns = await readHeaders(chosen);
+      setFile(chosen);
+      setHeaders(columns);
+      setMapping(guessLeadColumns(columns));
+      setResult(null);
+      importMutation.reset();
+    },
+    [importMutation],
+  );
+
+  const handleSubmit = useCallback(
+    (event: React.FormEvent) => {
+      event.preventDefault();
+      if (!file || !mapping.address) return;
+
+      importMutation.mutate({ listId, file, mapping }, { onSuccess: setResult });
+    },
+    [file, mapping, listId, importMutation],
+  );
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="sm" fullWidth>
+      <Box component="form" onSubmit={handleSubmit} data-testid="lead-import-dialog">
+        <DialogTitle>Import leads</DialogTitle>
+        <DialogContent>
+          {importMutation.error && (
+            <Alert severity="error" sx={{ mb: 2 }}>
+              {importMutation.error.message}
+            </Alert>
+          )}
+
+          {result ? (
+            <>
+              <Alert severity={result.failed.length ? 'warning' : 'success'} sx={{ mb: 2 }}>
+                {result.imported} imported, {result.updated} updated
+                {result.failed.length > 0 && `, ${result.failed.length} rejected`}
+              </Alert>
+              {result.failed.length > 0 && (
+                <Table size="small" data-testid="lead-import-failures">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>Row</TableCell>
+                      <TableCell>Address</TableCell>
+                      <TableCell>Problem</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {result.failed.map((failure) => (
+                      <TableRow key={failure.row}>
+                        <TableCell>{failure.row}</TableCell>
+                        <TableCell>{failure.address}</TableCell>
+                        <TableCell>{failure.error}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </>
+          ) : (
+            <>
+              <Button
+                component="label"
+                variant="outlined"
+                startIcon={<UploadFileIcon />}
+                sx={{ mt: 1, mb: 2 }}
+              >
+                {file ? file.name : 'Choose CSV file'}
+                <input
+                  type="file"
+                  accept=".csv,text/csv"
+                  hidden
+                  onChange={handleFileChange}
+                  data-testid="lead-import-file"
+                />
+              </Button>
+
+              {file && !headers.length && (
+                <Alert severity="error">The file has no header row</Alert>
+              )}
+
+              {headers.length > 0 && (
+                <>
+                  <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+                    Choose the column for each field. Other columns are kept as custom fields.
+                  </Typography>
+                  {LEAD_FIELDS.map((field) => (
+                    <TextField
+                      key={field}
+                      select
+                      fullWidth
+                      size="small"
+                      label={FIELD_LABELS[field]}
+                      value={mapping[field] ?? ''}
+                      onChange={(e) => setMapping({ ...mapping, [field]: e.target.value })}
+                      required={field === 'address'}
+                      sx={{ mb: 2 }}
+                    >
+                      {field !== 'address' && (
+                        <MenuItem value="">
+                          <em>None</em>
+                        </MenuItem>
+                      )}
+                      {headers.map((header) => (
+                        <MenuItem key={header} value={header}>
+                          {header}
+                        </MenuItem>
+                      ))}
+                    </TextField>
+                  ))}
+                </>
+              )}
+            </>
+          )}
+        </DialogContent>
+        <DialogActions>
+          {result ? (
+            <Button onClick={handleClose} variant="contained">
+              Done
+            </Button>
+          ) : (
+            <>
+              <Button onClick={handleClose}>Cancel</Button>
+              <Button
+                type="submit"
+                variant="contained"
+                disabled={!file || !mapping.address || importMutation.isPending}
+                data-testid="lead-import-submit"
+              >
+                {importMutation.isPending ? 'Importing...' : 'Import'}
+              </Button>
+            </>
+          )}
+        </DialogActions>
+      </Box>
+    </Dialog>
+  );
+};
+
+export default LeadImportDialog;
@@ -0,0 +1,338 @@
+/**
+ * Lead List Browser Component
+ * Lists the user's lead lists beside the leads on the chosen one, with CSV import and the
+ * conversations held with each lead
+ */
+
+'use client';
+
+import React, { useState, useCallback, useMemo } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Divider,
+  IconButton,
+  List,
+  ListItemButton,
+  ListItemText,
+  MenuItem,
+  MenuList,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  ArrowBack as ArrowBackIcon,
+  Delete as DeleteIcon,
+  Groups as GroupsIcon,
+  UploadFile as UploadFileIcon,
+} from '@mui/icons-material';
+import { Lead } from '@/types';
+import {
+  useCreateLeadList,
+  useDeleteLeadList,
+  useLeadListsQuery,
+  useLeadsQuery,
+  useLeadThreadsQuery,
+} from '@/hooks';
+import { formatShortDate, validateLeadListName } from '@/lib/utils';
+import ConfirmDialog from './ConfirmDialog';
+import EmptyState from './EmptyState';
+import LeadImportDialog from './LeadImportDialog';
+
+interface LeadThreadsDialogProps {
+  lead: Lead | null;
+  onClose: () => void;
+}
+
+/**
+ * The conversations with a lead, each linking to its latest email in the mailbox
+ */
+const LeadThreadsDialog: React.FC<LeadThreadsDialogProps> = ({ lead, onClose }) => {
+  const { data: threads = [], isLoading, error } = useLeadThreadsQuery(lead?.id ?? null);
+
+  return (
+    <Dialog open={!!lead} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Conversations with {lead?.firstName || lead?.address}</DialogTitle>
+      <DialogContent>
+        {error && <Alert severity="error">{error.message}</Alert>}
+        {isLoading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', p: 2 }}>
+            <CircularProgress size={24} />
+          </Box>
+        ) : (
+          !error &&
+          (threads.length ? (
+            <List dense data-testid="lead-threads">
+              {threads.map((thread) => (
+                <ListItemButton
+                  key={thread.threadId}
+                  component="a"
+                  href={`/?filter=all&email=${thread.emailId}`}
+                >
+                  <ListItemText
+                    primary={thread.subject || '(no subject)'}
+                    secondary={`${thread.emailCount} ${thread.emailCount === 1 ? 'email' : 'emails'}, last ${formatShortDate(new Date(thread.lastEmailAt))}`}
+                  />
+                </ListItemButton>
+              ))}
+            </List>
+          ) : (
+            <Typography color="text.secondary">No conversations yet</Typography>
+          ))
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+const LeadListBrowser: React.FC = () => {
+  const [selectedListId, setSelectedListId] = useState<number | null>(null);
+  const [newListName, setNewListName] = useState('');
+  const [nameError, setNameError] = useState<string | null>(null);
+  const [importOpen, setImportOpen] = useState(false);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const [openLead, setOpenLead] = useState<Lead | null>(null);
+
+  const { data: lists = [], isLoading: listsLoading } = useLeadListsQuery();
+  const { data: details, isLoading: leadsLoading } = useLeadsQuery(selectedListId);
+  const createListMutation = useCreateLeadList();
+  const deleteListMutation = useDeleteLeadList();
+
+  const leads = useMemo(() => details?.leads ?? [], [details]);
+
+  // Custom field columns, in the order they first appear
+  const customColumns = useMemo(
+    () => [...new Set(leads.flatMap((lead) => Object.keys(lead.customFields)))],
+    [leads],
+  );
+
+  const handleCreateList = useCallback(
+    (event: React.FormEvent) => {
+      event.preventDefault();
+
+      const error = validateLeadListName(newListName);
+      setNameError(error);
+      if (error) return;
+
+      createListMutation.mutate(newListName.trim(), {
+        onSuccess: (list) => {
+          setNewListName('');
+          setSelectedListId(list.id);
+        },
+      });
+    },
+    [newListName, createListMutation],
+  );
+
+  const handleDeleteList = useCallback(() => {
+    if (selectedListId === null) return;
+    deleteListMutation.mutate(selectedListId, { onSuccess: () => setSelectedListId(null) });
+    setConfirmDelete(false);
+  }, [selectedListId, deleteListMutation]);
+
+  return (
+    <Box sx={{ display: 'flex', height: '100vh' }} data-testid="lead-list-browser">
+      {/* Lead lists */}
+      <Box
+        sx={{
+          width: 280,
+          flexShrink: 0,
+          borderRight: '1px solid',
+          borderRightColor: 'divider',
+          display: 'flex',
+          flexDirection: 'column',
+        }}
+      >
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, p: 2 }}>
+          <Tooltip title="Back to mail">
+            <IconButton size="small" component="a" href="/">
+              <ArrowBackIcon fontSize="small" />
+            </IconButton>
+          </Tooltip>
+          <Typography variant="h6">Lead lists</Typography>
+        </Box>
+
+        <Box
+          component="form"
+          onSubmit={handleCreateList}
+          sx={{ display: 'flex', alignItems: 'flex-start', gap: 1, px: 2, pb: 2 }}
+        >
+          <TextField
+            size="small"
+            fullWidth
+            placeholder="New list"
+            value={newListName}
+            onChange={(e) => {
+              setNewListName(e.target.value);
+              setNameError(null);
+              createListMutation.reset();
+            }}
+            error={!!nameError || !!createListMutation.error}
+            helperText={nameError ?? createListMutation.error?.message}
+            inputProps={{ 'data-testid': 'lead-list-name-input' }}
+          />
+          <Tooltip title="Create list">
+            <span>
+              <IconButton
+                type="submit"
+                disabled={createListMutation.isPending}
+                data-testid="create-lead-list-button"
+              >
+                <AddIcon />
+              </IconButton>
+            </span>
+          </Tooltip>
+        </Box>
+
+        <Divider />
+
+        {listsLoading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', p: 2 }}>
+            <CircularProgress size={24} />
+          </Box>
+        ) : (
+          <MenuList sx={{ flex: 1, overflow: 'auto', p: 1 }}>
+            {lists.map((list) => (
+              <MenuItem
+                key={list.id}
+                sx={{ borderRadius: 2, mb: 0.5 }}
+                selected={list.id === selectedListId}
+                onClick={() => setSelectedListId(list.id)}
+                data-testid={`lead-list-${list.id}`}
+              >
+                <ListItemText
+                  primary={list.name}
+                  primaryTypographyProps={{ fontWeight: 500, noWrap: true }}
+                />
+                <Typography variant="body2" color="text.secondary" sx={{ ml: 1 }}>
+                  {list.leadCount}
+                </Typography>
+              </MenuItem>
+            ))}
+          </MenuList>
+        )}
+      </Box>
+
+      {/* Leads on the chosen list */}
+      <Box sx={{ flex: 1, minWidth: 0, display: 'flex', flexDirection: 'column' }}>
+        {selectedListId === null ? (
+          <EmptyState
+            icon={<GroupsIcon sx={{ fontSize: 48 }} />}
+            title="Choose a lead list"
+            description="Create a list, then import leads into it from a CSV file"
+          />
+        ) : (
+          <>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, p: 2 }}>
+              <Box sx={{ flex: 1, minWidth: 0 }}>
+                <Typography variant="h6" noWrap>
+                  {details?.list.name}
+                </Typography>
+                {details && (
+                  <Typography variant="body2" color="text.secondary">
+                    {details.list.leadCount} {details.list.leadCount === 1 ? 'lead' : 'leads'}
+                  </Typography>
+                )}
+              </Box>
+              <Button
+                variant="contained"
+                startIcon={<UploadFileIcon />}
+                onClick={() => setImportOpen(true)}
+                data-testid="import-leads-button"
+              >
+                Import CSV
+              </Button>
+              <Tooltip title="Delete list">
+                <IconButton onClick={() => setConfirmDelete(true)} data-testid="delete-lead-list">
+                  <DeleteIcon />
+                </IconButton>
+              </Tooltip>
+            </Box>
+
+            <Divider />
+
+            {leadsLoading ? (
+              <Box sx={{ display: 'flex', justifyContent: 'center', p: 4 }}>
+                <CircularProgress />
+              </Box>
+            ) : leads.length ? (
+              <TableContainer sx={{ flex: 1 }}>
+                <Table size="small" stickyHeader data-testid="leads-table">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>Email</TableCell>
+                      <TableCell>First name</TableCell>
+                      <TableCell>Company</TableCell>
+                      {customColumns.map((column) => (
+                        <TableCell key={column}>{column}</TableCell>
+                      ))}
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {leads.map((lead) => (
+                      <TableRow
+                        key={lead.id}
+                        hover
+                        onClick={() => setOpenLead(lead)}
+                        sx={{ cursor: 'pointer' }}
+                        title="Show conversations"
+                      >
+                        <TableCell>{lead.address}</TableCell>
+                        <TableCell>{lead.firstName}</TableCell>
+                        <TableCell>{lead.company}</TableCell>
+                        {customColumns.map((column) => (
+                          <TableCell key={column}>{lead.customFields[column]}</TableCell>
+                        ))}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+            ) : (
+              <EmptyState
+                icon={<UploadFileIcon sx={{ fontSize: 48 }} />}
+                title="No leads yet"
+                description="Import a CSV file with a column of email addresses"
+              />
+            )}
+
+            <LeadImportDialog
+              open={importOpen}
+              listId={selectedListId}
+              onClose={() => setImportOpen(false)}
+            />
+          </>
+        )}
+      </Box>
+
+      <LeadThreadsDialog lead={openLead} onClose={() => setOpenLead(null)} />
+
+      <ConfirmDialog
+        open={confirmDelete}
+        title="Delete lead list?"
+        message={`"${details?.list.name}" and its leads will be deleted. Campaigns they were added to keep them.`}
+        onConfirm={handleDeleteList}
+        onClose={() => setConfirmDelete(false)}
+      />
+    </Box>
+  );
+};
+
+export default LeadListBrowser;
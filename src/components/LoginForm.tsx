@@ -0,0 +1,84 @@
+/**
+ * Login Form Component
+ * Email and password sign-in; reloads the mailbox once the session cookie is set
+ */
+
+'use client';
+
+import React, { useState, useCallback } from 'react';
+import { Alert, Box, Button, Paper, TextField, Typography } from '@mui/material';
+import { authService } from '@/services';
+
+const LoginForm: React.FC = () => {
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = useCallback(
+    async (event: React.FormEvent) => {
+      event.preventDefault();
+      setIsSubmitting(true);
+      setError(null);
+
+      const result = await authService.login({ email, password });
+      if (result.status === 'success') {
+        // A full load, so the server renders the new user's mailbox
+        window.location.assign('/');
+        return;
+      }
+      setError(result.error ?? 'Failed to sign in');
+      setIsSubmitting(false);
+    },
+    [email, password],
+  );
+
+  return (
+    <Paper sx={{ p: 4, width: 360 }} data-testid="login-form">
+      <Box component="form" onSubmit={handleSubmit}>
+        <Typography variant="h5" sx={{ fontWeight: 700, color: 'primary.main', mb: 3 }}>
+          📧 Sign in
+        </Typography>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+        <TextField
+          autoFocus
+          fullWidth
+          required
+          type="email"
+          label="Email"
+          autoComplete="username"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          size="small"
+          sx={{ mb: 2 }}
+        />
+        <TextField
+          fullWidth
+          required
+          type="password"
+          label="Password"
+          autoComplete="current-password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          size="small"
+          sx={{ mb: 3 }}
+        />
+        <Button
+          type="submit"
+          variant="contained"
+          fullWidth
+          disabled={isSubmitting}
+          sx={{ textTransform: 'none', fontWeight: 600 }}
+        >
+          Sign in
+        </Button>
+      </Box>
+    </Paper>
+  );
+};
+
+export default LoginForm;
@@ -0,0 +1,145 @@
+/**
+ * Mailbox Dialog Component
+ * Form for adding a sending address with a display name and signature
+ * A signature with HTML tags is sent as an HTML signature and previewed as it will be sent
+ */
+
+'use client';
+
+import React, { useState, useCallback } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { useCreateMailbox } from '@/hooks';
+import { sanitizeSignatureHtml } from '@/lib/signature';
+import { isValidEmail } from '@/lib/utils';
+
+const HTML_TAG = /<[a-z][^>]*>/i;
+
+interface MailboxDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+const MailboxDialog: React.FC<MailboxDialogProps> = ({ open, onClose }) => {
+  const [address, setAddress] = useState('');
+  const [displayName, setDisplayName] = useState('');
+  const [signature, setSignature] = useState('');
+  const [addressError, setAddressError] = useState<string | null>(null);
+
+  const createMailboxMutation = useCreateMailbox();
+  const isHtmlSignature = HTML_TAG.test(signature);
+
+  const handleClose = useCallback(() => {
+    setAddress('');
+    setDisplayName('');
+    setSignature('');
+    setAddressError(null);
+    createMailboxMutation.reset();
+    onClose();
+  }, [onClose, createMailboxMutation]);
+
+  const handleSubmit = useCallback(
+    (event: React.FormEvent) => {
+      event.preventDefault();
+
+      const error = isValidEmail(address) ? null : 'Please enter a valid email address';
+      setAddressError(error);
+      if (error) return;
+
+      createMailboxMutation.mutate(
+        {
+          address: address.trim(),
+          displayName,
+          ...(isHtmlSignature ? { signatureHtml: signature } : { signature }),
+        },
+        { onSuccess: handleClose },
+      );
+    },
+    [address, displayName, signature, isHtmlSignature, createMailboxMutation, handleClose],
+  );
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="xs" fullWidth>
+      <Box component="form" onSubmit={handleSubmit} data-testid="mailbox-dialog">
+        <DialogTitle>Add account</DialogTitle>
+        <DialogContent>
+          {createMailboxMutation.error && (
+            <Alert severity="error" sx={{ mb: 2 }}>
+              {createMailboxMutation.error.message}
+            </Alert>
+          )}
+          <TextField
+            autoFocus
+            fullWidth
+            label="Email address"
+            value={address}
+            onChange={(e) => {
+              setAddress(e.target.value);
+              setAddressError(null);
+            }}
+            error={!!addressError}
+            helperText={addressError}
+            size="small"
+            sx={{ mt: 1, mb: 2 }}
+            inputProps={{ 'data-testid': 'mailbox-address-input' }}
+          />
+          <TextField
+            fullWidth
+            label="Display name"
+            placeholder="Shown as the sender's name"
+            value={displayName}
+            onChange={(e) => setDisplayName(e.target.value)}
+            size="small"
+            sx={{ mb: 2 }}
+            inputProps={{ 'data-testid': 'mailbox-name-input' }}
+          />
+          <TextField
+            fullWidth
+            multiline
+            minRows={3}
+            label="Signature"
+            helperText="Plain text or HTML"
+            value={signature}
+            onChange={(e) => setSignature(e.target.value)}
+            size="small"
+            inputProps={{ 'data-testid': 'mailbox-signature-input' }}
+          />
+          {isHtmlSignature && (
+            <Box sx={{ mt: 2 }}>
+              <Typography variant="caption" color="text.secondary">
+                Preview
+              </Typography>
+              <Box
+                sx={{ p: 1, border: 1, borderColor: 'divider', borderRadius: 1 }}
+                data-testid="mailbox-signature-preview"
+                dangerouslySetInnerHTML={{ __html: sanitizeSignatureHtml(signature) }}
+              />
+            </Box>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={handleClose}>Cancel</Button>
+          <Button
+            type="submit"
+            variant="contained"
+            disabled={createMailboxMutation.isPending}
+            data-testid="mailbox-create-submit"
+          >
+            Add
+          </Button>
+        </DialogActions>
+      </Box>
+    </Dialog>
+  );
+};
+
+export default MailboxDialog;
@@ -0,0 +1,184 @@
+/**
+ * Merge Preview Component
+ * Shows how a message reads once its mail merge variables and spintax are rendered for one
+ * person: the To recipient by default, or any contact or lead picked to preview as
+ */
+
+'use client';
+
+import React, { useState, useMemo } from 'react';
+import {
+  Alert,
+  Autocomplete,
+  Box,
+  IconButton,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import { Shuffle as ShuffleIcon } from '@mui/icons-material';
+import { CONTACT_SUGGEST_DEBOUNCE_MS } from '@/types';
+import { useContactNames, useContactSuggestions, useDebounce, useLeadSuggestions } from '@/hooks';
+import { parseAddressList } from '@/lib/addressList';
+import {
+  mergeValuesFor,
+  MergeValues,
+  renderMergeTemplate,
+  splitQuotedText,
+  validateMergeTemplate,
+} from '@/lib/mailMerge';
+
+interface MergePreviewProps {
+  subject: string;
+  content: string;
+  /** The message's To field; its first recipient is previewed until someone else is picked */
+  to: string;
+}
+
+interface PreviewPerson {
+  key: string;
+  label: string;
+  /** Where the details come from, shown under the name */
+  source: string;
+  values: MergeValues;
+}
+
+const MergePreview: React.FC<MergePreviewProps> = ({ subject, content, to }) => {
+  const [inputValue, setInputValue] = useState('');
+  // What has been typed to search for someone, as opposed to the picked person's name
+  const [query, setQuery] = useState('');
+  const [picked, setPicked] = useState<PreviewPerson | null>(null);
+  // Spintax picks the option at this fraction of each group; shuffling draws a new one
+  const [spin, setSpin] = useState(0);
+
+  const debouncedQuery = useDebounce(query, CONTACT_SUGGEST_DEBOUNCE_MS);
+  const { data: contacts = [] } = useContactSuggestions(debouncedQuery);
+  const { data: leads = [] } = useLeadSuggestions(debouncedQuery);
+  const contactNames = useContactNames();
+
+  // The To recipient, with their saved name and lead details as the server fills them in
+  const [recipient] = useMemo(() => parseAddressList(to), [to]);
+  const { data: recipientLeads = [] } = useLeadSuggestions(recipient?.address ?? '');
+  const recipientPerson = useMemo((): PreviewPerson | null => {
+    if (!recipient) return null;
+    const address = recipient.address.toLowerCase();
+    const lead = recipientLeads.find((match) => match.address === address);
+    return {
+      key: `to:${address}`,
+      label: recipient.name || contactNames.get(address) || recipient.address,
+      source: 'Recipient',
+      values: mergeValuesFor({
+        address: recipient.address,
+        name: recipient.name || contactNames.get(address),
+        firstName: lead?.firstName,
+        company: lead?.company,
+      }),
+    };
+  }, [recipient, recipientLeads, contactNames]);
+
+  const options = useMemo((): PreviewPerson[] => {
+    if (!query.trim()) {
+      return [recipientPerson, picked].filter(
+        (option, index, all): option is PreviewPerson =>
+          !!option && all.findIndex((other) => other?.key === option.key) === index,
+      );
+    }
+    return [
+      ...contacts.map((contact) => ({
+        key: `contact:${contact.id}`,
+        label: contact.name || contact.address,
+        source: `Contact · ${contact.address}`,
+        values: mergeValuesFor(contact),
+      })),
+      ...leads.map((lead) => ({
+        key: `lead:${lead.id}`,
+        label: lead.firstName || lead.address,
+        source: `Lead · ${[lead.address, lead.company].filter(Boolean).join(' · ')}`,
+        values: mergeValuesFor(lead),
+      })),
+    ];
+  }, [query, contacts, leads, recipientPerson, picked]);
+
+  const person = picked ?? recipientPerson;
+
+  const render = (template: string) => {
+    const error = validateMergeTemplate(template);
+    return error
+      ? { error }
+      : { text: renderMergeTemplate(template, person?.values ?? {}, () => spin) };
+  };
+  // Quoted text of a reply is sent as it is
+  const { written, quoted } = splitQuotedText(content);
+  const renderedSubject = render(subject);
+  const renderedContent = render(written);
+
+  return (
+    <Box data-testid="merge-preview">
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 2 }}>
+        <Autocomplete<PreviewPerson>
+          fullWidth
+          size="small"
+          options={options}
+          value={person}
+          inputValue={inputValue}
+          onChange={(_event, selected) => setPicked(selected)}
+          onInputChange={(_event, text, reason) => {
+            setInputValue(text);
+            setQuery(reason === 'input' ? text : '');
+          }}
+          // Suggestions are already filtered and ranked by the server
+          filterOptions={(people) => people}
+          isOptionEqualToValue={(option, value) => option.key === value.key}
+          getOptionLabel={(option) => option.label}
+          getOptionKey={(option) => option.key}
+          renderOption={({ key, ...props }, option) => (
+            <Box component="li" key={key} {...props}>
+              <Box sx={{ minWidth: 0 }}>
+                <Typography variant="body2" sx={{ fontWeight: 600 }} noWrap>
+                  {option.label}
+                </Typography>
+                <Typography variant="body2" color="text.secondary" noWrap>
+                  {option.source}
+                </Typography>
+              </Box>
+            </Box>
+          )}
+          renderInput={(params) => (
+            <TextField
+              {...params}
+              label="Preview as"
+              placeholder="Search contacts and leads"
+              helperText={person?.source}
+              inputProps={{ ...params.inputProps, 'data-testid': 'merge-preview-person' }}
+            />
+          )}
+        />
+        <Tooltip title="Shuffle spintax">
+          <IconButton onClick={() => setSpin(Math.random())} data-testid="merge-preview-shuffle">
+            <ShuffleIcon />
+          </IconButton>
+        </Tooltip>
+      </Box>
+
+      {renderedSubject.error || renderedContent.error ? (
+        <Alert severity="error">{renderedSubject.error || renderedContent.error}</Alert>
+      ) : (
+        <>
+          <Typography variant="subtitle1" sx={{ fontWeight: 600, mb: 1 }}>
+            {renderedSubject.text}
+          </Typography>
+          <Typography
+            variant="body2"
+            sx={{ whiteSpace: 'pre-wrap' }}
+            data-testid="merge-preview-content"
+          >
+            {renderedContent.text}
+            {quoted}
+          </Typography>
+        </>
+      )}
+    </Box>
+  );
+};
+
+export default MergePreview;
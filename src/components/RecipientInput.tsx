@@ -0,0 +1,173 @@
+/**
+ * Recipient Input Component
+ * Address field for To, Cc and Bcc that shows each recipient as a chip and completes partly
+ * typed addresses from the user's contacts
+ * The value stays an RFC 5322 address list, so it is stored and sent like a plain text field;
+ * commas inside quoted display names such as `"Doe, Jane" <jane@example.com>` do not split it
+ */
+
+'use client';
+
+import React, { useState, useCallback, useMemo } from 'react';
+import { Autocomplete, Box, Chip, TextField, Typography } from '@mui/material';
+import { Contact, CONTACT_SUGGEST_DEBOUNCE_MS } from '@/types';
+import { useContactNames, useContactSuggestions, useDebounce } from '@/hooks';
+import { validateEmailList } from '@/lib/utils';
+import { formatAddress, parseAddressList, splitAddressList } from '@/lib/addressList';
+
+interface RecipientInputProps {
+  label: string;
+  placeholder?: string;
+  /** Comma-separated mailboxes, bare or as `Name <address>` */
+  value: string;
+  onChange: (value: string) => void;
+  error?: boolean;
+  helperText?: string;
+  testId: string;
+}
+
+// Typing a comma or semicolon after an address turns it into a chip
+const splitRecipients = (value: string) =>
+  splitAddressList(value)
+    .map((recipient) => recipient.trim())
+    .filter(Boolean);
+
+const RecipientInput: React.FC<RecipientInputProps> = ({
+  label,
+  placeholder,
+  value,
+  onChange,
+  error,
+  helperText,
+  testId,
+}) => {
+  const [inputValue, setInputValue] = useState('');
+  const debouncedInput = useDebounce(inputValue, CONTACT_SUGGEST_DEBOUNCE_MS);
+  const { data: suggestions = [] } = useContactSuggestions(debouncedInput);
+  const contactNames = useContactNames();
+
+  const recipients = useMemo(() => splitRecipients(value), [value]);
+
+  // Contacts already added are not suggested again
+  const options = useMemo(() => {
+    if (!inputValue.trim()) return [];
+    const added = new Set(parseAddressList(value).map(({ address }) => address.toLowerCase()));
+    return suggestions.filter(({ address }) => !added.has(address.toLowerCase()));
+  }, [inputValue, suggestions, value]);
+
+  /**
+   * Adds typed addresses as chips, keeping the existing ones
+   */
+  const commit = useCallback(
+    (typed: string) => {
+      const added = splitRecipients(typed);
+      if (added.length) onChange([...recipients, ...added].join(', '));
+    },
+    [recipients, onChange],
+  );
+
+  const handleChange = useCallback(
+    (_event: React.SyntheticEvent, selected: (Contact | string)[]) => {
+      onChange(
+        selected
+          .flatMap((recipient) =>
+            typeof recipient === 'string'
+              ? splitRecipients(recipient)
+              : [formatAddress({ name: recipient.name ?? '', address: recipient.address })],
+          )
+          .join(', '),
+      );
+    },
+    [onChange],
+  );
+
+  const handleInputChange = useCallback(
+    (_event: React.SyntheticEvent, text: string, reason: string) => {
+      // Pasted or typed separators finish every address before the last one
+      const parts = splitAddressList(text);
+      if (reason === 'input' && parts.length > 1) {
+        commit(parts.slice(0, -1).join(','));
+        setInputValue(parts[parts.length - 1].trimStart());
+        return;
+      }
+      setInputValue(text);
+    },
+    [commit],
+  );
+
+  /**
+   * Keeps an address that was typed but not confirmed when the field loses focus
+   */
+  const handleBlur = useCallback(() => {
+    commit(inputValue);
+    setInputValue('');
+  }, [commit, inputValue]);
+
+  return (
+    <Autocomplete<Contact | string, true, false, true>
+      multiple
+      freeSolo
+      fullWidth
+      size="small"
+      options={options}
+      value={recipients}
+      inputValue={inputValue}
+      onChange={handleChange}
+      onInputChange={handleInputChange}
+      onBlur={handleBlur}
+      // Suggestions are already filtered and ranked by the server
+      filterOptions={(contacts) => contacts}
+      getOptionLabel={(option) => (typeof option === 'string' ? option : option.address)}
+      renderOption={({ key, ...props }, option) =>
+        typeof option !== 'string' && (
+          <Box component="li" key={key} {...props}>
+            <Box sx={{ minWidth: 0 }}>
+              {option.name && (
+                <Typography variant="body2" sx={{ fontWeight: 600 }} noWrap>
+                  {option.name}
+                </Typography>
+              )}
+              <Typography variant="body2" color="text.secondary" noWrap>
+                {option.address}
+              </Typography>
+            </Box>
+          </Box>
+        )
+      }
+      renderValue={(selected, getItemProps) =>
+        selected.map((recipient, index) => {
+          const { key, ...itemProps } = getItemProps({ index });
+          const text = typeof recipient === 'string' ? recipient : recipient.address;
+          const [mailbox] = parseAddressList(text);
+          const address = mailbox?.address ?? text;
+          const valid = validateEmailList(text);
+          return (
+            <Chip
+              key={key}
+              {...itemProps}
+              size="small"
+              label={contactNames.get(address.toLowerCase()) || mailbox?.name || address}
+              title={text}
+              color={valid ? 'default' : 'error'}
+              variant={valid ? 'filled' : 'outlined'}
+              data-testid={`${testId}-chip`}
+            />
+          );
+        })
+      }
+      renderInput={(params) => (
+        <TextField
+          {...params}
+          label={label}
+          placeholder={recipients.length ? undefined : placeholder}
+          error={error}
+          helperText={helperText}
+          inputProps={{ ...params.inputProps, 'data-testid': testId }}
+        />
+      )}
+      sx={{ mb: 2 }}
+    />
+  );
+};
+
+export default RecipientInput;
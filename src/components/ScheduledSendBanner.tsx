@@ -0,0 +1,71 @@
+/**
+ * Scheduled Send Banner Component
+ * Shows when a scheduled email will be sent, with actions to reschedule or cancel it
+ */
+
+'use client';
+
+import React, { useState } from 'react';
+import { Alert, Button } from '@mui/material';
+import { Schedule as ScheduleIcon } from '@mui/icons-material';
+import { Email } from '@/types';
+import { useCancelScheduledEmail, useRescheduleEmail } from '@/hooks';
+import { formatFullDate, getSendLaterPresets } from '@/lib/utils';
+import DateTimeMenu from './DateTimeMenu';
+
+interface ScheduledSendBannerProps {
+  email: Pick<Email, 'id' | 'scheduledAt'>;
+}
+
+const ScheduledSendBanner: React.FC<ScheduledSendBannerProps> = ({ email }) => {
+  const [menuAnchor, setMenuAnchor] = useState<HTMLElement | null>(null);
+  const rescheduleMutation = useRescheduleEmail();
+  const cancelMutation = useCancelScheduledEmail();
+  const error = rescheduleMutation.error ?? cancelMutation.error;
+
+  return (
+    <Alert
+      severity={error ? 'error' : 'info'}
+      icon={<ScheduleIcon />}
+      sx={{ mb: 2 }}
+      data-testid="scheduled-send-banner"
+      action={
+        <>
+          <Button
+            color="inherit"
+            size="small"
+            onClick={(event) => setMenuAnchor(event.currentTarget)}
+            disabled={rescheduleMutation.isPending}
+          >
+            Reschedule
+          </Button>
+          <Button
+            color="inherit"
+            size="small"
+            onClick={() => cancelMutation.mutate(email.id)}
+            disabled={cancelMutation.isPending}
+            data-testid="cancel-scheduled-send"
+          >
+            Cancel send
+          </Button>
+          <DateTimeMenu
+            anchorEl={menuAnchor}
+            onClose={() => setMenuAnchor(null)}
+            title="Reschedule send"
+            presets={getSendLaterPresets()}
+            confirmLabel="Reschedule"
+            onSelect={(date) =>
+              rescheduleMutation.mutate({ emailId: email.id, scheduledAt: date.toISOString() })
+            }
+          />
+        </>
+      }
+    >
+      {error
+        ? error.message
+        : `Scheduled to send ${email.scheduledAt ? formatFullDate(email.scheduledAt) : 'later'}`}
+    </Alert>
+  );
+};
+
+export default ScheduledSendBanner;
@@ -1,14 +1,21 @@
 /**
  * Search Bar Component
  * Reusable search input with debounced updates
+ * Shows the parsed search operators as chips and reports syntax errors inline
  */
 
 'use client';
 
-import React from 'react';
-import { TextField, InputAdornment, IconButton } from '@mui/material';
+import React, { useMemo } from 'react';
+import { Box, Chip, TextField, InputAdornment, IconButton } from '@mui/material';
 import { Search as SearchIcon, Clear as ClearIcon } from '@mui/icons-material';
 import { useDebouncedState } from '@/hooks';
+import {
+  parseSearchQuery,
+  formatSearchTerm,
+  SearchQueryError,
+  SearchTerm,
+} from '@/lib/searchQuery';
 
 interface SearchBarProps {
   value: string;
@@ -28,6 +35,22 @@ const SearchBar: React.FC<SearchBarProps> = ({
 }) => {
   const [localValue, setLocalValue, flush] = useDebouncedState(value, onChange, debounceMs);
 
+  // Parse the committed query (not every keystroke) so chips and errors match what is searched
+  const { operatorTerms, syntaxError } = useMemo((): {
+    operatorTerms: SearchTerm[];
+    syntaxError: string | null;
+  } => {
+    try {
+      const { terms } = parseSearchQuery(value);
+      return { operatorTerms: terms.filter((term) => term.operator), syntaxError: null };
+    } catch (error) {
+      if (error instanceof SearchQueryError) {
+        return { operatorTerms: [], syntaxError: error.message };
+      }
+      throw error;
+    }
+  }, [value]);
+
   const handleChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     setLocalValue(event.target.value);
   };
@@ -39,44 +62,64 @@ const SearchBar: React.FC<SearchBarProps> = ({
   };
 
   return (
-    <TextField
-      fullWidth
-      placeholder={placeholder}
-      variant="outlined"
-      size="small"
-      value={localValue}
-      onChange={handleChange}
-      disabled={disabled}
-      InputProps={{
-        startAdornment: (
-          <InputAdornment position="start">
-            <SearchIcon color="action" />
-          </InputAdornment>
-        ),
-        endAdornment: value && (
-          <InputAdornment position="end">
-            <IconButton
+    <Box>
+      <TextField
+        fullWidth
+        placeholder={placeholder}
+        variant="outlined"
+        size="small"
+        value={localValue}
+        onChange={handleChange}
+        disabled={disabled}
+        error={!!syntaxError}
+        helperText={syntaxError}
+        InputProps={{
+          startAdornment: (
+            <InputAdornment position="start">
+              <SearchIcon color="action" />
+            </InputAdornment>
+          ),
+          endAdornment: value && (
+            <InputAdornment position="end">
+              <IconButton
+                size="small"
+                onClick={handleClear}
+                edge="end"
+                aria-label="Clear search"
+                data-testid="search-clear-button"
+              >
+                <ClearIcon fontSize="small" />
+              </IconButton>
+            </InputAdornment>
+          ),
+        }}
+        sx={{
+          '& .MuiOutlinedInput-root': {
+            backgroundColor: 'background.default',
+          },
+        }}
+        inputProps={{
+          'data-testid': 'search-input',
+          'aria-label': 'Search emails',
+        }}
+      />
+      {operatorTerms.length > 0 && (
+        <Box
+          sx={{ display: 'flex', gap: 0.5, flexWrap: 'wrap', mt: 1 }}
+          data-testid="search-operator-chips"
+        >
+          {operatorTerms.map((term) => (
+            <Chip
+              key={term.position}
+              label={formatSearchTerm(term)}
               size="small"
-              onClick={handleClear}
-              edge="end"
-              aria-label="Clear search"
-              data-testid="search-clear-button"
-            >
-              <ClearIcon fontSize="small" />
-            </IconButton>
-          </InputAdornment>
-        ),
-      }}
-      sx={{
-        '& .MuiOutlinedInput-root': {
-          backgroundColor: 'background.default',
-        },
-      }}
-      inputProps={{
-        'data-testid': 'search-input',
-        'aria-label': 'Search emails',
-      }}
-    />
+              color={term.negated ? 'error' : 'primary'}
+              variant="outlined"
+            />
+          ))}
+        </Box>
+      )}
+    </Box>
   );
 };
 
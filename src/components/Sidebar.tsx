@@ -16,21 +16,46 @@ import {
   Badge,
   MenuList,
   MenuItem,
+  IconButton,
+  Tooltip,
 } from '@mui/material';
 import {
   Inbox as InboxIcon,
   Star as StarIcon,
   Send as SendIcon,
+  Drafts as DraftsIcon,
+  Schedule as ScheduleIcon,
+  Snooze as SnoozeIcon,
+  AllInbox as AllMailIcon,
+  Archive as ArchiveIcon,
   Edit as EditIcon,
   Delete as DeleteIcon,
+  Label as LabelIcon,
+  Add as AddIcon,
+  Logout as LogoutIcon,
+  AlternateEmail as AccountIcon,
+  MoveToInbox as AllAccountsIcon,
+  Groups as LeadsIcon,
 } from '@mui/icons-material';
-import { EmailFilter, EmailStats } from '@/types';
+import { EmailFilter, EmailStats, LabelWithCounts, MailboxWithCounts, SessionUser } from '@/types';
+import { toLabelFilter } from '@/lib/utils';
 
 interface SidebarProps {
   activeFilter: EmailFilter;
   onFilterChange: (filter: EmailFilter) => void;
   onComposeClick: () => void;
   stats: EmailStats;
+  labels?: LabelWithCounts[];
+  onCreateLabel?: () => void;
+  /** The user's sending addresses, badged with their unread counts */
+  mailboxes?: MailboxWithCounts[];
+  /** Mailbox ID being listed; null for every account */
+  activeAccount?: number | null;
+  onAccountChange?: (account: number | null) => void;
+  onAddAccount?: () => void;
+  /** The signed-in user, shown at the bottom with a sign-out button */
+  user?: SessionUser;
+  onSignOut?: () => void;
 }
 
 interface FilterItem {
@@ -53,12 +78,39 @@ const FILTER_ITEMS: FilterItem[] = [
     icon: <StarIcon fontSize="small" />,
     getBadge: (stats) => (stats.important > 0 ? stats.important : undefined),
   },
+  {
+    id: 'snoozed',
+    label: 'Snoozed',
+    icon: <SnoozeIcon fontSize="small" />,
+  },
   {
     id: 'sent',
     label: 'Sent',
     icon: <SendIcon fontSize="small" />,
     getBadge: (stats) => (stats.sent > 0 ? stats.sent : undefined),
   },
+  {
+    id: 'scheduled',
+    label: 'Scheduled',
+    icon: <ScheduleIcon fontSize="small" />,
+    getBadge: (stats) => (stats.scheduled > 0 ? stats.scheduled : undefined),
+  },
+  {
+    id: 'drafts',
+    label: 'Drafts',
+    icon: <DraftsIcon fontSize="small" />,
+  },
+  {
+    id: 'all',
+    label: 'All Mail',
+    icon: <AllMailIcon fontSize="small" />,
+  },
+  {
+    id: 'archive',
+    label: 'Archive',
+    icon: <ArchiveIcon fontSize="small" />,
+    getBadge: (stats) => (stats.archived > 0 ? stats.archived : undefined),
+  },
 ];
 
 const TRASH_ITEM: FilterItem = {
@@ -67,11 +119,29 @@ const TRASH_ITEM: FilterItem = {
   icon: <DeleteIcon fontSize="small" />,
 };
 
+/**
+ * Builds a filter item for a label, badged with its unread count
+ */
+const toLabelItem = (label: LabelWithCounts): FilterItem => ({
+  id: toLabelFilter(label.name),
+  label: label.name,
+  icon: <LabelIcon fontSize="small" sx={{ color: label.color }} />,
+  getBadge: () => (label.unreadCount > 0 ? label.unreadCount : undefined),
+});
+
 const Sidebar: React.FC<SidebarProps> = ({
   activeFilter,
   onFilterChange,
   onComposeClick,
   stats,
+  labels = [],
+  onCreateLabel,
+  mailboxes = [],
+  activeAccount = null,
+  onAccountChange,
+  onAddAccount,
+  user,
+  onSignOut,
 }) => {
   const renderFilterItem = (item: FilterItem) => {
     const badgeCount = item.getBadge?.(stats);
@@ -147,12 +217,146 @@ const Sidebar: React.FC<SidebarProps> = ({
       <MenuList sx={{ p: 0 }}>
         {FILTER_ITEMS.map(renderFilterItem)}
 
+        {/* Labels */}
+        {(labels.length > 0 || onCreateLabel) && (
+          <Box data-testid="sidebar-labels">
+            <Divider sx={{ my: 1 }} />
+            <Box sx={{ display: 'flex', alignItems: 'center', px: 2, py: 0.5 }}>
+              <Typography
+                variant="overline"
+                color="text.secondary"
+                sx={{ flex: 1, fontWeight: 600, lineHeight: 2 }}
+              >
+                Labels
+              </Typography>
+              {onCreateLabel && (
+                <Tooltip title="Create label">
+                  <IconButton
+                    size="small"
+                    onClick={onCreateLabel}
+                    data-testid="create-label-button"
+                  >
+                    <AddIcon fontSize="small" />
+                  </IconButton>
+                </Tooltip>
+              )}
+            </Box>
+            {labels.map((label) => renderFilterItem(toLabelItem(label)))}
+          </Box>
+        )}
+
+        {/* Accounts */}
+        {(mailboxes.length > 1 || onAddAccount) && (
+          <Box data-testid="sidebar-accounts">
+            <Divider sx={{ my: 1 }} />
+            <Box sx={{ display: 'flex', alignItems: 'center', px: 2, py: 0.5 }}>
+              <Typography
+                variant="overline"
+                color="text.secondary"
+                sx={{ flex: 1, fontWeight: 600, lineHeight: 2 }}
+              >
+                Accounts
+              </Typography>
+              {onAddAccount && (
+                <Tooltip title="Add account">
+                  <IconButton size="small" onClick={onAddAccount} data-testid="add-account-button">
+                    <AddIcon fontSize="small" />
+                  </IconButton>
+                </Tooltip>
+              )}
+            </Box>
+            {mailboxes.length > 1 && (
+              <MenuItem
+                sx={{ borderRadius: 2, mb: 0.5 }}
+                onClick={() => onAccountChange?.(null)}
+                selected={activeAccount === null}
+                data-testid="account-all"
+              >
+                <ListItemIcon sx={{ minWidth: 40 }}>
+                  <AllAccountsIcon fontSize="small" />
+                </ListItemIcon>
+                <ListItemText primary="All accounts" primaryTypographyProps={{ fontWeight: 500 }} />
+              </MenuItem>
+            )}
+            {mailboxes.map((mailbox) => (
+              <MenuItem
+                key={mailbox.id}
+                sx={{ borderRadius: 2, mb: 0.5 }}
+                onClick={() => onAccountChange?.(mailbox.id)}
+                selected={activeAccount === mailbox.id}
+                title={mailbox.address}
+                data-testid={`account-${mailbox.id}`}
+              >
+                <ListItemIcon sx={{ minWidth: 40 }}>
+                  <AccountIcon fontSize="small" />
+                </ListItemIcon>
+                <ListItemText
+                  primary={mailbox.displayName || mailbox.address}
+                  secondary={mailbox.displayName ? mailbox.address : undefined}
+                  primaryTypographyProps={{ fontWeight: 500, noWrap: true }}
+                  secondaryTypographyProps={{ noWrap: true }}
+                />
+                {mailbox.unreadCount > 0 && (
+                  <Badge badgeContent={mailbox.unreadCount} color="secondary" sx={{ ml: 1 }} />
+                )}
+              </MenuItem>
+            ))}
+          </Box>
+        )}
+
         {/* Divider before Trash */}
         <Divider sx={{ my: 1 }} />
 
         {/* Trash Item */}
         {renderFilterItem(TRASH_ITEM)}
+
+        {/* Lead lists live on their own page */}
+        <MenuItem
+          component="a"
+          href="/leads"
+          sx={{ borderRadius: 2, mb: 0.5 }}
+          data-testid="sidebar-leads"
+        >
+          <ListItemIcon sx={{ minWidth: 40 }}>
+            <LeadsIcon fontSize="small" />
+          </ListItemIcon>
+          <ListItemText primary="Lead lists" primaryTypographyProps={{ fontWeight: 500 }} />
+        </MenuItem>
       </MenuList>
+
+      {/* Signed-in User */}
+      {user && (
+        <Box
+          sx={{
+            mt: 'auto',
+            p: 2,
+            borderTop: '1px solid',
+            borderTopColor: 'divider',
+            display: 'flex',
+            alignItems: 'center',
+            gap: 1,
+          }}
+          data-testid="sidebar-user"
+        >
+          <Box sx={{ flex: 1, minWidth: 0 }}>
+            {user.name && (
+              <Typography variant="body2" noWrap sx={{ fontWeight: 600 }}>
+                {user.name}
+              </Typography>
+            )}
+            <Typography variant="caption" color="text.secondary" noWrap component="div">
+              {user.email}
+            </Typography>
+          </Box>
+          {onSignOut && (
+            <Tooltip title="Sign out">
+              <IconButton size="small" onClick={onSignOut} data-testid="sign-out-button">
+                <LogoutIcon fontSize="small" />
+              </IconButton>
+            </Tooltip>
+          )}
+        </Box>
+      )}
     </Box>
   );
 };
@@ -7,11 +7,15 @@
 
 import React from 'react';
 import { Box, Chip } from '@mui/material';
-import { Send as SendIcon } from '@mui/icons-material';
-import { Email, EmailDirection } from '@/types';
+import { Send as SendIcon, Schedule as ScheduleIcon } from '@mui/icons-material';
+import { Email, EmailDirection, EmailStatus } from '@/types';
+import { formatShortDate, isSnoozed } from '@/lib/utils';
 
 interface StatusChipsProps {
-  email: Pick<Email, 'isRead' | 'isImportant' | 'direction'>;
+  email: Pick<
+    Email,
+    'isRead' | 'isImportant' | 'direction' | 'isDraft' | 'status' | 'snoozedUntil'
+  >;
   size?: 'small' | 'medium';
 }
 
@@ -20,22 +24,45 @@ export const StatusChips: React.FC<StatusChipsProps> = ({ email, size = 'small'
 
   return (
     <Box sx={{ display: 'flex', gap: 0.5, flexWrap: 'wrap' }}>
-      {email.direction === EmailDirection.OUTGOING && (
+      {email.isDraft && (
+        <Chip label="Draft" size={size} color="error" variant="outlined" sx={chipSx} />
+      )}
+      {email.status === EmailStatus.SCHEDULED && !email.isDraft && (
         <Chip
-          icon={<SendIcon sx={{ fontSize: '0.75rem !important' }} />}
-          label="Sent"
+          icon={<ScheduleIcon sx={{ fontSize: '0.75rem !important' }} />}
+          label="Scheduled"
           size={size}
           color="info"
           variant="outlined"
           sx={{ ...chipSx, paddingLeft: 0.5 }}
         />
       )}
+      {email.direction === EmailDirection.OUTGOING &&
+        email.status === EmailStatus.SENT &&
+        !email.isDraft && (
+          <Chip
+            icon={<SendIcon sx={{ fontSize: '0.75rem !important' }} />}
+            label="Sent"
+            size={size}
+            color="info"
+            variant="outlined"
+            sx={{ ...chipSx, paddingLeft: 0.5 }}
+          />
+        )}
       {!email.isRead && (
         <Chip label="Unread" size={size} color="warning" variant="outlined" sx={chipSx} />
       )}
       {email.isImportant && (
         <Chip label="Important" size={size} color="secondary" variant="outlined" sx={chipSx} />
       )}
+      {isSnoozed(email) && (
+        <Chip
+          label={`Snoozed until ${formatShortDate(email.snoozedUntil!)}`}
+          size={size}
+          variant="outlined"
+          sx={chipSx}
+        />
+      )}
     </Box>
   );
 };
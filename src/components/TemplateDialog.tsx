@@ -0,0 +1,184 @@
+/**
+ * Template Dialog Component
+ * Form for creating, editing and deleting an email template
+ * Mounted only while open, so each opening starts from the given values
+ */
+
+'use client';
+
+import React, { useState, useCallback } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  TextField,
+} from '@mui/material';
+import { Template, TemplateRequest } from '@/types';
+import { useCreateTemplate, useDeleteTemplate, useUpdateTemplate } from '@/hooks';
+import { MERGE_VARIABLES } from '@/lib/mailMerge';
+import { validateTemplateFields } from '@/lib/utils';
+import ConfirmDialog from './ConfirmDialog';
+
+interface TemplateDialogProps {
+  /** Template being edited; a new one is created when omitted */
+  template?: Template;
+  /** Starting subject and body for a new template, such as the message being written */
+  initialValues?: Partial<TemplateRequest>;
+  onClose: () => void;
+}
+
+const VARIABLES_HINT = `Use ${MERGE_VARIABLES.map((name) => `{{${name}}}`).join(', ')}, {{company | "fallback"}} and {Hi|Hello} spintax`;
+
+const TemplateDialog: React.FC<TemplateDialogProps> = ({ template, initialValues, onClose }) => {
+  const [fields, setFields] = useState<TemplateRequest>({
+    name: template?.name ?? initialValues?.name ?? '',
+    subject: template?.subject ?? initialValues?.subject ?? '',
+    body: template?.body ?? initialValues?.body ?? '',
+    category: template?.category ?? initialValues?.category ?? '',
+  });
+  const [errors, setErrors] = useState<Partial<Record<keyof TemplateRequest, string>>>({});
+  const [confirmDelete, setConfirmDelete] = useState(false);
+
+  const createTemplateMutation = useCreateTemplate();
+  const updateTemplateMutation = useUpdateTemplate();
+  const deleteTemplateMutation = useDeleteTemplate();
+  const mutationError =
+    createTemplateMutation.error ?? updateTemplateMutation.error ?? deleteTemplateMutation.error;
+  const isPending =
+    createTemplateMutation.isPending ||
+    updateTemplateMutation.isPending ||
+    deleteTemplateMutation.isPending;
+
+  const handleChange =
+    (field: keyof TemplateRequest) => (event: React.ChangeEvent<HTMLInputElement>) => {
+      setFields((prev) => ({ ...prev, [field]: event.target.value }));
+      setErrors((prev) => ({ ...prev, [field]: undefined }));
+    };
+
+  const handleSubmit = useCallback(
+    (event: React.FormEvent) => {
+      event.preventDefault();
+
+      const fieldErrors = validateTemplateFields(fields);
+      setErrors(fieldErrors);
+      if (Object.keys(fieldErrors).length) return;
+
+      const request = {
+        ...fields,
+        name: fields.name.trim(),
+        category: fields.category?.trim() || null,
+      };
+      if (template) {
+        updateTemplateMutation.mutate(
+          { templateId: template.id, changes: request },
+          { onSuccess: onClose },
+        );
+      } else {
+        createTemplateMutation.mutate(request, { onSuccess: onClose });
+      }
+    },
+    [fields, template, createTemplateMutation, updateTemplateMutation, onClose],
+  );
+
+  return (
+    <Dialog open onClose={onClose} maxWidth="sm" fullWidth>
+      <Box component="form" onSubmit={handleSubmit} data-testid="template-dialog">
+        <DialogTitle>{template ? 'Edit template' : 'New template'}</DialogTitle>
+        <DialogContent>
+          {mutationError && (
+            <Alert severity="error" sx={{ mb: 2 }}>
+              {mutationError.message}
+            </Alert>
+          )}
+          <Box sx={{ display: 'flex', gap: 2, mt: 1, mb: 2 }}>
+            <TextField
+              autoFocus
+              fullWidth
+              label="Name"
+              value={fields.name}
+              onChange={handleChange('name')}
+              error={!!errors.name}
+              helperText={errors.name}
+              size="small"
+              inputProps={{ 'data-testid': 'template-name-input' }}
+            />
+            <TextField
+              fullWidth
+              label="Category"
+              placeholder="Uncategorised"
+              value={fields.category ?? ''}
+              onChange={handleChange('category')}
+              error={!!errors.category}
+              helperText={errors.category}
+              size="small"
+              inputProps={{ 'data-testid': 'template-category-input' }}
+            />
+          </Box>
+          <TextField
+            fullWidth
+            label="Subject"
+            value={fields.subject}
+            onChange={handleChange('subject')}
+            error={!!errors.subject}
+            helperText={errors.subject}
+            size="small"
+            sx={{ mb: 2 }}
+            inputProps={{ 'data-testid': 'template-subject-input' }}
+          />
+          <TextField
+            fullWidth
+            multiline
+            rows={8}
+            label="Body"
+            value={fields.body}
+            onChange={handleChange('body')}
+            error={!!errors.body}
+            helperText={errors.body ?? VARIABLES_HINT}
+            inputProps={{ 'data-testid': 'template-body-input' }}
+          />
+        </DialogContent>
+        <DialogActions>
+          {template && (
+            <Button
+              color="error"
+              disabled={isPending}
+              onClick={() => setConfirmDelete(true)}
+              sx={{ mr: 'auto' }}
+              data-testid="template-delete"
+            >
+              Delete
+            </Button>
+          )}
+          <Button onClick={onClose}>Cancel</Button>
+          <Button
+            type="submit"
+            variant="contained"
+            disabled={isPending}
+            data-testid="template-save"
+          >
+            {template ? 'Save' : 'Create'}
+          </Button>
+        </DialogActions>
+      </Box>
+
+      {template && (
+        <ConfirmDialog
+          open={confirmDelete}
+          title="Delete template?"
+          message={`"${template.name}" will be deleted. Messages already written from it are not changed.`}
+          onConfirm={() => {
+            setConfirmDelete(false);
+            deleteTemplateMutation.mutate(template.id, { onSuccess: onClose });
+          }}
+          onClose={() => setConfirmDelete(false)}
+        />
+      )}
+    </Dialog>
+  );
+};
+
+export default TemplateDialog;
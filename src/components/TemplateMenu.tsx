@@ -0,0 +1,154 @@
+/**
+ * Template Menu Component
+ * Composer button listing the user's templates by category to insert one, with options to
+ * save the message being written as a template and to create or edit templates
+ */
+
+'use client';
+
+import React, { useState } from 'react';
+import {
+  Divider,
+  IconButton,
+  ListItemIcon,
+  ListItemText,
+  ListSubheader,
+  Menu,
+  MenuItem,
+  Tooltip,
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Description as TemplateIcon,
+  Edit as EditIcon,
+  SaveAs as SaveAsIcon,
+} from '@mui/icons-material';
+import { Template, TemplateRequest } from '@/types';
+import { useRecordTemplateUse, useTemplatesQuery } from '@/hooks';
+import TemplateDialog from './TemplateDialog';
+
+interface TemplateMenuProps {
+  /** Called with the chosen template; its use is counted here */
+  onInsert: (template: Template) => void;
+  /** The message being written, offered to save as a new template */
+  draft: { subject: string; body: string };
+}
+
+type DialogState = { template?: Template; initialValues?: Partial<TemplateRequest> } | null;
+
+const formatUseCount = (count: number) =>
+  count ? `Used ${count} ${count === 1 ? 'time' : 'times'}` : 'Not used yet';
+
+const TemplateMenu: React.FC<TemplateMenuProps> = ({ onInsert, draft }) => {
+  const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null);
+  const [dialog, setDialog] = useState<DialogState>(null);
+
+  const { data: templates = [] } = useTemplatesQuery();
+  const recordUseMutation = useRecordTemplateUse();
+
+  const openDialog = (state: NonNullable<DialogState>) => {
+    setAnchorEl(null);
+    setDialog(state);
+  };
+
+  const handleInsert = (template: Template) => {
+    setAnchorEl(null);
+    onInsert(template);
+    recordUseMutation.mutate(template.id);
+  };
+
+  // Templates arrive ordered by category; a heading starts each one when any are categorised
+  const hasCategories = templates.some((template) => template.category);
+  const items = templates.flatMap((template, index) => {
+    const item = (
+      <MenuItem
+        key={template.id}
+        onClick={() => handleInsert(template)}
+        data-testid={`template-${template.id}`}
+      >
+        <ListItemText
+          primary={template.name}
+          secondary={formatUseCount(template.useCount)}
+          primaryTypographyProps={{ noWrap: true }}
+        />
+        <Tooltip title="Edit template">
+          <IconButton
+            size="small"
+            edge="end"
+            sx={{ ml: 1 }}
+            onClick={(event) => {
+              event.stopPropagation();
+              openDialog({ template });
+            }}
+            data-testid={`edit-template-${template.id}`}
+          >
+            <EditIcon fontSize="small" />
+          </IconButton>
+        </Tooltip>
+      </MenuItem>
+    );
+    const category = template.category;
+    if (!hasCategories || (index > 0 && templates[index - 1].category === category)) {
+      return [item];
+    }
+    return [
+      <ListSubheader key={`category-${category ?? ''}`}>{category ?? 'Other'}</ListSubheader>,
+      item,
+    ];
+  });
+
+  return (
+    <>
+      <Tooltip title="Insert template">
+        <IconButton
+          onClick={(event) => setAnchorEl(event.currentTarget)}
+          data-testid="composer-template-button"
+        >
+          <TemplateIcon />
+        </IconButton>
+      </Tooltip>
+      <Menu
+        anchorEl={anchorEl}
+        open={Boolean(anchorEl)}
+        onClose={() => setAnchorEl(null)}
+        MenuListProps={{ dense: true, sx: { minWidth: 260, maxWidth: 360 } }}
+        data-testid="template-menu"
+      >
+        {items.length ? (
+          items
+        ) : (
+          <MenuItem disabled>
+            <ListItemText primary="No templates yet" />
+          </MenuItem>
+        )}
+        <Divider />
+        <MenuItem
+          disabled={!draft.subject.trim() && !draft.body.trim()}
+          onClick={() => openDialog({ initialValues: draft })}
+          data-testid="save-as-template"
+        >
+          <ListItemIcon>
+            <SaveAsIcon fontSize="small" />
+          </ListItemIcon>
+          <ListItemText primary="Save message as template" />
+        </MenuItem>
+        <MenuItem onClick={() => openDialog({})} data-testid="new-template">
+          <ListItemIcon>
+            <AddIcon fontSize="small" />
+          </ListItemIcon>
+          <ListItemText primary="New template" />
+        </MenuItem>
+      </Menu>
+
+      {dialog && (
+        <TemplateDialog
+          template={dialog.template}
+          initialValues={dialog.initialValues}
+          onClose={() => setDialog(null)}
+        />
+      )}
+    </>
+  );
+};
+
+export default TemplateMenu;
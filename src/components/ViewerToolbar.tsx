@@ -8,13 +8,20 @@
 import React from 'react';
 import { Box, IconButton, Tooltip } from '@mui/material';
 import { ArrowBack as ArrowBackIcon } from '@mui/icons-material';
+import ExportMenu from './ExportMenu';
 
 interface ViewerToolbarProps {
   onClose: () => void;
+  /** Offers an export of this conversation after the other actions */
+  exportThreadId?: string;
   children?: React.ReactNode;
 }
 
-export const ViewerToolbar: React.FC<ViewerToolbarProps> = ({ onClose, children }) => {
+export const ViewerToolbar: React.FC<ViewerToolbarProps> = ({
+  onClose,
+  exportThreadId,
+  children,
+}) => {
   return (
     <Box
       sx={{
@@ -33,6 +40,9 @@ export const ViewerToolbar: React.FC<ViewerToolbarProps> = ({ onClose, children
       </Tooltip>
       <Box sx={{ flex: 1 }} />
       {children}
+      {exportThreadId && (
+        <ExportMenu params={{ threadId: exportThreadId }} tooltip="Export conversation" />
+      )}
     </Box>
   );
 };
@@ -1,6 +1,7 @@
 /**
  * Components barrel export
  */
+export { default as AttachmentList } from './AttachmentList';
 export { default as ConversationViewer } from './ConversationViewer';
 export { default as EmailCard } from './EmailCard';
 export { default as EmailComposer } from './EmailComposer';
@@ -12,7 +13,22 @@ export { default as SearchBar } from './SearchBar';
 export { default as Sidebar } from './Sidebar';
 export { default as EmailAvatar } from './EmailAvatar';
 export { default as StatusChips } from './StatusChips';
+export { default as LabelChips } from './LabelChips';
+export { default as LabelDialog } from './LabelDialog';
+export { default as MailboxDialog } from './MailboxDialog';
+export { default as RecipientInput } from './RecipientInput';
+export { default as DateTimeMenu } from './DateTimeMenu';
+export { default as ScheduledSendBanner } from './ScheduledSendBanner';
+export { default as DeliveryStatusChip } from './DeliveryStatusChip';
+export { default as ConfirmDialog } from './ConfirmDialog';
 export { default as EmailToolbarActions } from './EmailToolbarActions';
 export { default as ViewerToolbar } from './ViewerToolbar';
+export { default as ExportMenu } from './ExportMenu';
 export { default as EmptyState } from './EmptyState';
 export { default as ThemeProvider } from './ThemeProvider';
+export { default as LoginForm } from './LoginForm';
+export { default as LeadImportDialog } from './LeadImportDialog';
+export { default as LeadListBrowser } from './LeadListBrowser';
+export { default as MergePreview } from './MergePreview';
+export { default as TemplateDialog } from './TemplateDialog';
+export { default as TemplateMenu } from './TemplateMenu';
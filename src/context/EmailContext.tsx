@@ -6,49 +6,86 @@
 'use client';
 
 import React, { createContext, useContext, useState, ReactNode, useCallback, useEffect } from 'react';
-import { Email, EmailFilter, EmailStats } from '@/types';
+import { EmailFilter, EmailSearchResult, EmailStats, Label, LabelWithCounts, MailboxWithCounts } from '@/types';
 import {
   useEmailsQuery,
   useStatsQuery,
+  useLabelsQuery,
+  useMailboxesQuery,
   useDeleteEmail,
+  useEmptyTrash,
   useMarkAsRead,
   useToggleImportant,
   useRestoreEmail,
+  useUpdateEmailLabels,
+  useSnoozeEmail,
+  useArchiveEmail,
   useEmailUrlParams,
+  useMailEvents,
 } from '@/hooks';
 
 interface EmailContextState {
-  emails: Email[];
-  selectedEmail: Email | null;
+  emails: EmailSearchResult[];
+  selectedEmail: EmailSearchResult | null;
   activeFilter: EmailFilter;
   searchQuery: string;
   isLoading: boolean;
+  hasMoreEmails: boolean;
+  isLoadingMore: boolean;
   error: string | null;
   isThreaded: boolean;
   stats: EmailStats;
-  setSelectedEmail: (email: Email | null) => void;
+  labels: LabelWithCounts[];
+  mailboxes: MailboxWithCounts[];
+  /** Mailbox ID being listed; null for the unified inbox of every account */
+  activeAccount: number | null;
+  setSelectedEmail: (email: EmailSearchResult | null) => void;
   setActiveFilter: (filter: EmailFilter) => void;
+  setActiveAccount: (account: number | null) => void;
   setSearchQuery: (query: string) => void;
   setIsThreaded: (threaded: boolean) => void;
   refreshEmails: () => Promise<void>;
+  loadMoreEmails: () => void;
   deleteEmail: (emailId: number, threadId?: string, filter?: EmailFilter) => Promise<void>;
   restoreEmail: (emailId: number, threadId?: string) => Promise<void>;
+  /** Permanently deletes a trashed email, or the trashed part of a thread when threadId is given */
+  deleteForever: (emailId: number, threadId?: string) => Promise<void>;
+  emptyTrash: () => Promise<void>;
   markAsRead: (emailId: number) => Promise<void>;
   toggleImportant: (emailId: number, currentIsImportant?: boolean, singleEmailOnly?: boolean) => Promise<void>;
+  toggleLabel: (emailId: number, label: Label, applied: boolean) => Promise<void>;
+  /** Snoozes an email, or the whole thread when threadId is given; null unsnoozes */
+  snoozeEmail: (emailId: number, snoozedUntil: Date | null, threadId?: string) => Promise<void>;
+  /** Archives an email, or the whole thread when threadId is given; false moves it back to the inbox */
+  archiveEmail: (emailId: number, isArchived: boolean, threadId?: string) => Promise<void>;
 }
 
 const EmailContext = createContext<EmailContextState | undefined>(undefined);
 
-const DEFAULT_STATS: EmailStats = { total: 0, unread: 0, important: 0, deleted: 0, sent: 0 };
+const DEFAULT_STATS: EmailStats = {
+  total: 0,
+  unread: 0,
+  important: 0,
+  deleted: 0,
+  sent: 0,
+  scheduled: 0,
+  archived: 0,
+};
 
 export function EmailProvider({
   children,
   initialEmails,
+  initialNextCursor = null,
   initialStats,
+  initialLabels,
+  initialMailboxes,
 }: {
   children: ReactNode;
-  initialEmails: Email[];
+  initialEmails: EmailSearchResult[];
+  initialNextCursor?: string | null;
   initialStats: EmailStats;
+  initialLabels?: LabelWithCounts[];
+  initialMailboxes?: MailboxWithCounts[];
 }) {
   const {
     filter: activeFilter,
@@ -59,29 +96,48 @@ export function EmailProvider({
     setThreaded: setIsThreaded,
     selectedEmailId,
     setSelectedEmailId,
+    account: activeAccount,
+    setAccount: setActiveAccount,
   } = useEmailUrlParams();
 
-  const [selectedEmail, setSelectedEmailState] = useState<Email | null>(null);
+  const [selectedEmail, setSelectedEmailState] = useState<EmailSearchResult | null>(null);
 
   const {
     data: emails = [],
     isLoading,
     error: queryError,
     refetch,
+    hasNextPage,
+    fetchNextPage,
+    isFetchingNextPage,
   } = useEmailsQuery({
     query: searchQuery || undefined,
     filter: activeFilter,
     threaded: isThreaded,
-    initialData: initialEmails,
+    account: activeAccount ?? undefined,
+    initialData: { emails: initialEmails, nextCursor: initialNextCursor },
   });
 
+  const loadMoreEmails = useCallback(() => {
+    if (hasNextPage && !isFetchingNextPage) fetchNextPage();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
   const { data: stats = DEFAULT_STATS } = useStatsQuery(initialStats);
+  const { data: labels = [] } = useLabelsQuery(initialLabels);
+  const { data: mailboxes = [] } = useMailboxesQuery(initialMailboxes);
+
+  // Live updates from the server: new mail, changes from other tabs, unread counts
+  useMailEvents();
 
   // Mutations
   const deleteEmailMutation = useDeleteEmail();
+  const emptyTrashMutation = useEmptyTrash();
   const restoreEmailMutation = useRestoreEmail();
   const markAsReadMutation = useMarkAsRead();
   const toggleImportantMutation = useToggleImportant();
+  const updateEmailLabelsMutation = useUpdateEmailLabels();
+  const snoozeEmailMutation = useSnoozeEmail();
+  const archiveEmailMutation = useArchiveEmail();
 
   // Sync selected email from URL
   useEffect(() => {
@@ -94,7 +150,7 @@ export function EmailProvider({
   }, [selectedEmailId, emails]);
 
   const setSelectedEmail = useCallback(
-    (email: Email | null) => {
+    (email: EmailSearchResult | null) => {
       setSelectedEmailState(email);
       setSelectedEmailId(email ? String(email.id) : null);
     },
@@ -113,7 +169,7 @@ export function EmailProvider({
 
   // Find email by ID from list or selected
   const findEmail = useCallback(
-    (emailId: number): Email | undefined => emails.find((e) => e.id === emailId) ?? (selectedEmail?.id === emailId ? selectedEmail : undefined),
+    (emailId: number): EmailSearchResult | undefined => emails.find((e) => e.id === emailId) ?? (selectedEmail?.id === emailId ? selectedEmail : undefined),
     [emails, selectedEmail],
   );
 
@@ -125,6 +181,19 @@ export function EmailProvider({
     [deleteEmailMutation, clearSelectionIfMatches],
   );
 
+  const handleDeleteForever = useCallback(
+    async (emailId: number, threadId?: string) => {
+      await deleteEmailMutation.mutateAsync({ emailId, threadId, permanent: true });
+      clearSelectionIfMatches(emailId, threadId);
+    },
+    [deleteEmailMutation, clearSelectionIfMatches],
+  );
+
+  const handleEmptyTrash = useCallback(async () => {
+    await emptyTrashMutation.mutateAsync();
+    if (activeFilter === 'trash') setSelectedEmail(null);
+  }, [emptyTrashMutation, activeFilter, setSelectedEmail]);
+
   const handleRestoreEmail = useCallback(
     async (emailId: number, threadId?: string) => {
       await restoreEmailMutation.mutateAsync({ emailId, threadId });
@@ -163,6 +232,37 @@ export function EmailProvider({
     [findEmail, toggleImportantMutation, selectedEmail, isThreaded],
   );
 
+  const handleToggleLabel = useCallback(
+    async (emailId: number, label: Label, applied: boolean) => {
+      const threadId = isThreaded ? findEmail(emailId)?.threadId : undefined;
+      await updateEmailLabelsMutation.mutateAsync({ emailId, label, applied, threadId });
+    },
+    [findEmail, updateEmailLabelsMutation, isThreaded],
+  );
+
+  const handleSnoozeEmail = useCallback(
+    async (emailId: number, snoozedUntil: Date | null, threadId?: string) => {
+      await snoozeEmailMutation.mutateAsync({ emailId, snoozedUntil, threadId });
+      if (snoozedUntil) clearSelectionIfMatches(emailId, threadId);
+    },
+    [snoozeEmailMutation, clearSelectionIfMatches],
+  );
+
+  const handleArchiveEmail = useCallback(
+    async (emailId: number, isArchived: boolean, threadId?: string) => {
+      await archiveEmailMutation.mutateAsync({ emailId, isArchived, threadId });
+
+      // Close the email if it left the current list, otherwise just flip its flag
+      const leftList = isArchived ? activeFilter === 'inbox' && !searchQuery.trim() : activeFilter === 'archive';
+      if (leftList) {
+        clearSelectionIfMatches(emailId, threadId);
+      } else if (threadId ? selectedEmail?.threadId === threadId : selectedEmail?.id === emailId) {
+        setSelectedEmailState((prev) => (prev ? { ...prev, isArchived } : null));
+      }
+    },
+    [archiveEmailMutation, activeFilter, searchQuery, clearSelectionIfMatches, selectedEmail],
+  );
+
   return (
     <EmailContext.Provider
       value={{
@@ -171,18 +271,30 @@ export function EmailProvider({
         activeFilter,
         searchQuery,
         isLoading,
+        hasMoreEmails: hasNextPage,
+        isLoadingMore: isFetchingNextPage,
         error: queryError?.message || null,
         isThreaded,
         stats,
+        labels,
+        mailboxes,
+        activeAccount,
         setSelectedEmail,
         setActiveFilter,
+        setActiveAccount,
         setSearchQuery,
         setIsThreaded,
         refreshEmails: useCallback(async () => { await refetch(); }, [refetch]),
+        loadMoreEmails,
         deleteEmail: handleDeleteEmail,
         restoreEmail: handleRestoreEmail,
+        deleteForever: handleDeleteForever,
+        emptyTrash: handleEmptyTrash,
         markAsRead: handleMarkAsRead,
         toggleImportant: handleToggleImportant,
+        toggleLabel: handleToggleLabel,
+        snoozeEmail: handleSnoozeEmail,
+        archiveEmail: handleArchiveEmail,
       }}
     >
       {children}
@@ -10,16 +10,68 @@ export {
   useEmailsQuery,
   useStatsQuery,
   useThreadQuery,
+  useMailEvents,
   useCreateEmail,
   useDeleteEmail,
+  useEmptyTrash,
   useMarkAsRead,
   useToggleImportant,
   useRestoreEmail,
+  useUpdateEmailLabels,
+  useSnoozeEmail,
+  useArchiveEmail,
+  useRescheduleEmail,
+  useCancelScheduledEmail,
+  useRetryDelivery,
+  useSaveDraft,
+  useDeleteDraft,
 } from './useEmailQueries';
+export {
+  labelKeys,
+  useLabelsQuery,
+  useCreateLabel,
+  useUpdateLabel,
+  useDeleteLabel,
+} from './useLabelQueries';
+export {
+  mailboxKeys,
+  useMailboxesQuery,
+  useCreateMailbox,
+  useUpdateMailbox,
+  useDeleteMailbox,
+} from './useMailboxQueries';
+export {
+  contactKeys,
+  useContactsQuery,
+  useContactSuggestions,
+  useContactNames,
+  useCreateContact,
+  useUpdateContact,
+  useDeleteContact,
+} from './useContactQueries';
+export {
+  leadKeys,
+  useLeadListsQuery,
+  useLeadsQuery,
+  useLeadThreadsQuery,
+  useLeadSuggestions,
+  useCreateLeadList,
+  useDeleteLeadList,
+  useImportLeads,
+} from './useLeadQueries';
+export {
+  templateKeys,
+  useTemplatesQuery,
+  useCreateTemplate,
+  useUpdateTemplate,
+  useDeleteTemplate,
+  useRecordTemplateUse,
+} from './useTemplateQueries';
 export {
   useFilterParam,
   useSearchParam,
   useThreadedParam,
   useSelectedEmailParam,
+  useAccountParam,
   useEmailUrlParams,
 } from './useUrlParams';
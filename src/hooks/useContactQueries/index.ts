@@ -0,0 +1,7 @@
+/**
+ * Contact Queries barrel export
+ */
+
+export { contactKeys } from './queryKeys';
+export { useContactsQuery, useContactSuggestions, useContactNames } from './useContactsQuery';
+export { useCreateContact, useUpdateContact, useDeleteContact } from './useContactMutations';
@@ -0,0 +1,19 @@
+/**
+ * Contact Query Keys - Centralized query key management for contact queries
+ */
+
+/**
+ * Query key factory for contact-related queries
+ */
+export const contactKeys = {
+  // Base key for all contact queries
+  all: ['contacts'] as const,
+
+  // Full contact list
+  lists: () => [...contactKeys.all, 'list'] as const,
+
+  // Suggestions for a partly typed recipient
+  suggestions: (query: string) => [...contactKeys.all, 'suggest', query] as const,
+};
+
+export default contactKeys;
@@ -0,0 +1,91 @@
+/**
+ * useContactMutations - TanStack Query mutations for contact operations
+ */
+
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { ContactRequest } from '@/types';
+import { contactService } from '@/services';
+import { contactKeys } from './queryKeys';
+
+/**
+ * Hook for adding a contact
+ *
+ * @example
+ * const { mutate: createContact } = useCreateContact();
+ * createContact({ address: 'ana@example.com', name: 'Ana Lima' });
+ */
+export function useCreateContact() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (contact: ContactRequest) => {
+      const response = await contactService.createContact(contact);
+
+      if (response.status === 'error') {
+        throw new Error(response.error || 'Failed to add contact');
+      }
+
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: contactKeys.all });
+    },
+  });
+}
+
+interface UpdateContactParams {
+  contactId: number;
+  changes: Partial<ContactRequest>;
+}
+
+/**
+ * Hook for changing a contact's address or name
+ */
+export function useUpdateContact() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ contactId, changes }: UpdateContactParams) => {
+      const response = await contactService.updateContact(contactId, changes);
+
+      if (response.status === 'error') {
+        throw new Error(response.error || 'Failed to update contact');
+      }
+
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: contactKeys.all });
+    },
+  });
+}
+
+/**
+ * Hook for removing a contact
+ */
+export function useDeleteContact() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (contactId: number) => {
+      const response = await contactService.deleteContact(contactId);
+
+      if (response.status === 'error') {
+        throw new Error(response.error || 'Failed to remove contact');
+      }
+
+      return contactId;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: contactKeys.all });
+    },
+  });
+}
+
+export const contactMutations = {
+  useCreateContact,
+  useUpdateContact,
+  useDeleteContact,
+};
+
+export default contactMutations;
@@ -0,0 +1,79 @@
+/**
+ * useContactsQuery - TanStack Query hooks for fetching contacts
+ */
+
+import { useMemo } from 'react';
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+import { contactService } from '@/services';
+import { contactKeys } from './queryKeys';
+
+/**
+ * Hook for fetching all of the user's contacts, most emailed first
+ * Refetched whenever new mail invalidates contactKeys.all
+ *
+ * @example
+ * const { data: contacts = [] } = useContactsQuery();
+ */
+export function useContactsQuery() {
+  return useQuery({
+    queryKey: contactKeys.lists(),
+    queryFn: async () => {
+      const response = await contactService.fetchContacts();
+
+      if (response.status === 'error') {
+        throw new Error(response.error || 'Failed to fetch contacts');
+      }
+
+      return response.data ?? [];
+    },
+  });
+}
+
+/**
+ * Hook for the contacts that best complete a partly typed recipient
+ * Nothing is fetched for a blank query; the previous suggestions stay while the next load
+ *
+ * @example
+ * const debouncedInput = useDebounce(input, 200);
+ * const { data: suggestions = [] } = useContactSuggestions(debouncedInput);
+ */
+export function useContactSuggestions(query: string) {
+  const term = query.trim();
+
+  return useQuery({
+    queryKey: contactKeys.suggestions(term),
+    queryFn: async () => {
+      const response = await contactService.suggestContacts(term);
+
+      if (response.status === 'error') {
+        throw new Error(response.error || 'Failed to suggest contacts');
+      }
+
+      return response.data ?? [];
+    },
+    enabled: term.length > 0,
+    placeholderData: keepPreviousData,
+  });
+}
+
+/**
+ * Hook for the names the user has stored for their contacts, by lowercased address
+ * Pass the map to getDisplayName so people show under the name they are saved as
+ *
+ * @example
+ * const contactNames = useContactNames();
+ * getDisplayName(email.from, contactNames);
+ */
+export function useContactNames(): ReadonlyMap<string, string> {
+  const { data: contacts } = useContactsQuery();
+
+  return useMemo(
+    () =>
+      new Map(
+        (contacts ?? []).flatMap(({ address, name }) => (name ? [[address, name] as const] : [])),
+      ),
+    [contacts],
+  );
+}
+
+export default useContactsQuery;
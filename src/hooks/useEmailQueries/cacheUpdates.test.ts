@@ -0,0 +1,139 @@
+/**
+ * Tests for applying live mail events to the cached email queries
+ */
+
+import { QueryClient } from '@tanstack/react-query';
+import { EmailDirection, EmailSearchResult, EmailStats, EmailStatus } from '@/types';
+import { applyMailEvent, EmailListData } from './cacheUpdates';
+import { emailKeys, EmailQueryParams } from './queryKeys';
+
+const makeEmail = (id: number, overrides: Partial<EmailSearchResult> = {}): EmailSearchResult =>
+  ({
+    id,
+    threadId: `thread-${id}`,
+    subject: `Email ${id}`,
+    from: 'ana@example.com',
+    to: 'me@company.com',
+    direction: EmailDirection.INCOMING,
+    status: EmailStatus.SENT,
+    isRead: false,
+    isImportant: false,
+    isArchived: false,
+    isDeleted: false,
+    isDraft: false,
+    snoozedUntil: null,
+    labels: [],
+    attachments: [],
+    ...overrides,
+  }) as EmailSearchResult;
+
+const toData = (emails: EmailSearchResult[]): EmailListData => ({
+  pages: [{ emails, nextCursor: null }],
+  pageParams: [undefined],
+});
+
+describe('applyMailEvent', () => {
+  let queryClient: QueryClient;
+
+  const seedList = (params: EmailQueryParams, emails: EmailSearchResult[]) =>
+    queryClient.setQueryData(emailKeys.list(params), toData(emails));
+  const listIds = (params: EmailQueryParams) =>
+    queryClient
+      .getQueryData<EmailListData>(emailKeys.list(params))
+      ?.pages.flatMap((page) => page.emails.map((email) => email.id));
+  const isStale = (queryKey: readonly unknown[]) =>
+    queryClient.getQueryState(queryKey)?.isInvalidated;
+
+  beforeEach(() => {
+    queryClient = new QueryClient();
+  });
+
+  afterEach(() => {
+    queryClient.clear();
+  });
+
+  it('should add a new email to the top of the lists it belongs in', () => {
+    seedList({ filter: 'inbox' }, [makeEmail(1)]);
+    seedList({ filter: 'sent' }, [makeEmail(2, { direction: EmailDirection.OUTGOING })]);
+    seedList({ filter: 'inbox', query: 'invoice' }, [makeEmail(1)]);
+
+    applyMailEvent(queryClient, { type: 'email.created', email: makeEmail(3) });
+
+    expect(listIds({ filter: 'inbox' })).toEqual([3, 1]);
+    expect(listIds({ filter: 'sent' })).toEqual([2]);
+    // Only the server can tell whether a search matches
+    expect(listIds({ filter: 'inbox', query: 'invoice' })).toEqual([1]);
+    expect(isStale(emailKeys.list({ filter: 'inbox', query: 'invoice' }))).toBe(true);
+  });
+
+  it('should only add a new email to the account lists of its mailbox', () => {
+    seedList({ filter: 'inbox' }, [makeEmail(1, { mailboxId: 1 })]);
+    seedList({ filter: 'inbox', account: 1 }, [makeEmail(1, { mailboxId: 1 })]);
+    seedList({ filter: 'inbox', account: 2 }, []);
+
+    applyMailEvent(queryClient, { type: 'email.created', email: makeEmail(3, { mailboxId: 2 }) });
+
+    expect(listIds({ filter: 'inbox' })).toEqual([3, 1]);
+    expect(listIds({ filter: 'inbox', account: 1 })).toEqual([1]);
+    expect(listIds({ filter: 'inbox', account: 2 })).toEqual([3]);
+  });
+
+  it('should replace the conversation row in threaded lists', () => {
+    seedList({ filter: 'inbox', threaded: true }, [makeEmail(1), makeEmail(2)]);
+
+    applyMailEvent(queryClient, {
+      type: 'email.created',
+      email: makeEmail(5, { threadId: 'thread-2' }),
+    });
+
+    expect(listIds({ filter: 'inbox', threaded: true })).toEqual([5, 1]);
+  });
+
+  it('should update emails in place and drop them from lists they left', () => {
+    seedList({ filter: 'inbox' }, [makeEmail(1), makeEmail(2)]);
+    seedList({ filter: 'archive' }, []);
+    queryClient.setQueryData(
+      [...emailKeys.thread('thread-1'), { filter: 'inbox' }],
+      toData([makeEmail(1)]),
+    );
+
+    applyMailEvent(queryClient, {
+      type: 'email.updated',
+      emails: [makeEmail(1, { isRead: true }), makeEmail(2, { isArchived: true })],
+    });
+
+    const inbox = queryClient.getQueryData<EmailListData>(emailKeys.list({ filter: 'inbox' }));
+    expect(inbox?.pages[0].emails).toEqual([expect.objectContaining({ id: 1, isRead: true })]);
+    expect(
+      queryClient.getQueryData<EmailListData>([
+        ...emailKeys.thread('thread-1'),
+        { filter: 'inbox' },
+      ])?.pages[0].emails[0].isRead,
+    ).toBe(true);
+    // The archive does not have the email yet, so it refetches
+    expect(isStale(emailKeys.list({ filter: 'archive' }))).toBe(true);
+  });
+
+  it('should remove deleted emails', () => {
+    seedList({ filter: 'trash' }, [
+      makeEmail(1, { isDeleted: true }),
+      makeEmail(2, { isDeleted: true }),
+    ]);
+
+    applyMailEvent(queryClient, { type: 'email.deleted', ids: [1] });
+
+    expect(listIds({ filter: 'trash' })).toEqual([2]);
+  });
+
+  it('should store new stats and refetch everything on mailbox.changed', () => {
+    const stats = { total: 4, unread: 2 } as EmailStats;
+    seedList({ filter: 'inbox' }, [makeEmail(1)]);
+
+    applyMailEvent(queryClient, { type: 'stats.changed', stats });
+    expect(queryClient.getQueryData(emailKeys.stats())).toEqual(stats);
+    expect(isStale(emailKeys.list({ filter: 'inbox' }))).toBeFalsy();
+
+    applyMailEvent(queryClient, { type: 'mailbox.changed' });
+    expect(isStale(emailKeys.list({ filter: 'inbox' }))).toBe(true);
+  });
+});
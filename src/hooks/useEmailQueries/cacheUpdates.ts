@@ -0,0 +1,162 @@
+/**
+ * Cache Updates - Helpers for editing cached email lists and threads in place
+ * Shared by the optimistic updates in useEmailMutations and the live updates in useMailEvents
+ */
+
+import { InfiniteData, QueryClient } from '@tanstack/react-query';
+import { EmailPage, EmailSearchResult, EmailStats, MailEventPayload } from '@/types';
+import { matchesFilter } from '@/lib/utils';
+import { labelKeys } from '../useLabelQueries/queryKeys';
+import { mailboxKeys } from '../useMailboxQueries/queryKeys';
+import { contactKeys } from '../useContactQueries/queryKeys';
+import { emailKeys, EmailQueryParams } from './queryKeys';
+
+/** Cached shape of a paginated email list or thread (see useEmailsQuery, useThreadQuery) */
+export type EmailListData = InfiniteData<EmailPage, string | undefined>;
+
+/**
+ * Applies an update to every loaded page of every cached email list
+ * The update also receives the list's query params, for changes that only affect some views
+ */
+export function updateEmailLists(
+  queryClient: QueryClient,
+  update: (emails: EmailSearchResult[], params: EmailQueryParams) => EmailSearchResult[],
+) {
+  queryClient
+    .getQueriesData<EmailListData>({ queryKey: emailKeys.lists() })
+    .forEach(([queryKey, old]) => {
+      if (!old) return;
+      const params = (queryKey[2] ?? {}) as EmailQueryParams;
+      queryClient.setQueryData<EmailListData>(queryKey, {
+        ...old,
+        pages: old.pages.map((page) => ({ ...page, emails: update(page.emails, params) })),
+      });
+    });
+}
+
+/**
+ * Applies an update to every loaded page of every cached thread
+ */
+function updateThreads(
+  queryClient: QueryClient,
+  update: (emails: EmailSearchResult[]) => EmailSearchResult[],
+) {
+  queryClient
+    .getQueriesData<EmailListData>({ queryKey: emailKeys.threads() })
+    .forEach(([queryKey, old]) => {
+      if (!old) return;
+      queryClient.setQueryData<EmailListData>(queryKey, {
+        ...old,
+        pages: old.pages.map((page) => ({ ...page, emails: update(page.emails) })),
+      });
+    });
+}
+
+/**
+ * Whether an email belongs in a cached list - its folder, and its account when the list has one
+ */
+const belongsInList = (email: EmailSearchResult, { filter, account }: EmailQueryParams) =>
+  matchesFilter(email, filter) && (account === undefined || email.mailboxId === account);
+
+/**
+ * Refetches everything an event could not be applied to precisely
+ */
+function invalidateAll(queryClient: QueryClient) {
+  queryClient.invalidateQueries({ queryKey: emailKeys.lists() });
+  queryClient.invalidateQueries({ queryKey: emailKeys.threads() });
+  queryClient.invalidateQueries({ queryKey: emailKeys.stats() });
+  queryClient.invalidateQueries({ queryKey: labelKeys.all });
+  queryClient.invalidateQueries({ queryKey: mailboxKeys.all });
+  queryClient.invalidateQueries({ queryKey: contactKeys.all });
+}
+
+/**
+ * Adds a new email to the top of each unsearched list it belongs in
+ * Threaded lists show one row per conversation, so the email replaces its thread's row.
+ * Search results and the email's thread are refetched, as only the server can place it there.
+ */
+function addEmail(queryClient: QueryClient, email: EmailSearchResult) {
+  queryClient
+    .getQueriesData<EmailListData>({ queryKey: emailKeys.lists() })
+    .forEach(([queryKey, old]) => {
+      if (!old) return;
+      const params = (queryKey[2] ?? {}) as EmailQueryParams;
+      const { query, threaded } = params;
+      if (query) return queryClient.invalidateQueries({ queryKey, exact: true });
+      if (!belongsInList(email, params)) return;
+
+      const keep = (row: EmailSearchResult) =>
+        row.id !== email.id && !(threaded && row.threadId === email.threadId);
+      queryClient.setQueryData<EmailListData>(queryKey, {
+        ...old,
+        pages: old.pages.map((page, index) => ({
+          ...page,
+          emails: [...(index === 0 ? [email] : []), ...page.emails.filter(keep)],
+        })),
+      });
+    });
+
+  queryClient.invalidateQueries({ queryKey: emailKeys.thread(email.threadId) });
+}
+
+/**
+ * Replaces changed emails wherever they are cached
+ * Emails that no longer belong in an unsearched list are dropped from it; a list that should
+ * now show an email it does not have is refetched
+ */
+function replaceEmails(queryClient: QueryClient, changed: EmailSearchResult[]) {
+  const byId = new Map(changed.map((email) => [email.id, email]));
+  const merge = (row: EmailSearchResult) => {
+    const update = byId.get(row.id);
+    return update ? { ...row, ...update } : row;
+  };
+
+  queryClient
+    .getQueriesData<EmailListData>({ queryKey: emailKeys.lists() })
+    .forEach(([queryKey, old]) => {
+      if (!old) return;
+      const params = (queryKey[2] ?? {}) as EmailQueryParams;
+      const { query } = params;
+      const listed = new Set(old.pages.flatMap((page) => page.emails.map((row) => row.id)));
+      const keep = (row: EmailSearchResult) => !!query || belongsInList(row, params);
+
+      queryClient.setQueryData<EmailListData>(queryKey, {
+        ...old,
+        pages: old.pages.map((page) => ({ ...page, emails: page.emails.map(merge).filter(keep) })),
+      });
+      if (
+        !query &&
+        changed.some((email) => !listed.has(email.id) && belongsInList(email, params))
+      ) {
+        queryClient.invalidateQueries({ queryKey, exact: true });
+      }
+    });
+
+  updateThreads(queryClient, (emails) => emails.map(merge));
+}
+
+/**
+ * Applies a live event from the server to the cached email queries
+ */
+export function applyMailEvent(queryClient: QueryClient, event: MailEventPayload) {
+  switch (event.type) {
+    case 'email.created':
+      // The people on new mail are recorded as contacts
+      queryClient.invalidateQueries({ queryKey: contactKeys.all });
+      return addEmail(queryClient, event.email);
+    case 'email.updated':
+      return replaceEmails(queryClient, event.emails);
+    case 'email.deleted': {
+      const ids = new Set(event.ids);
+      updateEmailLists(queryClient, (emails) => emails.filter((email) => !ids.has(email.id)));
+      return updateThreads(queryClient, (emails) => emails.filter((email) => !ids.has(email.id)));
+    }
+    case 'stats.changed':
+      queryClient.setQueryData<EmailStats>(emailKeys.stats(), event.stats);
+      // Label and account badges count unread mail too
+      queryClient.invalidateQueries({ queryKey: labelKeys.all });
+      return queryClient.invalidateQueries({ queryKey: mailboxKeys.all });
+    case 'mailbox.changed':
+      return invalidateAll(queryClient);
+  }
+}
@@ -6,10 +6,19 @@ export { emailKeys } from './queryKeys';
 export { useEmailsQuery } from './useEmailsQuery';
 export { useStatsQuery } from './useStatsQuery';
 export { useThreadQuery } from './useThreadQuery';
+export { useMailEvents } from './useMailEvents';
 export {
   useCreateEmail,
   useDeleteEmail,
+  useEmptyTrash,
   useMarkAsRead,
   useToggleImportant,
   useRestoreEmail,
+  useUpdateEmailLabels,
+  useSnoozeEmail,
+  useArchiveEmail,
+  useRescheduleEmail,
+  useCancelScheduledEmail,
+  useRetryDelivery,
 } from './useEmailMutations';
+export { useSaveDraft, useDeleteDraft } from './useDraftMutations';
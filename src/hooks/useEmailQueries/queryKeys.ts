@@ -9,6 +9,7 @@ export interface EmailQueryParams {
   query?: string;
   filter?: EmailFilter;
   threaded?: boolean;
+  account?: number;
 }
 
 /**
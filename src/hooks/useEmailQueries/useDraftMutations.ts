@@ -0,0 +1,73 @@
+/**
+ * useDraftMutations - TanStack Query mutations for composer drafts
+ * Drafts are emails, so saving one refreshes the email lists (the drafts folder)
+ */
+
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { DraftRequest } from '@/types';
+import { draftService } from '@/services';
+import { emailKeys } from './queryKeys';
+
+interface SaveDraftParams {
+  /** Existing draft to update; a new draft is created when omitted */
+  draftId?: number;
+  draft: DraftRequest;
+}
+
+/**
+ * Hook for creating or updating a draft
+ *
+ * @example
+ * const { mutateAsync: saveDraft } = useSaveDraft();
+ * const draft = await saveDraft({ draft: { subject: 'Hello' } });
+ * await saveDraft({ draftId: draft.id, draft: { content: 'Hi!' } });
+ */
+export function useSaveDraft() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ draftId, draft }: SaveDraftParams) => {
+      const response = draftId
+        ? await draftService.updateDraft(draftId, draft)
+        : await draftService.createDraft(draft);
+
+      if (response.status === 'error') {
+        throw new Error(response.error || 'Failed to save draft');
+      }
+
+      return response.data!;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: emailKeys.lists() });
+    },
+  });
+}
+
+/**
+ * Hook for discarding a draft
+ */
+export function useDeleteDraft() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (draftId: number) => {
+      const response = await draftService.deleteDraft(draftId);
+
+      if (response.status === 'error') {
+        throw new Error(response.error || 'Failed to discard draft');
+      }
+
+      return draftId;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: emailKeys.lists() });
+    },
+  });
+}
+
+export const draftMutations = {
+  useSaveDraft,
+  useDeleteDraft,
+};
+
+export default draftMutations;
@@ -4,9 +4,13 @@
  */
 
 import { useMutation, useQueryClient } from '@tanstack/react-query';
-import { Email, EmailStats, CreateEmailRequest } from '@/types';
+import { EmailSearchResult, EmailStats, CreateEmailRequest, Label } from '@/types';
 import { emailService } from '@/services';
+import { labelKeys } from '../useLabelQueries/queryKeys';
+import { mailboxKeys } from '../useMailboxQueries/queryKeys';
+import { contactKeys } from '../useContactQueries/queryKeys';
 import { emailKeys } from './queryKeys';
+import { EmailListData, updateEmailLists } from './cacheUpdates';
 
 /**
  * Hook for creating a new email
@@ -33,6 +37,10 @@ export function useCreateEmail() {
       queryClient.invalidateQueries({ queryKey: emailKeys.lists() });
       queryClient.invalidateQueries({ queryKey: emailKeys.threads() });
       queryClient.invalidateQueries({ queryKey: emailKeys.stats() });
+      queryClient.invalidateQueries({ queryKey: labelKeys.all });
+      queryClient.invalidateQueries({ queryKey: mailboxKeys.all });
+      // The recipients were recorded as contacts
+      queryClient.invalidateQueries({ queryKey: contactKeys.all });
     },
   });
 }
@@ -41,6 +49,8 @@ interface DeleteEmailParams {
   emailId: number;
   threadId?: string;
   filter?: string;
+  /** Hard-delete email(s) that are already in the trash */
+  permanent?: boolean;
 }
 
 /**
@@ -51,13 +61,14 @@ interface DeleteEmailParams {
  * deleteEmail({ emailId: 1 }); // Delete single email
  * deleteEmail({ emailId: 1, threadId: 'thread-123' }); // Delete entire thread
  * deleteEmail({ emailId: 1, threadId: 'thread-123', filter: 'important' }); // Delete only important emails in thread
+ * deleteEmail({ emailId: 1, permanent: true }); // Delete forever from the trash
  */
 export function useDeleteEmail() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async ({ emailId, threadId, filter }: DeleteEmailParams) => {
-      const response = await emailService.deleteEmail(emailId, threadId, filter);
+    mutationFn: async ({ emailId, threadId, filter, permanent }: DeleteEmailParams) => {
+      const response = await emailService.deleteEmail(emailId, threadId, filter, permanent);
 
       if (response.status === 'error') {
         throw new Error(response.error || 'Failed to delete email');
@@ -70,14 +81,13 @@ export function useDeleteEmail() {
       await queryClient.cancelQueries({ queryKey: emailKeys.lists() });
 
       // Snapshot the previous value
-      const previousEmails = queryClient.getQueriesData<Email[]>({ queryKey: emailKeys.lists() });
+      const previousEmails = queryClient.getQueriesData<EmailListData>({
+        queryKey: emailKeys.lists(),
+      });
 
       // Optimistically update all email lists
-      queryClient.setQueriesData<Email[]>(
-        { queryKey: emailKeys.lists() },
-        (old) =>
-          old?.filter((email) => (threadId ? email.threadId !== threadId : email.id !== emailId)) ??
-          [],
+      updateEmailLists(queryClient, (emails) =>
+        emails.filter((email) => (threadId ? email.threadId !== threadId : email.id !== emailId)),
       );
 
       return { previousEmails };
@@ -95,6 +105,67 @@ export function useDeleteEmail() {
       queryClient.invalidateQueries({ queryKey: emailKeys.lists() });
       queryClient.invalidateQueries({ queryKey: emailKeys.threads() });
       queryClient.invalidateQueries({ queryKey: emailKeys.stats() });
+      queryClient.invalidateQueries({ queryKey: labelKeys.all });
+      queryClient.invalidateQueries({ queryKey: mailboxKeys.all });
+    },
+  });
+}
+
+/**
+ * Hook for permanently deleting everything in the trash
+ * The trash lists are emptied straight away
+ *
+ * @example
+ * const { mutate: emptyTrash, isPending } = useEmptyTrash();
+ * emptyTrash();
+ */
+export function useEmptyTrash() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async () => {
+      const response = await emailService.emptyTrash();
+
+      if (response.status === 'error') {
+        throw new Error(response.error || 'Failed to empty trash');
+      }
+
+      return response.data;
+    },
+    onMutate: async () => {
+      // Cancel any outgoing refetches
+      await queryClient.cancelQueries({ queryKey: emailKeys.lists() });
+
+      // Snapshot previous values
+      const previousEmails = queryClient.getQueriesData<EmailListData>({
+        queryKey: emailKeys.lists(),
+      });
+
+      // Optimistically clear the trash lists
+      updateEmailLists(queryClient, (emails, { filter }) => (filter === 'trash' ? [] : emails));
+
+      return { previousEmails };
+    },
+    onSuccess: (data) => {
+      // Update stats from server response
+      if (data?.stats) {
+        queryClient.setQueryData<EmailStats>(emailKeys.stats(), data.stats);
+      }
+    },
+    onError: (_err, _params, context) => {
+      // Rollback on error
+      if (context?.previousEmails) {
+        context.previousEmails.forEach(([queryKey, data]) => {
+          queryClient.setQueryData(queryKey, data);
+        });
+      }
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: emailKeys.lists() });
+      queryClient.invalidateQueries({ queryKey: emailKeys.threads() });
+      queryClient.invalidateQueries({ queryKey: emailKeys.stats() });
+      queryClient.invalidateQueries({ queryKey: labelKeys.all });
+      queryClient.invalidateQueries({ queryKey: mailboxKeys.all });
     },
   });
 }
@@ -123,10 +194,8 @@ export function useMarkAsRead() {
       await queryClient.cancelQueries({ queryKey: emailKeys.lists() });
 
       // Optimistically update email lists
-      queryClient.setQueriesData<Email[]>(
-        { queryKey: emailKeys.lists() },
-        (old) =>
-          old?.map((email) => (email.id === emailId ? { ...email, isRead: true } : email)) ?? [],
+      updateEmailLists(queryClient, (emails) =>
+        emails.map((email) => (email.id === emailId ? { ...email, isRead: true } : email)),
       );
     },
     onSuccess: (data) => {
@@ -139,6 +208,8 @@ export function useMarkAsRead() {
       queryClient.invalidateQueries({ queryKey: emailKeys.lists() });
       queryClient.invalidateQueries({ queryKey: emailKeys.threads() });
       queryClient.invalidateQueries({ queryKey: emailKeys.stats() });
+      queryClient.invalidateQueries({ queryKey: labelKeys.all });
+      queryClient.invalidateQueries({ queryKey: mailboxKeys.all });
     },
   });
 }
@@ -176,23 +247,23 @@ export function useToggleImportant() {
       await queryClient.cancelQueries({ queryKey: emailKeys.lists() });
 
       // Snapshot previous values
-      const previousEmails = queryClient.getQueriesData<Email[]>({ queryKey: emailKeys.lists() });
+      const previousEmails = queryClient.getQueriesData<EmailListData>({
+        queryKey: emailKeys.lists(),
+      });
 
       // Optimistically update email lists
-      queryClient.setQueriesData<Email[]>(
-        { queryKey: emailKeys.lists() },
-        (old) =>
-          old?.map((email) => {
-            // If threadId is provided, update all emails in the thread
-            if (threadId && email.threadId === threadId) {
-              return { ...email, isImportant };
-            }
-            // Otherwise, just update the specific email
-            if (!threadId && email.id === emailId) {
-              return { ...email, isImportant };
-            }
-            return email;
-          }) ?? [],
+      updateEmailLists(queryClient, (emails) =>
+        emails.map((email) => {
+          // If threadId is provided, update all emails in the thread
+          if (threadId && email.threadId === threadId) {
+            return { ...email, isImportant };
+          }
+          // Otherwise, just update the specific email
+          if (!threadId && email.id === emailId) {
+            return { ...email, isImportant };
+          }
+          return email;
+        }),
       );
 
       return { previousEmails };
@@ -250,14 +321,13 @@ export function useRestoreEmail() {
       await queryClient.cancelQueries({ queryKey: emailKeys.lists() });
 
       // Snapshot previous values
-      const previousEmails = queryClient.getQueriesData<Email[]>({ queryKey: emailKeys.lists() });
+      const previousEmails = queryClient.getQueriesData<EmailListData>({
+        queryKey: emailKeys.lists(),
+      });
 
       // Optimistically remove from trash list
-      queryClient.setQueriesData<Email[]>(
-        { queryKey: emailKeys.lists() },
-        (old) =>
-          old?.filter((email) => (threadId ? email.threadId !== threadId : email.id !== emailId)) ??
-          [],
+      updateEmailLists(queryClient, (emails) =>
+        emails.filter((email) => (threadId ? email.threadId !== threadId : email.id !== emailId)),
       );
 
       return { previousEmails };
@@ -280,6 +350,303 @@ export function useRestoreEmail() {
       queryClient.invalidateQueries({ queryKey: emailKeys.lists() });
       queryClient.invalidateQueries({ queryKey: emailKeys.threads() });
       queryClient.invalidateQueries({ queryKey: emailKeys.stats() });
+      queryClient.invalidateQueries({ queryKey: labelKeys.all });
+      queryClient.invalidateQueries({ queryKey: mailboxKeys.all });
+    },
+  });
+}
+
+interface UpdateEmailLabelsParams {
+  emailId: number;
+  label: Label;
+  /** true to add the label, false to remove it */
+  applied: boolean;
+  threadId?: string;
+}
+
+/**
+ * Hook for adding or removing a label on an email or all emails in a thread
+ *
+ * @example
+ * const { mutate: updateLabels } = useUpdateEmailLabels();
+ * updateLabels({ emailId: 1, label, applied: true });
+ * updateLabels({ emailId: 1, label, applied: false, threadId: 'thread-123' });
+ */
+export function useUpdateEmailLabels() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ emailId, label, applied, threadId }: UpdateEmailLabelsParams) => {
+      const changes = applied ? { addLabelIds: [label.id] } : { removeLabelIds: [label.id] };
+      const response = await emailService.updateEmailLabels(emailId, changes, threadId);
+
+      if (response.status === 'error') {
+        throw new Error(response.error || 'Failed to update labels');
+      }
+
+      return response.data;
+    },
+    onMutate: async ({ emailId, label, applied, threadId }) => {
+      // Cancel any outgoing refetches
+      await queryClient.cancelQueries({ queryKey: emailKeys.lists() });
+
+      // Snapshot previous values
+      const previousEmails = queryClient.getQueriesData<EmailListData>({
+        queryKey: emailKeys.lists(),
+      });
+
+      // Optimistically add or remove the label chip
+      updateEmailLists(queryClient, (emails) =>
+        emails.map((email) => {
+          const isAffected = threadId ? email.threadId === threadId : email.id === emailId;
+          if (!isAffected) return email;
+
+          const others = (email.labels ?? []).filter((l) => l.id !== label.id);
+          return { ...email, labels: applied ? [...others, label] : others };
+        }),
+      );
+
+      return { previousEmails };
+    },
+    onError: (_err, _params, context) => {
+      // Rollback on error
+      if (context?.previousEmails) {
+        context.previousEmails.forEach(([queryKey, data]) => {
+          queryClient.setQueryData(queryKey, data);
+        });
+      }
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: emailKeys.lists() });
+      queryClient.invalidateQueries({ queryKey: emailKeys.threads() });
+      queryClient.invalidateQueries({ queryKey: labelKeys.all });
+    },
+  });
+}
+
+interface SnoozeEmailParams {
+  emailId: number;
+  /** When the email returns to the inbox; null unsnoozes it */
+  snoozedUntil: Date | null;
+  threadId?: string;
+}
+
+/**
+ * Hook for snoozing an email or all emails in a thread
+ * Snoozing removes the email from the lists straight away
+ *
+ * @example
+ * const { mutate: snoozeEmail } = useSnoozeEmail();
+ * snoozeEmail({ emailId: 1, snoozedUntil: tomorrow, threadId: 'thread-123' });
+ * snoozeEmail({ emailId: 1, snoozedUntil: null }); // Unsnooze
+ */
+export function useSnoozeEmail() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ emailId, snoozedUntil, threadId }: SnoozeEmailParams) => {
+      const response = await emailService.snoozeEmail(
+        emailId,
+        snoozedUntil?.toISOString() ?? null,
+        threadId,
+      );
+
+      if (response.status === 'error') {
+        throw new Error(response.error || 'Failed to snooze email');
+      }
+
+      return response.data;
+    },
+    onMutate: async ({ emailId, snoozedUntil, threadId }) => {
+      // Cancel any outgoing refetches
+      await queryClient.cancelQueries({ queryKey: emailKeys.lists() });
+
+      // Snapshot previous values
+      const previousEmails = queryClient.getQueriesData<EmailListData>({
+        queryKey: emailKeys.lists(),
+      });
+
+      // Optimistically hide snoozed emails; unsnoozed ones reappear on refetch
+      if (snoozedUntil) {
+        updateEmailLists(queryClient, (emails) =>
+          emails.filter((email) => (threadId ? email.threadId !== threadId : email.id !== emailId)),
+        );
+      }
+
+      return { previousEmails };
+    },
+    onSuccess: (data) => {
+      // Update stats from server response
+      if (data?.stats) {
+        queryClient.setQueryData<EmailStats>(emailKeys.stats(), data.stats);
+      }
+    },
+    onError: (_err, _params, context) => {
+      // Rollback on error
+      if (context?.previousEmails) {
+        context.previousEmails.forEach(([queryKey, data]) => {
+          queryClient.setQueryData(queryKey, data);
+        });
+      }
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: emailKeys.lists() });
+      queryClient.invalidateQueries({ queryKey: emailKeys.threads() });
+    },
+  });
+}
+
+interface ArchiveEmailParams {
+  emailId: number;
+  isArchived: boolean;
+  threadId?: string;
+}
+
+/**
+ * Hook for archiving or unarchiving an email or all emails in a thread
+ * Archived emails leave the inbox list straight away (unless it is being searched, since
+ * search still matches them) and unarchived ones leave the archive list; other lists keep
+ * the emails with the flag updated
+ *
+ * @example
+ * const { mutate: archiveEmail } = useArchiveEmail();
+ * archiveEmail({ emailId: 1, isArchived: true, threadId: 'thread-123' });
+ * archiveEmail({ emailId: 1, isArchived: false }); // Move back to the inbox
+ */
+export function useArchiveEmail() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ emailId, isArchived, threadId }: ArchiveEmailParams) => {
+      const response = await emailService.archiveEmail(emailId, isArchived, threadId);
+
+      if (response.status === 'error') {
+        throw new Error(response.error || 'Failed to archive email');
+      }
+
+      return response.data;
+    },
+    onMutate: async ({ emailId, isArchived, threadId }) => {
+      // Cancel any outgoing refetches
+      await queryClient.cancelQueries({ queryKey: emailKeys.lists() });
+
+      // Snapshot previous values
+      const previousEmails = queryClient.getQueriesData<EmailListData>({
+        queryKey: emailKeys.lists(),
+      });
+
+      const matches = (email: EmailSearchResult) =>
+        threadId ? email.threadId === threadId : email.id === emailId;
+
+      // Optimistically move the emails between the inbox and archive lists
+      updateEmailLists(queryClient, (emails, { filter = 'inbox', query }) => {
+        const leavesList = isArchived ? filter === 'inbox' && !query?.trim() : filter === 'archive';
+        return leavesList
+          ? emails.filter((email) => !matches(email))
+          : emails.map((email) => (matches(email) ? { ...email, isArchived } : email));
+      });
+
+      return { previousEmails };
+    },
+    onSuccess: (data) => {
+      // Update stats from server response
+      if (data?.stats) {
+        queryClient.setQueryData<EmailStats>(emailKeys.stats(), data.stats);
+      }
+    },
+    onError: (_err, _params, context) => {
+      // Rollback on error
+      if (context?.previousEmails) {
+        context.previousEmails.forEach(([queryKey, data]) => {
+          queryClient.setQueryData(queryKey, data);
+        });
+      }
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: emailKeys.lists() });
+      queryClient.invalidateQueries({ queryKey: emailKeys.threads() });
+      queryClient.invalidateQueries({ queryKey: emailKeys.stats() });
+    },
+  });
+}
+
+interface RescheduleEmailParams {
+  emailId: number;
+  /** ISO date in the future */
+  scheduledAt: string;
+}
+
+/**
+ * Hook for moving a scheduled email to a new send time
+ *
+ * @example
+ * const { mutate: rescheduleEmail } = useRescheduleEmail();
+ * rescheduleEmail({ emailId: 1, scheduledAt: date.toISOString() });
+ */
+export function useRescheduleEmail() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ emailId, scheduledAt }: RescheduleEmailParams) => {
+      const response = await emailService.rescheduleEmail(emailId, scheduledAt);
+
+      if (response.status === 'error') {
+        throw new Error(response.error || 'Failed to reschedule email');
+      }
+
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: emailKeys.lists() });
+      queryClient.invalidateQueries({ queryKey: emailKeys.threads() });
+    },
+  });
+}
+
+/**
+ * Hook for cancelling a scheduled send
+ * The email moves to the drafts folder
+ */
+export function useCancelScheduledEmail() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (emailId: number) => {
+      const response = await emailService.cancelScheduledEmail(emailId);
+
+      if (response.status === 'error') {
+        throw new Error(response.error || 'Failed to cancel scheduled email');
+      }
+
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: emailKeys.lists() });
+      queryClient.invalidateQueries({ queryKey: emailKeys.threads() });
+      queryClient.invalidateQueries({ queryKey: emailKeys.stats() });
+    },
+  });
+}
+
+/**
+ * Hook for retrying delivery of an email that failed to send
+ */
+export function useRetryDelivery() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (emailId: number) => {
+      const response = await emailService.retryDelivery(emailId);
+
+      if (response.status === 'error') {
+        throw new Error(response.error || 'Failed to retry delivery');
+      }
+
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: emailKeys.lists() });
+      queryClient.invalidateQueries({ queryKey: emailKeys.threads() });
     },
   });
 }
@@ -287,9 +654,16 @@ export function useRestoreEmail() {
 export const emailMutations = {
   useCreateEmail,
   useDeleteEmail,
+  useEmptyTrash,
   useMarkAsRead,
   useToggleImportant,
   useRestoreEmail,
+  useUpdateEmailLabels,
+  useSnoozeEmail,
+  useArchiveEmail,
+  useRescheduleEmail,
+  useCancelScheduledEmail,
+  useRetryDelivery,
 };
 
 export default emailMutations;
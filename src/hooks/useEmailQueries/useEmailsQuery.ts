@@ -1,11 +1,11 @@
 /**
- * useEmailsQuery - TanStack Query hook for fetching emails
- * Provides automatic caching, background refetching, and loading states
+ * useEmailsQuery - TanStack Query hook for fetching paginated emails
+ * Provides automatic caching, background refetching, loading states and infinite loading
  */
 
-import { useQuery } from '@tanstack/react-query';
+import { useInfiniteQuery } from '@tanstack/react-query';
 import { useRef } from 'react';
-import { Email, SearchEmailsRequest } from '@/types';
+import { EmailPage, SearchEmailsRequest } from '@/types';
 import { emailService } from '@/services';
 import { emailKeys } from './queryKeys';
 
@@ -16,52 +16,61 @@ interface UseEmailsQueryOptions {
   filter?: SearchEmailsRequest['filter'];
   /** Whether to group by thread */
   threaded?: boolean;
+  /** Mailbox ID to list; every account when omitted */
+  account?: number;
   /** Whether the query is enabled */
   enabled?: boolean;
-  /** Initial data from server (matches initial URL params) */
-  initialData?: Email[];
+  /** Initial first page from server (matches initial URL params) */
+  initialData?: EmailPage;
 }
 
 /**
- * Hook for fetching emails with TanStack Query
+ * Hook for fetching emails page by page with TanStack Query
+ * `data` is the flattened list of all loaded pages; call fetchNextPage() to load more
  *
  * @example
- * const { data: emails, isLoading, error } = useEmailsQuery({
+ * const { data: emails, isLoading, hasNextPage, fetchNextPage } = useEmailsQuery({
  *   filter: 'inbox',
  *   threaded: true,
  * });
  */
 export function useEmailsQuery(options: UseEmailsQueryOptions = {}) {
-  const { query, filter, threaded, enabled = true, initialData } = options;
+  const { query, filter, threaded, account, enabled = true, initialData } = options;
 
   // Track the initial query params to know when initialData is valid
   // initialData only matches the first render's params (from URL)
-  const initialParamsRef = useRef({ query, filter, threaded });
+  const initialParamsRef = useRef({ query, filter, threaded, account });
   const isInitialQuery =
     query === initialParamsRef.current.query &&
     filter === initialParamsRef.current.filter &&
-    threaded === initialParamsRef.current.threaded;
+    threaded === initialParamsRef.current.threaded &&
+    account === initialParamsRef.current.account;
 
   const params: SearchEmailsRequest = {
     query: query || undefined,
     filter,
     threaded,
+    account,
   };
 
-  return useQuery({
-    queryKey: emailKeys.list({ query, filter, threaded }),
-    queryFn: async () => {
-      const response = await emailService.fetchEmails(params);
+  return useInfiniteQuery({
+    queryKey: emailKeys.list({ query, filter, threaded, account }),
+    queryFn: async ({ pageParam }): Promise<EmailPage> => {
+      const response = await emailService.fetchEmails({ ...params, cursor: pageParam });
 
       if (response.status === 'error') {
         throw new Error(response.error || 'Failed to fetch emails');
       }
 
-      return response.data ?? [];
+      return response.data ?? { emails: [], nextCursor: null };
     },
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+    select: (data) => data.pages.flatMap((page) => page.emails),
     enabled,
     // Only use initialData when query params match the initial URL params
-    initialData: isInitialQuery ? initialData : undefined,
+    initialData:
+      isInitialQuery && initialData ? { pages: [initialData], pageParams: [undefined] } : undefined,
   });
 }
 
@@ -0,0 +1,53 @@
+/**
+ * useMailEvents - Keeps the email caches live from the server's event stream
+ * New, changed and deleted emails and fresh stats are written straight into the TanStack
+ * Query caches, so other tabs and incoming mail show up without a refetch
+ */
+
+import { useEffect } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { MailEventPayload } from '@/types';
+import { emailService } from '@/services';
+import { applyMailEvent } from './cacheUpdates';
+
+// Delay before reopening a stream the server refused or closed for good
+const RECONNECT_MS = 5_000;
+
+/**
+ * Subscribes to GET /api/events while mounted
+ * The browser reconnects dropped streams itself, sending the last event ID so missed events
+ * are replayed; a stream that ends up closed is reopened from the last event seen
+ */
+export function useMailEvents(enabled = true) {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    // EventSource is missing outside browsers (server rendering, jsdom)
+    if (!enabled || typeof EventSource === 'undefined') return;
+
+    let source: EventSource | null = null;
+    let lastEventId: string | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const connect = () => {
+      source = new EventSource(emailService.getEventsUrl(lastEventId));
+      source.onmessage = (message) => {
+        lastEventId = message.lastEventId || lastEventId;
+        applyMailEvent(queryClient, JSON.parse(message.data) as MailEventPayload);
+      };
+      source.onerror = () => {
+        if (source?.readyState !== EventSource.CLOSED) return;
+        source.close();
+        reconnectTimer = setTimeout(connect, RECONNECT_MS);
+      };
+    };
+    connect();
+
+    return () => {
+      clearTimeout(reconnectTimer);
+      source?.close();
+    };
+  }, [enabled, queryClient]);
+}
+
+export default useMailEvents;
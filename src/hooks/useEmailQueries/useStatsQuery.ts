@@ -17,6 +17,8 @@ const DEFAULT_STATS: EmailStats = {
   important: 0,
   deleted: 0,
   sent: 0,
+  scheduled: 0,
+  archived: 0,
 };
 
 /**
@@ -1,9 +1,9 @@
 /**
- * useThreadQuery - TanStack Query hook for fetching all emails in a thread
+ * useThreadQuery - TanStack Query hook for fetching the emails in a thread page by page
  */
 
-import { useQuery } from '@tanstack/react-query';
-import { Email, EmailFilter } from '@/types';
+import { useInfiniteQuery } from '@tanstack/react-query';
+import { EmailFilter, EmailPage } from '@/types';
 import { emailService } from '@/services';
 import { emailKeys } from './queryKeys';
 
@@ -17,7 +17,8 @@ interface UseThreadQueryOptions {
 }
 
 /**
- * Hook for fetching emails in a thread, filtered by current view
+ * Hook for fetching emails in a thread (oldest first), filtered by current view
+ * `data` is the flattened list of all loaded pages; call fetchNextPage() for later messages
  *
  * @example
  * const { data: threadEmails, isLoading } = useThreadQuery({
@@ -28,20 +29,23 @@ interface UseThreadQueryOptions {
 export function useThreadQuery(options: UseThreadQueryOptions) {
   const { threadId, enabled = true, filter } = options;
 
-  return useQuery({
+  return useInfiniteQuery({
     // Include filter in the query key to differentiate cache entries
     queryKey: [...emailKeys.thread(threadId ?? ''), { filter }],
-    queryFn: async (): Promise<Email[]> => {
-      if (!threadId) return [];
+    queryFn: async ({ pageParam }): Promise<EmailPage> => {
+      if (!threadId) return { emails: [], nextCursor: null };
 
-      const response = await emailService.fetchThread(threadId, filter);
+      const response = await emailService.fetchThread(threadId, filter, pageParam);
 
       if (response.status === 'error') {
         throw new Error(response.error || 'Failed to fetch thread');
       }
 
-      return response.data ?? [];
+      return response.data ?? { emails: [], nextCursor: null };
     },
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+    select: (data) => data.pages.flatMap((page) => page.emails),
     enabled: enabled && !!threadId,
   });
 }
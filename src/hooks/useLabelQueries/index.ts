@@ -0,0 +1,7 @@
+/**
+ * Label Queries barrel export
+ */
+
+export { labelKeys } from './queryKeys';
+export { useLabelsQuery } from './useLabelsQuery';
+export { useCreateLabel, useUpdateLabel, useDeleteLabel } from './useLabelMutations';
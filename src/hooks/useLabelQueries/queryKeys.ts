@@ -0,0 +1,16 @@
+/**
+ * Label Query Keys - Centralized query key management for label queries
+ */
+
+/**
+ * Query key factory for label-related queries
+ */
+export const labelKeys = {
+  // Base key for all label queries
+  all: ['labels'] as const,
+
+  // Label list with unread counts
+  lists: () => [...labelKeys.all, 'list'] as const,
+};
+
+export default labelKeys;
@@ -0,0 +1,98 @@
+/**
+ * useLabelMutations - TanStack Query mutations for label operations
+ */
+
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { LabelRequest } from '@/types';
+import { labelService } from '@/services';
+import { emailKeys } from '../useEmailQueries/queryKeys';
+import { labelKeys } from './queryKeys';
+
+/**
+ * Hook for creating a label
+ *
+ * @example
+ * const { mutate: createLabel } = useCreateLabel();
+ * createLabel({ name: 'Work', color: '#1976d2' });
+ */
+export function useCreateLabel() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (label: LabelRequest) => {
+      const response = await labelService.createLabel(label);
+
+      if (response.status === 'error') {
+        throw new Error(response.error || 'Failed to create label');
+      }
+
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: labelKeys.all });
+    },
+  });
+}
+
+interface UpdateLabelParams {
+  labelId: number;
+  changes: Partial<LabelRequest>;
+}
+
+/**
+ * Hook for renaming or recolouring a label
+ * Email lists are refetched so label chips pick up the change
+ */
+export function useUpdateLabel() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ labelId, changes }: UpdateLabelParams) => {
+      const response = await labelService.updateLabel(labelId, changes);
+
+      if (response.status === 'error') {
+        throw new Error(response.error || 'Failed to update label');
+      }
+
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: labelKeys.all });
+      queryClient.invalidateQueries({ queryKey: emailKeys.lists() });
+      queryClient.invalidateQueries({ queryKey: emailKeys.threads() });
+    },
+  });
+}
+
+/**
+ * Hook for deleting a label
+ * Email lists are refetched so the label's chips disappear
+ */
+export function useDeleteLabel() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (labelId: number) => {
+      const response = await labelService.deleteLabel(labelId);
+
+      if (response.status === 'error') {
+        throw new Error(response.error || 'Failed to delete label');
+      }
+
+      return labelId;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: labelKeys.all });
+      queryClient.invalidateQueries({ queryKey: emailKeys.lists() });
+      queryClient.invalidateQueries({ queryKey: emailKeys.threads() });
+    },
+  });
+}
+
+export const labelMutations = {
+  useCreateLabel,
+  useUpdateLabel,
+  useDeleteLabel,
+};
+
+export default labelMutations;
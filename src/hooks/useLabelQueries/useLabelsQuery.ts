@@ -0,0 +1,34 @@
+/**
+ * useLabelsQuery - TanStack Query hook for fetching labels with unread counts
+ */
+
+import { useQuery } from '@tanstack/react-query';
+import { LabelWithCounts } from '@/types';
+import { labelService } from '@/services';
+import { labelKeys } from './queryKeys';
+
+/**
+ * Hook for fetching all labels
+ * Unread counts are refreshed whenever email mutations invalidate labelKeys.all
+ *
+ * @param initialData - Optional initial labels from server-side rendering
+ * @example
+ * const { data: labels = [] } = useLabelsQuery();
+ */
+export function useLabelsQuery(initialData?: LabelWithCounts[]) {
+  return useQuery({
+    queryKey: labelKeys.lists(),
+    queryFn: async () => {
+      const response = await labelService.fetchLabels();
+
+      if (response.status === 'error') {
+        throw new Error(response.error || 'Failed to fetch labels');
+      }
+
+      return response.data ?? [];
+    },
+    initialData,
+  });
+}
+
+export default useLabelsQuery;
@@ -0,0 +1,12 @@
+/**
+ * Lead Queries barrel export
+ */
+
+export { leadKeys } from './queryKeys';
+export {
+  useLeadListsQuery,
+  useLeadsQuery,
+  useLeadThreadsQuery,
+  useLeadSuggestions,
+} from './useLeadsQuery';
+export { useCreateLeadList, useDeleteLeadList, useImportLeads } from './useLeadMutations';
@@ -0,0 +1,25 @@
+/**
+ * Lead Query Keys - Centralized query key management for lead list queries
+ */
+
+/**
+ * Query key factory for lead-related queries
+ */
+export const leadKeys = {
+  // Base key for all lead queries
+  all: ['leads'] as const,
+
+  // Lead lists with their lead counts
+  lists: () => [...leadKeys.all, 'list'] as const,
+
+  // One lead list with its leads
+  detail: (listId: number) => [...leadKeys.all, 'detail', listId] as const,
+
+  // Conversations with a lead
+  threads: (leadId: number) => [...leadKeys.all, 'threads', leadId] as const,
+
+  // Leads matching a partly typed name, address or company
+  suggestions: (query: string) => [...leadKeys.all, 'suggest', query] as const,
+};
+
+export default leadKeys;
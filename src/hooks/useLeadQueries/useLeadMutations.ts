@@ -0,0 +1,95 @@
+/**
+ * useLeadMutations - TanStack Query mutations for lead list operations
+ */
+
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { LeadColumnMapping } from '@/types';
+import { leadService } from '@/services';
+import { leadKeys } from './queryKeys';
+
+/**
+ * Hook for creating an empty lead list
+ *
+ * @example
+ * const { mutateAsync: createList } = useCreateLeadList();
+ * const list = await createList('Conference 2026');
+ */
+export function useCreateLeadList() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (name: string) => {
+      const response = await leadService.createLeadList(name);
+
+      if (response.status === 'error' || !response.data) {
+        throw new Error(response.error || 'Failed to create lead list');
+      }
+
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: leadKeys.lists() });
+    },
+  });
+}
+
+/**
+ * Hook for deleting a lead list and its leads
+ */
+export function useDeleteLeadList() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (listId: number) => {
+      const response = await leadService.deleteLeadList(listId);
+
+      if (response.status === 'error') {
+        throw new Error(response.error || 'Failed to delete lead list');
+      }
+
+      return listId;
+    },
+    onSuccess: (listId) => {
+      queryClient.removeQueries({ queryKey: leadKeys.detail(listId) });
+      queryClient.invalidateQueries({ queryKey: leadKeys.lists() });
+    },
+  });
+}
+
+interface ImportLeadsParams {
+  listId: number;
+  file: Blob;
+  mapping?: LeadColumnMapping;
+}
+
+/**
+ * Hook for importing a CSV file into a lead list
+ * Resolves with the import report, including the rows that were rejected
+ */
+export function useImportLeads() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ listId, file, mapping }: ImportLeadsParams) => {
+      const response = await leadService.importLeads(listId, file, mapping);
+
+      if (response.status === 'error' || !response.data) {
+        throw new Error(response.error || 'Failed to import leads');
+      }
+
+      return response.data;
+    },
+    onSuccess: (_result, { listId }) => {
+      queryClient.invalidateQueries({ queryKey: leadKeys.lists() });
+      queryClient.invalidateQueries({ queryKey: leadKeys.detail(listId) });
+    },
+  });
+}
+
+export const leadMutations = {
+  useCreateLeadList,
+  useDeleteLeadList,
+  useImportLeads,
+};
+
+export default leadMutations;
@@ -0,0 +1,94 @@
+/**
+ * useLeadsQuery - TanStack Query hooks for fetching lead lists, their leads, conversations and
+ * suggestions
+ */
+
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+import { leadService } from '@/services';
+import { leadKeys } from './queryKeys';
+
+/**
+ * Hook for fetching all lead lists
+ *
+ * @example
+ * const { data: lists = [] } = useLeadListsQuery();
+ */
+export function useLeadListsQuery() {
+  return useQuery({
+    queryKey: leadKeys.lists(),
+    queryFn: async () => {
+      const response = await leadService.fetchLeadLists();
+
+      if (response.status === 'error') {
+        throw new Error(response.error || 'Failed to fetch lead lists');
+      }
+
+      return response.data ?? [];
+    },
+  });
+}
+
+/**
+ * Hook for fetching a lead list with its leads
+ * Disabled until a list is chosen
+ */
+export function useLeadsQuery(listId: number | null) {
+  return useQuery({
+    queryKey: leadKeys.detail(listId ?? 0),
+    queryFn: async () => {
+      const response = await leadService.fetchLeadList(listId!);
+
+      if (response.status === 'error' || !response.data) {
+        throw new Error(response.error || 'Failed to fetch leads');
+      }
+
+      return response.data;
+    },
+    enabled: listId !== null,
+  });
+}
+
+/**
+ * Hook for fetching the conversations with a lead
+ * Disabled until a lead is chosen
+ */
+export function useLeadThreadsQuery(leadId: number | null) {
+  return useQuery({
+    queryKey: leadKeys.threads(leadId ?? 0),
+    queryFn: async () => {
+      const response = await leadService.fetchLeadThreads(leadId!);
+
+      if (response.status === 'error') {
+        throw new Error(response.error || 'Failed to fetch conversations');
+      }
+
+      return response.data ?? [];
+    },
+    enabled: leadId !== null,
+  });
+}
+
+/**
+ * Hook for the leads that best match a partly typed name, address or company
+ * Nothing is fetched for a blank query; the previous suggestions stay while the next load
+ */
+export function useLeadSuggestions(query: string) {
+  const term = query.trim();
+
+  return useQuery({
+    queryKey: leadKeys.suggestions(term),
+    queryFn: async () => {
+      const response = await leadService.suggestLeads(term);
+
+      if (response.status === 'error') {
+        throw new Error(response.error || 'Failed to suggest leads');
+      }
+
+      return response.data ?? [];
+    },
+    enabled: term.length > 0,
+    placeholderData: keepPreviousData,
+  });
+}
+
+export default useLeadsQuery;
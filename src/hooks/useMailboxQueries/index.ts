@@ -0,0 +1,7 @@
+/**
+ * Mailbox Queries barrel export
+ */
+
+export { mailboxKeys } from './queryKeys';
+export { useMailboxesQuery } from './useMailboxesQuery';
+export { useCreateMailbox, useUpdateMailbox, useDeleteMailbox } from './useMailboxMutations';
@@ -0,0 +1,16 @@
+/**
+ * Mailbox Query Keys - Centralized query key management for mailbox queries
+ */
+
+/**
+ * Query key factory for mailbox-related queries
+ */
+export const mailboxKeys = {
+  // Base key for all mailbox queries
+  all: ['mailboxes'] as const,
+
+  // Mailbox list with unread counts
+  lists: () => [...mailboxKeys.all, 'list'] as const,
+};
+
+export default mailboxKeys;
@@ -0,0 +1,94 @@
+/**
+ * useMailboxMutations - TanStack Query mutations for mailbox operations
+ */
+
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { MailboxRequest } from '@/types';
+import { mailboxService } from '@/services';
+import { emailKeys } from '../useEmailQueries/queryKeys';
+import { mailboxKeys } from './queryKeys';
+
+/**
+ * Hook for adding a mailbox
+ *
+ * @example
+ * const { mutate: createMailbox } = useCreateMailbox();
+ * createMailbox({ address: 'sales@example.com', displayName: 'Ana from Sales' });
+ */
+export function useCreateMailbox() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (mailbox: MailboxRequest) => {
+      const response = await mailboxService.createMailbox(mailbox);
+
+      if (response.status === 'error') {
+        throw new Error(response.error || 'Failed to add mailbox');
+      }
+
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: mailboxKeys.all });
+    },
+  });
+}
+
+interface UpdateMailboxParams {
+  mailboxId: number;
+  changes: Omit<Partial<MailboxRequest>, 'address'>;
+}
+
+/**
+ * Hook for changing a mailbox's display name or signature
+ */
+export function useUpdateMailbox() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ mailboxId, changes }: UpdateMailboxParams) => {
+      const response = await mailboxService.updateMailbox(mailboxId, changes);
+
+      if (response.status === 'error') {
+        throw new Error(response.error || 'Failed to update mailbox');
+      }
+
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: mailboxKeys.all });
+    },
+  });
+}
+
+/**
+ * Hook for removing a mailbox
+ * Email lists are refetched, as the mailbox's emails leave its account view
+ */
+export function useDeleteMailbox() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (mailboxId: number) => {
+      const response = await mailboxService.deleteMailbox(mailboxId);
+
+      if (response.status === 'error') {
+        throw new Error(response.error || 'Failed to remove mailbox');
+      }
+
+      return mailboxId;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: mailboxKeys.all });
+      queryClient.invalidateQueries({ queryKey: emailKeys.lists() });
+    },
+  });
+}
+
+export const mailboxMutations = {
+  useCreateMailbox,
+  useUpdateMailbox,
+  useDeleteMailbox,
+};
+
+export default mailboxMutations;
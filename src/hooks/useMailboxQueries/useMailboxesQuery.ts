@@ -0,0 +1,34 @@
+/**
+ * useMailboxesQuery - TanStack Query hook for fetching mailboxes with unread counts
+ */
+
+import { useQuery } from '@tanstack/react-query';
+import { MailboxWithCounts } from '@/types';
+import { mailboxService } from '@/services';
+import { mailboxKeys } from './queryKeys';
+
+/**
+ * Hook for fetching all of the user's mailboxes, primary first
+ * Unread counts are refreshed whenever email changes invalidate mailboxKeys.all
+ *
+ * @param initialData - Optional initial mailboxes from server-side rendering
+ * @example
+ * const { data: mailboxes = [] } = useMailboxesQuery();
+ */
+export function useMailboxesQuery(initialData?: MailboxWithCounts[]) {
+  return useQuery({
+    queryKey: mailboxKeys.lists(),
+    queryFn: async () => {
+      const response = await mailboxService.fetchMailboxes();
+
+      if (response.status === 'error') {
+        throw new Error(response.error || 'Failed to fetch mailboxes');
+      }
+
+      return response.data ?? [];
+    },
+    initialData,
+  });
+}
+
+export default useMailboxesQuery;
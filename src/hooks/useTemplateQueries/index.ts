@@ -0,0 +1,12 @@
+/**
+ * Template Queries barrel export
+ */
+
+export { templateKeys } from './queryKeys';
+export { useTemplatesQuery } from './useTemplatesQuery';
+export {
+  useCreateTemplate,
+  useUpdateTemplate,
+  useDeleteTemplate,
+  useRecordTemplateUse,
+} from './useTemplateMutations';
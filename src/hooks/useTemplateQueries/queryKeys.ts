@@ -0,0 +1,16 @@
+/**
+ * Template Query Keys - Centralized query key management for template queries
+ */
+
+/**
+ * Query key factory for template-related queries
+ */
+export const templateKeys = {
+  // Base key for all template queries
+  all: ['templates'] as const,
+
+  // Template list, grouped by category
+  lists: () => [...templateKeys.all, 'list'] as const,
+};
+
+export default templateKeys;
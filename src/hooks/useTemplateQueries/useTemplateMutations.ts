@@ -0,0 +1,117 @@
+/**
+ * useTemplateMutations - TanStack Query mutations for template operations
+ */
+
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Template, TemplateRequest } from '@/types';
+import { templateService } from '@/services';
+import { templateKeys } from './queryKeys';
+
+/**
+ * Hook for creating a template
+ *
+ * @example
+ * const { mutate: createTemplate } = useCreateTemplate();
+ * createTemplate({ name: 'Thanks', subject: '', body: 'Thanks {{firstName}}!', category: null });
+ */
+export function useCreateTemplate() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (template: TemplateRequest) => {
+      const response = await templateService.createTemplate(template);
+
+      if (response.status === 'error' || !response.data) {
+        throw new Error(response.error || 'Failed to create template');
+      }
+
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: templateKeys.all });
+    },
+  });
+}
+
+interface UpdateTemplateParams {
+  templateId: number;
+  changes: Partial<TemplateRequest>;
+}
+
+/**
+ * Hook for editing a template
+ */
+export function useUpdateTemplate() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ templateId, changes }: UpdateTemplateParams) => {
+      const response = await templateService.updateTemplate(templateId, changes);
+
+      if (response.status === 'error' || !response.data) {
+        throw new Error(response.error || 'Failed to update template');
+      }
+
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: templateKeys.all });
+    },
+  });
+}
+
+/**
+ * Hook for deleting a template
+ */
+export function useDeleteTemplate() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (templateId: number) => {
+      const response = await templateService.deleteTemplate(templateId);
+
+      if (response.status === 'error') {
+        throw new Error(response.error || 'Failed to delete template');
+      }
+
+      return templateId;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: templateKeys.all });
+    },
+  });
+}
+
+/**
+ * Hook for counting a template as used when it is inserted into a message
+ * The cached list is updated in place rather than refetched
+ */
+export function useRecordTemplateUse() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (templateId: number) => {
+      const response = await templateService.recordTemplateUse(templateId);
+
+      if (response.status === 'error' || !response.data) {
+        throw new Error(response.error || 'Failed to record template use');
+      }
+
+      return response.data;
+    },
+    onSuccess: (used) => {
+      queryClient.setQueryData<Template[]>(templateKeys.lists(), (templates) =>
+        templates?.map((template) => (template.id === used.id ? used : template)),
+      );
+    },
+  });
+}
+
+export const templateMutations = {
+  useCreateTemplate,
+  useUpdateTemplate,
+  useDeleteTemplate,
+  useRecordTemplateUse,
+};
+
+export default templateMutations;
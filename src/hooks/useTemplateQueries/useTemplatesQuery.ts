@@ -0,0 +1,30 @@
+/**
+ * useTemplatesQuery - TanStack Query hook for fetching email templates
+ */
+
+import { useQuery } from '@tanstack/react-query';
+import { templateService } from '@/services';
+import { templateKeys } from './queryKeys';
+
+/**
+ * Hook for fetching all templates, grouped by category
+ *
+ * @example
+ * const { data: templates = [] } = useTemplatesQuery();
+ */
+export function useTemplatesQuery() {
+  return useQuery({
+    queryKey: templateKeys.lists(),
+    queryFn: async () => {
+      const response = await templateService.fetchTemplates();
+
+      if (response.status === 'error') {
+        throw new Error(response.error || 'Failed to fetch templates');
+      }
+
+      return response.data ?? [];
+    },
+  });
+}
+
+export default useTemplatesQuery;
@@ -3,20 +3,24 @@
  * Uses nuqs for URL state syncing with proper parsing and defaults
  */
 
-import { useQueryState, parseAsString, parseAsBoolean, parseAsStringLiteral } from 'nuqs';
+import { useQueryState, parseAsString, parseAsBoolean, parseAsInteger, createParser } from 'nuqs';
 import { EmailFilter } from '@/types';
+import { isEmailFilter } from '@/lib/utils';
 
 /**
- * Valid email filter values for URL parsing
+ * URL parser for email filters - a built-in folder or `label:<name>`
  */
-const EMAIL_FILTERS = ['inbox', 'important', 'sent', 'unread', 'trash'] as const;
+const parseAsEmailFilter = createParser<EmailFilter>({
+  parse: (value) => (isEmailFilter(value) ? value : null),
+  serialize: (value) => value,
+});
 
 /**
  * Hook for managing email filter in URL
  * @returns [filter, setFilter] tuple
  */
 export function useFilterParam() {
-  return useQueryState('filter', parseAsStringLiteral(EMAIL_FILTERS).withDefault('inbox'));
+  return useQueryState('filter', parseAsEmailFilter.withDefault('inbox'));
 }
 
 /**
@@ -43,6 +47,15 @@ export function useSelectedEmailParam() {
   return useQueryState('email', parseAsString.withDefault(''));
 }
 
+/**
+ * Hook for managing the account (mailbox ID) being listed in URL
+ * Null lists the unified inbox of every account
+ * @returns [account, setAccount] tuple
+ */
+export function useAccountParam() {
+  return useQueryState('account', parseAsInteger);
+}
+
 /**
  * Combined hook for all email URL params
  */
@@ -51,6 +64,7 @@ export function useEmailUrlParams() {
   const [search, setSearch] = useSearchParam();
   const [threaded, setThreaded] = useThreadedParam();
   const [selectedEmailId, setSelectedEmailId] = useSelectedEmailParam();
+  const [account, setAccount] = useAccountParam();
 
   return {
     filter: filter as EmailFilter,
@@ -61,5 +75,7 @@ export function useEmailUrlParams() {
     setThreaded,
     selectedEmailId,
     setSelectedEmailId,
+    account,
+    setAccount,
   };
 }
@@ -0,0 +1,23 @@
+/**
+ * Next.js instrumentation hook - called once when a server instance starts
+ * Starts the background job runner in the Node.js runtime; set JOB_RUNNER=off to leave
+ * jobs to the standalone `npm run jobs` process instead. Also receives mail over SMTP when
+ * INBOUND_SMTP_PORT is set.
+ */
+
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return;
+  if (process.env.NEXT_PHASE === 'phase-production-build') return;
+
+  if (process.env.INBOUND_SMTP_PORT) {
+    const { startInboundSmtpListener } = await import('@/lib/inboundSmtp');
+    await startInboundSmtpListener().catch((error) =>
+      console.error('[smtp] Failed to start the inbound listener:', error),
+    );
+  }
+
+  if (process.env.JOB_RUNNER === 'off') return;
+
+  const { startJobRunner } = await import('@/lib/jobRunner');
+  startJobRunner();
+}
@@ -0,0 +1,272 @@
+/**
+ * Address List
+ * Parses, validates and formats RFC 5322 address lists such as
+ * `"Doe, Jane" <jane@example.com>, Team: bob@example.com;`
+ * Pure module with no Node dependencies - shared by the composer, the API routes and the mail
+ * parser. Internationalised addresses (RFC 6531) are accepted: non-ASCII local parts, and
+ * domains that convert to valid IDNA hostnames
+ */
+
+export interface MailAddress {
+  /** Display name, empty when the address has none */
+  name: string;
+  address: string;
+}
+
+const MAX_ADDRESS_LENGTH = 254;
+const MAX_LOCAL_PART_LENGTH = 64;
+
+// atext from RFC 5322, plus any non-ASCII character (RFC 6532)
+const DOT_ATOM_LOCAL =
+  /^[\w!#$%&'*+/=?^`{|}~\u0080-\uffff-]+(?:\.[\w!#$%&'*+/=?^`{|}~\u0080-\uffff-]+)*$/;
+const QUOTED_LOCAL = /^"(?:[^"\\\r\n]|\\.)*"$/;
+const HOSTNAME_LABEL = /^(?!-)[a-z0-9-]{1,63}(?<!-)$/;
+const DOMAIN_LITERAL = /^\[(?:(?:25[0-5]|2[0-4]\d|1?\d?\d)\.){3}(?:25[0-5]|2[0-4]\d|1?\d?\d)\]$/;
+
+/**
+ * Removes RFC 5322 comments - parenthesised text outside quoted strings
+ */
+export function stripComments(value: string): { text: string; comments: string[] } {
+  let text = '';
+  const comments: string[] = [];
+  let depth = 0;
+  let inQuotes = false;
+  let comment = '';
+
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i];
+    if (char === '\\' && i + 1 < value.length) {
+      if (depth) comment += value[++i];
+      else text += char + value[++i];
+      continue;
+    }
+    if (!depth && char === '"') inQuotes = !inQuotes;
+    if (!inQuotes && char === '(') {
+      if (depth++) comment += char;
+      continue;
+    }
+    if (!inQuotes && depth && char === ')') {
+      if (--depth) comment += char;
+      else {
+        comments.push(comment.trim());
+        comment = '';
+      }
+      continue;
+    }
+    if (depth) comment += char;
+    else text += char;
+  }
+  return { text, comments };
+}
+
+/**
+ * Removes surrounding quotes and backslash escapes from a display name
+ */
+function unquote(value: string): string {
+  const trimmed = value.trim();
+  return trimmed.startsWith('"') && trimmed.endsWith('"') && trimmed.length > 1
+    ? trimmed.slice(1, -1).replace(/\\(.)/g, '$1')
+    : trimmed.replace(/\s+/g, ' ');
+}
+
+/**
+ * Removes whitespace outside quoted strings, e.g. folding inside `< jane @ example.com >`
+ */
+function removeWhitespace(value: string): string {
+  return value.replace(/("(?:[^"\\]|\\.)*")|\s+/g, (match, quoted) => quoted ?? '');
+}
+
+/**
+ * Splits an address list into its mailboxes on commas (and group delimiters) outside quotes,
+ * comments and angle brackets; group names are dropped. The mailboxes are returned as typed,
+ * untrimmed, including empty ones between repeated commas
+ */
+export function splitAddressList(value: string): string[] {
+  const mailboxes: string[] = [];
+  let current = '';
+  let inQuotes = false;
+  let inAngle = false;
+  let depth = 0;
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i];
+    if (char === '\\' && i + 1 < value.length) {
+      current += char + value[++i];
+      continue;
+    }
+    if (!inQuotes && char === '(') depth++;
+    if (!inQuotes && char === ')' && depth) depth--;
+    if (!depth && char === '"') inQuotes = !inQuotes;
+    if (!depth && !inQuotes) {
+      if (char === '<') inAngle = true;
+      if (char === '>') inAngle = false;
+      if (!inAngle && (char === ',' || char === ';')) {
+        mailboxes.push(current);
+        current = '';
+        continue;
+      }
+      // "Group name:" starts a group - drop the name
+      if (!inAngle && char === ':') {
+        current = '';
+        continue;
+      }
+    }
+    current += char;
+  }
+  mailboxes.push(current);
+  return mailboxes;
+}
+
+/**
+ * Finds the angle address in a mailbox, ignoring brackets inside quoted strings as in
+ * `"Jane <Sales>" <jane@example.com>`
+ * @returns The text before, inside and after the brackets, or undefined when the mailbox has no
+ * angle address
+ */
+function findAngleAddress(
+  text: string,
+): { phrase: string; address: string; rest: string } | undefined {
+  const quoted: string[] = [];
+  const masked = text.replace(/"(?:[^"\\]|\\.)*"/g, (match) => `"${quoted.push(match) - 1}"`);
+  const angle = /<([^<>]*)>/.exec(masked);
+  if (!angle) return undefined;
+
+  const unmask = (value: string) => value.replace(/"(\d+)"/g, (_, index) => quoted[Number(index)]);
+  return {
+    phrase: unmask(masked.slice(0, angle.index)),
+    address: unmask(angle[1]),
+    rest: unmask(masked.slice(angle.index + angle[0].length)),
+  };
+}
+
+/**
+ * Parses one mailbox leniently: `Name <address>`, `address (Name)` or a bare address
+ * @returns undefined for a mailbox with no address
+ */
+function parseMailbox(mailbox: string): MailAddress | undefined {
+  const { text, comments } = stripComments(mailbox);
+  const angle = findAngleAddress(text);
+  // A whole address in quotes, such as `"jane@example.com"`, loses them
+  const address = removeWhitespace(angle ? angle.address : text).replace(/^"([^"]*)"$/, '$1');
+  if (!address) return undefined;
+  const name = angle ? unquote(angle.phrase) : (comments[0] ?? '');
+  return { name, address };
+}
+
+/**
+ * Parses an address list, from a header or a stored address field
+ * Handles display names (quoted or not), angle addresses, comments and groups; group names are
+ * dropped and their members listed. Parsing is lenient - use findInvalidAddresses to validate
+ */
+export function parseAddressList(value: string | null | undefined): MailAddress[] {
+  if (!value) return [];
+  return splitAddressList(value).flatMap((mailbox) => parseMailbox(mailbox) ?? []);
+}
+
+/**
+ * The ASCII (punycode) form of a domain, or undefined when it is not a valid hostname
+ * The WHATWG URL parser applies IDNA processing, the same in browsers and Node
+ */
+function toAsciiDomain(domain: string): string | undefined {
+  if (/[\s/?#:@[\]\\%]/.test(domain)) return undefined;
+  try {
+    return new URL(`http://${domain}`).hostname;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Checks a bare address (addr-spec) such as `jane@example.com`, `"jane doe"@example.com`,
+ * `josé@bücher.de` or `jane@[192.0.2.1]`
+ * A domain name must have at least two labels
+ */
+export function isValidAddress(address: string): boolean {
+  if (address.length > MAX_ADDRESS_LENGTH) return false;
+
+  const at = address.lastIndexOf('@');
+  if (at < 1) return false;
+  const local = address.slice(0, at);
+  const domain = address.slice(at + 1);
+
+  if (local.length > MAX_LOCAL_PART_LENGTH) return false;
+  if (!DOT_ATOM_LOCAL.test(local) && !QUOTED_LOCAL.test(local)) return false;
+
+  if (DOMAIN_LITERAL.test(domain)) return true;
+  const hostname = toAsciiDomain(domain);
+  if (!hostname) return false;
+  const labels = hostname.split('.');
+  return (
+    labels.length > 1 &&
+    labels.every((label) => HOSTNAME_LABEL.test(label)) &&
+    // A numeric top-level label is an IP address, which belongs in brackets
+    /[a-z]/.test(labels[labels.length - 1])
+  );
+}
+
+/**
+ * Normalises a bare address for storage and comparison: trimmed, with the domain lowercased
+ * and in Unicode normal form C. The local part is kept as given, as RFC 5321 lets it be
+ * case-sensitive
+ */
+export function normalizeAddress(address: string): string {
+  const trimmed = address.trim();
+  const at = trimmed.lastIndexOf('@');
+  if (at < 0) return trimmed;
+  return `${trimmed.slice(0, at)}@${trimmed
+    .slice(at + 1)
+    .normalize('NFC')
+    .toLowerCase()}`;
+}
+
+/**
+ * Checks one mailbox strictly: a valid address, alone or in angle brackets after a display
+ * name. Unquoted display names may not contain `@`, brackets or an unmatched quote
+ */
+function isValidMailbox(mailbox: string): boolean {
+  const { text } = stripComments(mailbox);
+  const angle = findAngleAddress(text);
+  if (!angle) return isValidAddress(text.trim());
+
+  const phrase = angle.phrase.replace(/"(?:[^"\\]|\\.)*"/g, '');
+  return !angle.rest.trim() && !/["@<>]/.test(phrase) && isValidAddress(angle.address.trim());
+}
+
+/**
+ * The mailboxes in an address list that are not valid, as typed
+ * Empty entries between commas are ignored
+ */
+export function findInvalidAddresses(value: string): string[] {
+  return splitAddressList(value)
+    .map((mailbox) => mailbox.trim())
+    .filter((mailbox) => mailbox && !isValidMailbox(mailbox));
+}
+
+/**
+ * Formats an address as `Name <address>`, quoting the name when it contains specials
+ */
+export function formatAddress({ name, address }: MailAddress): string {
+  if (!name) return address;
+  const quoted = /[()<>[\]:;@\\,."]/.test(name) ? `"${name.replace(/(["\\])/g, '\\$1')}"` : name;
+  return `${quoted} <${address}>`;
+}
+
+/**
+ * Formats an address list for storage, e.g. `Ann <ann@example.com>, bob@example.com`
+ */
+export function formatAddressList(addresses: MailAddress[]): string {
+  return addresses.map(formatAddress).join(', ');
+}
+
+/**
+ * Rewrites an address list in the form it is stored in: one `Name <address>` or bare address
+ * per mailbox, comma-separated, with normalised addresses and display names kept
+ * @param value - The list as typed, or addresses already parsed from a message
+ */
+export function normalizeAddressList(value: string | MailAddress[]): string {
+  return formatAddressList(
+    (typeof value === 'string' ? parseAddressList(value) : value).map(({ name, address }) => ({
+      name,
+      address: normalizeAddress(address),
+    })),
+  );
+}
@@ -0,0 +1,123 @@
+/**
+ * Attachment Queries - Database access for email attachments
+ * File contents go through attachmentStorage; this module only handles metadata rows
+ */
+
+import path from 'path';
+import { and, asc, eq, inArray } from 'drizzle-orm';
+import { db } from '@/lib/database';
+import { attachments, emails, Attachment, Email, EmailData } from '@/lib/schema';
+import { ensureBlob, openBlobStream, writeBlob } from '@/lib/attachmentStorage';
+import { MessageAttachment } from '@/lib/mailFormatter';
+
+const DEFAULT_MIME_TYPE = 'application/octet-stream';
+
+/**
+ * Strips any client-supplied directory components from an uploaded filename
+ */
+function sanitizeFilename(name: string): string {
+  return path.basename(name.replace(/\\/g, '/')).trim() || 'attachment';
+}
+
+/**
+ * Inserts an email together with its attachments
+ * Blobs are written first; the email and attachment rows are inserted in one write transaction,
+ * which stores again any blob a trash purge removed in between
+ */
+export async function createEmailWithAttachments(
+  values: EmailData,
+  files: File[],
+): Promise<{ email: Email; attachments: Attachment[] }> {
+  const stored = await Promise.all(
+    files.map(async (file) => {
+      const data = Buffer.from(await file.arrayBuffer());
+      await writeBlob(data);
+      return {
+        filename: sanitizeFilename(file.name),
+        mimeType: file.type || DEFAULT_MIME_TYPE,
+        data,
+      };
+    }),
+  );
+
+  return db.transaction(
+    (tx) => {
+      const email = tx.insert(emails).values(values).returning().get();
+      const rows = stored.length
+        ? tx
+            .insert(attachments)
+            .values(
+              stored.map(({ data, ...file }) => ({
+                ...file,
+                size: data.length,
+                contentHash: ensureBlob(data),
+                emailId: email.id,
+              })),
+            )
+            .returning()
+            .all()
+        : [];
+      return { email, attachments: rows };
+    },
+    { behavior: 'immediate' },
+  );
+}
+
+/**
+ * Fetches attachments for a set of emails, grouped by email ID
+ */
+export async function fetchAttachmentsByEmail(
+  emailIds: number[],
+): Promise<Map<number, Attachment[]>> {
+  const grouped = new Map<number, Attachment[]>();
+  if (!emailIds.length) return grouped;
+
+  const rows = await db
+    .select()
+    .from(attachments)
+    .where(inArray(attachments.emailId, emailIds))
+    .orderBy(asc(attachments.id));
+
+  for (const row of rows) {
+    grouped.set(row.emailId, [...(grouped.get(row.emailId) ?? []), row]);
+  }
+  return grouped;
+}
+
+/**
+ * Fetches a single attachment, only if it belongs to the given email in the user's mailbox
+ */
+export async function fetchAttachment(
+  ownerId: number,
+  emailId: number,
+  attachmentId: number,
+): Promise<Attachment | undefined> {
+  const [row] = await db
+    .select({ attachment: attachments })
+    .from(attachments)
+    .innerJoin(emails, eq(emails.id, attachments.emailId))
+    .where(
+      and(
+        eq(attachments.id, attachmentId),
+        eq(attachments.emailId, emailId),
+        eq(emails.ownerId, ownerId),
+      ),
+    );
+  return row?.attachment;
+}
+
+/**
+ * Loads the contents of attachments from blob storage, for building outgoing or exported
+ * messages
+ */
+export async function readAttachments(
+  attachments: Attachment[] = [],
+): Promise<MessageAttachment[]> {
+  return Promise.all(
+    attachments.map(async ({ filename, mimeType, contentHash }) => ({
+      filename,
+      mimeType,
+      data: Buffer.from(await new Response(await openBlobStream(contentHash)).arrayBuffer()),
+    })),
+  );
+}
@@ -0,0 +1,101 @@
+/**
+ * Attachment Storage - Content-addressed blob store on the local filesystem
+ * Blobs are named by the SHA-256 of their contents and sharded by the first two hex characters,
+ * so storing the same file twice writes it once
+ */
+
+import { createHash, randomUUID } from 'crypto';
+import {
+  createReadStream,
+  existsSync,
+  mkdirSync,
+  promises as fs,
+  renameSync,
+  unlinkSync,
+  writeFileSync,
+} from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+
+const STORAGE_DIR =
+  process.env.ATTACHMENT_STORAGE_DIR || path.join(process.cwd(), 'storage', 'attachments');
+
+const HASH_PATTERN = /^[0-9a-f]{64}$/;
+
+/**
+ * Hex SHA-256 of a buffer - the key a blob is stored under
+ */
+export function hashContent(data: Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+/**
+ * Resolves a content hash to its file path
+ * Rejects anything that is not a hash so a stored value can never escape the storage directory
+ */
+function blobPath(hash: string): string {
+  if (!HASH_PATTERN.test(hash)) throw new Error(`Invalid content hash: ${hash}`);
+  return path.join(STORAGE_DIR, hash.slice(0, 2), hash);
+}
+
+/**
+ * Stores a blob and returns its content hash
+ * Written to a temporary file and renamed into place, so readers never see a partial blob
+ */
+export async function writeBlob(data: Buffer): Promise<string> {
+  const hash = hashContent(data);
+  const target = blobPath(hash);
+
+  try {
+    await fs.access(target);
+    return hash;
+  } catch {
+    // Not stored yet
+  }
+
+  await fs.mkdir(path.dirname(target), { recursive: true });
+  const temp = `${target}.${randomUUID()}.tmp`;
+  await fs.writeFile(temp, data);
+  await fs.rename(temp, target);
+  return hash;
+}
+
+/**
+ * Stores a blob unless it is already there, synchronously, so it can run inside the database
+ * transaction that inserts the attachment rows referencing it - see deleteBlob
+ */
+export function ensureBlob(data: Buffer): string {
+  const hash = hashContent(data);
+  const target = blobPath(hash);
+  if (existsSync(target)) return hash;
+
+  mkdirSync(path.dirname(target), { recursive: true });
+  const temp = `${target}.${randomUUID()}.tmp`;
+  writeFileSync(temp, data);
+  renameSync(temp, target);
+  return hash;
+}
+
+/**
+ * Opens a stored blob as a web stream for use as a response body
+ * @throws if the blob does not exist
+ */
+export async function openBlobStream(hash: string): Promise<ReadableStream<Uint8Array>> {
+  const file = blobPath(hash);
+  await fs.access(file);
+  return Readable.toWeb(createReadStream(file)) as ReadableStream<Uint8Array>;
+}
+
+/**
+ * Removes a stored blob; a blob that is already gone is not an error
+ * Synchronous so callers can run it inside the write transaction in which they checked that no
+ * attachment row references the hash. Rows are only inserted under the same lock, after
+ * ensureBlob, so a writer that found the blob before it was removed stores it again
+ */
+export function deleteBlob(hash: string): void {
+  try {
+    unlinkSync(blobPath(hash));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+  }
+}
@@ -0,0 +1,43 @@
+/**
+ * Auth - Sign-in state for route handlers and server components
+ * The session token travels in an HTTP-only cookie. Route handlers look the user up with
+ * getSessionUser and answer 401 when there is none; every query is then scoped to user.id.
+ */
+
+import { cookies } from 'next/headers';
+import { NextRequest, NextResponse } from 'next/server';
+import { findSessionUser } from '@/lib/userQueries';
+import { SESSION_COOKIE, SessionUser } from '@/types';
+
+/**
+ * The user signed in on a request, if any
+ */
+export async function getSessionUser(request: NextRequest): Promise<SessionUser | undefined> {
+  const token = request.cookies.get(SESSION_COOKIE)?.value;
+  return token ? findSessionUser(token) : undefined;
+}
+
+/**
+ * The user signed in on the current page request, for server components
+ */
+export async function getCurrentUser(): Promise<SessionUser | undefined> {
+  const token = (await cookies()).get(SESSION_COOKIE)?.value;
+  return token ? findSessionUser(token) : undefined;
+}
+
+/**
+ * Stores the session token in an HTTP-only cookie that JavaScript on the page cannot read
+ */
+export function setSessionCookie(response: NextResponse, token: string, expiresAt: Date): void {
+  response.cookies.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    expires: expiresAt,
+  });
+}
+
+export function clearSessionCookie(response: NextResponse): void {
+  response.cookies.set(SESSION_COOKIE, '', { httpOnly: true, path: '/', maxAge: 0 });
+}
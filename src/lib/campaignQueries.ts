@@ -0,0 +1,557 @@
+/**
+ * Campaign Queries
+ * Data access layer for outreach campaigns: sequences of emails sent to enrolled leads, each
+ * step a set number of days after the last, on one thread per lead. The job runner sends the
+ * steps that are due; a lead who replies is not sent the steps that stop on reply
+ */
+
+import { db } from '@/lib/database';
+import {
+  Campaign,
+  campaignLeads,
+  campaigns,
+  CampaignLead,
+  CampaignStatus,
+  DeliveryStatus,
+  emails,
+  Email,
+  EmailDirection,
+  leads,
+  LeadStatus,
+  mailboxes,
+  sequenceSteps,
+  SequenceStep,
+  users,
+} from '@/lib/schema';
+import {
+  findInvalidAddresses,
+  formatAddress,
+  MailAddress,
+  parseAddressList,
+} from '@/lib/addressList';
+import { createEmailWithAttachments } from '@/lib/attachmentQueries';
+import { recordContacts } from '@/lib/contactQueries';
+import { renderMergeTemplate, validateMergeTemplate } from '@/lib/mailMerge';
+import { findSignature, formatSender } from '@/lib/mailboxQueries';
+import { hasSignature, insertSignature } from '@/lib/signature';
+import { fetchMergeValues } from '@/lib/mergeQueries';
+import { publishMailEvent } from '@/lib/mailEvents';
+import { recalculateStatsFor } from '@/lib/statsQueries';
+import { getReplyHeaders } from '@/lib/threadingQueries';
+import { generateMessageId, generateThreadId } from '@/lib/utils';
+import { and, asc, count, desc, eq, inArray, isNotNull, lte, sql } from 'drizzle-orm';
+import {
+  CampaignSummary,
+  CampaignWithDetails,
+  MAX_SEQUENCE_STEPS,
+  MAX_STEP_ATTEMPTS,
+  MAX_STEP_DELAY_DAYS,
+  SequenceStepRequest,
+  STEP_RETRY_DELAY_MS,
+} from '@/types';
+
+/**
+ * Raised for a campaign or lead that cannot be saved, such as a sequence with no steps
+ */
+export class CampaignError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CampaignError';
+  }
+}
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Rows per insert statement, well under SQLite's bound-parameter limit
+const INSERT_BATCH_SIZE = 500;
+
+// How long a claimed lead is held back from other runners while its step is being sent
+const SEND_LEASE_MS = 5 * 60 * 1000;
+
+const addDays = (date: Date, days: number) => new Date(date.getTime() + days * DAY_MS);
+
+/**
+ * Condition matching active leads of active campaigns whose next step is due
+ */
+const dueCondition = (now: Date) =>
+  and(
+    eq(campaignLeads.status, LeadStatus.ACTIVE),
+    lte(campaignLeads.nextSendAt, now),
+    inArray(
+      campaignLeads.campaignId,
+      db
+        .select({ id: campaigns.id })
+        .from(campaigns)
+        .where(eq(campaigns.status, CampaignStatus.ACTIVE)),
+    ),
+  );
+
+/**
+ * Checks a sequence and trims its text
+ * @throws CampaignError for an empty or over-long sequence, a first step without a subject, a
+ * step without content, a delay that is not a whole number of days in range or an unknown
+ * mail merge variable
+ */
+function validateSteps(steps: SequenceStepRequest[]): Required<SequenceStepRequest>[] {
+  if (!Array.isArray(steps) || !steps.length) {
+    throw new CampaignError('A campaign needs at least one step');
+  }
+  if (steps.length > MAX_SEQUENCE_STEPS) {
+    throw new CampaignError(`A campaign can have at most ${MAX_SEQUENCE_STEPS} steps`);
+  }
+
+  return steps.map(({ subject, content, delayDays = 0, stopOnReply = true }, index) => {
+    const step = `Step ${index + 1}`;
+    if (index === 0 && !subject?.trim()) throw new CampaignError(`${step} needs a subject`);
+    if (typeof content !== 'string' || !content.trim()) {
+      throw new CampaignError(`${step} needs content`);
+    }
+    if (!Number.isInteger(delayDays) || delayDays < 0 || delayDays > MAX_STEP_DELAY_DAYS) {
+      throw new CampaignError(
+        `${step} delay must be a whole number of days from 0 to ${MAX_STEP_DELAY_DAYS}`,
+      );
+    }
+    if (typeof stopOnReply !== 'boolean') {
+      throw new CampaignError(`${step} stopOnReply must be true or false`);
+    }
+    const mergeError = validateMergeTemplate(`${subject ?? ''}\n${content}`);
+    if (mergeError) throw new CampaignError(`${step}: ${mergeError}`);
+    return { subject: subject?.trim() ?? '', content: content.trim(), delayDays, stopOnReply };
+  });
+}
+
+/**
+ * Fetches a user's campaigns, newest first, with their step count and leads by status
+ */
+export async function fetchCampaigns(ownerId: number): Promise<CampaignSummary[]> {
+  const rows = await db
+    .select()
+    .from(campaigns)
+    .where(eq(campaigns.ownerId, ownerId))
+    .orderBy(desc(campaigns.createdAt), desc(campaigns.id));
+  const ids = rows.map(({ id }) => id);
+
+  const stepCounts = await db
+    .select({ campaignId: sequenceSteps.campaignId, steps: count() })
+    .from(sequenceSteps)
+    .where(inArray(sequenceSteps.campaignId, ids))
+    .groupBy(sequenceSteps.campaignId);
+  const leadCounts = await db
+    .select({ campaignId: campaignLeads.campaignId, status: campaignLeads.status, leads: count() })
+    .from(campaignLeads)
+    .where(inArray(campaignLeads.campaignId, ids))
+    .groupBy(campaignLeads.campaignId, campaignLeads.status);
+
+  return rows.map((campaign) => {
+    const leadsWith = (status: LeadStatus) =>
+      leadCounts.find((row) => row.campaignId === campaign.id && row.status === status)?.leads ?? 0;
+    return {
+      ...campaign,
+      stepCount: stepCounts.find(({ campaignId }) => campaignId === campaign.id)?.steps ?? 0,
+      leadCounts: {
+        [LeadStatus.ACTIVE]: leadsWith(LeadStatus.ACTIVE),
+        [LeadStatus.REPLIED]: leadsWith(LeadStatus.REPLIED),
+        [LeadStatus.COMPLETED]: leadsWith(LeadStatus.COMPLETED),
+        [LeadStatus.FAILED]: leadsWith(LeadStatus.FAILED),
+      },
+    };
+  });
+}
+
+/**
+ * Fetches one of a user's campaigns with its sequence and leads (in the order they enrolled)
+ * @returns undefined if the user has no campaign with this ID
+ */
+export async function fetchCampaign(
+  ownerId: number,
+  id: number,
+): Promise<CampaignWithDetails | undefined> {
+  const [campaign] = await db
+    .select()
+    .from(campaigns)
+    .where(and(eq(campaigns.ownerId, ownerId), eq(campaigns.id, id)));
+  if (!campaign) return undefined;
+
+  const steps = await db
+    .select()
+    .from(sequenceSteps)
+    .where(eq(sequenceSteps.campaignId, id))
+    .orderBy(asc(sequenceSteps.position));
+  const leads = await db
+    .select()
+    .from(campaignLeads)
+    .where(eq(campaignLeads.campaignId, id))
+    .orderBy(asc(campaignLeads.id));
+  return { ...campaign, steps, leads };
+}
+
+/**
+ * Checks and parses an address list of leads
+ * @throws CampaignError when the list is empty or has an invalid address
+ */
+function parseLeads(addressList: string): MailAddress[] {
+  const invalid = findInvalidAddresses(addressList);
+  if (invalid.length) throw new CampaignError(`Invalid lead address: ${invalid.join(', ')}`);
+  const people = parseAddressList(addressList);
+  if (!people.length) throw new CampaignError('No leads to enrol');
+  return people;
+}
+
+/**
+ * Inserts leads at the start of a campaign's sequence, skipping addresses already enrolled
+ * Runs inside the caller's transaction; rows are inserted in batches
+ */
+function insertLeads(
+  tx: Transaction,
+  campaign: { id: number; steps: SequenceStep[] },
+  people: MailAddress[],
+  now: Date,
+): CampaignLead[] {
+  const nextSendAt = addDays(now, campaign.steps[0]?.delayDays ?? 0);
+  const rows = people.map(({ name, address }) => ({
+    campaignId: campaign.id,
+    address: address.toLowerCase(),
+    name: name || null,
+    nextSendAt,
+    createdAt: now,
+    updatedAt: now,
+  }));
+
+  const inserted: CampaignLead[] = [];
+  for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+    inserted.push(
+      ...tx
+        .insert(campaignLeads)
+        .values(rows.slice(i, i + INSERT_BATCH_SIZE))
+        .onConflictDoNothing()
+        .returning()
+        .all(),
+    );
+  }
+  return inserted;
+}
+
+/**
+ * Creates an active campaign with its sequence, enrolling any leads given
+ * @param mailboxId - Mailbox to send from, already checked to be the owner's; null for their
+ * primary mailbox
+ * @throws CampaignError when the name is blank, the sequence is invalid or a lead's address is
+ * invalid; nothing is saved
+ */
+export async function createCampaign(
+  ownerId: number,
+  {
+    name,
+    mailboxId,
+    steps,
+    leads,
+  }: { name: string; mailboxId: number | null; steps: SequenceStepRequest[]; leads?: string },
+  now: Date = new Date(),
+): Promise<CampaignWithDetails> {
+  if (!name?.trim()) throw new CampaignError('Name is required');
+  const sequence = validateSteps(steps);
+  const people = leads?.trim() ? parseLeads(leads) : [];
+
+  return db.transaction((tx) => {
+    const campaign = tx
+      .insert(campaigns)
+      .values({ ownerId, mailboxId, name: name.trim(), createdAt: now, updatedAt: now })
+      .returning()
+      .get();
+    const rows = tx
+      .insert(sequenceSteps)
+      .values(sequence.map((step, position) => ({ ...step, campaignId: campaign.id, position })))
+      .returning()
+      .all();
+    const enrolled = insertLeads(tx, { id: campaign.id, steps: rows }, people, now);
+    return { ...campaign, steps: rows, leads: enrolled };
+  });
+}
+
+/**
+ * Pauses or resumes a campaign
+ * Leads keep their place while it is paused; steps that fell due meanwhile are sent once it is
+ * resumed
+ * @returns The updated campaign, or undefined if the user has no campaign with this ID
+ */
+export async function setCampaignStatus(
+  ownerId: number,
+  id: number,
+  status: CampaignStatus,
+): Promise<Campaign | undefined> {
+  const [campaign] = await db
+    .update(campaigns)
+    .set({ status, updatedAt: new Date() })
+    .where(and(eq(campaigns.ownerId, ownerId), eq(campaigns.id, id)))
+    .returning();
+  return campaign;
+}
+
+/**
+ * Enrols the people on an address list in a campaign, starting at its first step
+ * Addresses are compared case-insensitively; anyone already enrolled is skipped
+ * @returns The leads that were added, or undefined if the user has no campaign with this ID
+ * @throws CampaignError when the list is empty or has an invalid address
+ */
+export async function enrolLeads(
+  ownerId: number,
+  campaignId: number,
+  addressList: string,
+  now: Date = new Date(),
+): Promise<CampaignLead[] | undefined> {
+  const people = parseLeads(addressList);
+  const campaign = await fetchCampaign(ownerId, campaignId);
+  if (!campaign) return undefined;
+
+  return db.transaction((tx) => insertLeads(tx, campaign, people, now));
+}
+
+/**
+ * Enrols everyone on one of the user's lead lists in a campaign, greeting them by first name
+ * Leads already enrolled are skipped, as with enrolLeads
+ * @returns The leads that were added, or undefined if the user has no campaign with this ID
+ * @throws CampaignError when the list has no leads
+ */
+export async function enrolLeadList(
+  ownerId: number,
+  campaignId: number,
+  listId: number,
+  now: Date = new Date(),
+): Promise<CampaignLead[] | undefined> {
+  const campaign = await fetchCampaign(ownerId, campaignId);
+  if (!campaign) return undefined;
+
+  const people = await db
+    .select({ name: sql<string>`coalesce(${leads.firstName}, '')`, address: leads.address })
+    .from(leads)
+    .where(and(eq(leads.ownerId, ownerId), eq(leads.listId, listId)))
+    .orderBy(asc(leads.id));
+  if (!people.length) throw new CampaignError('No leads to enrol');
+
+  return db.transaction((tx) => insertLeads(tx, campaign, people, now));
+}
+
+/**
+ * Finishes the sequence of every active lead who has replied - an incoming email on their
+ * thread - when the step they are due next stops on reply
+ * @param threadIds - Only check leads on these threads, for a newly arrived email; all leads
+ * when omitted
+ * @returns The number of leads stopped
+ */
+export async function stopRepliedLeads(
+  threadIds?: string[],
+  now: Date = new Date(),
+): Promise<number> {
+  if (threadIds && !threadIds.length) return 0;
+
+  const stopped = await db
+    .update(campaignLeads)
+    .set({ status: LeadStatus.REPLIED, nextSendAt: null, updatedAt: now })
+    .where(
+      and(
+        eq(campaignLeads.status, LeadStatus.ACTIVE),
+        threadIds ? inArray(campaignLeads.threadId, threadIds) : isNotNull(campaignLeads.threadId),
+        inArray(
+          campaignLeads.threadId,
+          db
+            .select({ threadId: emails.threadId })
+            .from(emails)
+            .innerJoin(campaigns, eq(campaigns.ownerId, emails.ownerId))
+            .where(
+              and(
+                eq(campaigns.id, campaignLeads.campaignId),
+                eq(emails.direction, EmailDirection.INCOMING),
+              ),
+            ),
+        ),
+        inArray(
+          campaignLeads.nextStep,
+          db
+            .select({ position: sequenceSteps.position })
+            .from(sequenceSteps)
+            .where(
+              and(
+                eq(sequenceSteps.campaignId, campaignLeads.campaignId),
+                eq(sequenceSteps.stopOnReply, true),
+              ),
+            ),
+        ),
+      ),
+    )
+    .returning({ id: campaignLeads.id });
+  return stopped.length;
+}
+
+/**
+ * Sends a lead the step they are due, as an outgoing email queued for delivery. The first
+ * step starts a new thread; later ones reply on it. The lead is claimed with a conditional
+ * UPDATE first, so concurrent runners never send a step twice. A step that cannot be sent is
+ * retried after STEP_RETRY_DELAY_MS, and the lead marked failed after MAX_STEP_ATTEMPTS
+ * @returns The email, or undefined if the lead was not due or the step failed
+ */
+async function sendNextStep(leadId: number, now: Date): Promise<Email | undefined> {
+  const [lead] = await db
+    .update(campaignLeads)
+    .set({ nextSendAt: new Date(now.getTime() + SEND_LEASE_MS) })
+    .where(and(eq(campaignLeads.id, leadId), dueCondition(now)))
+    .returning();
+  if (!lead) return undefined;
+
+  let email: Email | undefined;
+  try {
+    email = await sendStep(lead, now);
+  } catch (error) {
+    const attempts = lead.sendAttempts + 1;
+    const retry = attempts < MAX_STEP_ATTEMPTS;
+    await db
+      .update(campaignLeads)
+      .set({
+        status: retry ? LeadStatus.ACTIVE : LeadStatus.FAILED,
+        sendAttempts: attempts,
+        sendError: error instanceof Error ? error.message : String(error),
+        nextSendAt: retry ? new Date(now.getTime() + STEP_RETRY_DELAY_MS) : null,
+        updatedAt: now,
+      })
+      .where(eq(campaignLeads.id, lead.id));
+    return undefined;
+  }
+  if (email) await recordContacts(email.ownerId, [email]);
+  return email;
+}
+
+/**
+ * Renders and queues the step a claimed lead is due, then moves them on to the next one
+ * @returns The email, or undefined if the lead had no steps left
+ */
+async function sendStep(lead: CampaignLead, now: Date): Promise<Email | undefined> {
+  const [{ campaign, owner }] = await db
+    .select({ campaign: campaigns, owner: users })
+    .from(campaigns)
+    .innerJoin(users, eq(users.id, campaigns.ownerId))
+    .where(eq(campaigns.id, lead.campaignId));
+  const steps: SequenceStep[] = await db
+    .select()
+    .from(sequenceSteps)
+    .where(eq(sequenceSteps.campaignId, campaign.id))
+    .orderBy(asc(sequenceSteps.position));
+  const step = steps[lead.nextStep];
+  if (!step) {
+    await db
+      .update(campaignLeads)
+      .set({ status: LeadStatus.COMPLETED, nextSendAt: null, updatedAt: now })
+      .where(eq(campaignLeads.id, lead.id));
+    return undefined;
+  }
+
+  // The campaign's mailbox, or the primary one when it has none or it was removed
+  const [mailbox] = await db
+    .select()
+    .from(mailboxes)
+    .where(
+      and(
+        eq(mailboxes.ownerId, owner.id),
+        campaign.mailboxId ? eq(mailboxes.id, campaign.mailboxId) : undefined,
+      ),
+    )
+    .orderBy(asc(mailboxes.id))
+    .limit(1);
+  const threadId = lead.threadId ?? generateThreadId();
+  const headers = lead.threadId
+    ? await getReplyHeaders(owner.id, threadId)
+    : { inReplyTo: null, references: null };
+
+  // Each lead gets their own rendering of the step; follow-ups without a subject reply to the
+  // subject the lead was first sent
+  const person = { name: lead.name ?? '', address: lead.address };
+  const values = await fetchMergeValues(owner.id, person);
+  const [firstEmail] = lead.threadId
+    ? await db
+        .select({ subject: emails.subject })
+        .from(emails)
+        .where(and(eq(emails.ownerId, owner.id), eq(emails.threadId, lead.threadId)))
+        .orderBy(asc(emails.createdAt), asc(emails.id))
+        .limit(1)
+    : [];
+  const subject = step.subject
+    ? renderMergeTemplate(step.subject, values)
+    : `Re: ${firstEmail?.subject ?? renderMergeTemplate(steps[0].subject, values)}`;
+  // Steps are signed like mail from the composer, unless the step has a signature of its own
+  const rendered = renderMergeTemplate(step.content, values);
+  const content = hasSignature(rendered)
+    ? rendered
+    : insertSignature(rendered, await findSignature(owner.id, mailbox)).trim();
+
+  const { email } = await createEmailWithAttachments(
+    {
+      ownerId: owner.id,
+      mailboxId: mailbox?.id ?? null,
+      threadId,
+      messageId: generateMessageId(),
+      ...headers,
+      subject,
+      from: mailbox ? formatSender(mailbox) : owner.email,
+      to: formatAddress(person),
+      content,
+      isRead: true,
+      isImportant: false,
+      direction: EmailDirection.OUTGOING,
+      deliveryStatus: DeliveryStatus.QUEUED,
+      nextDeliveryAt: now,
+      createdAt: now,
+      updatedAt: now,
+    },
+    [],
+  );
+
+  const next = steps[lead.nextStep + 1];
+  await db
+    .update(campaignLeads)
+    .set({
+      status: next ? LeadStatus.ACTIVE : LeadStatus.COMPLETED,
+      nextStep: lead.nextStep + 1,
+      nextSendAt: next ? addDays(now, next.delayDays) : null,
+      threadId,
+      lastSentAt: now,
+      sendAttempts: 0,
+      sendError: null,
+      updatedAt: now,
+    })
+    .where(eq(campaignLeads.id, lead.id));
+  return email;
+}
+
+/**
+ * Sends every campaign step that is due, oldest first, after stopping leads who have replied
+ * The emails are queued for the delivery job; stats are recalculated and each owner's
+ * subscribers notified of the new emails
+ * @returns The emails sent
+ */
+export async function sendDueCampaignSteps(now: Date = new Date()): Promise<Email[]> {
+  await stopRepliedLeads(undefined, now);
+
+  const due = await db
+    .select({ id: campaignLeads.id })
+    .from(campaignLeads)
+    .where(dueCondition(now))
+    .orderBy(asc(campaignLeads.nextSendAt), asc(campaignLeads.id));
+
+  const sent: Email[] = [];
+  for (const { id } of due) {
+    const email = await sendNextStep(id, now);
+    if (email) sent.push(email);
+  }
+
+  const stats = await recalculateStatsFor(sent.map((email) => email.ownerId));
+  for (const email of sent) {
+    publishMailEvent(email.ownerId, {
+      type: 'email.created',
+      email: { ...email, attachments: [], labels: [] },
+    });
+  }
+  for (const [ownerId, ownerStats] of stats) {
+    publishMailEvent(ownerId, { type: 'stats.changed', stats: ownerStats });
+  }
+  return sent;
+}
@@ -0,0 +1,218 @@
+/**
+ * Contact Queries
+ * Data access layer for the people a user exchanges mail with
+ * Contacts are recorded automatically from the From, To and Cc of sent and received mail, and
+ * can also be added, renamed and removed by hand
+ */
+
+import { db } from '@/lib/database';
+import { contacts, mailboxes, Contact, Email } from '@/lib/schema';
+import { parseAddressList } from '@/lib/mailParser';
+import { isValidEmail } from '@/lib/utils';
+import { and, asc, desc, eq, ne, or, sql } from 'drizzle-orm';
+import { ContactRequest, DEFAULT_CONTACT_SUGGESTIONS } from '@/types';
+
+/**
+ * Raised for a contact that cannot be saved, such as one with an invalid address
+ */
+export class ContactError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ContactError';
+  }
+}
+
+const toNullable = (value: string | null | undefined) => value?.trim() || null;
+
+// Rows per upsert statement, well under SQLite's bound-parameter limit
+const UPSERT_BATCH_SIZE = 500;
+
+/**
+ * Records the people on a batch of emails as the owner's contacts
+ * Each address on an email's From, To or Cc counts as one interaction with that email, dated
+ * when the email was created; the owner's own addresses are skipped. A contact's name is taken
+ * from the first email that gives one and is not overwritten afterwards, so a name set by hand
+ * sticks
+ */
+export async function recordContacts(
+  ownerId: number,
+  emailList: Pick<Email, 'from' | 'to' | 'cc' | 'createdAt'>[],
+): Promise<void> {
+  const own = await db
+    .select({ address: mailboxes.address })
+    .from(mailboxes)
+    .where(eq(mailboxes.ownerId, ownerId));
+  const ownAddresses = new Set(own.map(({ address }) => address));
+
+  const seen = new Map<string, Omit<Contact, 'id' | 'createdAt' | 'updatedAt'>>();
+  for (const email of emailList) {
+    const people = [email.from, email.to, email.cc].flatMap(parseAddressList);
+    const counted = new Set<string>();
+    for (const { name, address } of people) {
+      const normalized = address.toLowerCase();
+      if (ownAddresses.has(normalized) || counted.has(normalized)) continue;
+      if (!isValidEmail(normalized)) continue;
+      counted.add(normalized);
+
+      const contact = seen.get(normalized);
+      if (contact) {
+        contact.interactionCount++;
+        contact.name ??= toNullable(name);
+        if (email.createdAt > contact.lastInteractionAt!) {
+          contact.lastInteractionAt = email.createdAt;
+        }
+      } else {
+        seen.set(normalized, {
+          ownerId,
+          address: normalized,
+          name: toNullable(name),
+          interactionCount: 1,
+          lastInteractionAt: email.createdAt,
+        });
+      }
+    }
+  }
+
+  const rows = [...seen.values()];
+  for (let i = 0; i < rows.length; i += UPSERT_BATCH_SIZE) {
+    await db
+      .insert(contacts)
+      .values(rows.slice(i, i + UPSERT_BATCH_SIZE))
+      .onConflictDoUpdate({
+        target: [contacts.ownerId, contacts.address],
+        set: {
+          name: sql`coalesce(${contacts.name}, excluded.name)`,
+          interactionCount: sql`${contacts.interactionCount} + excluded.interaction_count`,
+          lastInteractionAt: sql`max(coalesce(${contacts.lastInteractionAt}, 0), excluded.last_interaction_at)`,
+          updatedAt: new Date(),
+        },
+      });
+  }
+}
+
+/**
+ * Fetches a user's contacts, most emailed first
+ */
+export async function fetchContacts(ownerId: number): Promise<Contact[]> {
+  return db
+    .select()
+    .from(contacts)
+    .where(eq(contacts.ownerId, ownerId))
+    .orderBy(
+      desc(contacts.interactionCount),
+      sql`lower(coalesce(${contacts.name}, ${contacts.address}))`,
+    );
+}
+
+/**
+ * Finds one of a user's contacts by address, ignoring case
+ * @param excludeId - Skip this contact (used when changing an address)
+ */
+export async function findContactByAddress(
+  ownerId: number,
+  address: string,
+  excludeId?: number,
+): Promise<Contact | undefined> {
+  const [contact] = await db
+    .select()
+    .from(contacts)
+    .where(
+      and(
+        eq(contacts.ownerId, ownerId),
+        eq(contacts.address, address.trim().toLowerCase()),
+        excludeId !== undefined ? ne(contacts.id, excludeId) : undefined,
+      ),
+    );
+  return contact;
+}
+
+/**
+ * Contacts whose address or name matches what has been typed so far, best first
+ * Matches at the start of the address or of a word in the name come before matches elsewhere;
+ * within each, the most emailed and then the most recently emailed come first
+ */
+export async function suggestContacts(
+  ownerId: number,
+  query: string,
+  limit: number = DEFAULT_CONTACT_SUGGESTIONS,
+): Promise<Contact[]> {
+  const term = query.trim().toLowerCase();
+  if (!term) return [];
+
+  const name = sql`lower(coalesce(${contacts.name}, ''))`;
+  const prefixMatch = sql`(instr(${contacts.address}, ${term}) = 1 OR instr(' ' || ${name}, ${' ' + term}) > 0)`;
+  return db
+    .select()
+    .from(contacts)
+    .where(
+      and(
+        eq(contacts.ownerId, ownerId),
+        or(sql`instr(${contacts.address}, ${term}) > 0`, sql`instr(${name}, ${term}) > 0`),
+      ),
+    )
+    .orderBy(
+      sql`CASE WHEN ${prefixMatch} THEN 0 ELSE 1 END`,
+      desc(contacts.interactionCount),
+      sql`${contacts.lastInteractionAt} IS NULL`,
+      desc(contacts.lastInteractionAt),
+      asc(contacts.id),
+    )
+    .limit(limit);
+}
+
+/**
+ * Adds a contact by hand
+ * @throws ContactError when the address is invalid
+ */
+export async function createContact(
+  ownerId: number,
+  { address, name }: ContactRequest,
+): Promise<Contact> {
+  const normalized = address.trim().toLowerCase();
+  if (!isValidEmail(normalized)) throw new ContactError('Invalid email address');
+
+  const [contact] = await db
+    .insert(contacts)
+    .values({ ownerId, address: normalized, name: toNullable(name) })
+    .returning();
+  return contact;
+}
+
+/**
+ * Updates a contact's address and/or name
+ * @returns The updated contact, or undefined if the user has no contact with this ID
+ * @throws ContactError when the new address is invalid
+ */
+export async function updateContact(
+  ownerId: number,
+  id: number,
+  { address, name }: Partial<ContactRequest>,
+): Promise<Contact | undefined> {
+  const normalized = address?.trim().toLowerCase();
+  if (normalized !== undefined && !isValidEmail(normalized)) {
+    throw new ContactError('Invalid email address');
+  }
+
+  const [contact] = await db
+    .update(contacts)
+    .set({
+      ...(normalized !== undefined && { address: normalized }),
+      ...(name !== undefined && { name: toNullable(name) }),
+      updatedAt: new Date(),
+    })
+    .where(and(eq(contacts.ownerId, ownerId), eq(contacts.id, id)))
+    .returning();
+  return contact;
+}
+
+/**
+ * Removes a contact; it is recorded again the next time mail is exchanged with the address
+ * @returns Whether the user had a contact with this ID
+ */
+export async function deleteContact(ownerId: number, id: number): Promise<boolean> {
+  const deleted = await db
+    .delete(contacts)
+    .where(and(eq(contacts.ownerId, ownerId), eq(contacts.id, id)))
+    .returning();
+  return deleted.length > 0;
+}
@@ -0,0 +1,63 @@
+import { parseCsv, CsvRecord } from './csv';
+
+const parse = async (...chunks: string[]): Promise<CsvRecord[]> => {
+  const records: CsvRecord[] = [];
+  for await (const record of parseCsv(chunks)) records.push(record);
+  return records;
+};
+
+const fieldsOf = async (...chunks: string[]) =>
+  (await parse(...chunks)).map(({ fields }) => fields);
+
+describe('parseCsv', () => {
+  it('should split records and fields', async () => {
+    expect(await fieldsOf('email,first name\r\nann@x.com,Ann\r\nbob@y.com,Bob\r\n')).toEqual([
+      ['email', 'first name'],
+      ['ann@x.com', 'Ann'],
+      ['bob@y.com', 'Bob'],
+    ]);
+  });
+
+  it('should accept LF and CR line endings and a last record without one', async () => {
+    expect(await fieldsOf('a,b\nc,d\re,f')).toEqual([
+      ['a', 'b'],
+      ['c', 'd'],
+      ['e', 'f'],
+    ]);
+  });
+
+  it('should keep empty fields', async () => {
+    expect(await fieldsOf(',a,,\n')).toEqual([['', 'a', '', '']]);
+  });
+
+  it('should unquote fields with commas, escaped quotes and line breaks', async () => {
+    expect(await fieldsOf('"Doe, Jane","She said ""hi""","line one\r\nline two",""\n')).toEqual([
+      ['Doe, Jane', 'She said "hi"', 'line one\r\nline two', ''],
+    ]);
+  });
+
+  it('should handle records, quotes and line breaks split across chunks', async () => {
+    expect(await fieldsOf('name,no', 'te\r', '\n"a "', '"b"', '"",c\r', '\nd,e')).toEqual([
+      ['name', 'note'],
+      ['a "b"', 'c'],
+      ['d', 'e'],
+    ]);
+  });
+
+  it('should number rows like a spreadsheet, skipping blank lines', async () => {
+    const records = await parse('a\n\n"multi\nline"\nb\n');
+    expect(records).toEqual([
+      { row: 1, fields: ['a'] },
+      { row: 3, fields: ['multi\nline'] },
+      { row: 4, fields: ['b'] },
+    ]);
+  });
+
+  it('should drop a byte order mark', async () => {
+    expect(await fieldsOf('﻿email\nann@x.com')).toEqual([['email'], ['ann@x.com']]);
+  });
+
+  it('should keep quotes inside unquoted fields and end an unterminated quote at the end', async () => {
+    expect(await fieldsOf('5" screen,"open\n')).toEqual([['5" screen', 'open\n']]);
+  });
+});
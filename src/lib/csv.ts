@@ -0,0 +1,112 @@
+/**
+ * CSV
+ * Streaming parser for RFC 4180 comma-separated values, as exported by spreadsheets
+ * Pure module with no Node dependencies - the import routes feed it request bodies chunk by
+ * chunk and the browser reads header rows with it
+ */
+
+/**
+ * One record, numbered from 1 as a spreadsheet numbers its rows (a quoted field with line
+ * breaks in it still counts as one row)
+ */
+export interface CsvRecord {
+  row: number;
+  fields: string[];
+}
+
+/**
+ * Parses CSV text arriving in chunks, yielding each record as soon as it is complete
+ * Fields may be quoted, with `""` for a quote and line breaks inside quotes; records end in
+ * CRLF, LF or CR. A leading byte order mark is dropped and blank lines are skipped (but still
+ * numbered). Parsing is lenient: a quote inside an unquoted field is kept as it is, and an
+ * unterminated quote runs to the end of the input
+ */
+export async function* parseCsv(
+  chunks: AsyncIterable<string> | Iterable<string>,
+): AsyncGenerator<CsvRecord> {
+  let fields: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  // The last character closed a quoted field, or was the first quote of a `""` pair
+  let quoteClosed = false;
+  // The last character was a CR, so an LF straight after it belongs to the same line break
+  let afterCr = false;
+  let row = 0;
+  let first = true;
+
+  const endRecord = (): CsvRecord | undefined => {
+    fields.push(field);
+    const record = fields;
+    fields = [];
+    field = '';
+    row++;
+    return record.length === 1 && record[0] === '' ? undefined : { row, fields: record };
+  };
+
+  for await (let chunk of chunks) {
+    if (first && chunk) {
+      if (chunk.charCodeAt(0) === 0xfeff) chunk = chunk.slice(1);
+      first = false;
+    }
+
+    for (const char of chunk) {
+      if (afterCr) {
+        afterCr = false;
+        if (char === '\n') continue;
+      }
+
+      if (inQuotes) {
+        if (char === '"') {
+          inQuotes = false;
+          quoteClosed = true;
+        } else field += char;
+        continue;
+      }
+
+      if (char === '"') {
+        if (quoteClosed) {
+          // `""` inside quotes is an escaped quote
+          field += '"';
+          inQuotes = true;
+          quoteClosed = false;
+        } else if (field === '') inQuotes = true;
+        else field += char;
+        continue;
+      }
+      quoteClosed = false;
+
+      if (char === ',') {
+        fields.push(field);
+        field = '';
+      } else if (char === '\n' || char === '\r') {
+        afterCr = char === '\r';
+        const record = endRecord();
+        if (record) yield record;
+      } else field += char;
+    }
+  }
+
+  if (field !== '' || fields.length || inQuotes || quoteClosed) {
+    const record = endRecord();
+    if (record) yield record;
+  }
+}
+
+/**
+ * Decodes a stream of UTF-8 bytes, such as a request body, into text chunks for parseCsv
+ */
+export async function* decodeText(stream: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const decoder = new TextDecoder();
+  const reader = stream.getReader();
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      yield decoder.decode(value, { stream: true });
+    }
+    const rest = decoder.decode();
+    if (rest) yield rest;
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -1,6 +1,11 @@
 import { drizzle } from 'drizzle-orm/better-sqlite3';
 import Database from 'better-sqlite3';
 import * as schema from './schema';
+import { ensureSearchIndex } from './searchIndex';
 
 const sqlite = new Database('./sqlite.db');
+// Required for ON DELETE CASCADE on attachments
+sqlite.pragma('foreign_keys = ON');
+ensureSearchIndex(sqlite);
+
 export const db = drizzle(sqlite, { schema });
@@ -0,0 +1,173 @@
+/**
+ * Delivery Queries
+ * Hands sent emails to the mail transport and records the outcome on the email. Emails wait
+ * as queued until delivered; failed attempts are retried with exponential backoff
+ */
+
+import { db } from '@/lib/database';
+import { DeliveryStatus, emails, mailboxes, Email } from '@/lib/schema';
+import { fetchAttachmentsByEmail, readAttachments } from '@/lib/attachmentQueries';
+import { formatMessage, MessageSignature } from '@/lib/mailFormatter';
+import { findSigningMailbox } from '@/lib/mailboxQueries';
+import { parseAddressList } from '@/lib/mailParser';
+import { getMailTransport, MailTransport, OutgoingMessage, SmtpError } from '@/lib/mailTransport';
+import { and, asc, eq, inArray, lte } from 'drizzle-orm';
+import { DELIVERY_RETRY_BASE_MS, MAX_DELIVERY_ATTEMPTS } from '@/types';
+
+// How long a claimed email is held back from other runners while it is being sent
+const DELIVERY_LEASE_MS = 5 * 60 * 1000;
+
+interface DeliveryOptions {
+  now?: Date;
+  transport?: MailTransport;
+}
+
+/**
+ * Condition matching emails waiting for a delivery attempt that is due
+ */
+const dueCondition = (now: Date) =>
+  and(
+    inArray(emails.deliveryStatus, [DeliveryStatus.QUEUED, DeliveryStatus.FAILED]),
+    lte(emails.nextDeliveryAt, now),
+  );
+
+/**
+ * Delay before retrying after the given number of failed attempts: 1, 2, 4, 8... times the base
+ */
+export function retryDelay(attempts: number): number {
+  return DELIVERY_RETRY_BASE_MS * 2 ** Math.max(attempts - 1, 0);
+}
+
+/**
+ * The HTML signature of the mailbox an email is sent from, or of the default one
+ * @returns undefined when that mailbox's signature is plain text
+ */
+async function findHtmlSignature(email: Email): Promise<MessageSignature | undefined> {
+  const [mailbox] = email.mailboxId
+    ? await db
+        .select()
+        .from(mailboxes)
+        .where(and(eq(mailboxes.ownerId, email.ownerId), eq(mailboxes.id, email.mailboxId)))
+    : [];
+  const signing = await findSigningMailbox(email.ownerId, mailbox);
+  return signing?.signature && signing.signatureHtml
+    ? { text: signing.signature, html: signing.signatureHtml }
+    : undefined;
+}
+
+/**
+ * Builds the envelope and message for an email
+ * Bcc recipients are in the envelope but not in the message headers; an HTML signature adds
+ * an HTML part
+ */
+async function buildOutgoingMessage(email: Email): Promise<OutgoingMessage> {
+  const recipients = [email.to, email.cc, email.bcc]
+    .flatMap((list) => (list ? parseAddressList(list) : []))
+    .map(({ address }) => address);
+  const attachments = await readAttachments(
+    (await fetchAttachmentsByEmail([email.id])).get(email.id),
+  );
+
+  return {
+    from: parseAddressList(email.from)[0]?.address ?? email.from,
+    recipients: [...new Set(recipients)],
+    raw: formatMessage(email, attachments, {
+      includeBcc: false,
+      signature: await findHtmlSignature(email),
+    }),
+  };
+}
+
+/**
+ * Makes one delivery attempt for a queued or failed email whose attempt is due
+ * The email is claimed with a conditional UPDATE first, so concurrent runners never send it
+ * twice. A failure is retried after retryDelay(attempts) until MAX_DELIVERY_ATTEMPTS; permanent
+ * SMTP rejections (5xx) are not retried.
+ * @returns The email with its new delivery status, or undefined if it was not due
+ */
+export async function deliverEmail(
+  id: number,
+  { now = new Date(), transport = getMailTransport() }: DeliveryOptions = {},
+): Promise<Email | undefined> {
+  const [email] = await db
+    .update(emails)
+    .set({ nextDeliveryAt: new Date(now.getTime() + DELIVERY_LEASE_MS) })
+    .where(and(eq(emails.id, id), dueCondition(now)))
+    .returning();
+  if (!email) return undefined;
+
+  const attempts = email.deliveryAttempts + 1;
+  try {
+    await transport.send(await buildOutgoingMessage(email));
+    const [delivered] = await db
+      .update(emails)
+      .set({
+        deliveryStatus: DeliveryStatus.SENT,
+        deliveryError: null,
+        deliveryAttempts: attempts,
+        nextDeliveryAt: null,
+      })
+      .where(eq(emails.id, id))
+      .returning();
+    return delivered;
+  } catch (error) {
+    const permanent = error instanceof SmtpError && (error.code ?? 0) >= 500;
+    const retry = !permanent && attempts < MAX_DELIVERY_ATTEMPTS;
+    const [failed] = await db
+      .update(emails)
+      .set({
+        deliveryStatus: DeliveryStatus.FAILED,
+        deliveryError: error instanceof Error ? error.message : String(error),
+        deliveryAttempts: attempts,
+        nextDeliveryAt: retry ? new Date(now.getTime() + retryDelay(attempts)) : null,
+      })
+      .where(eq(emails.id, id))
+      .returning();
+    return failed;
+  }
+}
+
+/**
+ * Makes a delivery attempt for every email that is due, oldest first
+ * @returns The emails attempted, with their new delivery status
+ */
+export async function deliverDueEmails(
+  now: Date = new Date(),
+  transport: MailTransport = getMailTransport(),
+): Promise<Email[]> {
+  const due = await db
+    .select({ id: emails.id })
+    .from(emails)
+    .where(dueCondition(now))
+    .orderBy(asc(emails.nextDeliveryAt), asc(emails.id));
+
+  const attempted: Email[] = [];
+  for (const { id } of due) {
+    const email = await deliverEmail(id, { now, transport });
+    if (email) attempted.push(email);
+  }
+  return attempted;
+}
+
+/**
+ * Puts a failed email back in the queue for an immediate attempt, with a fresh retry budget
+ * @returns The queued email, or undefined if the user has no failed email with this ID
+ */
+export async function retryDelivery(
+  ownerId: number,
+  id: number,
+  now: Date = new Date(),
+): Promise<Email | undefined> {
+  const [email] = await db
+    .update(emails)
+    .set({ deliveryStatus: DeliveryStatus.QUEUED, deliveryAttempts: 0, nextDeliveryAt: now })
+    .where(
+      and(
+        eq(emails.ownerId, ownerId),
+        eq(emails.id, id),
+        eq(emails.deliveryStatus, DeliveryStatus.FAILED),
+      ),
+    )
+    .returning();
+  return email;
+}
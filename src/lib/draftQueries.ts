@@ -0,0 +1,88 @@
+/**
+ * Draft Queries
+ * Data access layer for drafts - unsent emails saved from the composer (isDraft = true)
+ */
+
+import { db } from '@/lib/database';
+import { emails, Email, EmailDirection, Mailbox } from '@/lib/schema';
+import { formatSender } from '@/lib/mailboxQueries';
+import { generateThreadId } from '@/lib/utils';
+import { and, eq } from 'drizzle-orm';
+import { DraftRequest, SessionUser } from '@/types';
+
+/**
+ * Maps composer fields to columns
+ * Drafts may be incomplete, so nothing is required; content is kept as typed
+ */
+function toDraftColumns({ subject, to, cc, bcc, content }: DraftRequest) {
+  return {
+    ...(subject !== undefined && { subject }),
+    ...(to !== undefined && { to }),
+    ...(cc !== undefined && { cc: cc.trim() || null }),
+    ...(bcc !== undefined && { bcc: bcc.trim() || null }),
+    ...(content !== undefined && { content }),
+  };
+}
+
+// The mailbox a draft is written from, so reopening it restores the same identity
+const toSenderColumns = (mailbox?: Mailbox) =>
+  mailbox && { from: formatSender(mailbox), mailboxId: mailbox.id };
+
+/**
+ * Creates a draft from the user, starting a new thread unless it is a reply
+ * @param mailbox - The mailbox it is written from; the user's own address when absent
+ */
+export async function createDraft(
+  owner: SessionUser,
+  draft: DraftRequest,
+  mailbox?: Mailbox,
+): Promise<Email> {
+  const [email] = await db
+    .insert(emails)
+    .values({
+      subject: '',
+      to: '',
+      ...toDraftColumns(draft),
+      ownerId: owner.id,
+      threadId: draft.threadId || generateThreadId(),
+      from: owner.email,
+      ...toSenderColumns(mailbox),
+      isRead: true,
+      isDraft: true,
+      direction: EmailDirection.OUTGOING,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    })
+    .returning();
+  return email;
+}
+
+/**
+ * Updates a draft's fields, and the mailbox it is written from when one is given
+ * @returns The updated draft, or undefined if the user has no draft with this ID
+ */
+export async function updateDraft(
+  ownerId: number,
+  id: number,
+  draft: DraftRequest,
+  mailbox?: Mailbox,
+): Promise<Email | undefined> {
+  const [email] = await db
+    .update(emails)
+    .set({ ...toDraftColumns(draft), ...toSenderColumns(mailbox), updatedAt: new Date() })
+    .where(and(eq(emails.ownerId, ownerId), eq(emails.id, id), eq(emails.isDraft, true)))
+    .returning();
+  return email;
+}
+
+/**
+ * Permanently deletes a draft
+ * @returns Whether the user had a draft with this ID
+ */
+export async function deleteDraft(ownerId: number, id: number): Promise<boolean> {
+  const deleted = await db
+    .delete(emails)
+    .where(and(eq(emails.ownerId, ownerId), eq(emails.id, id), eq(emails.isDraft, true)))
+    .returning();
+  return deleted.length > 0;
+}
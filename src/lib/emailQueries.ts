@@ -1,25 +1,76 @@
 /**
  * Email Queries
- * Data access layer for email queries with filtering, search, and threading
+ * Data access layer for email queries with filtering, full-text search, threading and pagination
  * Used by both server components and API routes
  */
 
 import { db } from '@/lib/database';
-import { emails, EmailDirection } from '@/lib/schema';
-import { eq, or, like, desc, and, sql, SQL } from 'drizzle-orm';
-import { EmailFilter, Email } from '@/types';
+import { emails, EmailDirection, EmailStatus, Attachment, Email, Label } from '@/lib/schema';
+import {
+  emailsFts,
+  toMatchPhrase,
+  matchCondition,
+  excludeMatchCondition,
+  snippetColumn,
+} from '@/lib/searchIndex';
+import { parseSearchQuery } from '@/lib/searchQuery';
+import { fetchAttachmentsByEmail } from '@/lib/attachmentQueries';
+import { fetchLabelsByEmail, hasLabelCondition } from '@/lib/labelQueries';
+import { getLabelFilterName } from '@/lib/utils';
+import { DEFAULT_PAGE_SIZE, afterCursor, decodeCursor, toPage } from '@/lib/pagination';
+import { eq, ne, lt, lte, gt, gte, asc, desc, and, or, not, isNull, sql, SQL } from 'drizzle-orm';
+import { EmailFilter, EmailPage } from '@/types';
 
 export interface EmailQueryParams {
   filter?: EmailFilter;
   query?: string;
   threaded?: boolean;
+  /** Only list emails sent from or received at this mailbox; all of them when omitted */
+  account?: number;
+  /** Page size (defaults to DEFAULT_PAGE_SIZE) */
+  limit?: number;
+  /** Opaque cursor from a previous page's nextCursor */
+  cursor?: string;
 }
 
 /**
  * Builds the WHERE clause based on filter type
- * Note: trash filter returns deleted items, all others exclude deleted items
+ * Note: trash filter returns deleted items, all others exclude deleted items;
+ * drafts are only listed in the drafts folder, and scheduled emails only in the scheduled
+ * folder (or the trash) until they are sent
+ * @param includeArchived - Keep archived emails in the inbox (set when searching from it)
  */
-function getFilterCondition(filter: EmailFilter | undefined): SQL {
+function getFilterCondition(filter: EmailFilter | undefined, includeArchived = false): SQL {
+  switch (filter) {
+    case 'drafts':
+      return and(eq(emails.isDraft, true), eq(emails.isDeleted, false))!;
+    case 'scheduled':
+      return and(
+        eq(emails.status, EmailStatus.SCHEDULED),
+        eq(emails.isDraft, false),
+        eq(emails.isDeleted, false),
+      )!;
+    case 'trash':
+      return and(eq(emails.isDraft, false), getFolderCondition(filter))!;
+    default:
+      return and(
+        eq(emails.isDraft, false),
+        ne(emails.status, EmailStatus.SCHEDULED),
+        getFolderCondition(filter, includeArchived),
+      )!;
+  }
+}
+
+/**
+ * Condition for the non-draft folders and labels
+ * Snoozed emails are hidden from the inbox until snoozedUntil passes; archived emails are
+ * hidden from it for good but still listed in All Mail, their labels and the other folders
+ */
+function getFolderCondition(filter: EmailFilter | undefined, includeArchived = false): SQL {
+  const now = new Date();
+  const labelName = filter && getLabelFilterName(filter);
+  if (labelName) return and(hasLabelCondition(labelName), eq(emails.isDeleted, false))!;
+
   switch (filter) {
     case 'trash':
       return eq(emails.isDeleted, true);
@@ -29,83 +80,227 @@ function getFilterCondition(filter: EmailFilter | undefined): SQL {
       return and(eq(emails.direction, EmailDirection.OUTGOING), eq(emails.isDeleted, false))!;
     case 'unread':
       return and(eq(emails.isRead, false), eq(emails.isDeleted, false))!;
+    case 'snoozed':
+      return and(gt(emails.snoozedUntil, now), eq(emails.isDeleted, false))!;
+    case 'all':
+      return eq(emails.isDeleted, false);
+    case 'archive':
+      return and(eq(emails.isArchived, true), eq(emails.isDeleted, false))!;
     case 'inbox':
     default:
-      return and(eq(emails.direction, EmailDirection.INCOMING), eq(emails.isDeleted, false))!;
+      return getInboxCondition(includeArchived, now);
   }
 }
 
 /**
- * Builds search conditions for the query
+ * Condition for the inbox: incoming mail that is not deleted, archived or snoozed
+ * Shared with the label unread counts so their badges agree with the list
+ * @param includeArchived - Keep archived emails (set when searching from the inbox)
  */
-function getSearchConditions(query: string) {
-  const searchTerm = `%${query}%`;
-  return or(
-    like(emails.subject, searchTerm),
-    like(emails.to, searchTerm),
-    like(emails.cc, searchTerm),
-    like(emails.bcc, searchTerm),
-    like(emails.from, searchTerm),
-    like(emails.content, searchTerm),
-  );
+export function getInboxCondition(includeArchived = false, now: Date = new Date()): SQL {
+  return and(
+    eq(emails.direction, EmailDirection.INCOMING),
+    eq(emails.isDeleted, false),
+    includeArchived ? undefined : eq(emails.isArchived, false),
+    or(isNull(emails.snoozedUntil), lte(emails.snoozedUntil, now)),
+  )!;
 }
 
 /**
- * Builds a threaded query that gets the latest email per thread matching the given conditions
+ * Compiled search query
+ * `match` holds the positive full-text terms for the FTS5 index; the rest are plain conditions
  */
-async function fetchThreadedEmails(conditions: SQL[]): Promise<Email[]> {
-  // Get latest email per thread that matches conditions
-  const subquery = db
+interface SearchConditions {
+  conditions: SQL[];
+  match: string | null;
+  /** Folder selected with `in:`, replacing the sidebar filter */
+  folder?: EmailFilter;
+}
+
+/**
+ * Parses Gmail-style search input and compiles it to SQL conditions
+ * @throws SearchQueryError for malformed input
+ */
+function getSearchConditions(query: string): SearchConditions {
+  const { terms } = parseSearchQuery(query);
+  const conditions: SQL[] = [];
+  const phrases: string[] = [];
+  let folder: EmailFilter | undefined;
+
+  for (const term of terms) {
+    let condition: SQL;
+
+    switch (term.operator) {
+      case null:
+      case 'from':
+      case 'to':
+      case 'cc':
+      case 'subject': {
+        // Quoted values match exactly; barewords also match as word prefixes
+        const phrase = toMatchPhrase(term.value, {
+          prefix: !term.quoted,
+          column: term.operator ?? undefined,
+        });
+        if (term.negated) {
+          conditions.push(excludeMatchCondition(phrase));
+        } else {
+          phrases.push(phrase);
+        }
+        continue;
+      }
+      case 'is':
+        condition =
+          term.value === 'unread' || term.value === 'read'
+            ? eq(emails.isRead, term.value === 'read')
+            : eq(emails.isImportant, true);
+        break;
+      case 'in':
+        if (!term.negated) {
+          folder = term.value as EmailFilter;
+          continue;
+        }
+        condition = getFilterCondition(term.value as EmailFilter);
+        break;
+      case 'before':
+        condition = lt(emails.createdAt, new Date(`${term.value}T00:00:00`));
+        break;
+      case 'after':
+        condition = gte(emails.createdAt, new Date(`${term.value}T00:00:00`));
+        break;
+    }
+
+    conditions.push(term.negated ? not(condition) : condition);
+  }
+
+  return { conditions, match: phrases.length ? phrases.join(' ') : null, folder };
+}
+
+/**
+ * Builds the candidate rows for a list: every matching email, or in threaded mode the
+ * latest matching email per thread (threadPosition = 1)
+ * When searching, relevance is the row's rank, or the best rank in its thread when threaded
+ */
+function getCandidates(conditions: SQL[], match: string | null, threaded: boolean) {
+  const partition = sql`PARTITION BY ${emails.threadId}`;
+  const relevance = match
+    ? threaded
+      ? sql<number>`MIN(${emailsFts.rank}) OVER (${partition})`
+      : sql<number>`${emailsFts.rank}`
+    : sql<number>`0`;
+  // Ties on createdAt are broken by id so every thread yields exactly one latest row
+  const threadPosition = threaded
+    ? sql<number>`ROW_NUMBER() OVER (${partition} ORDER BY ${emails.createdAt} DESC, ${emails.id} DESC)`
+    : sql<number>`1`;
+
+  const query = db
     .select({
-      threadId: emails.threadId,
-      maxCreatedAt: sql<number>`MAX(${emails.createdAt})`.as('max_created_at'),
+      id: emails.id,
+      relevance: relevance.as('relevance'),
+      threadPosition: threadPosition.as('thread_position'),
     })
     .from(emails)
-    .where(and(...conditions))
-    .groupBy(emails.threadId)
-    .as('latest');
+    .$dynamic();
 
-  // Join to get full email records
-  const result = await db
-    .select()
-    .from(emails)
-    .innerJoin(
-      subquery,
-      and(eq(emails.threadId, subquery.threadId), eq(emails.createdAt, subquery.maxCreatedAt)),
-    )
-    .orderBy(desc(emails.createdAt));
+  if (!match) return query.where(and(...conditions)).as('candidates');
 
-  return result.map((row) => row.emails);
+  return query
+    .innerJoin(emailsFts, eq(emailsFts.rowid, emails.id))
+    .where(and(...conditions, matchCondition(match)))
+    .as('candidates');
 }
 
 /**
- * Fetches emails with optional search, filter, and threading
+ * Fetches one page of a user's emails with optional search, filter, and threading
+ * Pages are ordered by relevance when searching, then newest first, and are keyset-paginated
+ * on (relevance, createdAt, id) via an opaque cursor
+ * @throws SearchQueryError when the search query is malformed
+ * @throws PaginationError when the cursor is malformed
  */
-export async function fetchEmails(params: EmailQueryParams): Promise<Email[]> {
-  const { filter, query, threaded } = params;
+export async function fetchEmails(ownerId: number, params: EmailQueryParams): Promise<EmailPage> {
+  const { filter, query, threaded = false, account, limit = DEFAULT_PAGE_SIZE, cursor } = params;
 
-  // Build conditions array
-  const conditions: SQL[] = [];
+  // Compile search operators and full-text terms
+  const search: SearchConditions = query?.trim()
+    ? getSearchConditions(query)
+    : { conditions: [], match: null };
+  const { match } = search;
 
-  // Add filter condition
-  conditions.push(getFilterCondition(filter));
+  // Build conditions array: the user's mailbox (or one of their accounts), folder filter (or
+  // its in: override) plus search conditions. Searching from the inbox also finds archived mail;
+  // an explicit in:inbox does not
+  const conditions: SQL[] = [
+    eq(emails.ownerId, ownerId),
+    ...(account !== undefined ? [eq(emails.mailboxId, account)] : []),
+    search.folder
+      ? getFilterCondition(search.folder)
+      : getFilterCondition(filter, Boolean(query?.trim())),
+    ...search.conditions,
+  ];
 
-  // Add search condition
-  if (query && query.trim()) {
-    const searchCondition = getSearchConditions(query.trim());
-    if (searchCondition) {
-      conditions.push(searchCondition);
-    }
+  const candidates = getCandidates(conditions, match, threaded);
+
+  // Rows after the cursor in (relevance ASC, createdAt DESC, id DESC) order
+  const pageConditions: SQL[] = [eq(candidates.threadPosition, 1)];
+  if (cursor) {
+    const after = decodeCursor(cursor);
+    pageConditions.push(
+      or(
+        gt(candidates.relevance, after.relevance),
+        and(eq(candidates.relevance, after.relevance), afterCursor(after, 'desc')),
+      )!,
+    );
   }
 
-  if (threaded) {
-    return fetchThreadedEmails(conditions);
-  } else {
-    // Non-threaded: return all emails matching conditions
-    return db
-      .select()
-      .from(emails)
-      .where(and(...conditions))
-      .orderBy(desc(emails.createdAt));
+  let pageQuery = db
+    .select({
+      email: emails,
+      relevance: candidates.relevance,
+      // Join back to the index so the snippet comes from the returned email
+      snippet: match ? snippetColumn() : sql<null>`NULL`,
+    })
+    .from(emails)
+    .innerJoin(candidates, eq(candidates.id, emails.id))
+    .$dynamic();
+
+  if (match) {
+    pageQuery = pageQuery.innerJoin(emailsFts, eq(emailsFts.rowid, emails.id));
+    pageConditions.push(matchCondition(match));
   }
+
+  const rows = await pageQuery
+    .where(and(...pageConditions))
+    .orderBy(asc(candidates.relevance), desc(emails.createdAt), desc(emails.id))
+    .limit(limit + 1);
+
+  const { items, nextCursor } = toPage(rows, limit, (row) => ({
+    createdAt: row.email.createdAt.getTime(),
+    id: row.email.id,
+    relevance: row.relevance,
+  }));
+
+  return {
+    emails: await withEmailDetails(
+      items.map((row) => (row.snippet ? { ...row.email, snippet: row.snippet } : row.email)),
+    ),
+    nextCursor,
+  };
+}
+
+/**
+ * Adds attachment metadata and labels to a page of emails
+ */
+export async function withEmailDetails<T extends Email>(
+  emailList: T[],
+): Promise<(T & { attachments: Attachment[]; labels: Label[] })[]> {
+  const ids = emailList.map((email) => email.id);
+  const [attachmentsByEmail, labelsByEmail] = await Promise.all([
+    fetchAttachmentsByEmail(ids),
+    fetchLabelsByEmail(ids),
+  ]);
+
+  return emailList.map((email) => ({
+    ...email,
+    attachments: attachmentsByEmail.get(email.id) ?? [],
+    labels: labelsByEmail.get(email.id) ?? [],
+  }));
 }
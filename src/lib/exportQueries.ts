@@ -0,0 +1,72 @@
+/**
+ * Export Queries
+ * Walks the emails selected for export - a list view or search, or one conversation - page by
+ * page so large mailboxes are never loaded at once
+ */
+
+import { and, asc, eq } from 'drizzle-orm';
+import { db } from '@/lib/database';
+import { emails } from '@/lib/schema';
+import { fetchEmails, withEmailDetails, EmailQueryParams } from '@/lib/emailQueries';
+import { afterCursor, MAX_PAGE_SIZE } from '@/lib/pagination';
+import { EmailSearchResult } from '@/types';
+
+export type ExportParams = Pick<EmailQueryParams, 'filter' | 'query' | 'threaded' | 'account'> & {
+  /** Export this conversation instead of a list */
+  threadId?: string;
+};
+
+/**
+ * Every sent or received email in one of a user's threads, oldest first
+ * Unlike the conversation view this ignores the folder, so a thread is exported whole
+ * (trashed, archived and scheduled emails included; drafts left out)
+ */
+async function* threadEmails(ownerId: number, threadId: string): AsyncGenerator<EmailSearchResult> {
+  let last: { createdAt: number; id: number; relevance: number } | undefined;
+  while (true) {
+    const page = await db
+      .select()
+      .from(emails)
+      .where(
+        and(
+          eq(emails.ownerId, ownerId),
+          eq(emails.threadId, threadId),
+          eq(emails.isDraft, false),
+          last ? afterCursor(last, 'asc') : undefined,
+        ),
+      )
+      .orderBy(asc(emails.createdAt), asc(emails.id))
+      .limit(MAX_PAGE_SIZE);
+
+    yield* await withEmailDetails(page);
+    if (page.length < MAX_PAGE_SIZE) return;
+    const { createdAt, id } = page[page.length - 1];
+    last = { createdAt: createdAt.getTime(), id, relevance: 0 };
+  }
+}
+
+/**
+ * A user's emails to export, with their attachment metadata and labels
+ * With a threadId, that conversation; otherwise the emails fetchEmails lists for the filter
+ * and query, in the same order. Threaded lists export every email of each listed thread.
+ * @throws SearchQueryError when the search query is malformed
+ */
+export async function* exportEmails(
+  ownerId: number,
+  { threadId, ...params }: ExportParams,
+): AsyncGenerator<EmailSearchResult> {
+  if (threadId) {
+    yield* threadEmails(ownerId, threadId);
+    return;
+  }
+
+  let cursor: string | undefined;
+  do {
+    const page = await fetchEmails(ownerId, { ...params, limit: MAX_PAGE_SIZE, cursor });
+    for (const email of page.emails) {
+      if (params.threaded) yield* threadEmails(ownerId, email.threadId);
+      else yield email;
+    }
+    cursor = page.nextCursor ?? undefined;
+  } while (cursor);
+}
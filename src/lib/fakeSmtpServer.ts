@@ -0,0 +1,55 @@
+/**
+ * Fake SMTP Server - An in-process SMTP server for tests
+ * Accepts any client on a random local port, records every message it receives, and can be
+ * told to reject the next messages to exercise failure handling
+ */
+
+import { createSmtpTransport, MailTransport } from '@/lib/mailTransport';
+import { startSmtpServer } from '@/lib/smtpServer';
+
+export interface ReceivedMessage {
+  from: string;
+  recipients: string[];
+  /** Message data with dot-stuffing undone */
+  data: string;
+}
+
+export interface FakeSmtpServer {
+  port: number;
+  /** Messages accepted so far, oldest first */
+  messages: ReceivedMessage[];
+  /** SMTP transport connected to this server */
+  transport: MailTransport;
+  /** Rejects the next `count` messages at MAIL FROM with the given reply */
+  rejectNext(count?: number, reply?: string): void;
+  close(): Promise<void>;
+}
+
+/**
+ * Starts a fake SMTP server on 127.0.0.1 and a free port
+ */
+export async function startFakeSmtpServer(): Promise<FakeSmtpServer> {
+  const messages: ReceivedMessage[] = [];
+  let rejections: { remaining: number; reply: string } = { remaining: 0, reply: '' };
+
+  const server = await startSmtpServer(0, '127.0.0.1', {
+    onMailFrom: () => {
+      if (rejections.remaining <= 0) return undefined;
+      rejections.remaining--;
+      return rejections.reply;
+    },
+    onMessage: async (envelope, data) => {
+      messages.push({ ...envelope, data: data.toString('latin1').replace(/\r\n$/, '') });
+    },
+  });
+
+  return {
+    port: server.port,
+    messages,
+    transport: createSmtpTransport({ host: '127.0.0.1', port: server.port, timeoutMs: 5000 }),
+    rejectNext(count = 1, reply = '550 Mailbox unavailable') {
+      rejections = { remaining: count, reply };
+    },
+    close: () => server.close(),
+  };
+}
@@ -0,0 +1,208 @@
+/**
+ * Import Queries
+ * Loads .mbox and .eml files into a user's mailbox
+ * Messages are matched on Message-ID, so importing the same mailbox twice adds nothing
+ */
+
+import { Buffer } from 'buffer';
+import { and, eq, inArray } from 'drizzle-orm';
+import { db } from '@/lib/database';
+import { emails, Email, EmailData, EmailDirection, Mailbox } from '@/lib/schema';
+import { hashContent } from '@/lib/attachmentStorage';
+import { createEmailWithAttachments } from '@/lib/attachmentQueries';
+import { assignThreadId } from '@/lib/threadingQueries';
+import { recalculateStats } from '@/lib/statsQueries';
+import { recordContacts } from '@/lib/contactQueries';
+import { stopRepliedLeads } from '@/lib/campaignQueries';
+import { fetchMailboxes } from '@/lib/mailboxQueries';
+import { normalizeAddressList } from '@/lib/addressList';
+import { MailAddress, parseMessage, ParsedMessage, splitMailFile } from '@/lib/mailParser';
+import { EmailStats, SessionUser } from '@/types';
+
+const NO_SUBJECT = '(no subject)';
+
+export interface ImportFile {
+  name: string;
+  data: Buffer;
+}
+
+export interface ImportFailure {
+  /** File the message came from */
+  file: string;
+  /** Position of the message within the file, from 0 */
+  index: number;
+  error: string;
+}
+
+export interface ImportProgress {
+  processed: number;
+  total: number;
+}
+
+export interface ImportResult {
+  imported: number;
+  /** Messages whose Message-ID is already stored */
+  skipped: number;
+  failed: ImportFailure[];
+  stats: EmailStats;
+}
+
+interface ImportOptions {
+  onProgress?: (progress: ImportProgress) => void;
+}
+
+interface PendingMessage {
+  file: string;
+  index: number;
+  message: ParsedMessage;
+  messageId: string;
+}
+
+/**
+ * Message-ID for a message that has none, derived from its contents so that receiving the
+ * same message again is recognised as a duplicate
+ */
+export function contentMessageId(raw: Buffer): string {
+  return `<${hashContent(raw).slice(0, 32)}@imported.invalid>`;
+}
+
+/**
+ * Maps a parsed message to an email row in the owner's mailbox (threadId is assigned on insert)
+ * Mail from one of the owner's mailboxes is outgoing and filed under it; everything else is
+ * incoming, filed under the first of their mailboxes it is addressed to
+ * @param ownMailboxes - The owner's mailboxes
+ */
+export function toEmailData(
+  message: ParsedMessage,
+  messageId: string,
+  owner: SessionUser,
+  ownMailboxes: Mailbox[],
+): Omit<EmailData, 'threadId'> {
+  const createdAt = message.date ?? new Date();
+  const byAddress = new Map(ownMailboxes.map((mailbox) => [mailbox.address, mailbox]));
+  const findMailbox = (addresses: MailAddress[]) =>
+    addresses.map(({ address }) => byAddress.get(address.toLowerCase())).find(Boolean);
+
+  const sender = findMailbox(message.from);
+  const direction =
+    sender || message.from.some(({ address }) => address.toLowerCase() === owner.email)
+      ? EmailDirection.OUTGOING
+      : EmailDirection.INCOMING;
+  const mailbox =
+    direction === EmailDirection.OUTGOING
+      ? sender
+      : findMailbox([...message.to, ...message.cc, ...message.bcc]);
+
+  return {
+    ownerId: owner.id,
+    mailboxId: mailbox?.id ?? null,
+    messageId,
+    inReplyTo: message.inReplyTo,
+    references: message.references,
+    subject: message.subject || NO_SUBJECT,
+    from: normalizeAddressList(message.from),
+    to: normalizeAddressList(message.to),
+    cc: normalizeAddressList(message.cc) || null,
+    bcc: normalizeAddressList(message.bcc) || null,
+    content: message.text,
+    // Our own mail is always read
+    isRead: message.isRead || direction === EmailDirection.OUTGOING,
+    direction,
+    createdAt,
+    updatedAt: createdAt,
+  };
+}
+
+/**
+ * Wraps a parsed message's attachments as files for createEmailWithAttachments
+ */
+export function toAttachmentFiles(message: ParsedMessage): File[] {
+  return message.attachments.map(
+    (attachment) =>
+      new File([new Uint8Array(attachment.data)], attachment.filename, {
+        type: attachment.mimeType,
+      }),
+  );
+}
+
+/**
+ * Imports every message in the given .mbox / .eml files into the user's mailbox
+ * Messages are inserted oldest first so replies thread onto their originals. A message without
+ * a Message-ID gets one derived from its contents, keeping re-imports idempotent. Messages that
+ * fail to parse or insert are reported and the rest carry on. Contacts are recorded, campaign
+ * leads who replied stopped and stats recalculated once at the end.
+ */
+export async function importMailFiles(
+  owner: SessionUser,
+  files: ImportFile[],
+  { onProgress }: ImportOptions = {},
+): Promise<ImportResult> {
+  const failed: ImportFailure[] = [];
+  const pending: PendingMessage[] = [];
+
+  for (const file of files) {
+    splitMailFile(file.data).forEach((raw, index) => {
+      try {
+        const message = parseMessage(raw);
+        const messageId = message.messageId ?? contentMessageId(Buffer.from(raw, 'latin1'));
+        pending.push({ file: file.name, index, message, messageId });
+      } catch (error) {
+        failed.push({ file: file.name, index, error: (error as Error).message });
+      }
+    });
+  }
+
+  const total = pending.length + failed.length;
+  let processed = failed.length;
+  onProgress?.({ processed, total });
+
+  // One lookup for the whole batch; duplicates within the batch are caught as they are added
+  const seen = new Set<string>();
+  const messageIds = [...new Set(pending.map(({ messageId }) => messageId))];
+  for (let i = 0; i < messageIds.length; i += 500) {
+    const existing = await db
+      .select({ messageId: emails.messageId })
+      .from(emails)
+      .where(
+        and(eq(emails.ownerId, owner.id), inArray(emails.messageId, messageIds.slice(i, i + 500))),
+      );
+    existing.forEach((row) => seen.add(row.messageId!));
+  }
+
+  pending.sort(
+    (a, b) =>
+      (a.message.date?.getTime() ?? Number.MAX_SAFE_INTEGER) -
+      (b.message.date?.getTime() ?? Number.MAX_SAFE_INTEGER),
+  );
+
+  const ownMailboxes = await fetchMailboxes(owner.id);
+  const importedEmails: Email[] = [];
+  let skipped = 0;
+  for (const { file, index, message, messageId } of pending) {
+    if (seen.has(messageId)) {
+      skipped++;
+    } else {
+      seen.add(messageId);
+      try {
+        const values = toEmailData(message, messageId, owner, ownMailboxes);
+        const { email } = await createEmailWithAttachments(
+          { ...values, threadId: await assignThreadId(values) },
+          toAttachmentFiles(message),
+        );
+        importedEmails.push(email);
+      } catch (error) {
+        failed.push({ file, index, error: (error as Error).message });
+      }
+    }
+    onProgress?.({ processed: ++processed, total });
+  }
+
+  await recordContacts(owner.id, importedEmails);
+  await stopRepliedLeads(
+    importedEmails
+      .filter(({ direction }) => direction === EmailDirection.INCOMING)
+      .map(({ threadId }) => threadId),
+  );
+  const stats = await recalculateStats(owner.id);
+  return { imported: importedEmails.length, skipped, failed, stats };
+}
@@ -0,0 +1,102 @@
+/**
+ * Inbound Queries
+ * Stores mail arriving from outside - through the SMTP listener or the inbound webhook - as
+ * unread incoming email on the conversation it belongs to, in the mailbox of each user it is
+ * addressed to
+ */
+
+import { Buffer } from 'buffer';
+import { Attachment, Email, EmailDirection } from '@/lib/schema';
+import { createEmailWithAttachments } from '@/lib/attachmentQueries';
+import { contentMessageId, toAttachmentFiles, toEmailData } from '@/lib/importQueries';
+import { parseMessage } from '@/lib/mailParser';
+import { publishMailEvent } from '@/lib/mailEvents';
+import { recalculateStats } from '@/lib/statsQueries';
+import { assignThreadId, findEmailByMessageId } from '@/lib/threadingQueries';
+import { findMailboxesByAddresses } from '@/lib/mailboxQueries';
+import { recordContacts } from '@/lib/contactQueries';
+import { stopRepliedLeads } from '@/lib/campaignQueries';
+
+export interface InboundResult {
+  email: Email;
+  attachments: Attachment[];
+  /** The Message-ID was already stored in this mailbox; nothing was added */
+  duplicate: boolean;
+}
+
+interface ReceiveOptions {
+  /** Envelope recipients (SMTP RCPT TO); the To, Cc and Bcc headers are used without them */
+  recipients?: string[];
+  receivedAt?: Date;
+}
+
+/**
+ * Raised for a message that cannot be stored, such as one without a sender or one not
+ * addressed to any user
+ */
+export class InboundMessageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InboundMessageError';
+  }
+}
+
+/**
+ * Parses one raw RFC 822 message and stores a copy for each user it is addressed to
+ * A user with several of the recipient addresses gets one copy, filed under the first of them.
+ * The email is dated when it was received, so it lands at the top of the inbox. A mailbox
+ * that already holds the Message-ID does not get it again, which makes redelivery safe.
+ * The people on it are recorded as the owner's contacts, campaign leads on its thread stop as
+ * having replied, stats are recalculated and each owner's subscribers notified of the new email.
+ * @returns One result per recipient mailbox
+ */
+export async function receiveMessage(
+  raw: Buffer,
+  { recipients, receivedAt = new Date() }: ReceiveOptions = {},
+): Promise<InboundResult[]> {
+  const message = parseMessage(raw);
+  if (!message.from.length) throw new InboundMessageError('Message has no From address');
+
+  const matches = await findMailboxesByAddresses(
+    recipients ?? [...message.to, ...message.cc, ...message.bcc].map(({ address }) => address),
+  );
+  if (!matches.length) throw new InboundMessageError('No mailbox for any of the recipients');
+
+  const messageId = message.messageId ?? contentMessageId(raw);
+  const results: InboundResult[] = [];
+  const received = new Set<number>();
+  for (const { mailbox, owner } of matches) {
+    if (received.has(owner.id)) continue;
+    received.add(owner.id);
+
+    const existing = await findEmailByMessageId(owner.id, messageId);
+    if (existing) {
+      results.push({ email: existing, attachments: [], duplicate: true });
+      continue;
+    }
+
+    const values = {
+      ...toEmailData(message, messageId, owner, [mailbox]),
+      mailboxId: mailbox.id,
+      isRead: false,
+      direction: EmailDirection.INCOMING,
+      createdAt: receivedAt,
+      updatedAt: receivedAt,
+    };
+    const { email, attachments } = await createEmailWithAttachments(
+      { ...values, threadId: await assignThreadId(values) },
+      toAttachmentFiles(message),
+    );
+    await recordContacts(owner.id, [email]);
+    await stopRepliedLeads([email.threadId]);
+
+    const stats = await recalculateStats(owner.id);
+    publishMailEvent(owner.id, {
+      type: 'email.created',
+      email: { ...email, attachments, labels: [] },
+    });
+    publishMailEvent(owner.id, { type: 'stats.changed', stats });
+    results.push({ email, attachments, duplicate: false });
+  }
+  return results;
+}
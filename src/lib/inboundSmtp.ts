@@ -0,0 +1,35 @@
+/**
+ * Inbound SMTP Listener
+ * Receives mail over SMTP and stores it through receiveMessage. Started with the server when
+ * INBOUND_SMTP_PORT is set, or on its own with `npm run smtp`
+ */
+
+import { InboundMessageError, receiveMessage } from '@/lib/inboundQueries';
+import { RunningSmtpServer, SmtpRejection, startSmtpServer } from '@/lib/smtpServer';
+import { MAX_INBOUND_MESSAGE_SIZE } from '@/types';
+
+export const INBOUND_SMTP_PORT = Number(process.env.INBOUND_SMTP_PORT) || 2525;
+// Loopback by default; set INBOUND_SMTP_HOST=0.0.0.0 to accept mail from other machines
+export const INBOUND_SMTP_HOST = process.env.INBOUND_SMTP_HOST || '127.0.0.1';
+
+/**
+ * Starts listening for inbound mail
+ * Each message goes to the users named in its envelope recipients. Messages that cannot be
+ * stored are refused with a permanent 554 so senders do not retry them
+ */
+export function startInboundSmtpListener(
+  port: number = INBOUND_SMTP_PORT,
+  host: string = INBOUND_SMTP_HOST,
+): Promise<RunningSmtpServer> {
+  return startSmtpServer(port, host, {
+    maxSize: MAX_INBOUND_MESSAGE_SIZE,
+    onMessage: async (envelope, data) => {
+      try {
+        await receiveMessage(data, { recipients: envelope.recipients });
+      } catch (error) {
+        if (error instanceof InboundMessageError) throw new SmtpRejection(554, error.message);
+        throw error;
+      }
+    },
+  });
+}
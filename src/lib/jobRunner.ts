@@ -0,0 +1,133 @@
+/**
+ * Job Runner - Runs background jobs on a fixed interval
+ * Started inside the Next.js server by src/instrumentation.ts, or on its own with
+ * `npm run jobs` (database/jobs.ts); jobs must be safe to run from both at once. Their mail
+ * events only reach clients connected to the same process, so open tabs follow job changes
+ * live only while the server runs the jobs itself
+ */
+
+import { releaseDueEmails } from '@/lib/scheduledQueries';
+import { sendDueCampaignSteps } from '@/lib/campaignQueries';
+import { deliverDueEmails } from '@/lib/deliveryQueries';
+import { withEmailDetails } from '@/lib/emailQueries';
+import { publishMailEvent } from '@/lib/mailEvents';
+import { wakeSnoozedEmails } from '@/lib/snoozeQueries';
+import { fetchStats } from '@/lib/statsQueries';
+import { purgeExpiredTrash } from '@/lib/trashQueries';
+import { purgeExpiredSessions } from '@/lib/userQueries';
+import { Email } from '@/types';
+
+export interface Job {
+  name: string;
+  /** Runs one pass of the job and returns the number of items it processed */
+  run: () => Promise<number>;
+}
+
+/**
+ * Tells each owner's connected clients which of their emails a job changed, followed by their
+ * new stats
+ */
+async function notifyUpdated(changed: Email[]): Promise<void> {
+  const byOwner = new Map<number, Email[]>();
+  changed.forEach((email) =>
+    byOwner.set(email.ownerId, [...(byOwner.get(email.ownerId) ?? []), email]),
+  );
+  for (const [ownerId, ownerEmails] of byOwner) {
+    publishMailEvent(ownerId, {
+      type: 'email.updated',
+      emails: await withEmailDetails(ownerEmails),
+    });
+    publishMailEvent(ownerId, { type: 'stats.changed', stats: await fetchStats(ownerId) });
+  }
+}
+
+/**
+ * Tells the connected clients of each owner with a changed email to refetch, for jobs that
+ * change too much to describe email by email (clients refetch stats along with everything else)
+ */
+function notifyChanged(changed: { ownerId: number }[]): void {
+  for (const ownerId of new Set(changed.map((email) => email.ownerId))) {
+    publishMailEvent(ownerId, { type: 'mailbox.changed' });
+  }
+}
+
+export const JOBS: Job[] = [
+  {
+    name: 'release-scheduled-emails',
+    run: async () => {
+      const released = await releaseDueEmails();
+      await notifyUpdated(released);
+      return released.length;
+    },
+  },
+  {
+    // Before delivery, so the steps go out in the same pass
+    name: 'send-campaign-steps',
+    run: async () => (await sendDueCampaignSteps()).length,
+  },
+  {
+    name: 'deliver-outgoing-emails',
+    run: async () => {
+      const attempted = await deliverDueEmails();
+      notifyChanged(attempted);
+      return attempted.length;
+    },
+  },
+  {
+    name: 'wake-snoozed-emails',
+    run: async () => {
+      const woken = await wakeSnoozedEmails();
+      notifyChanged(woken);
+      return woken.length;
+    },
+  },
+  {
+    name: 'purge-expired-trash',
+    run: async () => {
+      const purged = await purgeExpiredTrash();
+      notifyChanged(purged);
+      return purged.length;
+    },
+  },
+  {
+    name: 'purge-expired-sessions',
+    run: () => purgeExpiredSessions(),
+  },
+];
+
+export const JOB_INTERVAL_MS = Number(process.env.JOB_INTERVAL_MS) || 30_000;
+
+/**
+ * Runs each job once, in order
+ * A failing job is logged and does not stop the others
+ */
+export async function runJobs(jobs: Job[] = JOBS): Promise<void> {
+  for (const job of jobs) {
+    try {
+      await job.run();
+    } catch (error) {
+      console.error(`[jobs] ${job.name} failed:`, error);
+    }
+  }
+}
+
+/**
+ * Runs the jobs immediately and then every intervalMs
+ * Passes never overlap - the next one is timed from the end of the previous one
+ * @returns A function that stops the runner
+ */
+export function startJobRunner(intervalMs: number = JOB_INTERVAL_MS): () => void {
+  let stopped = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const tick = async () => {
+    await runJobs();
+    if (!stopped) timer = setTimeout(tick, intervalMs);
+  };
+  timer = setTimeout(tick, 0);
+
+  return () => {
+    stopped = true;
+    clearTimeout(timer);
+  };
+}
@@ -0,0 +1,163 @@
+/**
+ * Label Queries
+ * Data access layer for user-defined labels and their assignment to emails
+ * Labels belong to a user; each function that looks labels up is scoped to their owner
+ */
+
+import { db } from '@/lib/database';
+import { emails, emailLabels, labels, Label } from '@/lib/schema';
+import { getInboxCondition } from '@/lib/emailQueries';
+import { and, asc, eq, getTableColumns, inArray, ne, sql, SQL } from 'drizzle-orm';
+import { LabelRequest, LabelWithCounts } from '@/types';
+
+/**
+ * Fetches a user's labels, alphabetically, with their unread counts
+ * Unread counts only the emails the inbox lists: incoming, not deleted, archived or snoozed
+ */
+export async function fetchLabels(ownerId: number): Promise<LabelWithCounts[]> {
+  return db
+    .select({
+      ...getTableColumns(labels),
+      unreadCount: sql<number>`COUNT(${emails.id})`.mapWith(Number),
+    })
+    .from(labels)
+    .leftJoin(emailLabels, eq(emailLabels.labelId, labels.id))
+    .leftJoin(
+      emails,
+      and(eq(emails.id, emailLabels.emailId), eq(emails.isRead, false), getInboxCondition()),
+    )
+    .where(eq(labels.ownerId, ownerId))
+    .groupBy(labels.id)
+    .orderBy(sql`lower(${labels.name})`);
+}
+
+/**
+ * Finds one of a user's labels by name, ignoring case
+ * @param excludeId - Skip this label (used when renaming)
+ */
+export async function findLabelByName(
+  ownerId: number,
+  name: string,
+  excludeId?: number,
+): Promise<Label | undefined> {
+  const [label] = await db
+    .select()
+    .from(labels)
+    .where(
+      and(
+        eq(labels.ownerId, ownerId),
+        sql`lower(${labels.name}) = lower(${name})`,
+        excludeId !== undefined ? ne(labels.id, excludeId) : undefined,
+      ),
+    );
+  return label;
+}
+
+export async function createLabel(ownerId: number, { name, color }: LabelRequest): Promise<Label> {
+  const [label] = await db.insert(labels).values({ ownerId, name, color }).returning();
+  return label;
+}
+
+/**
+ * Updates a label's name and/or colour
+ * @returns The updated label, or undefined if the user has no label with this ID
+ */
+export async function updateLabel(
+  ownerId: number,
+  id: number,
+  data: Partial<LabelRequest>,
+): Promise<Label | undefined> {
+  const [label] = await db
+    .update(labels)
+    .set({ ...data, updatedAt: new Date() })
+    .where(and(eq(labels.ownerId, ownerId), eq(labels.id, id)))
+    .returning();
+  return label;
+}
+
+/**
+ * Deletes a label; its email assignments are removed by the cascade
+ * @returns Whether the user had a label with this ID
+ */
+export async function deleteLabel(ownerId: number, id: number): Promise<boolean> {
+  const deleted = await db
+    .delete(labels)
+    .where(and(eq(labels.ownerId, ownerId), eq(labels.id, id)))
+    .returning();
+  return deleted.length > 0;
+}
+
+/**
+ * Returns the IDs from the list that do not match one of the user's labels
+ */
+export async function findMissingLabelIds(ownerId: number, ids: number[]): Promise<number[]> {
+  if (!ids.length) return [];
+  const existing = await db
+    .select({ id: labels.id })
+    .from(labels)
+    .where(and(eq(labels.ownerId, ownerId), inArray(labels.id, ids)));
+  const existingIds = new Set(existing.map((label) => label.id));
+  return ids.filter((id) => !existingIds.has(id));
+}
+
+/**
+ * Adds and removes labels on a set of emails in one transaction
+ * Adding a label an email already has is a no-op
+ */
+export async function updateEmailLabels(
+  emailIds: number[],
+  addLabelIds: number[],
+  removeLabelIds: number[],
+): Promise<void> {
+  if (!emailIds.length) return;
+
+  db.transaction((tx) => {
+    if (addLabelIds.length) {
+      tx.insert(emailLabels)
+        .values(emailIds.flatMap((emailId) => addLabelIds.map((labelId) => ({ emailId, labelId }))))
+        .onConflictDoNothing()
+        .run();
+    }
+    if (removeLabelIds.length) {
+      tx.delete(emailLabels)
+        .where(
+          and(inArray(emailLabels.emailId, emailIds), inArray(emailLabels.labelId, removeLabelIds)),
+        )
+        .run();
+    }
+  });
+}
+
+/**
+ * Fetches labels for a set of emails, grouped by email ID
+ */
+export async function fetchLabelsByEmail(emailIds: number[]): Promise<Map<number, Label[]>> {
+  const grouped = new Map<number, Label[]>();
+  if (!emailIds.length) return grouped;
+
+  const rows = await db
+    .select({ emailId: emailLabels.emailId, label: labels })
+    .from(emailLabels)
+    .innerJoin(labels, eq(labels.id, emailLabels.labelId))
+    .where(inArray(emailLabels.emailId, emailIds))
+    .orderBy(sql`lower(${labels.name})`, asc(labels.id));
+
+  for (const { emailId, label } of rows) {
+    grouped.set(emailId, [...(grouped.get(emailId) ?? []), label]);
+  }
+  return grouped;
+}
+
+/**
+ * Condition selecting emails that carry the named label (case-insensitive)
+ */
+export function hasLabelCondition(labelName: string): SQL {
+  return inArray(
+    emails.id,
+    db
+      .select({ emailId: emailLabels.emailId })
+      .from(emailLabels)
+      .innerJoin(labels, eq(labels.id, emailLabels.labelId))
+      .where(sql`lower(${labels.name}) = lower(${labelName})`),
+  );
+}
@@ -0,0 +1,342 @@
+/**
+ * Lead Queries
+ * Data access layer for lead lists: prospects imported from CSV with a first name, company
+ * and any other columns as custom fields, and the conversations the user has had with them
+ */
+
+import { db } from '@/lib/database';
+import { emails, Lead, LeadData, LeadList, leadLists, leads } from '@/lib/schema';
+import { parseAddressList } from '@/lib/addressList';
+import { CsvRecord } from '@/lib/csv';
+import { guessLeadColumns, isValidEmail } from '@/lib/utils';
+import { and, asc, desc, eq, getTableColumns, inArray, ne, or, sql } from 'drizzle-orm';
+import {
+  DEFAULT_CONTACT_SUGGESTIONS,
+  LEAD_FIELDS,
+  LeadColumnMapping,
+  LeadImportResult,
+  LeadListWithCounts,
+  LeadThread,
+} from '@/types';
+
+/**
+ * Raised for an import that cannot start, such as one whose file has no address column
+ */
+export class LeadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LeadError';
+  }
+}
+
+// Rows per upsert statement, well under SQLite's bound-parameter limit
+const UPSERT_BATCH_SIZE = 500;
+
+/**
+ * Positions of the mapped columns in the header row; the rest are custom fields by header
+ */
+interface ColumnLayout {
+  address: number;
+  firstName?: number;
+  company?: number;
+  custom: [index: number, name: string][];
+}
+
+/**
+ * Works out which column holds each field, guessing from the header names for fields the
+ * mapping leaves out
+ * @throws LeadError when a mapped column is not in the header row or no column holds the address
+ */
+function resolveColumns(headers: string[], mapping: LeadColumnMapping): ColumnLayout {
+  const trimmed = headers.map((header) => header.trim());
+  const chosen = { ...guessLeadColumns(trimmed), ...mapping };
+
+  const indexes: Partial<Record<keyof LeadColumnMapping, number>> = {};
+  for (const field of LEAD_FIELDS) {
+    const header = chosen[field]?.trim();
+    if (!header) continue;
+    const index = trimmed.indexOf(header);
+    if (index < 0) throw new LeadError(`The file has no "${header}" column`);
+    indexes[field] = index;
+  }
+  if (indexes.address === undefined) {
+    throw new LeadError('Choose the column that holds the email addresses');
+  }
+
+  const mapped = new Set(Object.values(indexes));
+  return {
+    address: indexes.address,
+    firstName: indexes.firstName,
+    company: indexes.company,
+    custom: trimmed.flatMap((name, index): ColumnLayout['custom'] =>
+      name && !mapped.has(index) ? [[index, name]] : [],
+    ),
+  };
+}
+
+/**
+ * Fetches a user's lead lists, by name, with the number of leads on each
+ */
+export async function fetchLeadLists(ownerId: number): Promise<LeadListWithCounts[]> {
+  return db
+    .select({
+      ...getTableColumns(leadLists),
+      leadCount: sql<number>`COUNT(${leads.id})`.mapWith(Number),
+    })
+    .from(leadLists)
+    .leftJoin(leads, eq(leads.listId, leadLists.id))
+    .where(eq(leadLists.ownerId, ownerId))
+    .groupBy(leadLists.id)
+    .orderBy(sql`lower(${leadLists.name})`);
+}
+
+/**
+ * Finds a user's lead list by name, ignoring case
+ */
+export async function findLeadListByName(
+  ownerId: number,
+  name: string,
+  excludeId?: number,
+): Promise<LeadList | undefined> {
+  const [list] = await db
+    .select()
+    .from(leadLists)
+    .where(
+      and(
+        eq(leadLists.ownerId, ownerId),
+        sql`lower(${leadLists.name}) = lower(${name.trim()})`,
+        excludeId !== undefined ? ne(leadLists.id, excludeId) : undefined,
+      ),
+    );
+  return list;
+}
+
+/**
+ * Fetches one of a user's lead lists
+ */
+export async function fetchLeadList(ownerId: number, id: number): Promise<LeadList | undefined> {
+  const [list] = await db
+    .select()
+    .from(leadLists)
+    .where(and(eq(leadLists.ownerId, ownerId), eq(leadLists.id, id)));
+  return list;
+}
+
+export async function createLeadList(ownerId: number, name: string): Promise<LeadList> {
+  const [list] = await db.insert(leadLists).values({ ownerId, name: name.trim() }).returning();
+  return list;
+}
+
+/**
+ * Deletes a lead list with its leads
+ * @returns Whether the user had a lead list with this ID
+ */
+export async function deleteLeadList(ownerId: number, id: number): Promise<boolean> {
+  const deleted = await db
+    .delete(leadLists)
+    .where(and(eq(leadLists.ownerId, ownerId), eq(leadLists.id, id)))
+    .returning();
+  return deleted.length > 0;
+}
+
+/**
+ * Fetches the leads on a list, in the order they were added
+ */
+export async function fetchLeads(ownerId: number, listId: number): Promise<Lead[]> {
+  return db
+    .select()
+    .from(leads)
+    .where(and(eq(leads.ownerId, ownerId), eq(leads.listId, listId)))
+    .orderBy(asc(leads.id));
+}
+
+/**
+ * Leads whose address, first name or company matches what has been typed so far, best first
+ * Matches at the start come before matches elsewhere, then the most recently imported. An
+ * address on several lists appears once, as last imported
+ */
+export async function suggestLeads(
+  ownerId: number,
+  query: string,
+  limit: number = DEFAULT_CONTACT_SUGGESTIONS,
+): Promise<Lead[]> {
+  const term = query.trim().toLowerCase();
+  if (!term) return [];
+
+  const fields = [
+    leads.address,
+    sql`lower(coalesce(${leads.firstName}, ''))`,
+    sql`lower(coalesce(${leads.company}, ''))`,
+  ];
+  return db
+    .select()
+    .from(leads)
+    .where(
+      and(
+        eq(leads.ownerId, ownerId),
+        or(...fields.map((field) => sql`instr(${field}, ${term}) > 0`)),
+        inArray(
+          leads.id,
+          db
+            .select({ id: sql`max(${leads.id})` })
+            .from(leads)
+            .where(eq(leads.ownerId, ownerId))
+            .groupBy(leads.address),
+        ),
+      ),
+    )
+    .orderBy(
+      sql`CASE WHEN ${or(...fields.map((field) => sql`instr(${field}, ${term}) = 1`))} THEN 0 ELSE 1 END`,
+      desc(leads.updatedAt),
+      desc(leads.id),
+    )
+    .limit(limit);
+}
+
+/**
+ * Imports CSV records into a lead list, one lead per address
+ * The first record is the header row. Columns are taken from the mapping, or guessed from
+ * the headers for fields it leaves out; every other column with a header becomes a custom
+ * field. Addresses are validated and lowercased, and a row repeating an earlier row's address is
+ * rejected. An address already on the list updates that lead: blank cells keep the values it
+ * has. Records are written in batches as they arrive, so the file never has to be held in memory
+ * @returns The outcome, with each rejected row and why
+ * @throws LeadError when the file is empty or the columns cannot be resolved; nothing is saved
+ */
+export async function importLeads(
+  ownerId: number,
+  listId: number,
+  records: AsyncIterable<CsvRecord>,
+  mapping: LeadColumnMapping = {},
+): Promise<LeadImportResult> {
+  const result: LeadImportResult = { imported: 0, updated: 0, failed: [] };
+  const rowsByAddress = new Map<string, number>();
+  let columns: ColumnLayout | undefined;
+  let batch: LeadData[] = [];
+
+  const flush = async () => {
+    if (!batch.length) return;
+    const existing = await db
+      .select({ id: leads.id })
+      .from(leads)
+      .where(
+        and(
+          eq(leads.listId, listId),
+          inArray(
+            leads.address,
+            batch.map(({ address }) => address),
+          ),
+        ),
+      );
+    await db
+      .insert(leads)
+      .values(batch)
+      .onConflictDoUpdate({
+        target: [leads.listId, leads.address],
+        set: {
+          firstName: sql`coalesce(excluded.first_name, ${leads.firstName})`,
+          company: sql`coalesce(excluded.company, ${leads.company})`,
+          customFields: sql`json_patch(${leads.customFields}, excluded.custom_fields)`,
+          updatedAt: sql`excluded.updated_at`,
+        },
+      });
+    result.updated += existing.length;
+    result.imported += batch.length - existing.length;
+    batch = [];
+  };
+
+  for await (const { row, fields } of records) {
+    if (!columns) {
+      columns = resolveColumns(fields, mapping);
+      continue;
+    }
+
+    const cell = (index: number | undefined) =>
+      (index === undefined ? '' : (fields[index] ?? '')).trim();
+    const address = cell(columns.address).toLowerCase();
+    if (!address) {
+      result.failed.push({ row, error: 'Missing email address' });
+      continue;
+    }
+    if (!isValidEmail(address)) {
+      result.failed.push({ row, address, error: 'Invalid email address' });
+      continue;
+    }
+    const earlier = rowsByAddress.get(address);
+    if (earlier) {
+      result.failed.push({ row, address, error: `Duplicate of row ${earlier}` });
+      continue;
+    }
+    rowsByAddress.set(address, row);
+
+    const now = new Date();
+    batch.push({
+      ownerId,
+      listId,
+      address,
+      firstName: cell(columns.firstName) || null,
+      company: cell(columns.company) || null,
+      customFields: Object.fromEntries(
+        columns.custom.map(([index, name]) => [name, cell(index)]).filter(([, value]) => value),
+      ),
+      createdAt: now,
+      updatedAt: now,
+    });
+    if (batch.length >= UPSERT_BATCH_SIZE) await flush();
+  }
+  if (!columns) throw new LeadError('The file is empty');
+
+  await flush();
+  await db.update(leadLists).set({ updatedAt: new Date() }).where(eq(leadLists.id, listId));
+  return result;
+}
+
+/**
+ * The conversations with a lead: the threads with an email from, to or copied to their
+ * address, most recent first. Drafts and deleted emails are left out
+ * @returns undefined if the user has no lead with this ID
+ */
+export async function fetchLeadThreads(
+  ownerId: number,
+  leadId: number,
+): Promise<LeadThread[] | undefined> {
+  const [lead] = await db
+    .select()
+    .from(leads)
+    .where(and(eq(leads.ownerId, ownerId), eq(leads.id, leadId)));
+  if (!lead) return undefined;
+
+  // A substring match narrows the search; the address lists are then parsed to rule out
+  // addresses that merely contain the lead's, like ann@x.com in joann@x.com
+  const candidates = await db
+    .select()
+    .from(emails)
+    .where(
+      and(
+        eq(emails.ownerId, ownerId),
+        eq(emails.isDraft, false),
+        eq(emails.isDeleted, false),
+        sql`instr(lower(${emails.from} || ',' || ${emails.to} || ',' || coalesce(${emails.cc}, '')), ${lead.address}) > 0`,
+      ),
+    )
+    .orderBy(desc(emails.createdAt), desc(emails.id));
+
+  const threads = new Map<string, LeadThread>();
+  for (const email of candidates) {
+    const people = [email.from, email.to, email.cc].flatMap(parseAddressList);
+    if (!people.some(({ address }) => address.toLowerCase() === lead.address)) continue;
+
+    const thread = threads.get(email.threadId);
+    if (thread) thread.emailCount++;
+    else {
+      threads.set(email.threadId, {
+        threadId: email.threadId,
+        subject: email.subject,
+        emailId: email.id,
+        emailCount: 1,
+        lastEmailAt: email.createdAt,
+      });
+    }
+  }
+  return [...threads.values()];
+}
@@ -0,0 +1,96 @@
+/**
+ * Mail Events - In-process notifications about mailbox changes
+ * Publishers (route handlers, inbound mail, background jobs) and subscribers (the event stream
+ * to connected clients) meet here. Recent events are kept so a reconnecting client can catch
+ * up on what it missed. Held on globalThis because Next.js bundles instrumentation separately
+ * from route handlers, and both must share one bus.
+ * The bus lives in process memory: events published by another process, such as `npm run jobs`
+ * with the server's runner turned off, never reach this one's subscribers. Their clients see
+ * those changes on their next refetch instead.
+ */
+
+import { EventEmitter } from 'events';
+import { MailEventPayload } from '@/types';
+
+export type MailEvent = MailEventPayload & {
+  /** `<epoch>-<sequence>`; the epoch changes whenever the server restarts */
+  id: string;
+  /** User whose mailbox changed; null for changes that span mailboxes, sent to everyone */
+  ownerId: number | null;
+};
+
+export type MailEventListener = (event: MailEvent) => void;
+
+// Events kept for replay; a client further behind than this gets mailbox.changed instead
+const HISTORY_SIZE = 500;
+
+interface EventBus {
+  emitter: EventEmitter;
+  history: MailEvent[];
+  epoch: string;
+  sequence: number;
+}
+
+const globalForEvents = globalThis as unknown as { mailEvents?: EventBus };
+const bus = (globalForEvents.mailEvents ??= {
+  emitter: new EventEmitter().setMaxListeners(0),
+  history: [],
+  epoch: Date.now().toString(36),
+  sequence: 0,
+});
+
+/**
+ * Assigns the next event ID and notifies every subscriber
+ * A subscriber that throws does not affect the others
+ * @param ownerId - User whose mailbox changed, or null for everyone
+ */
+export function publishMailEvent(ownerId: number | null, payload: MailEventPayload): MailEvent {
+  const event = { ...payload, id: `${bus.epoch}-${++bus.sequence}`, ownerId } as MailEvent;
+  bus.history.push(event);
+  if (bus.history.length > HISTORY_SIZE) bus.history.shift();
+
+  for (const listener of bus.emitter.listeners('event') as MailEventListener[]) {
+    try {
+      listener(event);
+    } catch (error) {
+      console.error('[events] Listener failed:', error);
+    }
+  }
+  return event;
+}
+
+/**
+ * Subscribes to every mail event
+ * @returns A function that unsubscribes
+ */
+export function subscribeMailEvents(listener: MailEventListener): () => void {
+  bus.emitter.on('event', listener);
+  return () => {
+    bus.emitter.off('event', listener);
+  };
+}
+
+/**
+ * The ID of the latest event published, if any
+ */
+export function latestMailEventId(): string | undefined {
+  return bus.history.at(-1)?.id;
+}
+
+/**
+ * Events published after the given event ID, oldest first
+ * @returns The missed events, or null when they cannot be replayed - the ID is from before a
+ * restart, or older than the events still kept
+ */
+export function mailEventsSince(lastEventId: string): MailEvent[] | null {
+  const match = /^([a-z0-9]+)-(\d+)$/.exec(lastEventId);
+  if (!match || match[1] !== bus.epoch) return null;
+
+  const sequence = Number(match[2]);
+  if (sequence > bus.sequence) return null;
+  if (sequence === bus.sequence) return [];
+
+  const oldest = bus.history[0] ? Number(bus.history[0].id.split('-')[1]) : Infinity;
+  if (sequence < oldest - 1) return null;
+  return bus.history.filter((event) => Number(event.id.split('-')[1]) > sequence);
+}
@@ -0,0 +1,157 @@
+/**
+ * Tests for the .eml / mbox formatter
+ */
+
+import { Buffer } from 'buffer';
+import {
+  encodeHeaderValue,
+  encodeQuotedPrintable,
+  emlFilename,
+  formatMailDate,
+  formatMessage,
+  toMboxEntry,
+} from './mailFormatter';
+import { decodeHeaderValue, parseMessage, splitMbox } from './mailParser';
+import { Email } from '@/lib/schema';
+
+const email = (overrides: Partial<Email> = {}): Email => ({
+  id: 7,
+  ownerId: 1,
+  mailboxId: null,
+  threadId: 'thread-1',
+  subject: 'Quarterly report',
+  from: 'Alice Smith <alice@test.org>',
+  to: 'bob@test.org',
+  cc: null,
+  bcc: null,
+  content: 'Hello Bob',
+  isRead: false,
+  isImportant: false,
+  isDeleted: false,
+  isArchived: false,
+  direction: 'incoming' as Email['direction'],
+  isDraft: false,
+  status: 'sent' as Email['status'],
+  scheduledAt: null,
+  snoozedUntil: null,
+  messageId: '<report@test.org>',
+  inReplyTo: null,
+  references: null,
+  deliveryStatus: null,
+  deliveryError: null,
+  deliveryAttempts: 0,
+  nextDeliveryAt: null,
+  createdAt: new Date('2024-05-04T10:30:05Z'),
+  updatedAt: new Date('2024-05-04T10:30:05Z'),
+  ...overrides,
+});
+
+describe('formatMailDate', () => {
+  it('should format dates in UTC as RFC 5322 dates', () => {
+    expect(formatMailDate(new Date('2024-05-04T10:30:05Z'))).toBe('Sat, 4 May 2024 10:30:05 +0000');
+  });
+});
+
+describe('encodeHeaderValue', () => {
+  it('should leave ASCII alone and encode anything else', () => {
+    expect(encodeHeaderValue('Plain subject')).toBe('Plain subject');
+    expect(decodeHeaderValue(encodeHeaderValue('Grüße aus Köln'))).toBe('Grüße aus Köln');
+  });
+
+  it('should split long values into several encoded words', () => {
+    const value = 'é'.repeat(60);
+    const encoded = encodeHeaderValue(value);
+    expect(encoded.split('\r\n ').length).toBeGreaterThan(1);
+    expect(decodeHeaderValue(encoded.replace(/\r\n/g, ''))).toBe(value);
+  });
+});
+
+describe('encodeQuotedPrintable', () => {
+  it('should escape non-ASCII, equals signs and trailing whitespace', () => {
+    expect(encodeQuotedPrintable('café = 1 \nnext')).toBe('caf=C3=A9 =3D 1=20\r\nnext');
+  });
+
+  it('should wrap long lines with soft breaks', () => {
+    const encoded = encodeQuotedPrintable('a'.repeat(200));
+    expect(encoded.split('\r\n').every((line) => line.length <= 76)).toBe(true);
+    expect(encoded.replace(/=\r\n/g, '')).toBe('a'.repeat(200));
+  });
+});
+
+describe('formatMessage', () => {
+  it('should produce a message that parses back to the same email', () => {
+    const message = formatMessage(
+      email({ cc: 'Zoé <zoe@test.org>', content: 'Ünïcode body\nsecond line' }),
+      [{ filename: 'résumé.pdf', mimeType: 'application/pdf', data: Buffer.from('%PDF') }],
+    );
+
+    expect(parseMessage(message)).toMatchObject({
+      messageId: '<report@test.org>',
+      subject: 'Quarterly report',
+      from: [{ name: 'Alice Smith', address: 'alice@test.org' }],
+      to: [{ name: '', address: 'bob@test.org' }],
+      cc: [{ name: 'Zoé', address: 'zoe@test.org' }],
+      text: 'Ünïcode body\nsecond line',
+      date: new Date('2024-05-04T10:30:05Z'),
+    });
+    expect(parseMessage(message).attachments[0]).toMatchObject({
+      filename: 'résumé.pdf',
+      mimeType: 'application/pdf',
+    });
+  });
+
+  it('should add an HTML part showing an HTML signature the content is signed with', () => {
+    const content = 'Hi Bob\n\n-- \nAna Lima\nSales\n\nOn Monday, Bob wrote:\n> <Hello>';
+    const signature = { text: 'Ana Lima\nSales', html: '<b>Ana Lima</b><br>Sales' };
+    const message = formatMessage(email({ content }), [], { signature }).toString();
+
+    expect(message).toMatch(/^Content-Type: multipart\/alternative; boundary=/m);
+    expect(parseMessage(Buffer.from(message)).text).toBe(content);
+    const html = message.slice(message.indexOf('Content-Type: text/html')).replace(/=\r\n/g, '');
+    expect(html).toContain('Hi Bob</div>');
+    expect(html).toContain('<div>-- <br><b>Ana Lima</b><br>Sales</div>');
+    expect(html).toContain('&gt; &lt;Hello&gt;</div>');
+  });
+
+  it('should leave out the HTML part when the signature was edited or removed', () => {
+    const signature = { text: 'Ana Lima', html: '<b>Ana Lima</b>' };
+    for (const content of ['Hi Bob\n\n-- \nAna L.', 'Hi Bob']) {
+      const message = formatMessage(email({ content }), [], { signature }).toString();
+      expect(message).toMatch(/^Content-Type: text\/plain/m);
+      expect(message).not.toContain('text/html');
+    }
+  });
+
+  it('should use CRLF line endings and skip empty headers', () => {
+    const text = formatMessage(email()).toString();
+    expect(text).not.toMatch(/[^\r]\n/);
+    expect(text).not.toMatch(/^(Cc|In-Reply-To):/m);
+  });
+});
+
+describe('toMboxEntry', () => {
+  it('should add a From_ line and Status, and escape From lines in the body', () => {
+    const stored = email({ isRead: true, content: 'From here on\n>From quoted' });
+    const entry = toMboxEntry(stored, formatMessage(stored)).toString('latin1');
+
+    expect(entry.startsWith('From alice@test.org Sat May  4 10:30:05 2024\nStatus: RO\n')).toBe(
+      true,
+    );
+    expect(entry).toContain('\n>From here on\n>>From quoted\n');
+
+    const [message] = splitMbox(entry + entry);
+    expect(parseMessage(message)).toMatchObject({
+      text: 'From here on\n>From quoted',
+      isRead: true,
+    });
+  });
+});
+
+describe('emlFilename', () => {
+  it('should build a file name from the date, subject and ID', () => {
+    expect(emlFilename(email({ subject: 'Re: Q3 / Q4 plans!' }))).toBe(
+      '2024-05-04-re-q3-q4-plans-7.eml',
+    );
+    expect(emlFilename(email({ subject: '' }))).toBe('2024-05-04-7.eml');
+  });
+});
@@ -0,0 +1,268 @@
+/**
+ * Mail Formatter
+ * Serialises stored emails as RFC 5322 / MIME messages (.eml) and mbox entries
+ * Pure module with no database access - the counterpart of mailParser, so exported
+ * mailboxes can be imported again
+ */
+
+import { Buffer } from 'buffer';
+import { randomUUID } from 'crypto';
+import { formatAddress, parseAddressList } from '@/lib/mailParser';
+import { Email } from '@/lib/schema';
+import { formatSignature, SIGNATURE_DELIMITER, splitSignature } from '@/lib/signature';
+
+export interface MessageAttachment {
+  filename: string;
+  mimeType: string;
+  data: Buffer;
+}
+
+/** A sanitised HTML signature and its plain text, as stored on the sending mailbox */
+export interface MessageSignature {
+  text: string;
+  html: string;
+}
+
+const CRLF = '\r\n';
+const MAX_LINE_LENGTH = 76;
+
+const DAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const pad = (value: number) => String(value).padStart(2, '0');
+const isAscii = (value: string) => /^[\x20-\x7e]*$/.test(value);
+
+/**
+ * Formats a date for the Date header, e.g. "Tue, 14 May 2024 10:30:00 +0000"
+ */
+export function formatMailDate(date: Date): string {
+  const time = `${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())}`;
+  return `${DAYS[date.getUTCDay()]}, ${date.getUTCDate()} ${MONTHS[date.getUTCMonth()]} ${date.getUTCFullYear()} ${time} +0000`;
+}
+
+/**
+ * Encodes a header value as RFC 2047 base64 encoded words when it is not plain ASCII
+ * Words are split on character boundaries so none exceeds the line length
+ */
+export function encodeHeaderValue(value: string): string {
+  if (isAscii(value)) return value;
+  const words: string[] = [];
+  let chunk = '';
+  for (const char of value) {
+    // 45 bytes of UTF-8 encode to 60 base64 characters, keeping each word under 76
+    if (Buffer.byteLength(chunk + char) > 45) {
+      words.push(chunk);
+      chunk = '';
+    }
+    chunk += char;
+  }
+  words.push(chunk);
+  return words
+    .map((word) => `=?UTF-8?B?${Buffer.from(word).toString('base64')}?=`)
+    .join(`${CRLF} `);
+}
+
+/**
+ * Formats a stored address list for a header, encoding non-ASCII display names
+ */
+function formatAddressHeader(value: string): string {
+  return parseAddressList(value)
+    .map(({ name, address }) =>
+      isAscii(name) ? formatAddress({ name, address }) : `${encodeHeaderValue(name)} <${address}>`,
+    )
+    .join(', ');
+}
+
+/**
+ * Quoted-printable encodes text (RFC 2045), with CRLF line breaks and soft breaks at 76
+ */
+export function encodeQuotedPrintable(text: string): string {
+  return text
+    .split(/\r?\n/)
+    .map((line) => {
+      let encoded = '';
+      const bytes = Buffer.from(line);
+      bytes.forEach((byte, i) => {
+        const isLast = i === bytes.length - 1;
+        const safe =
+          (byte >= 33 && byte <= 126 && byte !== 61) || ((byte === 32 || byte === 9) && !isLast);
+        encoded += safe
+          ? String.fromCharCode(byte)
+          : `=${byte.toString(16).toUpperCase().padStart(2, '0')}`;
+      });
+
+      // Soft line breaks, never splitting an =XX escape
+      const lines: string[] = [];
+      while (encoded.length > MAX_LINE_LENGTH - 1) {
+        let cut = MAX_LINE_LENGTH - 1;
+        const escape = encoded.lastIndexOf('=', cut);
+        if (escape > cut - 3) cut = escape;
+        lines.push(`${encoded.slice(0, cut)}=`);
+        encoded = encoded.slice(cut);
+      }
+      return [...lines, encoded].join(CRLF);
+    })
+    .join(CRLF);
+}
+
+/**
+ * Base64 encodes data in 76-character lines
+ */
+function encodeBase64(data: Buffer): string {
+  return (data.toString('base64').match(/.{1,76}/g) ?? []).join(CRLF);
+}
+
+/**
+ * Quotes a MIME parameter value, adding an RFC 2231 UTF-8 form for non-ASCII values
+ */
+function formatParam(name: string, value: string): string {
+  const fallback = `${name}="${value.replace(/[^\x20-\x7e]|["\\]/g, '_')}"`;
+  return isAscii(value) ? fallback : `${fallback}; ${name}*=UTF-8''${encodeURIComponent(value)}`;
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const formatHtmlText = (text: string) =>
+  text && `<div style="white-space: pre-wrap">${escapeHtml(text)}</div>`;
+
+/**
+ * HTML version of a message signed with an HTML signature: the message and quoted text
+ * escaped, with the signature's HTML in place of its text
+ * @returns null when the message does not carry the signature's text as inserted
+ */
+function formatHtmlBody(content: string, signature: MessageSignature): string | null {
+  const parts = splitSignature(content);
+  if (!parts.signature || parts.signature !== formatSignature(signature.text)) return null;
+
+  return [
+    '<!DOCTYPE html>',
+    '<html><body>',
+    formatHtmlText(parts.message),
+    `<div>${SIGNATURE_DELIMITER}<br>${signature.html}</div>`,
+    parts.quoted && `<br>${formatHtmlText(parts.quoted)}`,
+    '</body></html>',
+  ]
+    .filter(Boolean)
+    .join('\n');
+}
+
+interface FormatOptions {
+  /** Keep the Bcc header - for the sender's own copy, never for delivery */
+  includeBcc?: boolean;
+  /** Add an HTML part showing this signature, when the content is signed with its text */
+  signature?: MessageSignature;
+}
+
+/**
+ * Serialises an email, with its attachments, as an RFC 5322 message with CRLF line endings
+ * The body is a quoted-printable text part, or multipart/alternative with an HTML part too when
+ * signed with an HTML signature; emails with attachments wrap it in multipart/mixed
+ */
+export function formatMessage(
+  email: Email,
+  attachments: MessageAttachment[] = [],
+  { includeBcc = true, signature }: FormatOptions = {},
+): Buffer {
+  const headers: [string, string | false | null | undefined][] = [
+    ['Message-ID', email.messageId],
+    ['Date', formatMailDate(email.createdAt)],
+    ['From', formatAddressHeader(email.from)],
+    ['To', formatAddressHeader(email.to)],
+    ['Cc', email.cc && formatAddressHeader(email.cc)],
+    ['Bcc', includeBcc && email.bcc && formatAddressHeader(email.bcc)],
+    ['Subject', encodeHeaderValue(email.subject)],
+    ['In-Reply-To', email.inReplyTo],
+    ['References', email.references],
+    ['MIME-Version', '1.0'],
+  ];
+
+  let contentHeaders: [string, string][] = [
+    ['Content-Type', 'text/plain; charset=utf-8'],
+    ['Content-Transfer-Encoding', 'quoted-printable'],
+  ];
+  let content = encodeQuotedPrintable(email.content ?? '');
+
+  const html = signature && formatHtmlBody(email.content ?? '', signature);
+  if (html) {
+    const boundary = `=_${randomUUID()}`;
+    content = [
+      `--${boundary}`,
+      ...contentHeaders.map(([name, value]) => `${name}: ${value}`),
+      '',
+      content,
+      `--${boundary}`,
+      'Content-Type: text/html; charset=utf-8',
+      'Content-Transfer-Encoding: quoted-printable',
+      '',
+      encodeQuotedPrintable(html),
+      `--${boundary}--`,
+    ].join(CRLF);
+    contentHeaders = [['Content-Type', `multipart/alternative; boundary="${boundary}"`]];
+  }
+
+  let body: string[];
+  if (attachments.length) {
+    const boundary = `=_${randomUUID()}`;
+    headers.push(['Content-Type', `multipart/mixed; boundary="${boundary}"`]);
+    body = [
+      `--${boundary}`,
+      ...contentHeaders.map(([name, value]) => `${name}: ${value}`),
+      '',
+      content,
+      ...attachments.flatMap((attachment) => [
+        `--${boundary}`,
+        `Content-Type: ${attachment.mimeType}; ${formatParam('name', attachment.filename)}`,
+        `Content-Disposition: attachment; ${formatParam('filename', attachment.filename)}`,
+        'Content-Transfer-Encoding: base64',
+        '',
+        encodeBase64(attachment.data),
+      ]),
+      `--${boundary}--`,
+    ];
+  } else {
+    headers.push(...contentHeaders);
+    body = [content];
+  }
+
+  const headerLines = headers
+    .filter((header): header is [string, string] => Boolean(header[1]))
+    .map(([name, value]) => `${name}: ${value}`);
+  return Buffer.from([...headerLines, '', ...body, ''].join(CRLF));
+}
+
+/**
+ * Formats a date as the asctime used in mbox From_ lines, e.g. "Tue May 14 10:30:00 2024"
+ */
+function formatAsctime(date: Date): string {
+  const time = `${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())}`;
+  return `${DAYS[date.getUTCDay()]} ${MONTHS[date.getUTCMonth()]} ${String(date.getUTCDate()).padStart(2, ' ')} ${time} ${date.getUTCFullYear()}`;
+}
+
+/**
+ * Wraps a formatted message as an mbox (mboxrd) entry
+ * Adds the From_ separator and a Status header for read emails, escapes body lines starting
+ * with "From " and uses LF line endings
+ */
+export function toMboxEntry(email: Email, message: Buffer): Buffer {
+  const sender = parseAddressList(email.from)[0]?.address || 'MAILER-DAEMON';
+  const text = message.toString('latin1').replace(/\r\n/g, '\n');
+  const status = email.isRead ? 'Status: RO\n' : '';
+  return Buffer.from(
+    `From ${sender} ${formatAsctime(email.createdAt)}\n${status}${text.replace(/^(>*From )/gm, '>$1')}\n`,
+    'latin1',
+  );
+}
+
+/**
+ * File name for an exported .eml, e.g. "2024-05-14-quarterly-report-42.eml"
+ */
+export function emlFilename(email: Email): string {
+  const date = email.createdAt.toISOString().slice(0, 10);
+  const slug = email.subject
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '')
+    .slice(0, 50);
+  return `${[date, slug, email.id].filter(Boolean).join('-')}.eml`;
+}
@@ -0,0 +1,191 @@
+import {
+  findUnknownVariables,
+  hasMergeFields,
+  hasMergeVariables,
+  MergeTemplateError,
+  mergeValuesFor,
+  parseMergeTemplate,
+  renderMergeMessage,
+  renderMergeTemplate,
+  validateMergeFields,
+  validateMergeTemplate,
+} from './mailMerge';
+
+const ann = { firstName: 'Ann', lastName: 'Lee', name: 'Ann Lee', email: 'ann@x.com' };
+
+// Always picks the first, or last, spintax option
+const first = () => 0;
+const last = () => 0.999;
+
+describe('parseMergeTemplate', () => {
+  it('should split text, variables and spintax', () => {
+    expect(parseMergeTemplate('{Hi|Hello} {{firstName}}!')).toEqual([
+      {
+        type: 'spin',
+        position: 0,
+        options: [[{ type: 'text', text: 'Hi' }], [{ type: 'text', text: 'Hello' }]],
+      },
+      { type: 'text', text: ' ' },
+      { type: 'variable', name: 'firstName', fallback: null, position: 11 },
+      { type: 'text', text: '!' },
+    ]);
+  });
+
+  it.each([
+    ['double quotes', '{{company | "your team"}}', 'your team'],
+    ['single quotes', "{{company|'your team'}}", 'your team'],
+    ['no quotes', '{{ company | your team }}', 'your team'],
+    ['an empty fallback', '{{company | ""}}', ''],
+  ])('should read a fallback in %s', (_, template, fallback) => {
+    expect(parseMergeTemplate(template)).toEqual([
+      { type: 'variable', name: 'company', fallback, position: 0 },
+    ]);
+  });
+
+  it.each([
+    ['braces without a bar', 'body { color: red }'],
+    ['JSON', '{"id": 1}'],
+    ['an unclosed variable', 'Hi {{firstName'],
+    ['empty double braces', 'x {{ }} y'],
+    ['a variable over two lines', '{{first\nName}}'],
+    ['an unclosed spin', '{Hi|Hello'],
+    ['stray bars and braces', 'a | b } c'],
+  ])('should keep %s as text', (_, template) => {
+    expect(renderMergeTemplate(template, ann, first)).toBe(template);
+  });
+});
+
+describe('renderMergeTemplate', () => {
+  it('should replace variables, ignoring the case of their names', () => {
+    expect(renderMergeTemplate('Dear {{FIRSTNAME}} {{lastName}} <{{ email }}>', ann)).toBe(
+      'Dear Ann Lee <ann@x.com>',
+    );
+  });
+
+  it('should use the fallback, or nothing, for a blank value', () => {
+    const template = 'Hi {{firstName | "there"}} at {{company}}.';
+    expect(renderMergeTemplate(template, { firstName: '  ' })).toBe('Hi there at .');
+    expect(renderMergeTemplate(template, { firstName: 'Bo', company: 'Acme' })).toBe(
+      'Hi Bo at Acme.',
+    );
+  });
+
+  it('should pick a spintax option with the random source', () => {
+    expect(renderMergeTemplate('{Hi|Hello|Hey} there', {}, first)).toBe('Hi there');
+    expect(renderMergeTemplate('{Hi|Hello|Hey} there', {}, () => 0.5)).toBe('Hello there');
+    expect(renderMergeTemplate('{Hi|Hello|Hey} there', {}, last)).toBe('Hey there');
+  });
+
+  it('should render variables and nested spintax inside options', () => {
+    const template = '{Hi {{firstName | "friend"}}|{Good morning|Good day}, {{name}}}';
+    expect(renderMergeTemplate(template, ann, first)).toBe('Hi Ann');
+    expect(renderMergeTemplate(template, {}, first)).toBe('Hi friend');
+    expect(renderMergeTemplate(template, ann, last)).toBe('Good day, Ann Lee');
+  });
+
+  it('should allow empty spintax options', () => {
+    expect(renderMergeTemplate('Thanks{!|}', {}, last)).toBe('Thanks');
+  });
+
+  it('should not treat values as placeholders', () => {
+    expect(renderMergeTemplate('{{name}}', { name: '{{email}} {a|b}' }, first)).toBe(
+      '{{email}} {a|b}',
+    );
+  });
+
+  it('should throw for unknown variables', () => {
+    expect(() => renderMergeTemplate('Hi {{nickname}}', ann)).toThrow(MergeTemplateError);
+  });
+});
+
+describe('findUnknownVariables', () => {
+  it('should list each unknown variable once, including inside spintax', () => {
+    expect(
+      findUnknownVariables('{{nick}} {{firstName}} {a {{Nick}}|{{ job title | "you" }}}'),
+    ).toEqual(['nick', 'job title']);
+  });
+
+  it('should find none in plain text', () => {
+    expect(findUnknownVariables('No placeholders here')).toEqual([]);
+  });
+});
+
+describe('validateMergeTemplate', () => {
+  it('should accept known variables', () => {
+    expect(validateMergeTemplate('{{firstName}} {{company | "x"}}')).toBeNull();
+  });
+
+  it('should name the unknown variables and the known ones', () => {
+    expect(validateMergeTemplate('{{nick}}')).toBe(
+      'Unknown variable {{nick}} - use firstName, lastName, name, email, company',
+    );
+    expect(validateMergeTemplate('{{a}} {{b}}')).toMatch(
+      /^Unknown variables \{\{a\}\}, \{\{b\}\} - /,
+    );
+  });
+});
+
+describe('hasMergeFields / hasMergeVariables', () => {
+  it('should tell templates from plain text', () => {
+    expect(hasMergeFields('Plain { text }')).toBe(false);
+    expect(hasMergeFields('{Hi|Hello}')).toBe(true);
+    expect(hasMergeVariables('{Hi|Hello}')).toBe(false);
+    expect(hasMergeVariables('{Hi|Hello {{name}}}')).toBe(true);
+  });
+});
+
+describe('mergeValuesFor', () => {
+  it('should split a display name into first and last names', () => {
+    expect(mergeValuesFor({ address: 'jane@x.com', name: 'Jane van Dyke' })).toEqual({
+      email: 'jane@x.com',
+      name: 'Jane van Dyke',
+      firstName: 'Jane',
+      lastName: 'van Dyke',
+      company: null,
+    });
+  });
+
+  it('should read a "Last, First" display name', () => {
+    expect(mergeValuesFor({ address: 'jane@x.com', name: 'Doe, Jane' })).toMatchObject({
+      firstName: 'Jane',
+      lastName: 'Doe',
+    });
+  });
+
+  it("should prefer a lead's first name and fill in the company", () => {
+    expect(
+      mergeValuesFor({ address: 'j@x.com', name: 'J. Doe', firstName: 'Jane', company: 'Acme' }),
+    ).toMatchObject({ firstName: 'Jane', name: 'J. Doe', company: 'Acme' });
+    expect(mergeValuesFor({ address: 'j@x.com', firstName: 'Jane' })).toMatchObject({
+      name: 'Jane',
+      lastName: null,
+    });
+  });
+
+  it('should leave names empty for a bare address', () => {
+    expect(mergeValuesFor({ address: 'j@x.com' })).toMatchObject({
+      name: null,
+      firstName: null,
+      lastName: null,
+    });
+  });
+});
+
+describe('validateMergeFields', () => {
+  it('should report each field with unknown variables', () => {
+    expect(validateMergeFields({ subject: 'Hi {{firstName}}', content: 'Re {{deal}}' })).toEqual({
+      content: expect.stringMatching(/^Unknown variable \{\{deal\}\}/),
+    });
+    expect(validateMergeFields({ subject: 'Hi', content: '{{name}}' })).toEqual({});
+  });
+});
+
+describe('renderMergeMessage', () => {
+  it('should render the subject and the text above the quoted reply only', () => {
+    const content = 'Hi {{firstName}}\n\nOn Monday, Bo wrote:\n> {{unsubscribe_url}} {a|b}';
+    expect(renderMergeMessage({ subject: '{Re|Fwd}: {{name}}', content }, ann, first)).toEqual({
+      subject: 'Re: Ann Lee',
+      content: 'Hi Ann\n\nOn Monday, Bo wrote:\n> {{unsubscribe_url}} {a|b}',
+    });
+  });
+});
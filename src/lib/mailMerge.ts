@@ -0,0 +1,307 @@
+/**
+ * Mail Merge
+ * Renders personalised mail: `{{firstName}}` variables, with `{{company | "there"}}`
+ * fallbacks for blank values, and `{Hi|Hello|Hey}` spintax that picks one option at random
+ * Pure module with no database access - shared by the composer preview, one-off sends and
+ * campaign steps
+ */
+
+import { findQuoteStart } from '@/lib/signature';
+
+/**
+ * Variables a template can use; names are matched ignoring case
+ */
+export const MERGE_VARIABLES = ['firstName', 'lastName', 'name', 'email', 'company'] as const;
+
+export type MergeVariable = (typeof MERGE_VARIABLES)[number];
+
+/**
+ * What is known about one recipient; missing or blank values render the fallback, or nothing
+ */
+export type MergeValues = Partial<Record<MergeVariable, string | null>>;
+
+/**
+ * A piece of a parsed template
+ * Spintax options are themselves sequences of segments, so they can hold variables and
+ * further spintax
+ */
+export type MergeSegment =
+  | { type: 'text'; text: string }
+  | { type: 'variable'; name: string; fallback: string | null; position: number }
+  | { type: 'spin'; options: MergeSegment[][]; position: number };
+
+/**
+ * Thrown when rendering a template that uses variables outside MERGE_VARIABLES
+ */
+export class MergeTemplateError extends Error {
+  constructor(
+    message: string,
+    public readonly variables: string[],
+  ) {
+    super(message);
+    this.name = 'MergeTemplateError';
+  }
+}
+
+const VARIABLES_BY_KEY = new Map<string, MergeVariable>(
+  MERGE_VARIABLES.map((name) => [name.toLowerCase(), name]),
+);
+
+/**
+ * Resolves a variable name as written to the variable it refers to
+ */
+const toMergeVariable = (name: string): MergeVariable | undefined =>
+  VARIABLES_BY_KEY.get(name.toLowerCase());
+
+/**
+ * Reads the `{{name}}` or `{{name | "fallback"}}` starting at `start`
+ * @returns undefined when the braces do not close on the same line or hold no name, so
+ * they are kept as text
+ */
+function parseVariable(
+  input: string,
+  start: number,
+): { segment: MergeSegment; end: number } | undefined {
+  const close = input.indexOf('}}', start + 2);
+  if (close < 0) return undefined;
+  const inner = input.slice(start + 2, close);
+  if (/[{}\n]/.test(inner)) return undefined;
+
+  const bar = inner.indexOf('|');
+  const name = (bar < 0 ? inner : inner.slice(0, bar)).trim();
+  if (!name) return undefined;
+
+  let fallback: string | null = null;
+  if (bar >= 0) {
+    fallback = inner.slice(bar + 1).trim();
+    const quote = fallback[0];
+    if ((quote === '"' || quote === "'") && fallback.length > 1 && fallback.endsWith(quote)) {
+      fallback = fallback.slice(1, -1);
+    }
+  }
+  return { segment: { type: 'variable', name, fallback, position: start }, end: close + 2 };
+}
+
+/**
+ * Reads segments from `start` up to the end of the input or, inside spintax, its closing
+ * brace, splitting spintax options at each `|`
+ */
+function parseSequence(
+  input: string,
+  start: number,
+  inSpin: boolean,
+): { options: MergeSegment[][]; end: number; closed: boolean } {
+  const options: MergeSegment[][] = [[]];
+  let text = '';
+  const pushText = () => {
+    if (text) options[options.length - 1].push({ type: 'text', text });
+    text = '';
+  };
+
+  let i = start;
+  while (i < input.length) {
+    const char = input[i];
+    if (char === '{') {
+      const variable = input[i + 1] === '{' ? parseVariable(input, i) : undefined;
+      if (variable) {
+        pushText();
+        options[options.length - 1].push(variable.segment);
+        i = variable.end;
+        continue;
+      }
+      // Braces without a `|` inside, as in code or CSS, are plain text
+      const spin = parseSequence(input, i + 1, true);
+      if (spin.closed && spin.options.length > 1) {
+        pushText();
+        options[options.length - 1].push({ type: 'spin', options: spin.options, position: i });
+        i = spin.end;
+        continue;
+      }
+    } else if (inSpin && char === '|') {
+      pushText();
+      options.push([]);
+      i++;
+      continue;
+    } else if (inSpin && char === '}') {
+      pushText();
+      return { options, end: i + 1, closed: true };
+    }
+    text += char;
+    i++;
+  }
+  pushText();
+  return { options, end: i, closed: false };
+}
+
+/**
+ * Parses a template into text, variables and spintax
+ * Parsing never fails: anything that is not a well-formed placeholder is kept as text
+ */
+export function parseMergeTemplate(template: string): MergeSegment[] {
+  return parseSequence(template, 0, false).options[0];
+}
+
+/**
+ * The distinct variable names used in a template, as first written
+ */
+function collectVariables(segments: MergeSegment[], names: string[] = []): string[] {
+  for (const segment of segments) {
+    if (segment.type === 'variable') {
+      if (!names.some((name) => name.toLowerCase() === segment.name.toLowerCase())) {
+        names.push(segment.name);
+      }
+    } else if (segment.type === 'spin') {
+      segment.options.forEach((option) => collectVariables(option, names));
+    }
+  }
+  return names;
+}
+
+/**
+ * Checks whether a template has any variables or spintax, and so needs rendering
+ */
+export function hasMergeFields(template: string): boolean {
+  return parseMergeTemplate(template).some((segment) => segment.type !== 'text');
+}
+
+/**
+ * Checks whether a template uses any variables, and so renders differently per recipient
+ */
+export function hasMergeVariables(template: string): boolean {
+  return collectVariables(parseMergeTemplate(template)).length > 0;
+}
+
+/**
+ * The variables a template uses that are not in MERGE_VARIABLES
+ */
+export function findUnknownVariables(template: string): string[] {
+  return collectVariables(parseMergeTemplate(template)).filter((name) => !toMergeVariable(name));
+}
+
+/**
+ * Validates the variables in a template
+ * @returns Error message naming the unknown variables, or null if all are known
+ */
+export function validateMergeTemplate(template: string): string | null {
+  const unknown = findUnknownVariables(template);
+  if (!unknown.length) return null;
+
+  const names = unknown.map((name) => `{{${name}}}`).join(', ');
+  return `Unknown ${unknown.length === 1 ? 'variable' : 'variables'} ${names} - use ${MERGE_VARIABLES.join(', ')}`;
+}
+
+/**
+ * Validates the variables in each field of a message
+ * @returns Error message for each field with unknown variables; empty when all are known
+ */
+export function validateMergeFields<K extends string>(
+  fields: Record<K, string>,
+): Partial<Record<K, string>> {
+  const errors: Partial<Record<K, string>> = {};
+  for (const field of Object.keys(fields) as K[]) {
+    const error = validateMergeTemplate(fields[field]);
+    if (error) errors[field] = error;
+  }
+  return errors;
+}
+
+function renderSegments(
+  segments: MergeSegment[],
+  values: MergeValues,
+  random: () => number,
+): string {
+  return segments
+    .map((segment) => {
+      switch (segment.type) {
+        case 'text':
+          return segment.text;
+        case 'variable': {
+          const value = values[toMergeVariable(segment.name)!]?.trim();
+          return value || (segment.fallback ?? '');
+        }
+        case 'spin': {
+          const index = Math.min(
+            Math.floor(random() * segment.options.length),
+            segment.options.length - 1,
+          );
+          return renderSegments(segment.options[index], values, random);
+        }
+      }
+    })
+    .join('');
+}
+
+/**
+ * Renders a template for one recipient
+ * Each variable is replaced by the recipient's value, or its fallback when the value is
+ * blank; each spintax group by one of its options
+ * @param random - Source of random numbers in [0, 1) for spintax; fixed in tests and previews
+ * @throws MergeTemplateError when the template uses an unknown variable
+ */
+export function renderMergeTemplate(
+  template: string,
+  values: MergeValues,
+  random: () => number = Math.random,
+): string {
+  const error = validateMergeTemplate(template);
+  if (error) throw new MergeTemplateError(error, findUnknownVariables(template));
+  return renderSegments(parseMergeTemplate(template), values, random);
+}
+
+/**
+ * Splits message content into the text written for it, which is a template, and the quoted
+ * text of a reply below, which is sent as it was received
+ */
+export function splitQuotedText(content: string): { written: string; quoted: string } {
+  const quoteStart = findQuoteStart(content);
+  return { written: content.slice(0, quoteStart), quoted: content.slice(quoteStart) };
+}
+
+/**
+ * The parts of a message that are templates: its subject, and its content above any quoted text
+ */
+export function mergeFieldsOf({ subject, content }: { subject: string; content: string }) {
+  return { subject, content: splitQuotedText(content).written };
+}
+
+/**
+ * Renders a message's subject and the text written above any quoted reply for one recipient
+ * @throws MergeTemplateError when either uses an unknown variable
+ */
+export function renderMergeMessage(
+  { subject, content }: { subject: string; content: string },
+  values: MergeValues,
+  random: () => number = Math.random,
+): { subject: string; content: string } {
+  const { written, quoted } = splitQuotedText(content);
+  return {
+    subject: renderMergeTemplate(subject, values, random),
+    content: renderMergeTemplate(written, values, random) + quoted,
+  };
+}
+
+/**
+ * Works out a recipient's merge values from their address, their display name (either
+ * "First Last" or "Last, First") and anything known about them as a lead
+ */
+export function mergeValuesFor(person: {
+  address: string;
+  name?: string | null;
+  firstName?: string | null;
+  company?: string | null;
+}): MergeValues {
+  const name = person.name?.trim() ?? '';
+  const comma = name.indexOf(',');
+  const [first = '', ...rest] =
+    comma >= 0
+      ? [name.slice(comma + 1).trim(), name.slice(0, comma).trim()]
+      : name.split(/\s+/).filter(Boolean);
+
+  return {
+    email: person.address,
+    name: name || person.firstName?.trim() || null,
+    firstName: person.firstName?.trim() || first || null,
+    lastName: rest.join(' ') || null,
+    company: person.company?.trim() || null,
+  };
+}
@@ -0,0 +1,255 @@
+/**
+ * Tests for the .eml / mbox parser
+ */
+
+import { Buffer } from 'buffer';
+import {
+  decodeHeaderValue,
+  formatAddressList,
+  htmlToText,
+  parseAddressList,
+  parseHeaderParams,
+  parseMessage,
+  splitMailFile,
+  splitMbox,
+} from './mailParser';
+
+/** Builds a raw message from lines, as stored on disk */
+const eml = (...lines: string[]) => lines.join('\r\n');
+
+/** Holds UTF-8 text as raw bytes, the way parseMessage receives file contents */
+const bytes = (text: string) => Buffer.from(text, 'utf-8').toString('latin1');
+
+describe('decodeHeaderValue', () => {
+  it('should decode base64 and quoted-printable encoded words', () => {
+    expect(decodeHeaderValue('=?UTF-8?B?SGVsbG8gd8O2cmxk?=')).toBe('Hello wörld');
+    expect(decodeHeaderValue('=?iso-8859-1?Q?Caf=E9_au_lait?=')).toBe('Café au lait');
+  });
+
+  it('should join adjacent encoded words and keep surrounding text', () => {
+    expect(decodeHeaderValue('Re: =?UTF-8?Q?Gr=C3=BC?= =?UTF-8?Q?=C3=9Fe?= again')).toBe(
+      'Re: Grüße again',
+    );
+  });
+
+  it('should read raw 8-bit headers as UTF-8', () => {
+    expect(decodeHeaderValue(bytes('Crème brûlée'))).toBe('Crème brûlée');
+  });
+});
+
+describe('parseHeaderParams', () => {
+  it('should parse quoted and unquoted parameters', () => {
+    expect(parseHeaderParams('text/plain; charset="utf-8"; format=flowed')).toEqual({
+      value: 'text/plain',
+      params: { charset: 'utf-8', format: 'flowed' },
+    });
+  });
+
+  it('should join RFC 2231 continuations and decode extended values', () => {
+    const { params } = parseHeaderParams(
+      "attachment; filename*0*=utf-8''r%C3%A9sum; filename*1*=%C3%A9.pdf",
+    );
+    expect(params.filename).toBe('résumé.pdf');
+  });
+});
+
+describe('parseAddressList', () => {
+  it('should parse display names, quoted names and bare addresses', () => {
+    expect(
+      parseAddressList('Alice Smith <alice@test.org>, "Doe, John" <john@example.com>, bob@x.io'),
+    ).toEqual([
+      { name: 'Alice Smith', address: 'alice@test.org' },
+      { name: 'Doe, John', address: 'john@example.com' },
+      { name: '', address: 'bob@x.io' },
+    ]);
+  });
+
+  it('should take the name from a comment and flatten groups', () => {
+    expect(parseAddressList('carol@test.org (Carol), Team: dan@test.org, eve@test.org;')).toEqual([
+      { name: 'Carol', address: 'carol@test.org' },
+      { name: '', address: 'dan@test.org' },
+      { name: '', address: 'eve@test.org' },
+    ]);
+  });
+
+  it('should decode encoded display names', () => {
+    expect(parseAddressList('=?UTF-8?Q?Ren=C3=A9e?= <renee@test.org>')).toEqual([
+      { name: 'Renée', address: 'renee@test.org' },
+    ]);
+  });
+
+  it('should return an empty list for missing headers', () => {
+    expect(parseAddressList(null)).toEqual([]);
+    expect(parseAddressList('')).toEqual([]);
+  });
+});
+
+describe('formatAddressList', () => {
+  it('should quote names containing specials', () => {
+    expect(
+      formatAddressList([
+        { name: 'Alice Smith', address: 'alice@test.org' },
+        { name: 'Doe, John', address: 'john@example.com' },
+        { name: '', address: 'bob@x.io' },
+      ]),
+    ).toBe('Alice Smith <alice@test.org>, "Doe, John" <john@example.com>, bob@x.io');
+  });
+});
+
+describe('htmlToText', () => {
+  it('should strip tags and decode entities', () => {
+    expect(htmlToText('<style>p{}</style><p>Hi &amp; bye</p><p>Line<br>two&#33;</p>')).toBe(
+      'Hi & bye\nLine\ntwo!',
+    );
+  });
+});
+
+describe('parseMessage', () => {
+  it('should parse headers and a plain body', () => {
+    const message = parseMessage(
+      eml(
+        'Message-ID: <one@test.org>',
+        'In-Reply-To: <zero@test.org>',
+        'References: <root@test.org>',
+        '  <zero@test.org>',
+        'From: Alice <alice@test.org>',
+        'To: bob@test.org',
+        'Subject: Quarterly',
+        '  report',
+        'Date: Tue, 14 May 2024 10:30:00 +0200 (CEST)',
+        'Status: RO',
+        '',
+        'Hello Bob',
+      ),
+    );
+
+    expect(message).toMatchObject({
+      messageId: '<one@test.org>',
+      inReplyTo: '<zero@test.org>',
+      references: '<root@test.org> <zero@test.org>',
+      subject: 'Quarterly report',
+      from: [{ name: 'Alice', address: 'alice@test.org' }],
+      to: [{ name: '', address: 'bob@test.org' }],
+      text: 'Hello Bob',
+      isRead: true,
+    });
+    expect(message.date?.toISOString()).toBe('2024-05-14T08:30:00.000Z');
+  });
+
+  it('should decode quoted-printable bodies in their charset', () => {
+    const message = parseMessage(
+      eml(
+        'Content-Type: text/plain; charset=iso-8859-1',
+        'Content-Transfer-Encoding: quoted-printable',
+        '',
+        'Voil=E0 une ligne tr=E8s longue qui est coup=',
+        '=E9e en deux.',
+      ),
+    );
+    expect(message.text).toBe('Voilà une ligne très longue qui est coupée en deux.');
+    expect(message.isRead).toBe(false);
+  });
+
+  it('should prefer the plain part of multipart/alternative and collect attachments', () => {
+    const message = parseMessage(
+      eml(
+        'Subject: Files',
+        'Content-Type: multipart/mixed; boundary="outer"',
+        '',
+        'Preamble is ignored',
+        '--outer',
+        'Content-Type: multipart/alternative; boundary=inner',
+        '',
+        '--inner',
+        'Content-Type: text/plain; charset=utf-8',
+        'Content-Transfer-Encoding: base64',
+        '',
+        Buffer.from('Plain wörds').toString('base64'),
+        '--inner',
+        'Content-Type: text/html',
+        '',
+        '<p>HTML words</p>',
+        '--inner--',
+        '--outer',
+        'Content-Type: application/pdf; name="report.pdf"',
+        'Content-Disposition: attachment',
+        'Content-Transfer-Encoding: base64',
+        '',
+        Buffer.from('%PDF-1.4').toString('base64'),
+        '--outer--',
+        'Epilogue is ignored',
+      ),
+    );
+
+    expect(message.text).toBe('Plain wörds');
+    expect(message.attachments).toHaveLength(1);
+    expect(message.attachments[0]).toMatchObject({
+      filename: 'report.pdf',
+      mimeType: 'application/pdf',
+    });
+    expect(message.attachments[0].data.toString()).toBe('%PDF-1.4');
+  });
+
+  it('should convert HTML-only messages to text', () => {
+    const message = parseMessage(
+      eml('Content-Type: text/html; charset=utf-8', '', bytes('<div>Olá <b>mundo</b></div>')),
+    );
+    expect(message.text).toBe('Olá mundo');
+  });
+
+  it('should keep forwarded messages as .eml attachments', () => {
+    const message = parseMessage(
+      eml(
+        'Content-Type: multipart/mixed; boundary=b',
+        '',
+        '--b',
+        'Content-Type: text/plain',
+        '',
+        'See below',
+        '--b',
+        'Content-Type: message/rfc822',
+        '',
+        'Subject: Original',
+        '',
+        'Original body',
+        '--b--',
+      ),
+    );
+    expect(message.text).toBe('See below');
+    expect(message.attachments[0]).toMatchObject({
+      filename: 'message.eml',
+      mimeType: 'message/rfc822',
+    });
+  });
+});
+
+describe('splitMbox', () => {
+  it('should split on From_ lines and unescape quoted From lines', () => {
+    const messages = splitMbox(
+      [
+        'From alice@test.org Tue May 14 10:30:00 2024',
+        'Subject: First',
+        '',
+        'From the top',
+        '>From here',
+        '',
+        'From bob@test.org Tue May 14 11:00:00 2024',
+        'Subject: Second',
+        '',
+        'Body',
+        '',
+      ].join('\n'),
+    );
+
+    expect(messages).toHaveLength(2);
+    expect(parseMessage(messages[0]).text).toBe('From the top\nFrom here');
+    expect(parseMessage(messages[1]).subject).toBe('Second');
+  });
+});
+
+describe('splitMailFile', () => {
+  it('should treat files without a From_ line as a single message', () => {
+    const raw = eml('Subject: Single', '', 'From the desk of Alice');
+    expect(splitMailFile(Buffer.from(raw))).toEqual([raw]);
+  });
+});
@@ -0,0 +1,402 @@
+/**
+ * Mail Parser
+ * Parses RFC 5322 / MIME messages (.eml) and mbox files into plain message objects
+ * Pure module with no database access - shared by the import route and CLI
+ *
+ * Raw messages are handled as latin1 strings so every byte maps to one character; text is
+ * only decoded to Unicode once its charset is known
+ */
+
+import { Buffer } from 'buffer';
+import { TextDecoder } from 'util';
+import { MailAddress, parseAddressList as parseAddresses, stripComments } from '@/lib/addressList';
+
+// Re-exported for the import, export and delivery code that already takes them from here
+export type { MailAddress };
+export { formatAddress, formatAddressList } from '@/lib/addressList';
+
+export interface ParsedAttachment {
+  filename: string;
+  mimeType: string;
+  data: Buffer;
+}
+
+export interface ParsedMessage {
+  messageId: string | null;
+  inReplyTo: string | null;
+  references: string | null;
+  subject: string;
+  from: MailAddress[];
+  to: MailAddress[];
+  cc: MailAddress[];
+  bcc: MailAddress[];
+  date: Date | null;
+  /** Plain-text body; HTML-only messages are converted to text */
+  text: string;
+  attachments: ParsedAttachment[];
+  /** Read flag from the mbox Status / X-Status headers */
+  isRead: boolean;
+}
+
+/** Unfolded header values by lowercased name, in message order */
+type Headers = Map<string, string[]>;
+
+interface BodyParts {
+  plain: string[];
+  html: string[];
+  attachments: ParsedAttachment[];
+}
+
+const DEFAULT_CHARSET = 'utf-8';
+const DEFAULT_MIME_TYPE = 'application/octet-stream';
+
+/**
+ * Decodes latin1-held bytes with the given charset, falling back to UTF-8 for unknown labels
+ */
+function decodeBytes(bytes: string, charset: string = DEFAULT_CHARSET): string {
+  const buffer = Buffer.from(bytes, 'latin1');
+  try {
+    return new TextDecoder(charset.trim().toLowerCase()).decode(buffer);
+  } catch {
+    return new TextDecoder(DEFAULT_CHARSET).decode(buffer);
+  }
+}
+
+/**
+ * Splits a raw message into its header block and body at the first empty line
+ */
+function splitHeaderBody(raw: string): { headerText: string; body: string } {
+  const match = /\r?\n\r?\n/.exec(raw);
+  if (!match) return { headerText: raw, body: '' };
+  return { headerText: raw.slice(0, match.index), body: raw.slice(match.index + match[0].length) };
+}
+
+/**
+ * Parses a header block, unfolding continuation lines
+ */
+function parseHeaders(headerText: string): Headers {
+  const headers: Headers = new Map();
+  for (const line of headerText.replace(/\r?\n(?=[ \t])/g, '').split(/\r?\n/)) {
+    const colon = line.indexOf(':');
+    if (colon <= 0) continue;
+    const name = line.slice(0, colon).trim().toLowerCase();
+    headers.set(name, [...(headers.get(name) ?? []), line.slice(colon + 1).trim()]);
+  }
+  return headers;
+}
+
+/**
+ * Decodes raw 8-bit header bytes, taking them as UTF-8
+ */
+function decodeRawHeader(value: string): string {
+  return /[\x80-\xff]/.test(value) ? decodeBytes(value) : value;
+}
+
+/**
+ * Decodes RFC 2047 encoded words (=?charset?B|Q?...?=) in header text
+ */
+function decodeEncodedWords(text: string): string {
+  const encodedWord = /=\?([^?\s]+)\?([BbQq])\?([^?\s]*)\?=/g;
+  return (
+    text
+      // Whitespace between adjacent encoded words is not part of the text
+      .replace(/(=\?[^?\s]+\?[BbQq]\?[^?\s]*\?=)\s+(?==\?[^?\s]+\?[BbQq]\?[^?\s]*\?=)/g, '$1')
+      .replace(encodedWord, (_, charset: string, encoding: string, data: string) => {
+        const bytes =
+          encoding.toUpperCase() === 'B'
+            ? Buffer.from(data, 'base64').toString('latin1')
+            : data
+                .replace(/_/g, ' ')
+                .replace(/=([0-9A-Fa-f]{2})/g, (_m, hex) => String.fromCharCode(parseInt(hex, 16)));
+        // RFC 2231 allows a language suffix, e.g. utf-8*en
+        return decodeBytes(bytes, charset.split('*')[0]);
+      })
+  );
+}
+
+/**
+ * Decodes a raw header value: 8-bit bytes are taken as UTF-8, then RFC 2047 encoded words
+ * are decoded
+ */
+export function decodeHeaderValue(value: string): string {
+  return decodeEncodedWords(decodeRawHeader(value));
+}
+
+/**
+ * First value of a header, decoded
+ */
+function getHeader(headers: Headers, name: string): string | null {
+  const value = headers.get(name)?.[0];
+  return value === undefined ? null : decodeHeaderValue(value);
+}
+
+/**
+ * Splits a structured header such as Content-Type into its value and parameters
+ * Supports quoted values and RFC 2231 continuations and charset-encoded values
+ */
+export function parseHeaderParams(header: string): {
+  value: string;
+  params: Record<string, string>;
+} {
+  const semicolon = header.indexOf(';');
+  const value = (semicolon === -1 ? header : header.slice(0, semicolon)).trim().toLowerCase();
+
+  const segments = new Map<
+    string,
+    { index: number; extended: boolean; continued: boolean; text: string }[]
+  >();
+  const paramPattern = /;\s*([^=\s;]+)\s*=\s*("(?:[^"\\]|\\.)*"|[^;]*)/g;
+  for (const [, rawName, rawValue] of header.matchAll(paramPattern)) {
+    const [, name, index, star] = /^([^*]+)(?:\*(\d+))?(\*)?$/.exec(rawName.toLowerCase()) ?? [];
+    if (!name) continue;
+    const text = rawValue.startsWith('"')
+      ? rawValue.slice(1, -1).replace(/\\(.)/g, '$1')
+      : rawValue.trim();
+    segments.set(name, [
+      ...(segments.get(name) ?? []),
+      {
+        index: Number(index ?? 0),
+        extended: Boolean(star),
+        continued: index !== undefined || Boolean(star),
+        text,
+      },
+    ]);
+  }
+
+  const params: Record<string, string> = {};
+  for (const [name, allParts] of segments) {
+    // Senders may give a plain fallback next to the RFC 2231 form; the latter wins
+    const parts = allParts.some((part) => part.continued)
+      ? allParts.filter((part) => part.continued)
+      : allParts.slice(0, 1);
+    parts.sort((a, b) => a.index - b.index);
+    const [first] = parts;
+    if (!first.extended) {
+      params[name] = decodeHeaderValue(parts.map((part) => part.text).join(''));
+      continue;
+    }
+    // Extended values are charset'language'percent-encoded, with the prefix on the first part
+    const [charset, , encoded] = first.text.split("'");
+    const bytes = [encoded ?? first.text, ...parts.slice(1).map((part) => part.text)]
+      .join('')
+      .replace(/%([0-9A-Fa-f]{2})/g, (_m, hex) => String.fromCharCode(parseInt(hex, 16)));
+    params[name] = decodeBytes(bytes, charset || DEFAULT_CHARSET);
+  }
+
+  return { value, params };
+}
+
+/**
+ * Undoes a Content-Transfer-Encoding, returning latin1-held bytes
+ */
+function decodeTransferEncoding(body: string, encoding: string | null): string {
+  switch (encoding?.trim().toLowerCase()) {
+    case 'base64':
+      return Buffer.from(body.replace(/[^A-Za-z0-9+/=]/g, ''), 'base64').toString('latin1');
+    case 'quoted-printable':
+      return body
+        .replace(/[ \t]+(?=\r?\n)/g, '')
+        .replace(/=\r?\n/g, '')
+        .replace(/=([0-9A-Fa-f]{2})/g, (_m, hex) => String.fromCharCode(parseInt(hex, 16)));
+    default:
+      return body;
+  }
+}
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+/**
+ * Rough plain-text rendering of an HTML body for messages without a text/plain part
+ */
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<(script|style|head)[\s\S]*?<\/\1>/gi, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|li|tr|h[1-6]|blockquote)>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+      if (code[0] !== '#') return HTML_ENTITIES[code.toLowerCase()] ?? entity;
+      const point =
+        code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : Number(code.slice(1));
+      return String.fromCodePoint(point);
+    })
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Walks a MIME entity, collecting text bodies and attachments
+ * multipart/alternative contributes only its richest text version it understands: plain text
+ * is preferred, HTML is used when there is nothing else
+ */
+function collectParts(headers: Headers, body: string, parts: BodyParts): void {
+  const contentType = parseHeaderParams(headers.get('content-type')?.[0] ?? 'text/plain');
+  const disposition = parseHeaderParams(headers.get('content-disposition')?.[0] ?? 'inline');
+  const filename = disposition.params.filename ?? contentType.params.name;
+
+  if (contentType.value.startsWith('multipart/') && contentType.params.boundary) {
+    const children = splitMultipart(body, contentType.params.boundary);
+    if (contentType.value === 'multipart/alternative') {
+      const versions = children.map((child) => {
+        const childParts: BodyParts = { plain: [], html: [], attachments: [] };
+        collectParts(child.headers, child.body, childParts);
+        return childParts;
+      });
+      const preferred =
+        versions.findLast((version) => version.plain.length) ??
+        versions.findLast((version) => version.html.length);
+      if (preferred) {
+        parts.plain.push(...preferred.plain);
+        parts.html.push(...preferred.html);
+      }
+      versions.forEach((version) => parts.attachments.push(...version.attachments));
+      return;
+    }
+    children.forEach((child) => collectParts(child.headers, child.body, parts));
+    return;
+  }
+
+  const data = decodeTransferEncoding(body, getHeader(headers, 'content-transfer-encoding'));
+  const isText = contentType.value === 'text/plain' || contentType.value === 'text/html';
+
+  if (isText && disposition.value !== 'attachment' && !filename) {
+    const text = decodeBytes(data, contentType.params.charset);
+    (contentType.value === 'text/html' ? parts.html : parts.plain).push(text);
+    return;
+  }
+
+  parts.attachments.push({
+    filename: filename || (contentType.value === 'message/rfc822' ? 'message.eml' : 'attachment'),
+    mimeType: contentType.value || DEFAULT_MIME_TYPE,
+    data: Buffer.from(data, 'latin1'),
+  });
+}
+
+/**
+ * Splits a multipart body on its boundary, ignoring the preamble and epilogue
+ */
+function splitMultipart(body: string, boundary: string): { headers: Headers; body: string }[] {
+  const delimiter = `--${boundary}`;
+  const children: { headers: Headers; body: string }[] = [];
+  let current: string[] | null = null;
+
+  for (const line of body.split(/\r?\n/)) {
+    const trimmed = line.trimEnd();
+    if (trimmed === delimiter || trimmed === `${delimiter}--`) {
+      if (current) {
+        const { headerText, body: childBody } = splitHeaderBody(current.join('\n'));
+        children.push({ headers: parseHeaders(headerText), body: childBody });
+      }
+      current = trimmed === delimiter ? [] : null;
+      if (!current) break;
+      continue;
+    }
+    current?.push(line);
+  }
+  // Unterminated final part
+  if (current?.length) {
+    const { headerText, body: childBody } = splitHeaderBody(current.join('\n'));
+    children.push({ headers: parseHeaders(headerText), body: childBody });
+  }
+  return children;
+}
+
+/**
+ * Parses an address list from a header, decoding RFC 2047 encoded display names
+ * See parseAddressList in addressList for the syntax handled
+ */
+export function parseAddressList(value: string | null | undefined): MailAddress[] {
+  return parseAddresses(value).map(({ name, address }) => ({
+    name: decodeEncodedWords(name),
+    address,
+  }));
+}
+
+/**
+ * Parses a Date header, ignoring comments such as "(UTC)"
+ * @returns null when the date is missing or unreadable
+ */
+function parseDate(value: string | null): Date | null {
+  if (!value) return null;
+  const date = new Date(stripComments(value).text.trim());
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Parses a single RFC 5322 message
+ * @param raw - The message bytes, or a latin1 string holding them
+ */
+export function parseMessage(raw: Buffer | string): ParsedMessage {
+  const text = typeof raw === 'string' ? raw : raw.toString('latin1');
+  const { headerText, body } = splitHeaderBody(text);
+  const headers = parseHeaders(headerText);
+
+  const parts: BodyParts = { plain: [], html: [], attachments: [] };
+  collectParts(headers, body, parts);
+
+  const status = `${getHeader(headers, 'status') ?? ''}${getHeader(headers, 'x-status') ?? ''}`;
+  const addresses = (name: string) =>
+    (headers.get(name) ?? []).flatMap((value) => parseAddressList(decodeRawHeader(value)));
+  const ids = (name: string) => getHeader(headers, name)?.match(/<[^<>\s]+>/g) ?? [];
+
+  return {
+    messageId: ids('message-id')[0] ?? null,
+    inReplyTo: ids('in-reply-to')[0] ?? null,
+    references: ids('references').join(' ') || null,
+    subject: (getHeader(headers, 'subject') ?? '').replace(/\s+/g, ' ').trim(),
+    from: addresses('from'),
+    to: addresses('to'),
+    cc: addresses('cc'),
+    bcc: addresses('bcc'),
+    date: parseDate(getHeader(headers, 'date')),
+    text: (parts.plain.length ? parts.plain.join('\n\n') : htmlToText(parts.html.join('\n')))
+      .replace(/\r\n/g, '\n')
+      .trim(),
+    attachments: parts.attachments,
+    isRead: status.includes('R'),
+  };
+}
+
+// mbox separator: "From <sender> <asctime date>", e.g. "From alice@test.org Tue May 14 10:30:00 2024"
+const MBOX_FROM_LINE = /^From \S+ +[A-Z][a-z]{2} [A-Z][a-z]{2} /;
+
+/**
+ * Splits an mbox file into raw messages
+ * A message starts at a From_ line at the start of the file or after an empty line;
+ * ">From " escaping (mboxrd) is undone
+ */
+export function splitMbox(content: string): string[] {
+  const messages: string[] = [];
+  let current: string[] | null = null;
+  let previousBlank = true;
+
+  for (const line of content.split(/\r?\n/)) {
+    if (previousBlank && MBOX_FROM_LINE.test(line)) {
+      if (current) messages.push(current.join('\n'));
+      current = [];
+    } else if (current) {
+      current.push(line.replace(/^>(>*From )/, '$1'));
+    }
+    previousBlank = line === '';
+  }
+  if (current) messages.push(current.join('\n'));
+
+  return messages.map((message) => message.replace(/\n+$/, '\n')).filter((m) => m.trim());
+}
+
+/**
+ * Splits an uploaded file into raw messages (latin1 strings)
+ * Files starting with an mbox From_ line are split; anything else is a single .eml message
+ */
+export function splitMailFile(data: Buffer): string[] {
+  const content = data.toString('latin1');
+  return MBOX_FROM_LINE.test(content) ? splitMbox(content) : [content];
+}
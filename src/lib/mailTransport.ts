@@ -0,0 +1,231 @@
+/**
+ * Mail Transport - Delivers outgoing messages
+ * Two implementations: a file drop that writes each message to a directory as .eml (the
+ * default, for development), and an SMTP client. Chosen by MAIL_TRANSPORT=file|smtp
+ */
+
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import net from 'net';
+import path from 'path';
+import tls from 'tls';
+
+export interface OutgoingMessage {
+  /** Envelope sender (MAIL FROM) */
+  from: string;
+  /** Envelope recipients (RCPT TO) - To, Cc and Bcc addresses */
+  recipients: string[];
+  /** The complete RFC 5322 message, CRLF line endings */
+  raw: Buffer;
+}
+
+export interface MailTransport {
+  name: string;
+  /** Resolves once the message is accepted; rejects with the reason otherwise */
+  send(message: OutgoingMessage): Promise<void>;
+}
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  /** Implicit TLS from the start (port 465); otherwise STARTTLS is used when offered */
+  secure?: boolean;
+  user?: string;
+  password?: string;
+  /** Name sent with EHLO */
+  clientName?: string;
+  /** Socket inactivity timeout in milliseconds */
+  timeoutMs?: number;
+}
+
+const DEFAULT_DROP_DIR = path.join(process.cwd(), 'storage', 'outbox');
+const DEFAULT_SMTP_TIMEOUT_MS = 30_000;
+
+/**
+ * Raised when an SMTP server rejects a command or the connection fails
+ * `code` is the SMTP reply code, when there was a reply
+ */
+export class SmtpError extends Error {
+  constructor(
+    message: string,
+    public readonly code?: number,
+  ) {
+    super(message);
+    this.name = 'SmtpError';
+  }
+}
+
+/**
+ * Transport that writes each message to `dir` as `<timestamp>-<uuid>.eml`
+ * The envelope goes in X-Envelope-From / X-Envelope-To headers ahead of the message
+ */
+export function createFileDropTransport(dir: string = DEFAULT_DROP_DIR): MailTransport {
+  return {
+    name: 'file',
+    async send({ from, recipients, raw }) {
+      await fs.mkdir(dir, { recursive: true });
+      const envelope = `X-Envelope-From: <${from}>\r\nX-Envelope-To: ${recipients.map((r) => `<${r}>`).join(', ')}\r\n`;
+      const file = path.join(dir, `${Date.now()}-${randomUUID()}.eml`);
+      // Written under a temporary name and renamed, so watchers never pick up a partial file
+      await fs.writeFile(`${file}.tmp`, Buffer.concat([Buffer.from(envelope), raw]));
+      await fs.rename(`${file}.tmp`, file);
+    },
+  };
+}
+
+/**
+ * Reads SMTP replies from a socket, one complete (possibly multi-line) reply at a time
+ */
+function createReplyReader(socket: net.Socket) {
+  let buffer = '';
+  let lines: string[] = [];
+  let pending: {
+    resolve: (reply: { code: number; text: string }) => void;
+    reject: (error: Error) => void;
+  } | null = null;
+  const replies: { code: number; text: string }[] = [];
+  let failure: Error | null = null;
+
+  const flush = () => {
+    if (!pending) return;
+    if (replies.length) {
+      pending.resolve(replies.shift()!);
+      pending = null;
+    } else if (failure) {
+      pending.reject(failure);
+      pending = null;
+    }
+  };
+
+  const onData = (chunk: Buffer) => {
+    buffer += chunk.toString('latin1');
+    let newline: number;
+    while ((newline = buffer.indexOf('\n')) !== -1) {
+      const line = buffer.slice(0, newline).replace(/\r$/, '');
+      buffer = buffer.slice(newline + 1);
+      lines.push(line.slice(4));
+      // "250-..." continues the reply, "250 ..." ends it
+      if (line[3] !== '-') {
+        replies.push({ code: Number(line.slice(0, 3)), text: lines.join('\n') });
+        lines = [];
+      }
+    }
+    flush();
+  };
+  const onEnd = (error?: Error) => {
+    failure ??= error ?? new SmtpError('Connection closed by server');
+    flush();
+  };
+
+  const attach = (target: net.Socket) => {
+    target.on('data', onData);
+    target.on('error', onEnd);
+    target.on('close', () => onEnd());
+    target.on('timeout', () => {
+      onEnd(new SmtpError('Connection timed out'));
+      target.destroy();
+    });
+  };
+  attach(socket);
+
+  return {
+    /** Moves reading to a new socket after STARTTLS */
+    attach(target: net.Socket) {
+      socket.removeAllListeners('data');
+      attach(target);
+    },
+    next(): Promise<{ code: number; text: string }> {
+      return new Promise((resolve, reject) => {
+        pending = { resolve, reject };
+        flush();
+      });
+    },
+  };
+}
+
+/**
+ * Transport that relays messages through an SMTP server
+ * One connection per message: EHLO, STARTTLS when offered, AUTH PLAIN when credentials are
+ * set, then the envelope and the dot-stuffed message
+ */
+export function createSmtpTransport(options: SmtpOptions): MailTransport {
+  const { host, port, secure = false, user, password, clientName = 'localhost' } = options;
+  const timeoutMs = options.timeoutMs ?? DEFAULT_SMTP_TIMEOUT_MS;
+
+  return {
+    name: 'smtp',
+    async send({ from, recipients, raw }) {
+      let socket: net.Socket = await new Promise((resolve, reject) => {
+        const connected = secure
+          ? tls.connect({ host, port, servername: host }, () => resolve(connected))
+          : net.connect({ host, port }, () => resolve(connected));
+        connected.once('error', (error) => reject(new SmtpError(error.message)));
+      });
+      socket.setTimeout(timeoutMs);
+      const reader = createReplyReader(socket);
+
+      /** Sends a command (or nothing, for the greeting) and checks the reply code */
+      const command = async (line: string | null, expected: number) => {
+        if (line !== null) socket.write(`${line}\r\n`);
+        const reply = await reader.next();
+        if (reply.code !== expected) {
+          throw new SmtpError(`${reply.code} ${reply.text}`.trim(), reply.code);
+        }
+        return reply;
+      };
+
+      try {
+        await command(null, 220);
+        let ehlo = await command(`EHLO ${clientName}`, 250);
+
+        if (!secure && /^STARTTLS\b/im.test(ehlo.text)) {
+          await command('STARTTLS', 220);
+          socket = await new Promise((resolve, reject) => {
+            const upgraded = tls.connect({ socket, servername: host }, () => resolve(upgraded));
+            upgraded.once('error', (error) => reject(new SmtpError(error.message)));
+          });
+          socket.setTimeout(timeoutMs);
+          reader.attach(socket);
+          ehlo = await command(`EHLO ${clientName}`, 250);
+        }
+
+        if (user) {
+          const credentials = Buffer.from(`\0${user}\0${password ?? ''}`).toString('base64');
+          await command(`AUTH PLAIN ${credentials}`, 235);
+        }
+
+        await command(`MAIL FROM:<${from}>`, 250);
+        for (const recipient of recipients) await command(`RCPT TO:<${recipient}>`, 250);
+        await command('DATA', 354);
+
+        // Dot-stuffing: lines starting with "." get an extra one
+        const body = raw.toString('latin1').replace(/\r?\n/g, '\r\n').replace(/^\./gm, '..');
+        socket.write(Buffer.from(`${body.replace(/\r\n$/, '')}\r\n.\r\n`, 'latin1'));
+        await command(null, 250);
+        await command('QUIT', 221).catch(() => undefined);
+      } finally {
+        socket.destroy();
+      }
+    },
+  };
+}
+
+/**
+ * The transport configured by environment variables
+ * MAIL_TRANSPORT=smtp uses SMTP_HOST, SMTP_PORT (default 587, 465 when SMTP_SECURE=true),
+ * SMTP_USER and SMTP_PASSWORD; anything else drops files into MAIL_DROP_DIR (default
+ * storage/outbox). Read on every call so tests can point it elsewhere.
+ */
+export function getMailTransport(): MailTransport {
+  if (process.env.MAIL_TRANSPORT === 'smtp') {
+    const secure = process.env.SMTP_SECURE === 'true';
+    return createSmtpTransport({
+      host: process.env.SMTP_HOST || 'localhost',
+      port: Number(process.env.SMTP_PORT) || (secure ? 465 : 587),
+      secure,
+      user: process.env.SMTP_USER || undefined,
+      password: process.env.SMTP_PASSWORD || undefined,
+    });
+  }
+  return createFileDropTransport(process.env.MAIL_DROP_DIR || DEFAULT_DROP_DIR);
+}
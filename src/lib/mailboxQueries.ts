@@ -0,0 +1,197 @@
+/**
+ * Mailbox Queries
+ * Data access layer for the addresses a user sends and receives mail as
+ * Each user has a primary mailbox for their own email, created with the user; its
+ * lowest ID makes it the default sender
+ */
+
+import { db } from '@/lib/database';
+import { emails, mailboxes, users, Mailbox } from '@/lib/schema';
+import { getInboxCondition } from '@/lib/emailQueries';
+import { formatAddress, htmlToText } from '@/lib/mailParser';
+import { sanitizeSignatureHtml } from '@/lib/signature';
+import { isValidEmail } from '@/lib/utils';
+import { and, asc, eq, getTableColumns, inArray, sql } from 'drizzle-orm';
+import { MailboxRequest, MailboxWithCounts, SessionUser } from '@/types';
+
+/**
+ * Raised for a mailbox that cannot be added or removed, such as one whose address is taken
+ */
+export class MailboxError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MailboxError';
+  }
+}
+
+const toNullable = (value: string | null | undefined) => value?.trim() || null;
+
+/**
+ * The signature columns to store for a request: an HTML signature, sanitised, with its text as
+ * the plain-text signature, or a plain-text signature alone
+ * @returns Nothing to change when the request has neither
+ */
+function toSignatureColumns({
+  signature,
+  signatureHtml,
+}: Pick<MailboxRequest, 'signature' | 'signatureHtml'>) {
+  const html = signatureHtml && toNullable(sanitizeSignatureHtml(signatureHtml));
+  // Line breaks in the HTML source are only layout
+  const text = html && htmlToText(html.replace(/\s+/g, ' '));
+  if (html) return { signature: toNullable(text), signatureHtml: html };
+  if (signatureHtml === undefined && signature === undefined) return {};
+  return { signature: toNullable(signature), signatureHtml: null };
+}
+
+/**
+ * Fetches a user's mailboxes, primary first, with their unread counts
+ * Unread counts the mail the inbox lists, as recalculateStats does
+ */
+export async function fetchMailboxes(ownerId: number): Promise<MailboxWithCounts[]> {
+  return db
+    .select({
+      ...getTableColumns(mailboxes),
+      unreadCount: sql<number>`COUNT(${emails.id})`.mapWith(Number),
+    })
+    .from(mailboxes)
+    .leftJoin(
+      emails,
+      and(eq(emails.mailboxId, mailboxes.id), eq(emails.isRead, false), getInboxCondition()),
+    )
+    .where(eq(mailboxes.ownerId, ownerId))
+    .groupBy(mailboxes.id)
+    .orderBy(asc(mailboxes.id));
+}
+
+/**
+ * The mailbox a user sends from: the one with the given address, or their primary mailbox
+ * @returns The mailbox, or undefined when the user has no mailbox with this address
+ */
+export async function findSenderMailbox(
+  ownerId: number,
+  address?: string,
+): Promise<Mailbox | undefined> {
+  const [mailbox] = await db
+    .select()
+    .from(mailboxes)
+    .where(
+      and(
+        eq(mailboxes.ownerId, ownerId),
+        address ? eq(mailboxes.address, address.trim().toLowerCase()) : undefined,
+      ),
+    )
+    .orderBy(asc(mailboxes.id))
+    .limit(1);
+  return mailbox;
+}
+
+/**
+ * Mailboxes, of any user, whose address is one of the given addresses (compared
+ * case-insensitively), with their owners, in the order the addresses are given
+ */
+export async function findMailboxesByAddresses(
+  addresses: string[],
+): Promise<{ mailbox: Mailbox; owner: SessionUser }[]> {
+  const wanted = [...new Set(addresses.map((address) => address.trim().toLowerCase()))];
+  if (!wanted.length) return [];
+
+  const rows = await db
+    .select({
+      mailbox: mailboxes,
+      owner: { id: users.id, email: users.email, name: users.name },
+    })
+    .from(mailboxes)
+    .innerJoin(users, eq(users.id, mailboxes.ownerId))
+    .where(inArray(mailboxes.address, wanted));
+  const byAddress = new Map(rows.map((row) => [row.mailbox.address, row]));
+  return wanted.flatMap((address) => byAddress.get(address) ?? []);
+}
+
+/**
+ * The mailbox whose signature goes on mail sent from a mailbox: itself when it has one, or
+ * else the default - the primary mailbox. Matches signatureFor, which the composer uses
+ * @param mailbox - The sending mailbox; the primary one when omitted
+ */
+export async function findSigningMailbox(
+  ownerId: number,
+  mailbox?: Mailbox,
+): Promise<Mailbox | undefined> {
+  return mailbox?.signature ? mailbox : findSenderMailbox(ownerId);
+}
+
+/**
+ * The plain-text signature for mail sent from a mailbox, as findSigningMailbox picks it
+ */
+export async function findSignature(ownerId: number, mailbox?: Mailbox): Promise<string | null> {
+  return (await findSigningMailbox(ownerId, mailbox))?.signature ?? null;
+}
+
+/**
+ * Adds a mailbox for a user
+ * @throws MailboxError when the address is invalid or already belongs to a mailbox
+ */
+export async function createMailbox(
+  ownerId: number,
+  { address, displayName, ...signature }: MailboxRequest,
+): Promise<Mailbox> {
+  const normalized = address.trim().toLowerCase();
+  if (!isValidEmail(normalized)) throw new MailboxError('Invalid email address');
+  if ((await findMailboxesByAddresses([normalized])).length) {
+    throw new MailboxError(`The address ${normalized} is already in use`);
+  }
+
+  const [mailbox] = await db
+    .insert(mailboxes)
+    .values({
+      ownerId,
+      address: normalized,
+      displayName: toNullable(displayName),
+      ...toSignatureColumns(signature),
+    })
+    .returning();
+  return mailbox;
+}
+
+/**
+ * Updates a mailbox's display name and/or signature, plain text or HTML
+ * @returns The updated mailbox, or undefined if the user has no mailbox with this ID
+ */
+export async function updateMailbox(
+  ownerId: number,
+  id: number,
+  { displayName, ...signature }: Omit<Partial<MailboxRequest>, 'address'>,
+): Promise<Mailbox | undefined> {
+  const [mailbox] = await db
+    .update(mailboxes)
+    .set({
+      ...(displayName !== undefined && { displayName: toNullable(displayName) }),
+      ...toSignatureColumns(signature),
+      updatedAt: new Date(),
+    })
+    .where(and(eq(mailboxes.ownerId, ownerId), eq(mailboxes.id, id)))
+    .returning();
+  return mailbox;
+}
+
+/**
+ * Removes a mailbox; its emails stay, listed under the unified inbox only
+ * @returns Whether the user had a mailbox with this ID
+ * @throws MailboxError for the user's primary mailbox
+ */
+export async function deleteMailbox(ownerId: number, id: number): Promise<boolean> {
+  const primary = await findSenderMailbox(ownerId);
+  if (primary?.id === id) throw new MailboxError('The primary address cannot be removed');
+
+  const deleted = await db
+    .delete(mailboxes)
+    .where(and(eq(mailboxes.ownerId, ownerId), eq(mailboxes.id, id)))
+    .returning();
+  return deleted.length > 0;
+}
+
+/**
+ * The From value for mail sent from a mailbox, e.g. `Ana Lima <ana@example.com>`
+ */
+export function formatSender({ address, displayName }: Mailbox): string {
+  return formatAddress({ name: displayName ?? '', address });
+}
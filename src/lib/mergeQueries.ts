@@ -0,0 +1,39 @@
+/**
+ * Merge Queries
+ * Looks up what is known about a recipient - their contact name and, when they are on a lead
+ * list, their first name and company - to fill in mail merge variables
+ */
+
+import { db } from '@/lib/database';
+import { contacts, leads } from '@/lib/schema';
+import { MailAddress } from '@/lib/addressList';
+import { mergeValuesFor, MergeValues } from '@/lib/mailMerge';
+import { and, desc, eq } from 'drizzle-orm';
+
+/**
+ * Merge values for one recipient of a user's mail
+ * The display name written with the address wins over the contact's name; a lead's details
+ * come from the list they were most recently imported into
+ */
+export async function fetchMergeValues(ownerId: number, person: MailAddress): Promise<MergeValues> {
+  const address = person.address.trim().toLowerCase();
+  const [[contact], [lead]] = await Promise.all([
+    db
+      .select({ name: contacts.name })
+      .from(contacts)
+      .where(and(eq(contacts.ownerId, ownerId), eq(contacts.address, address))),
+    db
+      .select({ firstName: leads.firstName, company: leads.company })
+      .from(leads)
+      .where(and(eq(leads.ownerId, ownerId), eq(leads.address, address)))
+      .orderBy(desc(leads.updatedAt), desc(leads.id))
+      .limit(1),
+  ]);
+
+  return mergeValuesFor({
+    address: person.address,
+    name: person.name || contact?.name,
+    firstName: lead?.firstName,
+    company: lead?.company,
+  });
+}
@@ -0,0 +1,101 @@
+/**
+ * Pagination - Keyset (cursor) pagination helpers for email lists and threads
+ * Cursors are opaque to clients: base64url-encoded JSON of the last row's sort key
+ */
+
+import { and, eq, gt, lt, or, SQL } from 'drizzle-orm';
+import { emails } from '@/lib/schema';
+
+/** Page size used when the client does not pass a limit */
+export const DEFAULT_PAGE_SIZE = 50;
+
+/** Largest page size a client may request */
+export const MAX_PAGE_SIZE = 100;
+
+/**
+ * Sort key of the last row on a page
+ * `relevance` is only meaningful for search results; lists without search use 0
+ */
+export interface Cursor {
+  /** createdAt in epoch milliseconds */
+  createdAt: number;
+  id: number;
+  relevance: number;
+}
+
+/**
+ * Thrown for malformed limit or cursor params
+ */
+export class PaginationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PaginationError';
+  }
+}
+
+/**
+ * Encodes a sort key into an opaque cursor string
+ */
+export function encodeCursor(cursor: Cursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+/**
+ * Decodes a cursor string produced by encodeCursor()
+ * @throws PaginationError if the cursor was not produced by this server
+ */
+export function decodeCursor(value: string): Cursor {
+  try {
+    const cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    if (
+      Number.isFinite(cursor?.createdAt) &&
+      Number.isInteger(cursor?.id) &&
+      Number.isFinite(cursor?.relevance)
+    ) {
+      return cursor;
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new PaginationError('Invalid cursor');
+}
+
+/**
+ * Parses the limit query param, defaulting to DEFAULT_PAGE_SIZE
+ * @throws PaginationError if the limit is not an integer between 1 and MAX_PAGE_SIZE
+ */
+export function parseLimit(value: string | null): number {
+  if (value === null || value === '') return DEFAULT_PAGE_SIZE;
+
+  const limit = Number(value);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    throw new PaginationError(`Limit must be an integer between 1 and ${MAX_PAGE_SIZE}`);
+  }
+  return limit;
+}
+
+/**
+ * Condition selecting rows after the cursor for a (createdAt, id) sort
+ * @param direction - 'desc' for newest first (email lists), 'asc' for oldest first (threads)
+ */
+export function afterCursor(cursor: Cursor, direction: 'asc' | 'desc'): SQL {
+  const compare = direction === 'desc' ? lt : gt;
+  const createdAt = new Date(cursor.createdAt);
+  return or(
+    compare(emails.createdAt, createdAt),
+    and(eq(emails.createdAt, createdAt), compare(emails.id, cursor.id)),
+  )!;
+}
+
+/**
+ * Splits a query result fetched with `limit + 1` rows into a page and its next cursor
+ */
+export function toPage<T>(
+  rows: T[],
+  limit: number,
+  getCursor: (row: T) => Cursor,
+): { items: T[]; nextCursor: string | null } {
+  const items = rows.slice(0, limit);
+  const nextCursor = rows.length > limit ? encodeCursor(getCursor(items[items.length - 1])) : null;
+  return { items, nextCursor };
+}
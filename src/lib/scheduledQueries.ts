@@ -0,0 +1,87 @@
+/**
+ * Scheduled Send Queries
+ * Data access layer for outgoing emails waiting to be sent (status = scheduled)
+ */
+
+import { db } from '@/lib/database';
+import { DeliveryStatus, emails, Email, EmailStatus } from '@/lib/schema';
+import { recalculateStatsFor } from '@/lib/statsQueries';
+import { and, eq, lte } from 'drizzle-orm';
+
+/**
+ * Condition matching a user's scheduled email that has not been sent, cancelled or deleted
+ */
+const pendingCondition = (ownerId: number, id: number) =>
+  and(
+    eq(emails.ownerId, ownerId),
+    eq(emails.id, id),
+    eq(emails.status, EmailStatus.SCHEDULED),
+    eq(emails.isDraft, false),
+    eq(emails.isDeleted, false),
+  );
+
+/**
+ * Moves every scheduled email that is due into Sent, dated at the time it was released, and
+ * queues it for delivery. A single conditional UPDATE, so concurrent runners never release an email twice
+ * Covers every mailbox; stats are recalculated for each user with a released email
+ * @returns The released emails
+ */
+export async function releaseDueEmails(now: Date = new Date()): Promise<Email[]> {
+  const released = await db
+    .update(emails)
+    .set({
+      status: EmailStatus.SENT,
+      deliveryStatus: DeliveryStatus.QUEUED,
+      nextDeliveryAt: now,
+      createdAt: now,
+      updatedAt: now,
+    })
+    .where(
+      and(
+        eq(emails.status, EmailStatus.SCHEDULED),
+        lte(emails.scheduledAt, now),
+        eq(emails.isDraft, false),
+        eq(emails.isDeleted, false),
+      ),
+    )
+    .returning();
+
+  await recalculateStatsFor(released.map((email) => email.ownerId));
+  return released;
+}
+
+/**
+ * Moves a scheduled email to a new send time
+ * @returns The updated email, or undefined if the user has no pending scheduled email with
+ * this ID
+ */
+export async function rescheduleEmail(
+  ownerId: number,
+  id: number,
+  scheduledAt: Date,
+): Promise<Email | undefined> {
+  const [email] = await db
+    .update(emails)
+    .set({ scheduledAt, updatedAt: new Date() })
+    .where(pendingCondition(ownerId, id))
+    .returning();
+  return email;
+}
+
+/**
+ * Cancels a scheduled send, turning the email back into a draft
+ * @returns The draft, or undefined if the user has no pending scheduled email with this ID
+ */
+export async function cancelScheduledEmail(
+  ownerId: number,
+  id: number,
+): Promise<Email | undefined> {
+  const [email] = await db
+    .update(emails)
+    .set({ status: EmailStatus.SENT, scheduledAt: null, isDraft: true, updatedAt: new Date() })
+    .where(pendingCondition(ownerId, id))
+    .returning();
+
+  if (email) await recalculateStatsFor([ownerId]);
+  return email;
+}
@@ -1,23 +1,86 @@
-import { sqliteTable, text, integer } from 'drizzle-orm/sqlite-core';
+import { sqliteTable, text, integer, primaryKey, uniqueIndex } from 'drizzle-orm/sqlite-core';
 
 export enum EmailDirection {
   INCOMING = 'incoming',
   OUTGOING = 'outgoing',
 }
 
-export const emails = sqliteTable('emails', {
+/**
+ * Delivery status of outgoing mail
+ * Scheduled emails wait for the job runner to release them into Sent;
+ * incoming mail and drafts keep the default
+ */
+export enum EmailStatus {
+  SENT = 'sent',
+  SCHEDULED = 'scheduled',
+}
+
+/**
+ * Delivery of an outgoing email through the mail transport
+ * Queued until the first attempt; failed attempts are retried with backoff until they run out
+ */
+export enum DeliveryStatus {
+  QUEUED = 'queued',
+  SENT = 'sent',
+  FAILED = 'failed',
+}
+
+/**
+ * Users
+ * Each user signs in with their email address (stored lowercased) and has a mailbox of their own
+ */
+export const users = sqliteTable('users', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  email: text('email').notNull().unique(),
+  name: text('name'),
+  // scrypt hash with its parameters and salt (see userQueries)
+  passwordHash: text('password_hash').notNull(),
+  createdAt: integer('created_at', { mode: 'timestamp' })
+    .$defaultFn(() => new Date())
+    .notNull(),
+  updatedAt: integer('updated_at', { mode: 'timestamp' })
+    .$defaultFn(() => new Date())
+    .notNull(),
+});
+
+export type User = typeof users.$inferSelect;
+export type UserData = typeof users.$inferInsert;
+
+/**
+ * Sign-in Sessions
+ * Keyed by the SHA-256 of the session token, so the token itself only ever lives in the cookie
+ */
+export const sessions = sqliteTable('sessions', {
+  id: text('id').primaryKey(),
+  userId: integer('user_id')
+    .notNull()
+    .references(() => users.id, { onDelete: 'cascade' }),
+  expiresAt: integer('expires_at', { mode: 'timestamp' }).notNull(),
+  createdAt: integer('created_at', { mode: 'timestamp' })
+    .$defaultFn(() => new Date())
+    .notNull(),
+});
+
+export type Session = typeof sessions.$inferSelect;
+
+/**
+ * Mailboxes
+ * The addresses a user sends and receives mail as; every user has one for their own email and
+ * may add more. Addresses are stored lowercased and unique across users, so inbound mail goes
+ * to exactly one of them
+ */
+export const mailboxes = sqliteTable('mailboxes', {
   id: integer('id').primaryKey({ autoIncrement: true }),
-  threadId: text('thread_id').notNull(),
-  subject: text('subject').notNull(),
-  from: text('from').notNull(),
-  to: text('to').notNull(),
-  cc: text('cc'),
-  bcc: text('bcc'),
-  content: text('content'),
-  isRead: integer('is_read', { mode: 'boolean' }).default(false).notNull(),
-  isImportant: integer('is_important', { mode: 'boolean' }).default(false).notNull(),
-  isDeleted: integer('is_deleted', { mode: 'boolean' }).default(false).notNull(),
-  direction: text('direction').notNull().$type<EmailDirection>().default(EmailDirection.INCOMING),
+  ownerId: integer('owner_id')
+    .notNull()
+    .references(() => users.id, { onDelete: 'cascade' }),
+  address: text('address').notNull().unique(),
+  // Shown as the name in the From header of mail sent from this address
+  displayName: text('display_name'),
+  // Plain text; for an HTML signature, its text, used in the text part of mail
+  signature: text('signature'),
+  // Sanitised HTML signature for the HTML part of mail, when one was given
+  signatureHtml: text('signature_html'),
   createdAt: integer('created_at', { mode: 'timestamp' })
     .$defaultFn(() => new Date())
     .notNull(),
@@ -26,16 +89,375 @@ export const emails = sqliteTable('emails', {
     .notNull(),
 });
 
+export type Mailbox = typeof mailboxes.$inferSelect;
+export type MailboxData = typeof mailboxes.$inferInsert;
+
+export const emails = sqliteTable(
+  'emails',
+  {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    // Mailbox the email belongs to
+    ownerId: integer('owner_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    // Address the email was sent from or received at; null when it matched none of the owner's
+    mailboxId: integer('mailbox_id').references(() => mailboxes.id, { onDelete: 'set null' }),
+    threadId: text('thread_id').notNull(),
+    subject: text('subject').notNull(),
+    from: text('from').notNull(),
+    to: text('to').notNull(),
+    cc: text('cc'),
+    bcc: text('bcc'),
+    content: text('content'),
+    isRead: integer('is_read', { mode: 'boolean' }).default(false).notNull(),
+    isImportant: integer('is_important', { mode: 'boolean' }).default(false).notNull(),
+    isDeleted: integer('is_deleted', { mode: 'boolean' }).default(false).notNull(),
+    // Archived emails leave the inbox but stay in All Mail, labels and search
+    isArchived: integer('is_archived', { mode: 'boolean' }).default(false).notNull(),
+    direction: text('direction').notNull().$type<EmailDirection>().default(EmailDirection.INCOMING),
+    // Unsent message saved from the composer - only listed in the drafts folder
+    isDraft: integer('is_draft', { mode: 'boolean' }).default(false).notNull(),
+    status: text('status').notNull().$type<EmailStatus>().default(EmailStatus.SENT),
+    // When a scheduled email is due to be sent
+    scheduledAt: integer('scheduled_at', { mode: 'timestamp' }),
+    // Hidden from the inbox until this time, then returned unread
+    snoozedUntil: integer('snoozed_until', { mode: 'timestamp' }),
+    // RFC 5322 headers; messageId is null only for emails created before it was recorded, and
+    // unique within a mailbox
+    messageId: text('message_id'),
+    inReplyTo: text('in_reply_to'),
+    // Space-separated Message-IDs of the ancestors, oldest first
+    references: text('references'),
+    // Null for incoming mail, drafts and emails that have not been released yet
+    deliveryStatus: text('delivery_status').$type<DeliveryStatus>(),
+    // Error from the last failed attempt
+    deliveryError: text('delivery_error'),
+    deliveryAttempts: integer('delivery_attempts').default(0).notNull(),
+    // When the next attempt is due; null once sent or out of retries
+    nextDeliveryAt: integer('next_delivery_at', { mode: 'timestamp' }),
+    createdAt: integer('created_at', { mode: 'timestamp' })
+      .$defaultFn(() => new Date())
+      .notNull(),
+    updatedAt: integer('updated_at', { mode: 'timestamp' })
+      .$defaultFn(() => new Date())
+      .notNull(),
+  },
+  (table) => [uniqueIndex('emails_owner_message_id_idx').on(table.ownerId, table.messageId)],
+);
+
 export type Email = typeof emails.$inferSelect;
 export type EmailData = typeof emails.$inferInsert;
 
+/**
+ * Email Attachments
+ * File metadata only - the bytes live in content-addressed blob storage keyed by contentHash,
+ * so identical files attached to several emails are stored once
+ */
+export const attachments = sqliteTable('attachments', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  emailId: integer('email_id')
+    .notNull()
+    .references(() => emails.id, { onDelete: 'cascade' }),
+  filename: text('filename').notNull(),
+  mimeType: text('mime_type').notNull(),
+  // Size in bytes
+  size: integer('size').notNull(),
+  // SHA-256 of the file contents (hex)
+  contentHash: text('content_hash').notNull(),
+  createdAt: integer('created_at', { mode: 'timestamp' })
+    .$defaultFn(() => new Date())
+    .notNull(),
+});
+
+export type Attachment = typeof attachments.$inferSelect;
+export type AttachmentData = typeof attachments.$inferInsert;
+
+/**
+ * User-defined Labels
+ * Each user has their own; names are unique per user (case-insensitively, enforced by the API)
+ * and color is a #rrggbb hex string
+ */
+export const labels = sqliteTable(
+  'labels',
+  {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    ownerId: integer('owner_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    name: text('name').notNull(),
+    color: text('color').notNull(),
+    createdAt: integer('created_at', { mode: 'timestamp' })
+      .$defaultFn(() => new Date())
+      .notNull(),
+    updatedAt: integer('updated_at', { mode: 'timestamp' })
+      .$defaultFn(() => new Date())
+      .notNull(),
+  },
+  (table) => [uniqueIndex('labels_owner_name_idx').on(table.ownerId, table.name)],
+);
+
+export type Label = typeof labels.$inferSelect;
+export type LabelData = typeof labels.$inferInsert;
+
+/**
+ * Contacts
+ * People a user has exchanged mail with, recorded from the From, To and Cc of every email sent
+ * or received, plus any added by hand. Addresses are stored lowercased, one contact per address
+ * per user; interactionCount is the number of emails the address appeared on
+ */
+export const contacts = sqliteTable(
+  'contacts',
+  {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    ownerId: integer('owner_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    address: text('address').notNull(),
+    name: text('name'),
+    interactionCount: integer('interaction_count').default(0).notNull(),
+    lastInteractionAt: integer('last_interaction_at', { mode: 'timestamp' }),
+    createdAt: integer('created_at', { mode: 'timestamp' })
+      .$defaultFn(() => new Date())
+      .notNull(),
+    updatedAt: integer('updated_at', { mode: 'timestamp' })
+      .$defaultFn(() => new Date())
+      .notNull(),
+  },
+  (table) => [uniqueIndex('contacts_owner_address_idx').on(table.ownerId, table.address)],
+);
+
+export type Contact = typeof contacts.$inferSelect;
+export type ContactData = typeof contacts.$inferInsert;
+
+/**
+ * Lead Lists
+ * Named lists of prospects, such as one per CSV import; names are unique per user
+ */
+export const leadLists = sqliteTable(
+  'lead_lists',
+  {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    ownerId: integer('owner_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    name: text('name').notNull(),
+    createdAt: integer('created_at', { mode: 'timestamp' })
+      .$defaultFn(() => new Date())
+      .notNull(),
+    updatedAt: integer('updated_at', { mode: 'timestamp' })
+      .$defaultFn(() => new Date())
+      .notNull(),
+  },
+  (table) => [uniqueIndex('lead_lists_owner_name_idx').on(table.ownerId, table.name)],
+);
+
+export type LeadList = typeof leadLists.$inferSelect;
+export type LeadListData = typeof leadLists.$inferInsert;
+
+/**
+ * Leads
+ * Prospects on a lead list, one per address (stored lowercased) per list. Any columns of an
+ * import beyond the address, first name and company are kept in customFields by column name
+ */
+export const leads = sqliteTable(
+  'leads',
+  {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    ownerId: integer('owner_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    listId: integer('list_id')
+      .notNull()
+      .references(() => leadLists.id, { onDelete: 'cascade' }),
+    address: text('address').notNull(),
+    firstName: text('first_name'),
+    company: text('company'),
+    customFields: text('custom_fields', { mode: 'json' })
+      .$type<Record<string, string>>()
+      .notNull()
+      .$defaultFn(() => ({})),
+    createdAt: integer('created_at', { mode: 'timestamp' })
+      .$defaultFn(() => new Date())
+      .notNull(),
+    updatedAt: integer('updated_at', { mode: 'timestamp' })
+      .$defaultFn(() => new Date())
+      .notNull(),
+  },
+  (table) => [uniqueIndex('leads_list_address_idx').on(table.listId, table.address)],
+);
+
+export type Lead = typeof leads.$inferSelect;
+export type LeadData = typeof leads.$inferInsert;
+
+/**
+ * Whether a campaign is sending; leads of a paused campaign keep their place in the sequence
+ */
+export enum CampaignStatus {
+  ACTIVE = 'active',
+  PAUSED = 'paused',
+}
+
+/**
+ * Where a lead is in a campaign's sequence
+ * Active leads have steps left to send; the others are finished with
+ */
+export enum LeadStatus {
+  ACTIVE = 'active',
+  // An incoming email arrived on the lead's thread before a step that stops on reply
+  REPLIED = 'replied',
+  COMPLETED = 'completed',
+  // The step due could not be sent after MAX_STEP_ATTEMPTS tries; sendError says why
+  FAILED = 'failed',
+}
+
+/**
+ * Outreach Campaigns
+ * A sequence of emails sent to each enrolled lead in turn, from one of the owner's mailboxes
+ */
+export const campaigns = sqliteTable('campaigns', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  ownerId: integer('owner_id')
+    .notNull()
+    .references(() => users.id, { onDelete: 'cascade' }),
+  // Mailbox the campaign sends from; null sends from the owner's primary mailbox
+  mailboxId: integer('mailbox_id').references(() => mailboxes.id, { onDelete: 'set null' }),
+  name: text('name').notNull(),
+  status: text('status').notNull().$type<CampaignStatus>().default(CampaignStatus.ACTIVE),
+  createdAt: integer('created_at', { mode: 'timestamp' })
+    .$defaultFn(() => new Date())
+    .notNull(),
+  updatedAt: integer('updated_at', { mode: 'timestamp' })
+    .$defaultFn(() => new Date())
+    .notNull(),
+});
+
+export type Campaign = typeof campaigns.$inferSelect;
+export type CampaignData = typeof campaigns.$inferInsert;
+
+/**
+ * Campaign Sequence Steps
+ * The emails of a campaign, numbered from 0. Each is sent delayDays after the previous one (the
+ * first, after the lead is enrolled), on the thread started by the first
+ */
+export const sequenceSteps = sqliteTable(
+  'sequence_steps',
+  {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    campaignId: integer('campaign_id')
+      .notNull()
+      .references(() => campaigns.id, { onDelete: 'cascade' }),
+    position: integer('position').notNull(),
+    // Empty for a follow-up sent as a reply to the first step's subject
+    subject: text('subject').notNull().default(''),
+    content: text('content').notNull(),
+    delayDays: integer('delay_days').default(0).notNull(),
+    // Not sent to a lead who has replied
+    stopOnReply: integer('stop_on_reply', { mode: 'boolean' }).default(true).notNull(),
+  },
+  (table) => [
+    uniqueIndex('sequence_steps_campaign_position_idx').on(table.campaignId, table.position),
+  ],
+);
+
+export type SequenceStep = typeof sequenceSteps.$inferSelect;
+export type SequenceStepData = typeof sequenceSteps.$inferInsert;
+
+/**
+ * Campaign Leads
+ * The people enrolled in a campaign, one per address (stored lowercased), with the step they
+ * are due next and the thread their emails are sent on
+ */
+export const campaignLeads = sqliteTable(
+  'campaign_leads',
+  {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    campaignId: integer('campaign_id')
+      .notNull()
+      .references(() => campaigns.id, { onDelete: 'cascade' }),
+    address: text('address').notNull(),
+    name: text('name'),
+    status: text('status').notNull().$type<LeadStatus>().default(LeadStatus.ACTIVE),
+    // Position of the next step to send
+    nextStep: integer('next_step').default(0).notNull(),
+    // When the next step is due; null once the lead is finished
+    nextSendAt: integer('next_send_at', { mode: 'timestamp' }),
+    // Thread of the first step, null until it is sent
+    threadId: text('thread_id'),
+    lastSentAt: integer('last_sent_at', { mode: 'timestamp' }),
+    // Failed tries at sending the step due, and the error from the last one
+    sendAttempts: integer('send_attempts').default(0).notNull(),
+    sendError: text('send_error'),
+    createdAt: integer('created_at', { mode: 'timestamp' })
+      .$defaultFn(() => new Date())
+      .notNull(),
+    updatedAt: integer('updated_at', { mode: 'timestamp' })
+      .$defaultFn(() => new Date())
+      .notNull(),
+  },
+  (table) => [
+    uniqueIndex('campaign_leads_campaign_address_idx').on(table.campaignId, table.address),
+  ],
+);
+
+export type CampaignLead = typeof campaignLeads.$inferSelect;
+export type CampaignLeadData = typeof campaignLeads.$inferInsert;
+
+/**
+ * Email Templates
+ * Reusable subjects and bodies, which may hold mail merge variables and spintax; names are
+ * unique per user and category groups them in the composer. useCount counts insertions
+ */
+export const templates = sqliteTable(
+  'templates',
+  {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    ownerId: integer('owner_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    name: text('name').notNull(),
+    subject: text('subject').notNull().default(''),
+    body: text('body').notNull().default(''),
+    category: text('category'),
+    useCount: integer('use_count').default(0).notNull(),
+    lastUsedAt: integer('last_used_at', { mode: 'timestamp' }),
+    createdAt: integer('created_at', { mode: 'timestamp' })
+      .$defaultFn(() => new Date())
+      .notNull(),
+    updatedAt: integer('updated_at', { mode: 'timestamp' })
+      .$defaultFn(() => new Date())
+      .notNull(),
+  },
+  (table) => [uniqueIndex('templates_owner_name_idx').on(table.ownerId, table.name)],
+);
+
+export type Template = typeof templates.$inferSelect;
+export type TemplateData = typeof templates.$inferInsert;
+
+/**
+ * Email <-> Label join table (many-to-many)
+ */
+export const emailLabels = sqliteTable(
+  'email_labels',
+  {
+    emailId: integer('email_id')
+      .notNull()
+      .references(() => emails.id, { onDelete: 'cascade' }),
+    labelId: integer('label_id')
+      .notNull()
+      .references(() => labels.id, { onDelete: 'cascade' }),
+  },
+  (table) => [primaryKey({ columns: [table.emailId, table.labelId] })],
+);
+
 /**
  * Email Stats Lookup Table
  * Denormalized stats for fast reads - updated incrementally on email changes
- * Single row table (id=1) that stores pre-computed thread-aware counts
+ * One row per user that stores pre-computed thread-aware counts for their mailbox
  */
 export const emailStats = sqliteTable('email_stats', {
-  id: integer('id').primaryKey().default(1),
+  ownerId: integer('owner_id')
+    .primaryKey()
+    .references(() => users.id, { onDelete: 'cascade' }),
   // Count of individual emails in inbox (incoming emails)
   inboxEmailCount: integer('inbox_email_count').default(0).notNull(),
   // Count of individual unread incoming emails
@@ -44,6 +466,12 @@ export const emailStats = sqliteTable('email_stats', {
   importantEmailCount: integer('important_email_count').default(0).notNull(),
   // Count of individual sent emails (outgoing emails)
   sentEmailCount: integer('sent_email_count').default(0).notNull(),
+  // Count of outgoing emails waiting to be sent (not included in sentEmailCount)
+  scheduledEmailCount: integer('scheduled_email_count').default(0).notNull(),
+  // Count of archived emails (not included in inboxEmailCount)
+  archivedEmailCount: integer('archived_email_count').default(0).notNull(),
+  // Count of emails in the trash
+  deletedEmailCount: integer('deleted_email_count').default(0).notNull(),
   // Last time stats were recalculated
   updatedAt: integer('updated_at', { mode: 'timestamp' })
     .$defaultFn(() => new Date())
@@ -0,0 +1,130 @@
+/**
+ * Search Index - SQLite FTS5 full-text index over the emails table
+ * The index is an external-content FTS5 table kept in sync with `emails` by triggers,
+ * so it stores only the inverted index and reads row text back from `emails`
+ */
+
+import type Database from 'better-sqlite3';
+import { sqliteTable, integer, real, text } from 'drizzle-orm/sqlite-core';
+import { sql } from 'drizzle-orm';
+import { emails } from '@/lib/schema';
+import { SEARCH_HIGHLIGHT_START, SEARCH_HIGHLIGHT_END } from '@/types';
+
+/**
+ * Query-side view of the FTS5 virtual table
+ * Deliberately kept out of schema.ts so drizzle-kit never tries to manage it
+ */
+export const emailsFts = sqliteTable('emails_fts', {
+  rowid: integer('rowid').notNull(),
+  // Hidden FTS5 column - relevance score using the weights configured below (lower is better)
+  rank: real('rank').notNull(),
+  subject: text('subject'),
+  from: text('from'),
+  to: text('to'),
+  cc: text('cc'),
+  bcc: text('bcc'),
+  content: text('content'),
+});
+
+/**
+ * bm25 column weights, in column order: subject, from, to, cc, bcc, content
+ */
+const RANK_WEIGHTS = [10, 5, 3, 2, 1, 1];
+
+/** Number of tokens to include in a highlighted snippet */
+const SNIPPET_TOKENS = 16;
+
+const INDEXED_COLUMNS = 'subject, "from", "to", cc, bcc, content';
+const NEW_VALUES = 'new.subject, new."from", new."to", new.cc, new.bcc, new.content';
+const OLD_VALUES = 'old.subject, old."from", old."to", old.cc, old.bcc, old.content';
+
+/**
+ * DDL for the index and its sync triggers
+ * Mirrored in drizzle/0002_emails_fts.sql
+ */
+const SEARCH_INDEX_DDL = `
+  CREATE VIRTUAL TABLE IF NOT EXISTS emails_fts USING fts5(
+    ${INDEXED_COLUMNS},
+    content='emails',
+    content_rowid='id',
+    tokenize='unicode61 remove_diacritics 2'
+  );
+
+  CREATE TRIGGER IF NOT EXISTS emails_fts_ai AFTER INSERT ON emails BEGIN
+    INSERT INTO emails_fts(rowid, ${INDEXED_COLUMNS}) VALUES (new.id, ${NEW_VALUES});
+  END;
+
+  CREATE TRIGGER IF NOT EXISTS emails_fts_ad AFTER DELETE ON emails BEGIN
+    INSERT INTO emails_fts(emails_fts, rowid, ${INDEXED_COLUMNS})
+      VALUES ('delete', old.id, ${OLD_VALUES});
+  END;
+
+  CREATE TRIGGER IF NOT EXISTS emails_fts_au AFTER UPDATE OF ${INDEXED_COLUMNS} ON emails BEGIN
+    INSERT INTO emails_fts(emails_fts, rowid, ${INDEXED_COLUMNS})
+      VALUES ('delete', old.id, ${OLD_VALUES});
+    INSERT INTO emails_fts(rowid, ${INDEXED_COLUMNS}) VALUES (new.id, ${NEW_VALUES});
+  END;
+`;
+
+/**
+ * Creates the search index and triggers if they are missing
+ * Safe to call on every startup; a newly created index is backfilled from existing rows
+ */
+export function ensureSearchIndex(sqlite: Database.Database): void {
+  const tableExists = (name: string) =>
+    !!sqlite.prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = ?").get(name);
+
+  // Schema has not been pushed yet - nothing to index
+  if (!tableExists('emails')) return;
+
+  const isNewIndex = !tableExists('emails_fts');
+  sqlite.exec(SEARCH_INDEX_DDL);
+
+  if (isNewIndex) {
+    sqlite.exec(`
+      INSERT INTO emails_fts(emails_fts, rank) VALUES ('rank', 'bm25(${RANK_WEIGHTS.join(', ')})');
+      INSERT INTO emails_fts(emails_fts) VALUES ('rebuild');
+    `);
+  }
+}
+
+export type IndexedColumn = 'subject' | 'from' | 'to' | 'cc' | 'bcc' | 'content';
+
+/**
+ * Converts a search value into an FTS5 phrase
+ * The value is always quoted so user input can never inject FTS5 operators
+ * @param options.prefix - Match words starting with the last token (default: true)
+ * @param options.column - Restrict the phrase to one indexed column
+ */
+export function toMatchPhrase(
+  value: string,
+  options: { prefix?: boolean; column?: IndexedColumn } = {},
+): string {
+  const { prefix = true, column } = options;
+  const phrase = `"${value.replace(/"/g, '""')}"${prefix ? '*' : ''}`;
+  return column ? `${column} : ${phrase}` : phrase;
+}
+
+/**
+ * MATCH condition against the index for a compiled expression
+ * Phrases separated by spaces must all match
+ */
+export function matchCondition(expression: string) {
+  return sql`${emailsFts} MATCH ${expression}`;
+}
+
+/**
+ * Excludes emails matching a compiled expression
+ * FTS5 has no unary NOT, so negated terms are applied as an anti-join
+ */
+export function excludeMatchCondition(expression: string) {
+  return sql`${emails.id} NOT IN (SELECT rowid FROM ${emailsFts} WHERE ${emailsFts} MATCH ${expression})`;
+}
+
+/**
+ * Highlighted excerpt from the best-matching column of the current row
+ * Only valid in a query that also applies matchCondition()
+ */
+export function snippetColumn() {
+  return sql<string>`snippet(${emailsFts}, -1, ${SEARCH_HIGHLIGHT_START}, ${SEARCH_HIGHLIGHT_END}, '…', ${SNIPPET_TOKENS})`;
+}
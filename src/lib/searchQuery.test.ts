@@ -0,0 +1,104 @@
+/**
+ * Tests for the search query parser
+ */
+
+import { parseSearchQuery, formatSearchTerm, SearchQueryError } from './searchQuery';
+
+/** Parses and expects a SearchQueryError, returning it for further assertions */
+function parseError(input: string): SearchQueryError {
+  try {
+    parseSearchQuery(input);
+  } catch (error) {
+    if (error instanceof SearchQueryError) return error;
+    throw error;
+  }
+  throw new Error(`Expected "${input}" to fail parsing`);
+}
+
+describe('parseSearchQuery', () => {
+  it('should parse free text into separate terms', () => {
+    expect(parseSearchQuery('project proposal').terms).toEqual([
+      { operator: null, value: 'project', quoted: false, negated: false, position: 0 },
+      { operator: null, value: 'proposal', quoted: false, negated: false, position: 8 },
+    ]);
+  });
+
+  it('should return no terms for blank input', () => {
+    expect(parseSearchQuery('   ').terms).toEqual([]);
+  });
+
+  it('should parse quoted phrases as a single term', () => {
+    const [term] = parseSearchQuery('"weekly sync notes"').terms;
+    expect(term).toMatchObject({ operator: null, value: 'weekly sync notes', quoted: true });
+  });
+
+  it('should parse field operators with bare and quoted values', () => {
+    const terms = parseSearchQuery('from:sarah subject:"Q1 plan" to:team cc:lisa').terms;
+    expect(terms.map((term) => [term.operator, term.value, term.quoted])).toEqual([
+      ['from', 'sarah', false],
+      ['subject', 'Q1 plan', true],
+      ['to', 'team', false],
+      ['cc', 'lisa', false],
+    ]);
+  });
+
+  it('should treat operator names case-insensitively', () => {
+    expect(parseSearchQuery('FROM:sarah IS:Unread').terms).toMatchObject([
+      { operator: 'from', value: 'sarah' },
+      { operator: 'is', value: 'unread' },
+    ]);
+  });
+
+  it('should parse negated terms and operators', () => {
+    expect(parseSearchQuery('-newsletter -is:important -"out of office"').terms).toMatchObject([
+      { operator: null, value: 'newsletter', negated: true },
+      { operator: 'is', value: 'important', negated: true },
+      { operator: null, value: 'out of office', negated: true, quoted: true },
+    ]);
+  });
+
+  it('should treat a lone dash as text', () => {
+    expect(parseSearchQuery('a - b').terms.map((term) => term.value)).toEqual(['a', '-', 'b']);
+  });
+
+  it('should normalise before/after dates', () => {
+    expect(parseSearchQuery('after:2025/1/5 before:2025-02-28').terms).toMatchObject([
+      { operator: 'after', value: '2025-01-05' },
+      { operator: 'before', value: '2025-02-28' },
+    ]);
+  });
+
+  it('should keep unknown operators as free text', () => {
+    expect(parseSearchQuery('re:meeting').terms).toMatchObject([
+      { operator: null, value: 're:meeting' },
+    ]);
+  });
+
+  it('should reject unterminated quotes', () => {
+    const error = parseError('from:sarah "unfinished');
+    expect(error.code).toBe('UNTERMINATED_QUOTE');
+    expect(error.position).toBe(11);
+  });
+
+  it('should reject operators without a value', () => {
+    expect(parseError('subject: hello').code).toBe('MISSING_VALUE');
+    expect(parseError('from:').code).toBe('MISSING_VALUE');
+  });
+
+  it('should reject unknown is: and in: values', () => {
+    expect(parseError('is:snoozing').code).toBe('INVALID_VALUE');
+    expect(parseError('in:spam').code).toBe('INVALID_VALUE');
+  });
+
+  it('should reject invalid dates', () => {
+    expect(parseError('before:yesterday').code).toBe('INVALID_DATE');
+    expect(parseError('after:2025-02-30').code).toBe('INVALID_DATE');
+  });
+});
+
+describe('formatSearchTerm', () => {
+  it('should format terms back into query syntax', () => {
+    const terms = parseSearchQuery('-from:sarah subject:"Q1 plan" draft').terms;
+    expect(terms.map(formatSearchTerm)).toEqual(['-from:sarah', 'subject:"Q1 plan"', 'draft']);
+  });
+});
@@ -0,0 +1,211 @@
+/**
+ * Search Query Parser
+ * Parses Gmail-style search input ("from:alice is:unread -draft") into structured terms
+ * Pure module with no database access - shared by the API and the search bar
+ */
+
+/**
+ * Operators understood in `operator:value` terms
+ */
+export const SEARCH_OPERATORS = [
+  'from',
+  'to',
+  'cc',
+  'subject',
+  'is',
+  'in',
+  'before',
+  'after',
+] as const;
+
+export type SearchOperator = (typeof SEARCH_OPERATORS)[number];
+
+/** Accepted values for `is:` */
+export const IS_VALUES = ['unread', 'read', 'important', 'starred'] as const;
+
+/** Accepted values for `in:` - each selects a folder in place of the sidebar filter */
+export const IN_VALUES = [
+  'inbox',
+  'snoozed',
+  'sent',
+  'scheduled',
+  'drafts',
+  'all',
+  'archive',
+  'trash',
+] as const;
+
+/**
+ * A single parsed term
+ * `operator` is null for free text; `value` is normalised (dates become YYYY-MM-DD)
+ */
+export interface SearchTerm {
+  operator: SearchOperator | null;
+  value: string;
+  /** Value was written in double quotes and must match as an exact phrase */
+  quoted: boolean;
+  /** Term was prefixed with "-" */
+  negated: boolean;
+  /** Offset of the term in the original input */
+  position: number;
+}
+
+export interface ParsedSearchQuery {
+  terms: SearchTerm[];
+}
+
+export type SearchQueryErrorCode =
+  | 'UNTERMINATED_QUOTE'
+  | 'MISSING_VALUE'
+  | 'INVALID_VALUE'
+  | 'INVALID_DATE';
+
+/**
+ * Thrown for malformed search input
+ * Carries the offending position so clients can point at it
+ */
+export class SearchQueryError extends Error {
+  constructor(
+    message: string,
+    public readonly code: SearchQueryErrorCode,
+    public readonly position: number,
+  ) {
+    super(message);
+    this.name = 'SearchQueryError';
+  }
+
+  /** Serializable details for API error responses */
+  get details() {
+    return { code: this.code, position: this.position };
+  }
+}
+
+const OPERATOR_PATTERN = new RegExp(`^(${SEARCH_OPERATORS.join('|')}):`, 'i');
+const DATE_PATTERN = /^(\d{4})[-/](\d{1,2})[-/](\d{1,2})$/;
+
+/**
+ * Normalises YYYY-MM-DD or YYYY/MM/DD to YYYY-MM-DD, rejecting impossible dates
+ */
+function normalizeDate(value: string): string | null {
+  const match = DATE_PATTERN.exec(value);
+  if (!match) return null;
+
+  const [year, month, day] = match.slice(1).map(Number);
+  const date = new Date(year, month - 1, day);
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) {
+    return null;
+  }
+
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * Validates and normalises an operator value
+ */
+function normalizeValue(operator: SearchOperator, value: string, position: number): string {
+  switch (operator) {
+    case 'is':
+    case 'in': {
+      const allowed: readonly string[] = operator === 'is' ? IS_VALUES : IN_VALUES;
+      const normalized = value.toLowerCase();
+      if (!allowed.includes(normalized)) {
+        throw new SearchQueryError(
+          `Unknown value "${value}" for ${operator}: (expected ${allowed.join(', ')})`,
+          'INVALID_VALUE',
+          position,
+        );
+      }
+      return normalized;
+    }
+    case 'before':
+    case 'after': {
+      const date = normalizeDate(value);
+      if (!date) {
+        throw new SearchQueryError(
+          `Invalid date "${value}" for ${operator}: (expected YYYY-MM-DD)`,
+          'INVALID_DATE',
+          position,
+        );
+      }
+      return date;
+    }
+    default:
+      return value;
+  }
+}
+
+/**
+ * Parses search input into terms
+ * @throws SearchQueryError on unterminated quotes, missing or invalid operator values
+ */
+export function parseSearchQuery(input: string): ParsedSearchQuery {
+  const terms: SearchTerm[] = [];
+  let index = 0;
+
+  // Reads a quoted string starting at the opening quote, returning the text between quotes
+  const readQuoted = (): string => {
+    const start = index;
+    const end = input.indexOf('"', start + 1);
+    if (end === -1) {
+      throw new SearchQueryError('Unterminated quoted phrase', 'UNTERMINATED_QUOTE', start);
+    }
+    index = end + 1;
+    return input.slice(start + 1, end);
+  };
+
+  // Reads up to the next whitespace
+  const readBareword = (): string => {
+    const start = index;
+    while (index < input.length && !/\s/.test(input[index])) index++;
+    return input.slice(start, index);
+  };
+
+  while (index < input.length) {
+    if (/\s/.test(input[index])) {
+      index++;
+      continue;
+    }
+
+    const position = index;
+    const negated =
+      input[index] === '-' && index + 1 < input.length && !/\s/.test(input[index + 1]);
+    if (negated) index++;
+
+    const operatorMatch = OPERATOR_PATTERN.exec(input.slice(index));
+    if (operatorMatch) {
+      const operator = operatorMatch[1].toLowerCase() as SearchOperator;
+      index += operatorMatch[0].length;
+
+      const quoted = input[index] === '"';
+      const rawValue = quoted ? readQuoted() : readBareword();
+      if (!rawValue.trim()) {
+        throw new SearchQueryError(`Missing value for ${operator}:`, 'MISSING_VALUE', position);
+      }
+
+      terms.push({
+        operator,
+        value: normalizeValue(operator, rawValue.trim(), position),
+        quoted,
+        negated,
+        position,
+      });
+      continue;
+    }
+
+    const quoted = input[index] === '"';
+    const value = quoted ? readQuoted() : readBareword();
+    if (value.trim()) {
+      terms.push({ operator: null, value: value.trim(), quoted, negated, position });
+    }
+  }
+
+  return { terms };
+}
+
+/**
+ * Formats a term back into query syntax, e.g. for display as a chip label
+ */
+export function formatSearchTerm(term: SearchTerm): string {
+  const value = term.quoted ? `"${term.value}"` : term.value;
+  return `${term.negated ? '-' : ''}${term.operator ? `${term.operator}:` : ''}${value}`;
+}
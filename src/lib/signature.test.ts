@@ -0,0 +1,161 @@
+import {
+  findQuoteStart,
+  formatSignature,
+  hasSignature,
+  insertSignature,
+  removeSignature,
+  replaceSignature,
+  sanitizeSignatureHtml,
+  signatureFor,
+  splitSignature,
+} from './signature';
+
+const QUOTE = 'On Monday, 5 January 2026, Ann <ann@x.com> wrote:\n> Hello\n> there';
+
+describe('formatSignature', () => {
+  it('should put the delimiter line above the signature', () => {
+    expect(formatSignature('  Ana Lima\nSales  ')).toBe('-- \nAna Lima\nSales');
+  });
+
+  it('should not double a delimiter the signature already has', () => {
+    expect(formatSignature('-- \nThe Sales Team')).toBe('-- \nThe Sales Team');
+    expect(formatSignature('--\nThe Sales Team')).toBe('-- \nThe Sales Team');
+  });
+
+  it('should be empty for a blank signature', () => {
+    expect(formatSignature(' \n ')).toBe('');
+    expect(formatSignature(null)).toBe('');
+  });
+});
+
+describe('findQuoteStart', () => {
+  it('should find the attribution line or the first quoted line', () => {
+    expect(findQuoteStart(`Thanks!\n\n${QUOTE}`)).toBe(9);
+    expect(findQuoteStart('Inline\n> quoted')).toBe(7);
+  });
+
+  it('should be the end when nothing is quoted', () => {
+    expect(findQuoteStart('On Monday we wrote:\nnot a quote')).toBe(31);
+  });
+});
+
+describe('insertSignature', () => {
+  it('should leave room to write above the signature of an empty message', () => {
+    expect(insertSignature('', 'Ana')).toBe('\n\n-- \nAna');
+  });
+
+  it('should go below the message', () => {
+    expect(insertSignature('Hi Bo,\n\nSee you.\n\n', 'Ana')).toBe('Hi Bo,\n\nSee you.\n\n-- \nAna');
+  });
+
+  it('should go above the quoted text of a reply', () => {
+    expect(insertSignature(`\n\n${QUOTE}`, 'Ana')).toBe(`\n\n-- \nAna\n\n${QUOTE}`);
+    expect(insertSignature(`Sure.\n${QUOTE}`, 'Ana')).toBe(`Sure.\n\n-- \nAna\n\n${QUOTE}`);
+  });
+
+  it('should leave the message alone without a signature', () => {
+    expect(insertSignature('Hi', '')).toBe('Hi');
+  });
+});
+
+describe('hasSignature', () => {
+  it('should find a delimiter line above the quoted text only', () => {
+    expect(hasSignature('Hi\n-- \nAna')).toBe(true);
+    expect(hasSignature(`Hi\n\n${QUOTE}\n> -- \n> Ann`)).toBe(false);
+    expect(hasSignature('Prices -- from $10')).toBe(false);
+  });
+
+  it('should only take the exact delimiter line as one', () => {
+    expect(hasSignature('Hi\n--\nAna')).toBe(false);
+    expect(hasSignature('Hi\n--  \nAna')).toBe(false);
+    expect(hasSignature('Hi\n---\nAna')).toBe(false);
+  });
+});
+
+describe('removeSignature / replaceSignature', () => {
+  it('should take out a signature as inserted', () => {
+    expect(removeSignature('Hi\n\n-- \nAna', 'Ana')).toBe('Hi');
+    expect(removeSignature(`Sure.\n\n-- \nAna\n\n${QUOTE}`, 'Ana')).toBe(`Sure.\n\n${QUOTE}`);
+  });
+
+  it('should swap signatures when the sender changes', () => {
+    const signed = insertSignature(`\n\n${QUOTE}`, 'Ana');
+    expect(replaceSignature(signed, 'Ana', 'Sales team')).toBe(`\n\n-- \nSales team\n\n${QUOTE}`);
+    expect(replaceSignature('Hi\n\n-- \nAna', 'Ana', null)).toBe('Hi');
+  });
+
+  it('should keep a signature that was edited', () => {
+    expect(replaceSignature('Hi\n\n-- \nAna L.', 'Ana', 'Sales team')).toBe('Hi\n\n-- \nAna L.');
+  });
+
+  it('should add the new signature when there was none', () => {
+    expect(replaceSignature('Hi', null, 'Sales team')).toBe('Hi\n\n-- \nSales team');
+  });
+});
+
+describe('splitSignature', () => {
+  it('should split off the last signature above the quoted text', () => {
+    expect(splitSignature(`Sure.\n-- \nAnn\nAcme\n\n${QUOTE}`)).toEqual({
+      message: 'Sure.',
+      signature: '-- \nAnn\nAcme',
+      quoted: QUOTE,
+    });
+  });
+
+  it('should leave a message without a signature whole', () => {
+    expect(splitSignature(`Sure.\n${QUOTE}`)).toEqual({
+      message: `Sure.\n${QUOTE}`,
+      signature: null,
+      quoted: '',
+    });
+  });
+});
+
+describe('signatureFor', () => {
+  const mailboxes = [
+    { address: 'me@x.com', signature: 'Me' },
+    { address: 'sales@x.com', signature: 'Sales team' },
+    { address: 'help@x.com', signature: null },
+  ];
+
+  it("should use the sender's signature, or the primary mailbox's by default", () => {
+    expect(signatureFor(mailboxes, 'Sales@x.com')).toBe('Sales team');
+    expect(signatureFor(mailboxes, 'help@x.com')).toBe('Me');
+    expect(signatureFor(mailboxes)).toBe('Me');
+    expect(signatureFor([])).toBeNull();
+  });
+});
+
+describe('sanitizeSignatureHtml', () => {
+  it('should keep simple formatting, links and images', () => {
+    const html =
+      '<p style="color: #333"><b>Ana Lima</b><br/>Sales</p>' +
+      '<a href="https://example.com" target="_blank">example.com</a>' +
+      '<img src="https://example.com/logo.png" alt="Logo" width="80">';
+    expect(sanitizeSignatureHtml(html)).toBe(
+      '<p style="color: #333"><b>Ana Lima</b><br>Sales</p>' +
+        '<a href="https://example.com">example.com</a>' +
+        '<img src="https://example.com/logo.png" alt="Logo" width="80">',
+    );
+  });
+
+  it('should drop scripts, styles, event handlers and unsafe URLs', () => {
+    const html =
+      '<script>alert(1)</script><style>p { color: red }</style>' +
+      '<b onclick="alert(1)">Ana</b><a href="javascript:alert(1)">Site</a>' +
+      '<a href=" JaVaScRiPt:alert(1)">Site</a><img src="data:image/png;base64,AAAA">' +
+      '<span style="background: url(https://x.com/t.gif)">Sales</span><!-- note -->';
+    expect(sanitizeSignatureHtml(html)).toBe(
+      '<b>Ana</b><a>Site</a><a>Site</a><img><span>Sales</span>',
+    );
+  });
+
+  it('should drop unknown tags but keep their text, and escape stray brackets', () => {
+    expect(sanitizeSignatureHtml('<h1>Ana</h1> <marquee>1 < 2 > 0</marquee>')).toBe(
+      'Ana 1 &lt; 2 &gt; 0',
+    );
+    expect(sanitizeSignatureHtml('<a title="x" onmouseover=alert(1)>Ana</a>')).toBe(
+      '<a title="x">Ana</a>',
+    );
+  });
+});
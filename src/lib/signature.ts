@@ -0,0 +1,214 @@
+/**
+ * Signatures
+ * Places a sending identity's signature in plain-text mail, below the message and above any
+ * quoted text, after the standard `-- ` delimiter line (RFC 3676) so mail clients, including
+ * this one, can recognise and fold it. HTML signatures are sanitised here before being stored
+ * Pure module with no database access - shared by the composer, the send route and campaigns
+ */
+
+/** The line that starts a signature */
+export const SIGNATURE_DELIMITER = '-- ';
+
+// The delimiter line exactly - a bare "--" is as likely to be a divider in the message
+const DELIMITER_LINE = /^-- $/m;
+
+// The attribution above a quote, e.g. "On Monday, 5 January 2026, Ann <ann@x.com> wrote:"
+const ATTRIBUTION_LINE = /^On .+ wrote:[ \t]*$/;
+
+/**
+ * The signature's text without surrounding blank lines or a delimiter of its own
+ */
+function normalizeSignature(signature: string | null | undefined): string {
+  return (signature ?? '').replace(/^\s*--[ \t]*\r?\n/, '').trim();
+}
+
+/**
+ * The signature as it appears in a message: the delimiter line, then the signature
+ * @returns Empty when there is no signature
+ */
+export function formatSignature(signature: string | null | undefined): string {
+  const text = normalizeSignature(signature);
+  return text ? `${SIGNATURE_DELIMITER}\n${text}` : '';
+}
+
+/**
+ * Where the quoted text of a reply starts: its attribution line, or the first `>` line
+ * @returns The character offset, or the content's length when nothing is quoted
+ */
+export function findQuoteStart(content: string): number {
+  const lines = content.split('\n');
+  let offset = 0;
+  for (const [index, line] of lines.entries()) {
+    const isAttribution = ATTRIBUTION_LINE.test(line) && lines[index + 1]?.startsWith('>');
+    if (isAttribution || line.startsWith('>')) return offset;
+    offset += line.length + 1;
+  }
+  return content.length;
+}
+
+/**
+ * Whether the message, above any quoted text, already has a signature delimiter line
+ */
+export function hasSignature(content: string): boolean {
+  return DELIMITER_LINE.test(content.slice(0, findQuoteStart(content)));
+}
+
+/**
+ * Adds a signature below the message, above any quoted text
+ * Blank lines are left above an empty message's signature to write in
+ */
+export function insertSignature(content: string, signature: string | null | undefined): string {
+  const block = formatSignature(signature);
+  if (!block) return content;
+
+  const quoteStart = findQuoteStart(content);
+  const message = content.slice(0, quoteStart).trimEnd();
+  const quoted = content.slice(quoteStart);
+  return `${message}\n\n${block}${quoted ? `\n\n${quoted}` : ''}`;
+}
+
+/**
+ * Takes a signature, exactly as inserted, back out of a message
+ * @returns The content unchanged when the signature is not in it, such as after it was edited
+ */
+export function removeSignature(content: string, signature: string | null | undefined): string {
+  const block = formatSignature(signature);
+  const unquoted = content.slice(0, findQuoteStart(content));
+  // The block must end its line, so "Ana" is not found in an edited "Ana L."
+  let index = block ? unquoted.lastIndexOf(block) : -1;
+  while (index >= 0 && !['\n', undefined].includes(unquoted[index + block.length])) {
+    index = index > 0 ? unquoted.lastIndexOf(block, index - 1) : -1;
+  }
+  if (index < 0) return content;
+
+  const message = content.slice(0, index).trimEnd();
+  const rest = content.slice(index + block.length).replace(/^\s*\n/, '');
+  return rest ? `${message}\n\n${rest}` : message;
+}
+
+/**
+ * Swaps one signature for another, as when the sender changes
+ * A signature that was edited is left alone rather than adding a second one
+ */
+export function replaceSignature(
+  content: string,
+  previous: string | null | undefined,
+  next: string | null | undefined,
+): string {
+  const unsigned = removeSignature(content, previous);
+  return hasSignature(unsigned) ? unsigned : insertSignature(unsigned, next);
+}
+
+/**
+ * Splits a message around its signature, for folding it away when displayed
+ * The signature runs from the last delimiter line above any quoted text up to that text
+ * @returns signature is null when the message has none
+ */
+export function splitSignature(content: string): {
+  message: string;
+  signature: string | null;
+  quoted: string;
+} {
+  const quoteStart = findQuoteStart(content);
+  const unquoted = content.slice(0, quoteStart);
+  const quoted = content.slice(quoteStart);
+
+  const delimiters = [...unquoted.matchAll(new RegExp(DELIMITER_LINE.source, 'gm'))];
+  const last = delimiters.at(-1);
+  if (last?.index === undefined) return { message: content, signature: null, quoted: '' };
+
+  return {
+    message: unquoted.slice(0, last.index).trimEnd(),
+    signature: unquoted.slice(last.index).trim(),
+    quoted,
+  };
+}
+
+/**
+ * The signature for mail sent from an address: that mailbox's own, or else the default - the
+ * primary (first) mailbox's
+ * @param mailboxes - The user's mailboxes, primary first
+ */
+export function signatureFor(
+  mailboxes: { address: string; signature: string | null }[],
+  address?: string | null,
+): string | null {
+  const sender = address
+    ? mailboxes.find((mailbox) => mailbox.address === address.trim().toLowerCase())
+    : undefined;
+  return sender?.signature || mailboxes[0]?.signature || null;
+}
+
+// Tags kept in HTML signatures; any other tag is dropped but its text kept
+const ALLOWED_TAGS = new Set(
+  'a b br div em font hr i img p small span strong table tbody td th thead tr u'.split(' '),
+);
+
+// Tags dropped along with everything inside them
+const DROPPED_TAGS = new Set(
+  'embed head iframe math noscript object script select style svg template textarea'.split(' '),
+);
+
+const VOID_TAGS = new Set(['br', 'hr', 'img']);
+
+// Attributes kept per tag, besides style on any of them
+const ALLOWED_ATTRIBUTES: Record<string, string[]> = {
+  a: ['href', 'title'],
+  font: ['color'],
+  img: ['alt', 'height', 'src', 'width'],
+  td: ['colspan', 'rowspan'],
+  th: ['colspan', 'rowspan'],
+};
+
+const URL_ATTRIBUTES = new Set(['href', 'src']);
+const SAFE_URL = /^(https?:|mailto:)/i;
+// Styles that could load content or run script
+const UNSAFE_STYLE = /url\s*\(|expression|javascript:|@import|[<>\\&]/i;
+
+const HTML_TOKEN =
+  /<!--[\s\S]*?(?:-->|$)|<(\/?)([a-zA-Z][\w-]*)((?:"[^"]*"|'[^']*'|[^'">])*)>|<|[^<]+/g;
+const ATTRIBUTE = /([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g;
+
+/**
+ * The attributes of a tag that are allowed, with safe values only, e.g. ` href="https://x.com"`
+ */
+function sanitizeAttributes(tag: string, attributes: string): string {
+  return [...attributes.matchAll(ATTRIBUTE)]
+    .flatMap(([, rawName, doubleQuoted, singleQuoted, unquoted]) => {
+      const name = rawName.toLowerCase();
+      const value = doubleQuoted ?? singleQuoted ?? unquoted ?? '';
+      if (name !== 'style' && !ALLOWED_ATTRIBUTES[tag]?.includes(name)) return [];
+      if (URL_ATTRIBUTES.has(name) && !SAFE_URL.test(value.replace(/[\0-\x20]/g, ''))) return [];
+      if (name === 'style' && UNSAFE_STYLE.test(value)) return [];
+      return [` ${name}="${value.replace(/"/g, '&quot;').replace(/</g, '&lt;')}"`];
+    })
+    .join('');
+}
+
+/**
+ * Makes an HTML signature safe to store and send: keeps simple formatting, links, images and
+ * tables, drops scripts, styles sheets, event handlers and unsafe URLs, and escapes stray `<`
+ */
+export function sanitizeSignatureHtml(html: string): string {
+  let output = '';
+  const lower = html.toLowerCase();
+  const tokens = new RegExp(HTML_TOKEN.source, 'g');
+  for (let match = tokens.exec(html); match; match = tokens.exec(html)) {
+    const [token, closing, rawTag, attributes = ''] = match;
+    if (token.startsWith('<!--')) continue;
+    if (!rawTag) {
+      output += token === '<' ? '&lt;' : token.replace(/>/g, '&gt;');
+      continue;
+    }
+
+    const tag = rawTag.toLowerCase();
+    if (!closing && DROPPED_TAGS.has(tag)) {
+      const end = lower.indexOf(`</${tag}`, tokens.lastIndex);
+      tokens.lastIndex = end < 0 ? html.length : html.indexOf('>', end) + 1 || html.length;
+    } else if (ALLOWED_TAGS.has(tag)) {
+      if (!closing) output += `<${tag}${sanitizeAttributes(tag, attributes)}>`;
+      else if (!VOID_TAGS.has(tag)) output += `</${tag}>`;
+    }
+  }
+  return output.trim();
+}
@@ -0,0 +1,169 @@
+/**
+ * SMTP Server - A minimal receiving SMTP server
+ * Speaks enough ESMTP (EHLO, SIZE, 8BITMIME, MAIL, RCPT, DATA) to accept mail from other
+ * servers and clients; what happens to each message is up to the caller
+ */
+
+import net from 'net';
+
+export interface SmtpEnvelope {
+  from: string;
+  recipients: string[];
+}
+
+/**
+ * Thrown from a message handler to reject the message with a specific SMTP reply
+ */
+export class SmtpRejection extends Error {
+  constructor(
+    public readonly code: number,
+    message: string,
+  ) {
+    super(message);
+    this.name = 'SmtpRejection';
+  }
+}
+
+export interface SmtpServerOptions {
+  /** Name used in the greeting and EHLO reply */
+  hostname?: string;
+  /** Largest message accepted, in bytes (advertised with SIZE) */
+  maxSize?: number;
+  /** Called at MAIL FROM; return an SMTP reply (e.g. "451 Try later") to reject the sender */
+  onMailFrom?: (from: string) => string | undefined;
+  /** Called with each complete message (dot-stuffing undone); throw to reject it */
+  onMessage: (envelope: SmtpEnvelope, data: Buffer) => Promise<void>;
+}
+
+export interface RunningSmtpServer {
+  port: number;
+  close(): Promise<void>;
+}
+
+const DEFAULT_MAX_SIZE = 35 * 1024 * 1024;
+
+/**
+ * Starts an SMTP server on the given port (0 for any free port)
+ * One handler call per message; the reply is sent once it settles - 250 when it resolves,
+ * the rejection's code for an SmtpRejection, and 451 for anything else
+ */
+export async function startSmtpServer(
+  port: number,
+  host: string,
+  options: SmtpServerOptions,
+): Promise<RunningSmtpServer> {
+  const { hostname = 'localhost', maxSize = DEFAULT_MAX_SIZE, onMailFrom, onMessage } = options;
+  const sockets = new Set<net.Socket>();
+
+  const server = net.createServer((socket) => {
+    sockets.add(socket);
+    socket.on('close', () => sockets.delete(socket));
+    socket.on('error', () => socket.destroy());
+
+    let envelope: SmtpEnvelope | null = null;
+    let data: string[] | null = null;
+    let dataSize = 0;
+    let buffer = '';
+    // Lines are handled one at a time, so a reply never overtakes the handler before it
+    let queue = Promise.resolve();
+    const reply = (line: string) => {
+      if (!socket.destroyed) socket.write(`${line}\r\n`);
+    };
+
+    const receive = async (message: SmtpEnvelope, lines: string[]) => {
+      if (dataSize > maxSize) return reply('552 Message exceeds fixed maximum message size');
+      try {
+        await onMessage(message, Buffer.from(`${lines.join('\r\n')}\r\n`, 'latin1'));
+        reply('250 OK: message accepted');
+      } catch (error) {
+        if (error instanceof SmtpRejection) return reply(`${error.code} ${error.message}`);
+        console.error('[smtp] Failed to accept message:', error);
+        reply('451 Local error in processing');
+      }
+    };
+
+    const handleLine = async (line: string) => {
+      if (data) {
+        if (line === '.') {
+          const [message, lines] = [envelope!, data];
+          envelope = null;
+          data = null;
+          return receive(message, lines);
+        }
+        // Past the limit the rest is only counted, so oversized messages are not held in memory
+        dataSize += line.length + 2;
+        if (dataSize <= maxSize) data.push(line.startsWith('.') ? line.slice(1) : line);
+        return;
+      }
+
+      const [verb] = line.split(/[\s:]/, 1);
+      switch (verb.toUpperCase()) {
+        case 'EHLO':
+          envelope = null;
+          return reply(`250-${hostname}\r\n250-SIZE ${maxSize}\r\n250-AUTH PLAIN\r\n250 8BITMIME`);
+        case 'HELO':
+          envelope = null;
+          return reply(`250 ${hostname}`);
+        case 'AUTH':
+          return reply('235 Authentication successful');
+        case 'MAIL': {
+          const from = /<(.*?)>/.exec(line)?.[1] ?? '';
+          const declaredSize = Number(/\bSIZE=(\d+)/i.exec(line)?.[1] ?? 0);
+          if (declaredSize > maxSize) {
+            return reply('552 Message exceeds fixed maximum message size');
+          }
+          const rejection = onMailFrom?.(from);
+          if (rejection) return reply(rejection);
+          envelope = { from, recipients: [] };
+          return reply('250 OK');
+        }
+        case 'RCPT': {
+          if (!envelope) return reply('503 Need MAIL command');
+          const recipient = /<(.*?)>/.exec(line)?.[1];
+          if (!recipient) return reply('501 Syntax error in recipient address');
+          envelope.recipients.push(recipient);
+          return reply('250 OK');
+        }
+        case 'DATA':
+          if (!envelope?.recipients.length) return reply('503 Need RCPT command');
+          data = [];
+          dataSize = 0;
+          return reply('354 End data with <CR><LF>.<CR><LF>');
+        case 'RSET':
+          envelope = null;
+          return reply('250 OK');
+        case 'NOOP':
+          return reply('250 OK');
+        case 'QUIT':
+          reply(`221 ${hostname} closing connection`);
+          return void socket.end();
+        default:
+          return reply('502 Command not implemented');
+      }
+    };
+
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString('latin1');
+      let newline: number;
+      while ((newline = buffer.indexOf('\r\n')) !== -1) {
+        const line = buffer.slice(0, newline);
+        buffer = buffer.slice(newline + 2);
+        queue = queue.then(() => handleLine(line));
+      }
+    });
+    reply(`220 ${hostname} ESMTP ready`);
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, host, () => resolve());
+  });
+
+  return {
+    port: (server.address() as net.AddressInfo).port,
+    close() {
+      sockets.forEach((socket) => socket.destroy());
+      return new Promise((resolve) => server.close(() => resolve()));
+    },
+  };
+}
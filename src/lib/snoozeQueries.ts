@@ -0,0 +1,53 @@
+/**
+ * Snooze Queries
+ * Returns snoozed emails to the inbox once their snooze time has passed
+ */
+
+import { db } from '@/lib/database';
+import { emails } from '@/lib/schema';
+import { recalculateStatsFor } from '@/lib/statsQueries';
+import { inArray, lte } from 'drizzle-orm';
+
+/**
+ * Clears every snooze that has passed and marks the latest woken email of each thread unread,
+ * so a snoozed thread comes back as one unread conversation
+ * Woken emails are also unarchived - a snooze always ends in the inbox. Covers every mailbox;
+ * stats are recalculated for each user with a woken email
+ * @returns The emails woken, with their owners
+ */
+export async function wakeSnoozedEmails(
+  now: Date = new Date(),
+): Promise<{ id: number; ownerId: number }[]> {
+  const woken = db.transaction((tx) => {
+    const due = tx
+      .select({
+        id: emails.id,
+        ownerId: emails.ownerId,
+        threadId: emails.threadId,
+        createdAt: emails.createdAt,
+      })
+      .from(emails)
+      .where(lte(emails.snoozedUntil, now))
+      .all();
+    if (!due.length) return [];
+
+    const latestByThread = new Map<string, (typeof due)[number]>();
+    for (const email of due) {
+      const latest = latestByThread.get(email.threadId);
+      if (!latest || email.createdAt > latest.createdAt) latestByThread.set(email.threadId, email);
+    }
+
+    const dueIds = due.map((email) => email.id);
+    const latestIds = [...latestByThread.values()].map((email) => email.id);
+
+    tx.update(emails)
+      .set({ snoozedUntil: null, isArchived: false, updatedAt: now })
+      .where(inArray(emails.id, dueIds))
+      .run();
+    tx.update(emails).set({ isRead: false }).where(inArray(emails.id, latestIds)).run();
+    return due;
+  });
+
+  await recalculateStatsFor(woken.map((email) => email.ownerId));
+  return woken.map(({ id, ownerId }) => ({ id, ownerId }));
+}
@@ -4,62 +4,103 @@
  */
 
 import { db } from '@/lib/database';
-import { emails, emailStats, EmailDirection } from '@/lib/schema';
+import { emails, emailStats, EmailDirection, EmailStatus } from '@/lib/schema';
+import { getInboxCondition } from '@/lib/emailQueries';
 import { eq, and, sql } from 'drizzle-orm';
 import { EmailStats } from '@/types';
 
-const STATS_ROW_ID = 1;
-
 /**
- * Recalculates all stats from the emails table
+ * Recalculates a user's stats from the emails table
  * This is an expensive operation - use sparingly (e.g., on init or recovery)
  */
-export async function recalculateStats(): Promise<EmailStats> {
-  // Get individual email count for inbox (incoming emails, not deleted)
+export async function recalculateStats(ownerId: number): Promise<EmailStats> {
+  const mine = eq(emails.ownerId, ownerId);
+
+  // Get individual email count for inbox (as the inbox lists: not deleted, archived or snoozed)
   const inboxResult = await db
     .select({
       count: sql<number>`COUNT(*)`.as('count'),
     })
     .from(emails)
-    .where(and(eq(emails.direction, EmailDirection.INCOMING), eq(emails.isDeleted, false)));
+    .where(and(mine, getInboxCondition()));
 
-  // Get unread individual email count (not deleted)
+  // Get unread individual email count in the inbox
   const unreadResult = await db
+    .select({
+      count: sql<number>`COUNT(*)`.as('count'),
+    })
+    .from(emails)
+    .where(and(mine, getInboxCondition(), eq(emails.isRead, false)));
+
+  // Get important email count (individual emails, not threads, not deleted, not pending)
+  const importantResult = await db
     .select({
       count: sql<number>`COUNT(*)`.as('count'),
     })
     .from(emails)
     .where(
       and(
-        eq(emails.direction, EmailDirection.INCOMING),
-        eq(emails.isRead, false),
+        mine,
+        eq(emails.isImportant, true),
         eq(emails.isDeleted, false),
+        eq(emails.isDraft, false),
+        eq(emails.status, EmailStatus.SENT),
       ),
     );
 
-  // Get important email count (individual emails, not threads, not deleted)
-  const importantResult = await db
+  // Get deleted email count
+  const deletedResult = await db
     .select({
       count: sql<number>`COUNT(*)`.as('count'),
     })
     .from(emails)
-    .where(and(eq(emails.isImportant, true), eq(emails.isDeleted, false)));
+    .where(and(mine, eq(emails.isDeleted, true)));
 
-  // Get deleted email count
-  const deletedResult = await db
+  // Get sent individual email count (outgoing emails, not deleted, not drafts, not scheduled)
+  const sentResult = await db
     .select({
       count: sql<number>`COUNT(*)`.as('count'),
     })
     .from(emails)
-    .where(eq(emails.isDeleted, true));
+    .where(
+      and(
+        mine,
+        eq(emails.direction, EmailDirection.OUTGOING),
+        eq(emails.isDeleted, false),
+        eq(emails.isDraft, false),
+        eq(emails.status, EmailStatus.SENT),
+      ),
+    );
 
-  // Get sent individual email count (outgoing emails, not deleted)
-  const sentResult = await db
+  // Get scheduled email count (waiting for the job runner, not deleted)
+  const scheduledResult = await db
     .select({
       count: sql<number>`COUNT(*)`.as('count'),
     })
     .from(emails)
-    .where(and(eq(emails.direction, EmailDirection.OUTGOING), eq(emails.isDeleted, false)));
+    .where(
+      and(
+        mine,
+        eq(emails.status, EmailStatus.SCHEDULED),
+        eq(emails.isDeleted, false),
+        eq(emails.isDraft, false),
+      ),
+    );
+
+  // Get archived email count (not deleted, not drafts)
+  const archivedResult = await db
+    .select({
+      count: sql<number>`COUNT(*)`.as('count'),
+    })
+    .from(emails)
+    .where(
+      and(
+        mine,
+        eq(emails.isArchived, true),
+        eq(emails.isDeleted, false),
+        eq(emails.isDraft, false),
+      ),
+    );
 
   const stats: EmailStats = {
     total: Number(inboxResult[0]?.count ?? 0),
@@ -67,26 +108,34 @@ export async function recalculateStats(): Promise<EmailStats> {
     important: Number(importantResult[0]?.count ?? 0),
     deleted: Number(deletedResult[0]?.count ?? 0),
     sent: Number(sentResult[0]?.count ?? 0),
+    scheduled: Number(scheduledResult[0]?.count ?? 0),
+    archived: Number(archivedResult[0]?.count ?? 0),
   };
 
   // Upsert stats row
   await db
     .insert(emailStats)
     .values({
-      id: STATS_ROW_ID,
+      ownerId,
       inboxEmailCount: stats.total,
       unreadEmailCount: stats.unread,
       importantEmailCount: stats.important,
       sentEmailCount: stats.sent,
+      scheduledEmailCount: stats.scheduled,
+      archivedEmailCount: stats.archived,
+      deletedEmailCount: stats.deleted,
       updatedAt: new Date(),
     })
     .onConflictDoUpdate({
-      target: emailStats.id,
+      target: emailStats.ownerId,
       set: {
         inboxEmailCount: stats.total,
         unreadEmailCount: stats.unread,
         importantEmailCount: stats.important,
         sentEmailCount: stats.sent,
+        scheduledEmailCount: stats.scheduled,
+        archivedEmailCount: stats.archived,
+        deletedEmailCount: stats.deleted,
         updatedAt: new Date(),
       },
     });
@@ -95,15 +144,15 @@ export async function recalculateStats(): Promise<EmailStats> {
 }
 
 /**
- * Gets cached stats from the lookup table
- * Falls back to recalculating if table is empty
+ * Gets a user's cached stats from the lookup table
+ * Falls back to recalculating if they have no row yet
  */
-export async function fetchStats(): Promise<EmailStats> {
-  const result = await db.select().from(emailStats).where(eq(emailStats.id, STATS_ROW_ID));
+export async function fetchStats(ownerId: number): Promise<EmailStats> {
+  const result = await db.select().from(emailStats).where(eq(emailStats.ownerId, ownerId));
 
   if (result.length === 0) {
-    // Stats table is empty - recalculate
-    return recalculateStats();
+    // No stats row yet - recalculate
+    return recalculateStats(ownerId);
   }
 
   const row = result[0];
@@ -111,15 +160,27 @@ export async function fetchStats(): Promise<EmailStats> {
     total: row.inboxEmailCount,
     unread: row.unreadEmailCount,
     important: row.importantEmailCount,
-    deleted: 0, // Will be recalculated on next mutation
+    deleted: row.deletedEmailCount,
     sent: row.sentEmailCount,
+    scheduled: row.scheduledEmailCount,
+    archived: row.archivedEmailCount,
   };
 }
 
 /**
- * Invalidates stats cache by triggering a full recalculation
+ * Invalidates a user's stats cache by triggering a full recalculation
  * Call this after any email mutation (create, delete, update)
  */
-export async function invalidateStats(): Promise<void> {
-  await recalculateStats();
+export async function invalidateStats(ownerId: number): Promise<void> {
+  await recalculateStats(ownerId);
+}
+
+/**
+ * Recalculates stats for each of the given users, for changes spanning several mailboxes
+ * @returns The new stats by user ID
+ */
+export async function recalculateStatsFor(ownerIds: number[]): Promise<Map<number, EmailStats>> {
+  const stats = new Map<number, EmailStats>();
+  for (const ownerId of new Set(ownerIds)) stats.set(ownerId, await recalculateStats(ownerId));
+  return stats;
 }
@@ -0,0 +1,108 @@
+/**
+ * Template Queries
+ * Data access layer for reusable email templates
+ * Templates belong to a user; each function is scoped to their owner
+ */
+
+import { db } from '@/lib/database';
+import { templates, Template } from '@/lib/schema';
+import { and, eq, ne, sql } from 'drizzle-orm';
+import { TemplateRequest } from '@/types';
+
+/**
+ * Fetches a user's templates grouped by category, alphabetically, uncategorised ones last
+ */
+export async function fetchTemplates(ownerId: number): Promise<Template[]> {
+  return db
+    .select()
+    .from(templates)
+    .where(eq(templates.ownerId, ownerId))
+    .orderBy(
+      sql`${templates.category} IS NULL`,
+      sql`lower(${templates.category})`,
+      sql`lower(${templates.name})`,
+    );
+}
+
+export async function fetchTemplate(ownerId: number, id: number): Promise<Template | undefined> {
+  const [template] = await db
+    .select()
+    .from(templates)
+    .where(and(eq(templates.ownerId, ownerId), eq(templates.id, id)));
+  return template;
+}
+
+/**
+ * Finds one of a user's templates by name, ignoring case
+ * @param excludeId - Skip this template (used when renaming)
+ */
+export async function findTemplateByName(
+  ownerId: number,
+  name: string,
+  excludeId?: number,
+): Promise<Template | undefined> {
+  const [template] = await db
+    .select()
+    .from(templates)
+    .where(
+      and(
+        eq(templates.ownerId, ownerId),
+        sql`lower(${templates.name}) = lower(${name})`,
+        excludeId !== undefined ? ne(templates.id, excludeId) : undefined,
+      ),
+    );
+  return template;
+}
+
+export async function createTemplate(ownerId: number, data: TemplateRequest): Promise<Template> {
+  const [template] = await db
+    .insert(templates)
+    .values({ ownerId, ...data })
+    .returning();
+  return template;
+}
+
+/**
+ * Updates any of a template's fields
+ * @returns The updated template, or undefined if the user has no template with this ID
+ */
+export async function updateTemplate(
+  ownerId: number,
+  id: number,
+  data: Partial<TemplateRequest>,
+): Promise<Template | undefined> {
+  const [template] = await db
+    .update(templates)
+    .set({ ...data, updatedAt: new Date() })
+    .where(and(eq(templates.ownerId, ownerId), eq(templates.id, id)))
+    .returning();
+  return template;
+}
+
+/**
+ * @returns Whether the user had a template with this ID
+ */
+export async function deleteTemplate(ownerId: number, id: number): Promise<boolean> {
+  const deleted = await db
+    .delete(templates)
+    .where(and(eq(templates.ownerId, ownerId), eq(templates.id, id)))
+    .returning();
+  return deleted.length > 0;
+}
+
+/**
+ * Counts one use of a template, when it is inserted into a message
+ * @returns The updated template, or undefined if the user has no template with this ID
+ */
+export async function recordTemplateUse(
+  ownerId: number,
+  id: number,
+  now: Date = new Date(),
+): Promise<Template | undefined> {
+  const [template] = await db
+    .update(templates)
+    .set({ useCount: sql`${templates.useCount} + 1`, lastUsedAt: now })
+    .where(and(eq(templates.ownerId, ownerId), eq(templates.id, id)))
+    .returning();
+  return template;
+}
@@ -0,0 +1,228 @@
+/**
+ * Threading Queries
+ * Assigns emails to threads from their RFC 5322 headers (Message-ID, In-Reply-To, References),
+ * falling back to the normalised subject when none of the referenced messages are stored.
+ * Threads never span mailboxes - only the owner's own emails are matched
+ */
+
+import { db } from '@/lib/database';
+import { emails, Email } from '@/lib/schema';
+import {
+  buildReferences,
+  generateThreadId,
+  hasReplyPrefix,
+  normalizeSubject,
+  parseMessageIds,
+} from '@/lib/utils';
+import { and, desc, eq, gte, inArray, isNotNull, lt, lte, ne, or, sql } from 'drizzle-orm';
+
+// How far back the subject fallback looks for the original message
+const SUBJECT_FALLBACK_WINDOW_MS = 30 * 24 * 60 * 60 * 1000;
+const SUBJECT_FALLBACK_CANDIDATES = 50;
+
+export type ThreadingHeaders = Pick<Email, 'ownerId' | 'subject' | 'from' | 'to'> &
+  Partial<Pick<Email, 'inReplyTo' | 'references' | 'cc' | 'createdAt'>>;
+
+interface FindThreadOptions {
+  /** Email being (re)threaded, never matched against itself */
+  excludeId?: number;
+}
+
+/**
+ * Lowercased addresses found in address header values
+ */
+function addressesOf(...values: (string | null | undefined)[]): Set<string> {
+  return new Set(
+    values.flatMap((value) => value?.toLowerCase().match(/[^\s<>,;"']+@[^\s<>,;"']+/g) ?? []),
+  );
+}
+
+/**
+ * Finds the thread an email belongs to
+ * The closest stored ancestor wins: In-Reply-To first, then References from newest to oldest.
+ * Without one, a "Re:"/"Fwd:" subject joins the latest earlier email with the same normalised
+ * subject that shares a participant, within the last 30 days.
+ * @returns The thread ID, or null when the email starts a new thread
+ */
+export async function findThreadId(
+  headers: ThreadingHeaders,
+  { excludeId }: FindThreadOptions = {},
+): Promise<string | null> {
+  const mine = eq(emails.ownerId, headers.ownerId);
+  const notSelf = excludeId !== undefined ? ne(emails.id, excludeId) : undefined;
+
+  const ancestorIds = [
+    ...new Set([
+      ...parseMessageIds(headers.inReplyTo),
+      ...parseMessageIds(headers.references).reverse(),
+    ]),
+  ];
+  if (ancestorIds.length) {
+    const ancestors = await db
+      .select({ messageId: emails.messageId, threadId: emails.threadId })
+      .from(emails)
+      .where(and(mine, inArray(emails.messageId, ancestorIds), notSelf));
+    const threadByMessageId = new Map(ancestors.map((row) => [row.messageId, row.threadId]));
+    const closest = ancestorIds.find((id) => threadByMessageId.has(id));
+    if (closest) return threadByMessageId.get(closest)!;
+  }
+
+  if (!hasReplyPrefix(headers.subject)) return null;
+  const subjectKey = normalizeSubject(headers.subject);
+  if (!subjectKey) return null;
+
+  const before = headers.createdAt ?? new Date();
+  const candidates = await db
+    .select({
+      threadId: emails.threadId,
+      subject: emails.subject,
+      from: emails.from,
+      to: emails.to,
+      cc: emails.cc,
+    })
+    .from(emails)
+    .where(
+      and(
+        mine,
+        eq(emails.isDraft, false),
+        notSelf,
+        lte(emails.createdAt, before),
+        gte(emails.createdAt, new Date(before.getTime() - SUBJECT_FALLBACK_WINDOW_MS)),
+        sql`instr(lower(${emails.subject}), ${subjectKey}) > 0`,
+      ),
+    )
+    .orderBy(desc(emails.createdAt), desc(emails.id))
+    .limit(SUBJECT_FALLBACK_CANDIDATES);
+
+  const participants = addressesOf(headers.from, headers.to, headers.cc);
+  const match = candidates.find(
+    (candidate) =>
+      normalizeSubject(candidate.subject) === subjectKey &&
+      [...addressesOf(candidate.from, candidate.to, candidate.cc)].some((address) =>
+        participants.has(address),
+      ),
+  );
+  return match?.threadId ?? null;
+}
+
+/**
+ * Thread for a new email: its ancestors' thread, or a freshly generated one
+ */
+export async function assignThreadId(headers: ThreadingHeaders): Promise<string> {
+  return (await findThreadId(headers)) ?? generateThreadId();
+}
+
+/**
+ * In-Reply-To and References for a reply to one of a user's threads, taken from its latest
+ * sent email. Both are null when no email in the thread has a Message-ID
+ */
+export async function getReplyHeaders(
+  ownerId: number,
+  threadId: string,
+): Promise<{ inReplyTo: string | null; references: string | null }> {
+  const [parent] = await db
+    .select({ messageId: emails.messageId, references: emails.references })
+    .from(emails)
+    .where(
+      and(
+        eq(emails.ownerId, ownerId),
+        eq(emails.threadId, threadId),
+        eq(emails.isDraft, false),
+        isNotNull(emails.messageId),
+      ),
+    )
+    .orderBy(desc(emails.createdAt), desc(emails.id))
+    .limit(1);
+
+  return parent
+    ? { inReplyTo: parent.messageId, references: buildReferences(parent) }
+    : { inReplyTo: null, references: null };
+}
+
+/**
+ * Finds the email in a user's mailbox with the given Message-ID
+ */
+export async function findEmailByMessageId(
+  ownerId: number,
+  messageId: string,
+): Promise<Email | undefined> {
+  const [email] = await db
+    .select()
+    .from(emails)
+    .where(and(eq(emails.ownerId, ownerId), eq(emails.messageId, messageId)));
+  return email;
+}
+
+/**
+ * Whether an email is the earliest in its current thread
+ * Timestamps have one-second precision, so ties go to the lower ID
+ */
+async function startsThread(email: Email): Promise<boolean> {
+  const [earlier] = await db
+    .select({ id: emails.id })
+    .from(emails)
+    .where(
+      and(
+        eq(emails.ownerId, email.ownerId),
+        eq(emails.threadId, email.threadId),
+        or(
+          lt(emails.createdAt, email.createdAt),
+          and(eq(emails.createdAt, email.createdAt), lt(emails.id, email.id)),
+        ),
+      ),
+    )
+    .limit(1);
+  return !earlier;
+}
+
+/**
+ * Re-derives a user's email's thread from its headers and moves it there, along with every reply
+ * that references it (directly or further down), so a mis-threaded branch is split off or
+ * joined to its real conversation in one go
+ * An email with no stored ancestor and no subject match keeps its thread if it is the earliest
+ * email there, and otherwise gets a thread of its own.
+ * @returns The emails that were moved (unchanged ones are left out) and the email's thread,
+ * or undefined if the email does not exist
+ */
+export async function rethreadEmail(
+  ownerId: number,
+  id: number,
+): Promise<{ threadId: string; emails: Email[] } | undefined> {
+  const [email] = await db
+    .select()
+    .from(emails)
+    .where(and(eq(emails.ownerId, ownerId), eq(emails.id, id)));
+  if (!email) return undefined;
+
+  const threadId =
+    (await findThreadId(email, { excludeId: email.id })) ??
+    ((await startsThread(email)) ? email.threadId : generateThreadId());
+
+  // Collect the replies below this email, following each level's Message-IDs
+  const branchIds = new Set([email.id]);
+  let frontier = email.messageId ? [email.messageId] : [];
+  while (frontier.length) {
+    const replies = await db
+      .select({ id: emails.id, messageId: emails.messageId })
+      .from(emails)
+      .where(
+        and(
+          eq(emails.ownerId, ownerId),
+          or(
+            inArray(emails.inReplyTo, frontier),
+            ...frontier.map((messageId) => sql`instr(${emails.references}, ${messageId}) > 0`),
+          ),
+        ),
+      );
+    const newReplies = replies.filter((reply) => !branchIds.has(reply.id));
+    newReplies.forEach((reply) => branchIds.add(reply.id));
+    frontier = newReplies.flatMap((reply) => (reply.messageId ? [reply.messageId] : []));
+  }
+
+  const moved = await db
+    .update(emails)
+    .set({ threadId, updatedAt: new Date() })
+    .where(and(inArray(emails.id, [...branchIds]), ne(emails.threadId, threadId)))
+    .returning();
+  return { threadId, emails: moved };
+}
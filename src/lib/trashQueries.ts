@@ -0,0 +1,94 @@
+/**
+ * Trash Queries
+ * Permanently deletes emails from the trash - one at a time, by emptying it, or once they have
+ * been there longer than the retention period
+ */
+
+import { db } from '@/lib/database';
+import { attachments, emails } from '@/lib/schema';
+import { deleteBlob } from '@/lib/attachmentStorage';
+import { recalculateStatsFor } from '@/lib/statsQueries';
+import { and, eq, inArray, lte, SQL } from 'drizzle-orm';
+import { DEFAULT_TRASH_RETENTION_DAYS } from '@/types';
+
+export const TRASH_RETENTION_DAYS =
+  Number(process.env.TRASH_RETENTION_DAYS) || DEFAULT_TRASH_RETENTION_DAYS;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Hard-deletes trashed emails, optionally narrowed by a condition
+ * Only rows already in the trash are touched. Attachment and label rows go with them through
+ * the foreign key cascade, and blobs that no other attachment references are removed from
+ * storage in the same write transaction, so an attachment stored meanwhile with the same
+ * content cannot lose its blob. Callers recalculate stats.
+ * @returns The IDs of the emails deleted
+ */
+export async function purgeEmails(condition?: SQL): Promise<number[]> {
+  return db.transaction(
+    (tx) => {
+      const ids = tx
+        .select({ id: emails.id })
+        .from(emails)
+        .where(and(eq(emails.isDeleted, true), condition))
+        .all()
+        .map((row) => row.id);
+      if (!ids.length) return [];
+
+      const hashes = tx
+        .selectDistinct({ contentHash: attachments.contentHash })
+        .from(attachments)
+        .where(inArray(attachments.emailId, ids))
+        .all()
+        .map((row) => row.contentHash);
+
+      tx.delete(emails).where(inArray(emails.id, ids)).run();
+
+      // Identical files are stored once, so a blob may still back another email's attachment
+      const stillUsed = new Set(
+        hashes.length
+          ? tx
+              .select({ contentHash: attachments.contentHash })
+              .from(attachments)
+              .where(inArray(attachments.contentHash, hashes))
+              .all()
+              .map((row) => row.contentHash)
+          : [],
+      );
+      hashes.filter((hash) => !stillUsed.has(hash)).forEach(deleteBlob);
+      return ids;
+    },
+    { behavior: 'immediate' },
+  );
+}
+
+/**
+ * Permanently deletes everything in a user's trash
+ * @returns The IDs of the emails deleted
+ */
+export async function emptyTrash(ownerId: number): Promise<number[]> {
+  return purgeEmails(eq(emails.ownerId, ownerId));
+}
+
+/**
+ * Permanently deletes emails that were moved to the trash (updatedAt) more than
+ * retentionDays ago, across every mailbox, then recalculates stats for their owners
+ * @returns The emails deleted, with their owners
+ */
+export async function purgeExpiredTrash(
+  now: Date = new Date(),
+  retentionDays: number = TRASH_RETENTION_DAYS,
+): Promise<{ id: number; ownerId: number }[]> {
+  const cutoff = new Date(now.getTime() - retentionDays * DAY_MS);
+  const expired = lte(emails.updatedAt, cutoff);
+  const candidates = await db
+    .select({ id: emails.id, ownerId: emails.ownerId })
+    .from(emails)
+    .where(and(eq(emails.isDeleted, true), expired));
+  if (!candidates.length) return [];
+
+  const purged = new Set(await purgeEmails(expired));
+  const deleted = candidates.filter(({ id }) => purged.has(id));
+  await recalculateStatsFor(deleted.map((email) => email.ownerId));
+  return deleted;
+}
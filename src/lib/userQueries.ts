@@ -0,0 +1,194 @@
+/**
+ * User Queries
+ * Data access layer for users, their passwords and their sign-in sessions
+ * Passwords are stored as salted scrypt hashes; sessions are random tokens of which only the
+ * SHA-256 is stored, so a leaked database cannot be used to sign in
+ */
+
+import { createHash, randomBytes, scrypt, ScryptOptions, timingSafeEqual } from 'crypto';
+import { db } from '@/lib/database';
+import { mailboxes, sessions, users, User } from '@/lib/schema';
+import { findMailboxesByAddresses } from '@/lib/mailboxQueries';
+import { and, eq, gt, inArray, lte } from 'drizzle-orm';
+import { MIN_PASSWORD_LENGTH, SESSION_MAX_AGE_DAYS, SessionUser } from '@/types';
+
+const SCRYPT_KEY_LENGTH = 64;
+const SCRYPT_OPTIONS = { N: 16384, r: 8, p: 1 };
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Raised for a user that cannot be created, such as one whose email is already taken
+ */
+export class UserError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UserError';
+  }
+}
+
+export interface NewUser {
+  email: string;
+  password: string;
+  name?: string | null;
+}
+
+const deriveKey = (password: string, salt: Buffer, options: ScryptOptions) =>
+  new Promise<Buffer>((resolve, reject) =>
+    scrypt(password, salt, SCRYPT_KEY_LENGTH, options, (error, key) =>
+      error ? reject(error) : resolve(key),
+    ),
+  );
+
+/**
+ * Hashes a password as `scrypt$N$r$p$<salt>$<key>` (base64), so the cost can be raised
+ * later without invalidating existing hashes
+ */
+async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const key = await deriveKey(password, salt, SCRYPT_OPTIONS);
+  const { N, r, p } = SCRYPT_OPTIONS;
+  return ['scrypt', N, r, p, salt.toString('base64'), key.toString('base64')].join('$');
+}
+
+async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, N, r, p, salt, key] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !key) return false;
+
+  const expected = Buffer.from(key, 'base64');
+  const actual = await deriveKey(password, Buffer.from(salt, 'base64'), {
+    N: Number(N),
+    r: Number(r),
+    p: Number(p),
+  });
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+// Checked against when the email is unknown, so both failures take as long
+const unknownUserHash = hashPassword(randomBytes(16).toString('hex'));
+
+const hashToken = (token: string) => createHash('sha256').update(token).digest('hex');
+
+const toSessionUser = ({ id, email, name }: User): SessionUser => ({ id, email, name });
+
+/**
+ * Creates a user along with their primary mailbox
+ * @throws UserError when the email is invalid or taken, or the password is too short
+ */
+export async function createUser({ email, password, name }: NewUser): Promise<SessionUser> {
+  const address = email.trim().toLowerCase();
+  if (!/^[^\s@<>]+@[^\s@<>]+$/.test(address)) throw new UserError('Invalid email address');
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    throw new UserError(`Passwords must be at least ${MIN_PASSWORD_LENGTH} characters`);
+  }
+  if ((await findUsersByAddresses([address])).length) {
+    throw new UserError(`A user with the email ${address} already exists`);
+  }
+  if ((await findMailboxesByAddresses([address])).length) {
+    throw new UserError(`The address ${address} is already in use`);
+  }
+
+  const displayName = name?.trim() || null;
+  const passwordHash = await hashPassword(password);
+  const user = db.transaction((tx) => {
+    const created = tx
+      .insert(users)
+      .values({ email: address, name: displayName, passwordHash })
+      .returning()
+      .get();
+    tx.insert(mailboxes).values({ ownerId: created.id, address, displayName }).run();
+    return created;
+  });
+  return toSessionUser(user);
+}
+
+/**
+ * Sets a user's password, such as for the account that mail from before accounts was given to
+ * @throws UserError when there is no such user or the password is too short
+ */
+export async function setPassword(email: string, password: string): Promise<SessionUser> {
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    throw new UserError(`Passwords must be at least ${MIN_PASSWORD_LENGTH} characters`);
+  }
+  const [user] = await db
+    .update(users)
+    .set({ passwordHash: await hashPassword(password), updatedAt: new Date() })
+    .where(eq(users.email, email.trim().toLowerCase()))
+    .returning();
+  if (!user) throw new UserError(`No user with the email ${email}`);
+  return toSessionUser(user);
+}
+
+/**
+ * Checks an email and password
+ * @returns The user, or undefined when either is wrong
+ */
+export async function authenticate(
+  email: string,
+  password: string,
+): Promise<SessionUser | undefined> {
+  const [user] = await db.select().from(users).where(eq(users.email, email.trim().toLowerCase()));
+
+  if (!user) {
+    await verifyPassword(password, await unknownUserHash);
+    return undefined;
+  }
+  return (await verifyPassword(password, user.passwordHash)) ? toSessionUser(user) : undefined;
+}
+
+/**
+ * Users whose email is one of the given addresses (compared case-insensitively)
+ */
+export async function findUsersByAddresses(addresses: string[]): Promise<SessionUser[]> {
+  if (!addresses.length) return [];
+  const rows = await db
+    .select()
+    .from(users)
+    .where(inArray(users.email, [...new Set(addresses.map((address) => address.toLowerCase()))]));
+  return rows.map(toSessionUser);
+}
+
+/**
+ * Starts a session for a user
+ * @returns The token for the session cookie and when it expires
+ */
+export async function createSession(
+  userId: number,
+  now: Date = new Date(),
+): Promise<{ token: string; expiresAt: Date }> {
+  const token = randomBytes(32).toString('base64url');
+  const expiresAt = new Date(now.getTime() + SESSION_MAX_AGE_DAYS * DAY_MS);
+  await db.insert(sessions).values({ id: hashToken(token), userId, expiresAt, createdAt: now });
+  return { token, expiresAt };
+}
+
+/**
+ * The user signed in with a session token
+ * @returns The user, or undefined when the token is unknown or has expired
+ */
+export async function findSessionUser(
+  token: string,
+  now: Date = new Date(),
+): Promise<SessionUser | undefined> {
+  const [row] = await db
+    .select({ user: users })
+    .from(sessions)
+    .innerJoin(users, eq(users.id, sessions.userId))
+    .where(and(eq(sessions.id, hashToken(token)), gt(sessions.expiresAt, now)));
+  return row && toSessionUser(row.user);
+}
+
+/**
+ * Ends a session
+ */
+export async function deleteSession(token: string): Promise<void> {
+  await db.delete(sessions).where(eq(sessions.id, hashToken(token)));
+}
+
+/**
+ * Deletes sessions that have expired
+ * @returns The number of sessions deleted
+ */
+export async function purgeExpiredSessions(now: Date = new Date()): Promise<number> {
+  const deleted = await db.delete(sessions).where(lte(sessions.expiresAt, now)).returning();
+  return deleted.length;
+}
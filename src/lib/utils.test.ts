@@ -9,10 +9,47 @@ import {
   formatShortDate,
   formatFullDate,
   truncateText,
+  splitHighlights,
   generateThreadId,
+  generateMessageId,
+  isValidMessageId,
+  parseMessageIds,
+  buildReferences,
+  hasReplyPrefix,
+  normalizeSubject,
   isValidEmail,
   validateEmailList,
+  validateLeadListName,
+  guessLeadColumns,
+  validateTemplateFields,
+  applyTemplate,
+  buildReplyFormData,
+  formatFileSize,
+  validateAttachments,
+  validateScheduledAt,
+  toDateTimeInputValue,
+  getSendLaterPresets,
+  validateFutureDate,
+  isSnoozed,
+  getSnoozePresets,
+  toLabelFilter,
+  getLabelFilterName,
+  isEmailFilter,
+  getFilterTitle,
+  matchesFilter,
+  validateLabelName,
+  isValidLabelColor,
 } from './utils';
+import {
+  EmailDirection,
+  EmailStatus,
+  Label,
+  MAX_ATTACHMENT_SIZE,
+  MAX_EMAIL_ATTACHMENTS_SIZE,
+  MAX_LABEL_NAME_LENGTH,
+  MAX_LEAD_LIST_NAME_LENGTH,
+  MAX_TEMPLATE_NAME_LENGTH,
+} from '@/types';
 
 describe('getInitials', () => {
   it('should extract first two characters from email username', () => {
@@ -29,6 +66,15 @@ describe('getInitials', () => {
     expect(getInitials('john@example.com')).toBe('JO');
     expect(getInitials('JOHN@example.com')).toBe('JO');
   });
+
+  it('should use the address of a mailbox with a display name', () => {
+    expect(getInitials('Alice Smith <alice@test.org>')).toBe('AL');
+  });
+
+  it('should use the first mailbox of a list', () => {
+    expect(getInitials('"Doe, Jane" <jane@x.com>, bob@y.com')).toBe('JA');
+    expect(getInitials('"jo doe"@example.com')).toBe('JO');
+  });
 });
 
 describe('getDisplayName', () => {
@@ -48,6 +94,27 @@ describe('getDisplayName', () => {
   it('should handle lowercase and uppercase input', () => {
     expect(getDisplayName('JOHN.DOE@example.com')).toBe('JOHN DOE');
   });
+
+  it('should prefer the display name of a mailbox', () => {
+    expect(getDisplayName('Alice Smith <alice@test.org>')).toBe('Alice Smith');
+    expect(getDisplayName('"Smith, Alice" <alice@test.org>')).toBe('Smith, Alice');
+    expect(getDisplayName('<john.doe@example.com>')).toBe('John Doe');
+  });
+
+  it('should prefer the name saved for a contact', () => {
+    const contactNames = new Map([['alice@test.org', 'Alice from Accounts']]);
+    expect(getDisplayName('alice@test.org', contactNames)).toBe('Alice from Accounts');
+    expect(getDisplayName('Alice Smith <ALICE@test.org>', contactNames)).toBe(
+      'Alice from Accounts',
+    );
+    expect(getDisplayName('bob.jones@test.org', contactNames)).toBe('Bob Jones');
+  });
+
+  it('should use the first mailbox of a list', () => {
+    expect(getDisplayName('"Doe, Jane" <jane@x.com>, bob@y.com')).toBe('Doe, Jane');
+    expect(getDisplayName('Team: ann.lee@x.com, bob@y.com;')).toBe('Ann Lee');
+    expect(getDisplayName('ann.lee@x.com (Ann Lee-Smith)')).toBe('Ann Lee-Smith');
+  });
 });
 
 describe('formatCompactDate', () => {
@@ -134,6 +201,36 @@ describe('truncateText', () => {
   });
 });
 
+describe('splitHighlights', () => {
+  it('should split snippet into plain and highlighted segments', () => {
+    expect(splitHighlights('Meet <mark>Sarah</mark> at noon')).toEqual([
+      { text: 'Meet ', highlighted: false },
+      { text: 'Sarah', highlighted: true },
+      { text: ' at noon', highlighted: false },
+    ]);
+  });
+
+  it('should handle multiple and adjacent highlights', () => {
+    expect(splitHighlights('<mark>a</mark><mark>b</mark> c')).toEqual([
+      { text: 'a', highlighted: true },
+      { text: 'b', highlighted: true },
+      { text: ' c', highlighted: false },
+    ]);
+  });
+
+  it('should return plain text when there are no markers', () => {
+    expect(splitHighlights('no matches here')).toEqual([
+      { text: 'no matches here', highlighted: false },
+    ]);
+  });
+
+  it('should keep an unterminated marker as plain text', () => {
+    expect(splitHighlights('broken <mark>tail')).toEqual([
+      { text: 'broken <mark>tail', highlighted: false },
+    ]);
+  });
+});
+
 describe('generateThreadId', () => {
   it('should generate a unique thread ID', () => {
     const id1 = generateThreadId();
@@ -160,6 +257,58 @@ describe('generateThreadId', () => {
   });
 });
 
+describe('generateMessageId', () => {
+  it('should generate unique bracketed IDs on the given domain', () => {
+    const id = generateMessageId('example.org');
+    expect(id).toMatch(/^<[^@]+@example\.org>$/);
+    expect(isValidMessageId(id)).toBe(true);
+    expect(generateMessageId()).not.toBe(generateMessageId());
+  });
+});
+
+describe('isValidMessageId', () => {
+  it('should accept a single bracketed ID and reject anything else', () => {
+    expect(isValidMessageId('<abc.123@mail.example.com>')).toBe(true);
+    expect(isValidMessageId('abc@example.com')).toBe(false);
+    expect(isValidMessageId('<no-at-sign>')).toBe(false);
+    expect(isValidMessageId('<a@b> <c@d>')).toBe(false);
+  });
+});
+
+describe('parseMessageIds', () => {
+  it('should extract IDs in header order, ignoring folding and comments', () => {
+    expect(parseMessageIds('<a@x>\r\n <b@x> (comment) <c@x>')).toEqual(['<a@x>', '<b@x>', '<c@x>']);
+    expect(parseMessageIds(null)).toEqual([]);
+    expect(parseMessageIds('no ids here')).toEqual([]);
+  });
+});
+
+describe('buildReferences', () => {
+  it("should append the parent's ID to its references", () => {
+    expect(buildReferences({ messageId: '<c@x>', references: '<a@x> <b@x>' })).toBe(
+      '<a@x> <b@x> <c@x>',
+    );
+    expect(buildReferences({ messageId: '<a@x>', references: null })).toBe('<a@x>');
+    expect(buildReferences({ messageId: null, references: '<a@x>' })).toBeNull();
+  });
+});
+
+describe('normalizeSubject', () => {
+  it('should strip reply and forward prefixes and ignore case and spacing', () => {
+    expect(normalizeSubject('Re: Budget')).toBe('budget');
+    expect(normalizeSubject('RE: Fwd:  Q1   Budget ')).toBe('q1 budget');
+    expect(normalizeSubject('Re[2]: AW: Budget')).toBe('budget');
+    expect(normalizeSubject('Regarding the budget')).toBe('regarding the budget');
+  });
+
+  it('should detect reply prefixes', () => {
+    expect(hasReplyPrefix('Re: Budget')).toBe(true);
+    expect(hasReplyPrefix('FWD: Budget')).toBe(true);
+    expect(hasReplyPrefix('Budget')).toBe(false);
+    expect(hasReplyPrefix('Regarding the budget')).toBe(false);
+  });
+});
+
 describe('isValidEmail', () => {
   it('should return true for valid email addresses', () => {
     expect(isValidEmail('test@example.com')).toBe(true);
@@ -177,6 +326,30 @@ describe('isValidEmail', () => {
   it('should handle whitespace', () => {
     expect(isValidEmail('  test@example.com  ')).toBe(true);
   });
+
+  it('should accept quoted local parts, domain literals and internationalised addresses', () => {
+    expect(isValidEmail('"john doe"@example.com')).toBe(true);
+    expect(isValidEmail('"a,b"@example.com')).toBe(true);
+    expect(isValidEmail('jane@[192.0.2.1]')).toBe(true);
+    expect(isValidEmail('josé@bücher.de')).toBe(true);
+    expect(isValidEmail('用户@例子.广告')).toBe(true);
+    expect(isValidEmail('jane@xn--bcher-kva.de')).toBe(true);
+  });
+
+  it('should reject malformed addresses', () => {
+    expect(isValidEmail('john..doe@example.com')).toBe(false);
+    expect(isValidEmail('.john@example.com')).toBe(false);
+    expect(isValidEmail('john@-example.com')).toBe(false);
+    expect(isValidEmail('john@example..com')).toBe(false);
+    expect(isValidEmail('john@192.0.2.1')).toBe(false);
+    expect(isValidEmail('john@[300.0.2.1]')).toBe(false);
+    expect(isValidEmail('"john@example.com')).toBe(false);
+    expect(isValidEmail(`${'a'.repeat(65)}@example.com`)).toBe(false);
+  });
+
+  it('should reject a mailbox with a display name', () => {
+    expect(isValidEmail('Jane <jane@example.com>')).toBe(false);
+  });
 });
 
 describe('validateEmailList', () => {
@@ -198,4 +371,378 @@ describe('validateEmailList', () => {
     expect(validateEmailList('valid@example.com, invalid')).toBe(false);
     expect(validateEmailList('invalid, valid@example.com')).toBe(false);
   });
+
+  it('should accept display names, including quoted ones with commas', () => {
+    expect(validateEmailList('"Doe, Jane" <jane@x.com>, bob@y.com')).toBe(true);
+    expect(validateEmailList('Jane Doe <jane@x.com>; Bob <bob@y.com>')).toBe(true);
+    expect(validateEmailList('"Jane <Sales>" <jane@x.com>')).toBe(true);
+    expect(validateEmailList('jane@x.com (Jane Doe)')).toBe(true);
+    expect(validateEmailList('José <josé@bücher.de>')).toBe(true);
+  });
+
+  it('should accept groups', () => {
+    expect(validateEmailList('Team: ann@x.com, bob@y.com;')).toBe(true);
+    expect(validateEmailList('undisclosed-recipients:;, bob@y.com')).toBe(true);
+  });
+
+  it('should ignore empty entries', () => {
+    expect(validateEmailList('a@example.com,, b@example.com,')).toBe(true);
+  });
+
+  it('should reject malformed mailboxes', () => {
+    expect(validateEmailList('Doe, Jane <jane@x.com>')).toBe(false);
+    expect(validateEmailList('"Doe, Jane <jane@x.com>')).toBe(false);
+    expect(validateEmailList('Jane <jane@x.com> extra')).toBe(false);
+    expect(validateEmailList('Jane <jane@x>')).toBe(false);
+    expect(validateEmailList('jane@x.com <bob@y.com>')).toBe(false);
+    expect(validateEmailList(',')).toBe(false);
+  });
+});
+
+describe('formatFileSize', () => {
+  it('should show bytes below 1 KB', () => {
+    expect(formatFileSize(0)).toBe('0 B');
+    expect(formatFileSize(1023)).toBe('1023 B');
+  });
+
+  it('should use the largest fitting unit with one decimal', () => {
+    expect(formatFileSize(1536)).toBe('1.5 KB');
+    expect(formatFileSize(10 * 1024 * 1024)).toBe('10 MB');
+    expect(formatFileSize(3.25 * 1024 * 1024 * 1024)).toBe('3.3 GB');
+  });
+});
+
+describe('validateAttachments', () => {
+  it('should accept files within the limits', () => {
+    expect(validateAttachments([])).toBeNull();
+    expect(validateAttachments([{ name: 'a.pdf', size: MAX_ATTACHMENT_SIZE }])).toBeNull();
+  });
+
+  it('should name the file that exceeds the per-file limit', () => {
+    const error = validateAttachments([
+      { name: 'small.txt', size: 10 },
+      { name: 'big.zip', size: MAX_ATTACHMENT_SIZE + 1 },
+    ]);
+    expect(error).toContain('"big.zip"');
+    expect(error).toContain('10 MB each');
+  });
+
+  it('should reject files that exceed the per-email limit together', () => {
+    const files = [1, 2, 3].map((i) => ({ name: `part-${i}.bin`, size: MAX_ATTACHMENT_SIZE }));
+    expect(files.reduce((total, file) => total + file.size, 0)).toBeGreaterThan(
+      MAX_EMAIL_ATTACHMENTS_SIZE,
+    );
+    expect(validateAttachments(files)).toContain('25 MB per email');
+  });
+});
+
+describe('validateScheduledAt', () => {
+  const now = new Date('2025-03-10T12:00:00Z');
+
+  it('should accept times in the future', () => {
+    expect(validateScheduledAt('2025-03-10T12:05:00Z', now)).toBeNull();
+  });
+
+  it('should reject times that are not in the future', () => {
+    expect(validateScheduledAt('2025-03-10T12:00:00Z', now)).toBe(
+      'Scheduled time must be in the future',
+    );
+    expect(validateScheduledAt('2025-03-09T12:00:00Z', now)).toBe(
+      'Scheduled time must be in the future',
+    );
+  });
+
+  it('should reject invalid dates', () => {
+    expect(validateScheduledAt('tomorrow', now)).toBe('Scheduled time is not a valid date');
+  });
+});
+
+describe('toDateTimeInputValue', () => {
+  it('should format the local date and time to the minute', () => {
+    expect(toDateTimeInputValue(new Date(2025, 0, 5, 9, 7, 30))).toBe('2025-01-05T09:07');
+  });
+});
+
+describe('getSendLaterPresets', () => {
+  it('should offer tomorrow morning, tomorrow afternoon and Monday morning', () => {
+    // Wednesday
+    const presets = getSendLaterPresets(new Date(2025, 2, 12, 15, 30));
+
+    expect(presets.map((preset) => preset.label)).toEqual([
+      'Tomorrow morning',
+      'Tomorrow afternoon',
+      'Monday morning',
+    ]);
+    expect(presets[0].date).toEqual(new Date(2025, 2, 13, 8, 0));
+    expect(presets[1].date).toEqual(new Date(2025, 2, 13, 13, 0));
+    expect(presets[2].date).toEqual(new Date(2025, 2, 17, 8, 0));
+  });
+
+  it('should pick next week when today is Monday', () => {
+    const [, , monday] = getSendLaterPresets(new Date(2025, 2, 10, 7, 0));
+    expect(monday.date).toEqual(new Date(2025, 2, 17, 8, 0));
+  });
+});
+
+describe('validateFutureDate', () => {
+  it('should name the field in its messages', () => {
+    const now = new Date('2025-03-10T12:00:00Z');
+    expect(validateFutureDate('2025-03-09T12:00:00Z', 'Snooze time', now)).toBe(
+      'Snooze time must be in the future',
+    );
+    expect(validateFutureDate('soon', 'Snooze time', now)).toBe('Snooze time is not a valid date');
+  });
+});
+
+describe('isSnoozed', () => {
+  const now = new Date('2025-03-10T12:00:00Z');
+
+  it('should be true only while the snooze time is in the future', () => {
+    expect(isSnoozed({ snoozedUntil: new Date('2025-03-10T13:00:00Z') }, now)).toBe(true);
+    expect(isSnoozed({ snoozedUntil: '2025-03-10T11:00:00Z' }, now)).toBe(false);
+    expect(isSnoozed({ snoozedUntil: null }, now)).toBe(false);
+  });
+});
+
+describe('getSnoozePresets', () => {
+  it('should offer later today, tomorrow, this weekend and next week on a weekday morning', () => {
+    // Wednesday 9:30
+    const presets = getSnoozePresets(new Date(2025, 2, 12, 9, 30));
+
+    expect(presets).toEqual([
+      { label: 'Later today', date: new Date(2025, 2, 12, 18, 0) },
+      { label: 'Tomorrow', date: new Date(2025, 2, 13, 8, 0) },
+      { label: 'This weekend', date: new Date(2025, 2, 15, 8, 0) },
+      { label: 'Next week', date: new Date(2025, 2, 17, 8, 0) },
+    ]);
+  });
+
+  it('should skip later today in the evening and this weekend at the weekend', () => {
+    // Saturday 20:00
+    const labels = getSnoozePresets(new Date(2025, 2, 15, 20, 0)).map((preset) => preset.label);
+    expect(labels).toEqual(['Tomorrow', 'Next week']);
+  });
+});
+
+describe('label filters', () => {
+  it('should round-trip a label name through a filter', () => {
+    expect(toLabelFilter('Work')).toBe('label:Work');
+    expect(getLabelFilterName(toLabelFilter('Side Project'))).toBe('Side Project');
+  });
+
+  it('should return null for folder filters and empty label names', () => {
+    expect(getLabelFilterName('inbox')).toBeNull();
+    expect(getLabelFilterName('label:')).toBeNull();
+  });
+
+  it('should accept folders and label filters only', () => {
+    expect(isEmailFilter('trash')).toBe(true);
+    expect(isEmailFilter('label:Work')).toBe(true);
+    expect(isEmailFilter('label:')).toBe(false);
+    expect(isEmailFilter('spam')).toBe(false);
+  });
+
+  it('should title folders and labels', () => {
+    expect(getFilterTitle('inbox')).toBe('Inbox');
+    expect(getFilterTitle('all')).toBe('All Mail');
+    expect(getFilterTitle('label:work stuff')).toBe('work stuff');
+  });
+});
+
+describe('matchesFilter', () => {
+  const now = new Date('2024-05-14T10:00:00Z');
+  const received = {
+    isDraft: false,
+    isDeleted: false,
+    isArchived: false,
+    isImportant: false,
+    isRead: false,
+    direction: EmailDirection.INCOMING,
+    status: EmailStatus.SENT,
+    snoozedUntil: null,
+    labels: [{ name: 'Work' } as Label],
+  };
+
+  it('should list received mail in the inbox, unread, all mail and its labels', () => {
+    expect(matchesFilter(received, 'inbox', now)).toBe(true);
+    expect(matchesFilter(received, 'unread', now)).toBe(true);
+    expect(matchesFilter(received, 'all', now)).toBe(true);
+    expect(matchesFilter(received, 'label:Work', now)).toBe(true);
+    expect(matchesFilter(received, 'label:Home', now)).toBe(false);
+    expect(matchesFilter(received, 'sent', now)).toBe(false);
+    expect(matchesFilter(received, 'trash', now)).toBe(false);
+  });
+
+  it('should default to the inbox', () => {
+    expect(matchesFilter(received)).toBe(true);
+  });
+
+  it('should keep archived and snoozed mail out of the inbox only', () => {
+    const archived = { ...received, isArchived: true };
+    expect(matchesFilter(archived, 'inbox', now)).toBe(false);
+    expect(matchesFilter(archived, 'archive', now)).toBe(true);
+
+    const snoozed = { ...received, snoozedUntil: new Date('2024-05-15T08:00:00Z') };
+    expect(matchesFilter(snoozed, 'inbox', now)).toBe(false);
+    expect(matchesFilter(snoozed, 'snoozed', now)).toBe(true);
+    expect(matchesFilter(snoozed, 'all', now)).toBe(true);
+  });
+
+  it('should list trashed mail only in the trash', () => {
+    const trashed = { ...received, isDeleted: true };
+    expect(matchesFilter(trashed, 'trash', now)).toBe(true);
+    expect(matchesFilter(trashed, 'all', now)).toBe(false);
+    expect(matchesFilter(trashed, 'label:Work', now)).toBe(false);
+  });
+
+  it('should list drafts and scheduled mail only in their own folders', () => {
+    const draft = { ...received, isDraft: true, direction: EmailDirection.OUTGOING };
+    expect(matchesFilter(draft, 'drafts', now)).toBe(true);
+    expect(matchesFilter(draft, 'sent', now)).toBe(false);
+
+    const scheduled = {
+      ...received,
+      direction: EmailDirection.OUTGOING,
+      status: EmailStatus.SCHEDULED,
+    };
+    expect(matchesFilter(scheduled, 'scheduled', now)).toBe(true);
+    expect(matchesFilter(scheduled, 'sent', now)).toBe(false);
+    expect(matchesFilter({ ...scheduled, status: EmailStatus.SENT }, 'sent', now)).toBe(true);
+  });
+});
+
+describe('validateLabelName', () => {
+  it('should accept trimmed names within the length limit', () => {
+    expect(validateLabelName('  Work  ')).toBeNull();
+    expect(validateLabelName('a'.repeat(MAX_LABEL_NAME_LENGTH))).toBeNull();
+  });
+
+  it('should reject empty and overlong names', () => {
+    expect(validateLabelName('   ')).toBe('Label name is required');
+    expect(validateLabelName('a'.repeat(MAX_LABEL_NAME_LENGTH + 1))).toContain('at most');
+  });
+});
+
+describe('isValidLabelColor', () => {
+  it('should accept six-digit hex colours in either case', () => {
+    expect(isValidLabelColor('#1976d2')).toBe(true);
+    expect(isValidLabelColor('#F57C00')).toBe(true);
+  });
+
+  it('should reject other colour formats', () => {
+    expect(isValidLabelColor('red')).toBe(false);
+    expect(isValidLabelColor('#fff')).toBe(false);
+    expect(isValidLabelColor('1976d2')).toBe(false);
+  });
+});
+
+describe('validateLeadListName', () => {
+  it('should require a name within the length limit', () => {
+    expect(validateLeadListName('Q3 prospects')).toBeNull();
+    expect(validateLeadListName('  ')).toBe('List name is required');
+    expect(validateLeadListName('a'.repeat(MAX_LEAD_LIST_NAME_LENGTH + 1))).toBe(
+      `List name must be at most ${MAX_LEAD_LIST_NAME_LENGTH} characters`,
+    );
+  });
+});
+
+describe('guessLeadColumns', () => {
+  it('should match common header names ignoring case and punctuation', () => {
+    expect(guessLeadColumns(['E-mail Address', 'First Name', 'Last Name', 'Organization'])).toEqual(
+      { address: 'E-mail Address', firstName: 'First Name', company: 'Organization' },
+    );
+    expect(guessLeadColumns(['email', 'first_name', 'company'])).toEqual({
+      address: 'email',
+      firstName: 'first_name',
+      company: 'company',
+    });
+  });
+
+  it('should leave out fields without a matching column', () => {
+    expect(guessLeadColumns(['Contact', 'Phone'])).toEqual({});
+  });
+});
+
+describe('validateTemplateFields', () => {
+  it('should accept a named template using known variables', () => {
+    expect(
+      validateTemplateFields({
+        name: 'Follow-up',
+        subject: 'Hi {{firstName}}',
+        body: '{Thanks|Cheers}, {{name | "there"}}',
+        category: 'Sales',
+      }),
+    ).toEqual({});
+  });
+
+  it('should report each invalid field', () => {
+    expect(
+      validateTemplateFields({
+        name: ' ',
+        subject: '{{nickname}}',
+        body: 'Body',
+        category: 'c'.repeat(51),
+      }),
+    ).toEqual({
+      name: 'Template name is required',
+      subject: expect.stringMatching(/^Unknown variable \{\{nickname\}\}/),
+      category: 'Category must be at most 50 characters',
+    });
+    expect(validateTemplateFields({ name: 'a'.repeat(MAX_TEMPLATE_NAME_LENGTH + 1) }).name).toBe(
+      `Template name must be at most ${MAX_TEMPLATE_NAME_LENGTH} characters`,
+    );
+  });
+
+  it('should only check the fields given', () => {
+    expect(validateTemplateFields({ body: 'Dear {{name}}' })).toEqual({});
+  });
+});
+
+describe('applyTemplate', () => {
+  const form = { to: 'ann@x.com', cc: 'bob@x.com', bcc: '', subject: 'Old', content: '' };
+  const template = { subject: 'Welcome', body: 'Hi {{firstName}}' };
+
+  it('should fill the subject and body, keeping the recipients', () => {
+    expect(applyTemplate(form, template)).toEqual({
+      ...form,
+      subject: 'Welcome',
+      content: 'Hi {{firstName}}',
+    });
+  });
+
+  it('should put the body above what is already written', () => {
+    expect(applyTemplate({ ...form, content: '\n\n> quoted' }, template).content).toBe(
+      'Hi {{firstName}}\n\n> quoted',
+    );
+  });
+
+  it('should keep the subject of a reply, or when the template has none', () => {
+    expect(applyTemplate({ ...form, subject: 'Re: Hello' }, template, true).subject).toBe(
+      'Re: Hello',
+    );
+    expect(applyTemplate(form, { ...template, subject: ' ' }).subject).toBe('Old');
+  });
+});
+
+describe('buildReplyFormData', () => {
+  const email = {
+    direction: EmailDirection.INCOMING,
+    from: 'Ann <ann@x.com>',
+    to: 'me@x.com',
+    subject: 'Pricing',
+    content: 'Line one\nLine two',
+    createdAt: new Date('2026-01-05T10:00:00Z'),
+  };
+
+  it('should reply to the sender of incoming mail, quoting it', () => {
+    const reply = buildReplyFormData(email);
+    expect(reply).toMatchObject({ to: 'Ann <ann@x.com>', cc: '', bcc: '', subject: 'Re: Pricing' });
+    expect(reply.content).toMatch(/^\n\nOn .+, Ann <ann@x\.com> wrote:\n> Line one\n> Line two$/);
+  });
+
+  it('should reply to the recipients of outgoing mail without doubling the prefix', () => {
+    expect(
+      buildReplyFormData({ ...email, direction: EmailDirection.OUTGOING, subject: 'RE: Pricing' }),
+    ).toMatchObject({ to: 'me@x.com', subject: 'RE: Pricing' });
+  });
 });
@@ -3,21 +3,74 @@
  * Centralized utilities to avoid duplication across components
  */
 
+import {
+  SEARCH_HIGHLIGHT_START,
+  SEARCH_HIGHLIGHT_END,
+  MAX_ATTACHMENT_SIZE,
+  MAX_EMAIL_ATTACHMENTS_SIZE,
+  FOLDER_FILTERS,
+  LABEL_FILTER_PREFIX,
+  EmailFilter,
+  LabelFilter,
+  MAX_LABEL_NAME_LENGTH,
+  DatePreset,
+  MESSAGE_ID_DOMAIN,
+  EmailDirection,
+  EmailSearchResult,
+  EmailStatus,
+  LEAD_FIELD_ALIASES,
+  LEAD_FIELDS,
+  LeadColumnMapping,
+  MAX_LEAD_LIST_NAME_LENGTH,
+  EmailComposerFormData,
+  EMPTY_COMPOSER_FORM,
+  TemplateRequest,
+  MAX_TEMPLATE_NAME_LENGTH,
+  MAX_TEMPLATE_CATEGORY_LENGTH,
+} from '@/types';
+import {
+  findInvalidAddresses,
+  isValidAddress,
+  MailAddress,
+  parseAddressList,
+} from '@/lib/addressList';
+import { validateMergeFields } from '@/lib/mailMerge';
+
+/**
+ * The first mailbox of an address or address list, e.g. `"Doe, Jane" <jane@x.com>, bob@y.com`
+ * A bare address has an empty name; text that is not an address is returned as the address
+ */
+function firstMailbox(email: string): MailAddress {
+  return parseAddressList(email)[0] ?? { name: '', address: email.trim() };
+}
+
+/**
+ * The local part of an address without quotes, e.g. `jane doe` for `"jane doe"@example.com`
+ */
+function localPart(address: string): string {
+  const at = address.lastIndexOf('@');
+  return (at < 0 ? address : address.slice(0, at)).replace(/^"(.*)"$/, '$1');
+}
+
 /**
  * Extracts initials from an email address for avatar display
  */
 export function getInitials(email: string): string {
-  const name = email.split('@')[0];
+  const name = localPart(firstMailbox(email).address);
   return name.substring(0, 2).toUpperCase();
 }
 
 /**
  * Extracts display name from email address
- * Converts "john.doe@example.com" to "John Doe"
+ * Converts "john.doe@example.com" to "John Doe"; a `Name <address>` mailbox gives its name
+ * @param contactNames - Names saved for contacts, by lowercased address; these win over both
  */
-export function getDisplayName(email: string): string {
-  const name = email.split('@')[0];
-  return name
+export function getDisplayName(email: string, contactNames?: ReadonlyMap<string, string>): string {
+  const { name: displayName, address } = firstMailbox(email);
+  const contactName = contactNames?.get(address.toLowerCase());
+  if (contactName) return contactName;
+  if (displayName) return displayName;
+  return localPart(address)
     .split('.')
     .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
     .join(' ');
@@ -74,6 +127,32 @@ export function truncateText(text: string | null, maxLength: number = 30): strin
   return text.length > maxLength ? text.substring(0, maxLength) + '...' : text;
 }
 
+/**
+ * Splits a search snippet into plain and highlighted segments for rendering
+ * Converts "a <mark>b</mark> c" to [{ text: 'a ' }, { text: 'b', highlighted: true }, { text: ' c' }]
+ */
+export function splitHighlights(snippet: string): { text: string; highlighted: boolean }[] {
+  const segments: { text: string; highlighted: boolean }[] = [];
+  let rest = snippet;
+
+  while (rest) {
+    const start = rest.indexOf(SEARCH_HIGHLIGHT_START);
+    const end = start === -1 ? -1 : rest.indexOf(SEARCH_HIGHLIGHT_END, start);
+    if (end === -1) {
+      segments.push({ text: rest, highlighted: false });
+      break;
+    }
+    if (start > 0) segments.push({ text: rest.slice(0, start), highlighted: false });
+    segments.push({
+      text: rest.slice(start + SEARCH_HIGHLIGHT_START.length, end),
+      highlighted: true,
+    });
+    rest = rest.slice(end + SEARCH_HIGHLIGHT_END.length);
+  }
+
+  return segments;
+}
+
 /**
  * Generates a unique thread ID for new email threads
  */
@@ -82,18 +161,393 @@ export function generateThreadId(): string {
 }
 
 /**
- * Validates a single email address format
+ * Generates an RFC 5322 Message-ID, e.g. `<lz3k2a.8f3jq1c@company.com>`
+ */
+export function generateMessageId(domain: string = MESSAGE_ID_DOMAIN): string {
+  return `<${Date.now().toString(36)}.${Math.random().toString(36).substring(2, 9)}@${domain}>`;
+}
+
+/**
+ * Checks that a value is a single bracketed Message-ID (`<left@right>`)
+ */
+export function isValidMessageId(value: string): boolean {
+  return /^<[^<>\s@]+@[^<>\s@]+>$/.test(value.trim());
+}
+
+/**
+ * Extracts the bracketed Message-IDs from a Message-ID, In-Reply-To or References header,
+ * in header order
+ */
+export function parseMessageIds(header: string | null | undefined): string[] {
+  return header?.match(/<[^<>\s]+>/g) ?? [];
+}
+
+/**
+ * References header for a reply: the parent's references followed by the parent's own ID
+ * Returns null when the parent has no Message-ID
+ */
+export function buildReferences(parent: {
+  messageId: string | null;
+  references: string | null;
+}): string | null {
+  if (!parent.messageId) return null;
+  return [...parseMessageIds(parent.references), parent.messageId].join(' ');
+}
+
+// Any run of reply/forward prefixes, including localised ones and "Re[2]:" counters
+const SUBJECT_PREFIX_PATTERN = /^(\s*(re|fwd?|aw|sv|wg)(\[\d+\])?\s*:)+/i;
+
+/**
+ * Whether a subject starts with a reply or forward prefix ("Re:", "Fwd:", ...)
+ */
+export function hasReplyPrefix(subject: string): boolean {
+  return SUBJECT_PREFIX_PATTERN.test(subject);
+}
+
+/**
+ * Subject with reply/forward prefixes removed, whitespace collapsed and lowercased,
+ * so "RE: Fwd:  Budget" and "budget" compare equal
+ */
+export function normalizeSubject(subject: string): string {
+  return subject.replace(SUBJECT_PREFIX_PATTERN, '').replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+/**
+ * Validates a single bare email address, such as `jane@example.com` or `josé@bücher.de`
  */
 export function isValidEmail(email: string): boolean {
-  const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-  return emailRegex.test(email.trim());
+  return isValidAddress(email.trim());
 }
 
 /**
- * Validates a comma-separated list of email addresses
- * Returns true if empty (for optional fields) or all emails are valid
+ * Validates an RFC 5322 address list, such as `"Doe, Jane" <jane@x.com>, Team: bob@y.com;`
+ * Returns true if empty (for optional fields) or every mailbox in it is valid
  */
 export function validateEmailList(emails: string): boolean {
   if (!emails.trim()) return true;
-  return emails.split(',').every((email) => isValidEmail(email.trim()));
+  return parseAddressList(emails).length > 0 && findInvalidAddresses(emails).length === 0;
+}
+
+/**
+ * Formats a byte count for display (e.g. 1536 -> "1.5 KB")
+ */
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB'];
+  let size = bytes / 1024;
+  let unit = 0;
+  while (size >= 1024 && unit < units.length - 1) {
+    size /= 1024;
+    unit++;
+  }
+  return `${Number(size.toFixed(1))} ${units[unit]}`;
+}
+
+/**
+ * Checks files against the per-file and per-email attachment size limits
+ * Returns an error message for the first violated limit, or null if all files fit
+ */
+export function validateAttachments(files: { name: string; size: number }[]): string | null {
+  const tooLarge = files.find((file) => file.size > MAX_ATTACHMENT_SIZE);
+  if (tooLarge) {
+    return `"${tooLarge.name}" is ${formatFileSize(tooLarge.size)}; attachments are limited to ${formatFileSize(MAX_ATTACHMENT_SIZE)} each`;
+  }
+
+  const totalSize = files.reduce((total, file) => total + file.size, 0);
+  if (totalSize > MAX_EMAIL_ATTACHMENTS_SIZE) {
+    return `Attachments total ${formatFileSize(totalSize)}; the limit is ${formatFileSize(MAX_EMAIL_ATTACHMENTS_SIZE)} per email`;
+  }
+
+  return null;
+}
+
+/**
+ * Checks that a value is a date in the future
+ * Returns an error message naming the field, or null if the date is valid
+ */
+export function validateFutureDate(
+  value: string,
+  fieldName: string,
+  now: Date = new Date(),
+): string | null {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) return `${fieldName} is not a valid date`;
+  if (date <= now) return `${fieldName} must be in the future`;
+  return null;
+}
+
+/**
+ * Checks a scheduled send time
+ * Returns an error message, or null if the value is a valid date in the future
+ */
+export function validateScheduledAt(value: string, now: Date = new Date()): string | null {
+  return validateFutureDate(value, 'Scheduled time', now);
+}
+
+/**
+ * Formats a date for a datetime-local input (local time, minute precision)
+ */
+export function toDateTimeInputValue(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+/**
+ * Returns a copy of the date moved by a number of days, at the given local time
+ */
+function atTime(date: Date, addDays: number, hours: number): Date {
+  const result = new Date(date);
+  result.setDate(result.getDate() + addDays);
+  result.setHours(hours, 0, 0, 0);
+  return result;
+}
+
+/**
+ * Quick choices for scheduling a send: tomorrow morning, tomorrow afternoon and next Monday
+ */
+export function getSendLaterPresets(now: Date = new Date()): DatePreset[] {
+  const daysUntilMonday = (8 - now.getDay()) % 7 || 7;
+  return [
+    { label: 'Tomorrow morning', date: atTime(now, 1, 8) },
+    { label: 'Tomorrow afternoon', date: atTime(now, 1, 13) },
+    { label: 'Monday morning', date: atTime(now, daysUntilMonday, 8) },
+  ];
+}
+
+/**
+ * Whether an email is snoozed, i.e. hidden from the inbox until a time that has not yet passed
+ */
+export function isSnoozed(
+  email: { snoozedUntil: Date | string | null },
+  now: Date = new Date(),
+): boolean {
+  return !!email.snoozedUntil && new Date(email.snoozedUntil) > now;
+}
+
+/**
+ * Quick choices for snoozing: later today (until 5 PM), tomorrow, this weekend
+ * (Monday to Friday only) and next week
+ */
+export function getSnoozePresets(now: Date = new Date()): DatePreset[] {
+  const day = now.getDay();
+  const daysUntilMonday = (8 - day) % 7 || 7;
+  const presets: DatePreset[] = [];
+
+  if (now.getHours() < 17) presets.push({ label: 'Later today', date: atTime(now, 0, 18) });
+  presets.push({ label: 'Tomorrow', date: atTime(now, 1, 8) });
+  if (day >= 1 && day <= 5) {
+    presets.push({ label: 'This weekend', date: atTime(now, 6 - day, 8) });
+  }
+  presets.push({ label: 'Next week', date: atTime(now, daysUntilMonday, 8) });
+  return presets;
+}
+
+/**
+ * Builds the sidebar filter for a label
+ */
+export function toLabelFilter(labelName: string): LabelFilter {
+  return `${LABEL_FILTER_PREFIX}${labelName}`;
+}
+
+/**
+ * Returns the label name of a `label:<name>` filter, or null for folder filters
+ */
+export function getLabelFilterName(filter: string): string | null {
+  return filter.startsWith(LABEL_FILTER_PREFIX) && filter.length > LABEL_FILTER_PREFIX.length
+    ? filter.slice(LABEL_FILTER_PREFIX.length)
+    : null;
+}
+
+/**
+ * Checks whether a string (e.g. a URL param) is a valid filter
+ */
+export function isEmailFilter(value: string): value is EmailFilter {
+  return (
+    (FOLDER_FILTERS as readonly string[]).includes(value) || getLabelFilterName(value) !== null
+  );
+}
+
+/**
+ * Whether an email is listed under a filter - the client-side counterpart of the folder
+ * conditions in emailQueries, used to keep cached lists in step with live updates
+ */
+export function matchesFilter(
+  email: Pick<
+    EmailSearchResult,
+    | 'isDraft'
+    | 'isDeleted'
+    | 'isArchived'
+    | 'isImportant'
+    | 'isRead'
+    | 'direction'
+    | 'status'
+    | 'snoozedUntil'
+    | 'labels'
+  >,
+  filter: EmailFilter = 'inbox',
+  now: Date = new Date(),
+): boolean {
+  if (filter === 'drafts') return email.isDraft && !email.isDeleted;
+  if (email.isDraft) return false;
+  if (filter === 'trash') return email.isDeleted;
+  if (email.isDeleted) return false;
+  if (filter === 'scheduled') return email.status === EmailStatus.SCHEDULED;
+  if (email.status === EmailStatus.SCHEDULED) return false;
+
+  const labelName = getLabelFilterName(filter);
+  if (labelName) return !!email.labels?.some((label) => label.name === labelName);
+
+  switch (filter) {
+    case 'important':
+      return email.isImportant;
+    case 'sent':
+      return email.direction === EmailDirection.OUTGOING;
+    case 'unread':
+      return !email.isRead;
+    case 'snoozed':
+      return isSnoozed(email, now);
+    case 'all':
+      return true;
+    case 'archive':
+      return email.isArchived;
+    default:
+      return (
+        email.direction === EmailDirection.INCOMING && !email.isArchived && !isSnoozed(email, now)
+      );
+  }
+}
+
+/**
+ * Folders whose heading is not just their capitalised name
+ */
+const FOLDER_TITLES: Partial<Record<EmailFilter, string>> = { all: 'All Mail' };
+
+/**
+ * Heading for a filter - the label name for label filters, else the capitalised folder name
+ */
+export function getFilterTitle(filter: EmailFilter): string {
+  return (
+    getLabelFilterName(filter) ??
+    FOLDER_TITLES[filter] ??
+    filter.charAt(0).toUpperCase() + filter.slice(1)
+  );
+}
+
+/**
+ * Validates a label name
+ * Returns an error message, or null if the name is valid
+ */
+export function validateLabelName(name: string): string | null {
+  const trimmed = name.trim();
+  if (!trimmed) return 'Label name is required';
+  if (trimmed.length > MAX_LABEL_NAME_LENGTH) {
+    return `Label name must be at most ${MAX_LABEL_NAME_LENGTH} characters`;
+  }
+  return null;
+}
+
+/**
+ * Validates a label colour (#rrggbb)
+ */
+export function isValidLabelColor(color: string): boolean {
+  return /^#[0-9a-f]{6}$/i.test(color);
+}
+
+/**
+ * Validates a lead list name
+ * Returns an error message, or null if the name is valid
+ */
+export function validateLeadListName(name: string): string | null {
+  const trimmed = name.trim();
+  if (!trimmed) return 'List name is required';
+  if (trimmed.length > MAX_LEAD_LIST_NAME_LENGTH) {
+    return `List name must be at most ${MAX_LEAD_LIST_NAME_LENGTH} characters`;
+  }
+  return null;
+}
+
+/**
+ * Validates the fields of a template being created or updated; fields left out are not checked
+ * The subject and body may only use known mail merge variables
+ * @returns Error message for each invalid field; empty when all are valid
+ */
+export function validateTemplateFields(
+  fields: Partial<TemplateRequest>,
+): Partial<Record<keyof TemplateRequest, string>> {
+  const errors: Partial<Record<keyof TemplateRequest, string>> = {};
+
+  if (fields.name !== undefined) {
+    const name = fields.name.trim();
+    if (!name) errors.name = 'Template name is required';
+    else if (name.length > MAX_TEMPLATE_NAME_LENGTH) {
+      errors.name = `Template name must be at most ${MAX_TEMPLATE_NAME_LENGTH} characters`;
+    }
+  }
+  if (fields.category && fields.category.trim().length > MAX_TEMPLATE_CATEGORY_LENGTH) {
+    errors.category = `Category must be at most ${MAX_TEMPLATE_CATEGORY_LENGTH} characters`;
+  }
+
+  return {
+    ...errors,
+    ...validateMergeFields({ subject: fields.subject ?? '', body: fields.body ?? '' }),
+  };
+}
+
+/**
+ * Fills the composer from a template, keeping the recipients
+ * The body goes above anything already written, such as the quoted text of a reply; the
+ * subject is replaced unless the template has none or the message is a reply
+ */
+export function applyTemplate(
+  form: EmailComposerFormData,
+  template: { subject: string; body: string },
+  isReply: boolean = false,
+): EmailComposerFormData {
+  const content = form.content.trimStart();
+  return {
+    ...form,
+    subject: template.subject.trim() && !isReply ? template.subject : form.subject,
+    content: content ? `${template.body}\n\n${content}` : template.body,
+  };
+}
+
+/**
+ * Composer fields for a reply: to the sender of an incoming email or the recipients of an
+ * outgoing one, with a "Re:" subject and the original quoted below
+ */
+export function buildReplyFormData(email: {
+  direction: EmailDirection;
+  from: string;
+  to: string;
+  subject: string;
+  content: string | null;
+  createdAt: Date;
+}): EmailComposerFormData {
+  const quoted = (email.content ?? '')
+    .split('\n')
+    .map((line) => `> ${line}`)
+    .join('\n');
+  return {
+    ...EMPTY_COMPOSER_FORM,
+    to: email.direction === EmailDirection.INCOMING ? email.from : email.to,
+    subject: hasReplyPrefix(email.subject) ? email.subject : `Re: ${email.subject}`,
+    content: `\n\nOn ${formatFullDate(email.createdAt)}, ${email.from} wrote:\n${quoted}`,
+  };
+}
+
+/**
+ * Picks the CSV column for each lead field from the header row, by the names spreadsheets
+ * usually give them (`Email`, `E-mail Address`, `First Name`, `Organization`...)
+ * Fields with no matching column are left out
+ */
+export function guessLeadColumns(headers: string[]): LeadColumnMapping {
+  const normalize = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+  const mapping: LeadColumnMapping = {};
+  for (const field of LEAD_FIELDS) {
+    const header = headers.find((candidate) =>
+      LEAD_FIELD_ALIASES[field].includes(normalize(candidate)),
+    );
+    if (header !== undefined) mapping[field] = header;
+  }
+  return mapping;
 }
@@ -0,0 +1,33 @@
+/**
+ * Auth Service - API client for signing in and out
+ * The session itself lives in an HTTP-only cookie set by the server
+ */
+
+import { ApiResponse, LoginRequest, SessionUser } from '@/types';
+import { apiRequest } from '@/lib/apiClient';
+
+const API_BASE = '/api/auth';
+
+/** Signs in with an email and password */
+export async function login(credentials: LoginRequest): Promise<ApiResponse<SessionUser>> {
+  const result = await apiRequest<{ user: SessionUser }>(`${API_BASE}/login`, {
+    method: 'POST',
+    body: JSON.stringify(credentials),
+  });
+  return result.success
+    ? { status: 'success', data: result.data.user }
+    : { status: 'error', error: result.error };
+}
+
+/** Ends the current session */
+export async function logout(): Promise<ApiResponse<void>> {
+  const result = await apiRequest<void>(`${API_BASE}/logout`, { method: 'POST' });
+  return result.success ? { status: 'success' } : { status: 'error', error: result.error };
+}
+
+export const authService = {
+  login,
+  logout,
+};
+
+export default authService;
@@ -0,0 +1,71 @@
+/**
+ * Contact Service - API client for the people the user exchanges mail with
+ */
+
+import { ApiResponse, Contact, ContactRequest } from '@/types';
+import { apiRequest } from '@/lib/apiClient';
+
+const API_BASE = '/api/contacts';
+
+/** Fetches all contacts, most emailed first */
+export async function fetchContacts(): Promise<ApiResponse<Contact[]>> {
+  const result = await apiRequest<{ contacts: Contact[] }>(API_BASE);
+  return result.success
+    ? { status: 'success', data: result.data.contacts }
+    : { status: 'error', error: result.error };
+}
+
+/** Fetches the contacts that best complete a partly typed recipient */
+export async function suggestContacts(
+  query: string,
+  limit?: number,
+): Promise<ApiResponse<Contact[]>> {
+  const params = new URLSearchParams({ q: query });
+  if (limit !== undefined) params.set('limit', String(limit));
+
+  const result = await apiRequest<{ contacts: Contact[] }>(`${API_BASE}/suggest?${params}`);
+  return result.success
+    ? { status: 'success', data: result.data.contacts }
+    : { status: 'error', error: result.error };
+}
+
+/** Adds a contact */
+export async function createContact(contact: ContactRequest): Promise<ApiResponse<Contact>> {
+  const result = await apiRequest<{ contact: Contact }>(API_BASE, {
+    method: 'POST',
+    body: JSON.stringify(contact),
+  });
+  return result.success
+    ? { status: 'success', data: result.data.contact }
+    : { status: 'error', error: result.error };
+}
+
+/** Changes a contact's address and/or name */
+export async function updateContact(
+  contactId: number,
+  changes: Partial<ContactRequest>,
+): Promise<ApiResponse<Contact>> {
+  const result = await apiRequest<{ contact: Contact }>(`${API_BASE}/${contactId}`, {
+    method: 'PATCH',
+    body: JSON.stringify(changes),
+  });
+  return result.success
+    ? { status: 'success', data: result.data.contact }
+    : { status: 'error', error: result.error };
+}
+
+/** Removes a contact */
+export async function deleteContact(contactId: number): Promise<ApiResponse<void>> {
+  const result = await apiRequest<void>(`${API_BASE}/${contactId}`, { method: 'DELETE' });
+  return result.success ? { status: 'success' } : { status: 'error', error: result.error };
+}
+
+export const contactService = {
+  fetchContacts,
+  suggestContacts,
+  createContact,
+  updateContact,
+  deleteContact,
+};
+
+export default contactService;
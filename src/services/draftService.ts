@@ -0,0 +1,48 @@
+/**
+ * Draft Service - API client for saving and discarding drafts
+ * Drafts are listed with emailService.fetchEmails({ filter: 'drafts' })
+ */
+
+import { ApiResponse, DraftRequest, Email } from '@/types';
+import { apiRequest } from '@/lib/apiClient';
+
+const API_BASE = '/api/drafts';
+
+/** Creates a draft; pass threadId to save a reply */
+export async function createDraft(draft: DraftRequest): Promise<ApiResponse<Email>> {
+  const result = await apiRequest<{ draft: Email }>(API_BASE, {
+    method: 'POST',
+    body: JSON.stringify(draft),
+  });
+  return result.success
+    ? { status: 'success', data: result.data.draft }
+    : { status: 'error', error: result.error };
+}
+
+/** Updates an existing draft */
+export async function updateDraft(
+  draftId: number,
+  draft: DraftRequest,
+): Promise<ApiResponse<Email>> {
+  const result = await apiRequest<{ draft: Email }>(API_BASE, {
+    method: 'PUT',
+    body: JSON.stringify({ id: draftId, ...draft }),
+  });
+  return result.success
+    ? { status: 'success', data: result.data.draft }
+    : { status: 'error', error: result.error };
+}
+
+/** Discards a draft permanently */
+export async function deleteDraft(draftId: number): Promise<ApiResponse<void>> {
+  const result = await apiRequest<void>(`${API_BASE}?id=${draftId}`, { method: 'DELETE' });
+  return result.success ? { status: 'success' } : { status: 'error', error: result.error };
+}
+
+export const draftService = {
+  createDraft,
+  updateDraft,
+  deleteDraft,
+};
+
+export default draftService;
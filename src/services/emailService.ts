@@ -5,9 +5,11 @@
 
 import {
   Email,
+  EmailPage,
   EmailStats,
   CreateEmailRequest,
   SearchEmailsRequest,
+  ExportRequest,
   ApiResponse,
 } from '@/types/email';
 import { apiRequest } from '@/lib/apiClient';
@@ -20,41 +22,76 @@ export interface EmailUpdateResponse {
   stats: EmailStats;
 }
 
-/** Builds query string from search parameters */
-function buildQueryString(params: SearchEmailsRequest): string {
+/** Builds query string from search or export parameters */
+function buildQueryString(params: SearchEmailsRequest | ExportRequest): string {
   const entries = Object.entries(params).filter(([, v]) => v !== undefined && v !== '');
   if (!entries.length) return '';
   return '?' + new URLSearchParams(entries.map(([k, v]) => [k, String(v)])).toString();
 }
 
-/** Fetches emails with optional search and filter parameters */
-export async function fetchEmails(params: SearchEmailsRequest = {}): Promise<ApiResponse<Email[]>> {
-  const result = await apiRequest<{ emails: Email[] }>(`${API_BASE}${buildQueryString(params)}`);
+/** Fetches a page of emails with optional search, filter and cursor parameters */
+export async function fetchEmails(
+  params: SearchEmailsRequest = {},
+): Promise<ApiResponse<EmailPage>> {
+  const result = await apiRequest<EmailPage>(`${API_BASE}${buildQueryString(params)}`);
   return result.success
-    ? { status: 'success', data: result.data.emails }
+    ? {
+        status: 'success',
+        data: { emails: result.data.emails, nextCursor: result.data.nextCursor ?? null },
+      }
     : { status: 'error', error: result.error };
 }
 
-/** Creates a new email */
-export async function createEmail(emailData: CreateEmailRequest): Promise<ApiResponse<Email>> {
-  const result = await apiRequest<{ email: Email }>(API_BASE, {
-    method: 'POST',
-    body: JSON.stringify(emailData),
+/** Builds a multipart body for an email with attachments */
+function toFormData({ attachments = [], ...fields }: CreateEmailRequest): FormData {
+  const formData = new FormData();
+  Object.entries(fields).forEach(([key, value]) => {
+    if (value !== undefined) formData.append(key, String(value));
   });
+  attachments.forEach((file) => formData.append('attachments', file));
+  return formData;
+}
+
+/** Creates a new email, uploading any attachments as multipart/form-data */
+export async function createEmail(emailData: CreateEmailRequest): Promise<ApiResponse<Email>> {
+  const result = await apiRequest<{ email: Email }>(
+    API_BASE,
+    emailData.attachments?.length
+      ? // Let the browser set the multipart Content-Type with its boundary
+        { method: 'POST', body: toFormData(emailData), headers: {} }
+      : { method: 'POST', body: JSON.stringify(emailData) },
+  );
   return result.success
     ? { status: 'success', data: result.data.email }
     : { status: 'error', error: result.error };
 }
 
-/** Deletes an email by ID or emails in a thread matching the filter */
+/** URL of an attachment, served inline for previews unless download is set */
+export function getAttachmentUrl(emailId: number, attachmentId: number, download = false): string {
+  return `${API_BASE}/${emailId}/attachments/${attachmentId}${download ? '?download=true' : ''}`;
+}
+
+/** URL that downloads a conversation, list view or search in the given format */
+export function getExportUrl(params: ExportRequest): string {
+  return `/api/export${buildQueryString(params)}`;
+}
+
+/** URL of the live event stream; lastEventId resumes after the last event seen */
+export function getEventsUrl(lastEventId?: string | null): string {
+  return `/api/events${lastEventId ? `?lastEventId=${encodeURIComponent(lastEventId)}` : ''}`;
+}
+
+/** Deletes an email by ID or emails in a thread matching the filter; permanent hard-deletes from the trash */
 export async function deleteEmail(
   emailId: number,
   threadId?: string,
   filter?: string,
+  permanent?: boolean,
 ): Promise<ApiResponse<void>> {
-  const params = threadId
-    ? `threadId=${threadId}${filter ? `&filter=${encodeURIComponent(filter)}` : ''}`
-    : `id=${emailId}`;
+  const params =
+    (threadId
+      ? `threadId=${threadId}${filter ? `&filter=${encodeURIComponent(filter)}` : ''}`
+      : `id=${emailId}`) + (permanent ? '&permanent=true' : '');
 
   const result = await apiRequest<void>(`${API_BASE}?${params}`, { method: 'DELETE' });
   return result.success
@@ -62,6 +99,16 @@ export async function deleteEmail(
     : { status: 'error', error: result.error };
 }
 
+/** Permanently deletes everything in the trash */
+export async function emptyTrash(): Promise<ApiResponse<{ deleted: number; stats: EmailStats }>> {
+  const result = await apiRequest<{ deleted: number; stats: EmailStats }>(`${API_BASE}/trash`, {
+    method: 'DELETE',
+  });
+  return result.success
+    ? { status: 'success', data: { deleted: result.data.deleted, stats: result.data.stats } }
+    : { status: 'error', error: result.error };
+}
+
 /** Marks an email as read */
 export async function markAsRead(emailId: number): Promise<ApiResponse<EmailUpdateResponse>> {
   return patchEmail({ id: emailId, isRead: true });
@@ -84,6 +131,67 @@ export async function restoreEmail(
   return patchEmail(threadId ? { threadId, isDeleted: false } : { id: emailId, isDeleted: false });
 }
 
+/** Adds and/or removes labels on an email or all emails in a thread */
+export async function updateEmailLabels(
+  emailId: number,
+  changes: { addLabelIds?: number[]; removeLabelIds?: number[] },
+  threadId?: string,
+): Promise<ApiResponse<EmailUpdateResponse>> {
+  return patchEmail(threadId ? { threadId, ...changes } : { id: emailId, ...changes });
+}
+
+/** Snoozes an email or all emails in a thread until the given ISO date; null unsnoozes */
+export async function snoozeEmail(
+  emailId: number,
+  snoozedUntil: string | null,
+  threadId?: string,
+): Promise<ApiResponse<EmailUpdateResponse>> {
+  return patchEmail(threadId ? { threadId, snoozedUntil } : { id: emailId, snoozedUntil });
+}
+
+/** Archives an email or all emails in a thread; isArchived false moves them back to the inbox */
+export async function archiveEmail(
+  emailId: number,
+  isArchived: boolean,
+  threadId?: string,
+): Promise<ApiResponse<EmailUpdateResponse>> {
+  return patchEmail(threadId ? { threadId, isArchived } : { id: emailId, isArchived });
+}
+
+/** Moves a scheduled email to a new send time */
+export async function rescheduleEmail(
+  emailId: number,
+  scheduledAt: string,
+): Promise<ApiResponse<Email>> {
+  const result = await apiRequest<{ email: Email }>(`${API_BASE}/${emailId}/schedule`, {
+    method: 'PUT',
+    body: JSON.stringify({ scheduledAt }),
+  });
+  return result.success
+    ? { status: 'success', data: result.data.email }
+    : { status: 'error', error: result.error };
+}
+
+/** Cancels a scheduled send, keeping the email as a draft */
+export async function cancelScheduledEmail(emailId: number): Promise<ApiResponse<Email>> {
+  const result = await apiRequest<{ draft: Email }>(`${API_BASE}/${emailId}/schedule`, {
+    method: 'DELETE',
+  });
+  return result.success
+    ? { status: 'success', data: result.data.draft }
+    : { status: 'error', error: result.error };
+}
+
+/** Sends an email whose delivery failed again, straight away */
+export async function retryDelivery(emailId: number): Promise<ApiResponse<Email>> {
+  const result = await apiRequest<{ email: Email }>(`${API_BASE}/${emailId}/delivery`, {
+    method: 'POST',
+  });
+  return result.success
+    ? { status: 'success', data: result.data.email }
+    : { status: 'error', error: result.error };
+}
+
 /** Helper for PATCH requests */
 async function patchEmail(
   body: Record<string, unknown>,
@@ -105,17 +213,25 @@ export async function fetchStats(): Promise<ApiResponse<EmailStats>> {
     : { status: 'error', error: result.error };
 }
 
-/** Fetches emails in a thread, filtered by current view */
+/** Fetches a page of emails in a thread (oldest first), filtered by current view */
 export async function fetchThread(
   threadId: string,
   filter?: string,
-): Promise<ApiResponse<Email[]>> {
-  const params = filter ? `?filter=${encodeURIComponent(filter)}` : '';
-  const result = await apiRequest<{ emails: Email[] }>(
-    `${API_BASE}/thread/${encodeURIComponent(threadId)}${params}`,
+  cursor?: string,
+): Promise<ApiResponse<EmailPage>> {
+  const params = new URLSearchParams();
+  if (filter) params.set('filter', filter);
+  if (cursor) params.set('cursor', cursor);
+  const query = params.toString();
+
+  const result = await apiRequest<EmailPage>(
+    `${API_BASE}/thread/${encodeURIComponent(threadId)}${query ? `?${query}` : ''}`,
   );
   return result.success
-    ? { status: 'success', data: result.data.emails }
+    ? {
+        status: 'success',
+        data: { emails: result.data.emails, nextCursor: result.data.nextCursor ?? null },
+      }
     : { status: 'error', error: result.error };
 }
 
@@ -124,10 +240,20 @@ export const emailService = {
   fetchStats,
   fetchThread,
   createEmail,
+  getAttachmentUrl,
+  getExportUrl,
+  getEventsUrl,
   deleteEmail,
+  emptyTrash,
   markAsRead,
   toggleImportant,
   restoreEmail,
+  updateEmailLabels,
+  snoozeEmail,
+  archiveEmail,
+  rescheduleEmail,
+  cancelScheduledEmail,
+  retryDelivery,
 };
 
 export default emailService;
@@ -3,3 +3,17 @@
  */
 export { default as emailService } from './emailService';
 export * from './emailService';
+export { default as labelService } from './labelService';
+export * from './labelService';
+export { default as draftService } from './draftService';
+export * from './draftService';
+export { default as authService } from './authService';
+export * from './authService';
+export { default as mailboxService } from './mailboxService';
+export * from './mailboxService';
+export { default as contactService } from './contactService';
+export * from './contactService';
+export { default as leadService } from './leadService';
+export * from './leadService';
+export { default as templateService } from './templateService';
+export * from './templateService';
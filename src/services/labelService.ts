@@ -0,0 +1,56 @@
+/**
+ * Label Service - API client for label operations
+ */
+
+import { ApiResponse, Label, LabelRequest, LabelWithCounts } from '@/types';
+import { apiRequest } from '@/lib/apiClient';
+
+const API_BASE = '/api/labels';
+
+/** Fetches all labels with their unread counts */
+export async function fetchLabels(): Promise<ApiResponse<LabelWithCounts[]>> {
+  const result = await apiRequest<{ labels: LabelWithCounts[] }>(API_BASE);
+  return result.success
+    ? { status: 'success', data: result.data.labels }
+    : { status: 'error', error: result.error };
+}
+
+/** Creates a new label */
+export async function createLabel(label: LabelRequest): Promise<ApiResponse<Label>> {
+  const result = await apiRequest<{ label: Label }>(API_BASE, {
+    method: 'POST',
+    body: JSON.stringify(label),
+  });
+  return result.success
+    ? { status: 'success', data: result.data.label }
+    : { status: 'error', error: result.error };
+}
+
+/** Renames and/or recolours a label */
+export async function updateLabel(
+  labelId: number,
+  changes: Partial<LabelRequest>,
+): Promise<ApiResponse<Label>> {
+  const result = await apiRequest<{ label: Label }>(`${API_BASE}/${labelId}`, {
+    method: 'PATCH',
+    body: JSON.stringify(changes),
+  });
+  return result.success
+    ? { status: 'success', data: result.data.label }
+    : { status: 'error', error: result.error };
+}
+
+/** Deletes a label and removes it from all emails */
+export async function deleteLabel(labelId: number): Promise<ApiResponse<void>> {
+  const result = await apiRequest<void>(`${API_BASE}/${labelId}`, { method: 'DELETE' });
+  return result.success ? { status: 'success' } : { status: 'error', error: result.error };
+}
+
+export const labelService = {
+  fetchLabels,
+  createLabel,
+  updateLabel,
+  deleteLabel,
+};
+
+export default labelService;
@@ -0,0 +1,110 @@
+/**
+ * Lead Service - API client for lead lists and their CSV imports
+ */
+
+import {
+  ApiResponse,
+  Lead,
+  LeadColumnMapping,
+  LeadImportResult,
+  LeadListDetails,
+  LeadListWithCounts,
+  LeadThread,
+} from '@/types';
+import { apiRequest } from '@/lib/apiClient';
+
+const API_BASE = '/api/lead-lists';
+
+/** Fetches all lead lists with the number of leads on each */
+export async function fetchLeadLists(): Promise<ApiResponse<LeadListWithCounts[]>> {
+  const result = await apiRequest<{ lists: LeadListWithCounts[] }>(API_BASE);
+  return result.success
+    ? { status: 'success', data: result.data.lists }
+    : { status: 'error', error: result.error };
+}
+
+/** Fetches a lead list with its leads */
+export async function fetchLeadList(listId: number): Promise<ApiResponse<LeadListDetails>> {
+  const result = await apiRequest<LeadListDetails>(`${API_BASE}/${listId}`);
+  return result.success
+    ? { status: 'success', data: { list: result.data.list, leads: result.data.leads } }
+    : { status: 'error', error: result.error };
+}
+
+/** Creates an empty lead list */
+export async function createLeadList(name: string): Promise<ApiResponse<LeadListWithCounts>> {
+  const result = await apiRequest<{ list: LeadListWithCounts }>(API_BASE, {
+    method: 'POST',
+    body: JSON.stringify({ name }),
+  });
+  return result.success
+    ? { status: 'success', data: result.data.list }
+    : { status: 'error', error: result.error };
+}
+
+/** Deletes a lead list and its leads */
+export async function deleteLeadList(listId: number): Promise<ApiResponse<void>> {
+  const result = await apiRequest<void>(`${API_BASE}/${listId}`, { method: 'DELETE' });
+  return result.success ? { status: 'success' } : { status: 'error', error: result.error };
+}
+
+/**
+ * Imports a CSV file into a lead list, sending the file as it is so the server can read it
+ * row by row. Fields the mapping leaves out are guessed from the file's headers; an empty
+ * column imports nothing into the field
+ */
+export async function importLeads(
+  listId: number,
+  file: Blob,
+  mapping: LeadColumnMapping = {},
+): Promise<ApiResponse<LeadImportResult>> {
+  const params = new URLSearchParams(
+    Object.entries(mapping).filter((entry): entry is [string, string] => entry[1] !== undefined),
+  );
+  const result = await apiRequest<LeadImportResult>(`${API_BASE}/${listId}/import?${params}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'text/csv' },
+    body: file,
+  });
+  return result.success
+    ? {
+        status: 'success',
+        data: {
+          imported: result.data.imported,
+          updated: result.data.updated,
+          failed: result.data.failed,
+        },
+      }
+    : { status: 'error', error: result.error };
+}
+
+/** Fetches the conversations with a lead, most recent first */
+export async function fetchLeadThreads(leadId: number): Promise<ApiResponse<LeadThread[]>> {
+  const result = await apiRequest<{ threads: LeadThread[] }>(`/api/leads/${leadId}/threads`);
+  return result.success
+    ? { status: 'success', data: result.data.threads }
+    : { status: 'error', error: result.error };
+}
+
+/** Fetches the leads that best match a partly typed name, address or company */
+export async function suggestLeads(query: string, limit?: number): Promise<ApiResponse<Lead[]>> {
+  const params = new URLSearchParams({ q: query });
+  if (limit !== undefined) params.set('limit', String(limit));
+
+  const result = await apiRequest<{ leads: Lead[] }>(`/api/leads/suggest?${params}`);
+  return result.success
+    ? { status: 'success', data: result.data.leads }
+    : { status: 'error', error: result.error };
+}
+
+export const leadService = {
+  fetchLeadLists,
+  fetchLeadList,
+  createLeadList,
+  deleteLeadList,
+  importLeads,
+  fetchLeadThreads,
+  suggestLeads,
+};
+
+export default leadService;
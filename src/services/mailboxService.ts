@@ -0,0 +1,56 @@
+/**
+ * Mailbox Service - API client for the user's sending identities
+ */
+
+import { ApiResponse, Mailbox, MailboxRequest, MailboxWithCounts } from '@/types';
+import { apiRequest } from '@/lib/apiClient';
+
+const API_BASE = '/api/mailboxes';
+
+/** Fetches all mailboxes with their unread counts */
+export async function fetchMailboxes(): Promise<ApiResponse<MailboxWithCounts[]>> {
+  const result = await apiRequest<{ mailboxes: MailboxWithCounts[] }>(API_BASE);
+  return result.success
+    ? { status: 'success', data: result.data.mailboxes }
+    : { status: 'error', error: result.error };
+}
+
+/** Adds a mailbox */
+export async function createMailbox(mailbox: MailboxRequest): Promise<ApiResponse<Mailbox>> {
+  const result = await apiRequest<{ mailbox: Mailbox }>(API_BASE, {
+    method: 'POST',
+    body: JSON.stringify(mailbox),
+  });
+  return result.success
+    ? { status: 'success', data: result.data.mailbox }
+    : { status: 'error', error: result.error };
+}
+
+/** Changes a mailbox's display name and/or signature */
+export async function updateMailbox(
+  mailboxId: number,
+  changes: Omit<Partial<MailboxRequest>, 'address'>,
+): Promise<ApiResponse<Mailbox>> {
+  const result = await apiRequest<{ mailbox: Mailbox }>(`${API_BASE}/${mailboxId}`, {
+    method: 'PATCH',
+    body: JSON.stringify(changes),
+  });
+  return result.success
+    ? { status: 'success', data: result.data.mailbox }
+    : { status: 'error', error: result.error };
+}
+
+/** Removes a mailbox, keeping its emails */
+export async function deleteMailbox(mailboxId: number): Promise<ApiResponse<void>> {
+  const result = await apiRequest<void>(`${API_BASE}/${mailboxId}`, { method: 'DELETE' });
+  return result.success ? { status: 'success' } : { status: 'error', error: result.error };
+}
+
+export const mailboxService = {
+  fetchMailboxes,
+  createMailbox,
+  updateMailbox,
+  deleteMailbox,
+};
+
+export default mailboxService;
@@ -0,0 +1,67 @@
+/**
+ * Template Service - API client for email template operations
+ */
+
+import { ApiResponse, Template, TemplateRequest } from '@/types';
+import { apiRequest } from '@/lib/apiClient';
+
+const API_BASE = '/api/templates';
+
+/** Fetches all templates, grouped by category */
+export async function fetchTemplates(): Promise<ApiResponse<Template[]>> {
+  const result = await apiRequest<{ templates: Template[] }>(API_BASE);
+  return result.success
+    ? { status: 'success', data: result.data.templates }
+    : { status: 'error', error: result.error };
+}
+
+/** Creates a new template */
+export async function createTemplate(template: TemplateRequest): Promise<ApiResponse<Template>> {
+  const result = await apiRequest<{ template: Template }>(API_BASE, {
+    method: 'POST',
+    body: JSON.stringify(template),
+  });
+  return result.success
+    ? { status: 'success', data: result.data.template }
+    : { status: 'error', error: result.error };
+}
+
+/** Updates any of a template's fields */
+export async function updateTemplate(
+  templateId: number,
+  changes: Partial<TemplateRequest>,
+): Promise<ApiResponse<Template>> {
+  const result = await apiRequest<{ template: Template }>(`${API_BASE}/${templateId}`, {
+    method: 'PATCH',
+    body: JSON.stringify(changes),
+  });
+  return result.success
+    ? { status: 'success', data: result.data.template }
+    : { status: 'error', error: result.error };
+}
+
+/** Deletes a template */
+export async function deleteTemplate(templateId: number): Promise<ApiResponse<void>> {
+  const result = await apiRequest<void>(`${API_BASE}/${templateId}`, { method: 'DELETE' });
+  return result.success ? { status: 'success' } : { status: 'error', error: result.error };
+}
+
+/** Counts one use of a template, when it is inserted into a message */
+export async function recordTemplateUse(templateId: number): Promise<ApiResponse<Template>> {
+  const result = await apiRequest<{ template: Template }>(`${API_BASE}/${templateId}/use`, {
+    method: 'POST',
+  });
+  return result.success
+    ? { status: 'success', data: result.data.template }
+    : { status: 'error', error: result.error };
+}
+
+export const templateService = {
+  fetchTemplates,
+  createTemplate,
+  updateTemplate,
+  deleteTemplate,
+  recordTemplateUse,
+};
+
+export default templateService;
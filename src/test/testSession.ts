@@ -0,0 +1,40 @@
+/**
+ * Test Session - Signs a throwaway user in for API route tests
+ * Test code only: lint keeps app code from importing src/test, so nothing there can sign a user
+ * in without their password
+ * Each call creates a new user with a unique address, so tests can check that one user's
+ * mail never reaches another
+ */
+
+import { randomUUID } from 'crypto';
+import { NextRequest } from 'next/server';
+import { createSession, createUser } from '@/lib/userQueries';
+import { SESSION_COOKIE, SessionUser } from '@/types';
+
+type RequestInit = ConstructorParameters<typeof NextRequest>[1];
+
+export interface TestSession {
+  user: SessionUser;
+  /** Builds a request that carries the user's session cookie */
+  request: (url: string, init?: RequestInit) => NextRequest;
+}
+
+/**
+ * Creates a user and signs them in
+ * @param email - Any address ending in @test.example, which the test setup deletes afterwards
+ */
+export async function createTestSession(
+  email: string = `user-${randomUUID()}@test.example`,
+): Promise<TestSession> {
+  const user = await createUser({ email, password: 'correct horse battery staple' });
+  const { token } = await createSession(user.id);
+
+  return {
+    user,
+    request: (url, init = {}) => {
+      const headers = new Headers(init.headers);
+      headers.append('cookie', `${SESSION_COOKIE}=${token}`);
+      return new NextRequest(url, { ...init, headers });
+    },
+  };
+}
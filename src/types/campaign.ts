@@ -0,0 +1,63 @@
+/**
+ * Campaign (outreach sequence) type definitions
+ */
+
+import { Campaign, CampaignLead, CampaignStatus, LeadStatus, SequenceStep } from '@/lib/schema';
+
+// Re-export for convenience
+export type { Campaign, CampaignLead, SequenceStep };
+export { CampaignStatus, LeadStatus };
+
+/** Most steps a campaign's sequence may have */
+export const MAX_SEQUENCE_STEPS = 10;
+
+/** Longest wait allowed between two steps */
+export const MAX_STEP_DELAY_DAYS = 365;
+
+/**
+ * Tries at sending a lead the step they are due before the lead is marked failed, and the wait
+ * between them
+ */
+export const MAX_STEP_ATTEMPTS = 3;
+export const STEP_RETRY_DELAY_MS = 60 * 60 * 1000;
+
+/**
+ * Campaign as listed, with the number of steps and of leads in each status
+ */
+export type CampaignSummary = Campaign & {
+  stepCount: number;
+  leadCounts: Record<LeadStatus, number>;
+};
+
+/**
+ * Campaign with its whole sequence and every lead
+ */
+export type CampaignWithDetails = Campaign & {
+  steps: SequenceStep[];
+  leads: CampaignLead[];
+};
+
+/**
+ * One step of the sequence in a request to create a campaign
+ */
+export interface SequenceStepRequest {
+  /** Required for the first step; a follow-up without one replies to the first step's subject */
+  subject?: string;
+  content: string;
+  /** Days after the previous step (for the first, after the lead is enrolled); defaults to 0 */
+  delayDays?: number;
+  /** Defaults to true */
+  stopOnReply?: boolean;
+}
+
+/**
+ * API request payload for creating a campaign
+ */
+export interface CampaignRequest {
+  name: string;
+  /** Mailbox address to send from; the primary mailbox when omitted */
+  from?: string;
+  steps: SequenceStepRequest[];
+  /** Address list of leads to enrol straight away */
+  leads?: string;
+}
@@ -0,0 +1,25 @@
+/**
+ * Contact type definitions
+ */
+
+import { Contact } from '@/lib/schema';
+
+// Re-export for convenience
+export type { Contact };
+
+/** Suggestions returned for a partly typed recipient when the client does not pass a limit */
+export const DEFAULT_CONTACT_SUGGESTIONS = 8;
+
+/** Most suggestions a client may request */
+export const MAX_CONTACT_SUGGESTIONS = 20;
+
+/** Delay after the last keystroke before recipient suggestions are fetched */
+export const CONTACT_SUGGEST_DEBOUNCE_MS = 200;
+
+/**
+ * API request payload for adding or updating a contact
+ */
+export interface ContactRequest {
+  address: string;
+  name?: string | null;
+}
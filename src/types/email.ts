@@ -3,16 +3,79 @@
  * Centralized type system for the email client
  */
 
-import { Email, EmailDirection } from '@/lib/schema';
+import {
+  Attachment,
+  DeliveryStatus,
+  Email,
+  EmailDirection,
+  EmailStatus,
+  Label,
+} from '@/lib/schema';
 
 // Re-export for convenience
-export type { Email };
-export { EmailDirection };
+export type { Attachment, Email };
+export { DeliveryStatus, EmailDirection, EmailStatus };
+
+/**
+ * Email as returned by list queries
+ * `snippet` is set when the list comes from a search and holds a highlighted excerpt
+ * `attachments` and `labels` are set by the list and thread endpoints
+ */
+export type EmailSearchResult = Email & {
+  snippet?: string;
+  attachments?: Attachment[];
+  labels?: Label[];
+};
+
+/**
+ * Live update pushed to clients by GET /api/events
+ * mailbox.changed means too many emails changed to describe one by one, and clients refetch
+ */
+export type MailEventPayload =
+  | { type: 'email.created'; email: EmailSearchResult }
+  | { type: 'email.updated'; emails: EmailSearchResult[] }
+  | { type: 'email.deleted'; ids: number[] }
+  | { type: 'stats.changed'; stats: EmailStats }
+  | { type: 'mailbox.changed' };
+
+/**
+ * One page of a cursor-paginated email list or thread
+ * `nextCursor` is null on the last page
+ */
+export interface EmailPage {
+  emails: EmailSearchResult[];
+  nextCursor: string | null;
+}
+
+/**
+ * Built-in sidebar folders
+ */
+export const FOLDER_FILTERS = [
+  'inbox',
+  'important',
+  'snoozed',
+  'sent',
+  'scheduled',
+  'drafts',
+  'all',
+  'archive',
+  'unread',
+  'trash',
+] as const;
+
+export type FolderFilter = (typeof FOLDER_FILTERS)[number];
+
+/**
+ * Filter selecting emails with a user-defined label, e.g. `label:Work`
+ */
+export type LabelFilter = `label:${string}`;
+
+export const LABEL_FILTER_PREFIX = 'label:';
 
 /**
  * Sidebar filter options
  */
-export type EmailFilter = 'inbox' | 'important' | 'sent' | 'unread' | 'trash';
+export type EmailFilter = FolderFilter | LabelFilter;
 
 /**
  * Email form data for composing new emails
@@ -29,6 +92,8 @@ export interface EmailComposerFormData {
  * API request payload for creating emails
  */
 export interface CreateEmailRequest {
+  /** Address of one of the user's mailboxes; their primary mailbox when omitted */
+  from?: string;
   subject: string;
   to: string;
   cc?: string;
@@ -36,6 +101,47 @@ export interface CreateEmailRequest {
   content: string;
   threadId?: string;
   direction?: EmailDirection;
+  /** Sent as multipart/form-data when present */
+  attachments?: File[];
+  /** Draft this email was composed from; deleted once the email is sent */
+  draftId?: number;
+  /** ISO date to send at instead of immediately; must be in the future */
+  scheduledAt?: string;
+  /** False to send without the sender's signature; the composer inserts it itself */
+  appendSignature?: boolean;
+  /**
+   * True to render mail merge variables and spintax for each To recipient, who each get their
+   * own copy; quoted text of a reply is left as it is
+   */
+  merge?: boolean;
+  /** RFC 5322 headers of an imported email; messageId is generated when absent */
+  messageId?: string;
+  inReplyTo?: string;
+  references?: string;
+}
+
+/**
+ * API request payload for saving a draft
+ * All fields are optional - drafts may be incomplete
+ */
+export interface DraftRequest {
+  subject?: string;
+  to?: string;
+  cc?: string;
+  bcc?: string;
+  content?: string;
+  /** Address of the mailbox the draft is written from; the primary mailbox when blank */
+  from?: string;
+  /** Thread the draft replies to; set on creation only */
+  threadId?: string;
+}
+
+/**
+ * Named quick choice in a date picker, e.g. "Tomorrow morning"
+ */
+export interface DatePreset {
+  label: string;
+  date: Date;
 }
 
 /**
@@ -45,6 +151,21 @@ export interface SearchEmailsRequest {
   query?: string;
   filter?: EmailFilter;
   threaded?: boolean;
+  /** Mailbox ID to list; every account when omitted */
+  account?: number;
+  limit?: number;
+  cursor?: string;
+}
+
+/**
+ * Request parameters for an export download: one conversation, or a list view or search
+ */
+export interface ExportRequest extends Pick<
+  SearchEmailsRequest,
+  'query' | 'filter' | 'threaded' | 'account'
+> {
+  format: ExportFormat;
+  threadId?: string;
 }
 
 /**
@@ -65,6 +186,10 @@ export interface EmailStats {
   important: number;
   deleted: number;
   sent: number;
+  /** Outgoing emails waiting to be sent; not included in sent */
+  scheduled: number;
+  /** Archived emails; not included in total or unread */
+  archived: number;
 }
 
 /**
@@ -82,3 +207,62 @@ export const EMPTY_COMPOSER_FORM: EmailComposerFormData = {
  * Debounce delay for search input (in milliseconds)
  */
 export const SEARCH_DEBOUNCE_MS = 300;
+
+/**
+ * Debounce delay before the composer autosaves a draft (in milliseconds)
+ */
+export const DRAFT_AUTOSAVE_DELAY_MS = 1000;
+
+/**
+ * Days an email stays in the trash before it is permanently deleted
+ * Overridden with the TRASH_RETENTION_DAYS environment variable
+ */
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+/**
+ * Delivery retries: attempts before an outgoing email is left as failed, and the delay
+ * before the first retry (doubled after each further failure)
+ */
+export const MAX_DELIVERY_ATTEMPTS = 5;
+export const DELIVERY_RETRY_BASE_MS = 60 * 1000;
+
+/**
+ * Right-hand side of generated Message-IDs
+ */
+export const MESSAGE_ID_DOMAIN = 'company.com';
+
+/**
+ * Markers wrapped around matched terms in search snippets
+ */
+export const SEARCH_HIGHLIGHT_START = '<mark>';
+export const SEARCH_HIGHLIGHT_END = '</mark>';
+
+/**
+ * Attachment size limits (in bytes), enforced by the composer and the API
+ */
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+export const MAX_EMAIL_ATTACHMENTS_SIZE = 25 * 1024 * 1024;
+
+/**
+ * Upload limit for POST /api/import (in bytes); larger mailboxes go through `npm run import`
+ */
+export const MAX_IMPORT_SIZE = 50 * 1024 * 1024;
+
+/**
+ * Export formats: an mbox file, a zip of .eml files, or newline-delimited JSON
+ */
+export const EXPORT_FORMATS = ['mbox', 'eml', 'json'] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+/**
+ * Attachment types that are safe to serve inline and can be previewed
+ */
+export const PREVIEWABLE_IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp'];
+export const PREVIEWABLE_PDF_TYPE = 'application/pdf';
+
+/**
+ * Largest raw message accepted by the inbound webhook and SMTP listener (in bytes)
+ * Leaves room for base64-encoded attachments at the per-email limit
+ */
+export const MAX_INBOUND_MESSAGE_SIZE = 35 * 1024 * 1024;
@@ -2,3 +2,10 @@
  * Types barrel export
  */
 export * from './email';
+export * from './label';
+export * from './user';
+export * from './mailbox';
+export * from './contact';
+export * from './campaign';
+export * from './lead';
+export * from './template';
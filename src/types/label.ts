@@ -0,0 +1,38 @@
+/**
+ * Label-related type definitions and constants
+ */
+
+import { Label } from '@/lib/schema';
+
+// Re-export for convenience
+export type { Label };
+
+/**
+ * Label with the number of unread, non-deleted incoming emails carrying it
+ */
+export type LabelWithCounts = Label & { unreadCount: number };
+
+/**
+ * API request payload for creating or updating a label
+ */
+export interface LabelRequest {
+  name: string;
+  color: string;
+}
+
+/**
+ * Colours offered when creating a label; the first is the default
+ */
+export const LABEL_COLORS = [
+  '#1976d2',
+  '#388e3c',
+  '#f57c00',
+  '#d32f2f',
+  '#7b1fa2',
+  '#0097a7',
+  '#5d4037',
+  '#616161',
+];
+
+/** Maximum length of a label name */
+export const MAX_LABEL_NAME_LENGTH = 50;
@@ -0,0 +1,77 @@
+/**
+ * Lead (prospect list) type definitions
+ */
+
+import { Lead, LeadList } from '@/lib/schema';
+
+// Re-export for convenience
+export type { Lead, LeadList };
+
+/** Longest lead list name */
+export const MAX_LEAD_LIST_NAME_LENGTH = 100;
+
+/**
+ * Lead list with the number of leads on it
+ */
+export type LeadListWithCounts = LeadList & { leadCount: number };
+
+/**
+ * Lead list with its leads, in the order they were imported
+ */
+export interface LeadListDetails {
+  list: LeadListWithCounts;
+  leads: Lead[];
+}
+
+/**
+ * Lead fields a CSV column can be mapped to; every other column becomes a custom field
+ */
+export type LeadField = 'address' | 'firstName' | 'company';
+
+export const LEAD_FIELDS: LeadField[] = ['address', 'firstName', 'company'];
+
+/**
+ * Column headers recognised for each field when an import does not map it, compared ignoring
+ * case, spaces and punctuation
+ */
+export const LEAD_FIELD_ALIASES: Record<LeadField, string[]> = {
+  address: ['email', 'emailaddress', 'mail', 'address'],
+  firstName: ['firstname', 'first', 'givenname', 'forename'],
+  company: ['company', 'companyname', 'organization', 'organisation', 'org'],
+};
+
+/**
+ * CSV column header for each lead field
+ */
+export type LeadColumnMapping = Partial<Record<LeadField, string>>;
+
+/**
+ * A CSV row that could not be imported, numbered as in a spreadsheet (the header is row 1)
+ */
+export interface LeadImportFailure {
+  row: number;
+  address?: string;
+  error: string;
+}
+
+/**
+ * Outcome of a CSV import: new leads, existing leads whose fields were filled in, and the rows
+ * that were rejected
+ */
+export interface LeadImportResult {
+  imported: number;
+  updated: number;
+  failed: LeadImportFailure[];
+}
+
+/**
+ * A conversation with a lead: a thread with an email from, to or copied to their address
+ */
+export interface LeadThread {
+  threadId: string;
+  subject: string;
+  /** The latest email, to open the conversation from */
+  emailId: number;
+  emailCount: number;
+  lastEmailAt: Date;
+}
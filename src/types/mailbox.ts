@@ -0,0 +1,25 @@
+/**
+ * Mailbox (sending identity) type definitions
+ */
+
+import { Mailbox } from '@/lib/schema';
+
+// Re-export for convenience
+export type { Mailbox };
+
+/**
+ * Mailbox with the number of unread emails in its inbox
+ */
+export type MailboxWithCounts = Mailbox & { unreadCount: number };
+
+/**
+ * API request payload for adding or updating a mailbox
+ * The address cannot be changed once the mailbox is created. An HTML signature replaces the
+ * plain-text one, whose text it becomes; a plain-text signature clears an HTML one
+ */
+export interface MailboxRequest {
+  address: string;
+  displayName?: string | null;
+  signature?: string | null;
+  signatureHtml?: string | null;
+}
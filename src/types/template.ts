@@ -0,0 +1,25 @@
+/**
+ * Email template type definitions
+ */
+
+import { Template } from '@/lib/schema';
+
+// Re-export for convenience
+export type { Template };
+
+/** Longest template name */
+export const MAX_TEMPLATE_NAME_LENGTH = 100;
+
+/** Longest template category */
+export const MAX_TEMPLATE_CATEGORY_LENGTH = 50;
+
+/**
+ * API request payload for creating or updating a template
+ * A blank category leaves the template uncategorised
+ */
+export interface TemplateRequest {
+  name: string;
+  subject: string;
+  body: string;
+  category: string | null;
+}
@@ -0,0 +1,27 @@
+/**
+ * User and session type definitions and constants
+ */
+
+import { User } from '@/lib/schema';
+
+/**
+ * The signed-in user as exposed to the app - never includes the password hash
+ */
+export type SessionUser = Pick<User, 'id' | 'email' | 'name'>;
+
+/**
+ * API request payload for signing in
+ */
+export interface LoginRequest {
+  email: string;
+  password: string;
+}
+
+/** Name of the cookie holding the session token */
+export const SESSION_COOKIE = 'session';
+
+/** How long a sign-in lasts */
+export const SESSION_MAX_AGE_DAYS = 30;
+
+/** Shortest password accepted for a new user */
+export const MIN_PASSWORD_LENGTH = 8;